@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "BrowserTab" ADD COLUMN "navigationIndex" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "TabNavigationEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tabId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "title" TEXT NOT NULL DEFAULT '',
+    "scrollX" INTEGER NOT NULL DEFAULT 0,
+    "scrollY" INTEGER NOT NULL DEFAULT 0,
+    "pageState" TEXT,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TabNavigationEntry_tabId_fkey" FOREIGN KEY ("tabId") REFERENCES "BrowserTab" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TabNavigationEntry_tabId_idx" ON "TabNavigationEntry"("tabId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TabNavigationEntry_tabId_index_key" ON "TabNavigationEntry"("tabId", "index");
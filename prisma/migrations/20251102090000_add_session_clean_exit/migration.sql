@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SessionData" ADD COLUMN "cleanExit" BOOLEAN NOT NULL DEFAULT true;
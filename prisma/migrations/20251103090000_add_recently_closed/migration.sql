@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "RecentlyClosedEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL DEFAULT 'tab',
+    "closedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "RecentlyClosedTab" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "entryId" TEXT NOT NULL,
+    "originalIndex" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "title" TEXT NOT NULL DEFAULT '',
+    "favicon" TEXT,
+    "isPinned" BOOLEAN NOT NULL DEFAULT false,
+    "isMuted" BOOLEAN NOT NULL DEFAULT false,
+    "navigationIndex" INTEGER NOT NULL DEFAULT 0,
+    "navigationEntries" TEXT NOT NULL DEFAULT '[]',
+    CONSTRAINT "RecentlyClosedTab_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "RecentlyClosedEntry" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "RecentlyClosedEntry_closedAt_idx" ON "RecentlyClosedEntry"("closedAt");
+
+-- CreateIndex
+CREATE INDEX "RecentlyClosedTab_entryId_idx" ON "RecentlyClosedTab"("entryId");
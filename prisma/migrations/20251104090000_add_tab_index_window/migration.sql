@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "BrowserTab" ADD COLUMN "index" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "BrowserTab" ADD COLUMN "windowId" TEXT;
+
+-- 기존 탭 위치 초기화 (고정 탭 우선, 생성 순서)
+UPDATE "BrowserTab" SET "index" = (
+    SELECT COUNT(*) FROM "BrowserTab" AS "other"
+    WHERE "other"."isPinned" > "BrowserTab"."isPinned"
+       OR ("other"."isPinned" = "BrowserTab"."isPinned" AND "other"."createdAt" < "BrowserTab"."createdAt")
+       OR ("other"."isPinned" = "BrowserTab"."isPinned" AND "other"."createdAt" = "BrowserTab"."createdAt" AND "other"."id" < "BrowserTab"."id")
+);
+
+-- CreateIndex
+CREATE INDEX "BrowserTab_windowId_index_idx" ON "BrowserTab"("windowId", "index");
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "TabGroup" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL DEFAULT '',
+    "color" TEXT NOT NULL DEFAULT 'grey',
+    "collapsed" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- AlterTable
+ALTER TABLE "SessionData" ADD COLUMN "tabGroups" TEXT NOT NULL DEFAULT '[]';
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_BrowserTab" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "url" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "favicon" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "isMuted" BOOLEAN NOT NULL DEFAULT false,
+    "isPinned" BOOLEAN NOT NULL DEFAULT false,
+    "index" INTEGER NOT NULL DEFAULT 0,
+    "windowId" TEXT,
+    "groupId" TEXT,
+    "navigationIndex" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "BrowserTab_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "TabGroup" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_BrowserTab" ("createdAt", "favicon", "id", "index", "isActive", "isMuted", "isPinned", "navigationIndex", "title", "updatedAt", "url", "windowId") SELECT "createdAt", "favicon", "id", "index", "isActive", "isMuted", "isPinned", "navigationIndex", "title", "updatedAt", "url", "windowId" FROM "BrowserTab";
+DROP TABLE "BrowserTab";
+ALTER TABLE "new_BrowserTab" RENAME TO "BrowserTab";
+CREATE INDEX "BrowserTab_url_idx" ON "BrowserTab"("url");
+CREATE INDEX "BrowserTab_isActive_idx" ON "BrowserTab"("isActive");
+CREATE INDEX "BrowserTab_updatedAt_idx" ON "BrowserTab"("updatedAt");
+CREATE INDEX "BrowserTab_windowId_index_idx" ON "BrowserTab"("windowId", "index");
+CREATE INDEX "BrowserTab_groupId_idx" ON "BrowserTab"("groupId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
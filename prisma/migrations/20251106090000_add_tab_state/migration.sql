@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "BrowserTab" ADD COLUMN "state" TEXT NOT NULL DEFAULT 'background';
+
+-- 기존 활성 탭은 active로 표시
+UPDATE "BrowserTab" SET "state" = 'active' WHERE "isActive" = true;
@@ -0,0 +1,34 @@
+-- CreateVirtualTable
+-- HistoryEntry 전문 검색 인덱스 (external content: 행 데이터는 HistoryEntry에만 저장)
+-- Prisma 스키마로 표현할 수 없으므로 트리거로 동기화하고, 조회는 $queryRaw로 수행
+-- HistoryEntry를 재정의(RedefineTables)하는 마이그레이션은 rowid가 바뀌므로 마지막에 'rebuild' 필요
+CREATE VIRTUAL TABLE "HistoryEntryFts" USING fts5(
+    title,
+    url,
+    content='HistoryEntry',
+    content_rowid='rowid',
+    tokenize='unicode61 remove_diacritics 2',
+    prefix='2 3'
+);
+
+-- CreateTrigger
+CREATE TRIGGER "HistoryEntry_fts_insert" AFTER INSERT ON "HistoryEntry" BEGIN
+    INSERT INTO "HistoryEntryFts" ("rowid", "title", "url") VALUES (new."rowid", new."title", new."url");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "HistoryEntry_fts_delete" AFTER DELETE ON "HistoryEntry" BEGIN
+    INSERT INTO "HistoryEntryFts" ("HistoryEntryFts", "rowid", "title", "url") VALUES ('delete', old."rowid", old."title", old."url");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "HistoryEntry_fts_update" AFTER UPDATE OF "title", "url" ON "HistoryEntry" BEGIN
+    INSERT INTO "HistoryEntryFts" ("HistoryEntryFts", "rowid", "title", "url") VALUES ('delete', old."rowid", old."title", old."url");
+    INSERT INTO "HistoryEntryFts" ("rowid", "title", "url") VALUES (new."rowid", new."title", new."url");
+END;
+
+-- 기존 기록 색인
+INSERT INTO "HistoryEntryFts" ("HistoryEntryFts") VALUES ('rebuild');
+
+-- 기본 순위: 제목 일치를 URL 일치보다 높게
+INSERT INTO "HistoryEntryFts" ("HistoryEntryFts", "rank") VALUES ('rank', 'bm25(10.0, 1.0)');
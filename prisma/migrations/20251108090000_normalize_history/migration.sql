@@ -0,0 +1,120 @@
+-- HistoryEntry(방문마다 1행 + visits 카운터)를 Url(URL당 1행)과 Visit(방문 1회당 1행)으로 분리
+-- frecency는 -1(재계산 필요)로 두고 앱 시작 시 HistoryService.recalculateFrecency에서 계산
+
+-- CreateTable
+CREATE TABLE "Url" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "url" TEXT NOT NULL,
+    "title" TEXT NOT NULL DEFAULT '',
+    "favicon" TEXT,
+    "visitCount" INTEGER NOT NULL DEFAULT 0,
+    "typedCount" INTEGER NOT NULL DEFAULT 0,
+    "frecency" INTEGER NOT NULL DEFAULT -1,
+    "lastVisitedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "Visit" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "urlId" TEXT NOT NULL,
+    "visitedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "transition" TEXT NOT NULL DEFAULT 'link',
+    "referrerVisitId" TEXT,
+    "dwellTimeMs" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "Visit_urlId_fkey" FOREIGN KEY ("urlId") REFERENCES "Url" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Visit_referrerVisitId_fkey" FOREIGN KEY ("referrerVisitId") REFERENCES "Visit" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- 기존 기록 변환: URL별 1행 (제목/파비콘은 가장 최근 방문 기준, ID도 가장 최근 기록 재사용)
+INSERT INTO "Url" ("id", "url", "title", "favicon", "visitCount", "typedCount", "frecency", "lastVisitedAt", "createdAt", "updatedAt")
+SELECT
+    latest."id",
+    latest."url",
+    latest."title",
+    latest."favicon",
+    grouped."visitCount",
+    0,
+    -1,
+    grouped."lastVisitedAt",
+    grouped."firstVisitedAt",
+    grouped."lastVisitedAt"
+FROM (
+    SELECT "url", COUNT(*) AS "visitCount", MIN("visitedAt") AS "firstVisitedAt", MAX("visitedAt") AS "lastVisitedAt"
+    FROM "HistoryEntry"
+    GROUP BY "url"
+) AS grouped
+JOIN "HistoryEntry" AS latest ON latest."id" = (
+    SELECT h."id" FROM "HistoryEntry" AS h
+    WHERE h."url" = grouped."url"
+    ORDER BY h."visitedAt" DESC, h."id" DESC
+    LIMIT 1
+);
+
+-- 기존 기록 변환: 기록 1행 = 방문 1회 (전환 유형은 알 수 없으므로 link)
+INSERT INTO "Visit" ("id", "urlId", "visitedAt", "transition", "referrerVisitId", "dwellTimeMs")
+SELECT h."id", u."id", h."visitedAt", 'link', NULL, h."duration"
+FROM "HistoryEntry" AS h
+JOIN "Url" AS u ON u."url" = h."url";
+
+-- DropTrigger
+DROP TRIGGER "HistoryEntry_fts_insert";
+DROP TRIGGER "HistoryEntry_fts_delete";
+DROP TRIGGER "HistoryEntry_fts_update";
+
+-- DropTable
+DROP TABLE "HistoryEntryFts";
+DROP TABLE "HistoryEntry";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Url_url_key" ON "Url"("url");
+
+-- CreateIndex
+CREATE INDEX "Url_frecency_idx" ON "Url"("frecency");
+
+-- CreateIndex
+CREATE INDEX "Url_lastVisitedAt_idx" ON "Url"("lastVisitedAt");
+
+-- CreateIndex
+CREATE INDEX "Visit_visitedAt_idx" ON "Visit"("visitedAt");
+
+-- CreateIndex
+CREATE INDEX "Visit_referrerVisitId_idx" ON "Visit"("referrerVisitId");
+
+-- CreateIndex
+CREATE INDEX "Visit_urlId_visitedAt_idx" ON "Visit"("urlId", "visitedAt");
+
+-- CreateVirtualTable
+-- Url 전문 검색 인덱스 (external content: 행 데이터는 Url에만 저장)
+-- Url을 재정의(RedefineTables)하는 마이그레이션은 rowid가 바뀌므로 마지막에 'rebuild' 필요
+CREATE VIRTUAL TABLE "UrlFts" USING fts5(
+    title,
+    url,
+    content='Url',
+    content_rowid='rowid',
+    tokenize='unicode61 remove_diacritics 2',
+    prefix='2 3'
+);
+
+-- CreateTrigger
+CREATE TRIGGER "Url_fts_insert" AFTER INSERT ON "Url" BEGIN
+    INSERT INTO "UrlFts" ("rowid", "title", "url") VALUES (new."rowid", new."title", new."url");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Url_fts_delete" AFTER DELETE ON "Url" BEGIN
+    INSERT INTO "UrlFts" ("UrlFts", "rowid", "title", "url") VALUES ('delete', old."rowid", old."title", old."url");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Url_fts_update" AFTER UPDATE OF "title", "url" ON "Url" BEGIN
+    INSERT INTO "UrlFts" ("UrlFts", "rowid", "title", "url") VALUES ('delete', old."rowid", old."title", old."url");
+    INSERT INTO "UrlFts" ("rowid", "title", "url") VALUES (new."rowid", new."title", new."url");
+END;
+
+-- 변환된 URL 색인
+INSERT INTO "UrlFts" ("UrlFts") VALUES ('rebuild');
+
+-- 기본 순위: 제목 일치를 URL 일치보다 높게
+INSERT INTO "UrlFts" ("UrlFts", "rank") VALUES ('rank', 'bm25(10.0, 1.0)');
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "Journey" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "label" TEXT NOT NULL DEFAULT '',
+    "startedAt" DATETIME NOT NULL,
+    "endedAt" DATETIME NOT NULL,
+    "visitCount" INTEGER NOT NULL DEFAULT 0,
+    "topPages" TEXT NOT NULL DEFAULT '[]',
+    "domains" TEXT NOT NULL DEFAULT '[]',
+    "keywords" TEXT NOT NULL DEFAULT '[]',
+    "stale" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Visit" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "urlId" TEXT NOT NULL,
+    "visitedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "transition" TEXT NOT NULL DEFAULT 'link',
+    "referrerVisitId" TEXT,
+    "dwellTimeMs" INTEGER NOT NULL DEFAULT 0,
+    "journeyId" TEXT,
+    CONSTRAINT "Visit_urlId_fkey" FOREIGN KEY ("urlId") REFERENCES "Url" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Visit_referrerVisitId_fkey" FOREIGN KEY ("referrerVisitId") REFERENCES "Visit" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Visit_journeyId_fkey" FOREIGN KEY ("journeyId") REFERENCES "Journey" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Visit" ("dwellTimeMs", "id", "referrerVisitId", "transition", "urlId", "visitedAt") SELECT "dwellTimeMs", "id", "referrerVisitId", "transition", "urlId", "visitedAt" FROM "Visit";
+DROP TABLE "Visit";
+ALTER TABLE "new_Visit" RENAME TO "Visit";
+CREATE INDEX "Visit_visitedAt_idx" ON "Visit"("visitedAt");
+CREATE INDEX "Visit_referrerVisitId_idx" ON "Visit"("referrerVisitId");
+CREATE INDEX "Visit_urlId_visitedAt_idx" ON "Visit"("urlId", "visitedAt");
+CREATE INDEX "Visit_journeyId_idx" ON "Visit"("journeyId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "Journey_endedAt_idx" ON "Journey"("endedAt");
+
+-- CreateIndex
+CREATE INDEX "Journey_stale_idx" ON "Journey"("stale");
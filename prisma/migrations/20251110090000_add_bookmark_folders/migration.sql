@@ -0,0 +1,92 @@
+-- Bookmark.folder (폴더 경로 문자열, '/'로 구분)를 BookmarkFolder 트리로 변환
+-- 'root', 'default', 빈 문자열은 최상위 (folderId = NULL)
+-- 폴더 위치는 경로 이름순, 북마크 위치는 폴더 안 생성 시각순
+
+-- CreateTable
+CREATE TABLE "BookmarkFolder" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "parentId" TEXT,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "BookmarkFolder_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "BookmarkFolder" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- 기존 폴더 경로의 모든 상위 경로 (예: "a/b/c" → "a", "a/b", "a/b/c")
+CREATE TEMP TABLE "_BookmarkFolderPath" (
+    "path" TEXT NOT NULL PRIMARY KEY,
+    "parentPath" TEXT,
+    "name" TEXT NOT NULL,
+    "id" TEXT NOT NULL
+);
+
+INSERT INTO "_BookmarkFolderPath" ("path", "parentPath", "name", "id")
+WITH RECURSIVE "prefix" ("path", "parentPath", "name", "rest") AS (
+    SELECT '', NULL, '', "folder" || '/'
+    FROM (SELECT DISTINCT "folder" FROM "Bookmark" WHERE "folder" NOT IN ('', 'root', 'default'))
+    UNION
+    SELECT
+        CASE WHEN "path" = '' THEN substr("rest", 1, instr("rest", '/') - 1)
+             ELSE "path" || '/' || substr("rest", 1, instr("rest", '/') - 1) END,
+        NULLIF("path", ''),
+        substr("rest", 1, instr("rest", '/') - 1),
+        substr("rest", instr("rest", '/') + 1)
+    FROM "prefix"
+    WHERE "rest" <> ''
+)
+SELECT "path", "parentPath", "name", lower(hex(randomblob(12)))
+FROM (SELECT DISTINCT "path", "parentPath", "name" FROM "prefix" WHERE "path" <> '');
+
+INSERT INTO "BookmarkFolder" ("id", "parentId", "name", "position", "createdAt", "updatedAt")
+SELECT
+    f."id",
+    p."id",
+    f."name",
+    ROW_NUMBER() OVER (PARTITION BY f."parentPath" ORDER BY f."name", f."path") - 1,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+FROM "_BookmarkFolderPath" AS f
+LEFT JOIN "_BookmarkFolderPath" AS p ON p."path" = f."parentPath";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Bookmark" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "url" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "folderId" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "favicon" TEXT,
+    "description" TEXT,
+    CONSTRAINT "Bookmark_folderId_fkey" FOREIGN KEY ("folderId") REFERENCES "BookmarkFolder" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Bookmark" ("createdAt", "description", "favicon", "folderId", "id", "position", "title", "updatedAt", "url")
+SELECT
+    b."createdAt",
+    b."description",
+    b."favicon",
+    f."id",
+    b."id",
+    ROW_NUMBER() OVER (PARTITION BY f."id" ORDER BY b."createdAt", b."id") - 1,
+    b."title",
+    b."updatedAt",
+    b."url"
+FROM "Bookmark" AS b
+LEFT JOIN "_BookmarkFolderPath" AS f ON f."path" = b."folder";
+DROP TABLE "Bookmark";
+ALTER TABLE "new_Bookmark" RENAME TO "Bookmark";
+CREATE UNIQUE INDEX "Bookmark_url_key" ON "Bookmark"("url");
+CREATE INDEX "Bookmark_folderId_position_idx" ON "Bookmark"("folderId", "position");
+CREATE INDEX "Bookmark_createdAt_idx" ON "Bookmark"("createdAt");
+CREATE INDEX "Bookmark_url_idx" ON "Bookmark"("url");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+DROP TABLE "_BookmarkFolderPath";
+
+-- CreateIndex
+CREATE INDEX "BookmarkFolder_parentId_position_idx" ON "BookmarkFolder"("parentId", "position");
@@ -0,0 +1,33 @@
+-- AppSettings 열들을 SettingsService가 관리하는 버전 있는 JSON 문서 하나로 합침
+-- version 0 = 이전 설정 파일 (config.json) 병합 전 (첫 실행 시 SettingsService가 병합 후 올림)
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_AppSettings" (
+    "id" TEXT NOT NULL PRIMARY KEY DEFAULT 'settings-1',
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "data" TEXT NOT NULL DEFAULT '{}',
+    "updatedAt" DATETIME NOT NULL
+);
+INSERT INTO "new_AppSettings" ("id", "version", "data", "updatedAt")
+SELECT
+    "id",
+    0,
+    json_object(
+        'theme', "theme",
+        'zoomLevel', "zoomLevel",
+        'language', "language",
+        'startPage', "startPage",
+        'restorePreviousSession', json(CASE WHEN "restorePreviousSession" THEN 'true' ELSE 'false' END),
+        'enableNotifications', json(CASE WHEN "enableNotifications" THEN 'true' ELSE 'false' END),
+        'enableCookies', json(CASE WHEN "enableCookies" THEN 'true' ELSE 'false' END),
+        'cacheSize', "cacheSize",
+        'historyAutoDeleteDays', "historyAutoDeleteDays"
+    ),
+    "updatedAt"
+FROM "AppSettings";
+DROP TABLE "AppSettings";
+ALTER TABLE "new_AppSettings" RENAME TO "AppSettings";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "SiteSetting" (
+    "origin" TEXT NOT NULL PRIMARY KEY,
+    "zoomLevel" REAL,
+    "notifications" TEXT,
+    "camera" TEXT,
+    "microphone" TEXT,
+    "geolocation" TEXT,
+    "popups" TEXT,
+    "autoplay" TEXT,
+    "cookies" TEXT,
+    "javascript" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
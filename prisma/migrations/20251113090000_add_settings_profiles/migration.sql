@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "SettingsProfile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "data" TEXT NOT NULL DEFAULT '{}',
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SettingsProfile_name_key" ON "SettingsProfile"("name");
@@ -0,0 +1,204 @@
+/**
+ * BookmarkService 폴더 트리 / 태그 테스트
+ * - 가짜 BookmarkRepository / BookmarkFolderRepository 사용
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  BookmarkService,
+  type BookmarkServiceBookmarks,
+  type BookmarkServiceFolders,
+} from '../services/BookmarkService';
+import type { BookmarkWithTags } from '../services/database/BookmarkRepository';
+import type { BookmarkSearchQuery } from '../services/database/bookmarkQuery';
+import type { BookmarkFolder } from '../../shared/types/domain';
+
+const NOW = new Date(1700000000 * 1000);
+
+const createFolder = (id: string, parentId: string | null = null): BookmarkFolder => ({
+  id,
+  parentId,
+  name: id,
+  position: 0,
+  createdAt: NOW,
+  updatedAt: NOW,
+});
+
+const createBookmark = (
+  id: string,
+  folderId: string | null = null,
+  tags: string[] = []
+): BookmarkWithTags => ({
+  id,
+  url: `https://example.com/${id}`,
+  title: id,
+  description: '',
+  favicon: null,
+  folderId,
+  position: 0,
+  createdAt: NOW,
+  updatedAt: NOW,
+  tags: tags.map((name) => ({ id: `${id}-${name}`, bookmarkId: id, name, createdAt: NOW })),
+});
+
+const createFakeBookmarks = () =>
+  ({
+    findAll: vi.fn(async () => [] as BookmarkWithTags[]),
+    findById: vi.fn(async (id: string): Promise<BookmarkWithTags | null> => createBookmark(id)),
+    search: vi.fn(async (_query: BookmarkSearchQuery) => [
+      createBookmark('bm-1', null, ['docs', 'web']),
+    ]),
+    create: vi.fn(async (data: { folderId: string | null }, tags: string[] = []) =>
+      createBookmark('new', data.folderId, tags)
+    ),
+    update: vi.fn(async (id: string, _data: unknown, tags?: string[]) =>
+      createBookmark(id, null, tags)
+    ),
+    countTags: vi.fn(async () => [
+      { name: 'web', count: 3 },
+      { name: 'docs', count: 1 },
+    ]),
+    mergeTags: vi.fn(async (_sources: string[], _target: string) => 2),
+    move: vi.fn(async (id: string, folderId: string | null, index?: number) => ({
+      ...createBookmark(id, folderId),
+      position: index ?? 0,
+    })),
+    delete: vi.fn(async (id: string) => createBookmark(id)),
+    count: vi.fn(async () => 0),
+  }) satisfies BookmarkServiceBookmarks;
+
+const createFakeFolders = (folders: Map<string, BookmarkFolder>) =>
+  ({
+    findAll: vi.fn(async () => [...folders.values()]),
+    findById: vi.fn(async (id: string) => folders.get(id) ?? null),
+    create: vi.fn(async (name: string, parentId: string | null) => ({
+      ...createFolder('created', parentId),
+      name,
+    })),
+    rename: vi.fn(async (id: string, name: string) => ({ ...folders.get(id)!, name })),
+    move: vi.fn(
+      async (
+        _id: string,
+        _parentId: string | null,
+        _index?: number
+      ): Promise<BookmarkFolder | null> => null
+    ),
+    deleteRecursive: vi.fn(async (_id: string) => ({ folderCount: 2, bookmarkCount: 5 })),
+  }) satisfies BookmarkServiceFolders;
+
+describe('BookmarkService', () => {
+  let bookmarkRepository: ReturnType<typeof createFakeBookmarks>;
+  let folderRepository: ReturnType<typeof createFakeFolders>;
+  let service: BookmarkService;
+
+  beforeEach(() => {
+    bookmarkRepository = createFakeBookmarks();
+    folderRepository = createFakeFolders(
+      new Map([
+        ['work', createFolder('work')],
+        ['projects', createFolder('projects', 'work')],
+      ])
+    );
+    service = BookmarkService.create(bookmarkRepository, folderRepository);
+  });
+
+  it('폴더 ID로 북마크를 만들고, 없는 폴더면 저장하지 않는다', async () => {
+    const bookmark = await service.createBookmark({
+      url: 'https://example.com/',
+      title: 'Example',
+      folderId: 'projects',
+    });
+
+    expect(bookmark.folderId).toBe('projects');
+    expect(bookmarkRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ folderId: 'projects' }),
+      []
+    );
+
+    await expect(
+      service.createBookmark({ url: 'https://example.com/', title: 'Example', folderId: 'gone' })
+    ).rejects.toThrow('폴더를 찾을 수 없습니다: gone');
+    expect(bookmarkRepository.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('하위 폴더를 만들고 ID를 유지한 채 이름을 바꾼다', async () => {
+    const created = await service.addFolder('  Reading  ', 'work');
+    const renamed = await service.updateFolder('projects', 'Side projects');
+
+    expect(folderRepository.create).toHaveBeenCalledWith('Reading', 'work');
+    expect(created.parentId).toBe('work');
+    expect(renamed).toMatchObject({ id: 'projects', parentId: 'work', name: 'Side projects' });
+    await expect(service.addFolder('   ')).rejects.toThrow('폴더 이름을 입력해주세요');
+  });
+
+  it('폴더를 자기 하위로 옮기려 하면 한국어 오류를 던진다', async () => {
+    await expect(service.moveFolder('work', 'projects')).rejects.toThrow(
+      '폴더를 자기 자신이나 하위 폴더로 옮길 수 없습니다'
+    );
+    expect(folderRepository.move).toHaveBeenCalledWith('work', 'projects', undefined);
+
+    await expect(service.moveFolder('work', 'gone', 0)).rejects.toThrow(
+      '폴더를 찾을 수 없습니다: gone'
+    );
+    expect(folderRepository.move).toHaveBeenCalledTimes(1);
+  });
+
+  it('북마크를 이동하고, 수정에서 폴더가 바뀌면 새 폴더로 옮긴다', async () => {
+    const moved = await service.moveBookmark('bm-1', 'work', 2);
+    expect(moved).toMatchObject({ folderId: 'work', position: 2 });
+
+    await service.updateBookmark('bm-2', { title: 'Renamed', folderId: 'projects' });
+    expect(bookmarkRepository.update).toHaveBeenCalledWith('bm-2', { title: 'Renamed' }, undefined);
+    expect(bookmarkRepository.move).toHaveBeenLastCalledWith('bm-2', 'projects');
+
+    bookmarkRepository.findById.mockResolvedValueOnce(null);
+    await expect(service.moveBookmark('gone', null)).rejects.toThrow(
+      '북마크를 찾을 수 없습니다: gone'
+    );
+  });
+
+  it('폴더를 하위 폴더와 북마크까지 삭제하고 개수를 돌려준다', async () => {
+    await expect(service.deleteFolder('work')).resolves.toEqual({
+      folderCount: 2,
+      bookmarkCount: 5,
+    });
+    await expect(service.deleteFolder('gone')).rejects.toThrow('폴더를 찾을 수 없습니다: gone');
+    expect(folderRepository.deleteRecursive).toHaveBeenCalledTimes(1);
+  });
+
+  it('태그를 정규화해 저장하고 이름 배열로 돌려준다', async () => {
+    const created = await service.createBookmark({
+      url: 'https://example.com/',
+      title: 'Example',
+      tags: [' web ', 'docs, web', ''],
+    });
+    const updated = await service.updateBookmark('bm-1', { tags: ['reading  list'] });
+
+    expect(bookmarkRepository.create.mock.calls[0]![1]).toEqual(['web', 'docs']);
+    expect(created.tags).toEqual(['web', 'docs']);
+    expect(bookmarkRepository.update).toHaveBeenCalledWith('bm-1', {}, ['reading list']);
+    expect(updated.tags).toEqual(['reading list']);
+  });
+
+  it('검색어의 tag: 필터를 텍스트와 나눠 저장소에 넘긴다', async () => {
+    const results = await service.searchBookmarks('tag:docs prisma tag:"web dev"');
+
+    expect(bookmarkRepository.search).toHaveBeenCalledWith({
+      terms: ['prisma'],
+      tags: ['docs', 'web dev'],
+    });
+    expect(results[0]!.tags).toEqual(['docs', 'web']);
+    await expect(service.searchBookmarks('  ')).rejects.toThrow('검색어를 입력해주세요');
+  });
+
+  it('없는 태그는 병합하지 않고, 이름 변경은 병합으로 처리한다', async () => {
+    await expect(service.renameTag('web', ' docs ')).resolves.toBe(2);
+    expect(bookmarkRepository.mergeTags).toHaveBeenCalledWith(['web'], 'docs');
+
+    await expect(service.mergeTags(['web', 'gone'], 'docs')).rejects.toThrow(
+      '태그를 찾을 수 없습니다: gone'
+    );
+    await expect(service.renameTag('web', ',')).rejects.toThrow('태그 이름을 입력해주세요');
+    expect(bookmarkRepository.mergeTags).toHaveBeenCalledTimes(1);
+  });
+});
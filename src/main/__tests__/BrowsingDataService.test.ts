@@ -0,0 +1,188 @@
+/**
+ * BrowsingDataService 테스트
+ * - Mock HistoryManager / Repository / Electron session 사용
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Session } from 'electron';
+import type { SessionData } from '@prisma/client';
+
+vi.mock('electron', () => ({ session: {} }));
+
+import {
+  BrowsingDataService,
+  type BrowsingDataClosedTabs,
+  type BrowsingDataHistory,
+  type BrowsingDataSessions,
+} from '../services/BrowsingDataService';
+import { EventBus } from '../core/EventBus';
+import { RECOVERY_SESSION_ID } from '../services/database/SessionRepository';
+import type { VisitRange } from '../services/database/HistoryRepository';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const createMockHistoryManager = () =>
+  ({
+    getUrlsInRange: vi.fn<(range: VisitRange) => Promise<string[]>>(async () => []),
+    removeInRange: vi.fn<(range: VisitRange, batchSize: number) => Promise<number>>(async () => 0),
+    clearFavicons: vi.fn(async (_range: VisitRange) => 0),
+  }) satisfies BrowsingDataHistory;
+
+const createMockRecentlyClosedRepository = () =>
+  ({
+    deleteInRange: vi.fn(async (_after: Date | null, _site: string | null) => 0),
+  }) satisfies BrowsingDataClosedTabs;
+
+const createMockSessionRepository = () =>
+  ({
+    find: vi.fn(async (_id?: string): Promise<SessionData | null> => null),
+    delete: vi.fn(async (_id: string) => undefined),
+  }) satisfies BrowsingDataSessions;
+
+const createSessionData = (id: string): SessionData => ({
+  id,
+  activeTabId: null,
+  openTabs: '[]',
+  tabGroups: '[]',
+  windowState: null,
+  cleanExit: false,
+  lastActiveAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const createMockSession = () => ({
+  cookies: {
+    get: vi.fn<(filter: { domain?: string }) => Promise<Electron.Cookie[]>>(async () => []),
+    remove: vi.fn(async () => undefined),
+  },
+  clearStorageData: vi.fn(async () => undefined),
+  clearCache: vi.fn(async () => undefined),
+  clearData: vi.fn(async () => undefined),
+});
+
+describe('BrowsingDataService', () => {
+  let historyManager: ReturnType<typeof createMockHistoryManager>;
+  let recentlyClosedRepository: ReturnType<typeof createMockRecentlyClosedRepository>;
+  let sessionRepository: ReturnType<typeof createMockSessionRepository>;
+  let fakeSession: ReturnType<typeof createMockSession>;
+  let service: BrowsingDataService;
+
+  beforeEach(() => {
+    historyManager = createMockHistoryManager();
+    recentlyClosedRepository = createMockRecentlyClosedRepository();
+    sessionRepository = createMockSessionRepository();
+    fakeSession = createMockSession();
+    service = new BrowsingDataService(
+      historyManager,
+      recentlyClosedRepository,
+      sessionRepository,
+      () => fakeSession as unknown as Session
+    );
+  });
+
+  it('전체 기간은 세션 전체의 쿠키/캐시를 지우고 단계마다 진행 상황을 알린다', async () => {
+    historyManager.removeInRange.mockResolvedValueOnce(1000).mockResolvedValueOnce(3);
+    fakeSession.cookies.get.mockResolvedValueOnce([
+      { name: 'a', value: '1' } as Electron.Cookie,
+      { name: 'b', value: '2' } as Electron.Cookie,
+    ]);
+    sessionRepository.find.mockResolvedValueOnce(createSessionData(RECOVERY_SESSION_ID));
+    const onProgress = vi.fn();
+    const listener = vi.fn();
+    const unsubscribe = EventBus.getInstance().on('browsingData:cleared', listener);
+
+    const result = await service.clear(
+      { timeRange: 'allTime', dataTypes: ['history', 'cookies', 'cache', 'sessions'] },
+      onProgress
+    );
+    unsubscribe();
+
+    expect(historyManager.removeInRange).toHaveBeenCalledTimes(2);
+    expect(historyManager.removeInRange).toHaveBeenCalledWith({ after: null, site: null }, 1000);
+    expect(historyManager.getUrlsInRange).not.toHaveBeenCalled();
+    expect(fakeSession.clearStorageData).toHaveBeenCalledWith({ storages: ['cookies'] });
+    expect(fakeSession.clearCache).toHaveBeenCalled();
+    expect(sessionRepository.delete).toHaveBeenCalledWith(RECOVERY_SESSION_ID);
+    expect(result).toEqual({
+      cleared: ['history', 'sessions', 'cookies', 'cache'],
+      removedVisits: 1003,
+      removedFavicons: 0,
+      removedSessions: 1,
+      removedCookies: 2,
+    });
+    expect(onProgress).toHaveBeenCalledTimes(4);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      step: 'cache',
+      completedSteps: 4,
+      totalSteps: 4,
+    });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ timeRange: 'allTime' }));
+  });
+
+  it('기간을 지정하면 삭제 전에 방문한 호스트로 쿠키/캐시 범위를 계산한다', async () => {
+    historyManager.getUrlsInRange.mockResolvedValueOnce([
+      'https://a.example.com/page',
+      'https://a.example.com/other',
+      'file:///tmp/index.html',
+    ]);
+    fakeSession.cookies.get.mockResolvedValueOnce([
+      {
+        name: 'sid',
+        value: 'x',
+        domain: '.a.example.com',
+        path: '/',
+        secure: true,
+      } as Electron.Cookie,
+    ]);
+
+    const before = Date.now();
+    const result = await service.clear({
+      timeRange: 'lastHour',
+      dataTypes: ['history', 'cookies', 'cache'],
+    });
+
+    const range = historyManager.getUrlsInRange.mock.calls[0]![0];
+    expect(range.site).toBeNull();
+    expect(range.after!.getTime()).toBeGreaterThanOrEqual(before - HOUR_MS);
+    expect(historyManager.getUrlsInRange.mock.invocationCallOrder[0]).toBeLessThan(
+      historyManager.removeInRange.mock.invocationCallOrder[0]!
+    );
+    expect(fakeSession.cookies.get).toHaveBeenCalledWith({ domain: 'a.example.com' });
+    expect(fakeSession.cookies.remove).toHaveBeenCalledWith('https://a.example.com/', 'sid');
+    expect(fakeSession.clearData).toHaveBeenCalledWith({
+      dataTypes: ['cache'],
+      origins: ['https://a.example.com'],
+    });
+    expect(fakeSession.clearStorageData).not.toHaveBeenCalled();
+    expect(fakeSession.clearCache).not.toHaveBeenCalled();
+    expect(result.removedCookies).toBe(1);
+  });
+
+  it('사이트를 지정하면 하위 도메인까지 지우고 복원 대기 세션은 유지한다', async () => {
+    recentlyClosedRepository.deleteInRange.mockResolvedValueOnce(2);
+
+    const result = await service.clear({
+      timeRange: 'allTime',
+      site: 'https://www.Example.com/path',
+      dataTypes: ['history', 'favicons', 'sessions', 'cookies'],
+    });
+
+    expect(historyManager.removeInRange).toHaveBeenCalledWith(
+      { after: null, site: 'example.com' },
+      1000
+    );
+    expect(historyManager.clearFavicons).toHaveBeenCalledWith({ after: null, site: 'example.com' });
+    expect(recentlyClosedRepository.deleteInRange).toHaveBeenCalledWith(null, 'example.com');
+    expect(sessionRepository.find).not.toHaveBeenCalled();
+    expect(fakeSession.cookies.get).toHaveBeenCalledWith({ domain: 'example.com' });
+    expect(result.cleared).toEqual(['favicons', 'history', 'sessions', 'cookies']);
+    expect(result.removedSessions).toBe(2);
+  });
+
+  it('올바르지 않은 사이트는 거부한다', async () => {
+    await expect(
+      service.clear({ timeRange: 'allTime', site: '   ', dataTypes: ['history'] })
+    ).rejects.toThrow('올바르지 않은 사이트');
+    expect(historyManager.removeInRange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * DwellTimeService 테스트
+ * - Electron app/powerMonitor/BrowserWindow mock
+ * - 가짜 타이머로 포그라운드 시간 누적 확인
+ */
+
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+
+const electron = vi.hoisted(() => ({
+  focusedWindow: null as object | null,
+  idleState: 'active',
+  idleTime: 0,
+}));
+
+vi.mock('electron', async () => {
+  const { EventEmitter: Emitter } = await import('events');
+  return {
+    app: new Emitter(),
+    powerMonitor: Object.assign(new Emitter(), {
+      getSystemIdleState: () => electron.idleState,
+      getSystemIdleTime: () => electron.idleTime,
+    }),
+    BrowserWindow: { getFocusedWindow: () => electron.focusedWindow },
+  };
+});
+
+import { app, powerMonitor } from 'electron';
+import { DwellTimeService } from '../services/DwellTimeService';
+import { EventBus } from '../core/EventBus';
+
+const SECOND_MS = 1000;
+const WINDOW = {};
+
+describe('DwellTimeService', () => {
+  let historyManager: {
+    recordDwellTime: Mock<(url: string, since: number, dwellTimeMs: number) => Promise<boolean>>;
+  };
+  let visibleTabId: string | null;
+  let service: DwellTimeService;
+  const eventBus = EventBus.getInstance();
+
+  const navigate = (tabId: string, url: string) => eventBus.emit('tab:navigated', { tabId, url });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 10, 1, 9, 0));
+    electron.focusedWindow = WINDOW;
+    electron.idleState = 'active';
+    electron.idleTime = 0;
+    visibleTabId = 'tab-1';
+
+    historyManager = { recordDwellTime: vi.fn(async () => true) };
+    service = new DwellTimeService(
+      historyManager,
+      { getVisibleTabId: () => visibleTabId },
+      { getWindowId: () => 'window-1' }
+    );
+    service.initialize();
+  });
+
+  afterEach(async () => {
+    await service.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('다른 페이지로 이동하면 이전 페이지의 포그라운드 시간을 저장한다', async () => {
+    const openedAt = Date.now();
+    navigate('tab-1', 'https://example.com/a');
+    vi.advanceTimersByTime(30 * SECOND_MS);
+    navigate('tab-1', 'https://example.com/b');
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(historyManager.recordDwellTime).toHaveBeenCalledWith(
+      'https://example.com/a',
+      openedAt - 60 * SECOND_MS,
+      30 * SECOND_MS
+    );
+  });
+
+  it('숨겨진 탭과 포커스를 잃은 윈도우의 시간은 제외한다', async () => {
+    navigate('tab-1', 'https://example.com/a');
+    vi.advanceTimersByTime(10 * SECOND_MS);
+
+    visibleTabId = 'tab-2';
+    eventBus.emit('tab:selected', { tabId: 'tab-2' });
+    vi.advanceTimersByTime(20 * SECOND_MS);
+
+    visibleTabId = 'tab-1';
+    eventBus.emit('tab:selected', { tabId: 'tab-1' });
+    vi.advanceTimersByTime(5 * SECOND_MS);
+
+    electron.focusedWindow = null;
+    (app as unknown as EventEmitter).emit('browser-window-blur');
+    vi.advanceTimersByTime(40 * SECOND_MS);
+
+    expect(service.getForegroundTime('tab-1')).toBe(15 * SECOND_MS);
+
+    eventBus.emit('tab:closed', { tabId: 'tab-1' });
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(historyManager.recordDwellTime).toHaveBeenCalledWith(
+      'https://example.com/a',
+      expect.any(Number),
+      15 * SECOND_MS
+    );
+  });
+
+  it('화면 잠금과 유휴 시간은 제외한다', () => {
+    navigate('tab-1', 'https://example.com/a');
+    vi.advanceTimersByTime(10 * SECOND_MS);
+
+    (powerMonitor as unknown as EventEmitter).emit('lock-screen');
+    vi.advanceTimersByTime(60 * SECOND_MS);
+    (powerMonitor as unknown as EventEmitter).emit('unlock-screen');
+    expect(service.getForegroundTime('tab-1')).toBe(10 * SECOND_MS);
+
+    // 다음 폴링 (초기화 후 75초)에서 3초째 유휴 → 유휴 시작 시점까지만 인정
+    electron.idleState = 'idle';
+    electron.idleTime = 3;
+    vi.advanceTimersByTime(65 * SECOND_MS);
+    expect(service.getForegroundTime('tab-1')).toBe(12 * SECOND_MS);
+  });
+
+  it('1초 미만이거나 http(s)가 아닌 페이지는 저장하지 않는다', async () => {
+    navigate('tab-1', 'https://example.com/a');
+    vi.advanceTimersByTime(500);
+    navigate('tab-1', 'about:blank');
+    vi.advanceTimersByTime(30 * SECOND_MS);
+    eventBus.emit('tab:closed', { tabId: 'tab-1' });
+    await vi.runOnlyPendingTimersAsync();
+
+    expect(historyManager.recordDwellTime).not.toHaveBeenCalled();
+  });
+});
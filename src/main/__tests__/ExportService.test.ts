@@ -0,0 +1,254 @@
+/**
+ * ExportService 테스트
+ * - 임시 디렉토리에 실제 파일로 내보내고 내용 확인
+ * - Netscape HTML은 가져오기 파서로 다시 읽어 폴더 트리/태그/설명 유지 확인
+ *   (빈 폴더와 같은 이름의 형제 폴더는 HTML에서 확인)
+ * - Mock HistoryManager로 방문 페이지 이어 읽기 확인
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+
+vi.mock('electron', () => ({ dialog: {} }));
+
+import { ExportService } from '../services/ExportService';
+import { parseNetscapeBookmarks } from '../services/import/netscapeBookmarks';
+import type { SaveDialogPicker } from '../services/export/common';
+import type { VisitCursor } from '../services/database/HistoryRepository';
+import type { BookmarkRepository, BookmarkWithTags } from '../services/database/BookmarkRepository';
+import type { HistoryManager } from '../managers/HistoryManager';
+import type { BookmarkFolder } from '@prisma/client';
+import type { HistoryEntry } from '../../shared/types/domain';
+
+const CREATED_AT = new Date(1700000000 * 1000);
+
+const createFolder = (
+  id: string,
+  name: string,
+  parentId: string | null,
+  position: number
+): BookmarkFolder => ({
+  id,
+  name,
+  parentId,
+  position,
+  createdAt: CREATED_AT,
+  updatedAt: CREATED_AT,
+});
+
+const createBookmark = (
+  url: string,
+  title: string,
+  folderId: string | null,
+  position: number,
+  tags: string[] = [],
+  description: string | null = null
+): BookmarkWithTags => ({
+  id: url,
+  url,
+  title,
+  folderId,
+  position,
+  description,
+  favicon: null,
+  createdAt: CREATED_AT,
+  updatedAt: CREATED_AT,
+  tags: tags.map((name) => ({ id: name, bookmarkId: url, name, createdAt: CREATED_AT })),
+});
+
+const createVisits = (count: number): HistoryEntry[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `visit-${index}`,
+    url: `https://example.com/${index}`,
+    title: index === 0 ? '=HYPERLINK("x"), "quoted"' : `Page ${index}`,
+    visitedAt: new Date(CREATED_AT.getTime() + index * 1000),
+    duration: index * 10,
+    transition: 'link',
+    referrerVisitId: null,
+  }));
+
+describe('ExportService', () => {
+  let tempDir: string;
+  let filePath: string | null;
+  let visits: HistoryEntry[];
+  let historyManager: { getEntriesPage: Mock<HistoryManager['getEntriesPage']> };
+  let bookmarkRepository: { findAllWithTags: Mock<BookmarkRepository['findAllWithTags']> };
+  let folders: BookmarkFolder[];
+  let pickSavePath: Mock<SaveDialogPicker>;
+  let service: ExportService;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aside-export-test-'));
+    filePath = path.join(tempDir, 'export');
+    visits = [];
+    historyManager = {
+      getEntriesPage: vi.fn(
+        async (
+          _start: number | null,
+          _end: number | null,
+          after: VisitCursor | null,
+          limit: number
+        ) => {
+          const from = after ? visits.findIndex((visit) => visit.id === after.id) + 1 : 0;
+          return visits.slice(from, from + limit);
+        }
+      ),
+    };
+    bookmarkRepository = {
+      findAllWithTags: vi.fn(async () => [
+        createBookmark('https://example.com/', 'Example & Co', null, 0, ['docs'], 'A <b> note'),
+        createBookmark('https://nodejs.org/', 'Node', 'tools', 1),
+        createBookmark('https://developer.mozilla.org/', 'MDN', 'dev', 0, ['reference', 'web']),
+        createBookmark('https://vitejs.dev/', 'Vite', 'tools', 0),
+      ]),
+    };
+    folders = [createFolder('dev', 'Dev', null, 0), createFolder('tools', 'Build/Tools', 'dev', 0)];
+    const bookmarkFolderRepository = { findAll: async () => folders };
+    pickSavePath = vi.fn(async () => filePath);
+    service = new ExportService(
+      historyManager,
+      bookmarkRepository,
+      bookmarkFolderRepository,
+      pickSavePath
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('Netscape HTML로 내보낸 북마크를 다시 가져오면 폴더, 순서, 태그, 설명이 유지된다', async () => {
+    const result = await service.exportBookmarks('html');
+
+    expect(result).toEqual({ canceled: false, filePath, count: 4 });
+    expect(pickSavePath.mock.calls[0]![0]).toMatchObject({
+      defaultPath: 'bookmarks.html',
+      filters: [{ name: 'HTML', extensions: ['html'] }],
+    });
+    expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+
+    const html = fs.readFileSync(filePath!, 'utf-8');
+    expect(html.startsWith('<!DOCTYPE NETSCAPE-Bookmark-file-1>')).toBe(true);
+    expect(html).toContain('<H3 ADD_DATE="1700000000">Build/Tools</H3>');
+    // 가져오기 경로는 '/'로 구분하므로 폴더 이름 안의 '/'는 '-'로 바뀐다
+    expect(parseNetscapeBookmarks(html)).toEqual([
+      expect.objectContaining({ url: 'https://vitejs.dev/', folder: 'Dev/Build-Tools' }),
+      expect.objectContaining({ url: 'https://nodejs.org/', folder: 'Dev/Build-Tools' }),
+      expect.objectContaining({
+        url: 'https://developer.mozilla.org/',
+        folder: 'Dev',
+        tags: ['reference', 'web'],
+      }),
+      {
+        url: 'https://example.com/',
+        title: 'Example & Co',
+        folder: 'root',
+        tags: ['docs'],
+        description: 'A <b> note',
+        createdAt: CREATED_AT,
+      },
+    ]);
+  });
+
+  it('빈 폴더와 같은 이름의 형제 폴더도 따로 내보낸다', async () => {
+    folders.push(
+      createFolder('empty', 'Empty', null, 1),
+      createFolder('tools-2', 'Build/Tools', 'dev', 1)
+    );
+    bookmarkRepository.findAllWithTags.mockResolvedValueOnce([
+      createBookmark('https://esbuild.github.io/', 'esbuild', 'tools-2', 0),
+      createBookmark('https://vitejs.dev/', 'Vite', 'tools', 0),
+    ]);
+
+    await service.exportBookmarks('html');
+
+    const html = fs.readFileSync(filePath!, 'utf-8');
+    const headings = [...html.matchAll(/<H3 ADD_DATE="\d+">([^<]*)<\/H3>/g)].map(
+      (match) => match[1]
+    );
+    expect(headings).toEqual(['Dev', 'Build/Tools', 'Build/Tools', 'Empty']);
+    expect(parseNetscapeBookmarks(html).map((bookmark) => bookmark.url)).toEqual([
+      'https://vitejs.dev/',
+      'https://esbuild.github.io/',
+    ]);
+  });
+
+  it('북마크 JSON에는 형식 이름과 버전이 들어간다', async () => {
+    await service.exportBookmarks('json');
+
+    const document = JSON.parse(fs.readFileSync(filePath!, 'utf-8'));
+    expect(document).toMatchObject({ format: 'aside-bookmarks', version: 3 });
+    expect(document.bookmarks.map((bookmark: { url: string }) => bookmark.url)).toEqual([
+      'https://example.com/',
+      'https://developer.mozilla.org/',
+      'https://vitejs.dev/',
+      'https://nodejs.org/',
+    ]);
+    expect(document.bookmarks[3]).toMatchObject({
+      folderId: 'tools',
+      folder: ['Dev', 'Build/Tools'],
+    });
+    expect(document.bookmarks[0]).toEqual({
+      url: 'https://example.com/',
+      title: 'Example & Co',
+      folderId: null,
+      folder: [],
+      tags: ['docs'],
+      description: 'A <b> note',
+      createdAt: CREATED_AT.toISOString(),
+      updatedAt: CREATED_AT.toISOString(),
+    });
+  });
+
+  it('방문 기록을 페이지 단위로 읽어 CSV와 JSON으로 내보낸다', async () => {
+    visits = createVisits(501);
+
+    const csvResult = await service.exportHistory({ format: 'csv', startTime: 0 });
+
+    expect(csvResult.count).toBe(501);
+    expect(historyManager.getEntriesPage).toHaveBeenCalledTimes(2);
+    expect(historyManager.getEntriesPage.mock.calls[1]![2]).toEqual({
+      visitedAt: visits[499]!.visitedAt,
+      id: 'visit-499',
+    });
+    const lines = fs.readFileSync(filePath!, 'utf-8').split('\r\n');
+    expect(lines[0]).toBe('\uFEFFvisited_at,url,title,transition,dwell_time_ms');
+    expect(lines[1]).toBe(
+      `${CREATED_AT.toISOString()},https://example.com/0,"'=HYPERLINK(""x""), ""quoted""",link,0`
+    );
+    expect(lines).toHaveLength(503);
+
+    const jsonResult = await service.exportHistory({ format: 'json' });
+
+    const document = JSON.parse(fs.readFileSync(filePath!, 'utf-8'));
+    expect(jsonResult.count).toBe(501);
+    expect(document).toMatchObject({ format: 'aside-history', version: 3, startTime: null });
+    expect(document.visits[500]).toEqual({
+      id: 'visit-500',
+      url: 'https://example.com/500',
+      title: 'Page 500',
+      visitedAt: visits[500]!.visitedAt.toISOString(),
+      transition: 'link',
+      dwellTimeMs: 5000,
+      referrerVisitId: null,
+    });
+  });
+
+  it('저장 대화상자를 취소하면 파일을 쓰지 않고, 잘못된 기간은 한국어 오류를 던진다', async () => {
+    filePath = null;
+
+    await expect(service.exportBookmarks('html')).resolves.toEqual({
+      canceled: true,
+      filePath: null,
+      count: 0,
+    });
+    expect(bookmarkRepository.findAllWithTags).not.toHaveBeenCalled();
+
+    await expect(
+      service.exportHistory({ format: 'csv', startTime: 2, endTime: 1 })
+    ).rejects.toThrow('시작 시간은 종료 시간보다 이전이어야 합니다');
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * FileService 테스트
+ * - 임시 디렉토리에 허용 디렉토리(root)와 바깥 디렉토리를 만들어 실제 파일로 확인
+ * - 열기/저장 대화상자는 가짜 선택 함수로 교체
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('electron', () => ({ app: {}, dialog: {} }));
+
+import { FileService } from '../services/FileService';
+import { ERROR_CODES } from '../../shared/constants';
+import { FileError } from '../../shared/errors';
+
+const SENDER = 1;
+
+describe('FileService', () => {
+  let tempDir: string;
+  let root: string;
+  let outside: string;
+  let openPicks: string[];
+  let savePick: string | null;
+
+  const createService = (roots = [root]) =>
+    new FileService(
+      roots,
+      async () => openPicks,
+      async () => savePick
+    );
+
+  const expectFileError = async (promise: Promise<unknown>, code: string) => {
+    const error = await promise.then(
+      () => null,
+      (err: unknown) => err
+    );
+    expect(error).toBeInstanceOf(FileError);
+    expect((error as FileError).code).toBe(code);
+  };
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'aside-file-test-')));
+    root = path.join(tempDir, 'root');
+    outside = path.join(tempDir, 'outside');
+    fs.mkdirSync(root);
+    fs.mkdirSync(outside);
+    openPicks = [];
+    savePick = null;
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reads and writes files inside allowed roots', async () => {
+    const service = createService([root, path.join(tempDir, 'missing')]);
+    const filePath = path.join(root, 'notes.txt');
+
+    await expect(service.save(SENDER, filePath, '안녕')).resolves.toBe(true);
+    const file = await service.open(SENDER, filePath);
+    expect(file).toMatchObject({ content: '안녕', size: Buffer.byteLength('안녕') });
+    expect(file.mtime).toBeGreaterThan(0);
+
+    const image = path.join(root, 'pixel.bin');
+    await service.save(SENDER, image, Buffer.from([0, 255, 16]).toString('base64'), 'base64');
+    expect([...fs.readFileSync(image)]).toEqual([0, 255, 16]);
+    expect((await service.open(SENDER, image, 'base64')).content).toBe('AP8Q');
+  });
+
+  it('allows outside paths only after they are picked in a dialog', async () => {
+    const service = createService();
+    const picked = path.join(outside, 'picked.txt');
+    fs.writeFileSync(picked, 'picked');
+
+    await expectFileError(service.open(SENDER, picked), ERROR_CODES.FILE_ACCESS_DENIED);
+
+    openPicks = [picked];
+    await expect(service.showOpenDialog(SENDER, { multiSelect: false })).resolves.toEqual({
+      filePaths: [picked],
+      canceled: false,
+    });
+    expect((await service.open(SENDER, picked)).content).toBe('picked');
+    // 열기 대화상자는 읽기만 허용
+    await expectFileError(service.save(SENDER, picked, 'x'), ERROR_CODES.FILE_ACCESS_DENIED);
+
+    savePick = path.join(outside, 'report.csv');
+    await expect(service.showSaveDialog(SENDER, {})).resolves.toEqual({
+      filePath: savePick,
+      canceled: false,
+    });
+    await service.save(SENDER, savePick, 'a,b');
+    expect(fs.readFileSync(savePick, 'utf-8')).toBe('a,b');
+    await expectFileError(
+      service.save(SENDER, path.join(outside, 'other.csv'), 'a,b'),
+      ERROR_CODES.FILE_ACCESS_DENIED
+    );
+
+    savePick = null;
+    openPicks = [];
+    await expect(service.showSaveDialog(SENDER, {})).resolves.toEqual({
+      filePath: '',
+      canceled: true,
+    });
+    await expect(service.showOpenDialog(SENDER, {})).resolves.toEqual({
+      filePaths: [],
+      canceled: true,
+    });
+  });
+
+  it('rejects traversal, relative, missing and symlinked paths', async () => {
+    const service = createService();
+    const secret = path.join(outside, 'secret.txt');
+    fs.writeFileSync(secret, 'secret');
+    fs.symlinkSync(secret, path.join(root, 'link.txt'));
+
+    await expectFileError(
+      service.open(SENDER, [root, '..', 'outside', 'secret.txt'].join(path.sep)),
+      ERROR_CODES.FILE_PATH_TRAVERSAL
+    );
+    await expectFileError(service.open(SENDER, 'notes.txt'), ERROR_CODES.FILE_INVALID_NAME);
+    await expectFileError(
+      service.open(SENDER, path.join(root, 'nope.txt')),
+      ERROR_CODES.FILE_NOT_FOUND
+    );
+    await expectFileError(
+      service.save(SENDER, path.join(root, 'nope', 'a.txt'), 'x'),
+      ERROR_CODES.FILE_NOT_FOUND
+    );
+    await expectFileError(service.open(SENDER, root), ERROR_CODES.FILE_ACCESS_DENIED);
+
+    // root 안의 링크라도 실제 경로가 바깥이면 거부, 링크에는 저장하지 않음
+    await expectFileError(
+      service.open(SENDER, path.join(root, 'link.txt')),
+      ERROR_CODES.FILE_ACCESS_DENIED
+    );
+    await expectFileError(
+      service.save(SENDER, path.join(root, 'link.txt'), 'x'),
+      ERROR_CODES.FILE_ACCESS_DENIED
+    );
+    expect(fs.readFileSync(secret, 'utf-8')).toBe('secret');
+  });
+
+  it('rate limits file operations per sender', async () => {
+    const service = createService();
+    const filePath = path.join(root, 'notes.txt');
+    fs.writeFileSync(filePath, 'notes');
+
+    for (let i = 0; i < 20; i++) {
+      await service.open(SENDER, filePath);
+    }
+
+    await expectFileError(service.open(SENDER, filePath), ERROR_CODES.SECURITY_RATE_LIMITED);
+    await expectFileError(service.showOpenDialog(SENDER, {}), ERROR_CODES.SECURITY_RATE_LIMITED);
+    await expect(service.open(SENDER + 1, filePath)).resolves.toMatchObject({ content: 'notes' });
+  });
+});
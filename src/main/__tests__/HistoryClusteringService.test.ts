@@ -0,0 +1,151 @@
+/**
+ * HistoryClusteringService 테스트
+ * - Mock JourneyRepository 사용
+ * - 실제 BackgroundTaskEnforcer로 작업 완료/실패 확인
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Journey } from '@prisma/client';
+import {
+  HistoryClusteringService,
+  type HistoryClusteringStore,
+} from '../services/HistoryClusteringService';
+import type { UnassignedVisit } from '../services/database/JourneyRepository';
+import type { JourneySummary } from '../services/database/journeyClustering';
+import { BackgroundTaskEnforcer } from '../../shared/system/enforcers/background-task';
+
+const BASE = new Date(2025, 10, 1, 9, 0).getTime();
+const MINUTE_MS = 60 * 1000;
+
+const makeVisit = (id: string, minutes: number, url: string, title: string): UnassignedVisit => ({
+  id,
+  urlId: `url-${url}`,
+  visitedAt: new Date(BASE + minutes * MINUTE_MS),
+  transition: 'link',
+  referrerVisitId: null,
+  dwellTimeMs: 0,
+  journeyId: null,
+  url: {
+    id: `url-${url}`,
+    url,
+    title,
+    favicon: null,
+    visitCount: 1,
+    typedCount: 0,
+    frecency: -1,
+    lastVisitedAt: new Date(BASE),
+    createdAt: new Date(BASE),
+    updatedAt: new Date(BASE),
+  },
+  referrerVisit: null,
+});
+
+const makeJourney = (overrides: Partial<Journey> = {}): Journey => ({
+  id: 'journey-1',
+  label: '',
+  startedAt: new Date(BASE),
+  endedAt: new Date(BASE),
+  visitCount: 0,
+  topPages: '[]',
+  domains: '[]',
+  keywords: '[]',
+  stale: false,
+  updatedAt: new Date(BASE),
+  ...overrides,
+});
+
+const createMockRepository = () =>
+  ({
+    findStaleIds: vi.fn(async (_limit: number): Promise<string[]> => []),
+    findUnassignedVisits: vi.fn(async (_limit: number): Promise<UnassignedVisit[]> => []),
+    findOpenSince: vi.fn(async (_since: Date): Promise<Journey[]> => []),
+    findByIds: vi.fn(async (_ids: string[]): Promise<Journey[]> => []),
+    assignVisits: vi.fn(
+      async (id: string | null, _visitIds: string[], _startedAt: Date, _endedAt: Date) =>
+        id ?? 'journey-new'
+    ),
+    findVisits: vi.fn(async (_journeyId: string): Promise<UnassignedVisit[]> => []),
+    updateSummary: vi.fn(async (id: string, _summary: JourneySummary) => makeJourney({ id })),
+    delete: vi.fn(async (_id: string) => undefined),
+    findRecent: vi.fn(async (_limit: number, _offset: number): Promise<Journey[]> => []),
+    findFavicons: vi.fn(async (_urls: string[]) => new Map<string, string | null>()),
+  }) satisfies HistoryClusteringStore;
+
+describe('HistoryClusteringService', () => {
+  let repository: ReturnType<typeof createMockRepository>;
+  let enforcer: BackgroundTaskEnforcer;
+  let service: HistoryClusteringService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    enforcer = new BackgroundTaskEnforcer();
+    service = new HistoryClusteringService(repository, enforcer);
+  });
+
+  it('묶이지 않은 방문을 여정에 배정하고 요약을 저장한다', async () => {
+    const visits = [
+      makeVisit('v1', 0, 'https://example.com/a', 'Example A'),
+      makeVisit('v2', 2, 'https://example.com/b', 'Example B'),
+    ];
+    repository.findUnassignedVisits.mockResolvedValueOnce(visits);
+    repository.findVisits.mockResolvedValueOnce(visits);
+
+    const result = await service.runOnce();
+
+    expect(repository.findOpenSince).toHaveBeenCalledWith(new Date(BASE - 30 * MINUTE_MS));
+    expect(repository.assignVisits).toHaveBeenCalledWith(
+      null,
+      ['v1', 'v2'],
+      new Date(BASE),
+      new Date(BASE + 2 * MINUTE_MS)
+    );
+    expect(repository.updateSummary).toHaveBeenCalledWith(
+      'journey-new',
+      expect.objectContaining({ label: 'example', visitCount: 2 })
+    );
+    expect(result).toMatchObject({ assignedVisits: 2, updatedJourneys: 1 });
+    expect(enforcer.getStatistics().completedTasks).toBe(1);
+  });
+
+  it('방문이 모두 삭제된 stale 여정은 삭제한다', async () => {
+    repository.findStaleIds.mockResolvedValueOnce(['journey-1']);
+
+    await service.runOnce();
+
+    expect(repository.delete).toHaveBeenCalledWith('journey-1');
+    expect(repository.updateSummary).not.toHaveBeenCalled();
+  });
+
+  it('저장된 여정의 대표 페이지에 현재 파비콘을 붙여 반환한다', async () => {
+    repository.findRecent.mockResolvedValueOnce([
+      makeJourney({
+        label: 'example',
+        endedAt: new Date(BASE + MINUTE_MS),
+        visitCount: 2,
+        topPages: JSON.stringify([{ url: 'https://example.com/a', title: 'A', visitCount: 2 }]),
+      }),
+    ]);
+    repository.findFavicons.mockResolvedValueOnce(
+      new Map([['https://example.com/a', 'data:image/png;base64,AA']])
+    );
+
+    const journeys = await service.getJourneys(10, 0);
+
+    expect(repository.findRecent).toHaveBeenCalledWith(10, 0);
+    expect(journeys[0]!.topPages).toEqual([
+      {
+        url: 'https://example.com/a',
+        title: 'A',
+        visitCount: 2,
+        favicon: 'data:image/png;base64,AA',
+      },
+    ]);
+  });
+
+  it('계산 실패 시 작업을 실패로 표시하고 null을 반환한다', async () => {
+    repository.findUnassignedVisits.mockRejectedValueOnce(new Error('db locked'));
+
+    await expect(service.runOnce()).resolves.toBeNull();
+    expect(enforcer.getStatistics().failedTasks).toBe(1);
+  });
+});
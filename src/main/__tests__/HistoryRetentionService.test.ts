@@ -0,0 +1,116 @@
+/**
+ * HistoryRetentionService 테스트
+ * - Mock HistoryManager / AppSettingsRepository 사용
+ * - 실제 BackgroundTaskEnforcer로 일시정지/재개 확인
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  HistoryRetentionService,
+  type HistoryRetentionStore,
+} from '../services/HistoryRetentionService';
+import { EventBus } from '../core/EventBus';
+import { BackgroundTaskEnforcer } from '../../shared/system/enforcers/background-task';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createMockHistoryManager = () =>
+  ({
+    pruneExpired: vi.fn<(beforeTime: number, batchSize: number) => Promise<number>>(async () => 0),
+    pruneOverflow: vi.fn<(maxEntries: number, batchSize: number) => Promise<number>>(async () => 0),
+    recalculateFrecency: vi.fn(async () => 0),
+  }) satisfies HistoryRetentionStore;
+
+const createMockSettingsRepository = (historyAutoDeleteDays: number) => ({
+  get: vi.fn(async () => ({ id: 'settings-1', historyAutoDeleteDays })),
+});
+
+describe('HistoryRetentionService', () => {
+  let historyManager: ReturnType<typeof createMockHistoryManager>;
+  let enforcer: BackgroundTaskEnforcer;
+
+  const createService = (settingsRepository: ReturnType<typeof createMockSettingsRepository>) =>
+    new HistoryRetentionService(historyManager, settingsRepository, enforcer, 1000);
+
+  beforeEach(() => {
+    historyManager = createMockHistoryManager();
+    enforcer = new BackgroundTaskEnforcer();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('보관 기간과 최대 개수로 정리하고 삭제 수를 이벤트로 발행한다', async () => {
+    historyManager.pruneExpired.mockResolvedValueOnce(500).mockResolvedValueOnce(20);
+    historyManager.pruneOverflow.mockResolvedValueOnce(7);
+    const listener = vi.fn();
+    const unsubscribe = EventBus.getInstance().on('history:retentionCompleted', listener);
+
+    const before = Date.now();
+    const result = await createService(createMockSettingsRepository(30)).runOnce();
+    unsubscribe();
+
+    expect(historyManager.pruneExpired).toHaveBeenCalledTimes(2);
+    const cutoff = historyManager.pruneExpired.mock.calls[0]![0];
+    expect(cutoff).toBeGreaterThanOrEqual(before - 30 * DAY_MS);
+    expect(cutoff).toBeLessThanOrEqual(Date.now() - 30 * DAY_MS);
+    expect(historyManager.pruneOverflow).toHaveBeenCalledWith(1000, 500);
+    expect(historyManager.recalculateFrecency).toHaveBeenCalled();
+    expect(result).toMatchObject({ removedByAge: 520, removedByLimit: 7, removed: 527 });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ removed: 527 }));
+    expect(enforcer.getStatistics().completedTasks).toBe(1);
+  });
+
+  it('historyAutoDeleteDays가 0이면 기간 정리를 하지 않는다', async () => {
+    await createService(createMockSettingsRepository(0)).runOnce();
+
+    expect(historyManager.pruneExpired).not.toHaveBeenCalled();
+    expect(historyManager.pruneOverflow).toHaveBeenCalled();
+  });
+
+  it('Enforcer가 일시정지하면 재개될 때까지 배치를 멈춘다', async () => {
+    vi.useFakeTimers();
+    let releaseSettings: () => void = () => {};
+    const settingsRepository = createMockSettingsRepository(0);
+    settingsRepository.get.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          releaseSettings = () => resolve({ id: 'settings-1', historyAutoDeleteDays: 0 });
+        })
+    );
+
+    const pending = createService(settingsRepository).runOnce();
+    await enforcer.enforceTaskQueue(90, 100, false); // CPU 부하 → LOW 작업 일시정지
+    releaseSettings();
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(historyManager.pruneOverflow).not.toHaveBeenCalled();
+
+    await enforcer.enforceTaskQueue(10, 100, false);
+    await vi.advanceTimersByTimeAsync(5000);
+    await expect(pending).resolves.not.toBeNull();
+    expect(historyManager.pruneOverflow).toHaveBeenCalled();
+  });
+
+  it('정리 실패 시 작업을 실패로 표시하고 null을 반환한다', async () => {
+    historyManager.pruneOverflow.mockRejectedValueOnce(new Error('db locked'));
+
+    await expect(createService(createMockSettingsRepository(0)).runOnce()).resolves.toBeNull();
+    expect(enforcer.getStatistics().failedTasks).toBe(1);
+  });
+
+  it('start는 즉시 실행하고 주기마다 반복하며 app:beforeQuit에서 중지된다', async () => {
+    vi.useFakeTimers();
+    const service = createService(createMockSettingsRepository(0));
+
+    service.start(DAY_MS);
+    await vi.advanceTimersByTimeAsync(DAY_MS);
+    expect(historyManager.pruneOverflow).toHaveBeenCalledTimes(2);
+
+    EventBus.getInstance().emit('app:beforeQuit', {});
+    expect(service.isRunning()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(DAY_MS);
+    expect(historyManager.pruneOverflow).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * ImportService 테스트
+ * - 북마크 HTML, Chromium Bookmarks JSON은 fixtures/import 파일 사용
+ * - SQLite (History, places.sqlite)는 원본 테이블 행을 돌려주는 가짜 데이터베이스 사용
+ * - Mock HistoryManager / BookmarkRepository로 중복 제거 결과 확인
+ * - 열기 대화상자는 고른 경로를 돌려주는 가짜 선택기 사용
+ */
+
+import path from 'path';
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { ImportService } from '../services/ImportService';
+import type { OpenDialogPicker } from '../services/file/common';
+import type { ProfileDatabase, ProfileDatabaseOpener } from '../services/import/common';
+import type { BookmarkImportInput } from '../services/database/BookmarkRepository';
+import type { VisitImportInput } from '../services/database/HistoryRepository';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'import');
+const WEBKIT_EPOCH_OFFSET_MS = 11644473600000;
+const BASE_MS = new Date(2025, 10, 1, 9, 0).getTime();
+
+/**
+ * SQL의 테이블 이름으로 행을 돌려주는 가짜 프로필 데이터베이스
+ * (방문 쿼리는 afterSourceId/limit 매개변수로 페이지 처리)
+ */
+const createFakeDatabase = (tables: Record<string, Array<Record<string, unknown>>>) => {
+  const database = {
+    query: vi.fn(async (sql: string, afterSourceId?: unknown, limit?: unknown) => {
+      const table = Object.keys(tables).find((name) => sql.includes(`FROM ${name}`));
+      const rows = table ? tables[table]! : [];
+      if (afterSourceId === undefined) {
+        return rows;
+      }
+      return rows.filter((row) => Number(row.id) > Number(afterSourceId)).slice(0, Number(limit));
+    }),
+    close: vi.fn(async () => undefined),
+  };
+  return database as typeof database & ProfileDatabase;
+};
+
+const createMocks = () => {
+  const existingUrls = new Set<string>();
+  const existingVisits = new Set<string>();
+  let nextVisitId = 1;
+
+  return {
+    existingUrls,
+    existingVisits,
+    bookmarkRepository: {
+      importMany: vi.fn(async (entries: BookmarkImportInput[]) => {
+        let created = 0;
+        for (const entry of entries) {
+          if (!existingUrls.has(entry.url)) {
+            existingUrls.add(entry.url);
+            created += 1;
+          }
+        }
+        return created;
+      }),
+    },
+    historyManager: {
+      importVisits: vi.fn(async (entries: VisitImportInput[]) =>
+        entries.map((entry) => {
+          const key = `${entry.url}|${entry.visitedAt.getTime()}`;
+          const created = !existingVisits.has(key);
+          existingVisits.add(key);
+          return { id: `visit-${nextVisitId++}`, created };
+        })
+      ),
+    },
+  };
+};
+
+describe('ImportService', () => {
+  let mocks: ReturnType<typeof createMocks>;
+  let database: ReturnType<typeof createFakeDatabase>;
+  let openDatabase: Mock<ProfileDatabaseOpener>;
+  let pickOpenPaths: Mock<OpenDialogPicker>;
+  let service: ImportService;
+
+  beforeEach(() => {
+    mocks = createMocks();
+    database = createFakeDatabase({});
+    openDatabase = vi.fn(async () => database);
+    pickOpenPaths = vi.fn(async () => []);
+    service = new ImportService(
+      mocks.historyManager,
+      mocks.bookmarkRepository,
+      openDatabase,
+      pickOpenPaths
+    );
+  });
+
+  it('북마크 HTML의 폴더, 태그, 설명을 가져오고 http(s)가 아닌 링크는 건너뛴다', async () => {
+    pickOpenPaths.mockResolvedValueOnce([path.join(FIXTURES, 'bookmarks.html')]);
+    const progress = vi.fn();
+    const result = await service.importData(
+      { source: 'bookmarksHtml', dataTypes: ['bookmarks', 'history'] },
+      null,
+      progress
+    );
+
+    const saved = mocks.bookmarkRepository.importMany.mock.calls[0]![0];
+    expect(saved).toEqual([
+      {
+        url: 'https://example.com/',
+        title: 'Example & Co',
+        folder: 'root',
+        tags: ['docs', 'reference'],
+        description: 'Example description',
+        createdAt: new Date(1700000000 * 1000),
+      },
+      expect.objectContaining({ url: 'https://developer.mozilla.org/', folder: 'Dev' }),
+      expect.objectContaining({ url: 'https://vitejs.dev/', folder: 'Dev/Tools-Build' }),
+      expect.objectContaining({ url: 'https://news.example.org/', folder: 'root', tags: ['news'] }),
+    ]);
+    expect(pickOpenPaths).toHaveBeenCalledWith(
+      expect.objectContaining({ properties: ['openFile'] }),
+      null
+    );
+    expect(result).toEqual({
+      canceled: false,
+      imported: ['bookmarks'],
+      importedBookmarks: 4,
+      skippedBookmarks: 0,
+      importedVisits: 0,
+      skippedVisits: 0,
+    });
+    expect(progress).toHaveBeenCalledWith({ dataType: 'bookmarks', processed: 4, total: 4 });
+    expect(openDatabase).not.toHaveBeenCalled();
+  });
+
+  it('Chromium 프로필의 북마크와 방문을 가져오고 이미 있는 항목은 건너뛴다', async () => {
+    mocks.existingUrls.add('https://example.com/');
+    mocks.existingVisits.add(`https://a.example.com/|${BASE_MS}`);
+    database = createFakeDatabase({
+      visits: [
+        {
+          id: 1,
+          fromVisit: 0,
+          url: 'https://a.example.com/',
+          title: 'A',
+          visitedAt: BASE_MS,
+          coreTransition: 1,
+          redirect: 0,
+          durationMs: 0,
+        },
+        {
+          id: 2,
+          fromVisit: 1,
+          url: 'https://b.example.com/',
+          title: 'B',
+          visitedAt: BigInt(BASE_MS + 60000),
+          coreTransition: 0,
+          redirect: 1,
+          durationMs: 42000,
+        },
+        {
+          id: 3,
+          fromVisit: 0,
+          url: 'chrome://newtab/',
+          title: 'New Tab',
+          visitedAt: BASE_MS + 120000,
+          coreTransition: 1,
+          redirect: 0,
+          durationMs: 0,
+        },
+      ],
+    });
+
+    pickOpenPaths.mockResolvedValueOnce([path.join(FIXTURES, 'chrome')]);
+    const result = await service.importData({
+      source: 'chrome',
+      dataTypes: ['bookmarks', 'history'],
+    });
+
+    const bookmarks = mocks.bookmarkRepository.importMany.mock.calls[0]![0];
+    expect(bookmarks.map((bookmark) => [bookmark.url, bookmark.folder])).toEqual([
+      ['https://example.com/', 'Bookmarks bar'],
+      ['https://www.chromium.org/', 'Bookmarks bar/Dev'],
+      ['https://news.example.org/', 'Other bookmarks'],
+    ]);
+    expect(bookmarks[0]!.createdAt).toEqual(
+      new Date(13345000000000000 / 1000 - WEBKIT_EPOCH_OFFSET_MS)
+    );
+
+    expect(openDatabase).toHaveBeenCalledWith(path.join(FIXTURES, 'chrome', 'History'));
+    const visits = mocks.historyManager.importVisits.mock.calls[0]![0];
+    expect(visits).toEqual([
+      expect.objectContaining({ url: 'https://a.example.com/', transition: 'typed' }),
+      expect.objectContaining({
+        url: 'https://b.example.com/',
+        visitedAt: new Date(BASE_MS + 60000),
+        transition: 'redirect',
+        referrerVisitId: null,
+        referrerIndex: 0,
+        dwellTimeMs: 42000,
+      }),
+    ]);
+    expect(pickOpenPaths).toHaveBeenCalledWith(
+      expect.objectContaining({ properties: ['openDirectory'] }),
+      null
+    );
+    expect(result).toEqual({
+      canceled: false,
+      imported: ['bookmarks', 'history'],
+      importedBookmarks: 2,
+      skippedBookmarks: 1,
+      importedVisits: 1,
+      skippedVisits: 1,
+    });
+    expect(database.close).toHaveBeenCalled();
+  });
+
+  it('Firefox 태그 폴더를 북마크 태그로 합치고 방문을 페이지 단위로 읽는다', async () => {
+    database = createFakeDatabase({
+      moz_bookmarks: [
+        { id: 1, type: 2, parent: 0, title: '', guid: 'root________', dateAdded: 0, url: null },
+        { id: 2, type: 2, parent: 1, title: 'menu', guid: 'menu________', dateAdded: 0, url: null },
+        { id: 3, type: 2, parent: 1, title: 'tags', guid: 'tags________', dateAdded: 0, url: null },
+        { id: 4, type: 2, parent: 2, title: 'Reading', guid: 'f1', dateAdded: 0, url: null },
+        {
+          id: 5,
+          type: 1,
+          parent: 4,
+          title: 'Example',
+          guid: 'b1',
+          dateAdded: 1700000000000,
+          url: 'https://example.com/',
+        },
+        { id: 6, type: 2, parent: 3, title: 'docs', guid: 't1', dateAdded: 0, url: null },
+        {
+          id: 7,
+          type: 1,
+          parent: 6,
+          title: '',
+          guid: 'b2',
+          dateAdded: 0,
+          url: 'https://example.com/',
+        },
+      ],
+      moz_historyvisits: Array.from({ length: 250 }, (_, index) => ({
+        id: index + 1,
+        fromVisit: index,
+        url: `https://example.com/${index}`,
+        title: `Page ${index}`,
+        visitedAt: BASE_MS + index * 1000,
+        visitType: 1,
+      })),
+    });
+    pickOpenPaths.mockResolvedValueOnce([FIXTURES]);
+    const progress = vi.fn();
+
+    const result = await service.importData(
+      { source: 'firefox', dataTypes: ['bookmarks', 'history'] },
+      null,
+      progress
+    );
+
+    expect(openDatabase).toHaveBeenCalledTimes(1);
+    expect(mocks.bookmarkRepository.importMany.mock.calls[0]![0]).toEqual([
+      {
+        url: 'https://example.com/',
+        title: 'Example',
+        folder: 'Bookmarks Menu/Reading',
+        tags: ['docs'],
+        description: null,
+        createdAt: new Date(1700000000000),
+      },
+    ]);
+    expect(mocks.historyManager.importVisits).toHaveBeenCalledTimes(2);
+    const secondPage = mocks.historyManager.importVisits.mock.calls[1]![0];
+    expect(secondPage[0]!.referrerVisitId).toBe('visit-200');
+    expect(progress).toHaveBeenLastCalledWith({ dataType: 'history', processed: 250, total: null });
+    expect(result.importedVisits).toBe(250);
+  });
+
+  it('대화상자를 취소하면 아무것도 읽지 않는다', async () => {
+    const result = await service.importData({ source: 'firefox', dataTypes: ['history'] });
+
+    expect(result).toMatchObject({ canceled: true, imported: [] });
+    expect(openDatabase).not.toHaveBeenCalled();
+    expect(mocks.historyManager.importVisits).not.toHaveBeenCalled();
+  });
+
+  it('경로가 없으면 한국어 오류를 던진다', async () => {
+    pickOpenPaths.mockResolvedValueOnce([path.join(FIXTURES, 'missing-profile')]);
+
+    await expect(
+      service.importData({ source: 'chrome', dataTypes: ['bookmarks'] })
+    ).rejects.toThrow('가져올 경로를 찾을 수 없습니다');
+  });
+});
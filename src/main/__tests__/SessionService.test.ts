@@ -0,0 +1,225 @@
+/**
+ * SessionService 테스트
+ * - 가짜 WindowManager (메인 윈도우 + createWindow로 추가되는 윈도우)
+ * - 가짜 TabManager (추가된 탭 목록), 가짜 SessionRepository (보관된 복구 세션)
+ * - 마지막 세션 복원 시 윈도우 구성/탭 소속/윈도우별 활성 탭 복원 확인
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+import type { BrowserWindow } from 'electron';
+import type { SessionData } from '@prisma/client';
+import {
+  SessionService,
+  type SessionStore,
+  type SessionTabState,
+  type SessionTabs,
+  type SessionViews,
+  type SessionWindowState,
+  type SessionWindows,
+} from '../services/SessionService';
+import { RECOVERY_SESSION_ID } from '../services/database/SessionRepository';
+import type { BrowserTab } from '../../shared/types/domain';
+import type { CreateWindowOptions } from '../core/window';
+
+const createFakeWindow = (id: string) => ({
+  id,
+  setBounds: vi.fn(),
+  maximize: vi.fn(),
+  setFullScreen: vi.fn(),
+});
+
+type FakeWindow = ReturnType<typeof createFakeWindow>;
+
+const createFakeWindows = () => {
+  const main = createFakeWindow('main');
+  const created: Array<{ window: FakeWindow; options: CreateWindowOptions }> = [];
+  const asWindow = (window: FakeWindow) => window as unknown as BrowserWindow;
+  const windows = {
+    main,
+    created,
+    getMainWindow: () => asWindow(main),
+    getMainWindowId: () => main.id,
+    createWindow: (options: CreateWindowOptions = {}) => {
+      const window = createFakeWindow(`new-${created.length + 1}`);
+      created.push({ window, options });
+      return asWindow(window);
+    },
+    getWindowId: (window: BrowserWindow) => (window as unknown as FakeWindow).id,
+    getAllWindows: () => [main, ...created.map((item) => item.window)].map(asWindow),
+  };
+  return windows satisfies SessionWindows;
+};
+
+const createFakeTabs = () => {
+  const tabs: BrowserTab[] = [];
+  const fake = {
+    tabs,
+    addTab: vi.fn(async (url: string, title?: string, windowId?: string | null) => {
+      const tab: BrowserTab = {
+        id: `tab-${tabs.length + 1}`,
+        url,
+        title: title ?? url,
+        favicon: null,
+        isActive: false,
+        isMuted: false,
+        isPinned: false,
+        index: tabs.filter((item) => item.windowId === windowId).length,
+        windowId: windowId ?? null,
+        groupId: null,
+        state: 'discarded',
+        navigationIndex: 0,
+        createdAt: new Date(0),
+        updatedAt: new Date(0),
+      };
+      tabs.push(tab);
+      return { ...tab };
+    }),
+    updateTab: vi.fn(async (_tabId: string, _updates: Partial<BrowserTab>) => true),
+    getAllTabs: vi.fn(async () => tabs.map((tab) => ({ ...tab }))),
+    getActiveTabId: vi.fn(async () => null),
+    clearAllTabs: vi.fn(async () => {}),
+    reassignWindows: vi.fn(async (_mapping: Map<string, string>, _fallback: string) => {}),
+    getNavigationEntries: vi.fn(async (_tabId: string) => []),
+    saveNavigationStack: vi.fn(async (_tabId: string, _entries: unknown[], _index: number) => {}),
+  };
+  return fake satisfies SessionTabs;
+};
+
+const createFakeViews = () =>
+  ({
+    createView: vi.fn((_tab: BrowserTab) => null),
+    showView: vi.fn((_tabId: string) => true),
+    getVisibleTabId: (_windowId: string) => null,
+  }) satisfies SessionViews;
+
+const createTabState = (id: string, windowId: string | null): SessionTabState => ({
+  id,
+  url: `https://${id}.example/`,
+  title: id,
+  favicon: null,
+  isPinned: false,
+  isMuted: false,
+  windowId,
+  groupId: null,
+  navigationIndex: 0,
+  entries: [],
+});
+
+const createWindowState = (
+  id: string,
+  activeTabId: string | null,
+  overrides: Partial<SessionWindowState> = {}
+): SessionWindowState => ({
+  id,
+  bounds: { x: 10, y: 20, width: 800, height: 600 },
+  isMaximized: false,
+  isFullScreen: false,
+  activeTabId,
+  ...overrides,
+});
+
+const createRecovery = (
+  tabs: SessionTabState[],
+  windows: SessionWindowState[] | null,
+  activeTabId: string | null
+): SessionData => ({
+  id: RECOVERY_SESSION_ID,
+  activeTabId,
+  openTabs: JSON.stringify(tabs),
+  tabGroups: '[]',
+  windowState: windows ? JSON.stringify(windows) : null,
+  cleanExit: false,
+  lastActiveAt: new Date(0),
+  updatedAt: new Date(0),
+});
+
+describe('SessionService', () => {
+  let windows: ReturnType<typeof createFakeWindows>;
+  let tabs: ReturnType<typeof createFakeTabs>;
+  let views: ReturnType<typeof createFakeViews>;
+  let selectTab: Mock<(tabId: string) => Promise<void>>;
+
+  const createService = (recovery: SessionData) => {
+    const store: SessionStore = {
+      find: async (id) => (id === RECOVERY_SESSION_ID ? recovery : null),
+      save: vi.fn(),
+      delete: vi.fn(async () => {}),
+      copyToRecovery: vi.fn(),
+      setCleanExit: vi.fn(async () => {}),
+    };
+    return new SessionService(
+      { selectTab },
+      { getAllGroups: async () => [], createGroup: vi.fn() },
+      tabs,
+      views,
+      windows,
+      store
+    );
+  };
+
+  const idOf = (title: string) => tabs.tabs.find((tab) => tab.title === title)?.id;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    windows = createFakeWindows();
+    tabs = createFakeTabs();
+    views = createFakeViews();
+    selectTab = vi.fn(async (_tabId: string) => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('restoreLastSession', () => {
+    it('reopens each saved window and puts its tabs back into it', async () => {
+      const service = createService(
+        createRecovery(
+          [
+            createTabState('a1', 'old-1'),
+            createTabState('a2', 'old-1'),
+            createTabState('b1', 'old-2'),
+            createTabState('b2', 'old-2'),
+          ],
+          [
+            createWindowState('old-1', 'a2', { isMaximized: true }),
+            createWindowState('old-2', 'b1', {
+              bounds: { x: 900, y: 40, width: 640, height: 480 },
+            }),
+          ],
+          'b1'
+        )
+      );
+
+      await expect(service.restoreLastSession()).resolves.toBe(4);
+
+      // 첫 윈도우는 메인 윈도우에 적용, 두 번째는 저장된 bounds로 새로 생성
+      expect(windows.main.maximize).toHaveBeenCalled();
+      expect(windows.created).toHaveLength(1);
+      expect(windows.created[0]!.options).toEqual({ x: 900, y: 40, width: 640, height: 480 });
+
+      expect(tabs.tabs.map((tab) => [tab.title, tab.windowId])).toEqual([
+        ['a1', 'main'],
+        ['a2', 'main'],
+        ['b1', 'new-1'],
+        ['b2', 'new-1'],
+      ]);
+
+      // 윈도우별 활성 탭 표시 후 전역 활성 탭 선택
+      expect(views.showView.mock.calls).toEqual([[idOf('a2')], [idOf('b1')]]);
+      expect(selectTab).toHaveBeenCalledWith(idOf('b1'));
+    });
+
+    it('falls back to the main window for tabs of unknown or unsaved windows', async () => {
+      const service = createService(
+        createRecovery([createTabState('a', 'old-1'), createTabState('b', null)], null, 'a')
+      );
+
+      await service.restoreLastSession();
+
+      expect(windows.created).toHaveLength(0);
+      expect(tabs.tabs.map((tab) => tab.windowId)).toEqual(['main', 'main']);
+      expect(selectTab).toHaveBeenCalledWith(idOf('a'));
+    });
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * SettingsProfileService 테스트
+ * - 실제 SettingsService (가짜 AppSettingsRepository)로 설정 검증/저장 확인
+ * - 가짜 SettingsProfileRepository (메모리 행), 가짜 SiteSettingsService 사용
+ * - 임시 디렉토리에 설정 묶음을 실제 파일로 내보내고 다시 가져오기 (저장/열기 대화상자는 가짜)
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('electron', () => ({ app: {}, dialog: {} }));
+
+import type { SettingsProfile } from '@prisma/client';
+import {
+  SettingsProfileService,
+  type SettingsProfileStore,
+} from '../services/SettingsProfileService';
+import { SettingsService, type SettingsStore } from '../services/SettingsService';
+import type { SiteSettingsService } from '../services/SiteSettingsService';
+import { createSettingsBundle } from '../services/settings/settingsBundle';
+import { DEFAULT_SETTINGS, SETTINGS_VERSION } from '../services/settings/settingsSchema';
+import { ValidationError } from '../../shared/errors';
+import type { SiteSettings } from '../../shared/types/domain';
+
+const createSettingsService = async (document: Record<string, unknown> = {}) => {
+  const row = { id: 'settings-1', version: SETTINGS_VERSION, data: JSON.stringify(document) };
+  const repository: SettingsStore = {
+    get: async () => ({ ...row, updatedAt: new Date() }),
+    save: async (version, data) => ({
+      ...Object.assign(row, { version, data }),
+      updatedAt: new Date(),
+    }),
+  };
+  const service = SettingsService.create(repository, async () => []);
+  await service.initialize();
+  return service;
+};
+
+const createMockProfileRepository = () => {
+  const rows = new Map<string, SettingsProfile>();
+  let nextId = 1;
+  const byName = (name: string) => [...rows.values()].find((row) => row.name === name) ?? null;
+  const store = {
+    findAll: vi.fn(async () => [...rows.values()]),
+    findById: vi.fn(async (id: string) => rows.get(id) ?? null),
+    findByName: vi.fn(async (name: string) => byName(name)),
+    findActive: vi.fn(async () => [...rows.values()].find((row) => row.isActive) ?? null),
+    create: vi.fn(async (name: string, version: number, data: string) => {
+      const row: SettingsProfile = {
+        id: `profile-${nextId++}`,
+        name,
+        version,
+        data,
+        isActive: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      rows.set(row.id, row);
+      return row;
+    }),
+    saveData: vi.fn(async (id: string, version: number, data: string) =>
+      Object.assign(rows.get(id)!, { version, data })
+    ),
+    rename: vi.fn(async (id: string, name: string) => Object.assign(rows.get(id)!, { name })),
+    activate: vi.fn(async (id: string) => {
+      for (const row of rows.values()) {
+        row.isActive = row.id === id;
+      }
+      return rows.get(id)!;
+    }),
+    delete: vi.fn(async (id: string) => {
+      const row = rows.get(id)!;
+      rows.delete(id);
+      return row;
+    }),
+  } satisfies SettingsProfileStore;
+  return { rows, ...store };
+};
+
+const createFakeSiteSettings = (sites: SiteSettings[] = []) =>
+  ({
+    list: vi.fn(() => sites),
+    applySite: vi.fn(async (site: Omit<SiteSettings, 'updatedAt'>) => {
+      if (site.origin === 'https://broken.example') {
+        throw new Error('db closed');
+      }
+      return { ...site, updatedAt: new Date() };
+    }),
+  }) satisfies Pick<SiteSettingsService, 'list' | 'applySite'>;
+
+describe('SettingsProfileService', () => {
+  let tempDir: string;
+  let bundlePath: string;
+  let filePath: string | null; // 대화상자에서 고른 파일 (null = 취소)
+  let repository: ReturnType<typeof createMockProfileRepository>;
+
+  const createService = (
+    settingsService: SettingsService,
+    siteSettings = createFakeSiteSettings()
+  ) =>
+    new SettingsProfileService(
+      repository,
+      settingsService,
+      siteSettings,
+      async () => filePath,
+      async () => (filePath ? [filePath] : [])
+    );
+
+  const exportBundle = async () => {
+    const settingsService = await createSettingsService({
+      theme: 'dark',
+      zoomLevel: 1.25,
+      keyboardShortcuts: { 'tab.new': 'CommandOrControl+T' },
+    });
+    const siteSettings = createFakeSiteSettings([
+      {
+        origin: 'https://maps.example',
+        zoomLevel: 1.5,
+        permissions: { geolocation: 'allow' },
+        updatedAt: new Date(),
+      },
+    ]);
+    await createService(settingsService, siteSettings).exportBundle();
+    return JSON.parse(fs.readFileSync(bundlePath, 'utf-8'));
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aside-settings-test-'));
+    bundlePath = path.join(tempDir, 'aside-settings.json');
+    filePath = bundlePath;
+    repository = createMockProfileRepository();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('round-trips settings, site overrides and shortcuts through a bundle', async () => {
+    const bundle = await exportBundle();
+    expect(bundle).toMatchObject({ format: 'aside-settings', version: 1, profile: null });
+    expect(bundle.checksum).toMatch(/^[0-9a-f]{64}$/);
+
+    // 다시 들여쓰기해도 체크섬은 같음
+    fs.writeFileSync(bundlePath, JSON.stringify(bundle, null, 4));
+
+    const settingsService = await createSettingsService();
+    const siteSettings = createFakeSiteSettings();
+    const result = await createService(settingsService, siteSettings).importBundle();
+
+    expect(result).toEqual({
+      canceled: false,
+      settings: ['theme', 'zoomLevel', 'keyboardShortcuts'],
+      sites: 1,
+      skipped: [],
+    });
+    expect(settingsService.get('keyboardShortcuts')).toEqual({ 'tab.new': 'CommandOrControl+T' });
+    expect(siteSettings.applySite).toHaveBeenCalledWith({
+      origin: 'https://maps.example',
+      zoomLevel: 1.5,
+      permissions: { geolocation: 'allow' },
+    });
+  });
+
+  it('changes nothing when the open dialog is canceled', async () => {
+    await exportBundle();
+    filePath = null;
+
+    const settingsService = await createSettingsService();
+    const siteSettings = createFakeSiteSettings();
+    const result = await createService(settingsService, siteSettings).importBundle();
+
+    expect(result).toEqual({ canceled: true, settings: [], sites: 0, skipped: [] });
+    expect(settingsService.getAll()).toEqual(DEFAULT_SETTINGS);
+    expect(siteSettings.applySite).not.toHaveBeenCalled();
+  });
+
+  it('rejects modified bundles without changing anything', async () => {
+    const bundle = await exportBundle();
+    bundle.data.settings.theme = 'light';
+    fs.writeFileSync(bundlePath, JSON.stringify(bundle));
+
+    const settingsService = await createSettingsService();
+    const siteSettings = createFakeSiteSettings();
+    const service = createService(settingsService, siteSettings);
+
+    await expect(service.importBundle()).rejects.toThrow('체크섬 불일치');
+    fs.writeFileSync(bundlePath, '{ not json');
+    await expect(service.importBundle()).rejects.toThrow(ValidationError);
+
+    expect(settingsService.getAll()).toEqual(DEFAULT_SETTINGS);
+    expect(siteSettings.applySite).not.toHaveBeenCalled();
+  });
+
+  it('applies valid entries and reports the ones it skipped', async () => {
+    const bundle = await exportBundle();
+    const tampered = createSettingsBundle(
+      { ...bundle.data.settings, zoomLevel: 42, window: { width: 800 } },
+      [
+        ...bundle.data.siteSettings,
+        { origin: 'javascript:alert(1)', zoomLevel: null, permissions: {} },
+        { origin: 'https://broken.example', zoomLevel: null, permissions: { camera: 'block' } },
+      ],
+      null
+    );
+    fs.writeFileSync(bundlePath, JSON.stringify(tampered));
+
+    const settingsService = await createSettingsService();
+    const result = await createService(settingsService).importBundle();
+
+    expect(result.settings).toEqual(['theme', 'keyboardShortcuts']);
+    expect(result.sites).toBe(1);
+    expect(result.skipped.map((issue) => `${issue.section}:${issue.key}`)).toEqual([
+      'settings:zoomLevel',
+      'settings:window',
+      'siteSettings:javascript:alert(1)',
+      'siteSettings:https://broken.example',
+    ]);
+    expect(settingsService.get('theme')).toBe('dark');
+    expect(settingsService.get('zoomLevel')).toBe(DEFAULT_SETTINGS.zoomLevel);
+  });
+
+  it('saves the current settings into the active profile when switching', async () => {
+    const settingsService = await createSettingsService({ theme: 'dark' });
+    const service = createService(settingsService);
+
+    const work = await service.create('work');
+    await settingsService.update({ theme: 'light', cacheSize: 1000 });
+    const gaming = await service.create('gaming');
+    await expect(service.create('work')).rejects.toThrow('이미 있는 프로필 이름입니다');
+
+    await service.switchTo(work.id);
+    expect(settingsService.get('theme')).toBe('dark');
+    expect(settingsService.get('cacheSize')).toBe(DEFAULT_SETTINGS.cacheSize);
+
+    await settingsService.set('zoomLevel', 1.5);
+    await service.switchTo(gaming.id);
+    expect(settingsService.get('theme')).toBe('light');
+    expect(settingsService.get('zoomLevel')).toBe(DEFAULT_SETTINGS.zoomLevel);
+
+    await service.switchTo(work.id);
+    expect(settingsService.get('zoomLevel')).toBe(1.5);
+    expect((await service.list()).map((profile) => [profile.name, profile.active])).toEqual([
+      ['work', true],
+      ['gaming', false],
+    ]);
+  });
+
+  it('does not delete the active profile', async () => {
+    const service = createService(await createSettingsService());
+    const work = await service.create('work');
+    const gaming = await service.create('gaming');
+    await service.switchTo(work.id);
+
+    await expect(service.delete(work.id)).rejects.toThrow('사용 중인 프로필은 삭제할 수 없습니다');
+    await expect(service.delete(gaming.id)).resolves.toBe(true);
+    expect(repository.rows.size).toBe(1);
+  });
+});
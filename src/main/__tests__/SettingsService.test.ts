@@ -0,0 +1,189 @@
+/**
+ * SettingsService 테스트
+ * - 가짜 AppSettingsRepository 사용 (버전 + JSON 문서 행)
+ * - 이전 설정 파일 마이그레이션, 쓰기 검증, 변경 이벤트 확인
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SettingsService, type SettingsStore } from '../services/SettingsService';
+import { DEFAULT_SETTINGS, SETTINGS_VERSION } from '../services/settings/settingsSchema';
+import { EventBus } from '../core/EventBus';
+import { ValidationError } from '../../shared/errors';
+import type { SettingsChange } from '../../shared/types/domain';
+
+vi.mock('electron', () => ({ app: {} }));
+
+const createMockRepository = (version: number, data: string) => {
+  const row = { id: 'settings-1', version, data, updatedAt: new Date() };
+  const store = {
+    get: vi.fn(async () => ({ ...row })),
+    save: vi.fn(async (nextVersion: number, nextData: string) => {
+      row.version = nextVersion;
+      row.data = nextData;
+      return { ...row };
+    }),
+  } satisfies SettingsStore;
+  return { row, ...store };
+};
+
+describe('SettingsService', () => {
+  let changes: SettingsChange[];
+  let unsubscribe: () => void;
+
+  const createService = (
+    repository: ReturnType<typeof createMockRepository>,
+    legacy: Record<string, unknown>[] = []
+  ) => SettingsService.create(repository, async () => legacy);
+
+  beforeEach(() => {
+    changes = [];
+    unsubscribe = EventBus.getInstance().on('settings:changed', (change: SettingsChange) => {
+      changes.push(change);
+    });
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  it('migrates version 0 documents and merges legacy files (later files win)', async () => {
+    const repository = createMockRepository(
+      0,
+      JSON.stringify({ theme: 'dark', historyAutoDeleteDays: 30 })
+    );
+    const service = createService(repository, [
+      { theme: 'light', zoomLevel: 1.5 },
+      { zoomLevel: 2, window: { width: 800 } },
+    ]);
+
+    const settings = await service.initialize();
+
+    expect(settings).toEqual({
+      ...DEFAULT_SETTINGS,
+      theme: 'light',
+      zoomLevel: 2,
+      historyAutoDeleteDays: 30,
+    });
+    expect(repository.save).toHaveBeenCalledWith(SETTINGS_VERSION, JSON.stringify(settings));
+  });
+
+  it('loads current documents without migrating and defaults invalid keys', async () => {
+    const readLegacy = vi.fn(async () => [{ theme: 'light' }]);
+    const repository = createMockRepository(
+      SETTINGS_VERSION,
+      JSON.stringify({ theme: 'dark', zoomLevel: 42 })
+    );
+    const service = SettingsService.create(repository, readLegacy);
+
+    await service.initialize();
+
+    expect(service.get('theme')).toBe('dark');
+    expect(service.get('zoomLevel')).toBe(DEFAULT_SETTINGS.zoomLevel);
+    expect(readLegacy).not.toHaveBeenCalled();
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+
+  it('falls back to defaults when the document cannot be loaded', async () => {
+    const repository = createMockRepository(SETTINGS_VERSION, '{}');
+    repository.get.mockRejectedValueOnce(new Error('db closed'));
+    const service = createService(repository);
+
+    expect(await service.initialize()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('saves valid writes and emits settings:changed with the changed keys', async () => {
+    const repository = createMockRepository(SETTINGS_VERSION, '{}');
+    const service = createService(repository);
+    await service.initialize();
+
+    const settings = await service.update({ theme: 'dark', zoomLevel: 1.25 });
+
+    expect(settings.theme).toBe('dark');
+    expect(JSON.parse(repository.row.data)).toMatchObject({ theme: 'dark', zoomLevel: 1.25 });
+    expect(changes).toHaveLength(1);
+    expect(changes[0]?.keys).toEqual(['theme', 'zoomLevel']);
+    expect(changes[0]?.previous.theme).toBe('auto');
+    expect(changes[0]?.settings.theme).toBe('dark');
+  });
+
+  it('does not save or emit when nothing changes', async () => {
+    const repository = createMockRepository(SETTINGS_VERSION, '{}');
+    const service = createService(repository);
+    await service.initialize();
+
+    await service.set('theme', DEFAULT_SETTINGS.theme);
+
+    expect(repository.save).not.toHaveBeenCalled();
+    expect(changes).toHaveLength(0);
+  });
+
+  it('rejects unknown keys and invalid values without saving anything', async () => {
+    const repository = createMockRepository(SETTINGS_VERSION, '{}');
+    const service = createService(repository);
+    await service.initialize();
+
+    await expect(service.set('window', { width: 800 })).rejects.toThrow(ValidationError);
+    await expect(service.update({ theme: 'dark', zoomLevel: 10 })).rejects.toThrow(
+      '설정값이 올바르지 않습니다: zoomLevel'
+    );
+    await expect(service.set('startPage', 'javascript:alert(1)')).rejects.toThrow(ValidationError);
+
+    expect(service.get('theme')).toBe('auto');
+    expect(repository.save).not.toHaveBeenCalled();
+    expect(changes).toHaveLength(0);
+  });
+
+  it('validates keyboard shortcuts and compares them by content', async () => {
+    const repository = createMockRepository(SETTINGS_VERSION, '{}');
+    const service = createService(repository);
+    await service.initialize();
+
+    await service.set('keyboardShortcuts', { 'tab.new': 'CommandOrControl+T', 'tab.close': '' });
+    await service.set('keyboardShortcuts', { 'tab.close': '', 'tab.new': 'CommandOrControl+T' });
+    await expect(service.set('keyboardShortcuts', { 'tab new': 'Ctrl+T' })).rejects.toThrow(
+      ValidationError
+    );
+    await expect(service.set('keyboardShortcuts', { 'tab.new': 'Ctrl+ T' })).rejects.toThrow(
+      ValidationError
+    );
+
+    expect(service.get('keyboardShortcuts')).toEqual({
+      'tab.new': 'CommandOrControl+T',
+      'tab.close': '',
+    });
+    expect(changes).toHaveLength(1);
+  });
+
+  it('applies queued writes in order', async () => {
+    const repository = createMockRepository(SETTINGS_VERSION, '{}');
+    const service = createService(repository);
+    await service.initialize();
+
+    await Promise.all([
+      service.set('cacheSize', 1000),
+      service.set('cacheSize', 'big').catch(() => undefined),
+      service.set('cacheSize', 2000),
+    ]);
+
+    expect(service.get('cacheSize')).toBe(2000);
+    expect(changes.map((change) => change.settings.cacheSize)).toEqual([1000, 2000]);
+  });
+
+  it('resets selected keys or everything to defaults', async () => {
+    const repository = createMockRepository(
+      SETTINGS_VERSION,
+      JSON.stringify({ theme: 'dark', language: 'ko' })
+    );
+    const service = createService(repository);
+    await service.initialize();
+
+    await service.reset(['theme']);
+    expect(service.get('theme')).toBe('auto');
+    expect(service.get('language')).toBe('ko');
+
+    await service.reset();
+    expect(service.getAll()).toEqual(DEFAULT_SETTINGS);
+
+    await expect(service.reset(['nope'])).rejects.toThrow('알 수 없는 설정입니다: nope');
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * SiteSettingsService 테스트
+ * - 가짜 SiteSettingRepository (메모리 행), 가짜 세션/대화상자 사용
+ * - 권한 요청/확인 핸들러 결정, 기억/탭별 선택, 해제 확인
+ * - 요청/응답 헤더 처리 (쿠키 제거, JavaScript/자동 재생 차단 정책 추가) 확인
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('electron', () => ({ session: {}, dialog: {}, BrowserWindow: {} }));
+
+import type { SiteSetting } from '@prisma/client';
+import type {
+  OnBeforeSendHeadersListenerDetails,
+  OnHeadersReceivedListenerDetails,
+  WebContents,
+} from 'electron';
+import {
+  SiteSettingsService,
+  type PermissionSession,
+  type SiteRequestHooks,
+  type SiteSettingsStore,
+} from '../services/SiteSettingsService';
+import type { SettingsService } from '../services/SettingsService';
+import type { SiteSettingData, SiteSettingField } from '../services/database/SiteSettingRepository';
+import { DEFAULT_SETTINGS } from '../services/settings/settingsSchema';
+import type { PermissionPromptResult } from '../services/site/permissionPrompt';
+import { ValidationError } from '../../shared/errors';
+
+const FIELDS: SiteSettingField[] = [
+  'zoomLevel',
+  'notifications',
+  'camera',
+  'microphone',
+  'geolocation',
+  'popups',
+  'autoplay',
+  'cookies',
+  'javascript',
+];
+
+const EMPTY_FIELDS = Object.fromEntries(FIELDS.map((field) => [field, null])) as Record<
+  SiteSettingField,
+  null
+>;
+
+const toRow = (origin: string, data: SiteSettingData = {}): SiteSetting => ({
+  origin,
+  ...EMPTY_FIELDS,
+  ...data,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const createMockRepository = (initial: SiteSetting[] = []) => {
+  const rows = new Map(initial.map((row) => [row.origin, row]));
+  const store = {
+    findAll: vi.fn(async () => [...rows.values()]),
+    upsert: vi.fn(async (origin: string, data: SiteSettingData) => {
+      const row = { ...(rows.get(origin) ?? toRow(origin)), ...data, updatedAt: new Date() };
+      rows.set(origin, row);
+      return row;
+    }),
+    clear: vi.fn(async (origin: string, fields: SiteSettingField[] = FIELDS) => {
+      const existing = rows.get(origin);
+      if (!existing) {
+        return null;
+      }
+      const row = { ...existing, ...Object.fromEntries(fields.map((field) => [field, null])) };
+      if (FIELDS.every((field) => row[field] === null)) {
+        rows.delete(origin);
+        return null;
+      }
+      rows.set(origin, row);
+      return row;
+    }),
+  } satisfies SiteSettingsStore;
+  return { rows, ...store };
+};
+
+type RequestHandler = NonNullable<Parameters<PermissionSession['setPermissionRequestHandler']>[0]>;
+type CheckHandler = NonNullable<Parameters<PermissionSession['setPermissionCheckHandler']>[0]>;
+type SendHeadersHandler = Parameters<SiteRequestHooks['onBeforeSendHeaders']>[0];
+type HeadersReceivedHandler = Parameters<SiteRequestHooks['onHeadersReceived']>[0];
+
+const createFakeSession = () => {
+  const handlers: {
+    request?: RequestHandler | null;
+    check?: CheckHandler | null;
+    sendHeaders?: SendHeadersHandler;
+    headersReceived?: HeadersReceivedHandler;
+  } = {};
+  const fake = {
+    handlers,
+    setPermissionRequestHandler: (handler: RequestHandler | null) => {
+      handlers.request = handler;
+    },
+    setPermissionCheckHandler: (handler: CheckHandler | null) => {
+      handlers.check = handler;
+    },
+    webRequest: {
+      onBeforeSendHeaders: (handler: SendHeadersHandler) => {
+        handlers.sendHeaders = handler;
+      },
+      onHeadersReceived: (handler: HeadersReceivedHandler) => {
+        handlers.headersReceived = handler;
+      },
+    },
+  };
+  return fake satisfies PermissionSession;
+};
+
+const createFakeWebContents = (id: number) => {
+  const listeners: Array<() => void> = [];
+  return {
+    id,
+    once: (_event: string, listener: () => void) => listeners.push(listener),
+    destroy: () => listeners.forEach((listener) => listener()),
+  };
+};
+
+describe('SiteSettingsService', () => {
+  let repository: ReturnType<typeof createMockRepository>;
+  let fakeSession: ReturnType<typeof createFakeSession>;
+  let prompt: ReturnType<typeof vi.fn<() => Promise<PermissionPromptResult>>>;
+  let notificationsEnabled: boolean;
+  let service: SiteSettingsService;
+
+  const settings: Pick<SettingsService, 'get'> = {
+    get: (key) => ({ ...DEFAULT_SETTINGS, enableNotifications: notificationsEnabled })[key],
+  };
+
+  const setup = async (rows: SiteSetting[] = []) => {
+    repository = createMockRepository(rows);
+    fakeSession = createFakeSession();
+    service = SiteSettingsService.create(repository, settings, prompt);
+    await service.initialize(fakeSession);
+  };
+
+  const request = (
+    webContents: ReturnType<typeof createFakeWebContents>,
+    permission: Parameters<RequestHandler>[1],
+    requestingUrl: string,
+    details: { mediaTypes?: Array<'video' | 'audio'> } = {}
+  ) =>
+    new Promise<boolean>((resolve) => {
+      fakeSession.handlers.request?.(webContents as unknown as WebContents, permission, resolve, {
+        requestingUrl,
+        isMainFrame: true,
+        ...details,
+      });
+    });
+
+  const check = (
+    permission: Parameters<CheckHandler>[1],
+    requestingOrigin: string,
+    details: { mediaType?: 'video' | 'audio' } = {}
+  ) =>
+    fakeSession.handlers.check?.(null, permission, requestingOrigin, {
+      isMainFrame: true,
+      ...details,
+    });
+
+  const sendHeaders = (url: string, requestHeaders: Record<string, string>) => {
+    let response: Parameters<Parameters<SendHeadersHandler>[1]>[0] | undefined;
+    fakeSession.handlers.sendHeaders?.(
+      { url, requestHeaders } as OnBeforeSendHeadersListenerDetails,
+      (result) => {
+        response = result;
+      }
+    );
+    return response;
+  };
+
+  const receiveHeaders = (
+    url: string,
+    resourceType: OnHeadersReceivedListenerDetails['resourceType'],
+    responseHeaders: Record<string, string[]>
+  ) => {
+    let response: Parameters<Parameters<HeadersReceivedHandler>[1]>[0] | undefined;
+    fakeSession.handlers.headersReceived?.(
+      { url, resourceType, responseHeaders } as OnHeadersReceivedListenerDetails,
+      (result) => {
+        response = result;
+      }
+    );
+    return response;
+  };
+
+  beforeEach(() => {
+    prompt = vi.fn(async () => ({ allow: true, remember: true }));
+    notificationsEnabled = true;
+  });
+
+  it('answers stored allow/block without prompting', async () => {
+    await setup([
+      toRow('https://maps.example', { geolocation: 'allow' }),
+      toRow('https://ads.example', { geolocation: 'block' }),
+    ]);
+    const tab = createFakeWebContents(1);
+
+    await expect(request(tab, 'geolocation', 'https://maps.example/route')).resolves.toBe(true);
+    await expect(request(tab, 'geolocation', 'https://ads.example/')).resolves.toBe(false);
+    expect(prompt).not.toHaveBeenCalled();
+  });
+
+  it('remembers the choice for the site when the prompt asks to', async () => {
+    await setup();
+    prompt.mockResolvedValue({ allow: false, remember: true });
+
+    await expect(
+      request(createFakeWebContents(1), 'media', 'https://call.example/room', {
+        mediaTypes: ['video', 'audio'],
+      })
+    ).resolves.toBe(false);
+
+    expect(repository.rows.get('https://call.example')).toMatchObject({
+      camera: 'block',
+      microphone: 'block',
+    });
+    expect(service.getPermission('https://call.example', 'camera')).toBe('block');
+
+    await request(createFakeWebContents(2), 'media', 'https://call.example/', {
+      mediaTypes: ['video'],
+    });
+    expect(prompt).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a one-off choice only for that tab until it closes', async () => {
+    await setup();
+    prompt.mockResolvedValue({ allow: true, remember: false });
+    const tab = createFakeWebContents(1);
+
+    await expect(request(tab, 'notifications', 'https://news.example/')).resolves.toBe(true);
+    await expect(request(tab, 'notifications', 'https://news.example/a')).resolves.toBe(true);
+    expect(prompt).toHaveBeenCalledTimes(1);
+    expect(repository.upsert).not.toHaveBeenCalled();
+
+    await request(createFakeWebContents(2), 'notifications', 'https://news.example/');
+    expect(prompt).toHaveBeenCalledTimes(2);
+
+    tab.destroy();
+    await request(tab, 'notifications', 'https://news.example/');
+    expect(prompt).toHaveBeenCalledTimes(3);
+  });
+
+  it('shows one prompt for concurrent requests from the same tab', async () => {
+    await setup();
+    const tab = createFakeWebContents(1);
+
+    const results = await Promise.all([
+      request(tab, 'geolocation', 'https://maps.example/'),
+      request(tab, 'geolocation', 'https://maps.example/'),
+    ]);
+
+    expect(results).toEqual([true, true]);
+    expect(prompt).toHaveBeenCalledTimes(1);
+  });
+
+  it('denies checks only for blocked permissions', async () => {
+    await setup([toRow('https://ads.example', { notifications: 'block' })]);
+
+    expect(check('notifications', 'https://ads.example')).toBe(false);
+    expect(check('notifications', 'https://news.example')).toBe(true);
+    expect(check('media', 'https://ads.example', { mediaType: 'video' })).toBe(true);
+  });
+
+  it('denies notifications while they are disabled globally', async () => {
+    await setup([toRow('https://news.example', { notifications: 'allow' })]);
+    notificationsEnabled = false;
+
+    await expect(
+      request(createFakeWebContents(1), 'notifications', 'https://news.example/')
+    ).resolves.toBe(false);
+    expect(check('notifications', 'https://news.example')).toBe(false);
+  });
+
+  it('leaves unmanaged permissions and non-site pages to the default', async () => {
+    await setup();
+
+    await expect(
+      request(createFakeWebContents(1), 'clipboard-read', 'https://a.example/')
+    ).resolves.toBe(true);
+    await expect(request(createFakeWebContents(1), 'geolocation', 'about:blank')).resolves.toBe(
+      true
+    );
+    expect(prompt).not.toHaveBeenCalled();
+  });
+
+  it('revokes stored grants and deletes the row once empty', async () => {
+    await setup([toRow('https://maps.example', { geolocation: 'allow', zoomLevel: 1.5 })]);
+
+    await expect(service.revoke('https://maps.example/route', ['geolocation'])).resolves.toBe(true);
+    expect(service.list()).toEqual([
+      expect.objectContaining({ origin: 'https://maps.example', zoomLevel: 1.5, permissions: {} }),
+    ]);
+
+    await expect(service.revoke('https://maps.example')).resolves.toBe(true);
+    expect(service.list()).toEqual([]);
+    expect(repository.rows.size).toBe(0);
+
+    await expect(service.revoke('https://maps.example')).resolves.toBe(false);
+  });
+
+  it('revokes one-off tab choices so the site asks again', async () => {
+    await setup();
+    prompt.mockResolvedValue({ allow: true, remember: false });
+    const tab = createFakeWebContents(1);
+
+    await request(tab, 'geolocation', 'https://maps.example/');
+    await expect(service.revoke('https://maps.example')).resolves.toBe(true);
+    await request(tab, 'geolocation', 'https://maps.example/');
+
+    expect(prompt).toHaveBeenCalledTimes(2);
+  });
+
+  it('denies popups only for sites that block them', async () => {
+    await setup([
+      toRow('https://quiet.example', { popups: 'block' }),
+      toRow('https://video.example', { popups: 'ask' }),
+    ]);
+
+    expect(service.allowsPopups('https://quiet.example/article')).toBe(false);
+    for (const url of ['https://video.example/', 'https://other.example/', 'about:blank']) {
+      expect(service.allowsPopups(url)).toBe(true);
+    }
+  });
+
+  it('strips cookies to and from sites that block them', async () => {
+    await setup([
+      toRow('https://private.example', { cookies: 'block' }),
+      toRow('https://shop.example', { cookies: 'allow' }),
+    ]);
+
+    expect(sendHeaders('https://private.example/api', { cookie: 'id=1', Accept: '*/*' })).toEqual({
+      requestHeaders: { Accept: '*/*' },
+    });
+    expect(
+      receiveHeaders('https://private.example/api', 'xhr', {
+        'Set-Cookie': ['id=2'],
+        'Content-Type': ['application/json'],
+      })
+    ).toEqual({ responseHeaders: { 'Content-Type': ['application/json'] } });
+
+    expect(sendHeaders('https://shop.example/', { Cookie: 'cart=1' })).toEqual({});
+    expect(
+      receiveHeaders('https://shop.example/', 'mainFrame', { 'Set-Cookie': ['cart=2'] })
+    ).toEqual({});
+  });
+
+  it('adds script and autoplay blocking policies to pages of sites that block them', async () => {
+    await setup([
+      toRow('https://quiet.example', { javascript: 'block', autoplay: 'block' }),
+      toRow('https://video.example', { javascript: 'allow', autoplay: 'ask' }),
+    ]);
+
+    expect(
+      receiveHeaders('https://quiet.example/article', 'mainFrame', {
+        'content-security-policy': ["img-src 'self'"],
+      })
+    ).toEqual({
+      responseHeaders: {
+        'content-security-policy': ["img-src 'self'", "script-src 'none'"],
+        'Permissions-Policy': ['autoplay=()'],
+      },
+    });
+    expect(receiveHeaders('https://quiet.example/frame', 'subFrame', {})).toEqual({
+      responseHeaders: {
+        'Content-Security-Policy': ["script-src 'none'"],
+        'Permissions-Policy': ['autoplay=()'],
+      },
+    });
+
+    // 문서가 아닌 응답과 차단하지 않은 사이트는 그대로
+    expect(receiveHeaders('https://quiet.example/app.js', 'script', {})).toEqual({});
+    expect(receiveHeaders('https://video.example/', 'mainFrame', {})).toEqual({});
+  });
+
+  it('applies a changed setting to the next request', async () => {
+    await setup();
+
+    expect(receiveHeaders('https://quiet.example/', 'mainFrame', {})).toEqual({});
+
+    await service.setPermission('https://quiet.example', 'javascript', 'block');
+    expect(receiveHeaders('https://quiet.example/', 'mainFrame', {})).toEqual({
+      responseHeaders: { 'Content-Security-Policy': ["script-src 'none'"] },
+    });
+  });
+
+  it('rejects URLs without a site origin', async () => {
+    await setup();
+
+    await expect(service.setPermission('about:blank', 'camera', 'allow')).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * SystemMetricsCollector 테스트
+ * - electron app/powerMonitor를 가짜로 교체
+ * - 가짜 메인 윈도우 renderer가 Battery Status API 값(0-1)을 반환
+ * - 배터리 잔량 조회 주기, 실패/미지원 시 마지막 값 유지 확인
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+import type { BrowserWindow } from 'electron';
+
+vi.mock('electron', () => ({
+  app: { getAppMetrics: () => [] },
+  powerMonitor: { isOnBatteryPower: () => true, on: vi.fn() },
+  session: {},
+}));
+
+import { SystemMetricsCollector } from '../core/SystemMetricsCollector';
+import { BATTERY_UPDATE_INTERVAL_SEC } from '../../shared/system/constants';
+
+describe('SystemMetricsCollector', () => {
+  let executeJavaScript: Mock<(code: string) => Promise<unknown>>;
+  let window: {
+    isDestroyed: () => boolean;
+    webContents: { executeJavaScript: typeof executeJavaScript };
+  } | null;
+
+  const createCollector = () =>
+    new SystemMetricsCollector({
+      getMainWindow: () => window as unknown as BrowserWindow | null,
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    executeJavaScript = vi.fn(async (_code: string): Promise<unknown> => 0.42);
+    window = { isDestroyed: () => false, webContents: { executeJavaScript } };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads the battery level from the main window at most once per interval', async () => {
+    const collector = createCollector();
+
+    expect((await collector.collect()).batteryPercent).toBe(42);
+
+    executeJavaScript.mockResolvedValue(0.3);
+    expect((await collector.collect()).batteryPercent).toBe(42);
+    expect(executeJavaScript).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(BATTERY_UPDATE_INTERVAL_SEC * 1000);
+    expect((await collector.collect()).batteryPercent).toBe(30);
+  });
+
+  it('keeps the last level when the battery API is unavailable or fails', async () => {
+    const collector = createCollector();
+    executeJavaScript.mockResolvedValue(null);
+    expect((await collector.collect()).batteryPercent).toBe(100);
+
+    executeJavaScript.mockResolvedValue(0.5);
+    vi.advanceTimersByTime(BATTERY_UPDATE_INTERVAL_SEC * 1000);
+    expect((await collector.collect()).batteryPercent).toBe(50);
+
+    executeJavaScript.mockRejectedValue(new Error('renderer gone'));
+    vi.advanceTimersByTime(BATTERY_UPDATE_INTERVAL_SEC * 1000);
+    expect((await collector.collect()).batteryPercent).toBe(50);
+
+    window = null;
+    vi.advanceTimersByTime(BATTERY_UPDATE_INTERVAL_SEC * 1000);
+    expect((await collector.collect()).batteryPercent).toBe(50);
+  });
+
+  it('does not wait forever for an unresponsive renderer', async () => {
+    const collector = createCollector();
+    executeJavaScript.mockReturnValue(new Promise(() => undefined));
+
+    const collected = collector.collect();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect((await collected).batteryPercent).toBe(100);
+  });
+});
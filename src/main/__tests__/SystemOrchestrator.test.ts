@@ -0,0 +1,157 @@
+/**
+ * SystemOrchestrator 테스트
+ * - 합성 메트릭 소스 주입
+ * - Mock EnforcerManager 사용
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  SystemOrchestrator,
+  type RawSystemMetrics,
+  type SystemEnforcers,
+} from '../core/SystemOrchestrator';
+import { EventBus } from '../core/EventBus';
+import { PolicyManager } from '../../shared/system/policies';
+import type { EnforcerActions, SystemMetrics } from '../../shared/system/enforcers';
+
+const healthyMetrics: RawSystemMetrics = {
+  memoryUsedMB: 300,
+  memoryTotalMB: 8192,
+  cpuUsagePercent: 10,
+  cpuCoreCount: 4,
+  rttMs: 50,
+  batteryPercent: 100,
+  isOnBattery: false,
+};
+
+const createActions = (overrides: Partial<EnforcerActions> = {}): EnforcerActions => ({
+  memoryActions: [],
+  networkActions: [],
+  tabActions: [],
+  backgroundTaskActions: [],
+  totalActions: 0,
+  priority: '',
+  ...overrides,
+});
+
+const createMockEnforcerManager = () => ({
+  enforceAll: vi.fn(async (_metrics: SystemMetrics) => createActions()),
+  getTabEnforcer: vi.fn(() => ({
+    getStatistics: () => ({
+      totalTabs: 5,
+      activeTabs: 1,
+      backgroundTabs: 3,
+      suspendedTabs: 1,
+      discardedTabs: 0,
+      totalMemoryMB: 400,
+    }),
+  })),
+  getBackgroundTaskEnforcer: vi.fn(() => ({
+    getStatistics: () => ({
+      totalTasks: 3,
+      runningTasks: 2,
+      pausedTasks: 1,
+      pendingTasks: 0,
+      completedTasks: 0,
+      failedTasks: 0,
+      totalEstimatedDurationMs: 0,
+    }),
+  })),
+});
+
+describe('SystemOrchestrator', () => {
+  let enforcerManager: ReturnType<typeof createMockEnforcerManager>;
+  let policyManager: PolicyManager;
+
+  const createOrchestrator = (metrics: RawSystemMetrics) =>
+    new SystemOrchestrator(
+      { collect: () => metrics },
+      policyManager,
+      enforcerManager satisfies SystemEnforcers
+    );
+
+  beforeEach(() => {
+    enforcerManager = createMockEnforcerManager();
+    policyManager = new PolicyManager(784, 941, 950);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('정상 메트릭은 healthy 상태로 판정하고 탭/작업 수를 채운다', async () => {
+    const result = await createOrchestrator(healthyMetrics).runOnce();
+
+    expect(result?.metrics).toMatchObject({
+      memoryStatus: 'healthy',
+      cpuStatus: 'healthy',
+      networkProfile: 'excellent',
+      batteryStatus: 'healthy',
+      activeTabCount: 1,
+      backgroundTabCount: 3,
+      totalTabCount: 5,
+      runningTaskCount: 2,
+      pausedTaskCount: 1,
+    });
+    expect(enforcerManager.enforceAll).toHaveBeenCalledWith(result?.metrics);
+  });
+
+  it('부하 메트릭은 정책 상태를 반영해 EnforcerManager에 전달한다', async () => {
+    await createOrchestrator({
+      ...healthyMetrics,
+      memoryUsedMB: 960,
+      rttMs: 1500,
+      batteryPercent: 10,
+      isOnBattery: true,
+    }).runOnce();
+
+    const metrics = enforcerManager.enforceAll.mock.calls[0]![0];
+    expect(metrics.memoryStatus).not.toBe('healthy');
+    expect(metrics.networkProfile).toBe('very-slow');
+    expect(metrics.batteryStatus).not.toBe('healthy');
+  });
+
+  it('실행 결과를 system:enforced 이벤트로 발행한다', async () => {
+    const actions = createActions({ memoryActions: ['cache-clear'], totalActions: 1 });
+    enforcerManager.enforceAll.mockResolvedValueOnce(actions);
+    const listener = vi.fn();
+    const unsubscribe = EventBus.getInstance().on('system:enforced', listener);
+
+    const orchestrator = createOrchestrator(healthyMetrics);
+    await orchestrator.runOnce();
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ actions }));
+    expect(orchestrator.getLastResult()?.actions).toBe(actions);
+  });
+
+  it('메트릭 수집 실패 시 null을 반환하고 다음 실행은 계속된다', async () => {
+    const collect = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('collect failed'))
+      .mockResolvedValueOnce(healthyMetrics);
+    const orchestrator = new SystemOrchestrator(
+      { collect },
+      policyManager,
+      enforcerManager satisfies SystemEnforcers
+    );
+
+    await expect(orchestrator.runOnce()).resolves.toBeNull();
+    await expect(orchestrator.runOnce()).resolves.not.toBeNull();
+  });
+
+  it('start는 주기적으로 실행하고 app:beforeQuit에서 중지된다', async () => {
+    vi.useFakeTimers();
+    const orchestrator = createOrchestrator(healthyMetrics);
+
+    orchestrator.start(1000);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(enforcerManager.enforceAll).toHaveBeenCalledTimes(3);
+
+    EventBus.getInstance().emit('app:beforeQuit', {});
+    expect(orchestrator.isRunning()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(enforcerManager.enforceAll).toHaveBeenCalledTimes(3);
+  });
+});
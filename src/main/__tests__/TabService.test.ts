@@ -0,0 +1,454 @@
+/**
+ * TabService 테스트
+ * - 가짜 TabManager (메모리 탭 목록), 가짜 TabViewManager (뷰/표시/동결 상태만 기록)
+ * - 가짜 TabEnforcer (등록/이벤트 기록), 가짜 RecentlyClosedRepository (메모리 스택)
+ * - 가짜 WindowManager (createWindow로 열린 윈도우 기록)
+ * - 배경 탭 동결/폐기, 활성 탭과 표시 중인 탭 보호 확인
+ * - 활성 탭을 닫으면 이웃 탭 선택 확인
+ * - 최근 닫은 항목 개수 제한, 탭/윈도우 다시 열기 (스택/위치/윈도우 복원) 확인
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { BrowserWindow } from 'electron';
+import {
+  TabService,
+  type TabServiceClosedStore,
+  type TabServiceEnforcer,
+  type TabServiceStore,
+  type TabServiceViews,
+  type TabServiceWindows,
+} from '../services/TabService';
+import type {
+  RecentlyClosedEntryWithTabs,
+  RecentlyClosedTabInput,
+} from '../services/database/RecentlyClosedRepository';
+import { LIMITS } from '../../shared/constants';
+import type { BrowserTab, TabNavigationEntry } from '../../shared/types/domain';
+
+const createTab = (id: string, overrides: Partial<BrowserTab> = {}): BrowserTab => ({
+  id,
+  url: `https://${id}.example/`,
+  title: id,
+  favicon: null,
+  isActive: false,
+  isMuted: false,
+  isPinned: false,
+  index: 0,
+  windowId: 'window-1',
+  groupId: null,
+  state: 'background',
+  navigationIndex: 0,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  ...overrides,
+});
+
+const createFakeStore = (
+  initial: BrowserTab[],
+  stacks: Record<string, TabNavigationEntry[]> = {}
+) => {
+  const tabs = initial.map((tab) => ({ ...tab }));
+  const inWindow = (windowId: string) =>
+    tabs.filter((tab) => tab.windowId === windowId).sort((a, b) => a.index - b.index);
+
+  const store = {
+    tabs,
+    addTab: vi.fn(async (url: string, title?: string, windowId?: string | null) => {
+      const tab = createTab(`tab-${tabs.length + 1}`, {
+        url,
+        title: title ?? url,
+        windowId: windowId ?? null,
+        index: windowId ? inWindow(windowId).length : 0,
+      });
+      tabs.push(tab);
+      return { ...tab };
+    }),
+    removeTab: vi.fn(async (tabId: string) => {
+      const index = tabs.findIndex((tab) => tab.id === tabId);
+      return index >= 0 && tabs.splice(index, 1).length > 0;
+    }),
+    getTab: vi.fn(async (tabId: string) => {
+      const tab = tabs.find((item) => item.id === tabId);
+      return tab ? { ...tab } : null;
+    }),
+    getAllTabs: vi.fn(async () => tabs.map((tab) => ({ ...tab }))),
+    updateTab: vi.fn(
+      async (tabId: string, updates: Partial<Omit<BrowserTab, 'id' | 'createdAt'>>) => {
+        const tab = tabs.find((item) => item.id === tabId);
+        return tab ? Object.assign(tab, updates) !== null : false;
+      }
+    ),
+    getTabsByWindow: vi.fn(async (windowId: string) =>
+      inWindow(windowId).map((tab) => ({ ...tab }))
+    ),
+    moveTab: vi.fn(async (tabId: string, windowId: string, index: number) => {
+      const tab = tabs.find((item) => item.id === tabId)!;
+      const siblings = inWindow(windowId).filter((item) => item.id !== tabId);
+      siblings.splice(Math.min(index, siblings.length), 0, tab);
+      tab.windowId = windowId;
+      siblings.forEach((item, position) => (item.index = position));
+      return { ...tab };
+    }),
+    setActiveTab: vi.fn(async (tabId: string) => {
+      tabs.forEach((tab) => (tab.isActive = tab.id === tabId));
+      return true;
+    }),
+    getActiveTab: vi.fn(async () => tabs.find((tab) => tab.isActive) ?? null),
+    getActiveTabId: vi.fn(async () => tabs.find((tab) => tab.isActive)?.id ?? null),
+    getTabCount: vi.fn(async () => tabs.length),
+    getNavigationEntries: vi.fn(async (tabId: string) => stacks[tabId] ?? []),
+    saveNavigationStack: vi.fn(async (_tabId: string, _entries: unknown[], _index: number) => {}),
+  };
+  return store satisfies TabServiceStore;
+};
+
+const createFakeViews = (visible: Record<string, string> = {}) => {
+  const views = new Set<string>();
+  const frozen = new Set<string>();
+  const fake = {
+    views,
+    createView: vi.fn((tab: BrowserTab) => {
+      views.add(tab.id);
+      return null;
+    }),
+    destroyView: vi.fn((tabId: string) => {
+      views.delete(tabId);
+    }),
+    discardView: vi.fn(async (tabId: string) => views.delete(tabId)),
+    showView: vi.fn((tabId: string) => {
+      visible['window-1'] = tabId;
+      frozen.delete(tabId);
+      return views.has(tabId);
+    }),
+    moveView: vi.fn((_tabId: string, _windowId: string) => true),
+    hasView: (tabId: string) => views.has(tabId),
+    isFrozen: (tabId: string) => frozen.has(tabId),
+    setFrozen: vi.fn(async (tabId: string, value: boolean) => {
+      if (value) {
+        frozen.add(tabId);
+      } else {
+        frozen.delete(tabId);
+      }
+      return views.has(tabId);
+    }),
+    getVisibleTabId: (windowId: string) => visible[windowId] ?? null,
+    getWebContents: (_tabId: string) => null,
+    resolveWindowId: (windowId?: string | null): string | null => windowId ?? 'window-1',
+  };
+  return fake satisfies TabServiceViews;
+};
+
+const createFakeEnforcer = () => {
+  const handlers = new Map<string, (data?: unknown) => void>();
+  const fake = {
+    handlers,
+    on: vi.fn((event: string, handler: (data?: unknown) => void) => {
+      handlers.set(event, handler);
+    }),
+    registerTab: vi.fn(),
+    updateTab: vi.fn(),
+    unregisterTab: vi.fn(),
+    resumeTab: vi.fn(async (_tabId: string) => {}),
+  };
+  return fake satisfies TabServiceEnforcer;
+};
+
+const createFakeClosedStore = () => {
+  // 최신 항목이 앞
+  const entries: RecentlyClosedEntryWithTabs[] = [];
+  let pushed = 0;
+  const fake = {
+    entries,
+    push: vi.fn(
+      async (type: 'tab' | 'window', tabs: RecentlyClosedTabInput[], maxEntries: number) => {
+        const id = `closed-${++pushed}`;
+        const entry: RecentlyClosedEntryWithTabs = {
+          id,
+          type,
+          closedAt: new Date(),
+          tabs: tabs.map((tab, index) => ({
+            ...tab,
+            id: `${id}-${index}`,
+            entryId: id,
+            favicon: tab.favicon ?? null,
+          })),
+        };
+        entries.unshift(entry);
+        entries.splice(maxEntries);
+        return entry;
+      }
+    ),
+    findById: vi.fn(async (id: string) => entries.find((entry) => entry.id === id) ?? null),
+    findRecent: vi.fn(async (limit: number) => entries.slice(0, limit)),
+    delete: vi.fn(async (id: string) => {
+      const index = entries.findIndex((entry) => entry.id === id);
+      if (index >= 0) {
+        entries.splice(index, 1);
+      }
+    }),
+  };
+  return fake satisfies TabServiceClosedStore;
+};
+
+const createFakeWindows = () => {
+  const opened: string[] = [];
+  const fake = {
+    opened,
+    createWindow: vi.fn((): BrowserWindow | null => {
+      opened.push(`window-new-${opened.length + 1}`);
+      return { id: opened.length } as unknown as BrowserWindow;
+    }),
+    getWindowId: (window: BrowserWindow) => opened[window.id - 1] ?? null,
+  };
+  return fake satisfies TabServiceWindows;
+};
+
+const createEntry = (tabId: string, index: number): TabNavigationEntry => ({
+  id: `${tabId}-entry-${index}`,
+  tabId,
+  index,
+  url: `https://${tabId}.example/${index}`,
+  title: `Page ${index}`,
+  scrollX: 0,
+  scrollY: index * 100,
+  pageState: null,
+  timestamp: new Date(0),
+});
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('TabService', () => {
+  let store: ReturnType<typeof createFakeStore>;
+  let views: ReturnType<typeof createFakeViews>;
+  let enforcer: ReturnType<typeof createFakeEnforcer>;
+  let closed: ReturnType<typeof createFakeClosedStore>;
+  let windows: ReturnType<typeof createFakeWindows>;
+
+  const createService = () =>
+    new TabService(
+      store,
+      { canAllocate: () => true },
+      views,
+      closed,
+      enforcer,
+      { getTabResourceUsage: async () => new Map() },
+      windows
+    );
+
+  beforeEach(() => {
+    // a: 활성 탭 (window-1), b: 배경 탭, c: window-2에 표시 중인 탭
+    store = createFakeStore([
+      createTab('a', { isActive: true, state: 'active' }),
+      createTab('b', { index: 1 }),
+      createTab('c', { windowId: 'window-2' }),
+    ]);
+    views = createFakeViews({ 'window-1': 'a', 'window-2': 'c' });
+    ['a', 'b', 'c'].forEach((id) => views.views.add(id));
+    enforcer = createFakeEnforcer();
+    closed = createFakeClosedStore();
+    windows = createFakeWindows();
+  });
+
+  describe('tab lifecycle', () => {
+    it('suspends a background tab and records the suspended state', async () => {
+      const service = createService();
+
+      await expect(service.suspendTab('b')).resolves.toBe(true);
+
+      expect(views.setFrozen).toHaveBeenCalledWith('b', true);
+      expect(store.updateTab).toHaveBeenCalledWith('b', { state: 'suspended' });
+      expect(enforcer.registerTab).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'b', state: 'suspended' })
+      );
+    });
+
+    it('refuses to suspend the active tab or a tab visible in another window', async () => {
+      const service = createService();
+
+      await expect(service.suspendTab('a')).resolves.toBe(false);
+      await expect(service.suspendTab('c')).resolves.toBe(false);
+
+      expect(views.setFrozen).not.toHaveBeenCalled();
+      expect(store.updateTab).not.toHaveBeenCalled();
+      expect(enforcer.registerTab.mock.calls.map(([tab]) => [tab.id, tab.state])).toEqual([
+        ['a', 'active'],
+        ['c', 'background'],
+      ]);
+    });
+
+    it('discards a background tab but keeps its row', async () => {
+      const service = createService();
+
+      await expect(service.discardTab('b')).resolves.toBe(true);
+
+      expect(views.discardView).toHaveBeenCalledWith('b');
+      expect(views.hasView('b')).toBe(false);
+      expect(store.tabs.find((tab) => tab.id === 'b')?.state).toBe('discarded');
+      // 이미 뷰가 없는 탭은 폐기된 것으로 취급
+      await expect(service.discardTab('b')).resolves.toBe(true);
+      expect(views.discardView).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses to discard the active tab or a tab visible in another window', async () => {
+      const service = createService();
+
+      await expect(service.discardTab('a')).resolves.toBe(false);
+      await expect(service.discardTab('c')).resolves.toBe(false);
+
+      expect(views.discardView).not.toHaveBeenCalled();
+      expect(views.hasView('a')).toBe(true);
+      expect(views.hasView('c')).toBe(true);
+    });
+
+    it('applies the same guards to suspend/discard requests from TabEnforcer', async () => {
+      createService();
+
+      enforcer.handlers.get('onTabSuspend')?.({ id: 'a' });
+      enforcer.handlers.get('onTabDiscard')?.({ id: 'c' });
+      enforcer.handlers.get('onTabDiscard')?.({ id: 'b' });
+      await flush();
+
+      expect(views.setFrozen).not.toHaveBeenCalled();
+      expect(views.discardView.mock.calls).toEqual([['b']]);
+    });
+
+    it('rejects unknown tabs', async () => {
+      const service = createService();
+
+      await expect(service.suspendTab('missing')).rejects.toThrow('missing');
+      await expect(service.discardTab('missing')).rejects.toThrow('missing');
+    });
+  });
+
+  describe('closing tabs', () => {
+    it('selects the tab to the right, or else to the left, when the active tab closes', async () => {
+      store = createFakeStore([
+        createTab('a'),
+        createTab('b', { index: 1, isActive: true, state: 'active' }),
+        createTab('c', { index: 2 }),
+      ]);
+      views = createFakeViews({ 'window-1': 'b' });
+      ['a', 'b', 'c'].forEach((id) => views.views.add(id));
+      const service = createService();
+
+      await service.closeTab('b');
+      expect(store.tabs.find((tab) => tab.isActive)?.id).toBe('c');
+      expect(views.getVisibleTabId('window-1')).toBe('c');
+
+      await service.closeTab('c');
+      expect(store.tabs.find((tab) => tab.isActive)?.id).toBe('a');
+      expect(views.getVisibleTabId('window-1')).toBe('a');
+    });
+
+    it('keeps the selection when a background tab closes', async () => {
+      const service = createService();
+
+      await service.closeTab('b');
+
+      expect(store.setActiveTab).not.toHaveBeenCalled();
+      expect(views.showView).not.toHaveBeenCalled();
+      expect(views.getVisibleTabId('window-1')).toBe('a');
+    });
+  });
+
+  describe('recently closed', () => {
+    it('keeps only the most recent entries', async () => {
+      const service = createService();
+      const count = LIMITS.MAX_RECENTLY_CLOSED + 2;
+      for (let i = 0; i < count; i++) {
+        const tab = await store.addTab(`https://closed-${i}.example/`, `closed-${i}`, 'window-1');
+        await service.closeTab(tab.id);
+      }
+
+      const recent = await service.getRecentlyClosed();
+
+      expect(closed.push).toHaveBeenLastCalledWith(
+        'tab',
+        expect.any(Array),
+        LIMITS.MAX_RECENTLY_CLOSED
+      );
+      expect(recent).toHaveLength(LIMITS.MAX_RECENTLY_CLOSED);
+      expect(recent[0]?.tabs[0]?.title).toBe(`closed-${count - 1}`);
+      expect(recent.some((entry) => entry.tabs[0]?.title === 'closed-1')).toBe(false);
+    });
+
+    it('reopens a tab at its original index with its navigation stack', async () => {
+      store = createFakeStore(
+        [
+          createTab('a', { isActive: true, state: 'active' }),
+          createTab('b', { index: 1, isMuted: true, navigationIndex: 1 }),
+          createTab('c', { index: 2 }),
+        ],
+        { b: [createEntry('b', 0), createEntry('b', 1), createEntry('b', 2)] }
+      );
+      const service = createService();
+      await service.closeTab('b');
+
+      const [tab] = await service.reopenClosed();
+
+      expect(tab?.windowId).toBe('window-1');
+      expect(store.tabs.find((item) => item.id === tab?.id)).toMatchObject({
+        index: 1,
+        isMuted: true,
+        isActive: true,
+      });
+      expect(store.saveNavigationStack).toHaveBeenCalledWith(
+        tab?.id,
+        [0, 1, 2].map((index) => ({
+          url: `https://b.example/${index}`,
+          title: `Page ${index}`,
+          pageState: null,
+          scrollX: 0,
+          scrollY: index * 100,
+        })),
+        1
+      );
+      // 스택이 뷰 생성 전에 저장되어야 뷰가 스택으로 복원됨
+      expect(store.saveNavigationStack.mock.invocationCallOrder[0]).toBeLessThan(
+        views.createView.mock.invocationCallOrder[0]!
+      );
+      expect(closed.entries).toHaveLength(0);
+      expect(windows.createWindow).not.toHaveBeenCalled();
+    });
+
+    it('reopens a closed window as a new window with all of its tabs', async () => {
+      store = createFakeStore([
+        createTab('a', { isActive: true, state: 'active' }),
+        createTab('x', { windowId: 'window-2' }),
+        createTab('y', { windowId: 'window-2', index: 1, isMuted: true }),
+      ]);
+      const service = createService();
+      await service.closeWindowTabs('window-2');
+      expect(closed.entries[0]?.type).toBe('window');
+
+      const reopened = await service.reopenClosed();
+
+      expect(windows.createWindow).toHaveBeenCalledTimes(1);
+      expect(reopened.map((tab) => tab.title)).toEqual(['x', 'y']);
+      expect(
+        store.tabs
+          .filter((tab) => tab.windowId === 'window-new-1')
+          .sort((a, b) => a.index - b.index)
+          .map((tab) => [tab.title, tab.isMuted])
+      ).toEqual([
+        ['x', false],
+        ['y', true],
+      ]);
+      expect(store.tabs.find((tab) => tab.isActive)?.title).toBe('x');
+    });
+
+    it('opens a window for a closed tab when no window is left', async () => {
+      const service = createService();
+      await service.closeTab('b');
+      views.resolveWindowId = () => null;
+
+      const [tab] = await service.reopenClosed();
+
+      expect(tab?.windowId).toBe('window-new-1');
+      windows.createWindow.mockReturnValueOnce(null);
+      await service.closeTab(tab!.id);
+      await expect(service.reopenClosed()).rejects.toThrow();
+      expect(closed.entries).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * TabViewManager 테스트
+ * - electron WebContentsView를 가짜 뷰로 교체 (webContents 이벤트를 직접 발생)
+ * - 가짜 WindowManager (윈도우 1개), 가짜 TabManager (탭 행 업데이트 기록)
+ * - 뷰 생성/표시/파괴/폐기, 네비게이션 스택 저장/복원, 페이지 이벤트 → 탭 행 동기화 확인
+ * - 사이트별 설정 (팝업 차단) 적용 확인
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { BrowserWindow } from 'electron';
+
+const { FakeView } = vi.hoisted(() => {
+  type Listener = (...args: unknown[]) => void;
+
+  type WindowOpenHandler = (details: { url: string }) => { action: 'allow' | 'deny' };
+
+  class FakeWebContents {
+    private listeners = new Map<string, Listener[]>();
+    destroyed = false;
+    url = '';
+    windowOpenHandler: WindowOpenHandler | null = null;
+    loadURL = vi.fn(async (_url: string) => undefined);
+    close = vi.fn(() => {
+      this.destroyed = true;
+    });
+    focus = vi.fn();
+    executeJavaScript = vi.fn(async (_code: string): Promise<unknown> => [0, 0]);
+    navigationHistory = {
+      restore: vi.fn(async (_options: unknown) => undefined),
+      getAllEntries: vi.fn((): Array<{ url: string; title: string; pageState?: string }> => []),
+      getActiveIndex: vi.fn(() => 0),
+    };
+
+    isDestroyed() {
+      return this.destroyed;
+    }
+
+    getURL() {
+      return this.url;
+    }
+
+    setWindowOpenHandler(handler: WindowOpenHandler) {
+      this.windowOpenHandler = handler;
+    }
+
+    on(event: string, listener: Listener) {
+      this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+      return this;
+    }
+
+    once(event: string, listener: Listener) {
+      return this.on(event, listener);
+    }
+
+    emit(event: string, ...args: unknown[]) {
+      for (const listener of this.listeners.get(event) ?? []) {
+        listener(...args);
+      }
+    }
+  }
+
+  class FakeView {
+    static created: FakeView[] = [];
+    webContents = new FakeWebContents();
+    visible = true;
+    setVisible = vi.fn((visible: boolean) => {
+      this.visible = visible;
+    });
+    setBounds = vi.fn();
+
+    constructor() {
+      FakeView.created.push(this);
+    }
+  }
+
+  return { FakeView };
+});
+
+vi.mock('electron', () => ({ WebContentsView: FakeView }));
+
+import {
+  TabViewManager,
+  type TabViewSitePolicy,
+  type TabViewStore,
+  type TabViewWindows,
+} from '../managers/TabViewManager';
+import { EventBus } from '../core/EventBus';
+import type { BrowserTab, TabNavigationEntry } from '../../shared/types/domain';
+
+const createTab = (id: string, overrides: Partial<BrowserTab> = {}): BrowserTab => ({
+  id,
+  url: `https://${id}.example/`,
+  title: id,
+  favicon: null,
+  isActive: false,
+  isMuted: false,
+  isPinned: false,
+  index: 0,
+  windowId: 'window-1',
+  groupId: null,
+  state: 'background',
+  navigationIndex: 0,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  ...overrides,
+});
+
+const createFakeWindow = () => ({
+  contentView: { addChildView: vi.fn(), removeChildView: vi.fn() },
+  isDestroyed: vi.fn(() => false),
+  getContentBounds: () => ({ x: 0, y: 0, width: 1200, height: 800 }),
+  on: vi.fn((_event: string, _listener: () => void) => {}),
+});
+
+const createFakeStore = (stacks: Record<string, TabNavigationEntry[]> = {}) => ({
+  updateTab: vi.fn(async (_tabId: string, _updates: Partial<BrowserTab>) => true),
+  getNavigationEntries: vi.fn(async (tabId: string) => stacks[tabId] ?? []),
+  saveNavigationStack: vi.fn(async (_tabId: string, _entries: unknown[], _index: number) => {}),
+  saveScrollPosition: vi.fn(async (_tabId: string, _index: number, _x: number, _y: number) => {}),
+});
+
+const createEntry = (
+  index: number,
+  overrides: Partial<TabNavigationEntry> = {}
+): TabNavigationEntry => ({
+  id: `entry-${index}`,
+  tabId: 'a',
+  index,
+  url: `https://a.example/${index}`,
+  title: `Page ${index}`,
+  scrollX: 0,
+  scrollY: 0,
+  pageState: null,
+  timestamp: new Date(0),
+  ...overrides,
+});
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('TabViewManager', () => {
+  let window: ReturnType<typeof createFakeWindow>;
+  let store: ReturnType<typeof createFakeStore>;
+  let events: Array<{ event: string; payload: unknown }>;
+  let unsubscribe: Array<() => void>;
+
+  const createManager = () => {
+    const windows: TabViewWindows = {
+      getWindow: (id) => (id === 'window-1' ? (window as unknown as BrowserWindow) : null),
+      getMainWindowId: () => 'window-1',
+    };
+    return new TabViewManager(windows, store satisfies TabViewStore);
+  };
+
+  const viewOf = (manager: TabViewManager, tabId: string) =>
+    manager.getView(tabId) as unknown as InstanceType<typeof FakeView>;
+
+  beforeEach(() => {
+    FakeView.created = [];
+    window = createFakeWindow();
+    store = createFakeStore();
+    events = [];
+    unsubscribe = ['tab:navigated', 'tab:updated'].map((event) =>
+      EventBus.getInstance().on(event, (payload: unknown) => events.push({ event, payload }))
+    );
+  });
+
+  afterEach(() => {
+    unsubscribe.forEach((off) => off());
+  });
+
+  describe('view lifecycle', () => {
+    it('creates one hidden view per tab, attaches it and loads the tab URL', async () => {
+      const manager = createManager();
+      const tab = createTab('a');
+
+      const view = manager.createView(tab);
+      expect(manager.createView(tab)).toBe(view);
+      await manager.whenReady('a');
+
+      const fake = viewOf(manager, 'a');
+      expect(FakeView.created).toHaveLength(1);
+      expect(fake.visible).toBe(false);
+      expect(window.contentView.addChildView).toHaveBeenCalledWith(fake);
+      expect(fake.setBounds).toHaveBeenCalledWith({ x: 0, y: 80, width: 1200, height: 720 });
+      expect(fake.webContents.loadURL).toHaveBeenCalledWith('https://a.example/');
+      expect(manager.getTabIds()).toEqual(['a']);
+    });
+
+    it('returns null when the tab has no window to attach to', () => {
+      const manager = new TabViewManager(
+        { getWindow: () => null, getMainWindowId: () => null },
+        store
+      );
+
+      expect(manager.createView(createTab('a', { windowId: null }))).toBeNull();
+      expect(manager.hasView('a')).toBe(false);
+    });
+
+    it('shows one view per window and hides the previously visible one', () => {
+      const manager = createManager();
+      manager.createView(createTab('a'));
+      manager.createView(createTab('b'));
+
+      expect(manager.showView('a')).toBe(true);
+      expect(manager.showView('b')).toBe(true);
+
+      expect(viewOf(manager, 'a').visible).toBe(false);
+      expect(viewOf(manager, 'b').visible).toBe(true);
+      expect(manager.getVisibleTabId('window-1')).toBe('b');
+      expect(manager.showView('missing')).toBe(false);
+    });
+
+    it('detaches and closes the view when it is destroyed', () => {
+      const manager = createManager();
+      manager.createView(createTab('a'));
+      manager.showView('a');
+      const fake = viewOf(manager, 'a');
+
+      manager.destroyView('a');
+
+      expect(window.contentView.removeChildView).toHaveBeenCalledWith(fake);
+      expect(fake.webContents.close).toHaveBeenCalled();
+      expect(manager.hasView('a')).toBe(false);
+      expect(manager.getVisibleTabId('window-1')).toBeNull();
+      expect(() => manager.destroyView('a')).not.toThrow();
+    });
+
+    it('closes the views of a window when the window closes', () => {
+      const manager = createManager();
+      manager.createView(createTab('a'));
+      manager.createView(createTab('b'));
+      manager.showView('a');
+      const fakes = [viewOf(manager, 'a'), viewOf(manager, 'b')];
+
+      window.isDestroyed.mockReturnValue(true);
+      window.on.mock.calls
+        .filter(([event]) => event === 'closed')
+        .forEach(([, listener]) => listener());
+
+      fakes.forEach((fake) => expect(fake.webContents.close).toHaveBeenCalled());
+      expect(manager.getTabIds()).toEqual([]);
+      expect(manager.getVisibleTabId('window-1')).toBeNull();
+    });
+
+    it('discards background views after saving their stack but never the visible one', async () => {
+      const manager = createManager();
+      manager.createView(createTab('a'));
+      manager.createView(createTab('b'));
+      manager.showView('a');
+      const background = viewOf(manager, 'b');
+
+      await expect(manager.discardView('a')).resolves.toBe(false);
+      await expect(manager.discardView('b')).resolves.toBe(true);
+      await expect(manager.discardView('missing')).resolves.toBe(false);
+
+      expect(manager.hasView('a')).toBe(true);
+      expect(manager.hasView('b')).toBe(false);
+      expect(background.webContents.close).toHaveBeenCalled();
+      expect(store.saveNavigationStack.mock.calls.map(([tabId]) => tabId)).toEqual(['b']);
+    });
+  });
+
+  describe('navigation stack', () => {
+    it('restores the saved back/forward stack at the saved index', async () => {
+      store = createFakeStore({
+        a: [createEntry(0, { pageState: 'state-0' }), createEntry(1), createEntry(2)],
+      });
+      const manager = createManager();
+
+      manager.createView(createTab('a', { navigationIndex: 1 }));
+      await manager.whenReady('a');
+
+      const webContents = viewOf(manager, 'a').webContents;
+      expect(webContents.loadURL).not.toHaveBeenCalled();
+      expect(webContents.navigationHistory.restore).toHaveBeenCalledWith({
+        index: 1,
+        entries: [
+          { url: 'https://a.example/0', title: 'Page 0', pageState: 'state-0' },
+          { url: 'https://a.example/1', title: 'Page 1' },
+          { url: 'https://a.example/2', title: 'Page 2' },
+        ],
+      });
+    });
+
+    it('clamps a stale index and scrolls to the saved position without page state', async () => {
+      store = createFakeStore({ a: [createEntry(0), createEntry(1, { scrollY: 640 })] });
+      const manager = createManager();
+
+      manager.createView(createTab('a', { navigationIndex: 5 }));
+      await manager.whenReady('a');
+
+      const webContents = viewOf(manager, 'a').webContents;
+      expect(webContents.navigationHistory.restore).toHaveBeenCalledWith(
+        expect.objectContaining({ index: 1 })
+      );
+      webContents.emit('did-finish-load');
+      expect(webContents.executeJavaScript).toHaveBeenCalledWith('window.scrollTo(0, 640)');
+    });
+
+    it('persists the stack and active index after each navigation', async () => {
+      const manager = createManager();
+      manager.createView(createTab('a'));
+      const webContents = viewOf(manager, 'a').webContents;
+      webContents.navigationHistory.getAllEntries.mockReturnValue([
+        { url: 'https://a.example/0', title: 'Page 0', pageState: 'state-0' },
+        { url: 'https://a.example/1', title: 'Page 1' },
+      ]);
+      webContents.navigationHistory.getActiveIndex.mockReturnValue(1);
+
+      webContents.emit('did-navigate', {}, 'https://a.example/1');
+      await flush();
+
+      expect(store.saveNavigationStack).toHaveBeenCalledWith(
+        'a',
+        [
+          { url: 'https://a.example/0', title: 'Page 0', pageState: 'state-0' },
+          { url: 'https://a.example/1', title: 'Page 1', pageState: null },
+        ],
+        1
+      );
+    });
+
+    it('saves the scroll position of the page being left', async () => {
+      const manager = createManager();
+      manager.createView(createTab('a'));
+      const webContents = viewOf(manager, 'a').webContents;
+      webContents.navigationHistory.getActiveIndex.mockReturnValue(2);
+      webContents.executeJavaScript.mockResolvedValue([0, 320]);
+
+      webContents.emit('did-start-navigation', { isMainFrame: true, isSameDocument: false });
+      webContents.emit('did-start-navigation', { isMainFrame: true, isSameDocument: true });
+      await flush();
+
+      expect(store.saveScrollPosition.mock.calls).toEqual([['a', 2, 0, 320]]);
+    });
+  });
+
+  describe('page events', () => {
+    it('syncs navigations, titles and favicons to the tab row', async () => {
+      const manager = createManager();
+      manager.createView(createTab('a'));
+      const webContents = viewOf(manager, 'a').webContents;
+
+      webContents.emit('did-navigate', {}, 'https://a.example/next');
+      webContents.emit('did-navigate-in-page', {}, 'https://frame.example/', false);
+      webContents.emit('did-navigate-in-page', {}, 'https://a.example/next#top', true);
+      webContents.emit('page-title-updated', {}, 'Next page');
+      webContents.emit('page-favicon-updated', {}, ['https://a.example/icon.png']);
+      webContents.emit('page-favicon-updated', {}, []);
+      await flush();
+
+      expect(store.updateTab.mock.calls).toEqual([
+        ['a', { url: 'https://a.example/next' }],
+        ['a', { url: 'https://a.example/next#top' }],
+        ['a', { title: 'Next page' }],
+        ['a', { favicon: 'https://a.example/icon.png' }],
+      ]);
+      expect(events.filter((entry) => entry.event === 'tab:navigated')).toEqual([
+        { event: 'tab:navigated', payload: { tabId: 'a', url: 'https://a.example/next' } },
+        { event: 'tab:navigated', payload: { tabId: 'a', url: 'https://a.example/next#top' } },
+      ]);
+      expect(events.filter((entry) => entry.event === 'tab:updated')).toHaveLength(4);
+    });
+
+    it('keeps handling events when the tab row cannot be updated', async () => {
+      const manager = createManager();
+      manager.createView(createTab('a'));
+      store.updateTab.mockRejectedValueOnce(new Error('db closed'));
+      const webContents = viewOf(manager, 'a').webContents;
+
+      webContents.emit('page-title-updated', {}, 'First');
+      webContents.emit('page-title-updated', {}, 'Second');
+      await flush();
+
+      expect(store.updateTab).toHaveBeenLastCalledWith('a', { title: 'Second' });
+      expect(events.filter((entry) => entry.event === 'tab:updated')).toHaveLength(1);
+    });
+  });
+
+  describe('site settings', () => {
+    const blocked = 'https://blocked.example';
+    const policy: TabViewSitePolicy = {
+      allowsPopups: (url) => !url.startsWith(blocked),
+    };
+
+    it('denies popups opened by a page whose site blocks them', () => {
+      const manager = createManager();
+      manager.createView(createTab('a'));
+      const webContents = viewOf(manager, 'a').webContents;
+      webContents.url = `${blocked}/page`;
+
+      expect(webContents.windowOpenHandler?.({ url: 'https://ad.example/' })).toEqual({
+        action: 'allow',
+      });
+
+      manager.setSitePolicy(policy);
+      expect(webContents.windowOpenHandler?.({ url: 'https://ad.example/' })).toEqual({
+        action: 'deny',
+      });
+
+      webContents.url = 'https://a.example/';
+      expect(webContents.windowOpenHandler?.({ url: 'https://ad.example/' })).toEqual({
+        action: 'allow',
+      });
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * 북마크 검색어 파서 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseBookmarkQuery,
+  hasBookmarkCriteria,
+  normalizeTags,
+} from '../services/database/bookmarkQuery';
+
+describe('parseBookmarkQuery', () => {
+  it('tag: 필터와 일반 검색어, 따옴표 구문을 구분한다', () => {
+    expect(parseBookmarkQuery('TAG:docs "query engine" prisma tag:"web  dev"')).toEqual({
+      terms: ['query engine', 'prisma'],
+      tags: ['docs', 'web dev'],
+    });
+  });
+
+  it('같은 태그는 한 번만 넣고, 값이 빈 tag:는 일반 검색어로 취급한다', () => {
+    const query = parseBookmarkQuery('tag:docs tag:docs tag:, tag:""');
+
+    expect(query.tags).toEqual(['docs']);
+    expect(query.terms).toEqual(['tag:,']);
+  });
+
+  it('검색 조건이 없으면 hasBookmarkCriteria가 false', () => {
+    expect(hasBookmarkCriteria(parseBookmarkQuery('   ""  '))).toBe(false);
+    expect(hasBookmarkCriteria(parseBookmarkQuery('tag:docs'))).toBe(true);
+  });
+});
+
+describe('normalizeTags', () => {
+  it('쉼표로 나누고 공백을 정리한 뒤 중복을 제거한다', () => {
+    expect(normalizeTags([' web ', 'docs,web', '', 'reading\tlist'])).toEqual([
+      'web',
+      'docs',
+      'reading list',
+    ]);
+  });
+});
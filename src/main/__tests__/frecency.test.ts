@@ -0,0 +1,86 @@
+/**
+ * frecency 점수 계산 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateFrecency,
+  frecencyDecaySince,
+  recencyWeight,
+  FRECENCY_SAMPLE_SIZE,
+} from '../services/database/frecency';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date(2025, 5, 15);
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+describe('recencyWeight', () => {
+  it('방문 경과 일수에 따라 가중치가 줄어든다', () => {
+    expect(recencyWeight(daysAgo(1), now)).toBe(100);
+    expect(recencyWeight(daysAgo(10), now)).toBe(70);
+    expect(recencyWeight(daysAgo(20), now)).toBe(50);
+    expect(recencyWeight(daysAgo(60), now)).toBe(30);
+    expect(recencyWeight(daysAgo(365), now)).toBe(10);
+  });
+});
+
+describe('calculateFrecency', () => {
+  it('방문이 없으면 0이다', () => {
+    expect(calculateFrecency(0, [], now)).toBe(0);
+  });
+
+  it('최근 링크 방문 1회는 100점이다', () => {
+    expect(calculateFrecency(1, [{ visitedAt: daysAgo(0), transition: 'link' }], now)).toBe(100);
+  });
+
+  it('직접 입력한 방문이 링크 방문보다 높다', () => {
+    const typed = calculateFrecency(1, [{ visitedAt: daysAgo(1), transition: 'typed' }], now);
+    const link = calculateFrecency(1, [{ visitedAt: daysAgo(1), transition: 'link' }], now);
+
+    expect(typed).toBeGreaterThan(link);
+  });
+
+  it('같은 방문 횟수면 최근 방문한 URL이 높다', () => {
+    const recent = calculateFrecency(3, [{ visitedAt: daysAgo(2), transition: 'link' }], now);
+    const old = calculateFrecency(3, [{ visitedAt: daysAgo(100), transition: 'link' }], now);
+
+    expect(recent).toBeGreaterThan(old);
+  });
+
+  it('새로고침/리다이렉트 방문은 점수에 기여하지 않는다', () => {
+    const samples = [
+      { visitedAt: daysAgo(1), transition: 'reload' },
+      { visitedAt: daysAgo(1), transition: 'redirect' },
+    ];
+
+    expect(calculateFrecency(2, samples, now)).toBe(0);
+  });
+
+  it('최근 FRECENCY_SAMPLE_SIZE개 방문만 샘플로 사용한다', () => {
+    const samples = [
+      ...Array.from({ length: FRECENCY_SAMPLE_SIZE }, () => ({
+        visitedAt: daysAgo(1),
+        transition: 'link',
+      })),
+      { visitedAt: daysAgo(1), transition: 'typed' },
+    ];
+
+    expect(calculateFrecency(11, samples, now)).toBe(1100);
+  });
+
+  it('오래 머문 방문은 가산하고 바로 떠난 방문은 감산한다', () => {
+    const score = (dwellTimeMs: number) =>
+      calculateFrecency(1, [{ visitedAt: daysAgo(0), transition: 'link', dwellTimeMs }], now);
+
+    expect(score(0)).toBe(100);
+    expect(score(3 * 1000)).toBe(50);
+    expect(score(30 * 1000)).toBe(100);
+    expect(score(5 * 60 * 1000)).toBe(150);
+  });
+});
+
+describe('frecencyDecaySince', () => {
+  it('마지막 최근성 구간보다 이전 시각을 반환한다', () => {
+    expect(frecencyDecaySince(now).getTime()).toBeLessThan(daysAgo(90).getTime());
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * 히스토리 검색어 파서 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseHistoryQuery,
+  buildFtsMatch,
+  hasSearchCriteria,
+  urlMatchesSite,
+} from '../services/database/historyQuery';
+
+describe('parseHistoryQuery', () => {
+  it('일반 검색어와 따옴표 구문을 구분한다', () => {
+    const query = parseHistoryQuery('prisma "query engine" docs');
+
+    expect(query.terms).toEqual(['prisma', 'docs']);
+    expect(query.phrases).toEqual(['query engine']);
+  });
+
+  it('site: 연산자에서 프로토콜, www., 경로를 제거한다', () => {
+    expect(parseHistoryQuery('site:https://www.GitHub.com/prisma').site).toBe('github.com');
+    expect(parseHistoryQuery('site:*.example.org').site).toBe('example.org');
+  });
+
+  it('before:/after:는 로컬 날짜 0시로 해석한다', () => {
+    const query = parseHistoryQuery('after:2025-01-01 before:2025-02-01');
+
+    expect(query.after).toEqual(new Date(2025, 0, 1));
+    expect(query.before).toEqual(new Date(2025, 1, 1));
+  });
+
+  it('형식이 맞지 않는 연산자는 일반 검색어로 취급한다', () => {
+    const query = parseHistoryQuery('before:yesterday after:2025-02-30 site:bad_host!');
+
+    expect(query.before).toBeNull();
+    expect(query.after).toBeNull();
+    expect(query.site).toBeNull();
+    expect(query.terms).toEqual(['before:yesterday', 'after:2025-02-30', 'site:bad_host!']);
+  });
+
+  it('문자/숫자가 없는 토큰은 무시한다', () => {
+    const query = parseHistoryQuery('*** "" -- ok');
+
+    expect(query.terms).toEqual(['ok']);
+    expect(query.phrases).toEqual([]);
+  });
+
+  it('연산자만 있어도 검색 조건으로 인정한다', () => {
+    expect(hasSearchCriteria(parseHistoryQuery('site:github.com'))).toBe(true);
+    expect(hasSearchCriteria(parseHistoryQuery('"  "'))).toBe(false);
+  });
+});
+
+describe('buildFtsMatch', () => {
+  it('구문은 그대로, 일반 검색어는 접두사 일치로 만든다', () => {
+    expect(buildFtsMatch(parseHistoryQuery('prisma "query engine"'))).toBe(
+      '"query engine" "prisma"*'
+    );
+  });
+
+  it('사용자 입력의 FTS5 연산자는 문자열로 감싼다', () => {
+    expect(buildFtsMatch(parseHistoryQuery('title:foo OR NEAR(bar)'))).toBe(
+      '"title:foo"* "OR"* "NEAR(bar)"*'
+    );
+  });
+
+  it('텍스트 조건이 없으면 null을 반환한다', () => {
+    expect(buildFtsMatch(parseHistoryQuery('site:github.com after:2025-01-01'))).toBeNull();
+  });
+});
+
+describe('urlMatchesSite', () => {
+  it('사이트와 하위 도메인만 일치시킨다', () => {
+    expect(urlMatchesSite('https://example.com/a', 'example.com')).toBe(true);
+    expect(urlMatchesSite('http://mail.example.com:8080/', 'example.com')).toBe(true);
+    expect(urlMatchesSite('https://badexample.com/', 'example.com')).toBe(false);
+    expect(urlMatchesSite('not a url', 'example.com')).toBe(false);
+  });
+});
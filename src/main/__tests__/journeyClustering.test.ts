@@ -0,0 +1,149 @@
+/**
+ * 여정 (Journeys) 묶기 규칙 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clusterVisits,
+  summarizeJourney,
+  siteDomain,
+  extractSearchQuery,
+  JOURNEY_IDLE_GAP_MS,
+  type ClusterVisit,
+  type JourneyCluster,
+} from '../services/database/journeyClustering';
+
+const BASE = new Date(2025, 10, 1, 9, 0).getTime();
+const MINUTE_MS = 60 * 1000;
+
+const visit = (
+  id: string,
+  minutes: number,
+  url: string,
+  title: string,
+  referrer: Partial<Pick<ClusterVisit, 'referrerVisitId' | 'referrerJourneyId'>> = {}
+): ClusterVisit => ({
+  id,
+  url,
+  title,
+  visitedAt: new Date(BASE + minutes * MINUTE_MS),
+  referrerVisitId: referrer.referrerVisitId ?? null,
+  referrerJourneyId: referrer.referrerJourneyId ?? null,
+});
+
+describe('clusterVisits', () => {
+  it('같은 도메인이나 키워드를 공유하는 방문을 묶고 다른 주제는 분리한다', () => {
+    const clusters = clusterVisits(
+      [
+        visit('v1', 0, 'https://docs.prisma.io/orm', 'Prisma ORM'),
+        visit('v2', 3, 'https://www.prisma.io/blog', 'Blog'),
+        visit('v3', 5, 'https://news.example.com/', 'Weather today'),
+        visit('v4', 8, 'https://stackoverflow.com/q/1', 'prisma sqlite migration'),
+      ],
+      []
+    );
+
+    expect(clusters.map((cluster) => cluster.visitIds)).toEqual([['v1', 'v2', 'v4'], ['v3']]);
+  });
+
+  it('유휴 간격이 지나면 같은 주제여도 새 여정을 시작한다', () => {
+    const clusters = clusterVisits(
+      [
+        visit('v1', 0, 'https://example.com/a', 'Example'),
+        visit('v2', JOURNEY_IDLE_GAP_MS / MINUTE_MS + 1, 'https://example.com/b', 'Example'),
+      ],
+      []
+    );
+
+    expect(clusters).toHaveLength(2);
+  });
+
+  it('referrer 방문의 여정에는 주제와 간격에 상관없이 합류한다', () => {
+    const open: JourneyCluster = {
+      id: 'journey-1',
+      startedAt: new Date(BASE - 3 * 60 * MINUTE_MS),
+      endedAt: new Date(BASE - 2 * 60 * MINUTE_MS),
+      domains: ['example.com'],
+      keywords: ['example'],
+      visitIds: [],
+    };
+
+    const clusters = clusterVisits(
+      [
+        visit('v1', 0, 'https://other.org/', 'Unrelated', { referrerJourneyId: 'journey-1' }),
+        visit('v2', 1, 'https://third.net/', 'Also unrelated', { referrerVisitId: 'v1' }),
+      ],
+      [open]
+    );
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0]).toMatchObject({ id: 'journey-1', visitIds: ['v1', 'v2'] });
+    expect(clusters[0]!.endedAt).toEqual(new Date(BASE + MINUTE_MS));
+    expect(clusters[0]!.domains).toEqual(['example.com', 'other.org', 'third.net']);
+  });
+});
+
+describe('summarizeJourney', () => {
+  it('검색어를 라벨로 쓰고 방문이 많은 페이지를 대표 페이지로 고른다', () => {
+    const summary = summarizeJourney([
+      { url: 'https://a.com/1', title: 'One', visitedAt: new Date(BASE), dwellTimeMs: 0 },
+      {
+        url: 'https://www.google.com/search?q=sqlite+fts5',
+        title: 'sqlite fts5 - Google',
+        visitedAt: new Date(BASE + MINUTE_MS),
+        dwellTimeMs: 0,
+      },
+      {
+        url: 'https://a.com/2',
+        title: 'Two',
+        visitedAt: new Date(BASE + 2 * MINUTE_MS),
+        dwellTimeMs: 500,
+      },
+      {
+        url: 'https://a.com/2',
+        title: 'Two',
+        visitedAt: new Date(BASE + 3 * MINUTE_MS),
+        dwellTimeMs: 0,
+      },
+    ]);
+
+    expect(summary.label).toBe('sqlite fts5');
+    expect(summary.visitCount).toBe(4);
+    expect(summary.startedAt).toEqual(new Date(BASE));
+    expect(summary.endedAt).toEqual(new Date(BASE + 3 * MINUTE_MS));
+    expect(summary.topPages[0]).toEqual({ url: 'https://a.com/2', title: 'Two', visitCount: 2 });
+    expect(summary.domains[0]).toBe('a.com');
+  });
+
+  it('검색어가 없으면 여러 페이지 공통 키워드, 그다음 대표 도메인을 라벨로 쓴다', () => {
+    const at = new Date(BASE);
+    expect(
+      summarizeJourney([
+        { url: 'https://a.com/1', title: 'Kyoto travel guide', visitedAt: at, dwellTimeMs: 0 },
+        { url: 'https://b.com/2', title: 'Kyoto hotels', visitedAt: at, dwellTimeMs: 0 },
+      ]).label
+    ).toBe('kyoto');
+    expect(
+      summarizeJourney([
+        { url: 'https://www.a.com/1', title: 'First', visitedAt: at, dwellTimeMs: 0 },
+        { url: 'https://www.a.com/2', title: 'Second', visitedAt: at, dwellTimeMs: 0 },
+      ]).label
+    ).toBe('a.com');
+  });
+});
+
+describe('siteDomain / extractSearchQuery', () => {
+  it('등록 도메인을 근사하고 http(s)가 아니면 null을 반환한다', () => {
+    expect(siteDomain('https://a.b.example.com/x')).toBe('example.com');
+    expect(siteDomain('https://news.example.co.kr/')).toBe('example.co.kr');
+    expect(siteDomain('http://127.0.0.1:3000/')).toBe('127.0.0.1');
+    expect(siteDomain('file:///tmp/a.html')).toBeNull();
+  });
+
+  it('검색 결과 URL에서 검색어를 꺼낸다', () => {
+    expect(extractSearchQuery('https://duckduckgo.com/?q=electron+session')).toBe(
+      'electron session'
+    );
+    expect(extractSearchQuery('https://example.com/page')).toBeNull();
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * 설정 적용기 / SettingsReactorService 테스트
+ * - 가짜 nativeTheme / 세션 / 탭 webContents로 적용 결과 확인
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('electron', () => ({ nativeTheme: {}, session: {} }));
+
+import {
+  CacheSizeApplier,
+  LanguageApplier,
+  ThemeApplier,
+  ZoomApplier,
+  type SettingsApplier,
+} from '../services/settings/appliers';
+import { DEFAULT_SETTINGS } from '../services/settings/settingsSchema';
+import { SettingsReactorService } from '../services/SettingsReactorService';
+import { EventBus } from '../core/EventBus';
+import type { AppSettings, SettingsChange } from '../../shared/types/domain';
+
+const MB = 1024 * 1024;
+
+const settingsWith = (patch: Partial<AppSettings>): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...patch,
+});
+
+const createFakeTabs = (urls: Record<string, string>) => {
+  const zoom = new Map<string, number>();
+  return {
+    zoom,
+    urls,
+    getTabIds: () => Object.keys(urls),
+    getWebContents: (tabId: string) =>
+      tabId in urls
+        ? {
+            getURL: () => urls[tabId] ?? '',
+            setZoomFactor: (factor: number) => zoom.set(tabId, factor),
+          }
+        : null,
+  };
+};
+
+const createFakeSiteZoom = () => {
+  const levels = new Map<string, number>();
+  return {
+    levels,
+    getZoomLevel: (origin: string) => levels.get(origin) ?? null,
+    setZoomLevel: async (origin: string, zoomLevel: number | null) => {
+      if (zoomLevel === null) {
+        levels.delete(origin);
+      } else {
+        levels.set(origin, zoomLevel);
+      }
+      EventBus.getInstance().emit('site:settingsChanged', { origin });
+    },
+  };
+};
+
+describe('ThemeApplier', () => {
+  it('maps auto to the system theme source', () => {
+    const nativeTheme: { themeSource: 'system' | 'light' | 'dark' } = { themeSource: 'light' };
+    const applier = new ThemeApplier(nativeTheme);
+
+    applier.apply(settingsWith({ theme: 'auto' }));
+    expect(nativeTheme.themeSource).toBe('system');
+
+    applier.apply(settingsWith({ theme: 'dark' }));
+    expect(nativeTheme.themeSource).toBe('dark');
+  });
+});
+
+describe('LanguageApplier', () => {
+  it('sets the error message locale', () => {
+    const setLocale = vi.fn();
+    new LanguageApplier(setLocale).apply(settingsWith({ language: 'ja' }));
+
+    expect(setLocale).toHaveBeenCalledWith('ja');
+  });
+});
+
+describe('CacheSizeApplier', () => {
+  const createSession = (size: number) => ({
+    getCacheSize: vi.fn(async () => size * MB),
+    clearCache: vi.fn(async () => undefined),
+  });
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records the limit for the next start-up disk-cache-size switch', async () => {
+    const saveSwitches = vi.fn(async () => undefined);
+    const applier = new CacheSizeApplier(() => createSession(0), saveSwitches);
+
+    await applier.apply(settingsWith({ cacheSize: 800 }));
+
+    expect(saveSwitches).toHaveBeenCalledWith({ cacheSize: 800 });
+  });
+
+  it('clears the cache only when it exceeds the quota', async () => {
+    const session = createSession(300);
+    const applier = new CacheSizeApplier(
+      () => session,
+      async () => undefined
+    );
+
+    await applier.enforceQuota();
+    expect(session.getCacheSize).not.toHaveBeenCalled();
+
+    await applier.apply(settingsWith({ cacheSize: 500 }));
+    await flush();
+    await applier.enforceQuota();
+    expect(session.clearCache).not.toHaveBeenCalled();
+  });
+
+  it('checks the cache right away when a limit is applied', async () => {
+    const session = createSession(300);
+    const applier = new CacheSizeApplier(
+      () => session,
+      async () => undefined
+    );
+
+    await applier.apply(settingsWith({ cacheSize: 500 }));
+    await flush();
+    expect(session.getCacheSize).toHaveBeenCalledTimes(1);
+    expect(session.clearCache).not.toHaveBeenCalled();
+
+    await applier.apply(settingsWith({ cacheSize: 200 }));
+    await flush();
+    expect(session.clearCache).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks the cache size periodically while started', async () => {
+    vi.useFakeTimers();
+    const session = createSession(300);
+    const applier = new CacheSizeApplier(
+      () => session,
+      async () => undefined,
+      1000
+    );
+    await applier.apply(settingsWith({ cacheSize: 200 }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(session.clearCache).toHaveBeenCalledTimes(1);
+
+    applier.start();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(session.clearCache).toHaveBeenCalledTimes(3);
+
+    applier.stop();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(session.clearCache).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('ZoomApplier', () => {
+  let tabs: ReturnType<typeof createFakeTabs>;
+  let siteZoom: ReturnType<typeof createFakeSiteZoom>;
+  let applier: ZoomApplier;
+  const eventBus = EventBus.getInstance();
+
+  beforeEach(() => {
+    tabs = createFakeTabs({
+      a: 'https://example.com/one',
+      b: 'https://example.com/two',
+      c: 'https://other.org/',
+    });
+    siteZoom = createFakeSiteZoom();
+    applier = new ZoomApplier(tabs, siteZoom);
+    applier.start();
+  });
+
+  afterEach(() => {
+    applier.stop();
+  });
+
+  it('applies the default zoom to open tabs and navigations', () => {
+    applier.apply(settingsWith({ zoomLevel: 1.25 }));
+    expect([...tabs.zoom.values()]).toEqual([1.25, 1.25, 1.25]);
+
+    tabs.zoom.clear();
+    eventBus.emit('tab:navigated', { tabId: 'c', url: 'https://third.net/' });
+    expect(tabs.zoom.get('c')).toBe(1.25);
+  });
+
+  it('keeps per-site zoom over the default for every tab on that origin', () => {
+    applier.apply(settingsWith({ zoomLevel: 1.25 }));
+    applier.setSiteZoom('https://example.com/one', 1.5);
+
+    expect(tabs.zoom.get('a')).toBe(1.5);
+    expect(tabs.zoom.get('b')).toBe(1.5);
+    expect(tabs.zoom.get('c')).toBe(1.25);
+
+    applier.apply(settingsWith({ zoomLevel: 0.9 }));
+    expect(tabs.zoom.get('a')).toBe(1.5);
+    expect(tabs.zoom.get('c')).toBe(0.9);
+
+    eventBus.emit('tab:navigated', { tabId: 'c', url: 'https://example.com/three' });
+    expect(tabs.zoom.get('c')).toBe(1.5);
+  });
+
+  it('saves site zoom to the store and drops it when it matches the default', () => {
+    applier.setSiteZoom('https://example.com/one', 1.5);
+    expect(siteZoom.levels.get('https://example.com')).toBe(1.5);
+
+    applier.setSiteZoom('https://example.com/one', DEFAULT_SETTINGS.zoomLevel);
+    expect(siteZoom.levels.has('https://example.com')).toBe(false);
+  });
+
+  it('re-applies zoom when site settings change elsewhere', async () => {
+    await siteZoom.setZoomLevel('https://other.org', 0.75);
+
+    expect(tabs.zoom.get('c')).toBe(0.75);
+    expect(tabs.zoom.has('a')).toBe(false);
+  });
+
+  it('falls back to the default after clearing a site zoom', () => {
+    applier.setSiteZoom('https://example.com/', 2);
+    applier.clearSiteZoom('https://example.com/');
+
+    expect(applier.getZoomForUrl('https://example.com/x')).toBe(DEFAULT_SETTINGS.zoomLevel);
+    expect(tabs.zoom.get('a')).toBe(DEFAULT_SETTINGS.zoomLevel);
+  });
+
+  it('does not remember zoom for pages without a site origin', () => {
+    applier.setSiteZoom('about:blank', 2);
+
+    expect(applier.getZoomForUrl('about:blank')).toBe(DEFAULT_SETTINGS.zoomLevel);
+    expect(tabs.zoom.size).toBe(0);
+    expect(siteZoom.levels.size).toBe(0);
+  });
+});
+
+describe('SettingsReactorService', () => {
+  const createApplier = (name: string, keys: SettingsApplier['keys']) => ({
+    name,
+    keys,
+    apply: vi.fn(),
+    start: vi.fn(),
+    stop: vi.fn(),
+  });
+
+  it('applies current settings on start and only affected appliers on change', async () => {
+    const theme = createApplier('theme', ['theme']);
+    const cache = createApplier('cacheSize', ['cacheSize']);
+    const reactor = new SettingsReactorService({ getAll: () => ({ ...DEFAULT_SETTINGS }) }, [
+      theme,
+      cache,
+    ]);
+
+    await reactor.start();
+    expect(theme.start).toHaveBeenCalled();
+    expect(theme.apply).toHaveBeenCalledWith(DEFAULT_SETTINGS);
+    expect(cache.apply).toHaveBeenCalledWith(DEFAULT_SETTINGS);
+
+    const next = settingsWith({ theme: 'dark' });
+    const change: SettingsChange = { keys: ['theme'], settings: next, previous: DEFAULT_SETTINGS };
+    EventBus.getInstance().emit('settings:changed', change);
+    await Promise.resolve();
+
+    expect(theme.apply).toHaveBeenLastCalledWith(next);
+    expect(cache.apply).toHaveBeenCalledTimes(1);
+
+    reactor.stop();
+    expect(theme.stop).toHaveBeenCalled();
+    EventBus.getInstance().emit('settings:changed', change);
+    expect(theme.apply).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps applying other settings when one applier fails', async () => {
+    const broken = createApplier('theme', ['theme']);
+    broken.apply.mockImplementation(() => {
+      throw new Error('no display');
+    });
+    const language = createApplier('language', ['language']);
+    const reactor = new SettingsReactorService({ getAll: () => ({ ...DEFAULT_SETTINGS }) }, [
+      broken,
+      language,
+    ]);
+
+    await reactor.react({
+      keys: ['theme', 'language'],
+      settings: DEFAULT_SETTINGS,
+      previous: DEFAULT_SETTINGS,
+    });
+
+    expect(language.apply).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * 시작 스위치 테스트
+ * - 임시 디렉토리의 실제 파일로 기록/읽기 확인 (없거나 잘못된 값은 기본값)
+ * - 가짜 명령줄로 disk-cache-size 스위치 확인
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('electron', () => ({ app: {} }));
+
+import {
+  applyStartupSwitches,
+  readStartupSwitches,
+  writeStartupSwitches,
+} from '../services/settings/startupSwitches';
+import { DEFAULT_SETTINGS } from '../services/settings/settingsSchema';
+
+describe('startupSwitches', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aside-switches-test-'));
+    filePath = path.join(tempDir, 'nested', 'startup-switches.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reads back the recorded cache size', async () => {
+    await writeStartupSwitches({ cacheSize: 1200 }, filePath);
+
+    expect(readStartupSwitches(filePath)).toEqual({ cacheSize: 1200 });
+  });
+
+  it('falls back to the default when the file is missing or invalid', () => {
+    expect(readStartupSwitches(filePath)).toEqual({ cacheSize: DEFAULT_SETTINGS.cacheSize });
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify({ cacheSize: 1 }));
+    expect(readStartupSwitches(filePath)).toEqual({ cacheSize: DEFAULT_SETTINGS.cacheSize });
+
+    fs.writeFileSync(filePath, '{broken');
+    expect(readStartupSwitches(filePath)).toEqual({ cacheSize: DEFAULT_SETTINGS.cacheSize });
+  });
+
+  it('appends the disk-cache-size switch in bytes', () => {
+    const appendSwitch = vi.fn();
+
+    applyStartupSwitches({ cacheSize: 300 }, { appendSwitch });
+
+    expect(appendSwitch).toHaveBeenCalledWith('disk-cache-size', String(300 * 1024 * 1024));
+  });
+});
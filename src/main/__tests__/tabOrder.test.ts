@@ -0,0 +1,119 @@
+/**
+ * 탭 순서 헬퍼 테스트
+ * - 고정 탭 우선 / 그룹 연속 정렬
+ * - tab:move 배치 (구역 제한, 윈도우 간 이동, 그룹 이탈)
+ * - 변경된 행만 기록 (가짜 트랜잭션)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { BrowserTab, Prisma } from '@prisma/client';
+import { placeTab, sortTabOrder, writeTabOrder } from '../services/database/tabOrder';
+
+const createTab = (id: string, overrides: Partial<BrowserTab> = {}): BrowserTab => ({
+  id,
+  url: `https://${id}.example`,
+  title: id,
+  favicon: null,
+  isActive: false,
+  isMuted: false,
+  isPinned: false,
+  index: 0,
+  windowId: 'window-1',
+  groupId: null,
+  state: 'background',
+  navigationIndex: 0,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  ...overrides,
+});
+
+const ids = (tabs: BrowserTab[]) => tabs.map((tab) => tab.id);
+
+describe('sortTabOrder', () => {
+  it('moves pinned tabs first and keeps the order inside each zone', () => {
+    const tabs = [
+      createTab('a'),
+      createTab('p1', { isPinned: true }),
+      createTab('b'),
+      createTab('p2', { isPinned: true }),
+    ];
+
+    expect(ids(sortTabOrder(tabs))).toEqual(['p1', 'p2', 'a', 'b']);
+  });
+
+  it('gathers group members behind the first member of the group', () => {
+    const tabs = [
+      createTab('g1', { groupId: 'group' }),
+      createTab('a'),
+      createTab('g2', { groupId: 'group' }),
+      createTab('b'),
+    ];
+
+    expect(ids(sortTabOrder(tabs))).toEqual(['g1', 'g2', 'a', 'b']);
+  });
+});
+
+describe('placeTab', () => {
+  const window2 = [
+    createTab('p1', { isPinned: true, windowId: 'window-2' }),
+    createTab('x', { windowId: 'window-2', index: 1 }),
+    createTab('y', { windowId: 'window-2', index: 2 }),
+  ];
+
+  it('inserts a tab from another window at the requested position', () => {
+    const { ordered, moved } = placeTab(window2, createTab('a'), 2);
+
+    expect(ids(ordered)).toEqual(['p1', 'x', 'a', 'y']);
+    expect(moved.id).toBe('a');
+  });
+
+  it('keeps unpinned tabs out of the pinned zone and pinned tabs inside it', () => {
+    expect(ids(placeTab(window2, createTab('a'), 0).ordered)).toEqual(['p1', 'a', 'x', 'y']);
+    expect(ids(placeTab(window2, createTab('a'), 99).ordered)).toEqual(['p1', 'x', 'y', 'a']);
+    expect(ids(placeTab(window2, createTab('p2', { isPinned: true }), 3).ordered)).toEqual([
+      'p1',
+      'p2',
+      'x',
+      'y',
+    ]);
+  });
+
+  it('reorders within a window without duplicating the moved tab', () => {
+    const tabs = [createTab('a'), createTab('b', { index: 1 }), createTab('c', { index: 2 })];
+
+    expect(ids(placeTab(tabs, tabs[0]!, 2).ordered)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('removes a tab from its group when it lands away from the other members', () => {
+    const tabs = [
+      createTab('g1', { groupId: 'group' }),
+      createTab('g2', { groupId: 'group', index: 1 }),
+      createTab('a', { index: 2 }),
+      createTab('b', { index: 3 }),
+    ];
+
+    expect(placeTab(tabs, tabs[0]!, 1).moved.groupId).toBe('group');
+    const { ordered, moved } = placeTab(tabs, tabs[0]!, 3);
+    expect(moved.groupId).toBeNull();
+    expect(ids(ordered)).toEqual(['g2', 'a', 'b', 'g1']);
+  });
+});
+
+describe('writeTabOrder', () => {
+  it('writes index and windowId only for rows that changed', async () => {
+    const update = vi.fn(async () => undefined);
+    const tx = { browserTab: { update } } as unknown as Prisma.TransactionClient;
+    const tabs = [
+      createTab('a', { index: 0, windowId: 'window-2' }),
+      createTab('b', { index: 0 }),
+      createTab('c', { index: 2 }),
+    ];
+
+    await writeTabOrder(tx, tabs, 'window-2');
+
+    expect(update.mock.calls).toEqual([
+      [{ where: { id: 'b' }, data: { index: 1, windowId: 'window-2' } }],
+      [{ where: { id: 'c' }, data: { index: 2, windowId: 'window-2' } }],
+    ]);
+  });
+});
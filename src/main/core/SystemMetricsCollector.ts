@@ -0,0 +1,180 @@
+/**
+ * SystemMetricsCollector - Electron 기반 원시 메트릭 수집
+ *
+ * 책임: SystemOrchestrator에 공급할 실측 메트릭 수집
+ * - 메모리/CPU: app.getAppMetrics()의 프로세스별 값 합산
+ * - 배터리: powerMonitor의 배터리 사용 여부
+ *   잔량은 메인 프로세스 API가 없어 메인 윈도우 renderer의 Battery Status API로 조회
+ * - RTT: 네트워크 요청의 헤더 전송 → 응답 시작 시간 샘플
+ *
+ * SRP 원칙: 측정만 담당
+ * 상태 판정과 최적화 실행은 SystemOrchestrator에 위임
+ */
+
+import os from 'os';
+import { app, powerMonitor, session } from 'electron';
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { BATTERY_UPDATE_INTERVAL_SEC } from '../../shared/system/constants';
+import type { RawSystemMetrics, SystemMetricsSource } from './SystemOrchestrator';
+import type { WindowManager } from './window';
+
+/**
+ * Electron 메트릭 수집기
+ */
+export class SystemMetricsCollector implements SystemMetricsSource {
+  private logger: ILogger;
+  private rttSamples: number[] = [];
+  private pendingRequests: Map<number, number> = new Map();
+  private isOnBattery = false;
+  private batteryPercent = 100;
+  private batteryReadAt = 0;
+  private readonly MAX_RTT_SAMPLES = 20;
+  private readonly MAX_PENDING_REQUESTS = 500;
+  private readonly BATTERY_READ_TIMEOUT_MS = 2000;
+
+  constructor(private windowManager: Pick<WindowManager, 'getMainWindow'>) {
+    this.logger = new LoggerImpl('SystemMetricsCollector', LogLevel.INFO);
+  }
+
+  /**
+   * 전원/네트워크 관찰 시작 (app ready 이후 호출)
+   * - window.ts가 onHeadersReceived를 사용하므로 RTT는 onSendHeaders/onResponseStarted로 측정
+   */
+  public initialize(): void {
+    try {
+      this.isOnBattery = powerMonitor.isOnBatteryPower();
+      powerMonitor.on('on-battery', () => {
+        this.isOnBattery = true;
+      });
+      powerMonitor.on('on-ac', () => {
+        this.isOnBattery = false;
+      });
+
+      const webRequest = session.defaultSession.webRequest;
+      webRequest.onSendHeaders((details) => {
+        if (this.pendingRequests.size >= this.MAX_PENDING_REQUESTS) {
+          this.pendingRequests.clear();
+        }
+        this.pendingRequests.set(details.id, details.timestamp);
+      });
+      webRequest.onResponseStarted((details) => {
+        const sentAt = this.pendingRequests.get(details.id);
+        this.pendingRequests.delete(details.id);
+        if (sentAt !== undefined && !details.fromCache) {
+          this.recordRttSample(details.timestamp - sentAt);
+        }
+      });
+      webRequest.onErrorOccurred((details) => {
+        this.pendingRequests.delete(details.id);
+      });
+
+      this.logger.info('SystemMetricsCollector: Initialized', {
+        module: 'SystemMetricsCollector',
+        metadata: { isOnBattery: this.isOnBattery },
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SystemMetricsCollector: Failed to initialize', err);
+      throw err;
+    }
+  }
+
+  /**
+   * RTT 샘플 기록 (최근 MAX_RTT_SAMPLES개 유지)
+   *
+   * @param rttMs 왕복 시간 (ms)
+   */
+  public recordRttSample(rttMs: number): void {
+    if (!Number.isFinite(rttMs) || rttMs < 0) {
+      return;
+    }
+    this.rttSamples.push(rttMs);
+    if (this.rttSamples.length > this.MAX_RTT_SAMPLES) {
+      this.rttSamples.shift();
+    }
+  }
+
+  /**
+   * 원시 메트릭 수집
+   */
+  public async collect(): Promise<RawSystemMetrics> {
+    const cpuCoreCount = os.cpus().length || 1;
+    let workingSetKB = 0;
+    let cpuPercent = 0;
+
+    for (const metric of app.getAppMetrics()) {
+      workingSetKB += metric.memory.workingSetSize;
+      cpuPercent += metric.cpu.percentCPUUsage;
+    }
+
+    return {
+      memoryUsedMB: Math.round(workingSetKB / 1024), // KB → MB
+      memoryTotalMB: Math.round(os.totalmem() / 1024 / 1024),
+      // percentCPUUsage는 코어 하나 기준이므로 전체 코어 대비로 환산
+      cpuUsagePercent: Math.min(cpuPercent / cpuCoreCount, 100),
+      cpuCoreCount,
+      rttMs: this.getMedianRtt(),
+      batteryPercent: await this.readBatteryPercent(),
+      isOnBattery: this.isOnBattery,
+    };
+  }
+
+  /**
+   * 배터리 잔량 조회 (BATTERY_UPDATE_INTERVAL_SEC마다 1회)
+   * - 메인 프로세스에는 잔량 API가 없어 메인 윈도우 renderer의 navigator.getBattery() 사용
+   * - 윈도우가 없거나 API를 지원하지 않으면 마지막 값 유지 (초기값 100)
+   *
+   * @private
+   */
+  private async readBatteryPercent(): Promise<number> {
+    const now = Date.now();
+    if (now - this.batteryReadAt < BATTERY_UPDATE_INTERVAL_SEC * 1000) {
+      return this.batteryPercent;
+    }
+    this.batteryReadAt = now;
+
+    const window = this.windowManager.getMainWindow();
+    if (!window || window.isDestroyed()) {
+      return this.batteryPercent;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      // renderer가 응답하지 않아도 수집 루프가 멈추지 않도록 제한 시간 적용
+      const level: unknown = await Promise.race([
+        window.webContents.executeJavaScript(
+          'navigator.getBattery ? navigator.getBattery().then((battery) => battery.level) : null'
+        ),
+        new Promise((resolve) => {
+          timer = setTimeout(() => resolve(null), this.BATTERY_READ_TIMEOUT_MS);
+        }),
+      ]);
+      if (typeof level === 'number' && Number.isFinite(level)) {
+        this.batteryPercent = Math.min(Math.max(level * 100, 0), 100);
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.debug('SystemMetricsCollector: Failed to read battery level', {
+        module: 'SystemMetricsCollector',
+        metadata: { reason: err.message },
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+
+    return this.batteryPercent;
+  }
+
+  /**
+   * 최근 RTT 샘플의 중앙값 (샘플이 없으면 0)
+   *
+   * @private
+   */
+  private getMedianRtt(): number {
+    if (this.rttSamples.length === 0) {
+      return 0;
+    }
+    const sorted = [...this.rttSamples].sort((a, b) => a - b);
+    return Math.round(sorted[Math.floor(sorted.length / 2)]!);
+  }
+}
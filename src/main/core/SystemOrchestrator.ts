@@ -0,0 +1,214 @@
+/**
+ * SystemOrchestrator - 시스템 최적화 실행 루프
+ *
+ * 책임: Monitoring → Policies → Enforcers 실행 체인 구동
+ * - 주기적으로 메트릭 소스에서 원시 메트릭 수집
+ * - PolicyManager로 메모리/CPU/배터리/네트워크 상태 판정
+ * - 탭/백그라운드 작업 수는 각 Enforcer 통계에서 채움
+ * - EnforcerManager.enforceAll 실행 후 결과를 EventBus로 발행
+ *
+ * SRP 원칙: 실행 루프와 메트릭 조립만 담당
+ * 실제 측정은 SystemMetricsSource에, 정책 판정은 PolicyManager에,
+ * 최적화 실행은 EnforcerManager에 위임
+ *
+ * 발행 이벤트:
+ * - system:enforced { metrics, actions, timestamp }
+ */
+
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { EventBus } from './EventBus';
+import { getPolicyManager, type PolicyManager } from '../../shared/system/policies';
+import {
+  getEnforcerManager,
+  type EnforcerActions,
+  type SystemMetrics,
+} from '../../shared/system/enforcers';
+import type { TabEnforcer } from '../../shared/system/enforcers/tab';
+import type { BackgroundTaskEnforcer } from '../../shared/system/enforcers/background-task';
+
+/**
+ * 측정값만 담은 원시 메트릭 (상태 판정 전)
+ */
+export interface RawSystemMetrics {
+  memoryUsedMB: number;
+  memoryTotalMB: number;
+  cpuUsagePercent: number;
+  cpuCoreCount: number;
+  rttMs: number;
+  batteryPercent: number;
+  isOnBattery: boolean;
+}
+
+/**
+ * 원시 메트릭 공급원 (테스트에서는 합성 메트릭 주입)
+ */
+export interface SystemMetricsSource {
+  collect(): RawSystemMetrics | Promise<RawSystemMetrics>;
+}
+
+/**
+ * SystemOrchestrator가 쓰는 EnforcerManager 기능 (테스트에서는 가짜 주입)
+ */
+export interface SystemEnforcers {
+  enforceAll(metrics: SystemMetrics): Promise<EnforcerActions>;
+  getTabEnforcer(): Pick<TabEnforcer, 'getStatistics'>;
+  getBackgroundTaskEnforcer(): Pick<BackgroundTaskEnforcer, 'getStatistics'>;
+}
+
+/**
+ * 한 번의 실행 결과
+ */
+export interface SystemEnforcementResult {
+  metrics: SystemMetrics;
+  actions: EnforcerActions;
+  timestamp: number;
+}
+
+/**
+ * 시스템 최적화 오케스트레이터
+ */
+export class SystemOrchestrator {
+  private logger: ILogger;
+  private eventBus: EventBus;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastResult: SystemEnforcementResult | null = null;
+  private unsubscribeQuit: (() => void) | null = null;
+  private readonly DEFAULT_INTERVAL_MS = 15000;
+
+  constructor(
+    private source: SystemMetricsSource,
+    private policyManager: PolicyManager = getPolicyManager(),
+    private enforcerManager: SystemEnforcers = getEnforcerManager()
+  ) {
+    this.logger = new LoggerImpl('SystemOrchestrator', LogLevel.INFO);
+    this.eventBus = EventBus.getInstance();
+  }
+
+  /**
+   * 주기 실행 시작 (즉시 1회 실행 후 interval마다 반복)
+   *
+   * @param intervalMs 실행 주기 (ms)
+   */
+  public start(intervalMs: number = this.DEFAULT_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.logger.info('SystemOrchestrator: Starting', {
+      module: 'SystemOrchestrator',
+      metadata: { intervalMs },
+    });
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+    this.unsubscribeQuit = this.eventBus.on('app:beforeQuit', () => this.stop());
+
+    void this.runOnce();
+  }
+
+  /**
+   * 주기 실행 중지
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.unsubscribeQuit?.();
+    this.unsubscribeQuit = null;
+  }
+
+  /**
+   * 메트릭 수집 → 정책 판정 → Enforcer 실행 1회
+   * - 이전 실행이 끝나지 않았으면 건너뜀
+   * - 실패해도 루프가 멈추지 않도록 로그만 남김
+   *
+   * @returns 실행 결과 (건너뛰었거나 실패하면 null)
+   */
+  public async runOnce(): Promise<SystemEnforcementResult | null> {
+    if (this.running) {
+      return null;
+    }
+
+    this.running = true;
+    try {
+      const raw = await this.source.collect();
+      return await this.enforce(this.buildMetrics(raw));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SystemOrchestrator: Failed to run enforcement cycle', err);
+      return null;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * 완성된 메트릭으로 Enforcer 실행 후 결과 발행
+   *
+   * @param metrics 시스템 메트릭
+   */
+  public async enforce(metrics: SystemMetrics): Promise<SystemEnforcementResult> {
+    try {
+      const actions = await this.enforcerManager.enforceAll(metrics);
+      const result: SystemEnforcementResult = { metrics, actions, timestamp: Date.now() };
+      this.lastResult = result;
+
+      this.eventBus.emit('system:enforced', result);
+
+      if (actions.totalActions > 0) {
+        this.logger.info('SystemOrchestrator: Enforcer actions applied', {
+          module: 'SystemOrchestrator',
+          metadata: { priority: actions.priority, totalActions: actions.totalActions },
+        });
+      }
+
+      return result;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SystemOrchestrator: Failed to enforce', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 원시 메트릭에 정책 상태와 탭/작업 수를 더해 SystemMetrics 구성
+   *
+   * @param raw 원시 메트릭
+   */
+  public buildMetrics(raw: RawSystemMetrics): SystemMetrics {
+    const tabStats = this.enforcerManager.getTabEnforcer().getStatistics();
+    const taskStats = this.enforcerManager.getBackgroundTaskEnforcer().getStatistics();
+
+    return {
+      ...raw,
+      memoryStatus: this.policyManager.getMemoryPolicy().evaluate(raw.memoryUsedMB).status,
+      cpuStatus: this.policyManager.getCPUPolicy().evaluate(raw.cpuUsagePercent).status,
+      networkProfile: this.policyManager.getNetworkPolicy().classifyProfile(raw.rttMs),
+      batteryStatus: this.policyManager
+        .getBatteryPolicy()
+        .evaluate(raw.batteryPercent, !raw.isOnBattery).status,
+      activeTabCount: tabStats.activeTabs,
+      backgroundTabCount: tabStats.backgroundTabs,
+      totalTabCount: tabStats.totalTabs,
+      runningTaskCount: taskStats.runningTasks,
+      pausedTaskCount: taskStats.pausedTasks,
+    };
+  }
+
+  /**
+   * 마지막 실행 결과 조회
+   */
+  public getLastResult(): SystemEnforcementResult | null {
+    return this.lastResult;
+  }
+
+  /**
+   * 주기 실행 중 여부
+   */
+  public isRunning(): boolean {
+    return this.timer !== null;
+  }
+}
@@ -3,7 +3,7 @@
  *
  * 책임: Electron 앱의 생명주기 이벤트 처리
  * - app.ready: 앱 초기화 및 윈도우 생성
- * - app.before-quit: 리소스 정리
+ * - app.before-quit: 종료 작업(세션 저장 등) 실행 후 리소스 정리
  * - app.activate (macOS): dock 클릭 시 윈도우 복구
  * - app.window-all-closed: 마지막 윈도우 종료 처리
  *
@@ -13,6 +13,7 @@
 
 import { app } from 'electron';
 import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { EventBus } from './EventBus';
 import type { WindowManager } from './window';
 
 export type AppState = 'initializing' | 'initialized' | 'ready' | 'running' | 'shutting_down' | 'shutdown';
@@ -23,11 +24,19 @@ export interface AppLifecycleConfig {
   allowMultipleInstances?: boolean;
 }
 
+/**
+ * before-quit 시 윈도우가 닫히기 전에 실행되는 비동기 종료 작업
+ */
+export type ShutdownTask = () => Promise<void>;
+
 export class AppLifecycle {
   private logger: ILogger;
   private state: AppState = 'initializing';
   private config: AppLifecycleConfig;
   private quitting = false;
+  private shutdownTasks: ShutdownTask[] = [];
+  private shutdownTasksDone = false;
+  private readonly SHUTDOWN_TASK_TIMEOUT_MS = 3000;
 
   constructor(
     private windowManager: WindowManager,
@@ -106,7 +115,7 @@ export class AppLifecycle {
    */
   private registerAppEvents(): void {
     app.on('ready', () => this.onAppReady());
-    app.on('before-quit', () => this.onBeforeQuit());
+    app.on('before-quit', (event) => this.onBeforeQuit(event));
     app.on('quit', () => this.onAppQuit());
     app.on('activate', () => this.onAppActivate());
     app.on('window-all-closed', () => this.onWindowAllClosed());
@@ -141,14 +150,30 @@ export class AppLifecycle {
 
   /**
    * app.before-quit 이벤트 핸들러 (리소스 정리)
+   *
+   * 등록된 종료 작업이 있으면 종료를 잠시 미루고 작업 완료 후 다시 quit
    */
-  private onBeforeQuit(): void {
+  private onBeforeQuit(event: Electron.Event): void {
     this.logger.info('AppLifecycle: Before quit');
 
     if (this.quitting) {
       return;
     }
 
+    if (!this.shutdownTasksDone) {
+      // 종료 중 윈도우가 닫히는 것을 사용자 동작과 구분할 수 있도록 알림
+      EventBus.getInstance().emit('app:beforeQuit', {});
+    }
+
+    if (this.shutdownTasks.length > 0 && !this.shutdownTasksDone) {
+      event.preventDefault();
+      void this.runShutdownTasks().finally(() => {
+        this.shutdownTasksDone = true;
+        app.quit();
+      });
+      return;
+    }
+
     this.quitting = true;
     this.state = 'shutting_down';
 
@@ -161,6 +186,38 @@ export class AppLifecycle {
     }
   }
 
+  /**
+   * 종료 작업 실행 (작업별 타임아웃, 실패는 로그만 남김)
+   */
+  private async runShutdownTasks(): Promise<void> {
+    this.logger.info('AppLifecycle: Running shutdown tasks', {
+      module: 'AppLifecycle',
+      metadata: { count: this.shutdownTasks.length },
+    });
+
+    const results = await Promise.allSettled(
+      this.shutdownTasks.map((task) =>
+        Promise.race([
+          task(),
+          new Promise<void>((_, reject) =>
+            setTimeout(
+              () => reject(new Error('Shutdown task timed out')),
+              this.SHUTDOWN_TASK_TIMEOUT_MS
+            )
+          ),
+        ])
+      )
+    );
+
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        const err =
+          result.reason instanceof Error ? result.reason : new Error(String(result.reason));
+        this.logger.error('AppLifecycle: Shutdown task failed', err);
+      }
+    }
+  }
+
   /**
    * app.quit 이벤트 핸들러
    */
@@ -218,6 +275,20 @@ export class AppLifecycle {
     return this.quitting;
   }
 
+  /**
+   * 종료 작업 등록 (윈도우가 닫히기 전에 실행됨)
+   */
+  public registerShutdownTask(task: ShutdownTask): void {
+    this.shutdownTasks.push(task);
+  }
+
+  /**
+   * 앱 ready 대기 (메인 윈도우 생성 이후 resolve)
+   */
+  public async whenReady(): Promise<void> {
+    await app.whenReady();
+  }
+
   public async quit(): Promise<void> {
     this.logger.info('AppLifecycle: Manual quit requested');
     app.quit();
@@ -15,6 +15,7 @@ import { BrowserWindow, app, screen, session } from 'electron';
 import path from 'path';
 import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
 import { generateCspHeader } from '../../shared/security/csp';
+import { EventBus } from './EventBus';
 
 /**
  * 빌드 환경 타입
@@ -52,6 +53,8 @@ export interface CreateWindowOptions {
   isMinimized?: boolean;
   x?: number;
   y?: number;
+  width?: number;
+  height?: number;
 }
 
 /**
@@ -191,8 +194,8 @@ export class WindowManager {
     try {
       this.logger.info('WindowManager: Creating window');
 
-      const width = this.config.width ?? 1200;
-      const height = this.config.height ?? 800;
+      const width = options.width ?? this.config.width ?? 1200;
+      const height = options.height ?? this.config.height ?? 800;
       const { isMinimized = false, x, y } = options;
 
       // 윈도우 위치 계산
@@ -465,6 +468,30 @@ export class WindowManager {
     return this.getWindow(this.mainWindowId);
   }
 
+  /**
+   * 메인 윈도우 ID 조회
+   *
+   * @returns 메인 윈도우 ID 또는 null
+   */
+  public getMainWindowId(): string | null {
+    return this.mainWindowId;
+  }
+
+  /**
+   * BrowserWindow로 윈도우 ID 조회
+   *
+   * @param window 대상 BrowserWindow
+   * @returns 윈도우 ID 또는 null
+   */
+  public getWindowId(window: BrowserWindow): string | null {
+    for (const [id, w] of this.windows.entries()) {
+      if (w === window) {
+        return id;
+      }
+    }
+    return null;
+  }
+
   /**
    * 윈도우 개수 조회
    *
@@ -492,8 +519,22 @@ export class WindowManager {
       if (this.mainWindowId === windowId) {
         this.mainWindowId = null;
       }
+
+      EventBus.getInstance().emit('window:closed', {
+        windowId,
+        remainingWindows: this.getWindowCount(),
+      });
     });
 
+    // 크기/위치/상태 변경 (세션 저장 등에서 구독)
+    const emitBoundsChanged = () => {
+      EventBus.getInstance().emit('window:boundsChanged', { windowId });
+    };
+    window.on('resize', emitBoundsChanged);
+    window.on('move', emitBoundsChanged);
+    window.on('enter-full-screen', emitBoundsChanged);
+    window.on('leave-full-screen', emitBoundsChanged);
+
     // 최소화
     window.on('minimize', () => {
       this.logger.debug('WindowManager: Window minimized', {
@@ -508,8 +549,12 @@ export class WindowManager {
         module: 'WindowManager',
         metadata: { windowId },
       });
+      emitBoundsChanged();
     });
 
+    // 최대화 해제
+    window.on('unmaximize', emitBoundsChanged);
+
     // 복원
     window.on('restore', () => {
       this.logger.debug('WindowManager: Window restored', {
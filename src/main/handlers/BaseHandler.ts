@@ -13,7 +13,9 @@
  */
 
 import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
-import type { BaseError } from '../../shared/errors';
+import { ZodError } from 'zod';
+import { ERROR_CODES } from '../../shared/constants';
+import { localizeErrorMessage, type BaseError } from '../../shared/errors';
 
 /**
  * IPC 응답 포맷 (공통)
@@ -37,6 +39,7 @@ export abstract class BaseHandler {
   /**
    * 에러 응답 생성 헬퍼
    * BaseError 타입 감지 및 로깅
+   * 메시지는 현재 에러 로케일로 변환 (설정 language)
    *
    * 사용:
    * ```typescript
@@ -53,7 +56,19 @@ export abstract class BaseHandler {
     if (error instanceof Error && 'code' in error && 'statusCode' in error) {
       const baseErr = error as BaseError;
       this.logger.error(`${this.handlerName}: ${operation} failed`, baseErr);
-      return { success: false, error: baseErr.message };
+      return { success: false, error: localizeErrorMessage(baseErr) };
+    }
+
+    // 요청 검증 실패 (zod)
+    if (error instanceof ZodError) {
+      this.logger.error(`${this.handlerName}: ${operation} failed`, error);
+      return {
+        success: false,
+        error: localizeErrorMessage({
+          code: ERROR_CODES.VALIDATION_INVALID_FORMAT,
+          message: error.message,
+        }),
+      };
     }
 
     // 일반 Error
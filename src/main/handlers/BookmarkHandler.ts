@@ -2,14 +2,20 @@
  * BookmarkHandler - 북마크 IPC 핸들러
  *
  * 책임: IPC 요청을 받아서 BookmarkService로 라우팅
- * - bookmark:create
- * - bookmark:delete
+ * - bookmark:add
+ * - bookmark:remove
+ * - bookmark:update
  * - bookmark:getAll
+ * - bookmark:search
+ * - bookmark:getTags
+ * - bookmark:renameTag
+ * - bookmark:mergeTags
+ * - bookmark:move
  * - bookmark:getFolders
- * - bookmark:addFolder
+ * - bookmark:createFolder
+ * - bookmark:updateFolder
+ * - bookmark:moveFolder
  * - bookmark:deleteFolder
- * - bookmark:search
- * - bookmark:update
  *
  * SRP 원칙: IPC 요청 처리와 라우팅만 담당
  * 비즈니스 로직은 BookmarkService에 위임
@@ -18,11 +24,33 @@
 import { ipcMain } from 'electron';
 import { BaseHandler } from './BaseHandler';
 import { IPC_CHANNELS } from '../../shared/ipc/channels';
-import type { Bookmark } from '../../shared/types';
+import type {
+  Bookmark,
+  BookmarkFolder,
+  BookmarkFolderDeleteResult,
+  BookmarkTagCount,
+} from '../../shared/types';
+import type {
+  BookmarkCreateFolderArgs,
+  BookmarkDeleteFolderArgs,
+  BookmarkMergeTagsArgs,
+  BookmarkMoveArgs,
+  BookmarkMoveFolderArgs,
+  BookmarkRenameTagArgs,
+  BookmarkUpdateArgs,
+  BookmarkUpdateFolderArgs,
+} from '../../shared/ipc/channel-types';
 import {
   BookmarkCreateRequestSchema,
+  BookmarkUpdateRequestSchema,
   BookmarkIdRequestSchema,
-  BookmarkFolderRequestSchema,
+  BookmarkMoveRequestSchema,
+  BookmarkFolderCreateRequestSchema,
+  BookmarkFolderUpdateRequestSchema,
+  BookmarkFolderMoveRequestSchema,
+  BookmarkFolderIdRequestSchema,
+  BookmarkTagRenameRequestSchema,
+  BookmarkTagMergeRequestSchema,
   BookmarkSearchRequestSchema,
 } from '../../shared/ipc/validators';
 import {
@@ -37,7 +65,7 @@ import {
 export interface CreateBookmarkRequest {
   url: string;
   title: string;
-  folder?: string | undefined;
+  folderId?: string | undefined;
   tags?: string[] | undefined;
 }
 
@@ -47,18 +75,11 @@ export interface CreateBookmarkRequest {
 export interface UpdateBookmarkRequest {
   url?: string | undefined;
   title?: string | undefined;
-  folder?: string | undefined;
+  description?: string | null | undefined;
+  folderId?: string | null | undefined;
   tags?: string[] | undefined;
 }
 
-/**
- * 폴더 타입
- */
-export interface BookmarkFolder {
-  id: string;
-  name: string;
-}
-
 /**
  * BookmarkService 인터페이스 (Phase 4에서 구현)
  */
@@ -66,12 +87,17 @@ export interface IBookmarkService {
   createBookmark(bookmark: CreateBookmarkRequest): Promise<Bookmark>;
   deleteBookmark(id: string): Promise<void>;
   getAllBookmarks(): Promise<Bookmark[]>;
+  moveBookmark(id: string, folderId: string | null, index?: number): Promise<Bookmark>;
   getBookmarkFolders(): Promise<BookmarkFolder[]>;
-  addFolder(folderName: string): Promise<BookmarkFolder>;
-  deleteFolder(folderId: string): Promise<void>;
+  addFolder(folderName: string, parentId?: string | null): Promise<BookmarkFolder>;
+  deleteFolder(folderId: string): Promise<BookmarkFolderDeleteResult>;
   updateFolder(folderId: string, newName: string): Promise<BookmarkFolder>;
+  moveFolder(folderId: string, parentId: string | null, index?: number): Promise<BookmarkFolder>;
   searchBookmarks(query: string): Promise<Bookmark[]>;
   updateBookmark(id: string, updates: UpdateBookmarkRequest): Promise<Bookmark>;
+  getTags(): Promise<BookmarkTagCount[]>;
+  renameTag(from: string, to: string): Promise<number>;
+  mergeTags(names: string[], into: string): Promise<number>;
 }
 
 /**
@@ -98,17 +124,40 @@ export class BookmarkHandler extends BaseHandler {
       this.handleDeleteBookmark(id)
     );
 
+    // 북마크 수정
+    ipcMain.handle(IPC_CHANNELS.bookmarkUpdate, (_event, args: BookmarkUpdateArgs) =>
+      this.handleUpdateBookmark(args)
+    );
+
     // 모든 북마크 조회
     ipcMain.handle(IPC_CHANNELS.bookmarkGetAll, () => this.handleGetAllBookmarks());
 
+    // 북마크 이동 / 순서 변경
+    ipcMain.handle(IPC_CHANNELS.bookmarkMove, (_event, args: BookmarkMoveArgs) =>
+      this.handleMoveBookmark(args)
+    );
+
+    // 폴더 트리 조회
+    ipcMain.handle(IPC_CHANNELS.bookmarkGetFolders, () => this.handleGetBookmarkFolders());
+
     // 폴더 생성
-    ipcMain.handle(IPC_CHANNELS.bookmarkCreateFolder, (_event, folderName: string) =>
-      this.handleAddFolder(folderName)
+    ipcMain.handle(IPC_CHANNELS.bookmarkCreateFolder, (_event, args: BookmarkCreateFolderArgs) =>
+      this.handleAddFolder(args)
+    );
+
+    // 폴더 이름 변경
+    ipcMain.handle(IPC_CHANNELS.bookmarkUpdateFolder, (_event, args: BookmarkUpdateFolderArgs) =>
+      this.handleUpdateFolder(args)
     );
 
-    // 폴더 업데이트
-    ipcMain.handle(IPC_CHANNELS.bookmarkUpdateFolder, (_event, folderId: string, newName: string) =>
-      this.handleUpdateFolder(folderId, newName)
+    // 폴더 이동 / 순서 변경
+    ipcMain.handle(IPC_CHANNELS.bookmarkMoveFolder, (_event, args: BookmarkMoveFolderArgs) =>
+      this.handleMoveFolder(args)
+    );
+
+    // 폴더 삭제 (하위 포함)
+    ipcMain.handle(IPC_CHANNELS.bookmarkDeleteFolder, (_event, args: BookmarkDeleteFolderArgs) =>
+      this.handleDeleteFolder(args)
     );
 
     // 북마크 검색
@@ -116,6 +165,19 @@ export class BookmarkHandler extends BaseHandler {
       this.handleSearchBookmarks(query)
     );
 
+    // 태그 목록
+    ipcMain.handle(IPC_CHANNELS.bookmarkGetTags, () => this.handleGetTags());
+
+    // 태그 이름 변경
+    ipcMain.handle(IPC_CHANNELS.bookmarkRenameTag, (_event, args: BookmarkRenameTagArgs) =>
+      this.handleRenameTag(args)
+    );
+
+    // 태그 병합
+    ipcMain.handle(IPC_CHANNELS.bookmarkMergeTags, (_event, args: BookmarkMergeTagsArgs) =>
+      this.handleMergeTags(args)
+    );
+
     this.logger.info('BookmarkHandler: Handlers registered successfully');
   }
 
@@ -139,11 +201,6 @@ export class BookmarkHandler extends BaseHandler {
       return titleValidation;
     }
 
-    // 입력값 검증 3: 폴더명 검증 (선택사항)
-    if (bookmark.folder && !validateFolderName(bookmark.folder)) {
-      return { valid: false, error: '폴더명이 유효하지 않습니다' };
-    }
-
     return { valid: true };
   }
 
@@ -168,7 +225,7 @@ export class BookmarkHandler extends BaseHandler {
 
       const result = await this.bookmarkService.createBookmark({
         ...validated,
-        folder: validated.folder || undefined,
+        folderId: validated.folderId || undefined,
         tags: validated.tags || undefined,
       });
       return { success: true, data: result };
@@ -197,6 +254,39 @@ export class BookmarkHandler extends BaseHandler {
     }
   }
 
+  /**
+   * 북마크 수정 핸들러
+   */
+  private async handleUpdateBookmark(args: BookmarkUpdateArgs) {
+    try {
+      // 입력값 검증
+      const validated = BookmarkUpdateRequestSchema.parse(args);
+      if (validated.updates.title !== undefined) {
+        const titleValidation = validateTitleWithError(validated.updates.title, 500);
+        if (!titleValidation.valid) {
+          return { success: false, error: titleValidation.error };
+        }
+      }
+
+      this.logger.info('BookmarkHandler: Updating bookmark', {
+        module: 'BookmarkHandler',
+        metadata: { id: validated.id },
+      });
+
+      const { url, title, description, folderId, tags } = validated.updates;
+      const result = await this.bookmarkService.updateBookmark(validated.id, {
+        ...(url !== undefined && { url }),
+        ...(title !== undefined && { title }),
+        ...(description !== undefined && { description }),
+        ...(folderId !== undefined && { folderId }),
+        ...(tags !== undefined && { tags }),
+      });
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Updating bookmark');
+    }
+  }
+
   /**
    * 모든 북마크 조회 핸들러
    */
@@ -212,35 +302,63 @@ export class BookmarkHandler extends BaseHandler {
   }
 
   /**
-   * 폴더 목록 조회 핸들러
+   * 북마크 이동 핸들러
    */
-  // private async handleGetBookmarkFolders() {
-  //   try {
-  //     this.logger.info('BookmarkHandler: Getting bookmark folders');
-  //
-  //     const folders = await this.bookmarkService.getBookmarkFolders();
-  //     return { success: true, data: folders };
-  //   } catch (error) {
-  //     const err = error instanceof Error ? error : new Error(String(error));
-  //     this.logger.error('BookmarkHandler: Failed to get bookmark folders', err);
-  //     return { success: false, error: err.message };
-  //   }
-  // }
+  private async handleMoveBookmark(args: BookmarkMoveArgs) {
+    try {
+      // 입력값 검증
+      const validated = BookmarkMoveRequestSchema.parse(args);
+
+      this.logger.info('BookmarkHandler: Moving bookmark', {
+        module: 'BookmarkHandler',
+        metadata: { ...validated },
+      });
+
+      const result = await this.bookmarkService.moveBookmark(
+        validated.bookmarkId,
+        validated.folderId,
+        validated.index
+      );
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Moving bookmark');
+    }
+  }
+
+  /**
+   * 폴더 트리 조회 핸들러
+   */
+  private async handleGetBookmarkFolders() {
+    try {
+      this.logger.info('BookmarkHandler: Getting bookmark folders');
+
+      const folders = await this.bookmarkService.getBookmarkFolders();
+      return { success: true, data: folders };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Getting bookmark folders');
+    }
+  }
 
   /**
    * 폴더 추가 핸들러
    */
-  private async handleAddFolder(folderName: string) {
+  private async handleAddFolder(args: BookmarkCreateFolderArgs) {
     try {
       // 입력값 검증
-      const validated = BookmarkFolderRequestSchema.parse({ folderName });
+      const validated = BookmarkFolderCreateRequestSchema.parse(args);
+      if (!validateFolderName(validated.name)) {
+        return { success: false, error: '폴더명이 유효하지 않습니다' };
+      }
 
       this.logger.info('BookmarkHandler: Adding folder', {
         module: 'BookmarkHandler',
-        metadata: { folderName: validated.folderName },
+        metadata: { name: validated.name, parentId: validated.parentId },
       });
 
-      const result = await this.bookmarkService.addFolder(validated.folderName);
+      const result = await this.bookmarkService.addFolder(
+        validated.name,
+        validated.parentId ?? null
+      );
       return { success: true, data: result };
     } catch (error) {
       return this.formatErrorResponse(error, 'Adding folder');
@@ -248,43 +366,71 @@ export class BookmarkHandler extends BaseHandler {
   }
 
   /**
-   * 폴더 업데이트 핸들러
+   * 폴더 이름 변경 핸들러
    */
-  private async handleUpdateFolder(folderId: string, newName: string) {
+  private async handleUpdateFolder(args: BookmarkUpdateFolderArgs) {
     try {
       // 입력값 검증
-      const validatedId = BookmarkIdRequestSchema.parse({ id: folderId });
-      const validatedName = BookmarkFolderRequestSchema.parse({ folderName: newName });
+      const validated = BookmarkFolderUpdateRequestSchema.parse(args);
+      if (!validateFolderName(validated.name)) {
+        return { success: false, error: '폴더명이 유효하지 않습니다' };
+      }
 
       this.logger.info('BookmarkHandler: Updating folder', {
         module: 'BookmarkHandler',
-        metadata: { folderId: validatedId.id, newName: validatedName.folderName },
+        metadata: { folderId: validated.folderId, name: validated.name },
       });
 
-      const result = await this.bookmarkService.updateFolder(validatedId.id, validatedName.folderName);
+      const result = await this.bookmarkService.updateFolder(validated.folderId, validated.name);
       return { success: true, data: result };
     } catch (error) {
       return this.formatErrorResponse(error, 'Updating folder');
     }
   }
+
   /**
-   * 폴더 삭제 핸들러 (현재 사용 안 함)
+   * 폴더 이동 핸들러
    */
-  // private async handleDeleteFolder(folderId: string) {
-  //   try {
-  //     this.logger.info('BookmarkHandler: Deleting folder', {
-  //       module: 'BookmarkHandler',
-  //       metadata: { folderId },
-  //     });
-  //
-  //     await this.bookmarkService.deleteFolder(folderId);
-  //     return { success: true };
-  //   } catch (error) {
-  //     const err = error instanceof Error ? error : new Error(String(error));
-  //     this.logger.error('BookmarkHandler: Failed to delete folder', err);
-  //     return { success: false, error: err.message };
-  //   }
-  // }
+  private async handleMoveFolder(args: BookmarkMoveFolderArgs) {
+    try {
+      // 입력값 검증
+      const validated = BookmarkFolderMoveRequestSchema.parse(args);
+
+      this.logger.info('BookmarkHandler: Moving folder', {
+        module: 'BookmarkHandler',
+        metadata: { ...validated },
+      });
+
+      const result = await this.bookmarkService.moveFolder(
+        validated.folderId,
+        validated.parentId,
+        validated.index
+      );
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Moving folder');
+    }
+  }
+
+  /**
+   * 폴더 삭제 핸들러 (하위 폴더와 북마크 포함)
+   */
+  private async handleDeleteFolder(args: BookmarkDeleteFolderArgs) {
+    try {
+      // 입력값 검증
+      const validated = BookmarkFolderIdRequestSchema.parse(args);
+
+      this.logger.info('BookmarkHandler: Deleting folder', {
+        module: 'BookmarkHandler',
+        metadata: { folderId: validated.folderId },
+      });
+
+      const result = await this.bookmarkService.deleteFolder(validated.folderId);
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Deleting folder');
+    }
+  }
 
   /**
    * 북마크 검색 핸들러
@@ -306,16 +452,76 @@ export class BookmarkHandler extends BaseHandler {
     }
   }
 
+  /**
+   * 태그 목록 핸들러
+   */
+  private async handleGetTags() {
+    try {
+      const tags = await this.bookmarkService.getTags();
+      return { success: true, data: tags };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Getting tags');
+    }
+  }
+
+  /**
+   * 태그 이름 변경 핸들러
+   */
+  private async handleRenameTag(args: BookmarkRenameTagArgs) {
+    try {
+      // 입력값 검증
+      const validated = BookmarkTagRenameRequestSchema.parse(args);
+
+      this.logger.info('BookmarkHandler: Renaming tag', {
+        module: 'BookmarkHandler',
+        metadata: { ...validated },
+      });
+
+      const count = await this.bookmarkService.renameTag(validated.from, validated.to);
+      return { success: true, data: count };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Renaming tag');
+    }
+  }
+
+  /**
+   * 태그 병합 핸들러
+   */
+  private async handleMergeTags(args: BookmarkMergeTagsArgs) {
+    try {
+      // 입력값 검증
+      const validated = BookmarkTagMergeRequestSchema.parse(args);
+
+      this.logger.info('BookmarkHandler: Merging tags', {
+        module: 'BookmarkHandler',
+        metadata: { ...validated },
+      });
+
+      const count = await this.bookmarkService.mergeTags(validated.tags, validated.into);
+      return { success: true, data: count };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Merging tags');
+    }
+  }
+
   /**
    * 모든 핸들러 등록 해제
    */
   public unregisterHandlers(): void {
     ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkAdd);
     ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkRemove);
+    ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkUpdate);
     ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkGetAll);
+    ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkMove);
+    ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkGetFolders);
     ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkCreateFolder);
     ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkUpdateFolder);
+    ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkMoveFolder);
+    ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkDeleteFolder);
     ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkSearch);
+    ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkGetTags);
+    ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkRenameTag);
+    ipcMain.removeAllListeners(IPC_CHANNELS.bookmarkMergeTags);
 
     this.logger.info('BookmarkHandler: Handlers unregistered');
   }
@@ -0,0 +1,333 @@
+/**
+ * BrowserHandler - 브라우저 네비게이션 IPC 핸들러
+ *
+ * 책임: IPC 요청을 받아서 NavigationService로 라우팅
+ * - browser:navigateTo
+ * - browser:goBack / browser:goForward
+ * - browser:getNavigationState
+ * - browser:reload / browser:reloadIgnoreCache / browser:stop
+ * - browser:zoomIn / browser:zoomOut / browser:zoomReset
+ * - browser:findInPage
+ * - browser:print
+ * - browser:devTools
+ *
+ * SRP 원칙: IPC 요청 처리와 라우팅만 담당
+ * 비즈니스 로직은 NavigationService에 위임
+ */
+
+import { ipcMain, type IpcMainInvokeEvent } from 'electron';
+import { BaseHandler } from './BaseHandler';
+import { IPC_CHANNELS } from '../../shared/ipc/channels';
+import type {
+  BrowserNavigationState,
+  BrowserFindInPageResponse,
+  BrowserNavigateToArgs,
+  BrowserFindInPageArgs,
+  BrowserPrintArgs,
+  BrowserZoomInArgs,
+} from '../../shared/ipc/channel-types';
+import {
+  BrowserNavigateRequestSchema,
+  BrowserTabRequestSchema,
+  BrowserZoomRequestSchema,
+  BrowserFindInPageRequestSchema,
+  BrowserPrintRequestSchema,
+} from '../../shared/ipc/validators';
+import { RATE_LIMITS, createRateLimiter, type RateLimiter } from '../../shared/security/rateLimiting';
+import { validateUrl } from '../../shared/utils/validation';
+
+/**
+ * NavigationService 인터페이스
+ */
+export interface INavigationService {
+  navigateTo(url: string, target?: '_blank' | '_self', tabId?: string): Promise<BrowserNavigationState>;
+  goBack(tabId?: string): Promise<BrowserNavigationState>;
+  goForward(tabId?: string): Promise<BrowserNavigationState>;
+  getNavigationState(tabId?: string): Promise<BrowserNavigationState>;
+  reload(tabId?: string, ignoreCache?: boolean): Promise<boolean>;
+  stop(tabId?: string): Promise<boolean>;
+  zoom(direction: 'in' | 'out' | 'reset', tabId?: string, step?: number): Promise<number>;
+  findInPage(
+    query: string,
+    options?: { matchCase?: boolean | undefined; findNext?: boolean | undefined },
+    tabId?: string
+  ): Promise<BrowserFindInPageResponse>;
+  print(
+    options?: { silent?: boolean | undefined; printBackground?: boolean | undefined; landscape?: boolean | undefined },
+    tabId?: string
+  ): Promise<boolean>;
+  toggleDevTools(tabId?: string): Promise<boolean>;
+}
+
+interface TabArgs {
+  tabId?: string;
+}
+
+/**
+ * 브라우저 네비게이션 IPC 핸들러
+ */
+export class BrowserHandler extends BaseHandler {
+  private navigateLimiter: RateLimiter;
+
+  constructor(private navigationService: INavigationService) {
+    super('BrowserHandler');
+    this.navigateLimiter = createRateLimiter('BROWSER_NAVIGATE');
+  }
+
+  /**
+   * 모든 브라우저 IPC 핸들 등록
+   */
+  public registerHandlers(): void {
+    this.logOperation('Registering handlers');
+
+    // URL로 이동
+    ipcMain.handle(IPC_CHANNELS.browserNavigateTo, (event, args: BrowserNavigateToArgs) =>
+      this.handleNavigateTo(event, args)
+    );
+
+    // 뒤로/앞으로 가기
+    ipcMain.handle(IPC_CHANNELS.browserGoBack, (event, args?: TabArgs) =>
+      this.handleGoBack(event, args)
+    );
+    ipcMain.handle(IPC_CHANNELS.browserGoForward, (event, args?: TabArgs) =>
+      this.handleGoForward(event, args)
+    );
+
+    // 네비게이션 상태 조회
+    ipcMain.handle(IPC_CHANNELS.browserGetNavigationState, (_event, args?: TabArgs) =>
+      this.handleGetNavigationState(args)
+    );
+
+    // 새로고침 / 중지
+    ipcMain.handle(IPC_CHANNELS.browserReload, (event, args?: TabArgs) =>
+      this.handleReload(event, args, false)
+    );
+    ipcMain.handle(IPC_CHANNELS.browserReloadIgnoreCache, (event, args?: TabArgs) =>
+      this.handleReload(event, args, true)
+    );
+    ipcMain.handle(IPC_CHANNELS.browserStop, (_event, args?: TabArgs) => this.handleStop(args));
+
+    // 줌
+    ipcMain.handle(IPC_CHANNELS.browserZoomIn, (_event, args?: BrowserZoomInArgs) =>
+      this.handleZoom('in', args)
+    );
+    ipcMain.handle(IPC_CHANNELS.browserZoomOut, (_event, args?: BrowserZoomInArgs) =>
+      this.handleZoom('out', args)
+    );
+    ipcMain.handle(IPC_CHANNELS.browserZoomReset, (_event, args?: TabArgs) =>
+      this.handleZoom('reset', args)
+    );
+
+    // 페이지 내 검색
+    ipcMain.handle(IPC_CHANNELS.browserFindInPage, (_event, args: BrowserFindInPageArgs) =>
+      this.handleFindInPage(args)
+    );
+
+    // 인쇄
+    ipcMain.handle(IPC_CHANNELS.browserPrint, (_event, args?: BrowserPrintArgs) =>
+      this.handlePrint(args)
+    );
+
+    // 개발자 도구
+    ipcMain.handle(IPC_CHANNELS.browserDevTools, (_event, args?: TabArgs) =>
+      this.handleDevTools(args)
+    );
+
+    this.logOperation('Handlers registered successfully');
+  }
+
+  /**
+   * 네비게이션 rate limit 확인 (요청한 renderer 단위)
+   */
+  private isNavigationAllowed(event: IpcMainInvokeEvent): boolean {
+    const key = String(event.sender.id);
+    if (this.navigateLimiter.isAllowed(key)) {
+      return true;
+    }
+
+    this.logger.warn('BrowserHandler: Navigation rate limited', {
+      module: 'BrowserHandler',
+      metadata: { senderId: key, retryAfterMs: this.navigateLimiter.getRetryAfter(key) },
+    });
+    return false;
+  }
+
+  /**
+   * URL 이동 핸들러
+   */
+  private async handleNavigateTo(event: IpcMainInvokeEvent, args: BrowserNavigateToArgs) {
+    try {
+      if (!this.isNavigationAllowed(event)) {
+        return this.createErrorResponse(RATE_LIMITS.BROWSER_NAVIGATE.message);
+      }
+
+      // 입력값 검증
+      const validated = BrowserNavigateRequestSchema.parse(args ?? {});
+      const url = validateUrl(validated.url);
+
+      this.logger.info('BrowserHandler: Navigating', {
+        module: 'BrowserHandler',
+        metadata: { url, target: validated.target, tabId: validated.tabId },
+      });
+
+      const state = await this.navigationService.navigateTo(url, validated.target, validated.tabId);
+      return { success: true, data: state };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Navigating');
+    }
+  }
+
+  /**
+   * 뒤로 가기 핸들러
+   */
+  private async handleGoBack(event: IpcMainInvokeEvent, args?: TabArgs) {
+    try {
+      if (!this.isNavigationAllowed(event)) {
+        return this.createErrorResponse(RATE_LIMITS.BROWSER_NAVIGATE.message);
+      }
+
+      const validated = BrowserTabRequestSchema.parse(args ?? {});
+      const state = await this.navigationService.goBack(validated.tabId);
+      return { success: true, data: state };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Going back');
+    }
+  }
+
+  /**
+   * 앞으로 가기 핸들러
+   */
+  private async handleGoForward(event: IpcMainInvokeEvent, args?: TabArgs) {
+    try {
+      if (!this.isNavigationAllowed(event)) {
+        return this.createErrorResponse(RATE_LIMITS.BROWSER_NAVIGATE.message);
+      }
+
+      const validated = BrowserTabRequestSchema.parse(args ?? {});
+      const state = await this.navigationService.goForward(validated.tabId);
+      return { success: true, data: state };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Going forward');
+    }
+  }
+
+  /**
+   * 네비게이션 상태 조회 핸들러
+   */
+  private async handleGetNavigationState(args?: TabArgs) {
+    try {
+      const validated = BrowserTabRequestSchema.parse(args ?? {});
+      const state = await this.navigationService.getNavigationState(validated.tabId);
+      return { success: true, data: state };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Getting navigation state');
+    }
+  }
+
+  /**
+   * 새로고침 핸들러
+   */
+  private async handleReload(event: IpcMainInvokeEvent, args: TabArgs | undefined, ignoreCache: boolean) {
+    try {
+      if (!this.isNavigationAllowed(event)) {
+        return this.createErrorResponse(RATE_LIMITS.BROWSER_NAVIGATE.message);
+      }
+
+      const validated = BrowserTabRequestSchema.parse(args ?? {});
+      const result = await this.navigationService.reload(validated.tabId, ignoreCache);
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Reloading');
+    }
+  }
+
+  /**
+   * 로드 중지 핸들러
+   */
+  private async handleStop(args?: TabArgs) {
+    try {
+      const validated = BrowserTabRequestSchema.parse(args ?? {});
+      const result = await this.navigationService.stop(validated.tabId);
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Stopping');
+    }
+  }
+
+  /**
+   * 줌 핸들러
+   */
+  private async handleZoom(direction: 'in' | 'out' | 'reset', args?: BrowserZoomInArgs) {
+    try {
+      const validated = BrowserZoomRequestSchema.parse(args ?? {});
+      const factor = await this.navigationService.zoom(direction, validated.tabId, validated.level);
+      return { success: true, data: factor };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Zooming');
+    }
+  }
+
+  /**
+   * 페이지 내 검색 핸들러
+   */
+  private async handleFindInPage(args: BrowserFindInPageArgs) {
+    try {
+      const validated = BrowserFindInPageRequestSchema.parse(args ?? {});
+      const result = await this.navigationService.findInPage(
+        validated.query,
+        validated.options,
+        validated.tabId
+      );
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Finding in page');
+    }
+  }
+
+  /**
+   * 인쇄 핸들러
+   */
+  private async handlePrint(args?: BrowserPrintArgs) {
+    try {
+      const validated = BrowserPrintRequestSchema.parse(args ?? {});
+      const result = await this.navigationService.print(validated.options, validated.tabId);
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Printing');
+    }
+  }
+
+  /**
+   * 개발자 도구 핸들러
+   */
+  private async handleDevTools(args?: TabArgs) {
+    try {
+      const validated = BrowserTabRequestSchema.parse(args ?? {});
+      const opened = await this.navigationService.toggleDevTools(validated.tabId);
+      return { success: true, data: opened };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Toggling DevTools');
+    }
+  }
+
+  /**
+   * 모든 핸들러 등록 해제
+   */
+  public unregisterHandlers(): void {
+    ipcMain.removeHandler(IPC_CHANNELS.browserNavigateTo);
+    ipcMain.removeHandler(IPC_CHANNELS.browserGoBack);
+    ipcMain.removeHandler(IPC_CHANNELS.browserGoForward);
+    ipcMain.removeHandler(IPC_CHANNELS.browserGetNavigationState);
+    ipcMain.removeHandler(IPC_CHANNELS.browserReload);
+    ipcMain.removeHandler(IPC_CHANNELS.browserReloadIgnoreCache);
+    ipcMain.removeHandler(IPC_CHANNELS.browserStop);
+    ipcMain.removeHandler(IPC_CHANNELS.browserZoomIn);
+    ipcMain.removeHandler(IPC_CHANNELS.browserZoomOut);
+    ipcMain.removeHandler(IPC_CHANNELS.browserZoomReset);
+    ipcMain.removeHandler(IPC_CHANNELS.browserFindInPage);
+    ipcMain.removeHandler(IPC_CHANNELS.browserPrint);
+    ipcMain.removeHandler(IPC_CHANNELS.browserDevTools);
+
+    this.logger.info('BrowserHandler: Handlers unregistered');
+  }
+}
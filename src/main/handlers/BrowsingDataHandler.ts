@@ -0,0 +1,86 @@
+/**
+ * BrowsingDataHandler - 인터넷 사용 기록 삭제 IPC 핸들러
+ *
+ * 책임: IPC 요청을 받아서 BrowsingDataService로 라우팅
+ * - browsingData:clear
+ * - 진행 상황을 요청한 렌더러로 전송 (browsingData:progress)
+ *
+ * SRP 원칙: IPC 요청 처리와 라우팅만 담당
+ * 비즈니스 로직은 BrowsingDataService에 위임
+ */
+
+import { ipcMain, type IpcMainInvokeEvent } from 'electron';
+import { BaseHandler } from './BaseHandler';
+import { IPC_CHANNELS } from '../../shared/ipc/channels';
+import type { BrowsingDataClearArgs } from '../../shared/ipc/channel-types';
+import { BrowsingDataClearRequestSchema } from '../../shared/ipc/validators';
+import type {
+  BrowsingDataClearOptions,
+  BrowsingDataClearResult,
+  BrowsingDataProgress,
+} from '../../shared/types/domain';
+
+/**
+ * BrowsingDataService 인터페이스
+ */
+export interface IBrowsingDataService {
+  clear(
+    options: BrowsingDataClearOptions,
+    onProgress?: (progress: BrowsingDataProgress) => void
+  ): Promise<BrowsingDataClearResult>;
+}
+
+/**
+ * 인터넷 사용 기록 삭제 IPC 핸들러
+ */
+export class BrowsingDataHandler extends BaseHandler {
+  constructor(private browsingDataService: IBrowsingDataService) {
+    super('BrowsingDataHandler');
+  }
+
+  /**
+   * 모든 인터넷 사용 기록 IPC 핸들 등록
+   */
+  public registerHandlers(): void {
+    this.logOperation('Registering handlers');
+
+    // 기간/사이트 단위 삭제
+    ipcMain.handle(IPC_CHANNELS.browsingDataClear, (event, args: BrowsingDataClearArgs) =>
+      this.handleClear(event, args)
+    );
+
+    this.logOperation('Handlers registered successfully');
+  }
+
+  /**
+   * 인터넷 사용 기록 삭제 핸들러
+   */
+  private async handleClear(event: IpcMainInvokeEvent, args: BrowsingDataClearArgs) {
+    try {
+      const validated = BrowsingDataClearRequestSchema.parse(args);
+      const options: BrowsingDataClearOptions = {
+        timeRange: validated.timeRange,
+        dataTypes: validated.dataTypes,
+        ...(validated.site !== undefined ? { site: validated.site } : {}),
+      };
+
+      const result = await this.browsingDataService.clear(options, (progress) => {
+        if (!event.sender.isDestroyed()) {
+          event.sender.send(IPC_CHANNELS.browsingDataProgress, progress);
+        }
+      });
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Clearing browsing data');
+    }
+  }
+
+  /**
+   * 모든 핸들러 등록 해제
+   */
+  public unregisterHandlers(): void {
+    ipcMain.removeHandler(IPC_CHANNELS.browsingDataClear);
+
+    this.logger.info('BrowsingDataHandler: Handlers unregistered');
+  }
+}
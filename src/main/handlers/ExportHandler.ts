@@ -0,0 +1,108 @@
+/**
+ * ExportHandler - 내보내기 IPC 핸들러
+ *
+ * 책임: IPC 요청을 받아서 ExportService로 라우팅
+ * - bookmark:export
+ * - history:export
+ * - 저장 대화상자는 요청한 렌더러의 윈도우에 띄움
+ *
+ * SRP 원칙: IPC 요청 처리와 라우팅만 담당
+ * 비즈니스 로직은 ExportService에 위임
+ */
+
+import { BrowserWindow, ipcMain, type IpcMainInvokeEvent } from 'electron';
+import { BaseHandler } from './BaseHandler';
+import { IPC_CHANNELS } from '../../shared/ipc/channels';
+import type { BookmarkExportArgs, HistoryExportArgs } from '../../shared/ipc/channel-types';
+import {
+  BookmarkExportRequestSchema,
+  HistoryExportRequestSchema,
+} from '../../shared/ipc/validators';
+import type {
+  BookmarkExportFormat,
+  ExportResult,
+  HistoryExportOptions,
+} from '../../shared/types/domain';
+
+/**
+ * ExportService 인터페이스
+ */
+export interface IExportService {
+  exportBookmarks(
+    format: BookmarkExportFormat,
+    owner?: BrowserWindow | null
+  ): Promise<ExportResult>;
+  exportHistory(options: HistoryExportOptions, owner?: BrowserWindow | null): Promise<ExportResult>;
+}
+
+/**
+ * 내보내기 IPC 핸들러
+ */
+export class ExportHandler extends BaseHandler {
+  constructor(private exportService: IExportService) {
+    super('ExportHandler');
+  }
+
+  /**
+   * 모든 내보내기 IPC 핸들 등록
+   */
+  public registerHandlers(): void {
+    this.logOperation('Registering handlers');
+
+    // 북마크 내보내기 (Netscape HTML, JSON)
+    ipcMain.handle(IPC_CHANNELS.bookmarkExport, (event, args: BookmarkExportArgs) =>
+      this.handleExportBookmarks(event, args)
+    );
+
+    // 방문 기록 내보내기 (CSV, JSON)
+    ipcMain.handle(IPC_CHANNELS.historyExport, (event, args: HistoryExportArgs) =>
+      this.handleExportHistory(event, args)
+    );
+
+    this.logOperation('Handlers registered successfully');
+  }
+
+  /**
+   * 북마크 내보내기 핸들러
+   */
+  private async handleExportBookmarks(event: IpcMainInvokeEvent, args: BookmarkExportArgs) {
+    try {
+      const validated = BookmarkExportRequestSchema.parse(args);
+
+      const result = await this.exportService.exportBookmarks(
+        validated.format,
+        BrowserWindow.fromWebContents(event.sender)
+      );
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Exporting bookmarks');
+    }
+  }
+
+  /**
+   * 방문 기록 내보내기 핸들러
+   */
+  private async handleExportHistory(event: IpcMainInvokeEvent, args: HistoryExportArgs) {
+    try {
+      const validated = HistoryExportRequestSchema.parse(args);
+
+      const result = await this.exportService.exportHistory(
+        validated,
+        BrowserWindow.fromWebContents(event.sender)
+      );
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Exporting history');
+    }
+  }
+
+  /**
+   * 모든 핸들러 등록 해제
+   */
+  public unregisterHandlers(): void {
+    ipcMain.removeHandler(IPC_CHANNELS.bookmarkExport);
+    ipcMain.removeHandler(IPC_CHANNELS.historyExport);
+
+    this.logger.info('ExportHandler: Handlers unregistered');
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * FileHandler - 파일 열기/저장 IPC 핸들러
+ *
+ * 책임: IPC 요청을 받아서 FileService로 라우팅
+ * - file:open
+ * - file:save
+ * - file:openDialog (대화상자는 요청한 렌더러의 윈도우에 띄움)
+ * - file:saveDialog
+ *
+ * SRP 원칙: IPC 요청 처리와 라우팅만 담당
+ * 경로 허용 여부, rate limit, 파일 입출력은 FileService에 위임
+ */
+
+import { BrowserWindow, ipcMain, type IpcMainInvokeEvent } from 'electron';
+import { BaseHandler } from './BaseHandler';
+import { IPC_CHANNELS } from '../../shared/ipc/channels';
+import type {
+  FileOpenArgs,
+  FileOpenDialogArgs,
+  FileOpenDialogResponse,
+  FileOpenResponse,
+  FileSaveArgs,
+  FileSaveDialogArgs,
+  FileSaveDialogResponse,
+} from '../../shared/ipc/channel-types';
+import {
+  FileOpenDialogRequestSchema,
+  FileOpenRequestSchema,
+  FileSaveDialogRequestSchema,
+  FileSaveRequestSchema,
+} from '../../shared/ipc/validators';
+
+type FileEncoding = NonNullable<FileOpenArgs['encoding']>;
+
+/**
+ * FileService 인터페이스
+ */
+export interface IFileService {
+  open(senderId: number, filePath: string, encoding?: FileEncoding): Promise<FileOpenResponse>;
+  save(
+    senderId: number,
+    filePath: string,
+    content: string,
+    encoding?: FileEncoding
+  ): Promise<boolean>;
+  showOpenDialog(
+    senderId: number,
+    options: FileOpenDialogArgs,
+    owner?: BrowserWindow | null
+  ): Promise<FileOpenDialogResponse>;
+  showSaveDialog(
+    senderId: number,
+    options: FileSaveDialogArgs,
+    owner?: BrowserWindow | null
+  ): Promise<FileSaveDialogResponse>;
+}
+
+/**
+ * 파일 IPC 핸들러
+ */
+export class FileHandler extends BaseHandler {
+  constructor(private fileService: IFileService) {
+    super('FileHandler');
+  }
+
+  /**
+   * 모든 파일 IPC 핸들 등록
+   */
+  public registerHandlers(): void {
+    this.logOperation('Registering handlers');
+
+    // 파일 열기
+    ipcMain.handle(IPC_CHANNELS.fileOpen, (event, args: FileOpenArgs) =>
+      this.handleOpen(event, args)
+    );
+
+    // 파일 저장
+    ipcMain.handle(IPC_CHANNELS.fileSave, (event, args: FileSaveArgs) =>
+      this.handleSave(event, args)
+    );
+
+    // 파일 선택 대화상자
+    ipcMain.handle(IPC_CHANNELS.fileOpenDialog, (event, args?: FileOpenDialogArgs) =>
+      this.handleOpenDialog(event, args)
+    );
+
+    // 파일 저장 대화상자
+    ipcMain.handle(IPC_CHANNELS.fileSaveDialog, (event, args?: FileSaveDialogArgs) =>
+      this.handleSaveDialog(event, args)
+    );
+
+    this.logOperation('Handlers registered successfully');
+  }
+
+  /**
+   * 파일 열기 핸들러
+   */
+  private async handleOpen(event: IpcMainInvokeEvent, args: FileOpenArgs) {
+    try {
+      const validated = FileOpenRequestSchema.parse(args);
+
+      const file = await this.fileService.open(event.sender.id, validated.path, validated.encoding);
+      return { success: true, data: file };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Opening file');
+    }
+  }
+
+  /**
+   * 파일 저장 핸들러
+   */
+  private async handleSave(event: IpcMainInvokeEvent, args: FileSaveArgs) {
+    try {
+      const validated = FileSaveRequestSchema.parse(args);
+
+      const saved = await this.fileService.save(
+        event.sender.id,
+        validated.path,
+        validated.content,
+        validated.encoding
+      );
+      return { success: true, data: saved };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Saving file');
+    }
+  }
+
+  /**
+   * 파일 선택 대화상자 핸들러
+   */
+  private async handleOpenDialog(event: IpcMainInvokeEvent, args?: FileOpenDialogArgs) {
+    try {
+      const validated = FileOpenDialogRequestSchema.parse(args ?? {});
+
+      const result = await this.fileService.showOpenDialog(
+        event.sender.id,
+        {
+          ...(validated.defaultPath && { defaultPath: validated.defaultPath }),
+          ...(validated.filters && { filters: validated.filters }),
+          ...(validated.multiSelect !== undefined && { multiSelect: validated.multiSelect }),
+        },
+        BrowserWindow.fromWebContents(event.sender)
+      );
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Showing open dialog');
+    }
+  }
+
+  /**
+   * 파일 저장 대화상자 핸들러
+   */
+  private async handleSaveDialog(event: IpcMainInvokeEvent, args?: FileSaveDialogArgs) {
+    try {
+      const validated = FileSaveDialogRequestSchema.parse(args ?? {});
+
+      const result = await this.fileService.showSaveDialog(
+        event.sender.id,
+        {
+          ...(validated.defaultPath && { defaultPath: validated.defaultPath }),
+          ...(validated.filters && { filters: validated.filters }),
+        },
+        BrowserWindow.fromWebContents(event.sender)
+      );
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Showing save dialog');
+    }
+  }
+
+  /**
+   * 모든 핸들러 등록 해제
+   */
+  public unregisterHandlers(): void {
+    ipcMain.removeHandler(IPC_CHANNELS.fileOpen);
+    ipcMain.removeHandler(IPC_CHANNELS.fileSave);
+    ipcMain.removeHandler(IPC_CHANNELS.fileOpenDialog);
+    ipcMain.removeHandler(IPC_CHANNELS.fileSaveDialog);
+
+    this.logger.info('FileHandler: Handlers unregistered');
+  }
+}
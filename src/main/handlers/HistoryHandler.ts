@@ -8,7 +8,9 @@
  * - history:delete
  * - history:clear
  * - history:getByDateRange
- * - history:getFrequentSites
+ * - history:getFrequentSites (frecency순)
+ * - history:getJourneys (시간/주제로 묶은 여정)
+ * - history:getTimePerSite (사이트별 체류 시간)
  *
  * SRP 원칙: IPC 요청 처리와 라우팅만 담당
  * 비즈니스 로직은 HistoryService에 위임
@@ -16,12 +18,26 @@
 
 import { ipcMain } from 'electron';
 import { BaseHandler } from './BaseHandler';
-import type { HistoryEntry, FrequentSite } from '../../shared/types/domain';
+import type {
+  HistoryEntry,
+  HistorySearchResult,
+  FrequentSite,
+  HistoryJourney,
+  SiteTimeSpent,
+} from '../../shared/types/domain';
 import { IPC_CHANNELS } from '../../shared/ipc/channels';
+import type {
+  HistoryGetJourneysArgs,
+  HistoryGetTimePerSiteArgs,
+  HistorySearchArgs,
+} from '../../shared/ipc/channel-types';
 import {
   HistoryEntrySchema,
   HistorySearchRequestSchema,
   HistoryIdRequestSchema,
+  HistoryFrequentSitesRequestSchema,
+  HistoryJourneysRequestSchema,
+  HistoryTimePerSiteRequestSchema,
 } from '../../shared/ipc/validators';
 import { validateSearchQueryWithError } from './InputValidator';
 
@@ -30,12 +46,17 @@ import { validateSearchQueryWithError } from './InputValidator';
  */
 export interface IHistoryService {
   addEntry(entry: Omit<HistoryEntry, 'id'>): Promise<HistoryEntry>;
-  searchHistory(query: string, limit?: number): Promise<HistoryEntry[]>;
+  searchHistory(
+    query: string,
+    options?: { limit?: number | undefined; cursor?: string | undefined }
+  ): Promise<HistorySearchResult>;
   getAllHistory(limit?: number): Promise<HistoryEntry[]>;
   deleteEntry(id: string): Promise<void>;
   clearHistory(beforeTime?: number): Promise<void>;
   getByDateRange(start: number, end: number): Promise<HistoryEntry[]>;
   getFrequentSites(limit?: number): Promise<FrequentSite[]>;
+  getJourneys(limit?: number, offset?: number): Promise<HistoryJourney[]>;
+  getTimePerSite(startTime?: number, endTime?: number, limit?: number): Promise<SiteTimeSpent[]>;
 }
 
 /**
@@ -55,9 +76,13 @@ export class HistoryHandler extends BaseHandler {
     // 기록 추가
     ipcMain.handle(IPC_CHANNELS.historyAdd, (_event, entry: HistoryEntry) => this.handleAddEntry(entry));
 
-    // 기록 검색
-    ipcMain.handle(IPC_CHANNELS.historySearch, (_event, query: string, limit?: number) =>
-      this.handleSearchHistory(query, limit)
+    // 기록 검색 ({ query, limit, cursor } 또는 기존 (query, limit) 형식)
+    ipcMain.handle(
+      IPC_CHANNELS.historySearch,
+      (_event, args: HistorySearchArgs | string, limit?: number) =>
+        this.handleSearchHistory(
+          typeof args === 'string' ? { query: args, ...(limit !== undefined && { limit }) } : args
+        )
     );
 
     // 모든 기록 조회
@@ -78,10 +103,21 @@ export class HistoryHandler extends BaseHandler {
     //   this.handleGetByDateRange(start, end)
     // );
 
-    // 자주 방문한 사이트
-    // ipcMain.handle(IPC_CHANNELS.historyGetFrequentSites, (_event, limit?: number) =>
-    //   this.handleGetFrequentSites(limit)
-    // );
+    // 자주 방문한 사이트 (frecency순)
+    ipcMain.handle(IPC_CHANNELS.historyGetFrequentSites, (_event, limit?: number) =>
+      this.handleGetFrequentSites(limit)
+    );
+
+    // 여정 목록 (최신순)
+    ipcMain.handle(IPC_CHANNELS.historyGetJourneys, (_event, args?: HistoryGetJourneysArgs) =>
+      this.handleGetJourneys(args)
+    );
+
+    // 사이트별 체류 시간
+    ipcMain.handle(
+      IPC_CHANNELS.historyGetTimePerSite,
+      (_event, args?: HistoryGetTimePerSiteArgs) => this.handleGetTimePerSite(args)
+    );
 
     this.logger.info('HistoryHandler: Handlers registered successfully');
   }
@@ -132,23 +168,26 @@ export class HistoryHandler extends BaseHandler {
   /**
    * 기록 검색 핸들러
    */
-  private async handleSearchHistory(query: string, limit: number = 50) {
+  private async handleSearchHistory(args: HistorySearchArgs) {
     try {
       // 입력값 검증
-      const validation = this.validateSearchHistoryInput(query, limit);
+      const validation = this.validateSearchHistoryInput(args?.query, args?.limit);
       if (!validation.valid) {
         return { success: false, error: validation.error };
       }
 
       // Zod 검증
-      const validated = HistorySearchRequestSchema.parse({ query, limit });
+      const validated = HistorySearchRequestSchema.parse(args);
 
       this.logger.info('HistoryHandler: Searching history', {
         module: 'HistoryHandler',
-        metadata: { query: validated.query, limit: validated.limit },
+        metadata: { query: validated.query, limit: validated.limit, hasCursor: !!validated.cursor },
       });
 
-      const results = await this.historyService.searchHistory(validated.query, validated.limit);
+      const results = await this.historyService.searchHistory(validated.query, {
+        limit: validated.limit,
+        cursor: validated.cursor,
+      });
       return { success: true, data: results };
     } catch (error) {
       return this.formatErrorResponse(error, 'Searching history');
@@ -209,6 +248,49 @@ export class HistoryHandler extends BaseHandler {
     }
   }
 
+  /**
+   * 자주 방문한 사이트 핸들러
+   */
+  private async handleGetFrequentSites(limit?: number) {
+    try {
+      const validated = HistoryFrequentSitesRequestSchema.parse({ limit });
+      const sites = await this.historyService.getFrequentSites(validated.limit);
+      return { success: true, data: sites };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Getting frequent sites');
+    }
+  }
+
+  /**
+   * 여정 목록 핸들러
+   */
+  private async handleGetJourneys(args?: HistoryGetJourneysArgs) {
+    try {
+      const validated = HistoryJourneysRequestSchema.parse(args ?? {});
+      const journeys = await this.historyService.getJourneys(validated.limit, validated.offset);
+      return { success: true, data: journeys };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Getting journeys');
+    }
+  }
+
+  /**
+   * 사이트별 체류 시간 핸들러
+   */
+  private async handleGetTimePerSite(args?: HistoryGetTimePerSiteArgs) {
+    try {
+      const validated = HistoryTimePerSiteRequestSchema.parse(args ?? {});
+      const sites = await this.historyService.getTimePerSite(
+        validated.startTime,
+        validated.endTime,
+        validated.limit
+      );
+      return { success: true, data: sites };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Getting time per site');
+    }
+  }
+
   /**
    * 모든 핸들러 등록 해제
    */
@@ -218,6 +300,9 @@ export class HistoryHandler extends BaseHandler {
     ipcMain.removeAllListeners(IPC_CHANNELS.historyGetAll);
     ipcMain.removeAllListeners(IPC_CHANNELS.historyDelete);
     ipcMain.removeAllListeners(IPC_CHANNELS.historyClear);
+    ipcMain.removeAllListeners(IPC_CHANNELS.historyGetFrequentSites);
+    ipcMain.removeAllListeners(IPC_CHANNELS.historyGetJourneys);
+    ipcMain.removeAllListeners(IPC_CHANNELS.historyGetTimePerSite);
 
     this.logger.info('HistoryHandler: Handlers unregistered');
   }
@@ -0,0 +1,82 @@
+/**
+ * ImportHandler - 가져오기 IPC 핸들러
+ *
+ * 책임: IPC 요청을 받아서 ImportService로 라우팅
+ * - import:start
+ * - 진행 상황을 요청한 렌더러로 전송 (import:progress)
+ *
+ * SRP 원칙: IPC 요청 처리와 라우팅만 담당
+ * 비즈니스 로직은 ImportService에 위임
+ */
+
+import { BrowserWindow, ipcMain, type IpcMainInvokeEvent } from 'electron';
+import { BaseHandler } from './BaseHandler';
+import { IPC_CHANNELS } from '../../shared/ipc/channels';
+import type { ImportStartArgs } from '../../shared/ipc/channel-types';
+import { ImportRequestSchema } from '../../shared/ipc/validators';
+import type { ImportOptions, ImportProgress, ImportResult } from '../../shared/types/domain';
+
+/**
+ * ImportService 인터페이스
+ */
+export interface IImportService {
+  importData(
+    options: ImportOptions,
+    owner?: BrowserWindow | null,
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<ImportResult>;
+}
+
+/**
+ * 가져오기 IPC 핸들러
+ */
+export class ImportHandler extends BaseHandler {
+  constructor(private importService: IImportService) {
+    super('ImportHandler');
+  }
+
+  /**
+   * 모든 가져오기 IPC 핸들 등록
+   */
+  public registerHandlers(): void {
+    this.logOperation('Registering handlers');
+
+    // 다른 브라우저의 북마크/방문 기록 가져오기
+    ipcMain.handle(IPC_CHANNELS.importStart, (event, args: ImportStartArgs) =>
+      this.handleStart(event, args)
+    );
+
+    this.logOperation('Handlers registered successfully');
+  }
+
+  /**
+   * 가져오기 핸들러
+   */
+  private async handleStart(event: IpcMainInvokeEvent, args: ImportStartArgs) {
+    try {
+      const validated = ImportRequestSchema.parse(args);
+
+      const result = await this.importService.importData(
+        validated,
+        BrowserWindow.fromWebContents(event.sender),
+        (progress) => {
+          if (!event.sender.isDestroyed()) {
+            event.sender.send(IPC_CHANNELS.importProgress, progress);
+          }
+        }
+      );
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Importing browser data');
+    }
+  }
+
+  /**
+   * 모든 핸들러 등록 해제
+   */
+  public unregisterHandlers(): void {
+    ipcMain.removeHandler(IPC_CHANNELS.importStart);
+
+    this.logger.info('ImportHandler: Handlers unregistered');
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * SessionHandler - 세션 복원 IPC 핸들러
+ *
+ * 책임: IPC 요청을 받아서 SessionService로 라우팅
+ * - session:getRecoveryInfo
+ * - session:restore
+ * - session:discard
+ *
+ * SRP 원칙: IPC 요청 처리와 라우팅만 담당
+ * 세션 스냅샷/복원 로직은 SessionService에 위임
+ */
+
+import { ipcMain } from 'electron';
+import { BaseHandler } from './BaseHandler';
+import { IPC_CHANNELS } from '../../shared/ipc/channels';
+import type { SessionRecoveryInfo } from '../../shared/ipc/channel-types';
+
+/**
+ * SessionService 인터페이스
+ */
+export interface ISessionService {
+  getRecoveryInfo(): Promise<SessionRecoveryInfo>;
+  restoreLastSession(): Promise<number>;
+  discardLastSession(): Promise<boolean>;
+}
+
+/**
+ * 세션 복원 IPC 핸들러
+ */
+export class SessionHandler extends BaseHandler {
+  constructor(private sessionService: ISessionService) {
+    super('SessionHandler');
+  }
+
+  /**
+   * 모든 세션 IPC 핸들 등록
+   */
+  public registerHandlers(): void {
+    this.logOperation('Registering handlers');
+
+    // 복원 가능한 세션 정보 조회
+    ipcMain.handle(IPC_CHANNELS.sessionGetRecoveryInfo, () => this.handleGetRecoveryInfo());
+
+    // 마지막 세션 복원
+    ipcMain.handle(IPC_CHANNELS.sessionRestore, () => this.handleRestore());
+
+    // 마지막 세션 폐기
+    ipcMain.handle(IPC_CHANNELS.sessionDiscard, () => this.handleDiscard());
+
+    this.logOperation('Handlers registered successfully');
+  }
+
+  /**
+   * 복원 정보 조회 핸들러
+   */
+  private async handleGetRecoveryInfo() {
+    try {
+      const info = await this.sessionService.getRecoveryInfo();
+      return { success: true, data: info };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Getting recovery info');
+    }
+  }
+
+  /**
+   * 세션 복원 핸들러
+   */
+  private async handleRestore() {
+    try {
+      const restoredTabs = await this.sessionService.restoreLastSession();
+      return { success: true, data: { restoredTabs } };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Restoring session');
+    }
+  }
+
+  /**
+   * 세션 폐기 핸들러
+   */
+  private async handleDiscard() {
+    try {
+      const result = await this.sessionService.discardLastSession();
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Discarding session');
+    }
+  }
+
+  /**
+   * 모든 핸들러 등록 해제
+   */
+  public unregisterHandlers(): void {
+    ipcMain.removeHandler(IPC_CHANNELS.sessionGetRecoveryInfo);
+    ipcMain.removeHandler(IPC_CHANNELS.sessionRestore);
+    ipcMain.removeHandler(IPC_CHANNELS.sessionDiscard);
+
+    this.logger.info('SessionHandler: Handlers unregistered');
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * SettingsHandler - 설정 IPC 핸들러
+ *
+ * 책임: IPC 요청을 받아서 SettingsService로 라우팅
+ * - settings:get
+ * - settings:getAll
+ * - settings:set
+ * - settings:reset
+ * - settings:getTheme
+ * - settings:setTheme
+ * - settings:changed 이벤트를 모든 윈도우에 전달
+ *
+ * SRP 원칙: IPC 요청 처리와 라우팅만 담당
+ * 검증과 저장은 SettingsService에 위임
+ */
+
+import { BrowserWindow, ipcMain } from 'electron';
+import { BaseHandler } from './BaseHandler';
+import { EventBus } from '../core/EventBus';
+import { IPC_CHANNELS } from '../../shared/ipc/channels';
+import type {
+  SettingsGetArgs,
+  SettingsResetArgs,
+  SettingsSetArgs,
+  SettingsSetThemeArgs,
+} from '../../shared/ipc/channel-types';
+import {
+  SettingsKeyRequestSchema,
+  SettingsResetRequestSchema,
+  SettingsSetRequestSchema,
+  SettingsThemeRequestSchema,
+} from '../../shared/ipc/validators';
+import { ValidationError } from '../../shared/errors';
+import type { AppSettings, SettingKey, SettingsChange } from '../../shared/types/domain';
+
+/**
+ * SettingsService 인터페이스
+ */
+export interface ISettingsService {
+  getAll(): AppSettings;
+  get<K extends SettingKey>(key: K): AppSettings[K];
+  set(key: string, value: unknown): Promise<AppSettings>;
+  reset(keys?: string[]): Promise<AppSettings>;
+}
+
+/**
+ * 설정 IPC 핸들러
+ */
+export class SettingsHandler extends BaseHandler {
+  private unsubscribeChanged: (() => void) | null = null;
+
+  constructor(private settingsService: ISettingsService) {
+    super('SettingsHandler');
+  }
+
+  /**
+   * 모든 설정 IPC 핸들 등록
+   */
+  public registerHandlers(): void {
+    this.logOperation('Registering handlers');
+
+    // 특정 설정값 조회
+    ipcMain.handle(IPC_CHANNELS.settingsGet, (_event, args: SettingsGetArgs) =>
+      this.handleGet(args)
+    );
+
+    // 모든 설정값 조회
+    ipcMain.handle(IPC_CHANNELS.settingsGetAll, () => this.handleGetAll());
+
+    // 설정값 저장
+    ipcMain.handle(IPC_CHANNELS.settingsSet, (_event, args: SettingsSetArgs) =>
+      this.handleSet(args)
+    );
+
+    // 설정 초기화
+    ipcMain.handle(IPC_CHANNELS.settingsReset, (_event, args?: SettingsResetArgs) =>
+      this.handleReset(args)
+    );
+
+    // 테마 조회/설정
+    ipcMain.handle(IPC_CHANNELS.settingsGetTheme, () => this.handleGetTheme());
+    ipcMain.handle(IPC_CHANNELS.settingsSetTheme, (_event, args: SettingsSetThemeArgs) =>
+      this.handleSetTheme(args)
+    );
+
+    // 설정 변경 → 모든 윈도우에 전달
+    this.unsubscribeChanged = EventBus.getInstance().on(
+      'settings:changed',
+      (change: SettingsChange) => this.broadcastChange(change)
+    );
+
+    this.logOperation('Handlers registered successfully');
+  }
+
+  /**
+   * 특정 설정값 조회 핸들러
+   */
+  private async handleGet(args: SettingsGetArgs) {
+    try {
+      const validated = SettingsKeyRequestSchema.parse(args);
+      const settings = this.settingsService.getAll();
+      if (!Object.prototype.hasOwnProperty.call(settings, validated.key)) {
+        throw new ValidationError(`알 수 없는 설정입니다: ${validated.key}`, {
+          key: validated.key,
+        });
+      }
+
+      const key = validated.key as SettingKey;
+      return { success: true, data: { key, value: settings[key] } };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Getting setting');
+    }
+  }
+
+  /**
+   * 모든 설정값 조회 핸들러
+   */
+  private async handleGetAll() {
+    try {
+      return { success: true, data: this.settingsService.getAll() };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Getting all settings');
+    }
+  }
+
+  /**
+   * 설정값 저장 핸들러
+   */
+  private async handleSet(args: SettingsSetArgs) {
+    try {
+      const validated = SettingsSetRequestSchema.parse(args);
+
+      this.logger.info('SettingsHandler: Setting value', {
+        module: 'SettingsHandler',
+        metadata: { key: validated.key },
+      });
+
+      const settings = await this.settingsService.set(validated.key, validated.value);
+      return { success: true, data: settings };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Setting value');
+    }
+  }
+
+  /**
+   * 설정 초기화 핸들러
+   */
+  private async handleReset(args?: SettingsResetArgs) {
+    try {
+      const validated = SettingsResetRequestSchema.parse(args);
+
+      this.logger.info('SettingsHandler: Resetting settings', {
+        module: 'SettingsHandler',
+        metadata: { keys: validated?.keys ?? 'all' },
+      });
+
+      const settings = await this.settingsService.reset(validated?.keys);
+      return { success: true, data: settings };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Resetting settings');
+    }
+  }
+
+  /**
+   * 테마 조회 핸들러
+   */
+  private async handleGetTheme() {
+    try {
+      return { success: true, data: { theme: this.settingsService.get('theme') } };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Getting theme');
+    }
+  }
+
+  /**
+   * 테마 설정 핸들러
+   */
+  private async handleSetTheme(args: SettingsSetThemeArgs) {
+    try {
+      const validated = SettingsThemeRequestSchema.parse(args);
+
+      const settings = await this.settingsService.set('theme', validated.theme);
+      return { success: true, data: { theme: settings.theme } };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Setting theme');
+    }
+  }
+
+  /**
+   * 설정 변경을 모든 윈도우에 전달
+   *
+   * @private
+   */
+  private broadcastChange(change: SettingsChange): void {
+    for (const window of BrowserWindow.getAllWindows()) {
+      if (!window.isDestroyed()) {
+        window.webContents.send(IPC_CHANNELS.settingsChanged, change);
+      }
+    }
+  }
+
+  /**
+   * 모든 핸들러 등록 해제
+   */
+  public unregisterHandlers(): void {
+    ipcMain.removeHandler(IPC_CHANNELS.settingsGet);
+    ipcMain.removeHandler(IPC_CHANNELS.settingsGetAll);
+    ipcMain.removeHandler(IPC_CHANNELS.settingsSet);
+    ipcMain.removeHandler(IPC_CHANNELS.settingsReset);
+    ipcMain.removeHandler(IPC_CHANNELS.settingsGetTheme);
+    ipcMain.removeHandler(IPC_CHANNELS.settingsSetTheme);
+    this.unsubscribeChanged?.();
+    this.unsubscribeChanged = null;
+
+    this.logger.info('SettingsHandler: Handlers unregistered');
+  }
+}
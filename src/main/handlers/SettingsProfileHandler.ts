@@ -0,0 +1,207 @@
+/**
+ * SettingsProfileHandler - 설정 프로필 / 내보내기, 가져오기 IPC 핸들러
+ *
+ * 책임: IPC 요청을 받아서 SettingsProfileService로 라우팅
+ * - settings:profileList
+ * - settings:profileCreate
+ * - settings:profileRename
+ * - settings:profileDelete
+ * - settings:profileSwitch
+ * - settings:export (저장 대화상자는 요청한 렌더러의 윈도우에 띄움)
+ * - settings:import (열기 대화상자도 요청한 렌더러의 윈도우에 띄움)
+ *
+ * SRP 원칙: IPC 요청 처리와 라우팅만 담당
+ * 프로필 전환과 묶음 입출력은 SettingsProfileService에 위임
+ */
+
+import { BrowserWindow, ipcMain, type IpcMainInvokeEvent } from 'electron';
+import { BaseHandler } from './BaseHandler';
+import { IPC_CHANNELS } from '../../shared/ipc/channels';
+import type {
+  SettingsProfileCreateArgs,
+  SettingsProfileDeleteArgs,
+  SettingsProfileRenameArgs,
+  SettingsProfileSwitchArgs,
+} from '../../shared/ipc/channel-types';
+import {
+  SettingsProfileCreateRequestSchema,
+  SettingsProfileIdRequestSchema,
+  SettingsProfileRenameRequestSchema,
+} from '../../shared/ipc/validators';
+import type {
+  AppSettings,
+  ExportResult,
+  SettingsImportResult,
+  SettingsProfile,
+} from '../../shared/types/domain';
+
+/**
+ * SettingsProfileService 인터페이스
+ */
+export interface ISettingsProfileService {
+  list(): Promise<SettingsProfile[]>;
+  create(name: string): Promise<SettingsProfile>;
+  rename(id: string, name: string): Promise<SettingsProfile>;
+  delete(id: string): Promise<boolean>;
+  switchTo(id: string): Promise<AppSettings>;
+  exportBundle(owner?: BrowserWindow | null): Promise<ExportResult>;
+  importBundle(owner?: BrowserWindow | null): Promise<SettingsImportResult>;
+}
+
+/**
+ * 설정 프로필 IPC 핸들러
+ */
+export class SettingsProfileHandler extends BaseHandler {
+  constructor(private profileService: ISettingsProfileService) {
+    super('SettingsProfileHandler');
+  }
+
+  /**
+   * 모든 설정 프로필 IPC 핸들 등록
+   */
+  public registerHandlers(): void {
+    this.logOperation('Registering handlers');
+
+    // 프로필 목록
+    ipcMain.handle(IPC_CHANNELS.settingsProfileList, () => this.handleList());
+
+    // 현재 설정으로 프로필 생성
+    ipcMain.handle(IPC_CHANNELS.settingsProfileCreate, (_event, args: SettingsProfileCreateArgs) =>
+      this.handleCreate(args)
+    );
+
+    // 프로필 이름 변경
+    ipcMain.handle(IPC_CHANNELS.settingsProfileRename, (_event, args: SettingsProfileRenameArgs) =>
+      this.handleRename(args)
+    );
+
+    // 프로필 삭제
+    ipcMain.handle(IPC_CHANNELS.settingsProfileDelete, (_event, args: SettingsProfileDeleteArgs) =>
+      this.handleDelete(args)
+    );
+
+    // 프로필 전환
+    ipcMain.handle(IPC_CHANNELS.settingsProfileSwitch, (_event, args: SettingsProfileSwitchArgs) =>
+      this.handleSwitch(args)
+    );
+
+    // 설정 묶음 내보내기
+    ipcMain.handle(IPC_CHANNELS.settingsExport, (event) => this.handleExport(event));
+
+    // 설정 묶음 가져오기
+    ipcMain.handle(IPC_CHANNELS.settingsImport, (event) => this.handleImport(event));
+
+    this.logOperation('Handlers registered successfully');
+  }
+
+  /**
+   * 프로필 목록 핸들러
+   */
+  private async handleList() {
+    try {
+      const profiles = await this.profileService.list();
+      return { success: true, data: profiles };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Listing settings profiles');
+    }
+  }
+
+  /**
+   * 프로필 생성 핸들러
+   */
+  private async handleCreate(args: SettingsProfileCreateArgs) {
+    try {
+      const validated = SettingsProfileCreateRequestSchema.parse(args);
+
+      const profile = await this.profileService.create(validated.name);
+      return { success: true, data: profile };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Creating settings profile');
+    }
+  }
+
+  /**
+   * 프로필 이름 변경 핸들러
+   */
+  private async handleRename(args: SettingsProfileRenameArgs) {
+    try {
+      const validated = SettingsProfileRenameRequestSchema.parse(args);
+
+      const profile = await this.profileService.rename(validated.id, validated.name);
+      return { success: true, data: profile };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Renaming settings profile');
+    }
+  }
+
+  /**
+   * 프로필 삭제 핸들러
+   */
+  private async handleDelete(args: SettingsProfileDeleteArgs) {
+    try {
+      const validated = SettingsProfileIdRequestSchema.parse(args);
+
+      const deleted = await this.profileService.delete(validated.id);
+      return { success: true, data: deleted };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Deleting settings profile');
+    }
+  }
+
+  /**
+   * 프로필 전환 핸들러
+   */
+  private async handleSwitch(args: SettingsProfileSwitchArgs) {
+    try {
+      const validated = SettingsProfileIdRequestSchema.parse(args);
+
+      const settings = await this.profileService.switchTo(validated.id);
+      return { success: true, data: settings };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Switching settings profile');
+    }
+  }
+
+  /**
+   * 설정 묶음 내보내기 핸들러
+   */
+  private async handleExport(event: IpcMainInvokeEvent) {
+    try {
+      const result = await this.profileService.exportBundle(
+        BrowserWindow.fromWebContents(event.sender)
+      );
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Exporting settings');
+    }
+  }
+
+  /**
+   * 설정 묶음 가져오기 핸들러
+   */
+  private async handleImport(event: IpcMainInvokeEvent) {
+    try {
+      const result = await this.profileService.importBundle(
+        BrowserWindow.fromWebContents(event.sender)
+      );
+      return { success: true, data: result };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Importing settings');
+    }
+  }
+
+  /**
+   * 모든 핸들러 등록 해제
+   */
+  public unregisterHandlers(): void {
+    ipcMain.removeHandler(IPC_CHANNELS.settingsProfileList);
+    ipcMain.removeHandler(IPC_CHANNELS.settingsProfileCreate);
+    ipcMain.removeHandler(IPC_CHANNELS.settingsProfileRename);
+    ipcMain.removeHandler(IPC_CHANNELS.settingsProfileDelete);
+    ipcMain.removeHandler(IPC_CHANNELS.settingsProfileSwitch);
+    ipcMain.removeHandler(IPC_CHANNELS.settingsExport);
+    ipcMain.removeHandler(IPC_CHANNELS.settingsImport);
+
+    this.logger.info('SettingsProfileHandler: Handlers unregistered');
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * SiteSettingsHandler - 사이트별 설정 IPC 핸들러
+ *
+ * 책임: IPC 요청을 받아서 SiteSettingsService로 라우팅
+ * - site:list
+ * - site:revoke
+ *
+ * SRP 원칙: IPC 요청 처리와 라우팅만 담당
+ * 권한 결정과 저장은 SiteSettingsService에 위임
+ */
+
+import { ipcMain } from 'electron';
+import { BaseHandler } from './BaseHandler';
+import { IPC_CHANNELS } from '../../shared/ipc/channels';
+import type { SiteRevokeArgs } from '../../shared/ipc/channel-types';
+import { SiteRevokeRequestSchema } from '../../shared/ipc/validators';
+import type { SiteSettingKey, SiteSettings } from '../../shared/types/domain';
+
+/**
+ * SiteSettingsService 인터페이스
+ */
+export interface ISiteSettingsService {
+  list(): SiteSettings[];
+  revoke(url: string, keys?: readonly SiteSettingKey[]): Promise<boolean>;
+}
+
+/**
+ * 사이트별 설정 IPC 핸들러
+ */
+export class SiteSettingsHandler extends BaseHandler {
+  constructor(private siteSettingsService: ISiteSettingsService) {
+    super('SiteSettingsHandler');
+  }
+
+  /**
+   * 모든 사이트별 설정 IPC 핸들 등록
+   */
+  public registerHandlers(): void {
+    this.logOperation('Registering handlers');
+
+    // 기억한 사이트별 권한/줌 목록
+    ipcMain.handle(IPC_CHANNELS.siteList, () => this.handleList());
+
+    // 사이트별 권한/줌 해제
+    ipcMain.handle(IPC_CHANNELS.siteRevoke, (_event, args: SiteRevokeArgs) =>
+      this.handleRevoke(args)
+    );
+
+    this.logOperation('Handlers registered successfully');
+  }
+
+  /**
+   * 사이트별 설정 목록 핸들러
+   */
+  private async handleList() {
+    try {
+      return { success: true, data: this.siteSettingsService.list() };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Listing site settings');
+    }
+  }
+
+  /**
+   * 사이트별 설정 해제 핸들러
+   */
+  private async handleRevoke(args: SiteRevokeArgs) {
+    try {
+      const validated = SiteRevokeRequestSchema.parse(args);
+
+      this.logger.info('SiteSettingsHandler: Revoking site settings', {
+        module: 'SiteSettingsHandler',
+        metadata: { origin: validated.origin, keys: validated.keys ?? 'all' },
+      });
+
+      const revoked = await this.siteSettingsService.revoke(validated.origin, validated.keys);
+      return { success: true, data: revoked };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Revoking site settings');
+    }
+  }
+
+  /**
+   * 모든 핸들러 등록 해제
+   */
+  public unregisterHandlers(): void {
+    ipcMain.removeHandler(IPC_CHANNELS.siteList);
+    ipcMain.removeHandler(IPC_CHANNELS.siteRevoke);
+
+    this.logger.info('SiteSettingsHandler: Handlers unregistered');
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * TabGroupHandler - 탭 그룹 IPC 핸들러
+ *
+ * 책임: IPC 요청을 받아서 TabGroupService로 라우팅
+ * - tabGroup:create
+ * - tabGroup:rename / tabGroup:setColor / tabGroup:setCollapsed
+ * - tabGroup:ungroup
+ * - tabGroup:move
+ * - tabGroup:getAll
+ *
+ * SRP 원칙: IPC 요청 처리와 라우팅만 담당
+ * 비즈니스 로직은 TabGroupService에 위임
+ */
+
+import { ipcMain } from 'electron';
+import { BaseHandler } from './BaseHandler';
+import { IPC_CHANNELS } from '../../shared/ipc/channels';
+import type {
+  TabGroupCreateArgs,
+  TabGroupRenameArgs,
+  TabGroupSetColorArgs,
+  TabGroupSetCollapsedArgs,
+  TabGroupUngroupArgs,
+  TabGroupMoveArgs,
+} from '../../shared/ipc/channel-types';
+import {
+  TabGroupCreateRequestSchema,
+  TabGroupIdRequestSchema,
+  TabGroupRenameRequestSchema,
+  TabGroupSetColorRequestSchema,
+  TabGroupSetCollapsedRequestSchema,
+  TabGroupMoveRequestSchema,
+} from '../../shared/ipc/validators';
+import type { TabGroup, TabGroupColor } from '../../shared/types/domain';
+
+/**
+ * TabGroupService 인터페이스
+ */
+export interface ITabGroupService {
+  getAllGroups(): Promise<TabGroup[]>;
+  createGroup(
+    tabIds: string[],
+    options?: { name?: string | undefined; color?: TabGroupColor | undefined; collapsed?: boolean | undefined }
+  ): Promise<TabGroup>;
+  renameGroup(groupId: string, name: string): Promise<TabGroup>;
+  setGroupColor(groupId: string, color: TabGroupColor): Promise<TabGroup>;
+  setGroupCollapsed(groupId: string, collapsed: boolean): Promise<TabGroup>;
+  ungroup(groupId: string): Promise<string[]>;
+  moveGroup(groupId: string, index: number, windowId?: string): Promise<TabGroup>;
+}
+
+/**
+ * 탭 그룹 IPC 핸들러
+ */
+export class TabGroupHandler extends BaseHandler {
+  constructor(private tabGroupService: ITabGroupService) {
+    super('TabGroupHandler');
+  }
+
+  /**
+   * 모든 탭 그룹 IPC 핸들 등록
+   */
+  public registerHandlers(): void {
+    this.logOperation('Registering handlers');
+
+    // 그룹 생성
+    ipcMain.handle(IPC_CHANNELS.tabGroupCreate, (_event, args: TabGroupCreateArgs) =>
+      this.handleCreate(args)
+    );
+
+    // 이름/색상/접힘 상태 변경
+    ipcMain.handle(IPC_CHANNELS.tabGroupRename, (_event, args: TabGroupRenameArgs) =>
+      this.handleRename(args)
+    );
+    ipcMain.handle(IPC_CHANNELS.tabGroupSetColor, (_event, args: TabGroupSetColorArgs) =>
+      this.handleSetColor(args)
+    );
+    ipcMain.handle(IPC_CHANNELS.tabGroupSetCollapsed, (_event, args: TabGroupSetCollapsedArgs) =>
+      this.handleSetCollapsed(args)
+    );
+
+    // 그룹 해제
+    ipcMain.handle(IPC_CHANNELS.tabGroupUngroup, (_event, args: TabGroupUngroupArgs) =>
+      this.handleUngroup(args)
+    );
+
+    // 그룹 이동
+    ipcMain.handle(IPC_CHANNELS.tabGroupMove, (_event, args: TabGroupMoveArgs) =>
+      this.handleMove(args)
+    );
+
+    // 모든 그룹 조회
+    ipcMain.handle(IPC_CHANNELS.tabGroupGetAll, () => this.handleGetAll());
+
+    this.logOperation('Handlers registered successfully');
+  }
+
+  /**
+   * 그룹 생성 핸들러
+   */
+  private async handleCreate(args: TabGroupCreateArgs) {
+    try {
+      const { tabIds, ...options } = TabGroupCreateRequestSchema.parse(args);
+      const group = await this.tabGroupService.createGroup(tabIds, options);
+      return { success: true, data: group };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Creating tab group');
+    }
+  }
+
+  /**
+   * 이름 변경 핸들러
+   */
+  private async handleRename(args: TabGroupRenameArgs) {
+    try {
+      const validated = TabGroupRenameRequestSchema.parse(args);
+      const group = await this.tabGroupService.renameGroup(validated.groupId, validated.name);
+      return { success: true, data: group };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Renaming tab group');
+    }
+  }
+
+  /**
+   * 색상 변경 핸들러
+   */
+  private async handleSetColor(args: TabGroupSetColorArgs) {
+    try {
+      const validated = TabGroupSetColorRequestSchema.parse(args);
+      const group = await this.tabGroupService.setGroupColor(validated.groupId, validated.color);
+      return { success: true, data: group };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Setting tab group color');
+    }
+  }
+
+  /**
+   * 접기/펼치기 핸들러
+   */
+  private async handleSetCollapsed(args: TabGroupSetCollapsedArgs) {
+    try {
+      const validated = TabGroupSetCollapsedRequestSchema.parse(args);
+      const group = await this.tabGroupService.setGroupCollapsed(
+        validated.groupId,
+        validated.collapsed
+      );
+      return { success: true, data: group };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Setting tab group collapsed');
+    }
+  }
+
+  /**
+   * 그룹 해제 핸들러
+   */
+  private async handleUngroup(args: TabGroupUngroupArgs) {
+    try {
+      const validated = TabGroupIdRequestSchema.parse(args);
+      const tabIds = await this.tabGroupService.ungroup(validated.groupId);
+      return { success: true, data: { tabIds } };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Ungrouping tab group');
+    }
+  }
+
+  /**
+   * 그룹 이동 핸들러
+   */
+  private async handleMove(args: TabGroupMoveArgs) {
+    try {
+      const validated = TabGroupMoveRequestSchema.parse(args);
+      const group = await this.tabGroupService.moveGroup(
+        validated.groupId,
+        validated.index,
+        validated.windowId
+      );
+      return { success: true, data: group };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Moving tab group');
+    }
+  }
+
+  /**
+   * 모든 그룹 조회 핸들러
+   */
+  private async handleGetAll() {
+    try {
+      const groups = await this.tabGroupService.getAllGroups();
+      return { success: true, data: groups };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Getting tab groups');
+    }
+  }
+
+  /**
+   * 모든 핸들러 등록 해제
+   */
+  public unregisterHandlers(): void {
+    ipcMain.removeHandler(IPC_CHANNELS.tabGroupCreate);
+    ipcMain.removeHandler(IPC_CHANNELS.tabGroupRename);
+    ipcMain.removeHandler(IPC_CHANNELS.tabGroupSetColor);
+    ipcMain.removeHandler(IPC_CHANNELS.tabGroupSetCollapsed);
+    ipcMain.removeHandler(IPC_CHANNELS.tabGroupUngroup);
+    ipcMain.removeHandler(IPC_CHANNELS.tabGroupMove);
+    ipcMain.removeHandler(IPC_CHANNELS.tabGroupGetAll);
+
+    this.logger.info('TabGroupHandler: Handlers unregistered');
+  }
+}
@@ -10,6 +10,9 @@
  * - tab:duplicate
  * - tab:mute
  * - tab:pin
+ * - tab:move
+ * - tab:reopenClosed
+ * - tab:getRecentlyClosed
  *
  * SRP 원칙: IPC 요청 처리와 라우팅만 담당
  * 비즈니스 로직은 TabService에 위임
@@ -22,7 +25,11 @@ import {
   TabCreateRequestSchema,
   TabUpdateRequestSchema,
   TabIdRequestSchema,
+  TabMoveRequestSchema,
+  TabReopenClosedRequestSchema,
+  TabRecentlyClosedRequestSchema,
 } from '../../shared/ipc/validators';
+import type { RecentlyClosedEntry } from '../../shared/types/domain';
 import {
   validateUrlWithError,
   validateTitleWithError,
@@ -47,6 +54,13 @@ export interface ITabService {
   duplicateTab(tabId: string): Promise<{ id: string; url: string; title: string }>;
   muteTab(tabId: string): Promise<void>;
   pinTab(tabId: string): Promise<void>;
+  moveTab(
+    tabId: string,
+    index: number,
+    windowId?: string
+  ): Promise<{ id: string; index: number; windowId: string | null }>;
+  reopenClosed(entryId?: string): Promise<Array<{ id: string; url: string; title: string }>>;
+  getRecentlyClosed(limit?: number): Promise<RecentlyClosedEntry[]>;
 }
 
 /**
@@ -93,6 +107,23 @@ export class TabHandler extends BaseHandler {
     // 탭 고정
     ipcMain.handle(IPC_CHANNELS.tabPin, (_event, tabId: string) => this.handlePinTab(tabId));
 
+    // 탭 이동 (순서 변경 / 다른 윈도우로 이동)
+    ipcMain.handle(
+      IPC_CHANNELS.tabMove,
+      (_event, tabId: string, index: number, windowId?: string) =>
+        this.handleMoveTab(tabId, index, windowId)
+    );
+
+    // 최근 닫은 탭/윈도우 다시 열기
+    ipcMain.handle(IPC_CHANNELS.tabReopenClosed, (_event, entryId?: string) =>
+      this.handleReopenClosed(entryId)
+    );
+
+    // 최근 닫은 탭/윈도우 목록 조회
+    ipcMain.handle(IPC_CHANNELS.tabGetRecentlyClosed, (_event, limit?: number) =>
+      this.handleGetRecentlyClosed(limit)
+    );
+
     this.logOperation('Handlers registered successfully');
   }
 
@@ -285,6 +316,61 @@ export class TabHandler extends BaseHandler {
     }
   }
 
+  /**
+   * 탭 이동 핸들러
+   */
+  private async handleMoveTab(tabId: string, index: number, windowId?: string) {
+    try {
+      // 입력값 검증
+      const validated = TabMoveRequestSchema.parse({ tabId, index, windowId });
+
+      this.logger.info('TabHandler: Moving tab', {
+        module: 'TabHandler',
+        metadata: { tabId: validated.tabId, index: validated.index, windowId: validated.windowId },
+      });
+
+      const tab = await this.tabService.moveTab(validated.tabId, validated.index, validated.windowId);
+      return { success: true, data: tab };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Moving tab');
+    }
+  }
+
+  /**
+   * 닫은 탭 다시 열기 핸들러
+   */
+  private async handleReopenClosed(entryId?: string) {
+    try {
+      // 입력값 검증
+      const validated = TabReopenClosedRequestSchema.parse({ entryId });
+
+      this.logger.info('TabHandler: Reopening closed tab', {
+        module: 'TabHandler',
+        metadata: { entryId: validated.entryId },
+      });
+
+      const tabs = await this.tabService.reopenClosed(validated.entryId);
+      return { success: true, data: tabs };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Reopening closed tab');
+    }
+  }
+
+  /**
+   * 최근 닫은 목록 조회 핸들러
+   */
+  private async handleGetRecentlyClosed(limit?: number) {
+    try {
+      // 입력값 검증
+      const validated = TabRecentlyClosedRequestSchema.parse({ limit });
+
+      const entries = await this.tabService.getRecentlyClosed(validated.limit);
+      return { success: true, data: entries };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Getting recently closed');
+    }
+  }
+
   /**
    * 모든 핸들러 등록 해제
    */
@@ -297,6 +383,9 @@ export class TabHandler extends BaseHandler {
     ipcMain.removeAllListeners(IPC_CHANNELS.tabDuplicate);
     ipcMain.removeAllListeners(IPC_CHANNELS.tabMute);
     ipcMain.removeAllListeners(IPC_CHANNELS.tabPin);
+    ipcMain.removeAllListeners(IPC_CHANNELS.tabMove);
+    ipcMain.removeAllListeners(IPC_CHANNELS.tabReopenClosed);
+    ipcMain.removeAllListeners(IPC_CHANNELS.tabGetRecentlyClosed);
 
     this.logger.info('TabHandler: Handlers unregistered');
   }
@@ -0,0 +1,86 @@
+/**
+ * TaskManagerHandler - 작업 관리자 IPC 핸들러
+ *
+ * 책임: IPC 요청을 받아서 TaskManagerService로 라우팅
+ * - app:getTaskManager
+ * - app:killTabProcess
+ *
+ * SRP 원칙: IPC 요청 처리와 라우팅만 담당
+ * 비즈니스 로직은 TaskManagerService에 위임
+ */
+
+import { ipcMain } from 'electron';
+import { BaseHandler } from './BaseHandler';
+import { IPC_CHANNELS } from '../../shared/ipc/channels';
+import type { AppKillTabProcessArgs } from '../../shared/ipc/channel-types';
+import { TabIdRequestSchema } from '../../shared/ipc/validators';
+import type { TaskManagerSnapshot } from '../../shared/types/domain';
+
+/**
+ * TaskManagerService 인터페이스
+ */
+export interface ITaskManagerService {
+  getSnapshot(): Promise<TaskManagerSnapshot>;
+  killTabProcess(tabId: string): Promise<string[]>;
+}
+
+/**
+ * 작업 관리자 IPC 핸들러
+ */
+export class TaskManagerHandler extends BaseHandler {
+  constructor(private taskManagerService: ITaskManagerService) {
+    super('TaskManagerHandler');
+  }
+
+  /**
+   * 모든 작업 관리자 IPC 핸들 등록
+   */
+  public registerHandlers(): void {
+    this.logOperation('Registering handlers');
+
+    // 프로세스/탭별 리소스 조회
+    ipcMain.handle(IPC_CHANNELS.appGetTaskManager, () => this.handleGetTaskManager());
+
+    // 탭 렌더러 프로세스 강제 종료
+    ipcMain.handle(IPC_CHANNELS.appKillTabProcess, (_event, args: AppKillTabProcessArgs) =>
+      this.handleKillTabProcess(args)
+    );
+
+    this.logOperation('Handlers registered successfully');
+  }
+
+  /**
+   * 작업 관리자 조회 핸들러
+   */
+  private async handleGetTaskManager() {
+    try {
+      const snapshot = await this.taskManagerService.getSnapshot();
+      return { success: true, data: snapshot };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Getting task manager');
+    }
+  }
+
+  /**
+   * 탭 프로세스 종료 핸들러
+   */
+  private async handleKillTabProcess(args: AppKillTabProcessArgs) {
+    try {
+      const validated = TabIdRequestSchema.parse(args);
+      const tabIds = await this.taskManagerService.killTabProcess(validated.tabId);
+      return { success: true, data: { tabIds } };
+    } catch (error) {
+      return this.formatErrorResponse(error, 'Killing tab process');
+    }
+  }
+
+  /**
+   * 모든 핸들러 등록 해제
+   */
+  public unregisterHandlers(): void {
+    ipcMain.removeHandler(IPC_CHANNELS.appGetTaskManager);
+    ipcMain.removeHandler(IPC_CHANNELS.appKillTabProcess);
+
+    this.logger.info('TaskManagerHandler: Handlers unregistered');
+  }
+}
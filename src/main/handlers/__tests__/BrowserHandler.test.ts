@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('electron', async () => (await import('./ipcMainMock')).electronMock);
+
+import { BrowserHandler, type INavigationService } from '../BrowserHandler';
+import { invokeIpc, ipcHandlers } from './ipcMainMock';
+
+const state = {
+  tabId: 'tab-1',
+  url: 'https://example.com',
+  title: 'Example',
+  canGoBack: true,
+  canGoForward: false,
+  isLoading: false,
+};
+
+function createService(): INavigationService {
+  return {
+    navigateTo: vi.fn().mockResolvedValue(state),
+    goBack: vi.fn().mockResolvedValue(state),
+    goForward: vi.fn().mockResolvedValue(state),
+    getNavigationState: vi.fn().mockResolvedValue(state),
+    reload: vi.fn().mockResolvedValue(true),
+    stop: vi.fn().mockResolvedValue(true),
+    zoom: vi.fn().mockResolvedValue(1.1),
+    findInPage: vi.fn().mockResolvedValue({ requestId: 1, activeMatchOrdinal: 1, matches: 3 }),
+    print: vi.fn().mockResolvedValue(true),
+    toggleDevTools: vi.fn().mockResolvedValue(true),
+  };
+}
+
+describe('BrowserHandler', () => {
+  let service: INavigationService;
+
+  beforeEach(() => {
+    ipcHandlers.clear();
+    service = createService();
+    new BrowserHandler(service).registerHandlers();
+  });
+
+  it('navigateTo는 URL을 검증하고 뒤로/앞으로 상태를 반환해야 함', async () => {
+    const result = await invokeIpc('browser:navigateTo', { url: 'https://example.com' });
+
+    expect(result).toEqual({ success: true, data: state });
+    expect(service.navigateTo).toHaveBeenCalledWith('https://example.com', undefined, undefined);
+  });
+
+  it('허용되지 않은 프로토콜은 거부해야 함', async () => {
+    const result = await invokeIpc('browser:navigateTo', { url: 'javascript:alert(1)' });
+
+    expect(result.success).toBe(false);
+    expect(service.navigateTo).not.toHaveBeenCalled();
+  });
+
+  it('BROWSER_NAVIGATE 제한(1초 10회)을 초과하면 거부해야 함', async () => {
+    for (let i = 0; i < 10; i++) {
+      const ok = await invokeIpc('browser:goBack', { tabId: 'tab-1' });
+      expect(ok.success).toBe(true);
+    }
+
+    const limited = await invokeIpc('browser:goBack', { tabId: 'tab-1' });
+    expect(limited).toEqual({ success: false, error: 'Navigation rate limited' });
+
+    // 다른 renderer는 영향 없음
+    const other = await invokeIpc('browser:goBack', { tabId: 'tab-1' }, 2);
+    expect(other.success).toBe(true);
+  });
+
+  it('줌/검색 요청을 서비스로 전달해야 함', async () => {
+    await invokeIpc('browser:zoomIn', { tabId: 'tab-1' });
+    await invokeIpc('browser:zoomReset');
+    await invokeIpc('browser:findInPage', { query: 'hello', options: { matchCase: true } });
+
+    expect(service.zoom).toHaveBeenCalledWith('in', 'tab-1', undefined);
+    expect(service.zoom).toHaveBeenCalledWith('reset', undefined, undefined);
+    expect(service.findInPage).toHaveBeenCalledWith('hello', { matchCase: true }, undefined);
+  });
+
+  it('등록 해제 시 모든 채널을 제거해야 함', () => {
+    const handler = new BrowserHandler(service);
+    handler.unregisterHandlers();
+    expect(ipcHandlers.size).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('electron', async () => (await import('./ipcMainMock')).electronMock);
+
+import { SessionHandler, type ISessionService } from '../SessionHandler';
+import { invokeIpc, ipcHandlers } from './ipcMainMock';
+
+const info = {
+  available: true,
+  crashed: true,
+  tabCount: 3,
+  windowCount: 1,
+  savedAt: 1700000000000,
+};
+
+describe('SessionHandler', () => {
+  let service: ISessionService;
+
+  beforeEach(() => {
+    ipcHandlers.clear();
+    service = {
+      getRecoveryInfo: vi.fn().mockResolvedValue(info),
+      restoreLastSession: vi.fn().mockResolvedValue(3),
+      discardLastSession: vi.fn().mockResolvedValue(true),
+    };
+    new SessionHandler(service).registerHandlers();
+  });
+
+  it('복원 정보를 반환해야 함', async () => {
+    const result = await invokeIpc('session:getRecoveryInfo');
+    expect(result).toEqual({ success: true, data: info });
+  });
+
+  it('복원 시 복원된 탭 수를 반환해야 함', async () => {
+    const result = await invokeIpc('session:restore');
+    expect(result).toEqual({ success: true, data: { restoredTabs: 3 } });
+    expect(service.restoreLastSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('복원할 세션이 없으면 에러 응답을 반환해야 함', async () => {
+    vi.mocked(service.restoreLastSession).mockRejectedValueOnce(
+      new Error('복원할 세션이 없습니다')
+    );
+
+    const result = await invokeIpc('session:restore');
+    expect(result).toEqual({ success: false, error: '복원할 세션이 없습니다' });
+  });
+
+  it('폐기 요청을 서비스로 전달해야 함', async () => {
+    const result = await invokeIpc('session:discard');
+    expect(result).toEqual({ success: true, data: true });
+    expect(service.discardLastSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('등록 해제 시 모든 채널을 제거해야 함', () => {
+    new SessionHandler(service).unregisterHandlers();
+    expect(ipcHandlers.size).toBe(0);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('electron', async () => (await import('./ipcMainMock')).electronMock);
+
+import { TabGroupHandler, type ITabGroupService } from '../TabGroupHandler';
+import { invokeIpc, ipcHandlers } from './ipcMainMock';
+import type { TabGroup } from '../../../shared/types/domain';
+
+const group: TabGroup = {
+  id: 'group-1',
+  name: '리서치',
+  color: 'blue',
+  collapsed: false,
+  windowId: 'window-1',
+  tabIds: ['tab-1', 'tab-2'],
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+};
+
+describe('TabGroupHandler', () => {
+  let service: ITabGroupService;
+
+  beforeEach(() => {
+    ipcHandlers.clear();
+    service = {
+      getAllGroups: vi.fn().mockResolvedValue([group]),
+      createGroup: vi.fn().mockResolvedValue(group),
+      renameGroup: vi.fn().mockResolvedValue({ ...group, name: '여행' }),
+      setGroupColor: vi.fn().mockResolvedValue({ ...group, color: 'red' }),
+      setGroupCollapsed: vi.fn().mockResolvedValue({ ...group, collapsed: true }),
+      ungroup: vi.fn().mockResolvedValue(['tab-1', 'tab-2']),
+      moveGroup: vi.fn().mockResolvedValue(group),
+    };
+    new TabGroupHandler(service).registerHandlers();
+  });
+
+  it('선택한 탭과 옵션으로 그룹을 생성해야 함', async () => {
+    const result = await invokeIpc('tabGroup:create', {
+      tabIds: ['tab-1', 'tab-2'],
+      name: '리서치',
+      color: 'blue',
+    });
+
+    expect(result).toEqual({ success: true, data: group });
+    expect(service.createGroup).toHaveBeenCalledWith(['tab-1', 'tab-2'], {
+      name: '리서치',
+      color: 'blue',
+    });
+  });
+
+  it('탭 없이 그룹 생성 요청 시 에러 응답을 반환해야 함', async () => {
+    const result = await invokeIpc('tabGroup:create', { tabIds: [] });
+
+    expect(result.success).toBe(false);
+    expect(service.createGroup).not.toHaveBeenCalled();
+  });
+
+  it('지원하지 않는 색상은 거부해야 함', async () => {
+    const result = await invokeIpc('tabGroup:setColor', { groupId: 'group-1', color: 'black' });
+
+    expect(result.success).toBe(false);
+    expect(service.setGroupColor).not.toHaveBeenCalled();
+  });
+
+  it('이름/색상/접힘 상태 변경을 서비스로 전달해야 함', async () => {
+    await invokeIpc('tabGroup:rename', { groupId: 'group-1', name: '여행' });
+    await invokeIpc('tabGroup:setColor', { groupId: 'group-1', color: 'red' });
+    await invokeIpc('tabGroup:setCollapsed', { groupId: 'group-1', collapsed: true });
+
+    expect(service.renameGroup).toHaveBeenCalledWith('group-1', '여행');
+    expect(service.setGroupColor).toHaveBeenCalledWith('group-1', 'red');
+    expect(service.setGroupCollapsed).toHaveBeenCalledWith('group-1', true);
+  });
+
+  it('그룹 해제 시 빠진 탭 ID를 반환해야 함', async () => {
+    const result = await invokeIpc('tabGroup:ungroup', { groupId: 'group-1' });
+    expect(result).toEqual({ success: true, data: { tabIds: ['tab-1', 'tab-2'] } });
+  });
+
+  it('그룹 이동 요청을 서비스로 전달해야 함', async () => {
+    await invokeIpc('tabGroup:move', { groupId: 'group-1', index: 2, windowId: 'window-2' });
+    expect(service.moveGroup).toHaveBeenCalledWith('group-1', 2, 'window-2');
+  });
+
+  it('서비스 에러를 에러 응답으로 변환해야 함', async () => {
+    vi.mocked(service.ungroup).mockRejectedValueOnce(
+      new Error('탭 그룹을 찾을 수 없습니다: group-9')
+    );
+
+    const result = await invokeIpc('tabGroup:ungroup', { groupId: 'group-9' });
+    expect(result).toEqual({ success: false, error: '탭 그룹을 찾을 수 없습니다: group-9' });
+  });
+
+  it('등록 해제 시 모든 채널을 제거해야 함', () => {
+    new TabGroupHandler(service).unregisterHandlers();
+    expect(ipcHandlers.size).toBe(0);
+  });
+});
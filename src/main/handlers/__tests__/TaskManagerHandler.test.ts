@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('electron', async () => (await import('./ipcMainMock')).electronMock);
+
+import { TaskManagerHandler, type ITaskManagerService } from '../TaskManagerHandler';
+import { invokeIpc, ipcHandlers } from './ipcMainMock';
+import type { TaskManagerSnapshot } from '../../../shared/types/domain';
+
+const snapshot: TaskManagerSnapshot = {
+  processes: [
+    { pid: 100, type: 'Browser', memoryMB: 120, cpuPercent: 1.5, tabIds: [] },
+    { pid: 200, type: 'Tab', memoryMB: 300, cpuPercent: 42, tabIds: ['tab-1'] },
+  ],
+  tabs: [
+    {
+      tabId: 'tab-1',
+      title: 'Example',
+      url: 'https://example.com',
+      state: 'active',
+      pid: 200,
+      memoryMB: 300,
+      cpuPercent: 42,
+      networkBytes: 2048,
+    },
+  ],
+  totalMemoryMB: 420,
+  timestamp: 0,
+};
+
+describe('TaskManagerHandler', () => {
+  let service: ITaskManagerService;
+
+  beforeEach(() => {
+    ipcHandlers.clear();
+    service = {
+      getSnapshot: vi.fn().mockResolvedValue(snapshot),
+      killTabProcess: vi.fn().mockResolvedValue(['tab-1', 'tab-2']),
+    };
+    new TaskManagerHandler(service).registerHandlers();
+  });
+
+  it('작업 관리자 스냅샷을 반환해야 함', async () => {
+    const result = await invokeIpc('app:getTaskManager');
+
+    expect(result).toEqual({ success: true, data: snapshot });
+  });
+
+  it('탭 프로세스 종료 시 영향받은 탭 목록을 반환해야 함', async () => {
+    const result = await invokeIpc('app:killTabProcess', { tabId: 'tab-1' });
+
+    expect(result).toEqual({ success: true, data: { tabIds: ['tab-1', 'tab-2'] } });
+    expect(service.killTabProcess).toHaveBeenCalledWith('tab-1');
+  });
+
+  it('tabId 없이 종료 요청 시 에러 응답을 반환해야 함', async () => {
+    const result = await invokeIpc('app:killTabProcess', {});
+
+    expect(result.success).toBe(false);
+    expect(service.killTabProcess).not.toHaveBeenCalled();
+  });
+
+  it('서비스 에러를 에러 응답으로 변환해야 함', async () => {
+    vi.mocked(service.killTabProcess).mockRejectedValueOnce(
+      new Error('실행 중인 탭 프로세스가 없습니다: tab-3')
+    );
+
+    const result = await invokeIpc('app:killTabProcess', { tabId: 'tab-3' });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('unregisterHandlers는 모든 채널을 해제해야 함', () => {
+    new TaskManagerHandler(service).unregisterHandlers();
+
+    expect(ipcHandlers.size).toBe(0);
+  });
+});
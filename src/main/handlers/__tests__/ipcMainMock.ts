@@ -0,0 +1,44 @@
+/**
+ * 핸들러 테스트용 가짜 ipcMain
+ * - ipcMain.handle로 등록된 핸들러를 채널별로 보관하고 invokeIpc로 직접 호출
+ * - 사용: vi.mock('electron', async () => (await import('./ipcMainMock')).electronMock)
+ */
+
+import type { IpcMainInvokeEvent } from 'electron';
+import type { IpcResponse } from '../../../shared/ipc/types';
+
+/**
+ * ipcMain.handle에 등록되는 핸들러
+ */
+export type IpcInvokeHandler = (event: IpcMainInvokeEvent, ...args: unknown[]) => unknown;
+
+/** 채널 → 등록된 핸들러 */
+export const ipcHandlers = new Map<string, IpcInvokeHandler>();
+
+/**
+ * vi.mock('electron')이 돌려줄 모듈
+ */
+export const electronMock = {
+  ipcMain: {
+    handle: (channel: string, handler: IpcInvokeHandler) => ipcHandlers.set(channel, handler),
+    removeHandler: (channel: string) => ipcHandlers.delete(channel),
+  },
+};
+
+/**
+ * 등록된 핸들러 호출 (renderer의 invoke 대신)
+ *
+ * @param channel IPC 채널
+ * @param args 요청 인자
+ * @param senderId 요청한 webContents ID
+ */
+export function invokeIpc(
+  channel: string,
+  args?: unknown,
+  senderId = 1
+): Promise<IpcResponse<unknown>> {
+  const handler = ipcHandlers.get(channel);
+  if (!handler) throw new Error(`No handler for ${channel}`);
+  const event = { sender: { id: senderId } } as unknown as IpcMainInvokeEvent;
+  return Promise.resolve(handler(event, args) as IpcResponse<unknown>);
+}
@@ -9,15 +9,48 @@ export { TabHandler, type ITabService } from './TabHandler';
 export { HistoryHandler, type IHistoryService } from './HistoryHandler';
 export { BookmarkHandler, type IBookmarkService } from './BookmarkHandler';
 export { WindowHandler, type IWindowService } from './WindowHandler';
+export { BrowserHandler, type INavigationService } from './BrowserHandler';
+export { SessionHandler, type ISessionService } from './SessionHandler';
+export { TabGroupHandler, type ITabGroupService } from './TabGroupHandler';
+export { TaskManagerHandler, type ITaskManagerService } from './TaskManagerHandler';
+export { BrowsingDataHandler, type IBrowsingDataService } from './BrowsingDataHandler';
+export { ImportHandler, type IImportService } from './ImportHandler';
+export { ExportHandler, type IExportService } from './ExportHandler';
+export { SettingsHandler, type ISettingsService } from './SettingsHandler';
+export { SiteSettingsHandler, type ISiteSettingsService } from './SiteSettingsHandler';
+export { SettingsProfileHandler, type ISettingsProfileService } from './SettingsProfileHandler';
+export { FileHandler, type IFileService } from './FileHandler';
 
 import { TabHandler } from './TabHandler';
 import { HistoryHandler } from './HistoryHandler';
 import { BookmarkHandler } from './BookmarkHandler';
 import { WindowHandler } from './WindowHandler';
+import { BrowserHandler } from './BrowserHandler';
+import { SessionHandler } from './SessionHandler';
+import { TabGroupHandler } from './TabGroupHandler';
+import { TaskManagerHandler } from './TaskManagerHandler';
+import { BrowsingDataHandler } from './BrowsingDataHandler';
+import { ImportHandler } from './ImportHandler';
+import { ExportHandler } from './ExportHandler';
+import { SettingsHandler } from './SettingsHandler';
+import { SiteSettingsHandler } from './SiteSettingsHandler';
+import { SettingsProfileHandler } from './SettingsProfileHandler';
+import { FileHandler } from './FileHandler';
 import type { ITabService } from './TabHandler';
 import type { IHistoryService } from './HistoryHandler';
 import type { IBookmarkService } from './BookmarkHandler';
 import type { IWindowService } from './WindowHandler';
+import type { INavigationService } from './BrowserHandler';
+import type { ISessionService } from './SessionHandler';
+import type { ITabGroupService } from './TabGroupHandler';
+import type { ITaskManagerService } from './TaskManagerHandler';
+import type { IBrowsingDataService } from './BrowsingDataHandler';
+import type { IImportService } from './ImportHandler';
+import type { IExportService } from './ExportHandler';
+import type { ISettingsService } from './SettingsHandler';
+import type { ISiteSettingsService } from './SiteSettingsHandler';
+import type { ISettingsProfileService } from './SettingsProfileHandler';
+import type { IFileService } from './FileHandler';
 
 /**
  * 모든 핸들러 등록 함수
@@ -28,22 +61,66 @@ export function registerAllHandlers(
   tabService: ITabService,
   historyService: IHistoryService,
   bookmarkService: IBookmarkService,
-  windowService: IWindowService
+  windowService: IWindowService,
+  navigationService: INavigationService,
+  sessionService: ISessionService,
+  tabGroupService: ITabGroupService,
+  taskManagerService: ITaskManagerService,
+  browsingDataService: IBrowsingDataService,
+  importService: IImportService,
+  exportService: IExportService,
+  settingsService: ISettingsService,
+  siteSettingsService: ISiteSettingsService,
+  settingsProfileService: ISettingsProfileService,
+  fileService: IFileService
 ) {
   const tabHandler = new TabHandler(tabService);
   const historyHandler = new HistoryHandler(historyService);
   const bookmarkHandler = new BookmarkHandler(bookmarkService);
   const windowHandler = new WindowHandler(windowService);
+  const browserHandler = new BrowserHandler(navigationService);
+  const sessionHandler = new SessionHandler(sessionService);
+  const tabGroupHandler = new TabGroupHandler(tabGroupService);
+  const taskManagerHandler = new TaskManagerHandler(taskManagerService);
+  const browsingDataHandler = new BrowsingDataHandler(browsingDataService);
+  const importHandler = new ImportHandler(importService);
+  const exportHandler = new ExportHandler(exportService);
+  const settingsHandler = new SettingsHandler(settingsService);
+  const siteSettingsHandler = new SiteSettingsHandler(siteSettingsService);
+  const settingsProfileHandler = new SettingsProfileHandler(settingsProfileService);
+  const fileHandler = new FileHandler(fileService);
 
   tabHandler.registerHandlers();
   historyHandler.registerHandlers();
   bookmarkHandler.registerHandlers();
   windowHandler.registerHandlers();
+  browserHandler.registerHandlers();
+  sessionHandler.registerHandlers();
+  tabGroupHandler.registerHandlers();
+  taskManagerHandler.registerHandlers();
+  browsingDataHandler.registerHandlers();
+  importHandler.registerHandlers();
+  exportHandler.registerHandlers();
+  settingsHandler.registerHandlers();
+  siteSettingsHandler.registerHandlers();
+  settingsProfileHandler.registerHandlers();
+  fileHandler.registerHandlers();
 
   return {
     tabHandler,
     historyHandler,
     bookmarkHandler,
     windowHandler,
+    browserHandler,
+    sessionHandler,
+    tabGroupHandler,
+    taskManagerHandler,
+    browsingDataHandler,
+    importHandler,
+    exportHandler,
+    settingsHandler,
+    siteSettingsHandler,
+    settingsProfileHandler,
+    fileHandler,
   };
 }
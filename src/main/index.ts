@@ -9,28 +9,35 @@
  * - 앱 전역 설정 및 에러 핸들링
  *
  * 실행 순서:
+ * 0. 시작 스위치 적용 (app ready 이전, 디스크 캐시 한도)
  * 1. Logger 설정
- * 2. ConfigManager 초기화
+ * 2. DatabaseService 초기화, SettingsService 로드 (이전 설정 파일 마이그레이션)
  * 3. WindowManager 생성
  * 4. AppLifecycle 생성 및 초기화
- * 5. Managers 인스턴스 생성 (TabManager, HistoryManager, ResourceManager)
+ * 5. Managers 인스턴스 생성 (TabManager, TabViewManager, HistoryManager, ResourceManager)
  * 6. Services 인스턴스 생성 (의존성 주입)
  * 7. IPC Handlers 등록
- * 8. 전역 에러 핸들러 설정
- * 9. EventBus로 이벤트 통신 시작
+ * 8. 세션 복원 (비정상 종료 시 복원 제안) 및 종료 시 세션 저장 등록
+ * 8-1. 시스템 최적화 루프 시작 (실측 메트릭 → Policies → Enforcers)
+ * 9. 전역 에러 핸들러 설정
+ * 10. EventBus로 이벤트 통신 시작
  */
 
 import { LoggerImpl, LogLevel } from '../shared/logger';
 import { AppLifecycle } from './core/appLifecycle';
 import { WindowManager } from './core/window';
 import { EventBus } from './core/EventBus';
-import { ConfigManager } from './managers/ConfigManager';
+import { SystemOrchestrator } from './core/SystemOrchestrator';
+import { SystemMetricsCollector } from './core/SystemMetricsCollector';
 import { TabManager } from './managers/TabManager';
 import { HistoryManager } from './managers/HistoryManager';
 import { ResourceManager } from './managers/ResourceManager';
+import { TabViewManager } from './managers/TabViewManager';
 import { DatabaseService } from './services/database/DatabaseService';
+import { SettingsService } from './services/SettingsService';
 import { initializeAllServices } from './services';
 import { registerAllHandlers } from './handlers';
+import { applyStartupSwitches } from './services/settings/startupSwitches';
 
 const logger = new LoggerImpl('Main', LogLevel.DEBUG);
 
@@ -38,11 +45,12 @@ const logger = new LoggerImpl('Main', LogLevel.DEBUG);
  * 전체 애플리케이션 상태 관리
  */
 interface AppState {
-  configManager: ConfigManager;
+  settingsService: SettingsService;
   windowManager: WindowManager;
   appLifecycle: AppLifecycle;
   databaseService: DatabaseService;
   tabManager: TabManager;
+  tabViewManager: TabViewManager;
   historyManager: HistoryManager;
   resourceManager: ResourceManager;
 }
@@ -51,21 +59,20 @@ interface AppState {
  * 의존성 초기화 헬퍼
  */
 async function initializeDependencies(): Promise<AppState> {
-  // 1. 설정 초기화
-  logger.info('Main: Initializing config');
-  const configManager = new ConfigManager();
-  await configManager.initialize();
-  const config = configManager.getAll();
-
-  // 2. 데이터베이스 초기화 (Prisma + Repositories)
+  // 1. 데이터베이스 초기화 (Prisma + Repositories)
   logger.info('Main: Initializing DatabaseService');
   const databaseService = await DatabaseService.getInstance();
 
+  // 2. 설정 로드 (AppSettings 문서, 이전 설정 파일은 최초 1회 병합)
+  logger.info('Main: Initializing settings');
+  const settingsService = SettingsService.create(databaseService.getAppSettingsRepository());
+  await settingsService.initialize();
+
   // 3. 윈도우 매니저 생성
   logger.info('Main: Creating WindowManager');
   const windowManager = new WindowManager({
-    width: config.window?.width ?? 1200,
-    height: config.window?.height ?? 800,
+    width: 1200,
+    height: 800,
     // buildInfo는 WindowManager 내부에서 자동 감지됨
   });
 
@@ -73,22 +80,24 @@ async function initializeDependencies(): Promise<AppState> {
   logger.info('Main: Creating AppLifecycle');
   const appLifecycle = new AppLifecycle(windowManager, {
     autoStartMinimized: false,
-    restorePreviousSession: config.restorePreviousSession ?? true,
+    restorePreviousSession: settingsService.get('restorePreviousSession'),
     allowMultipleInstances: false,
   });
 
   // 5. Managers 생성 (의존성 주입)
   logger.info('Main: Creating Managers');
   const tabManager = TabManager.create(databaseService.getTabRepository());
+  const tabViewManager = new TabViewManager(windowManager, tabManager);
   const historyManager = HistoryManager.create(databaseService.getHistoryRepository());
   const resourceManager = new ResourceManager();
 
   return {
-    configManager,
+    settingsService,
     windowManager,
     appLifecycle,
     databaseService,
     tabManager,
+    tabViewManager,
     historyManager,
     resourceManager,
   };
@@ -97,14 +106,16 @@ async function initializeDependencies(): Promise<AppState> {
 /**
  * 서비스 및 핸들러 초기화
  */
-function initializeServicesAndHandlers(state: AppState): void {
+function initializeServicesAndHandlers(state: AppState): ReturnType<typeof initializeAllServices> {
   logger.info('Main: Initializing Services');
   const services = initializeAllServices(
     state.tabManager,
     state.historyManager,
     state.resourceManager,
+    state.tabViewManager,
     state.windowManager,
-    state.databaseService
+    state.databaseService,
+    state.settingsService
   );
 
   logger.info('Main: Registering IPC Handlers');
@@ -112,8 +123,21 @@ function initializeServicesAndHandlers(state: AppState): void {
     services.tabService,
     services.historyService,
     services.bookmarkService,
-    services.windowService
+    services.windowService,
+    services.navigationService,
+    services.sessionService,
+    services.tabGroupService,
+    services.taskManagerService,
+    services.browsingDataService,
+    services.importService,
+    services.exportService,
+    services.settingsService,
+    services.siteSettingsService,
+    services.settingsProfileService,
+    services.fileService
   );
+
+  return services;
 }
 
 /**
@@ -149,10 +173,8 @@ async function cleanup(state: AppState): Promise<void> {
   logger.info('Main: Cleaning up');
 
   try {
-    // 설정 저장
-    await state.configManager.save();
-
-    // 모든 윈도우 닫기
+    // 탭 뷰 정리 후 모든 윈도우 닫기
+    state.tabViewManager.destroyAllViews();
     state.windowManager.closeAllWindows();
 
     // ResourceManager 중지 (모니터링 루프 정지)
@@ -177,12 +199,48 @@ async function appInitializationFlow(state: AppState): Promise<void> {
   await state.appLifecycle.initialize();
 
   // 2. 서비스 및 핸들러 초기화
-  initializeServicesAndHandlers(state);
+  const services = initializeServicesAndHandlers(state);
+
+  // 3. 세션 복원 (메인 윈도우 생성 이후) 및 종료 시 저장 등록
+  await state.appLifecycle.whenReady();
 
-  // 3. 전역 에러 핸들러 설정
+  // 사이트별 권한/줌 로드 및 권한 요청 핸들러 등록
+  await services.siteSettingsService.initialize();
+
+  // 설정 반영 (테마, 기본/사이트별 줌, 에러 메시지 언어, 캐시 한도) - 복원되는 탭부터 적용
+  await services.settingsReactorService.start();
+  state.appLifecycle.registerShutdownTask(async () => services.settingsReactorService.stop());
+
+  // 페이지 체류 시간 측정 (복원되는 탭의 네비게이션부터 측정)
+  services.dwellTimeService.initialize();
+  state.appLifecycle.registerShutdownTask(() => services.dwellTimeService.shutdown());
+
+  await services.sessionService.initialize({
+    restorePreviousSession: state.settingsService.get('restorePreviousSession'),
+  });
+  state.appLifecycle.registerShutdownTask(() => services.sessionService.shutdown());
+
+  // 방문 기록 보관 정책 + frecency 재계산 (시작 시 1회, 이후 하루 한 번)
+  services.historyRetentionService.start();
+
+  // 방문 기록 여정 증분 계산 (시작 시 1회, 이후 주기 실행)
+  services.historyClusteringService.start();
+
+  // 작업 관리자용 탭별 네트워크 사용량 집계 시작
+  services.taskManagerService.initialize();
+
+  // 복원된 탭까지 포함해 탭 수명 주기(동결/폐기) 감시 시작
+  services.tabService.startLifecycleMonitoring();
+
+  // 실측 메트릭으로 Policies → Enforcers 실행 (app:beforeQuit 시 자동 중지)
+  const metricsCollector = new SystemMetricsCollector(state.windowManager);
+  metricsCollector.initialize();
+  new SystemOrchestrator(metricsCollector).start();
+
+  // 4. 전역 에러 핸들러 설정
   setupGlobalErrorHandlers();
 
-  // 4. EventBus 초기화
+  // 5. EventBus 초기화
   const eventBus = EventBus.getInstance();
   eventBus.emit('app:initialized', { version: '1.0.0' });
 
@@ -217,9 +275,11 @@ function setupExitHandlers(state: AppState): void {
   });
 }
 
+// 시작 스위치는 app ready 전에만 반영되므로 설정 DB를 열기 전에 동기로 적용
+applyStartupSwitches();
+
 // 앱 시작
 handleMainExecution().catch((error: unknown) => {
   console.error('Uncaught error in main:', error);
   process.exit(1);
 });
-
@@ -2,9 +2,13 @@
  * HistoryManager - 방문 기록 저장소
  *
  * 책임: 방문 기록 관리
- * - 히스토리 추가/삭제/조회 (aside.db 기반)
+ * - 히스토리 추가/삭제/조회 (aside.db 기반, Url + Visit)
  * - 검색 및 필터링
  * - 최근 항목 우선 조회
+ * - frecency 재계산
+ * - 체류 시간 기록 및 사이트별 집계
+ * - 가져온 방문 저장 (중복 제거)
+ * - 내보내기용 기간 내 방문 페이지 조회
  *
  * Phase 1: Prisma Repository 기반 데이터 영속성
  * Phase 2: 메모리 캐싱 (선택사항)
@@ -14,8 +18,24 @@
  */
 
 import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
-import type { HistoryEntry, FrequentSite } from '../../shared/types/domain';
-import { HistoryRepository } from '../services/database/HistoryRepository';
+import type {
+  HistoryEntry,
+  HistorySearchItem,
+  HistoryTransition,
+  FrequentSite,
+  SiteTimeSpent,
+} from '../../shared/types/domain';
+import {
+  HistoryRepository,
+  type HistorySearchOptions,
+  type ImportedVisitRef,
+  type VisitCursor,
+  type VisitImportInput,
+  type VisitRange,
+  type VisitWithUrl,
+} from '../services/database/HistoryRepository';
+import type { HistorySearchQuery } from '../services/database/historyQuery';
+import { frecencyDecaySince } from '../services/database/frecency';
 
 /**
  * 히스토리 저장소 (aside.db 기반)
@@ -50,27 +70,64 @@ export class HistoryManager {
   }
 
   /**
-   * 히스토리 항목 추가
+   * URL → 사이트 (www. 제거한 호스트, http(s)가 아니면 null)
+   */
+  private siteOf(url: string): string | null {
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        return null;
+      }
+      return parsed.hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 방문 기록 → 히스토리 항목 (제목/파비콘/방문 횟수는 URL 기준)
+   */
+  private toHistoryEntry(visit: VisitWithUrl): HistoryEntry {
+    return {
+      id: visit.id,
+      url: visit.url.url,
+      title: visit.url.title,
+      favicon: visit.url.favicon,
+      visitedAt: visit.visitedAt,
+      duration: visit.dwellTimeMs,
+      visits: visit.url.visitCount,
+      transition: visit.transition as HistoryTransition,
+      referrerVisitId: visit.referrerVisitId,
+    };
+  }
+
+  /**
+   * 히스토리 항목 추가 (방문 1회 기록)
+   * - 같은 URL이면 방문 횟수와 frecency만 갱신
    *
    * @param entry 추가할 히스토리 항목
+   * @returns 저장된 방문 기록
    */
-  public async addEntry(entry: HistoryEntry): Promise<void> {
+  public async addEntry(entry: HistoryEntry): Promise<HistoryEntry> {
     try {
       const visitedDate = this.normalizeVisitedDate(entry.visitedAt as Date | number | undefined);
 
-      await this.historyRepository.create({
+      const visit = await this.historyRepository.create({
         url: entry.url,
-        title: entry.title || '',
+        title: entry.title,
+        favicon: entry.favicon,
         visitedAt: visitedDate,
-        duration: entry.duration || 0,
-        favicon: entry.favicon || null,
-        visits: entry.visits || 1
+        transition: entry.transition ?? 'link',
+        referrerVisitId: entry.referrerVisitId,
+        dwellTimeMs: entry.duration || 0,
       });
 
       this.logger.info('HistoryManager: Entry added', {
         module: 'HistoryManager',
-        metadata: { url: entry.url },
+        metadata: { url: entry.url, transition: visit.transition },
       });
+
+      return this.toHistoryEntry(visit);
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('HistoryManager: Failed to add entry', err);
@@ -86,7 +143,8 @@ export class HistoryManager {
    */
   public async getAllEntries(limit: number = 100): Promise<HistoryEntry[]> {
     try {
-      return await this.historyRepository.findAll(limit);
+      const visits = await this.historyRepository.findAll(limit);
+      return visits.map((visit) => this.toHistoryEntry(visit));
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('HistoryManager: Failed to get all entries', err);
@@ -102,7 +160,8 @@ export class HistoryManager {
    */
   public async getEntry(id: string): Promise<HistoryEntry | null> {
     try {
-      return await this.historyRepository.findById(id);
+      const visit = await this.historyRepository.findById(id);
+      return visit ? this.toHistoryEntry(visit) : null;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('HistoryManager: Failed to get entry', err);
@@ -111,15 +170,27 @@ export class HistoryManager {
   }
 
   /**
-   * 히스토리 검색
+   * 히스토리 전문 검색 (URL 단위, 점수순)
    *
-   * @param query 검색 쿼리 (URL 또는 제목에 포함)
-   * @param limit 반환할 최대 항목 수
+   * @param query 해석된 검색어
+   * @param options limit/offset
    * @returns 검색 결과
    */
-  public async search(query: string, limit: number = 50): Promise<HistoryEntry[]> {
+  public async search(
+    query: HistorySearchQuery,
+    options: HistorySearchOptions
+  ): Promise<HistorySearchItem[]> {
     try {
-      return await this.historyRepository.search(query, limit);
+      const rows = await this.historyRepository.search(query, options);
+      return rows.map(({ url, score }) => ({
+        id: url.id,
+        url: url.url,
+        title: url.title,
+        favicon: url.favicon,
+        lastVisitedAt: url.lastVisitedAt,
+        visitCount: url.visitCount,
+        score,
+      }));
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('HistoryManager: Failed to search', err);
@@ -159,7 +230,8 @@ export class HistoryManager {
     try {
       const startDate = new Date(startTime);
       const endDate = new Date(endTime);
-      return await this.historyRepository.findByDateRange(startDate, endDate);
+      const visits = await this.historyRepository.findByDateRange(startDate, endDate);
+      return visits.map((visit) => this.toHistoryEntry(visit));
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('HistoryManager: Failed to get entries by date range', err);
@@ -167,11 +239,41 @@ export class HistoryManager {
     }
   }
 
+  /**
+   * 기간 내 방문 한 페이지 조회 (방문 시각 오름차순, 내보내기용)
+   *
+   * @param startTime 시작 시간 (ms, null = 처음부터)
+   * @param endTime 종료 시간 (ms, null = 현재까지)
+   * @param after 이전 페이지의 마지막 방문 (null = 첫 페이지)
+   * @param limit 페이지 크기
+   * @returns 해당 범위의 히스토리
+   */
+  public async getEntriesPage(
+    startTime: number | null,
+    endTime: number | null,
+    after: VisitCursor | null,
+    limit: number
+  ): Promise<HistoryEntry[]> {
+    try {
+      const visits = await this.historyRepository.findPageInRange(
+        startTime === null ? null : new Date(startTime),
+        endTime === null ? null : new Date(endTime),
+        after,
+        limit
+      );
+      return visits.map((visit) => this.toHistoryEntry(visit));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryManager: Failed to get entries page', err);
+      throw error;
+    }
+  }
+
   /**
    * 자주 방문한 사이트 조회
    *
    * @param limit 반환할 사이트 개수
-   * @returns 방문 빈도순 사이트
+   * @returns frecency순 사이트
    */
   public async getFrequentSites(limit: number = 10): Promise<FrequentSite[]> {
     try {
@@ -215,6 +317,182 @@ export class HistoryManager {
     }
   }
 
+  /**
+   * 보관 기간이 지난 방문 정리 (1회 배치, 북마크한 URL 제외)
+   *
+   * @param beforeTime 이 시간 이전 방문 삭제 (ms)
+   * @param batchSize 한 번에 삭제할 최대 방문 수
+   * @returns 삭제된 방문 수
+   */
+  public async pruneExpired(beforeTime: number, batchSize: number): Promise<number> {
+    try {
+      return await this.historyRepository.deleteExpiredVisits(new Date(beforeTime), batchSize);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryManager: Failed to prune expired entries', err);
+      throw error;
+    }
+  }
+
+  /**
+   * 최대 개수를 넘는 오래된 방문 정리 (1회 배치, 북마크한 URL 제외)
+   *
+   * @param maxEntries 유지할 최근 방문 수
+   * @param batchSize 한 번에 삭제할 최대 방문 수
+   * @returns 삭제된 방문 수
+   */
+  public async pruneOverflow(maxEntries: number, batchSize: number): Promise<number> {
+    try {
+      return await this.historyRepository.deleteOverflowVisits(maxEntries, batchSize);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryManager: Failed to prune overflow entries', err);
+      throw error;
+    }
+  }
+
+  /**
+   * 페이지 체류 시간 기록 (해당 페이지를 연 뒤 기록된 가장 최근 방문에 누적)
+   *
+   * @param url 페이지 URL
+   * @param since 페이지를 연 시각 (ms, 이 시각 이후 방문만 대상)
+   * @param dwellTimeMs 포그라운드 체류 시간 (ms)
+   * @returns 방문을 찾아 기록했는지 여부
+   */
+  public async recordDwellTime(url: string, since: number, dwellTimeMs: number): Promise<boolean> {
+    try {
+      const visit = await this.historyRepository.addDwellTime(url, new Date(since), dwellTimeMs);
+      return visit !== null;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryManager: Failed to record dwell time', err);
+      throw error;
+    }
+  }
+
+  /**
+   * 사이트별 체류 시간 (많은 순)
+   *
+   * @param startTime 이 시각 이후 방문 (ms, 생략 시 처음부터)
+   * @param endTime 이 시각 이전 방문 (ms, 생략 시 현재까지)
+   * @param limit 최대 사이트 수
+   */
+  public async getTimePerSite(
+    startTime?: number,
+    endTime?: number,
+    limit: number = 20
+  ): Promise<SiteTimeSpent[]> {
+    try {
+      const rows = await this.historyRepository.getDwellTimeByUrl(
+        startTime !== undefined ? new Date(startTime) : null,
+        endTime !== undefined ? new Date(endTime) : null
+      );
+
+      const bySite = new Map<string, SiteTimeSpent>();
+      for (const row of rows) {
+        const site = this.siteOf(row.url);
+        if (!site) {
+          continue;
+        }
+        const entry = bySite.get(site) ?? { site, totalTimeMs: 0, visitCount: 0 };
+        entry.totalTimeMs += row.dwellTimeMs;
+        entry.visitCount += row.visitCount;
+        bySite.set(site, entry);
+      }
+
+      return [...bySite.values()].sort((a, b) => b.totalTimeMs - a.totalTimeMs).slice(0, limit);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryManager: Failed to get time per site', err);
+      throw error;
+    }
+  }
+
+  /**
+   * 범위 안의 방문이 있는 URL 목록 (삭제 전 쿠키/캐시 범위 계산용)
+   *
+   * @param range 기간/사이트 범위
+   */
+  public async getUrlsInRange(range: VisitRange): Promise<string[]> {
+    try {
+      return await this.historyRepository.findUrlsInRange(range);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryManager: Failed to get urls in range', err);
+      throw error;
+    }
+  }
+
+  /**
+   * 범위 안의 방문 삭제 (1회 배치, 북마크 여부와 무관)
+   *
+   * @param range 기간/사이트 범위
+   * @param batchSize 한 번에 삭제할 최대 방문 수
+   * @returns 삭제된 방문 수
+   */
+  public async removeInRange(range: VisitRange, batchSize: number): Promise<number> {
+    try {
+      return await this.historyRepository.deleteVisitsInRange(range, batchSize);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryManager: Failed to remove entries in range', err);
+      throw error;
+    }
+  }
+
+  /**
+   * 가져온 방문 저장 (1회 배치, 같은 URL/시각의 방문은 건너뜀)
+   *
+   * @param entries 방문 시간 순서의 방문 (referrer는 저장된 방문 ID 또는 배치 안 위치)
+   * @returns 입력 순서대로 방문 ID와 새로 만들었는지 여부
+   */
+  public async importVisits(entries: VisitImportInput[]): Promise<ImportedVisitRef[]> {
+    try {
+      return await this.historyRepository.importVisits(entries);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryManager: Failed to import visits', err);
+      throw error;
+    }
+  }
+
+  /**
+   * 범위 안의 방문이 있는 URL의 파비콘 삭제
+   *
+   * @param range 기간/사이트 범위
+   * @returns 파비콘을 지운 URL 수
+   */
+  public async clearFavicons(range: VisitRange): Promise<number> {
+    try {
+      return await this.historyRepository.clearFavicons(range);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryManager: Failed to clear favicons', err);
+      throw error;
+    }
+  }
+
+  /**
+   * frecency 재계산 (최근성 구간이 바뀔 수 있는 URL만)
+   *
+   * @returns 재계산한 URL 수
+   */
+  public async recalculateFrecency(): Promise<number> {
+    try {
+      const now = new Date();
+      const count = await this.historyRepository.recalculateFrecency(frecencyDecaySince(now), now);
+      this.logger.info('HistoryManager: Frecency recalculated', {
+        module: 'HistoryManager',
+        metadata: { count },
+      });
+      return count;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryManager: Failed to recalculate frecency', err);
+      throw error;
+    }
+  }
+
   /**
    * 히스토리 항목 수 조회
    *
@@ -4,14 +4,19 @@
  * 책임: 활성 탭의 상태를 데이터베이스에 저장/조회
  * - 탭 CRUD (DatabaseService → TabRepository)
  * - 활성 탭 관리
+ * - 윈도우별 탭 순서/이동
+ * - 탭별 네비게이션 스택 저장/조회
  *
  * SRP 원칙: 상태 저장소만 담당
  * 비즈니스 로직은 TabService에, IPC 처리는 TabHandler에 위임
  */
 
 import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
-import type { BrowserTab } from '../../shared/types/domain';
-import { TabRepository } from '../services/database/TabRepository';
+import type { BrowserTab as PrismaBrowserTab } from '@prisma/client';
+import type { BrowserTab, TabNavigationEntry, TabState } from '../../shared/types/domain';
+import { TabRepository, type NavigationEntryInput } from '../services/database/TabRepository';
+
+const TAB_STATES: readonly TabState[] = ['active', 'background', 'suspended', 'discarded'];
 
 /**
  * 탭 상태 저장소 (DB 기반)
@@ -37,14 +42,16 @@ export class TabManager {
    *
    * @param url 탭의 URL
    * @param title 탭의 제목
+   * @param windowId 소속 윈도우 ID (윈도우의 마지막 위치에 추가)
    * @returns 생성된 탭
    */
-  public async addTab(url: string, title?: string): Promise<BrowserTab> {
+  public async addTab(url: string, title?: string, windowId?: string | null): Promise<BrowserTab> {
     try {
       const tab = await this.tabRepository.create({
         url,
         title: title ?? 'New Tab',
-        isActive: false
+        isActive: false,
+        windowId: windowId ?? null
       });
 
       this.logger.info('TabManager: Tab added', {
@@ -52,7 +59,7 @@ export class TabManager {
         metadata: { tabId: tab.id, url: tab.url },
       });
 
-      return tab;
+      return this.toDomainTab(tab);
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('TabManager: Failed to add tab', err);
@@ -91,7 +98,8 @@ export class TabManager {
    */
   public async getTab(tabId: string): Promise<BrowserTab | null> {
     try {
-      return await this.tabRepository.findById(tabId);
+      const tab = await this.tabRepository.findById(tabId);
+      return tab ? this.toDomainTab(tab) : null;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('TabManager: Failed to get tab', err);
@@ -106,7 +114,8 @@ export class TabManager {
    */
   public async getAllTabs(): Promise<BrowserTab[]> {
     try {
-      return await this.tabRepository.findAll();
+      const tabs = await this.tabRepository.findAll();
+      return tabs.map((tab) => this.toDomainTab(tab));
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('TabManager: Failed to get all tabs', err);
@@ -141,6 +150,63 @@ export class TabManager {
     }
   }
 
+  /**
+   * 윈도우의 탭 조회 (탭 순서대로)
+   *
+   * @param windowId 윈도우 ID
+   */
+  public async getTabsByWindow(windowId: string): Promise<BrowserTab[]> {
+    try {
+      const tabs = await this.tabRepository.findByWindow(windowId);
+      return tabs.map((tab) => this.toDomainTab(tab));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabManager: Failed to get tabs by window', err);
+      throw error;
+    }
+  }
+
+  /**
+   * 탭 이동 (윈도우 내 재정렬 또는 다른 윈도우로 이동)
+   *
+   * @param tabId 이동할 탭 ID
+   * @param windowId 대상 윈도우 ID
+   * @param index 대상 위치
+   * @returns 이동 후 탭
+   */
+  public async moveTab(tabId: string, windowId: string, index: number): Promise<BrowserTab> {
+    try {
+      const tab = await this.tabRepository.move(tabId, windowId, index);
+
+      this.logger.info('TabManager: Tab moved', {
+        module: 'TabManager',
+        metadata: { tabId, windowId, index: tab.index },
+      });
+
+      return this.toDomainTab(tab);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabManager: Failed to move tab', err);
+      throw error;
+    }
+  }
+
+  /**
+   * 탭 소속 윈도우 재매핑 (세션 복원 시)
+   *
+   * @param mapping 이전 윈도우 ID → 새 윈도우 ID
+   * @param fallbackWindowId 매핑에 없는 탭이 속할 윈도우 ID
+   */
+  public async reassignWindows(mapping: Map<string, string>, fallbackWindowId: string): Promise<void> {
+    try {
+      await this.tabRepository.reassignWindows(mapping, fallbackWindowId);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabManager: Failed to reassign windows', err);
+      throw error;
+    }
+  }
+
   /**
    * 활성 탭 설정
    *
@@ -172,7 +238,8 @@ export class TabManager {
   public async getActiveTab(): Promise<BrowserTab | null> {
     try {
       const tabs = await this.tabRepository.findAll();
-      return tabs.find((tab: BrowserTab) => tab.isActive) ?? null;
+      const activeTab = tabs.find((tab) => tab.isActive);
+      return activeTab ? this.toDomainTab(activeTab) : null;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('TabManager: Failed to get active tab', err);
@@ -220,7 +287,8 @@ export class TabManager {
    */
   public async getTabByUrl(url: string): Promise<BrowserTab | null> {
     try {
-      return await this.tabRepository.findByUrl(url);
+      const tab = await this.tabRepository.findByUrl(url);
+      return tab ? this.toDomainTab(tab) : null;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('TabManager: Failed to get tab by URL', err);
@@ -241,4 +309,79 @@ export class TabManager {
       throw error;
     }
   }
+
+  /**
+   * 탭 네비게이션 스택 조회
+   *
+   * @param tabId 탭 ID
+   * @returns index 오름차순 항목 배열
+   */
+  public async getNavigationEntries(tabId: string): Promise<TabNavigationEntry[]> {
+    try {
+      return await this.tabRepository.findNavigationEntries(tabId);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabManager: Failed to get navigation entries', err);
+      throw error;
+    }
+  }
+
+  /**
+   * 탭 네비게이션 스택 저장 (전체 교체)
+   *
+   * @param tabId 탭 ID
+   * @param entries 스택 항목 (index 순서)
+   * @param currentIndex 현재 위치
+   */
+  public async saveNavigationStack(
+    tabId: string,
+    entries: NavigationEntryInput[],
+    currentIndex: number
+  ): Promise<void> {
+    try {
+      await this.tabRepository.replaceNavigationEntries(tabId, entries, currentIndex);
+
+      this.logger.debug('TabManager: Navigation stack saved', {
+        module: 'TabManager',
+        metadata: { tabId, length: entries.length, currentIndex },
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabManager: Failed to save navigation stack', err);
+      throw error;
+    }
+  }
+
+  /**
+   * 네비게이션 항목 스크롤 위치 저장
+   *
+   * @param tabId 탭 ID
+   * @param index 스택 위치
+   * @param scrollX 가로 스크롤 (px)
+   * @param scrollY 세로 스크롤 (px)
+   */
+  public async saveScrollPosition(
+    tabId: string,
+    index: number,
+    scrollX: number,
+    scrollY: number
+  ): Promise<void> {
+    try {
+      await this.tabRepository.updateNavigationScroll(tabId, index, scrollX, scrollY);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabManager: Failed to save scroll position', err);
+      throw error;
+    }
+  }
+
+  /**
+   * DB 탭 → 도메인 탭 변환 (알 수 없는 state는 background로)
+   *
+   * @private
+   */
+  private toDomainTab(tab: PrismaBrowserTab): BrowserTab {
+    const state = TAB_STATES.find((value) => value === tab.state) ?? 'background';
+    return { ...tab, state };
+  }
 }
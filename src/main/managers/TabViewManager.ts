@@ -0,0 +1,688 @@
+/**
+ * TabViewManager - 탭별 WebContentsView 관리
+ *
+ * 책임: 탭 하나당 WebContentsView 하나를 생성/부착/배치/파괴
+ * - 뷰 생성 및 윈도우(contentView)에 부착
+ * - 활성 탭 전환 시 보이는 뷰 전환
+ * - 윈도우 리사이즈 시 뷰 bounds 재계산
+ * - 페이지 이벤트(did-navigate, page-title-updated, page-favicon-updated)를
+ *   TabManager.updateTab으로 반영하여 DB와 실제 페이지 상태 동기화
+ *   (메인 프레임 이동은 tab:navigated로 발행)
+ * - 네비게이션 스택(뒤로/앞으로) 저장 및 뷰 생성 시 복원
+ * - 배경 탭 동결(suspend)/해제 및 폐기(discard: 스택 저장 후 webContents 파괴)
+ * - 사이트별 설정 적용: 팝업(window.open) 허용 여부
+ *
+ * SRP 원칙: 탭 ↔ 뷰 매핑과 뷰 생명주기만 담당
+ * 탭 상태 저장은 TabManager에, 탭 비즈니스 로직은 TabService에 위임
+ */
+
+import { WebContentsView, type BrowserWindow, type Rectangle, type WebContents } from 'electron';
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import type { BrowserTab } from '../../shared/types/domain';
+import { EventBus } from '../core/EventBus';
+import type { WindowManager } from '../core/window';
+import type { TabManager } from './TabManager';
+
+export interface TabViewManagerConfig {
+  /** 탭 바/주소창 등 renderer UI가 차지하는 상단 높이 (px) */
+  topOffset?: number;
+}
+
+/**
+ * 탭 뷰 항목 (뷰 + 소속 윈도우)
+ */
+interface TabViewEntry {
+  view: WebContentsView;
+  windowId: string;
+}
+
+/**
+ * TabViewManager가 쓰는 WindowManager / TabManager 기능
+ */
+export type TabViewWindows = Pick<WindowManager, 'getWindow' | 'getMainWindowId'>;
+export type TabViewStore = Pick<
+  TabManager,
+  'updateTab' | 'getNavigationEntries' | 'saveNavigationStack' | 'saveScrollPosition'
+>;
+
+/**
+ * 탭 뷰에 적용할 사이트별 설정 (SiteSettingsService)
+ */
+export interface TabViewSitePolicy {
+  /** 이 페이지가 팝업을 열 수 있는지 */
+  allowsPopups(url: string): boolean;
+}
+
+/**
+ * 탭 뷰 관리자
+ */
+export class TabViewManager {
+  private logger: ILogger;
+  private views: Map<string, TabViewEntry> = new Map();
+  private visibleTabIds: Map<string, string> = new Map(); // windowId → tabId
+  private attachedWindows: Set<string> = new Set();
+  private restoring: Map<string, Promise<void>> = new Map();
+  private frozenTabIds: Set<string> = new Set();
+  private sitePolicy: TabViewSitePolicy | null = null;
+  private config: Required<TabViewManagerConfig>;
+
+  constructor(
+    private windowManager: TabViewWindows,
+    private tabManager: TabViewStore,
+    config: TabViewManagerConfig = {}
+  ) {
+    this.logger = new LoggerImpl('TabViewManager', LogLevel.INFO);
+    this.config = {
+      topOffset: 80,
+      ...config,
+    };
+  }
+
+  /**
+   * 사이트별 설정 연결 (SiteSettingsService 생성 후)
+   */
+  public setSitePolicy(policy: TabViewSitePolicy): void {
+    this.sitePolicy = policy;
+  }
+
+  /**
+   * 탭용 뷰 생성 및 윈도우에 부착 (숨김 상태)
+   *
+   * @param tab 대상 탭
+   * @param windowId 부착할 윈도우 ID (기본: 탭의 소속 윈도우, 없으면 메인 윈도우)
+   * @returns 생성된 뷰 또는 null (윈도우 없음/실패 시)
+   */
+  public createView(tab: BrowserTab, windowId?: string): WebContentsView | null {
+    try {
+      const existing = this.views.get(tab.id);
+      if (existing) {
+        return existing.view;
+      }
+
+      const targetWindowId = windowId ?? this.resolveWindowId(tab.windowId);
+      const window = targetWindowId ? this.windowManager.getWindow(targetWindowId) : null;
+      if (!targetWindowId || !window || window.isDestroyed()) {
+        this.logger.warn('TabViewManager: No window to attach view', {
+          module: 'TabViewManager',
+          metadata: { tabId: tab.id, windowId: targetWindowId },
+        });
+        return null;
+      }
+
+      const view = new WebContentsView({
+        webPreferences: {
+          nodeIntegration: false,
+          contextIsolation: true,
+          sandbox: true,
+        },
+      });
+
+      this.setupViewEvents(tab.id, view.webContents);
+      this.attachWindowEvents(window, targetWindowId);
+
+      view.setVisible(false);
+      window.contentView.addChildView(view);
+      view.setBounds(this.calculateBounds(window));
+
+      this.views.set(tab.id, { view, windowId: targetWindowId });
+
+      const restore = this.loadInitialContent(tab, view.webContents).finally(() => {
+        this.restoring.delete(tab.id);
+      });
+      this.restoring.set(tab.id, restore);
+
+      this.logger.info('TabViewManager: View created', {
+        module: 'TabViewManager',
+        metadata: { tabId: tab.id, windowId: targetWindowId, url: tab.url },
+      });
+
+      return view;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabViewManager: Failed to create view', err);
+      return null;
+    }
+  }
+
+  /**
+   * 탭 뷰를 보이도록 전환 (같은 윈도우의 다른 뷰는 숨김)
+   *
+   * @param tabId 보일 탭 ID
+   * @returns 성공 여부 (뷰가 없으면 false)
+   */
+  public showView(tabId: string): boolean {
+    try {
+      const entry = this.views.get(tabId);
+      if (!entry) {
+        return false;
+      }
+
+      const window = this.windowManager.getWindow(entry.windowId);
+      if (!window || window.isDestroyed()) {
+        return false;
+      }
+
+      // 동결된 탭은 표시 전에 해제
+      if (this.frozenTabIds.has(tabId)) {
+        void this.setFrozen(tabId, false);
+      }
+
+      const previousTabId = this.visibleTabIds.get(entry.windowId);
+      if (previousTabId && previousTabId !== tabId) {
+        this.views.get(previousTabId)?.view.setVisible(false);
+      }
+
+      // 이미 부착된 뷰를 다시 추가하면 최상단으로 이동
+      window.contentView.addChildView(entry.view);
+      entry.view.setBounds(this.calculateBounds(window));
+      entry.view.setVisible(true);
+      entry.view.webContents.focus();
+
+      this.visibleTabIds.set(entry.windowId, tabId);
+
+      this.logger.info('TabViewManager: View shown', {
+        module: 'TabViewManager',
+        metadata: { tabId, windowId: entry.windowId },
+      });
+
+      return true;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabViewManager: Failed to show view', err);
+      return false;
+    }
+  }
+
+  /**
+   * 탭 뷰 파괴 (윈도우에서 분리 + webContents 종료)
+   *
+   * @param tabId 대상 탭 ID
+   */
+  public destroyView(tabId: string): void {
+    try {
+      const entry = this.views.get(tabId);
+      if (!entry) {
+        return;
+      }
+
+      this.views.delete(tabId);
+      this.frozenTabIds.delete(tabId);
+      if (this.visibleTabIds.get(entry.windowId) === tabId) {
+        this.visibleTabIds.delete(entry.windowId);
+      }
+
+      const window = this.windowManager.getWindow(entry.windowId);
+      if (window && !window.isDestroyed()) {
+        window.contentView.removeChildView(entry.view);
+      }
+
+      if (!entry.view.webContents.isDestroyed()) {
+        entry.view.webContents.close();
+      }
+
+      this.logger.info('TabViewManager: View destroyed', {
+        module: 'TabViewManager',
+        metadata: { tabId, windowId: entry.windowId },
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabViewManager: Failed to destroy view', err);
+    }
+  }
+
+  /**
+   * 탭 뷰 폐기 (discard)
+   * - 스크롤 위치와 네비게이션 스택을 저장한 뒤 webContents 파괴
+   * - 탭 행은 유지되며, 다시 createView 하면 저장된 스택으로 새로 로드
+   * - 윈도우에 표시 중인 뷰는 폐기하지 않음
+   *
+   * @param tabId 대상 탭 ID
+   * @returns 폐기 여부
+   */
+  public async discardView(tabId: string): Promise<boolean> {
+    try {
+      const entry = this.views.get(tabId);
+      if (!entry || this.visibleTabIds.get(entry.windowId) === tabId) {
+        return false;
+      }
+
+      const webContents = entry.view.webContents;
+      if (!webContents.isDestroyed()) {
+        await this.whenReady(tabId);
+        if (!this.frozenTabIds.has(tabId)) {
+          await this.captureScrollPosition(tabId, webContents);
+        }
+        await this.persistNavigationStack(tabId, webContents);
+      }
+
+      this.destroyView(tabId);
+
+      this.logger.info('TabViewManager: View discarded', {
+        module: 'TabViewManager',
+        metadata: { tabId, windowId: entry.windowId },
+      });
+
+      return true;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabViewManager: Failed to discard view', err);
+      return false;
+    }
+  }
+
+  /**
+   * 탭 페이지 동결/해제 (suspend)
+   * - Chromium Page Lifecycle 'frozen' 상태로 전환하여 스크립트/타이머 실행 중지
+   * - DevTools가 열려 있으면 디버거를 붙일 수 없으므로 건너뜀
+   *
+   * @param tabId 대상 탭 ID
+   * @param frozen true면 동결, false면 해제
+   * @returns 요청한 상태로 전환되었는지 여부
+   */
+  public async setFrozen(tabId: string, frozen: boolean): Promise<boolean> {
+    try {
+      const webContents = this.getWebContents(tabId);
+      if (!webContents) {
+        return false;
+      }
+      if (this.frozenTabIds.has(tabId) === frozen) {
+        return true;
+      }
+      if (frozen && webContents.isDevToolsOpened()) {
+        return false;
+      }
+
+      const devtools = webContents.debugger;
+      if (!devtools.isAttached()) {
+        devtools.attach('1.3');
+      }
+      await devtools.sendCommand('Page.setWebLifecycleState', {
+        state: frozen ? 'frozen' : 'active',
+      });
+
+      if (frozen) {
+        this.frozenTabIds.add(tabId);
+      } else {
+        this.frozenTabIds.delete(tabId);
+        devtools.detach();
+      }
+
+      this.logger.info('TabViewManager: View lifecycle changed', {
+        module: 'TabViewManager',
+        metadata: { tabId, frozen },
+      });
+
+      return true;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabViewManager: Failed to change view lifecycle', err);
+      return false;
+    }
+  }
+
+  /**
+   * 탭 페이지 동결 여부
+   */
+  public isFrozen(tabId: string): boolean {
+    return this.frozenTabIds.has(tabId);
+  }
+
+  /**
+   * 모든 탭 뷰 파괴
+   */
+  public destroyAllViews(): void {
+    for (const tabId of Array.from(this.views.keys())) {
+      this.destroyView(tabId);
+    }
+  }
+
+  /**
+   * 뷰 초기 로드(네비게이션 스택 복원) 완료 대기
+   *
+   * @param tabId 대상 탭 ID
+   */
+  public async whenReady(tabId: string): Promise<void> {
+    await this.restoring.get(tabId);
+  }
+
+  /**
+   * 탭 뷰 존재 여부
+   */
+  public hasView(tabId: string): boolean {
+    return this.views.has(tabId);
+  }
+
+  /**
+   * 뷰가 있는 탭 ID 목록
+   */
+  public getTabIds(): string[] {
+    return [...this.views.keys()];
+  }
+
+  /**
+   * 탭 뷰 조회
+   */
+  public getView(tabId: string): WebContentsView | null {
+    return this.views.get(tabId)?.view ?? null;
+  }
+
+  /**
+   * 탭의 webContents 조회
+   */
+  public getWebContents(tabId: string): WebContents | null {
+    const view = this.getView(tabId);
+    if (!view || view.webContents.isDestroyed()) {
+      return null;
+    }
+    return view.webContents;
+  }
+
+  /**
+   * 탭 뷰를 다른 윈도우로 이동 (숨김 상태로 부착)
+   *
+   * @param tabId 대상 탭 ID
+   * @param windowId 대상 윈도우 ID
+   * @returns 성공 여부 (뷰 또는 대상 윈도우가 없으면 false)
+   */
+  public moveView(tabId: string, windowId: string): boolean {
+    try {
+      const entry = this.views.get(tabId);
+      if (!entry) {
+        return false;
+      }
+      if (entry.windowId === windowId) {
+        return true;
+      }
+
+      const target = this.windowManager.getWindow(windowId);
+      if (!target || target.isDestroyed()) {
+        return false;
+      }
+
+      const source = this.windowManager.getWindow(entry.windowId);
+      if (source && !source.isDestroyed()) {
+        source.contentView.removeChildView(entry.view);
+      }
+      if (this.visibleTabIds.get(entry.windowId) === tabId) {
+        this.visibleTabIds.delete(entry.windowId);
+      }
+
+      this.attachWindowEvents(target, windowId);
+      entry.view.setVisible(false);
+      target.contentView.addChildView(entry.view);
+      entry.view.setBounds(this.calculateBounds(target));
+
+      this.logger.info('TabViewManager: View moved', {
+        module: 'TabViewManager',
+        metadata: { tabId, from: entry.windowId, to: windowId },
+      });
+
+      entry.windowId = windowId;
+      return true;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabViewManager: Failed to move view', err);
+      return false;
+    }
+  }
+
+  /**
+   * 뷰를 부착할 윈도우 ID 결정
+   * - 지정 윈도우가 열려있으면 그 윈도우, 아니면 메인 윈도우
+   *
+   * @param windowId 희망 윈도우 ID
+   */
+  public resolveWindowId(windowId?: string | null): string | null {
+    if (windowId) {
+      const window = this.windowManager.getWindow(windowId);
+      if (window && !window.isDestroyed()) {
+        return windowId;
+      }
+    }
+    return this.windowManager.getMainWindowId();
+  }
+
+  /**
+   * 윈도우에 현재 보이는 탭 ID 조회
+   *
+   * @param windowId 윈도우 ID (기본: 메인 윈도우)
+   */
+  public getVisibleTabId(windowId?: string): string | null {
+    const targetWindowId = windowId ?? this.windowManager.getMainWindowId();
+    if (!targetWindowId) {
+      return null;
+    }
+    return this.visibleTabIds.get(targetWindowId) ?? null;
+  }
+
+  /**
+   * 윈도우 내 모든 뷰 bounds 재계산
+   *
+   * @param windowId 윈도우 ID
+   */
+  public layoutWindow(windowId: string): void {
+    try {
+      const window = this.windowManager.getWindow(windowId);
+      if (!window || window.isDestroyed()) {
+        return;
+      }
+
+      const bounds = this.calculateBounds(window);
+      for (const entry of this.views.values()) {
+        if (entry.windowId === windowId) {
+          entry.view.setBounds(bounds);
+        }
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabViewManager: Failed to layout views', err);
+    }
+  }
+
+  /**
+   * 뷰 초기 콘텐츠 로드
+   * - 저장된 네비게이션 스택이 있으면 뒤로/앞으로 기록까지 복원
+   * - 없으면 탭 URL만 로드
+   *
+   * @private
+   */
+  private async loadInitialContent(tab: BrowserTab, webContents: WebContents): Promise<void> {
+    try {
+      const entries = await this.tabManager.getNavigationEntries(tab.id);
+
+      if (entries.length === 0) {
+        if (tab.url) {
+          await webContents.loadURL(tab.url);
+        }
+        return;
+      }
+
+      const index = Math.min(Math.max(tab.navigationIndex, 0), entries.length - 1);
+      const active = entries[index];
+
+      // pageState가 없으면 저장된 스크롤 위치로 직접 이동
+      if (active && !active.pageState && (active.scrollX > 0 || active.scrollY > 0)) {
+        webContents.once('did-finish-load', () => {
+          webContents
+            .executeJavaScript(`window.scrollTo(${active.scrollX}, ${active.scrollY})`)
+            .catch(() => undefined);
+        });
+      }
+
+      await webContents.navigationHistory.restore({
+        index,
+        entries: entries.map((entry) => ({
+          url: entry.url,
+          title: entry.title,
+          ...(entry.pageState ? { pageState: entry.pageState } : {}),
+        })),
+      });
+
+      this.logger.info('TabViewManager: Navigation stack restored', {
+        module: 'TabViewManager',
+        metadata: { tabId: tab.id, length: entries.length, index },
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabViewManager: Failed to load initial content', err);
+    }
+  }
+
+  /**
+   * 현재 네비게이션 스택을 DB에 저장
+   *
+   * @private
+   */
+  private async persistNavigationStack(tabId: string, webContents: WebContents): Promise<void> {
+    try {
+      if (webContents.isDestroyed()) {
+        return;
+      }
+
+      const history = webContents.navigationHistory;
+      const entries = history.getAllEntries().map((entry) => ({
+        url: entry.url,
+        title: entry.title,
+        pageState: entry.pageState ?? null,
+      }));
+
+      await this.tabManager.saveNavigationStack(tabId, entries, history.getActiveIndex());
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabViewManager: Failed to persist navigation stack', err);
+    }
+  }
+
+  /**
+   * 떠나는 페이지의 스크롤 위치 저장 (best-effort)
+   *
+   * @private
+   */
+  private async captureScrollPosition(tabId: string, webContents: WebContents): Promise<void> {
+    try {
+      const index = webContents.navigationHistory.getActiveIndex();
+      if (index < 0) {
+        return;
+      }
+
+      const [scrollX, scrollY] = (await webContents.executeJavaScript(
+        '[Math.round(window.scrollX), Math.round(window.scrollY)]'
+      )) as [number, number];
+
+      await this.tabManager.saveScrollPosition(tabId, index, scrollX, scrollY);
+    } catch {
+      // 페이지가 이미 언로드된 경우 등은 무시
+    }
+  }
+
+  /**
+   * 뷰 영역 계산 (윈도우 콘텐츠 영역 - 상단 UI)
+   *
+   * @private
+   */
+  private calculateBounds(window: BrowserWindow): Rectangle {
+    const { width, height } = window.getContentBounds();
+    const top = Math.min(this.config.topOffset, height);
+
+    return {
+      x: 0,
+      y: top,
+      width,
+      height: Math.max(0, height - top),
+    };
+  }
+
+  /**
+   * 윈도우 이벤트 등록 (윈도우당 1회)
+   *
+   * @private
+   */
+  private attachWindowEvents(window: BrowserWindow, windowId: string): void {
+    if (this.attachedWindows.has(windowId)) {
+      return;
+    }
+    this.attachedWindows.add(windowId);
+
+    window.on('resize', () => this.layoutWindow(windowId));
+
+    // 윈도우가 닫혀도 WebContentsView의 webContents는 남으므로 직접 종료
+    window.on('closed', () => {
+      this.attachedWindows.delete(windowId);
+      for (const [tabId, entry] of Array.from(this.views.entries())) {
+        if (entry.windowId === windowId) {
+          this.destroyView(tabId);
+        }
+      }
+      this.visibleTabIds.delete(windowId);
+    });
+  }
+
+  /**
+   * 페이지 이벤트 → 탭 상태 동기화
+   *
+   * @private
+   */
+  private setupViewEvents(tabId: string, webContents: WebContents): void {
+    // 팝업은 여는 페이지의 사이트 설정으로 결정 (차단한 사이트만 거부)
+    webContents.setWindowOpenHandler(({ url }) => {
+      if (this.sitePolicy && !this.sitePolicy.allowsPopups(webContents.getURL())) {
+        this.logger.info('TabViewManager: Popup blocked', {
+          module: 'TabViewManager',
+          metadata: { tabId, url },
+        });
+        return { action: 'deny' };
+      }
+      return { action: 'allow' };
+    });
+
+    webContents.on('did-start-navigation', (details) => {
+      if (details.isMainFrame && !details.isSameDocument) {
+        void this.captureScrollPosition(tabId, webContents);
+      }
+    });
+
+    webContents.on('did-navigate', (_event, url) => {
+      EventBus.getInstance().emit('tab:navigated', { tabId, url });
+      void this.syncTab(tabId, { url });
+      void this.persistNavigationStack(tabId, webContents);
+    });
+
+    webContents.on('did-navigate-in-page', (_event, url, isMainFrame) => {
+      if (isMainFrame) {
+        EventBus.getInstance().emit('tab:navigated', { tabId, url });
+        void this.syncTab(tabId, { url });
+        void this.persistNavigationStack(tabId, webContents);
+      }
+    });
+
+    webContents.on('page-title-updated', (_event, title) => {
+      void this.syncTab(tabId, { title });
+      void this.persistNavigationStack(tabId, webContents);
+    });
+
+    webContents.on('page-favicon-updated', (_event, favicons) => {
+      const favicon = favicons[0];
+      if (favicon) {
+        void this.syncTab(tabId, { favicon });
+      }
+    });
+  }
+
+  /**
+   * 탭 DB 상태 업데이트 (이벤트 콜백용, 예외를 밖으로 던지지 않음)
+   *
+   * @private
+   */
+  private async syncTab(
+    tabId: string,
+    updates: Partial<Omit<BrowserTab, 'id' | 'createdAt'>>
+  ): Promise<void> {
+    try {
+      await this.tabManager.updateTab(tabId, updates);
+      EventBus.getInstance().emit('tab:updated', { tabId });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabViewManager: Failed to sync tab', err);
+    }
+  }
+}
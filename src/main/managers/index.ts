@@ -7,4 +7,4 @@
 export { TabManager } from './TabManager';
 export { HistoryManager } from './HistoryManager';
 export { ResourceManager } from './ResourceManager';
-export { ConfigManager } from './ConfigManager';
+export { TabViewManager } from './TabViewManager';
@@ -3,60 +3,109 @@
  *
  * 책임: 북마크 관리 로직
  * - 북마크 추가, 삭제, 조회 (BookmarkRepository)
- * - 폴더 관리
- * - 북마크 검색
+ * - 북마크 이동 / 폴더 안 순서 변경
+ * - 폴더 트리 관리: 생성, 이름 변경, 이동/순서 변경, 재귀 삭제 (BookmarkFolderRepository)
+ * - 태그: 생성/수정 시 저장, 태그별 개수, 이름 변경/병합
+ * - 북마크 검색 (텍스트 + tag: 필터)
  *
  * SRP 원칙: 북마크 관련 비즈니스 로직만 담당
- * 북마크 데이터 저장은 BookmarkRepository에 위임
+ * 북마크 데이터 저장은 BookmarkRepository, 폴더 트리 저장은 BookmarkFolderRepository에 위임
  */
 
 import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
-import type { Bookmark } from '../../shared/types/domain';
-import { BookmarkRepository } from './database/BookmarkRepository';
+import type {
+  Bookmark,
+  BookmarkFolder,
+  BookmarkFolderDeleteResult,
+  BookmarkTagCount,
+} from '../../shared/types/domain';
+import type { BookmarkRepository, BookmarkWithTags } from './database/BookmarkRepository';
+import type { BookmarkFolderRepository } from './database/BookmarkFolderRepository';
+import {
+  hasBookmarkCriteria,
+  normalizeTagName,
+  normalizeTags,
+  parseBookmarkQuery,
+} from './database/bookmarkQuery';
+
+/** BookmarkService가 쓰는 북마크 저장소 기능 */
+export type BookmarkServiceBookmarks = Pick<
+  BookmarkRepository,
+  | 'findAll'
+  | 'findById'
+  | 'search'
+  | 'create'
+  | 'update'
+  | 'countTags'
+  | 'mergeTags'
+  | 'move'
+  | 'delete'
+  | 'count'
+>;
+
+/** BookmarkService가 쓰는 폴더 저장소 기능 */
+export type BookmarkServiceFolders = Pick<
+  BookmarkFolderRepository,
+  'findAll' | 'findById' | 'create' | 'rename' | 'move' | 'deleteRecursive'
+>;
 
 /**
  * 북마크 서비스 (DB 기반)
  */
 export class BookmarkService {
   private logger: ILogger;
-  private bookmarkRepository: BookmarkRepository;
+  private bookmarkRepository: BookmarkServiceBookmarks;
+  private folderRepository: BookmarkServiceFolders;
 
-  private constructor(bookmarkRepository: BookmarkRepository) {
+  private constructor(
+    bookmarkRepository: BookmarkServiceBookmarks,
+    folderRepository: BookmarkServiceFolders
+  ) {
     this.logger = new LoggerImpl('BookmarkService', LogLevel.INFO);
     this.bookmarkRepository = bookmarkRepository;
+    this.folderRepository = folderRepository;
   }
 
   /**
    * BookmarkService 생성 (의존성 주입)
    */
-  static create(bookmarkRepository: BookmarkRepository): BookmarkService {
-    return new BookmarkService(bookmarkRepository);
+  static create(
+    bookmarkRepository: BookmarkServiceBookmarks,
+    folderRepository: BookmarkServiceFolders
+  ): BookmarkService {
+    return new BookmarkService(bookmarkRepository, folderRepository);
   }
 
   /**
-   * 북마크 추가
+   * 북마크 추가 (폴더 맨 뒤, 폴더가 없으면 최상위)
    */
-  public async createBookmark(bookmark: { url: string; title: string; folder?: string | undefined; tags?: string[] | undefined }): Promise<Bookmark> {
+  public async createBookmark(bookmark: { url: string; title: string; folderId?: string | undefined; tags?: string[] | undefined }): Promise<Bookmark> {
     try {
       this.logger.info('BookmarkService: Creating bookmark', {
         module: 'BookmarkService',
         metadata: { title: bookmark.title },
       });
 
-      const newBookmark = await this.bookmarkRepository.create({
-        url: bookmark.url || '',
-        title: bookmark.title || 'Untitled',
-        description: '',
-        folder: bookmark.folder || 'default',
-        favicon: null
-      });
+      const folderId = bookmark.folderId ?? null;
+      await this.assertFolderExists(folderId);
+
+      const newBookmark = await this.bookmarkRepository.create(
+        {
+          url: bookmark.url || '',
+          title: bookmark.title || 'Untitled',
+          description: '',
+          folderId,
+          favicon: null,
+        },
+        normalizeTags(bookmark.tags ?? [])
+      );
 
       this.logger.info('BookmarkService: Bookmark created successfully', {
         module: 'BookmarkService',
         metadata: { bookmarkId: newBookmark.id },
       });
 
-      return newBookmark;
+      return this.toBookmark(newBookmark);
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('BookmarkService: Failed to create bookmark', err);
@@ -95,7 +144,7 @@ export class BookmarkService {
       this.logger.info('BookmarkService: Getting all bookmarks');
 
       const bookmarks = await this.bookmarkRepository.findAll();
-      return bookmarks;
+      return bookmarks.map((bookmark) => this.toBookmark(bookmark));
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('BookmarkService: Failed to get all bookmarks', err);
@@ -104,19 +153,13 @@ export class BookmarkService {
   }
 
   /**
-   * 북마크 폴더 조회
+   * 북마크 폴더 조회 (부모, 위치순 평면 목록)
    */
-  public async getBookmarkFolders(): Promise<Array<{ id: string; name: string }>> {
+  public async getBookmarkFolders(): Promise<BookmarkFolder[]> {
     try {
       this.logger.info('BookmarkService: Getting bookmark folders');
 
-      const folders = await this.bookmarkRepository.getFolders();
-
-      // string[]을 { id, name } 객체 배열로 변환
-      return folders.map((folder, index) => ({
-        id: `folder-${index}`,
-        name: folder
-      }));
+      return await this.folderRepository.findAll();
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('BookmarkService: Failed to get bookmark folders', err);
@@ -125,29 +168,30 @@ export class BookmarkService {
   }
 
   /**
-   * 북마크 폴더 생성
+   * 북마크 폴더 생성 (부모 폴더 맨 뒤)
+   *
+   * @param parentId 상위 폴더 ID (생략 시 최상위)
    */
-  public async addFolder(folderName: string): Promise<{ id: string; name: string }> {
+  public async addFolder(folderName: string, parentId: string | null = null): Promise<BookmarkFolder> {
     try {
       if (!folderName || folderName.trim().length === 0) {
         throw new Error('폴더 이름을 입력해주세요');
       }
+      await this.assertFolderExists(parentId);
 
       this.logger.info('BookmarkService: Adding folder', {
         module: 'BookmarkService',
-        metadata: { folderName },
+        metadata: { folderName, parentId },
       });
 
-      // 폴더는 Prisma의 distinct API를 사용하여 생성
-      // 실제로는 북마크의 folder 필드에 저장되므로 여기서는 메타데이터로 관리
-      const folderId = `folder_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      const folder = await this.folderRepository.create(folderName.trim(), parentId);
 
       this.logger.info('BookmarkService: Folder added successfully', {
         module: 'BookmarkService',
-        metadata: { folderId },
+        metadata: { folderId: folder.id },
       });
 
-      return { id: folderId, name: folderName.trim() };
+      return folder;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('BookmarkService: Failed to add folder', err);
@@ -156,22 +200,24 @@ export class BookmarkService {
   }
 
   /**
-   * 북마크 폴더 삭제
+   * 북마크 폴더 삭제 (하위 폴더와 북마크 포함)
    */
-  public async deleteFolder(folderId: string): Promise<void> {
+  public async deleteFolder(folderId: string): Promise<BookmarkFolderDeleteResult> {
     try {
       this.logger.info('BookmarkService: Deleting folder', {
         module: 'BookmarkService',
         metadata: { folderId },
       });
 
-      // 폴더의 북마크들을 삭제
-      await this.bookmarkRepository.deleteByFolder(folderId);
+      await this.assertFolderExists(folderId);
+      const result = await this.folderRepository.deleteRecursive(folderId);
 
       this.logger.info('BookmarkService: Folder deleted successfully', {
         module: 'BookmarkService',
-        metadata: { folderId },
+        metadata: { folderId, ...result },
       });
+
+      return result;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('BookmarkService: Failed to delete folder', err);
@@ -179,21 +225,83 @@ export class BookmarkService {
     }
   }
 
+  /**
+   * 북마크 폴더 이동 (같은 부모면 순서만 변경)
+   *
+   * @param parentId 새 상위 폴더 ID (null = 최상위)
+   * @param index 새 부모 안의 위치 (생략 시 맨 뒤)
+   */
+  public async moveFolder(
+    folderId: string,
+    parentId: string | null,
+    index?: number
+  ): Promise<BookmarkFolder> {
+    try {
+      this.logger.info('BookmarkService: Moving folder', {
+        module: 'BookmarkService',
+        metadata: { folderId, parentId, index },
+      });
+
+      await this.assertFolderExists(folderId);
+      await this.assertFolderExists(parentId);
+
+      const folder = await this.folderRepository.move(folderId, parentId, index);
+      if (!folder) {
+        throw new Error('폴더를 자기 자신이나 하위 폴더로 옮길 수 없습니다');
+      }
+      return folder;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('BookmarkService: Failed to move folder', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 북마크 이동 (같은 폴더면 순서만 변경)
+   *
+   * @param folderId 새 폴더 ID (null = 최상위)
+   * @param index 새 폴더 안의 위치 (생략 시 맨 뒤)
+   */
+  public async moveBookmark(id: string, folderId: string | null, index?: number): Promise<Bookmark> {
+    try {
+      this.logger.info('BookmarkService: Moving bookmark', {
+        module: 'BookmarkService',
+        metadata: { bookmarkId: id, folderId, index },
+      });
+
+      if (!(await this.bookmarkRepository.findById(id))) {
+        throw new Error(`북마크를 찾을 수 없습니다: ${id}`);
+      }
+      await this.assertFolderExists(folderId);
+
+      return this.toBookmark(await this.bookmarkRepository.move(id, folderId, index));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('BookmarkService: Failed to move bookmark', err);
+      throw err;
+    }
+  }
+
   /**
    * 북마크 검색
+   * - 일반 검색어는 제목, URL, 설명에서 찾고 tag:name은 태그로 거름 (모두 AND)
    */
   public async searchBookmarks(query: string): Promise<Bookmark[]> {
     try {
-      if (!query || query.trim().length === 0) {
+      const parsed = parseBookmarkQuery(query ?? '');
+      if (!hasBookmarkCriteria(parsed)) {
         throw new Error('검색어를 입력해주세요');
       }
 
       this.logger.info('BookmarkService: Searching bookmarks', {
         module: 'BookmarkService',
-        metadata: { query },
+        metadata: { query, tags: parsed.tags },
       });
 
-      const results = await this.bookmarkRepository.search(query);
+      const results = (await this.bookmarkRepository.search(parsed)).map((bookmark) =>
+        this.toBookmark(bookmark)
+      );
 
       this.logger.info('BookmarkService: Bookmark search completed', {
         module: 'BookmarkService',
@@ -213,7 +321,7 @@ export class BookmarkService {
    */
   public async updateBookmark(
     id: string, 
-    updates: Partial<Omit<Bookmark, 'id' | 'createdAt'>> & { folder?: string | undefined; tags?: string[] | undefined }
+    updates: Partial<Omit<Bookmark, 'id' | 'folderId' | 'position' | 'tags' | 'createdAt'>> & { folderId?: string | null | undefined; tags?: string[] | undefined }
   ): Promise<Bookmark> {
     try {
       this.logger.info('BookmarkService: Updating bookmark', {
@@ -221,14 +329,25 @@ export class BookmarkService {
         metadata: { bookmarkId: id },
       });
 
-      const updatedBookmark = await this.bookmarkRepository.update(id, updates);
+      const { folderId, tags, ...fields } = updates;
+      let updatedBookmark = await this.bookmarkRepository.update(
+        id,
+        fields,
+        tags === undefined ? undefined : normalizeTags(tags)
+      );
+
+      // 폴더가 바뀌면 새 폴더 맨 뒤로 이동
+      if (folderId !== undefined && folderId !== updatedBookmark.folderId) {
+        await this.assertFolderExists(folderId);
+        updatedBookmark = await this.bookmarkRepository.move(id, folderId);
+      }
 
       this.logger.info('BookmarkService: Bookmark updated successfully', {
         module: 'BookmarkService',
         metadata: { bookmarkId: id },
       });
 
-      return updatedBookmark;
+      return this.toBookmark(updatedBookmark);
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('BookmarkService: Failed to update bookmark', err);
@@ -242,7 +361,7 @@ export class BookmarkService {
   public async getBookmark(id: string): Promise<Bookmark | null> {
     try {
       const bookmark = await this.bookmarkRepository.findById(id);
-      return bookmark ?? null;
+      return bookmark ? this.toBookmark(bookmark) : null;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('BookmarkService: Failed to get bookmark', err);
@@ -264,35 +383,114 @@ export class BookmarkService {
   }
 
   /**
-   * 폴더 이름 변경
+   * 폴더 이름 변경 (폴더 ID와 하위 폴더는 그대로)
    */
-  public async updateFolder(folderId: string, newName: string): Promise<{ id: string; name: string }> {
+  public async updateFolder(folderId: string, newName: string): Promise<BookmarkFolder> {
     try {
+      if (!newName || newName.trim().length === 0) {
+        throw new Error('폴더 이름을 입력해주세요');
+      }
+
       this.logger.info('BookmarkService: Updating folder', {
         module: 'BookmarkService',
         metadata: { folderId, newName },
       });
 
-      // 해당 폴더의 모든 북마크를 새 폴더명으로 업데이트
-      const bookmarks = await this.bookmarkRepository.findByFolder(folderId);
-      
-      for (const bookmark of bookmarks) {
-        await this.bookmarkRepository.update(bookmark.id, {
-          ...bookmark,
-          folder: newName
-        });
-      }
+      await this.assertFolderExists(folderId);
+      const folder = await this.folderRepository.rename(folderId, newName.trim());
 
       this.logger.info('BookmarkService: Folder updated successfully', {
         module: 'BookmarkService',
         metadata: { folderId, newName },
       });
 
-      return { id: folderId, name: newName };
+      return folder;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('BookmarkService: Failed to update folder', err);
       throw err;
     }
   }
+
+  /**
+   * 태그 목록 조회 (태그별 북마크 수, 많은 순)
+   */
+  public async getTags(): Promise<BookmarkTagCount[]> {
+    try {
+      return await this.bookmarkRepository.countTags();
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('BookmarkService: Failed to get tags', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 태그 이름 변경 (새 이름의 태그가 이미 있으면 병합)
+   *
+   * @returns 태그가 바뀐 북마크 수
+   */
+  public async renameTag(from: string, to: string): Promise<number> {
+    return this.mergeTags([from], to);
+  }
+
+  /**
+   * 여러 태그를 하나로 병합
+   *
+   * @param names 병합할 태그 이름
+   * @param into 남길 태그 이름 (없으면 새로 생김)
+   * @returns 태그가 바뀐 북마크 수
+   */
+  public async mergeTags(names: string[], into: string): Promise<number> {
+    try {
+      const target = normalizeTagName(into ?? '');
+      if (!target) {
+        throw new Error('태그 이름을 입력해주세요');
+      }
+
+      const existing = new Set((await this.bookmarkRepository.countTags()).map((tag) => tag.name));
+      const missing = names.find((name) => !existing.has(name));
+      if (missing !== undefined) {
+        throw new Error(`태그를 찾을 수 없습니다: ${missing}`);
+      }
+
+      this.logger.info('BookmarkService: Merging tags', {
+        module: 'BookmarkService',
+        metadata: { names, into: target },
+      });
+
+      const affected = await this.bookmarkRepository.mergeTags(names, target);
+
+      this.logger.info('BookmarkService: Tags merged successfully', {
+        module: 'BookmarkService',
+        metadata: { into: target, bookmarkCount: affected },
+      });
+
+      return affected;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('BookmarkService: Failed to merge tags', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 저장된 북마크 → 도메인 북마크 (태그는 이름만)
+   *
+   * @private
+   */
+  private toBookmark(bookmark: BookmarkWithTags): Bookmark {
+    return { ...bookmark, tags: bookmark.tags.map((tag) => tag.name) };
+  }
+
+  /**
+   * 폴더 존재 확인 (null = 최상위는 항상 존재)
+   *
+   * @private
+   */
+  private async assertFolderExists(folderId: string | null): Promise<void> {
+    if (folderId !== null && !(await this.folderRepository.findById(folderId))) {
+      throw new Error(`폴더를 찾을 수 없습니다: ${folderId}`);
+    }
+  }
 }
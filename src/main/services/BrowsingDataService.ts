@@ -0,0 +1,296 @@
+/**
+ * BrowsingDataService - 인터넷 사용 기록 삭제
+ *
+ * 책임: 기간/사이트 단위 삭제를 한 번의 작업으로 조율
+ * - 기간 프리셋 (지난 1시간 / 24시간 / 7일 / 4주 / 전체 기간)
+ * - "이 사이트 삭제": 사이트와 하위 도메인의 모든 방문 삭제
+ * - 방문 기록, 파비콘, 최근 닫은 탭/복원 대기 세션, 쿠키, HTTP 캐시를 순서대로 삭제
+ * - 단계가 끝날 때마다 진행 상황 콜백 호출
+ *
+ * 쿠키/캐시 범위:
+ * - 전체 기간 + 사이트 미지정: 세션 전체 삭제
+ * - 그 외: Electron이 쿠키/캐시 생성 시각을 제공하지 않으므로
+ *   범위 안에서 방문한 호스트(사이트 지정 시 해당 사이트)의 데이터만 삭제
+ *   (방문 기록을 지우기 전에 범위를 먼저 계산)
+ *
+ * SRP 원칙: 삭제 순서와 범위 계산만 담당
+ * 방문 기록은 HistoryManager, 닫은 탭은 RecentlyClosedRepository,
+ * 복원 대기 세션은 SessionRepository, 쿠키/캐시는 Electron session에 위임
+ *
+ * 발행 이벤트:
+ * - browsingData:cleared { timeRange, site, result }
+ */
+
+import { session, type Session } from 'electron';
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { EventBus } from '../core/EventBus';
+import type {
+  BrowsingDataClearOptions,
+  BrowsingDataClearResult,
+  BrowsingDataProgress,
+  BrowsingDataTimeRange,
+  BrowsingDataType,
+} from '../../shared/types/domain';
+import type { HistoryManager } from '../managers/HistoryManager';
+import type { VisitRange } from './database/HistoryRepository';
+import type { RecentlyClosedRepository } from './database/RecentlyClosedRepository';
+import { RECOVERY_SESSION_ID, type SessionRepository } from './database/SessionRepository';
+import { normalizeSite } from './database/historyQuery';
+
+/**
+ * 쿠키/캐시 삭제 범위 (null = 세션 전체)
+ */
+interface OriginScope {
+  domains: string[]; // cookies.get({ domain }) 필터 (하위 도메인 포함)
+  origins: string[]; // clearData({ origins }) 대상
+}
+
+/**
+ * 삭제에 쓰는 HistoryManager / Repository 기능
+ */
+export type BrowsingDataHistory = Pick<
+  HistoryManager,
+  'getUrlsInRange' | 'removeInRange' | 'clearFavicons'
+>;
+export type BrowsingDataClosedTabs = Pick<RecentlyClosedRepository, 'deleteInRange'>;
+export type BrowsingDataSessions = Pick<SessionRepository, 'find' | 'delete'>;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * 기간 프리셋 → 길이 (ms, null = 전체 기간)
+ */
+const TIME_RANGE_MS: Record<BrowsingDataTimeRange, number | null> = {
+  lastHour: HOUR_MS,
+  last24Hours: DAY_MS,
+  last7Days: 7 * DAY_MS,
+  last4Weeks: 28 * DAY_MS,
+  allTime: null,
+};
+
+/**
+ * 삭제 순서 (쿠키/캐시 범위는 방문 기록 삭제 전에 계산)
+ */
+const STEP_ORDER: BrowsingDataType[] = ['favicons', 'history', 'sessions', 'cookies', 'cache'];
+
+/**
+ * 인터넷 사용 기록 삭제 서비스
+ */
+export class BrowsingDataService {
+  private logger: ILogger;
+  private eventBus: EventBus;
+  private readonly HISTORY_BATCH_SIZE = 1000;
+
+  constructor(
+    private historyManager: BrowsingDataHistory,
+    private recentlyClosedRepository: BrowsingDataClosedTabs,
+    private sessionRepository: BrowsingDataSessions,
+    private getSession: () => Session = () => session.defaultSession
+  ) {
+    this.logger = new LoggerImpl('BrowsingDataService', LogLevel.INFO);
+    this.eventBus = EventBus.getInstance();
+  }
+
+  /**
+   * 인터넷 사용 기록 삭제
+   *
+   * @param options 기간, 사이트, 삭제 대상
+   * @param onProgress 단계 완료마다 호출
+   * @returns 삭제 결과
+   */
+  public async clear(
+    options: BrowsingDataClearOptions,
+    onProgress?: (progress: BrowsingDataProgress) => void
+  ): Promise<BrowsingDataClearResult> {
+    try {
+      const site = options.site !== undefined ? normalizeSite(options.site) : null;
+      if (options.site !== undefined && !site) {
+        throw new Error(`올바르지 않은 사이트입니다: ${options.site}`);
+      }
+
+      const rangeMs = TIME_RANGE_MS[options.timeRange];
+      const range: VisitRange = {
+        after: rangeMs !== null ? new Date(Date.now() - rangeMs) : null,
+        site,
+      };
+      const steps = STEP_ORDER.filter((step) => options.dataTypes.includes(step));
+      const needsScope = steps.includes('cookies') || steps.includes('cache');
+      const scope = needsScope ? await this.resolveOriginScope(range) : null;
+
+      const result: BrowsingDataClearResult = {
+        cleared: [],
+        removedVisits: 0,
+        removedFavicons: 0,
+        removedSessions: 0,
+        removedCookies: 0,
+      };
+
+      for (const step of steps) {
+        switch (step) {
+          case 'favicons':
+            result.removedFavicons = await this.historyManager.clearFavicons(range);
+            break;
+          case 'history':
+            result.removedVisits = await this.clearHistory(range);
+            break;
+          case 'sessions':
+            result.removedSessions = await this.clearSessions(range);
+            break;
+          case 'cookies':
+            result.removedCookies = await this.clearCookies(scope);
+            break;
+          case 'cache':
+            await this.clearCache(scope);
+            break;
+        }
+
+        result.cleared.push(step);
+        onProgress?.({ step, completedSteps: result.cleared.length, totalSteps: steps.length });
+      }
+
+      this.eventBus.emit('browsingData:cleared', {
+        timeRange: options.timeRange,
+        site,
+        result,
+      });
+
+      this.logger.info('BrowsingDataService: Browsing data cleared', {
+        module: 'BrowsingDataService',
+        metadata: { timeRange: options.timeRange, site, ...result },
+      });
+
+      return result;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('BrowsingDataService: Failed to clear browsing data', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 쿠키/캐시 삭제 범위 계산
+   * - 전체 기간 + 사이트 미지정이면 null (세션 전체)
+   * - 사이트 지정 시 사이트 자체 + 범위 안 방문 URL의 origin
+   * - 기간만 지정 시 범위 안 방문 URL의 호스트/origin
+   *
+   * @private
+   */
+  private async resolveOriginScope(range: VisitRange): Promise<OriginScope | null> {
+    if (!range.after && !range.site) {
+      return null;
+    }
+
+    const domains = new Set<string>();
+    const origins = new Set<string>();
+    if (range.site) {
+      domains.add(range.site);
+      origins.add(`https://${range.site}`);
+      origins.add(`http://${range.site}`);
+    }
+
+    const urls = await this.historyManager.getUrlsInRange(range);
+    for (const url of urls) {
+      try {
+        const parsed = new URL(url);
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+          continue;
+        }
+        if (!range.site) {
+          domains.add(parsed.hostname);
+        }
+        origins.add(parsed.origin);
+      } catch {
+        // 잘못된 URL은 무시
+      }
+    }
+
+    return { domains: [...domains], origins: [...origins] };
+  }
+
+  /**
+   * 범위 안의 방문 기록 삭제 (배치 반복)
+   *
+   * @private
+   */
+  private async clearHistory(range: VisitRange): Promise<number> {
+    let total = 0;
+    for (;;) {
+      const removed = await this.historyManager.removeInRange(range, this.HISTORY_BATCH_SIZE);
+      total += removed;
+      if (removed < this.HISTORY_BATCH_SIZE) {
+        return total;
+      }
+    }
+  }
+
+  /**
+   * 최근 닫은 탭과 복원 대기 세션 삭제
+   * - 복원 대기 세션은 사이트 단위로 나눌 수 없으므로 사이트 미지정 시에만 삭제
+   *
+   * @private
+   */
+  private async clearSessions(range: VisitRange): Promise<number> {
+    let removed = await this.recentlyClosedRepository.deleteInRange(range.after, range.site);
+
+    if (!range.site) {
+      const recovery = await this.sessionRepository.find(RECOVERY_SESSION_ID);
+      if (recovery && (!range.after || recovery.lastActiveAt >= range.after)) {
+        await this.sessionRepository.delete(RECOVERY_SESSION_ID);
+        removed += 1;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * 쿠키 삭제
+   *
+   * @private
+   */
+  private async clearCookies(scope: OriginScope | null): Promise<number> {
+    const targetSession = this.getSession();
+
+    if (!scope) {
+      const cookies = await targetSession.cookies.get({});
+      await targetSession.clearStorageData({ storages: ['cookies'] });
+      return cookies.length;
+    }
+
+    const seen = new Set<string>();
+    for (const domain of scope.domains) {
+      const cookies = await targetSession.cookies.get({ domain });
+      for (const cookie of cookies) {
+        const host = (cookie.domain ?? domain).replace(/^\./, '');
+        const url = `${cookie.secure ? 'https' : 'http'}://${host}${cookie.path ?? '/'}`;
+        const key = `${url}|${cookie.name}`;
+        if (seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+        await targetSession.cookies.remove(url, cookie.name);
+      }
+    }
+
+    return seen.size;
+  }
+
+  /**
+   * HTTP 캐시 삭제
+   *
+   * @private
+   */
+  private async clearCache(scope: OriginScope | null): Promise<void> {
+    const targetSession = this.getSession();
+
+    if (!scope) {
+      await targetSession.clearCache();
+      return;
+    }
+
+    if (scope.origins.length > 0) {
+      await targetSession.clearData({ dataTypes: ['cache'], origins: scope.origins });
+    }
+  }
+}
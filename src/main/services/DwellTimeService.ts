@@ -0,0 +1,272 @@
+/**
+ * DwellTimeService - 페이지 체류 시간 측정
+ *
+ * 책임: 탭의 페이지별 포그라운드 시간 측정 및 방문 기록에 저장
+ * - 탭 네비게이션 (tab:navigated)마다 페이지 세션 시작
+ * - 포그라운드 조건: 포커스된 윈도우의 보이는 탭 + 시스템 활성 상태
+ *   (탭 숨김, 윈도우 포커스 해제, 화면 잠금/절전, 유휴 상태에서 일시정지)
+ * - 유휴 상태는 powerMonitor로 주기 확인 (유휴가 시작된 시점부터 제외)
+ * - 다른 페이지로 이동하거나 탭을 닫거나 앱이 종료될 때 (shutdown) 누적 시간 저장
+ *
+ * SRP 원칙: 포그라운드 시간 측정만 담당
+ * 저장과 frecency 반영은 HistoryManager에 위임
+ */
+
+import { app, BrowserWindow, powerMonitor } from 'electron';
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { EventBus } from '../core/EventBus';
+import type { WindowManager } from '../core/window';
+import type { HistoryManager } from '../managers/HistoryManager';
+import type { TabViewManager } from '../managers/TabViewManager';
+
+/**
+ * 탭에 열린 페이지 하나의 측정 상태
+ */
+interface PageSession {
+  url: string;
+  openedAt: number;
+  foregroundMs: number;
+  foregroundSince: number | null; // 포그라운드 시작 시각 (백그라운드면 null)
+}
+
+/**
+ * 페이지 체류 시간 서비스
+ */
+export class DwellTimeService {
+  private logger: ILogger;
+  private eventBus: EventBus;
+  private sessions: Map<string, PageSession> = new Map(); // tabId → 페이지 세션
+  private systemActive = true; // 화면 잠금/절전이 아님
+  private idle = false;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private unsubscribers: Array<() => void> = [];
+  private readonly IDLE_THRESHOLD_SEC = 60;
+  private readonly IDLE_POLL_MS = 15000;
+  private readonly MIN_DWELL_MS = 1000;
+  private readonly VISIT_MATCH_SLACK_MS = 60 * 1000;
+
+  constructor(
+    private historyManager: Pick<HistoryManager, 'recordDwellTime'>,
+    private tabViewManager: Pick<TabViewManager, 'getVisibleTabId'>,
+    private windowManager: Pick<WindowManager, 'getWindowId'>
+  ) {
+    this.logger = new LoggerImpl('DwellTimeService', LogLevel.INFO);
+    this.eventBus = EventBus.getInstance();
+  }
+
+  /**
+   * 측정 시작 (app ready 이후 호출)
+   */
+  public initialize(): void {
+    try {
+      if (this.idleTimer) {
+        return;
+      }
+
+      const reconcile = () => this.reconcile();
+      const pauseSystem = () => {
+        this.systemActive = false;
+        this.reconcile();
+      };
+      const resumeSystem = () => {
+        this.systemActive = true;
+        this.reconcile();
+      };
+
+      app.on('browser-window-focus', reconcile);
+      app.on('browser-window-blur', reconcile);
+      powerMonitor.on('lock-screen', pauseSystem);
+      powerMonitor.on('suspend', pauseSystem);
+      powerMonitor.on('unlock-screen', resumeSystem);
+      powerMonitor.on('resume', resumeSystem);
+
+      this.unsubscribers = [
+        this.eventBus.on('tab:navigated', (data: { tabId: string; url: string }) =>
+          this.handleNavigated(data.tabId, data.url)
+        ),
+        this.eventBus.on('tab:selected', reconcile),
+        this.eventBus.on('tab:closed', (data: { tabId: string }) => {
+          void this.endSession(data.tabId);
+        }),
+        () => {
+          app.off('browser-window-focus', reconcile);
+          app.off('browser-window-blur', reconcile);
+          powerMonitor.off('lock-screen', pauseSystem);
+          powerMonitor.off('suspend', pauseSystem);
+          powerMonitor.off('unlock-screen', resumeSystem);
+          powerMonitor.off('resume', resumeSystem);
+        },
+      ];
+
+      this.idleTimer = setInterval(() => this.checkIdle(), this.IDLE_POLL_MS);
+
+      this.logger.info('DwellTimeService: Initialized', {
+        module: 'DwellTimeService',
+        metadata: { idleThresholdSec: this.IDLE_THRESHOLD_SEC },
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('DwellTimeService: Failed to initialize', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 측정 중지 및 열린 페이지의 체류 시간 저장 (앱 종료 작업으로 등록)
+   */
+  public async shutdown(): Promise<void> {
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+
+    const tabIds = Array.from(this.sessions.keys());
+    await Promise.all(tabIds.map((tabId) => this.endSession(tabId)));
+  }
+
+  /**
+   * 탭의 현재 페이지 포그라운드 시간 (ms, 측정 중인 페이지가 없으면 0)
+   */
+  public getForegroundTime(tabId: string): number {
+    const session = this.sessions.get(tabId);
+    if (!session) {
+      return 0;
+    }
+    return (
+      session.foregroundMs +
+      (session.foregroundSince !== null ? Date.now() - session.foregroundSince : 0)
+    );
+  }
+
+  /**
+   * 탭 네비게이션 → 이전 페이지 저장 후 새 페이지 세션 시작
+   * - 같은 URL (새로고침, 같은 문서 내 이동)은 이어서 측정
+   * - http(s)가 아닌 페이지는 측정하지 않음
+   *
+   * @private
+   */
+  private handleNavigated(tabId: string, url: string): void {
+    const current = this.sessions.get(tabId);
+    if (current?.url === url) {
+      return;
+    }
+
+    if (current) {
+      void this.endSession(tabId);
+    }
+
+    if (/^https?:\/\//i.test(url)) {
+      this.sessions.set(tabId, {
+        url,
+        openedAt: Date.now(),
+        foregroundMs: 0,
+        foregroundSince: null,
+      });
+    }
+    this.reconcile();
+  }
+
+  /**
+   * 페이지 세션 종료 및 체류 시간 저장 (예외를 밖으로 던지지 않음)
+   *
+   * @private
+   */
+  private async endSession(tabId: string): Promise<void> {
+    const session = this.sessions.get(tabId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(tabId);
+    this.pause(session, Date.now());
+
+    if (session.foregroundMs < this.MIN_DWELL_MS) {
+      return;
+    }
+
+    try {
+      const recorded = await this.historyManager.recordDwellTime(
+        session.url,
+        session.openedAt - this.VISIT_MATCH_SLACK_MS,
+        session.foregroundMs
+      );
+      if (!recorded) {
+        this.logger.debug('DwellTimeService: No visit to record dwell time', {
+          module: 'DwellTimeService',
+          metadata: { url: session.url, foregroundMs: session.foregroundMs },
+        });
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('DwellTimeService: Failed to record dwell time', err);
+    }
+  }
+
+  /**
+   * 유휴 상태 확인 (유휴가 시작된 시점부터 일시정지)
+   *
+   * @private
+   */
+  private checkIdle(): void {
+    try {
+      const idle = powerMonitor.getSystemIdleState(this.IDLE_THRESHOLD_SEC) !== 'active';
+      if (idle === this.idle) {
+        return;
+      }
+
+      this.idle = idle;
+      this.reconcile(idle ? Date.now() - powerMonitor.getSystemIdleTime() * 1000 : Date.now());
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('DwellTimeService: Failed to check idle state', err);
+    }
+  }
+
+  /**
+   * 포그라운드 탭 기준으로 모든 페이지 세션의 측정 상태 갱신
+   *
+   * @param pausedAt 일시정지 기준 시각 (유휴 시작 시각, 기본 현재)
+   * @private
+   */
+  private reconcile(pausedAt: number = Date.now()): void {
+    const now = Date.now();
+    const foregroundTabId = this.getForegroundTabId();
+
+    for (const [tabId, session] of this.sessions) {
+      if (tabId === foregroundTabId) {
+        session.foregroundSince ??= now;
+      } else {
+        this.pause(session, pausedAt);
+      }
+    }
+  }
+
+  /**
+   * 포그라운드 시간 누적 후 일시정지
+   *
+   * @private
+   */
+  private pause(session: PageSession, at: number): void {
+    if (session.foregroundSince === null) {
+      return;
+    }
+    session.foregroundMs += Math.max(0, at - session.foregroundSince);
+    session.foregroundSince = null;
+  }
+
+  /**
+   * 지금 포그라운드인 탭 (포커스된 윈도우의 보이는 탭, 시스템 비활성/유휴면 null)
+   *
+   * @private
+   */
+  private getForegroundTabId(): string | null {
+    if (!this.systemActive || this.idle) {
+      return null;
+    }
+
+    const focused = BrowserWindow.getFocusedWindow();
+    const windowId = focused ? this.windowManager.getWindowId(focused) : null;
+    return windowId ? this.tabViewManager.getVisibleTabId(windowId) : null;
+  }
+}
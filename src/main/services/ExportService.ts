@@ -0,0 +1,302 @@
+/**
+ * ExportService - 북마크/방문 기록 내보내기
+ *
+ * 책임: aside.db의 북마크와 방문 기록을 파일로 내보내기
+ * - 북마크: Netscape 북마크 HTML (폴더, 태그, 설명 유지) 또는 버전 있는 JSON
+ * - 방문 기록: 기간 내 방문을 CSV 또는 JSON으로 (페이지 단위로 읽어 스트리밍)
+ * - 저장 위치는 저장 대화상자로 선택, 임시 파일에 쓴 뒤 교체 (원자적)
+ *
+ * SRP 원칙: 읽기 순서와 파일 쓰기 조율만 담당
+ * 형식 변환은 export/ 모듈, 방문 조회는 HistoryManager,
+ * 북마크/폴더 조회는 BookmarkRepository, BookmarkFolderRepository에 위임
+ */
+
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { safeWriteFileStream } from '../../shared/platform';
+import type {
+  BookmarkExportFormat,
+  ExportResult,
+  FileDialogOptions,
+  HistoryEntry,
+  HistoryExportFormat,
+  HistoryExportOptions,
+} from '../../shared/types/domain';
+import type { BrowserWindow } from 'electron';
+import type { HistoryManager } from '../managers/HistoryManager';
+import type { BookmarkFolderRepository } from './database/BookmarkFolderRepository';
+import type { BookmarkRepository, BookmarkWithTags } from './database/BookmarkRepository';
+import type { VisitCursor } from './database/HistoryRepository';
+import {
+  EXPORT_FORMAT_VERSION,
+  showSaveDialog,
+  streamJsonDocument,
+  type ExportedBookmark,
+  type ExportedFolder,
+  type SaveDialogPicker,
+} from './export/common';
+import { serializeHistoryCsv } from './export/historyCsv';
+import { serializeNetscapeBookmarks } from './export/netscapeBookmarks';
+
+type ExportFormat = BookmarkExportFormat | HistoryExportFormat;
+
+/**
+ * 저장 대화상자 파일 형식 이름
+ */
+const FORMAT_NAMES: Record<ExportFormat, string> = {
+  html: 'HTML',
+  json: 'JSON',
+  csv: 'CSV',
+};
+
+/**
+ * 내보내기 서비스
+ */
+export class ExportService {
+  private logger: ILogger;
+  private readonly VISIT_PAGE_SIZE = 500;
+
+  constructor(
+    private historyManager: Pick<HistoryManager, 'getEntriesPage'>,
+    private bookmarkRepository: Pick<BookmarkRepository, 'findAllWithTags'>,
+    private bookmarkFolderRepository: Pick<BookmarkFolderRepository, 'findAll'>,
+    private pickSavePath: SaveDialogPicker = showSaveDialog
+  ) {
+    this.logger = new LoggerImpl('ExportService', LogLevel.INFO);
+  }
+
+  /**
+   * 북마크 내보내기
+   *
+   * @param format html (Netscape 북마크) 또는 json
+   * @param owner 저장 대화상자를 띄울 윈도우
+   * @returns 저장 위치와 내보낸 북마크 수 (취소하면 canceled)
+   */
+  public async exportBookmarks(
+    format: BookmarkExportFormat,
+    owner: BrowserWindow | null = null
+  ): Promise<ExportResult> {
+    try {
+      const filePath = await this.pickSavePath(
+        this.dialogOptions('북마크 내보내기', `bookmarks.${format}`, format),
+        owner
+      );
+      if (!filePath) {
+        return { canceled: true, filePath: null, count: 0 };
+      }
+
+      const { folders, bookmarks } = await this.readBookmarks();
+
+      await safeWriteFileStream(
+        filePath,
+        format === 'html'
+          ? serializeNetscapeBookmarks(folders, bookmarks)
+          : streamJsonDocument(
+              {
+                format: 'aside-bookmarks',
+                version: EXPORT_FORMAT_VERSION,
+                exportedAt: new Date().toISOString(),
+              },
+              'bookmarks',
+              bookmarks
+            )
+      );
+
+      this.logger.info('ExportService: Bookmarks exported', {
+        module: 'ExportService',
+        metadata: { format, count: bookmarks.length },
+      });
+
+      return { canceled: false, filePath, count: bookmarks.length };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('ExportService: Failed to export bookmarks', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 방문 기록 내보내기 (방문 시각 오름차순)
+   *
+   * @param options csv 또는 json, 기간 (생략 시 전체)
+   * @param owner 저장 대화상자를 띄울 윈도우
+   * @returns 저장 위치와 내보낸 방문 수 (취소하면 canceled)
+   */
+  public async exportHistory(
+    options: HistoryExportOptions,
+    owner: BrowserWindow | null = null
+  ): Promise<ExportResult> {
+    try {
+      const startTime = options.startTime ?? null;
+      const endTime = options.endTime ?? null;
+      if (startTime !== null && endTime !== null && startTime > endTime) {
+        throw new Error('시작 시간은 종료 시간보다 이전이어야 합니다');
+      }
+
+      const filePath = await this.pickSavePath(
+        this.dialogOptions('방문 기록 내보내기', `history.${options.format}`, options.format),
+        owner
+      );
+      if (!filePath) {
+        return { canceled: true, filePath: null, count: 0 };
+      }
+
+      const counter = { count: 0 };
+      const pages = this.readVisitPages(startTime, endTime, counter);
+
+      await safeWriteFileStream(
+        filePath,
+        options.format === 'csv'
+          ? serializeHistoryCsv(pages)
+          : streamJsonDocument(
+              {
+                format: 'aside-history',
+                version: EXPORT_FORMAT_VERSION,
+                exportedAt: new Date().toISOString(),
+                startTime: startTime === null ? null : new Date(startTime).toISOString(),
+                endTime: endTime === null ? null : new Date(endTime).toISOString(),
+              },
+              'visits',
+              this.toJsonVisits(pages)
+            )
+      );
+
+      this.logger.info('ExportService: History exported', {
+        module: 'ExportService',
+        metadata: { format: options.format, count: counter.count },
+      });
+
+      return { canceled: false, filePath, count: counter.count };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('ExportService: Failed to export history', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 폴더와 북마크를 폴더 트리 순서로 읽기
+   * - 폴더는 부모 안 위치순 깊이 우선 (빈 폴더 포함), 폴더 안 북마크는 위치순
+   *
+   * @private
+   */
+  private async readBookmarks(): Promise<{
+    folders: ExportedFolder[];
+    bookmarks: ExportedBookmark[];
+  }> {
+    const folders = await this.bookmarkFolderRepository.findAll();
+    const children = new Map<string | null, typeof folders>();
+    for (const folder of folders) {
+      children.set(folder.parentId, [...(children.get(folder.parentId) ?? []), folder]);
+    }
+
+    // 폴더 ID → 최상위부터의 폴더 이름, 트리 순서
+    const paths = new Map<string | null, string[]>([[null, []]]);
+    const order = new Map<string | null, number>([[null, 0]]);
+    const ordered: ExportedFolder[] = [];
+    const visit = (parentId: string | null) => {
+      const siblings = [...(children.get(parentId) ?? [])].sort((a, b) => a.position - b.position);
+      for (const folder of siblings) {
+        paths.set(folder.id, [...paths.get(parentId)!, folder.name]);
+        order.set(folder.id, order.size);
+        ordered.push({
+          id: folder.id,
+          parentId: folder.parentId,
+          name: folder.name,
+          createdAt: folder.createdAt,
+        });
+        visit(folder.id);
+      }
+    };
+    visit(null);
+
+    const rank = (bookmark: BookmarkWithTags) =>
+      order.get(bookmark.folderId) ?? Number.MAX_SAFE_INTEGER;
+
+    const bookmarks = (await this.bookmarkRepository.findAllWithTags())
+      .sort((a, b) => rank(a) - rank(b) || a.position - b.position)
+      .map((bookmark): ExportedBookmark => ({
+        url: bookmark.url,
+        title: bookmark.title,
+        folderId: bookmark.folderId,
+        folder: paths.get(bookmark.folderId) ?? [],
+        tags: bookmark.tags.map((tag) => tag.name),
+        description: bookmark.description,
+        createdAt: bookmark.createdAt,
+        updatedAt: bookmark.updatedAt,
+      }));
+
+    return { folders: ordered, bookmarks };
+  }
+
+  /**
+   * 기간 내 방문을 페이지 단위로 읽기
+   *
+   * @private
+   */
+  private async *readVisitPages(
+    startTime: number | null,
+    endTime: number | null,
+    counter: { count: number }
+  ): AsyncGenerator<HistoryEntry[]> {
+    let after: VisitCursor | null = null;
+
+    for (;;) {
+      const entries = await this.historyManager.getEntriesPage(
+        startTime,
+        endTime,
+        after,
+        this.VISIT_PAGE_SIZE
+      );
+      if (entries.length === 0) {
+        return;
+      }
+
+      counter.count += entries.length;
+      yield entries;
+
+      const last = entries[entries.length - 1]!;
+      after = { visitedAt: new Date(last.visitedAt), id: last.id! };
+      if (entries.length < this.VISIT_PAGE_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * 방문 페이지 → JSON 방문 항목
+   *
+   * @private
+   */
+  private async *toJsonVisits(pages: AsyncIterable<HistoryEntry[]>): AsyncGenerator<unknown> {
+    for await (const entries of pages) {
+      for (const entry of entries) {
+        yield {
+          id: entry.id,
+          url: entry.url,
+          title: entry.title ?? '',
+          visitedAt: new Date(entry.visitedAt).toISOString(),
+          transition: entry.transition ?? 'link',
+          dwellTimeMs: entry.duration,
+          referrerVisitId: entry.referrerVisitId ?? null,
+        };
+      }
+    }
+  }
+
+  /**
+   * 저장 대화상자 옵션
+   *
+   * @private
+   */
+  private dialogOptions(
+    title: string,
+    defaultPath: string,
+    format: ExportFormat
+  ): FileDialogOptions {
+    return {
+      title,
+      defaultPath,
+      filters: [{ name: FORMAT_NAMES[format], extensions: [format] }],
+    };
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * FileService - 렌더러 요청 파일 읽기/쓰기 (샌드박스)
+ *
+ * 책임: file:* 요청의 파일 열기, 저장, 열기/저장 대화상자
+ * - 읽기/쓰기는 두 경우만 허용
+ *   - 사용자가 대화상자로 고른 파일 (열기: 읽기, 저장: 읽기 + 쓰기)
+ *   - 허용 디렉토리 (기본: 다운로드, 문서) 안의 파일
+ * - 경로는 절대 경로만, .. 구간과 null 문자는 거부, 심볼릭 링크는 실제 경로로 확인
+ *   (심볼릭 링크 자체에는 저장하지 않음)
+ * - 파일 크기 제한 LIMITS.MAX_FILE_SIZE, 요청한 렌더러별 RATE_LIMITS.FILE_OPERATIONS
+ * - 모든 실패는 FileError (에러 코드로 구분)
+ *
+ * SRP 원칙: 경로 허용 여부 판단과 파일 입출력 조율만 담당
+ * 경로 검증과 원자적 쓰기는 shared/platform path-safety, 대화상자는 file/common, export/common에 위임
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { BrowserWindow } from 'electron';
+import { ERROR_CODES, LIMITS, type ErrorCode } from '../../shared/constants';
+import { FileError } from '../../shared/errors';
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import {
+  SafePath,
+  getRealPath,
+  isPathInBounds,
+  isSymlink,
+  safeReadFile,
+  safeWriteFile,
+} from '../../shared/platform';
+import { createRateLimiter, type RateLimiter } from '../../shared/security/rateLimiting';
+import type {
+  FileOpenArgs,
+  FileOpenDialogArgs,
+  FileOpenDialogResponse,
+  FileOpenResponse,
+  FileSaveDialogArgs,
+  FileSaveDialogResponse,
+} from '../../shared/ipc/channel-types';
+import { showSaveDialog, type SaveDialogPicker } from './export/common';
+import { getDefaultFileRoots, showOpenDialog, type OpenDialogPicker } from './file/common';
+
+/**
+ * 파일 인코딩 (file:open, file:save)
+ */
+export type FileEncoding = NonNullable<FileOpenArgs['encoding']>;
+
+/**
+ * 파일 서비스
+ */
+export class FileService {
+  private logger: ILogger;
+  private limiter: RateLimiter;
+  private roots: SafePath[] = [];
+  private readable = new Set<string>(); // 대화상자로 고른 파일 (실제 경로)
+  private writable = new Set<string>();
+
+  constructor(
+    roots: string[],
+    private pickOpenPaths: OpenDialogPicker = showOpenDialog,
+    private pickSavePath: SaveDialogPicker = showSaveDialog
+  ) {
+    this.logger = new LoggerImpl('FileService', LogLevel.INFO);
+    this.limiter = createRateLimiter('FILE_OPERATIONS');
+
+    for (const root of roots) {
+      try {
+        this.roots.push(new SafePath(root));
+      } catch (error) {
+        // 없는 디렉토리는 허용 디렉토리에서 제외
+        this.logger.warn('FileService: Skipping file root', {
+          module: 'FileService',
+          metadata: { root, reason: error instanceof Error ? error.message : String(error) },
+        });
+      }
+    }
+  }
+
+  /**
+   * FileService 생성 (의존성 주입)
+   */
+  static create(
+    roots: string[] = getDefaultFileRoots(),
+    pickOpenPaths: OpenDialogPicker = showOpenDialog,
+    pickSavePath: SaveDialogPicker = showSaveDialog
+  ): FileService {
+    return new FileService(roots, pickOpenPaths, pickSavePath);
+  }
+
+  /**
+   * 파일 읽기
+   *
+   * @param senderId 요청한 렌더러 (rate limit 단위)
+   * @param filePath 절대 경로
+   * @param encoding 내용 인코딩 (기본 utf8)
+   * @throws FileError
+   */
+  public async open(
+    senderId: number,
+    filePath: string,
+    encoding: FileEncoding = 'utf8'
+  ): Promise<FileOpenResponse> {
+    try {
+      this.checkRateLimit(senderId);
+      this.checkRequestedPath(filePath);
+
+      const realPath = this.resolveExisting(filePath);
+      const root = this.findRoot(realPath);
+      if (!root && !this.readable.has(realPath)) {
+        throw this.denied(filePath);
+      }
+
+      const stats = this.stat(realPath, ERROR_CODES.FILE_READ_ERROR);
+      if (!stats.isFile()) {
+        throw new FileError('파일이 아닙니다', ERROR_CODES.FILE_INVALID_NAME, { path: filePath });
+      }
+      if (stats.size > LIMITS.MAX_FILE_SIZE) {
+        throw this.tooLarge(filePath, stats.size);
+      }
+
+      let content: string;
+      try {
+        content = root
+          ? root.read(path.relative(root.getBase(), realPath), encoding)
+          : safeReadFile(realPath, undefined, encoding);
+      } catch (error) {
+        throw this.wrap(error, '파일을 읽지 못했습니다', ERROR_CODES.FILE_READ_ERROR, filePath);
+      }
+
+      return { content, size: stats.size, mtime: stats.mtimeMs };
+    } catch (error) {
+      throw this.fail(error, 'Failed to open file', filePath, ERROR_CODES.FILE_READ_ERROR);
+    }
+  }
+
+  /**
+   * 파일 저장 (임시 파일에 쓴 뒤 교체)
+   *
+   * @param senderId 요청한 렌더러 (rate limit 단위)
+   * @param filePath 절대 경로 (없는 파일이면 상위 디렉토리가 있어야 함)
+   * @param content 내용 (encoding 기준 문자열)
+   * @param encoding 내용 인코딩 (기본 utf8)
+   * @throws FileError
+   */
+  public async save(
+    senderId: number,
+    filePath: string,
+    content: string,
+    encoding: FileEncoding = 'utf8'
+  ): Promise<boolean> {
+    try {
+      this.checkRateLimit(senderId);
+      this.checkRequestedPath(filePath);
+
+      const target = this.resolveTarget(filePath);
+      const root = this.findRoot(target);
+      if (!root && !this.writable.has(target)) {
+        throw this.denied(filePath);
+      }
+
+      const size = Buffer.byteLength(content, encoding);
+      if (size > LIMITS.MAX_FILE_SIZE) {
+        throw this.tooLarge(filePath, size);
+      }
+
+      try {
+        if (root) {
+          root.write(path.relative(root.getBase(), target), content, encoding);
+        } else {
+          safeWriteFile(target, content, undefined, encoding);
+        }
+      } catch (error) {
+        throw this.wrap(
+          error,
+          '파일을 저장하지 못했습니다',
+          ERROR_CODES.FILE_WRITE_ERROR,
+          filePath
+        );
+      }
+
+      this.logger.info('FileService: File saved', {
+        module: 'FileService',
+        metadata: { path: target, size },
+      });
+      return true;
+    } catch (error) {
+      throw this.fail(error, 'Failed to save file', filePath, ERROR_CODES.FILE_WRITE_ERROR);
+    }
+  }
+
+  /**
+   * 열기 대화상자 (고른 파일은 읽기 허용)
+   *
+   * @param senderId 요청한 렌더러 (rate limit 단위)
+   * @param options 기본 경로, 파일 형식, 여러 개 선택
+   * @param owner 대화상자를 띄울 윈도우
+   */
+  public async showOpenDialog(
+    senderId: number,
+    options: FileOpenDialogArgs,
+    owner: BrowserWindow | null = null
+  ): Promise<FileOpenDialogResponse> {
+    try {
+      this.checkRateLimit(senderId);
+
+      const picked = await this.pickOpenPaths(
+        {
+          ...(options.defaultPath && { defaultPath: options.defaultPath }),
+          ...(options.filters && { filters: options.filters }),
+          properties: options.multiSelect ? ['openFile', 'multiSelections'] : ['openFile'],
+        },
+        owner
+      );
+
+      const filePaths: string[] = [];
+      for (const filePath of picked) {
+        this.readable.add(this.resolveExisting(filePath));
+        filePaths.push(filePath);
+      }
+
+      return { filePaths, canceled: filePaths.length === 0 };
+    } catch (error) {
+      throw this.fail(error, 'Failed to show open dialog', '', ERROR_CODES.FILE_READ_ERROR);
+    }
+  }
+
+  /**
+   * 저장 대화상자 (고른 파일은 읽기 + 쓰기 허용)
+   *
+   * @param senderId 요청한 렌더러 (rate limit 단위)
+   * @param options 기본 경로, 파일 형식
+   * @param owner 대화상자를 띄울 윈도우
+   */
+  public async showSaveDialog(
+    senderId: number,
+    options: FileSaveDialogArgs,
+    owner: BrowserWindow | null = null
+  ): Promise<FileSaveDialogResponse> {
+    try {
+      this.checkRateLimit(senderId);
+
+      const filePath = await this.pickSavePath(
+        {
+          ...(options.defaultPath && { defaultPath: options.defaultPath }),
+          ...(options.filters && { filters: options.filters }),
+        },
+        owner
+      );
+      if (!filePath) {
+        return { filePath: '', canceled: true };
+      }
+
+      const target = this.resolveTarget(filePath);
+      this.readable.add(target);
+      this.writable.add(target);
+
+      return { filePath, canceled: false };
+    } catch (error) {
+      throw this.fail(error, 'Failed to show save dialog', '', ERROR_CODES.FILE_WRITE_ERROR);
+    }
+  }
+
+  /**
+   * 렌더러별 파일 작업 rate limit
+   *
+   * @private
+   */
+  private checkRateLimit(senderId: number): void {
+    const key = String(senderId);
+    if (this.limiter.isAllowed(key)) {
+      return;
+    }
+
+    const retryAfterMs = this.limiter.getRetryAfter(key);
+    throw new FileError('파일 작업 요청이 너무 많습니다', ERROR_CODES.SECURITY_RATE_LIMITED, {
+      senderId: key,
+      retryAfterMs,
+    });
+  }
+
+  /**
+   * 요청 경로 형식 확인 (절대 경로, .. 구간과 null 문자 없음)
+   *
+   * @private
+   */
+  private checkRequestedPath(filePath: string): void {
+    if (filePath.includes('\0') || filePath.split(/[\\/]/).includes('..')) {
+      throw new FileError('허용되지 않는 경로입니다', ERROR_CODES.FILE_PATH_TRAVERSAL, {
+        path: filePath,
+      });
+    }
+    if (!path.isAbsolute(filePath)) {
+      throw new FileError('절대 경로가 아닙니다', ERROR_CODES.FILE_INVALID_NAME, {
+        path: filePath,
+      });
+    }
+  }
+
+  /**
+   * 있는 파일의 실제 경로 (심볼릭 링크 추적)
+   *
+   * @private
+   */
+  private resolveExisting(filePath: string): string {
+    try {
+      return getRealPath(filePath);
+    } catch (error) {
+      throw this.wrap(error, '파일을 찾을 수 없습니다', ERROR_CODES.FILE_NOT_FOUND, filePath);
+    }
+  }
+
+  /**
+   * 저장 대상의 실제 경로 (상위 디렉토리는 실제 경로, 파일은 없어도 됨)
+   *
+   * @private
+   */
+  private resolveTarget(filePath: string): string {
+    const target = path.join(this.resolveExisting(path.dirname(filePath)), path.basename(filePath));
+    if (!fs.existsSync(target)) {
+      return target;
+    }
+
+    if (isSymlink(target)) {
+      throw new FileError('심볼릭 링크에는 저장할 수 없습니다', ERROR_CODES.FILE_ACCESS_DENIED, {
+        path: filePath,
+      });
+    }
+    if (!this.stat(target, ERROR_CODES.FILE_WRITE_ERROR).isFile()) {
+      throw new FileError('파일이 아닙니다', ERROR_CODES.FILE_INVALID_NAME, { path: filePath });
+    }
+    return target;
+  }
+
+  /**
+   * 실제 경로를 담은 허용 디렉토리
+   *
+   * @private
+   */
+  private findRoot(realPath: string): SafePath | undefined {
+    return this.roots.find(
+      (root) => realPath !== root.getBase() && isPathInBounds(root.getBase(), realPath)
+    );
+  }
+
+  /**
+   * @private
+   */
+  private stat(realPath: string, code: ErrorCode): fs.Stats {
+    try {
+      return fs.statSync(realPath);
+    } catch (error) {
+      throw this.wrap(error, '파일 정보를 읽지 못했습니다', code, realPath);
+    }
+  }
+
+  /**
+   * @private
+   */
+  private denied(filePath: string): FileError {
+    this.logger.warn('FileService: Access denied', {
+      module: 'FileService',
+      metadata: { path: filePath },
+    });
+    return new FileError('허용되지 않은 파일입니다', ERROR_CODES.FILE_ACCESS_DENIED, {
+      path: filePath,
+    });
+  }
+
+  /**
+   * @private
+   */
+  private tooLarge(filePath: string, size: number): FileError {
+    return new FileError('파일이 너무 큽니다 (최대 500MB)', ERROR_CODES.FILE_SIZE_EXCEEDS_500MB, {
+      path: filePath,
+      size,
+    });
+  }
+
+  /**
+   * 하위 에러를 FileError로 감싸기
+   *
+   * @private
+   */
+  private wrap(error: unknown, message: string, code: ErrorCode, filePath: string): FileError {
+    const cause = error instanceof Error ? error : new Error(String(error));
+    return new FileError(message, code, { path: filePath }, cause);
+  }
+
+  /**
+   * 실패 로깅 후 FileError 반환 (FileError가 아니면 감쌈)
+   *
+   * @private
+   */
+  private fail(error: unknown, message: string, filePath: string, code: ErrorCode): FileError {
+    const err =
+      error instanceof FileError
+        ? error
+        : this.wrap(error, '파일 작업에 실패했습니다', code, filePath);
+    this.logger.error(`FileService: ${message}`, err);
+    return err;
+  }
+}
@@ -0,0 +1,393 @@
+/**
+ * HistoryClusteringService - 방문 기록 여정 (Journeys)
+ *
+ * 책임: 방문을 시간과 주제로 묶은 여정을 증분 계산해 저장
+ * - 아직 묶이지 않은 방문만 처리 (유휴 간격 안의 최근 여정에는 이어 붙임)
+ * - referrer 체인, 공통 도메인/키워드로 묶기 (규칙은 journeyClustering)
+ * - 방문이 삭제된 여정 (stale)은 요약 재계산, 비면 삭제
+ * - BackgroundTaskEnforcer에 LOW 우선순위 작업으로 등록해
+ *   CPU/배터리 상황에 따라 배치 사이에서 일시정지/재개
+ * - 주기 실행 + 기록 정리/삭제/가져오기 이벤트 후 실행
+ * - 저장된 여정 조회 (기록 페이지)
+ *
+ * SRP 원칙: 여정 계산 스케줄링과 조회만 담당
+ * 데이터 접근은 JourneyRepository에 위임
+ *
+ * 발행 이벤트:
+ * - history:journeysUpdated { assignedVisits, updatedJourneys, timestamp }
+ */
+
+import type { Journey } from '@prisma/client';
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { EventBus } from '../core/EventBus';
+import {
+  getBackgroundTaskEnforcer,
+  TaskPriority,
+  type BackgroundTaskEnforcer,
+  type BackgroundTaskInfo,
+} from '../../shared/system/enforcers/background-task';
+import type { HistoryJourney, JourneyPage } from '../../shared/types/domain';
+import type { JourneyRepository } from './database/JourneyRepository';
+import {
+  clusterVisits,
+  summarizeJourney,
+  JOURNEY_IDLE_GAP_MS,
+  type JourneyCluster,
+} from './database/journeyClustering';
+
+/**
+ * 한 번의 계산 결과
+ */
+export interface HistoryClusteringResult {
+  assignedVisits: number;
+  updatedJourneys: number;
+  timestamp: number;
+}
+
+/**
+ * 여정 계산/조회에 쓰는 JourneyRepository 기능
+ */
+export type HistoryClusteringStore = Pick<
+  JourneyRepository,
+  | 'findUnassignedVisits'
+  | 'findOpenSince'
+  | 'findByIds'
+  | 'assignVisits'
+  | 'findVisits'
+  | 'updateSummary'
+  | 'findStaleIds'
+  | 'delete'
+  | 'findRecent'
+  | 'findFavicons'
+>;
+
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * 방문 기록 여정 서비스
+ */
+export class HistoryClusteringService {
+  private logger: ILogger;
+  private eventBus: EventBus;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private cancelled = false;
+  private unsubscribers: Array<() => void> = [];
+  private readonly TASK_ID = 'history-clustering';
+  private readonly BATCH_SIZE = 500;
+  private readonly PAUSE_POLL_MS = 5000;
+
+  constructor(
+    private journeyRepository: HistoryClusteringStore,
+    private backgroundTaskEnforcer: BackgroundTaskEnforcer = getBackgroundTaskEnforcer()
+  ) {
+    this.logger = new LoggerImpl('HistoryClusteringService', LogLevel.INFO);
+    this.eventBus = EventBus.getInstance();
+  }
+
+  /**
+   * 정기 실행 시작 (즉시 1회 실행 후 interval마다 반복)
+   * - 기록 정리/삭제 후에도 실행해 stale 여정을 바로 정리, 가져온 방문도 바로 묶음
+   *
+   * @param intervalMs 실행 주기 (ms, 기본 15분)
+   */
+  public start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.logger.info('HistoryClusteringService: Starting', {
+      module: 'HistoryClusteringService',
+      metadata: { intervalMs },
+    });
+
+    this.cancelled = false;
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+    this.unsubscribers = [
+      this.eventBus.on('app:beforeQuit', () => this.stop()),
+      this.eventBus.on('history:retentionCompleted', () => void this.runOnce()),
+      this.eventBus.on('browsingData:cleared', () => void this.runOnce()),
+      this.eventBus.on('import:completed', () => void this.runOnce()),
+    ];
+
+    void this.runOnce();
+  }
+
+  /**
+   * 정기 실행 중지 (진행 중인 계산은 다음 배치 전에 중단)
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.cancelled = true;
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  /**
+   * 주기 실행 중 여부
+   */
+  public isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * 계산 1회 실행
+   * - 이전 실행이 끝나지 않았으면 건너뜀
+   * - 실패해도 다음 실행이 계속되도록 로그만 남김
+   *
+   * @returns 계산 결과 (건너뛰었거나 실패하면 null)
+   */
+  public async runOnce(): Promise<HistoryClusteringResult | null> {
+    if (this.running) {
+      return null;
+    }
+
+    this.running = true;
+    const task = this.registerTask();
+    try {
+      let updatedJourneys = await this.refreshStaleJourneys(task);
+      let assignedVisits = 0;
+
+      for (;;) {
+        await this.waitWhilePaused(task);
+        if (this.cancelled) {
+          break;
+        }
+
+        const batch = await this.clusterBatch();
+        assignedVisits += batch.assignedVisits;
+        updatedJourneys += batch.updatedJourneys;
+        if (batch.assignedVisits < this.BATCH_SIZE) {
+          break;
+        }
+      }
+
+      await this.backgroundTaskEnforcer.completeTask(task.id);
+
+      const result: HistoryClusteringResult = {
+        assignedVisits,
+        updatedJourneys,
+        timestamp: Date.now(),
+      };
+      if (updatedJourneys > 0) {
+        this.eventBus.emit('history:journeysUpdated', result);
+      }
+
+      this.logger.info('HistoryClusteringService: Clustering completed', {
+        module: 'HistoryClusteringService',
+        metadata: { ...result },
+      });
+
+      return result;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryClusteringService: Failed to cluster history', err);
+      await this.backgroundTaskEnforcer.failTask(task.id, err.message);
+      return null;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * 저장된 여정 목록 (최신순)
+   *
+   * @param limit 최대 개수
+   * @param offset 건너뛸 개수
+   */
+  public async getJourneys(limit: number = 20, offset: number = 0): Promise<HistoryJourney[]> {
+    try {
+      const journeys = await this.journeyRepository.findRecent(limit, offset);
+      const pagesByJourney = journeys.map((journey) =>
+        this.parseJson<Array<Omit<JourneyPage, 'favicon'>>>(journey.topPages)
+      );
+      const favicons = await this.journeyRepository.findFavicons([
+        ...new Set(pagesByJourney.flat().map((page) => page.url)),
+      ]);
+
+      return journeys.map((journey, index) => ({
+        id: journey.id,
+        label: journey.label,
+        startedAt: journey.startedAt,
+        endedAt: journey.endedAt,
+        visitCount: journey.visitCount,
+        topPages: pagesByJourney[index]!.map((page) => ({
+          ...page,
+          favicon: favicons.get(page.url) ?? null,
+        })),
+      }));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryClusteringService: Failed to get journeys', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 방문이 삭제된 여정 요약 재계산 (비었으면 삭제)
+   *
+   * @private
+   */
+  private async refreshStaleJourneys(task: BackgroundTaskInfo): Promise<number> {
+    let total = 0;
+    for (;;) {
+      await this.waitWhilePaused(task);
+      if (this.cancelled) {
+        return total;
+      }
+
+      const ids = await this.journeyRepository.findStaleIds(this.BATCH_SIZE);
+      for (const id of ids) {
+        await this.refreshJourney(id);
+      }
+      total += ids.length;
+      if (ids.length < this.BATCH_SIZE) {
+        return total;
+      }
+    }
+  }
+
+  /**
+   * 묶이지 않은 방문 1배치 처리
+   *
+   * @private
+   */
+  private async clusterBatch(): Promise<{ assignedVisits: number; updatedJourneys: number }> {
+    const visits = await this.journeyRepository.findUnassignedVisits(this.BATCH_SIZE);
+    if (visits.length === 0) {
+      return { assignedVisits: 0, updatedJourneys: 0 };
+    }
+
+    // 유휴 간격 안의 최근 여정 + referrer가 속한 여정을 이어 붙이기 후보로 사용
+    const since = new Date(visits[0]!.visitedAt.getTime() - JOURNEY_IDLE_GAP_MS);
+    const open = await this.journeyRepository.findOpenSince(since);
+    const openIds = new Set(open.map((journey) => journey.id));
+    const referrerIds = [
+      ...new Set(
+        visits.flatMap((visit) => {
+          const journeyId = visit.referrerVisit?.journeyId;
+          return journeyId && !openIds.has(journeyId) ? [journeyId] : [];
+        })
+      ),
+    ];
+    const referrerJourneys =
+      referrerIds.length > 0 ? await this.journeyRepository.findByIds(referrerIds) : [];
+
+    const clusters = clusterVisits(
+      visits.map((visit) => ({
+        id: visit.id,
+        url: visit.url.url,
+        title: visit.url.title,
+        visitedAt: visit.visitedAt,
+        referrerVisitId: visit.referrerVisitId,
+        referrerJourneyId: visit.referrerVisit?.journeyId ?? null,
+      })),
+      [...open, ...referrerJourneys].map((journey) => this.toCluster(journey))
+    );
+
+    for (const cluster of clusters) {
+      const journeyId = await this.journeyRepository.assignVisits(
+        cluster.id,
+        cluster.visitIds,
+        cluster.startedAt,
+        cluster.endedAt
+      );
+      await this.refreshJourney(journeyId);
+    }
+
+    return { assignedVisits: visits.length, updatedJourneys: clusters.length };
+  }
+
+  /**
+   * 여정 요약 재계산 (방문이 없으면 삭제)
+   *
+   * @private
+   */
+  private async refreshJourney(id: string): Promise<void> {
+    const visits = await this.journeyRepository.findVisits(id);
+    if (visits.length === 0) {
+      await this.journeyRepository.delete(id);
+      return;
+    }
+
+    await this.journeyRepository.updateSummary(
+      id,
+      summarizeJourney(
+        visits.map((visit) => ({
+          url: visit.url.url,
+          title: visit.url.title,
+          visitedAt: visit.visitedAt,
+          dwellTimeMs: visit.dwellTimeMs,
+        }))
+      )
+    );
+  }
+
+  /**
+   * 저장된 여정 → 묶기 후보
+   *
+   * @private
+   */
+  private toCluster(journey: Journey): JourneyCluster {
+    return {
+      id: journey.id,
+      startedAt: journey.startedAt,
+      endedAt: journey.endedAt,
+      domains: this.parseJson<string[]>(journey.domains),
+      keywords: this.parseJson<string[]>(journey.keywords),
+      visitIds: [],
+    };
+  }
+
+  /**
+   * JSON 배열 파싱 (손상 시 빈 배열)
+   *
+   * @private
+   */
+  private parseJson<T extends unknown[]>(json: string): T {
+    try {
+      const parsed: unknown = JSON.parse(json);
+      return (Array.isArray(parsed) ? parsed : []) as T;
+    } catch {
+      return [] as unknown as T;
+    }
+  }
+
+  /**
+   * BackgroundTaskEnforcer에 이번 실행 작업 등록 (같은 ID로 덮어씀)
+   *
+   * @private
+   */
+  private registerTask(): BackgroundTaskInfo {
+    const now = Date.now();
+    const task: BackgroundTaskInfo = {
+      id: this.TASK_ID,
+      name: '방문 기록 여정 계산',
+      priority: TaskPriority.LOW,
+      state: 'running',
+      createdMs: now,
+      startedMs: now,
+      estimatedDurationMs: 3000,
+      cpuIntensity: 30,
+      batteryIntensity: 20,
+    };
+    this.backgroundTaskEnforcer.registerTask(task);
+    return task;
+  }
+
+  /**
+   * Enforcer가 작업을 일시정지한 동안 대기
+   *
+   * @private
+   */
+  private async waitWhilePaused(task: BackgroundTaskInfo): Promise<void> {
+    while (task.state === 'paused' && !this.cancelled) {
+      await new Promise((resolve) => setTimeout(resolve, this.PAUSE_POLL_MS));
+    }
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * HistoryRetentionService - 방문 기록 보관 정책 실행
+ *
+ * 책임: 오래되거나 넘치는 방문 기록 정기 정리
+ * - 설정 historyAutoDeleteDays가 지난 방문 삭제 (0 = 기간 제한 없음)
+ * - calculateMaxHistory() 개수를 넘는 오래된 방문 삭제
+ * - 북마크한 URL의 방문은 유지
+ * - 정리 후 frecency 재계산 (최근성 구간 경과 반영)
+ * - BackgroundTaskEnforcer에 LOW 우선순위 작업으로 등록해
+ *   CPU/배터리 상황에 따라 배치 사이에서 일시정지/재개
+ * - 앱 시작 시 1회, 이후 하루에 한 번 실행
+ *
+ * SRP 원칙: 보관 정책 스케줄링만 담당
+ * 실제 삭제는 HistoryManager에 위임
+ *
+ * 발행 이벤트:
+ * - history:retentionCompleted { removedByAge, removedByLimit, removed, timestamp }
+ */
+
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { EventBus } from '../core/EventBus';
+import { calculateMaxHistory } from '../../shared/system/constants';
+import {
+  getBackgroundTaskEnforcer,
+  TaskPriority,
+  type BackgroundTaskEnforcer,
+  type BackgroundTaskInfo,
+} from '../../shared/system/enforcers/background-task';
+import type { HistoryManager } from '../managers/HistoryManager';
+import type { AppSettings } from '../../shared/types/domain';
+
+/**
+ * 한 번의 정리 결과
+ */
+export interface HistoryRetentionResult {
+  removedByAge: number;
+  removedByLimit: number;
+  removed: number;
+  timestamp: number;
+}
+
+/**
+ * 보관 기간 설정 조회 (실행할 때마다 최신 값)
+ */
+export interface HistoryRetentionSettings {
+  get(): Promise<Pick<AppSettings, 'historyAutoDeleteDays'>>;
+}
+
+/**
+ * 보관 정책 실행에 쓰는 HistoryManager 기능
+ */
+export type HistoryRetentionStore = Pick<
+  HistoryManager,
+  'pruneExpired' | 'pruneOverflow' | 'recalculateFrecency'
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 방문 기록 보관 정책 서비스
+ */
+export class HistoryRetentionService {
+  private logger: ILogger;
+  private eventBus: EventBus;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private cancelled = false;
+  private unsubscribeQuit: (() => void) | null = null;
+  private readonly TASK_ID = 'history-retention';
+  private readonly BATCH_SIZE = 500;
+  private readonly PAUSE_POLL_MS = 5000;
+
+  constructor(
+    private historyManager: HistoryRetentionStore,
+    private retentionSettings: HistoryRetentionSettings,
+    private backgroundTaskEnforcer: BackgroundTaskEnforcer = getBackgroundTaskEnforcer(),
+    private maxEntries: number = calculateMaxHistory()
+  ) {
+    this.logger = new LoggerImpl('HistoryRetentionService', LogLevel.INFO);
+    this.eventBus = EventBus.getInstance();
+  }
+
+  /**
+   * 정기 실행 시작 (즉시 1회 실행 후 interval마다 반복)
+   *
+   * @param intervalMs 실행 주기 (ms, 기본 하루)
+   */
+  public start(intervalMs: number = DAY_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.logger.info('HistoryRetentionService: Starting', {
+      module: 'HistoryRetentionService',
+      metadata: { intervalMs, maxEntries: this.maxEntries },
+    });
+
+    this.cancelled = false;
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+    this.unsubscribeQuit = this.eventBus.on('app:beforeQuit', () => this.stop());
+
+    void this.runOnce();
+  }
+
+  /**
+   * 정기 실행 중지 (진행 중인 정리는 다음 배치 전에 중단)
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.cancelled = true;
+    this.unsubscribeQuit?.();
+    this.unsubscribeQuit = null;
+  }
+
+  /**
+   * 정리 1회 실행
+   * - 이전 실행이 끝나지 않았으면 건너뜀
+   * - 실패해도 다음 실행이 계속되도록 로그만 남김
+   *
+   * @returns 정리 결과 (건너뛰었거나 실패하면 null)
+   */
+  public async runOnce(): Promise<HistoryRetentionResult | null> {
+    if (this.running) {
+      return null;
+    }
+
+    this.running = true;
+    const task = this.registerTask();
+    try {
+      const settings = await this.retentionSettings.get();
+      const autoDeleteDays = settings.historyAutoDeleteDays;
+
+      const removedByAge =
+        autoDeleteDays > 0
+          ? await this.pruneInBatches(task, (batchSize) =>
+              this.historyManager.pruneExpired(Date.now() - autoDeleteDays * DAY_MS, batchSize)
+            )
+          : 0;
+      const removedByLimit = await this.pruneInBatches(task, (batchSize) =>
+        this.historyManager.pruneOverflow(this.maxEntries, batchSize)
+      );
+
+      await this.historyManager.recalculateFrecency();
+      await this.backgroundTaskEnforcer.completeTask(task.id);
+
+      const result: HistoryRetentionResult = {
+        removedByAge,
+        removedByLimit,
+        removed: removedByAge + removedByLimit,
+        timestamp: Date.now(),
+      };
+      this.eventBus.emit('history:retentionCompleted', result);
+
+      this.logger.info('HistoryRetentionService: Retention completed', {
+        module: 'HistoryRetentionService',
+        metadata: { ...result, autoDeleteDays },
+      });
+
+      return result;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryRetentionService: Failed to run retention', err);
+      await this.backgroundTaskEnforcer.failTask(task.id, err.message);
+      return null;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * 주기 실행 중 여부
+   */
+  public isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * BackgroundTaskEnforcer에 이번 실행 작업 등록 (같은 ID로 덮어씀)
+   *
+   * @private
+   */
+  private registerTask(): BackgroundTaskInfo {
+    const now = Date.now();
+    const task: BackgroundTaskInfo = {
+      id: this.TASK_ID,
+      name: '방문 기록 정리',
+      priority: TaskPriority.LOW,
+      state: 'running',
+      createdMs: now,
+      startedMs: now,
+      estimatedDurationMs: 5000,
+      cpuIntensity: 20,
+      batteryIntensity: 30,
+    };
+    this.backgroundTaskEnforcer.registerTask(task);
+    return task;
+  }
+
+  /**
+   * 삭제할 방문이 없을 때까지 배치 반복
+   * - 배치마다 일시정지 여부 확인
+   *
+   * @private
+   */
+  private async pruneInBatches(
+    task: BackgroundTaskInfo,
+    prune: (batchSize: number) => Promise<number>
+  ): Promise<number> {
+    let total = 0;
+    for (;;) {
+      await this.waitWhilePaused(task);
+      if (this.cancelled) {
+        return total;
+      }
+
+      const removed = await prune(this.BATCH_SIZE);
+      total += removed;
+      if (removed < this.BATCH_SIZE) {
+        return total;
+      }
+    }
+  }
+
+  /**
+   * Enforcer가 작업을 일시정지한 동안 대기
+   *
+   * @private
+   */
+  private async waitWhilePaused(task: BackgroundTaskInfo): Promise<void> {
+    while (task.state === 'paused' && !this.cancelled) {
+      await new Promise((resolve) => setTimeout(resolve, this.PAUSE_POLL_MS));
+    }
+  }
+}
@@ -5,6 +5,8 @@
  * - 기록 추가, 검색, 조회
  * - 기록 삭제, 초기화
  * - 기록 필터링
+ * - 여정 (시간/주제로 묶은 방문) 조회
+ * - 사이트별 체류 시간 리포트
  *
  * SRP 원칙: 기록 관련 비즈니스 로직만 담당
  * 기록 상태 저장은 HistoryManager에 위임
@@ -12,7 +14,30 @@
 
 import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
 import type { HistoryManager } from '../managers/HistoryManager';
-import type { HistoryEntry, FrequentSite } from '../../shared/types/domain';
+import type { HistoryClusteringService } from './HistoryClusteringService';
+import type {
+  HistoryEntry,
+  HistorySearchResult,
+  FrequentSite,
+  HistoryJourney,
+  SiteTimeSpent,
+} from '../../shared/types/domain';
+import { hasSearchCriteria, parseHistoryQuery } from './database/historyQuery';
+
+/**
+ * 검색 페이지 커서 (다음 페이지 위치)
+ */
+interface HistorySearchCursor {
+  offset: number;
+}
+
+/**
+ * 검색 옵션
+ */
+export interface HistorySearchPageOptions {
+  limit?: number | undefined;
+  cursor?: string | undefined;
+}
 
 /**
  * 방문 기록 서비스
@@ -20,12 +45,15 @@ import type { HistoryEntry, FrequentSite } from '../../shared/types/domain';
 export class HistoryService {
   private logger: ILogger;
 
-  constructor(private historyManager: HistoryManager) {
+  constructor(
+    private historyManager: HistoryManager,
+    private historyClusteringService: HistoryClusteringService
+  ) {
     this.logger = new LoggerImpl('HistoryService', LogLevel.INFO);
   }
 
   /**
-   * 방문 기록 항목 추가
+   * 방문 기록 항목 추가 (방문 1회, 같은 URL은 방문 횟수와 frecency 갱신)
    */
   public async addEntry(entry: Omit<HistoryEntry, 'id'>): Promise<HistoryEntry> {
     try {
@@ -34,13 +62,7 @@ export class HistoryService {
         metadata: { url: entry.url },
       });
 
-      // ID 생성
-      const newEntry: HistoryEntry = {
-        id: `history_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-        ...entry,
-      };
-
-      this.historyManager.addEntry(newEntry);
+      const newEntry = await this.historyManager.addEntry(entry);
 
       this.logger.info('HistoryService: History entry added successfully', {
         module: 'HistoryService',
@@ -76,26 +98,51 @@ export class HistoryService {
 
   /**
    * 기록 검색
+   * - 일반 검색어는 접두사 일치, "따옴표"는 구문 일치
+   * - site:example.com / before:YYYY-MM-DD / after:YYYY-MM-DD 연산자 지원
+   * - URL 단위로 텍스트 일치도와 frecency로 정렬 (주소창 순위)
+   *
+   * @param query 검색어
+   * @param options limit, cursor (이전 결과의 nextCursor)
    */
-  public async searchHistory(query: string, limit: number = 50): Promise<HistoryEntry[]> {
+  public async searchHistory(
+    query: string,
+    options: HistorySearchPageOptions = {}
+  ): Promise<HistorySearchResult> {
     try {
       if (!query || query.trim().length === 0) {
         throw new Error('검색어를 입력해주세요');
       }
 
+      const parsed = parseHistoryQuery(query);
+      if (!hasSearchCriteria(parsed)) {
+        throw new Error('검색어를 입력해주세요');
+      }
+
+      const limit = options.limit ?? 50;
+      const cursor = options.cursor ? this.decodeCursor(options.cursor) : { offset: 0 };
+
       this.logger.info('HistoryService: Searching history', {
         module: 'HistoryService',
-        metadata: { query, limit },
+        metadata: { query, limit, offset: cursor.offset },
       });
 
-      const results = await this.historyManager.search(query, limit);
+      // 다음 페이지 존재 여부 확인용으로 하나 더 조회
+      const items = await this.historyManager.search(parsed, {
+        limit: limit + 1,
+        offset: cursor.offset,
+      });
+      const hasMore = items.length > limit;
 
       this.logger.info('HistoryService: History search completed', {
         module: 'HistoryService',
-        metadata: { resultCount: results.length },
+        metadata: { resultCount: Math.min(items.length, limit), hasMore },
       });
 
-      return results;
+      return {
+        items: items.slice(0, limit),
+        nextCursor: hasMore ? this.encodeCursor({ offset: cursor.offset + limit }) : null,
+      };
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error('HistoryService: Failed to search history', err);
@@ -192,7 +239,7 @@ export class HistoryService {
   }
 
   /**
-   * 자주 방문한 사이트 조회
+   * 자주 방문한 사이트 조회 (frecency순)
    */
   public async getFrequentSites(limit: number = 10): Promise<FrequentSite[]> {
     try {
@@ -210,6 +257,54 @@ export class HistoryService {
     }
   }
 
+  /**
+   * 여정 목록 조회 (최신순, 백그라운드에서 계산해 저장한 결과)
+   */
+  public async getJourneys(limit: number = 20, offset: number = 0): Promise<HistoryJourney[]> {
+    try {
+      this.logger.info('HistoryService: Getting journeys', {
+        module: 'HistoryService',
+        metadata: { limit, offset },
+      });
+
+      return await this.historyClusteringService.getJourneys(limit, offset);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryService: Failed to get journeys', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 사이트별 체류 시간 조회 (체류 시간 내림차순)
+   *
+   * @param startTime 시작 시간 (ms, 생략 시 처음부터)
+   * @param endTime 종료 시간 (ms, 생략 시 현재까지)
+   * @param limit 최대 사이트 수
+   */
+  public async getTimePerSite(
+    startTime?: number,
+    endTime?: number,
+    limit: number = 20
+  ): Promise<SiteTimeSpent[]> {
+    try {
+      if (startTime !== undefined && endTime !== undefined && startTime > endTime) {
+        throw new Error('시작 시간은 종료 시간보다 이전이어야 합니다');
+      }
+
+      this.logger.info('HistoryService: Getting time per site', {
+        module: 'HistoryService',
+        metadata: { startTime, endTime, limit },
+      });
+
+      return await this.historyManager.getTimePerSite(startTime, endTime, limit);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('HistoryService: Failed to get time per site', err);
+      throw err;
+    }
+  }
+
   /**
    * 기록 개수 조회
    */
@@ -239,4 +334,31 @@ export class HistoryService {
       throw err;
     }
   }
+
+  /**
+   * 검색 커서 인코딩
+   *
+   * @private
+   */
+  private encodeCursor(cursor: HistorySearchCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * 검색 커서 디코딩 (형식이 맞지 않으면 에러)
+   *
+   * @private
+   */
+  private decodeCursor(value: string): HistorySearchCursor {
+    try {
+      const json = Buffer.from(value, 'base64url').toString('utf8');
+      const cursor = JSON.parse(json) as HistorySearchCursor;
+      if (Number.isInteger(cursor.offset) && cursor.offset >= 0) {
+        return { offset: cursor.offset };
+      }
+    } catch {
+      // 아래에서 공통 에러 처리
+    }
+    throw new Error('잘못된 검색 커서입니다');
+  }
 }
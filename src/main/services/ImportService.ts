@@ -0,0 +1,316 @@
+/**
+ * ImportService - 다른 브라우저에서 가져오기
+ *
+ * 책임: 다른 브라우저의 북마크와 방문 기록을 읽어 aside.db에 저장
+ * - Chromium 프로필: Bookmarks (JSON), History (SQLite)
+ * - Firefox 프로필: places.sqlite (북마크, 태그, 방문)
+ * - Netscape 북마크 HTML 파일
+ * - 프로필 폴더/파일은 열기 대화상자로 선택 (렌더러가 준 경로는 열지 않음)
+ * - 폴더 경로는 BookmarkFolder 트리로 (같은 이름 폴더는 재사용), 태그는 BookmarkTag로 저장
+ * - 이미 있는 북마크 (같은 URL)와 방문 (같은 URL, 같은 시각)은 건너뜀
+ * - 배치 저장마다 진행 상황 콜백 호출
+ *
+ * SRP 원칙: 원본 읽기 순서와 저장 조율만 담당
+ * 형식 해석은 import/ 파서, 방문 저장은 HistoryManager,
+ * 북마크 저장은 BookmarkRepository에 위임
+ *
+ * 발행 이벤트:
+ * - import:completed { source, result }
+ */
+
+import { stat } from 'fs/promises';
+import path from 'path';
+import type { BrowserWindow } from 'electron';
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { safeReadFile } from '../../shared/platform';
+import { EventBus } from '../core/EventBus';
+import type {
+  FileDialogOptions,
+  ImportDataType,
+  ImportOptions,
+  ImportProgress,
+  ImportResult,
+  ImportSource,
+} from '../../shared/types/domain';
+import type { HistoryManager } from '../managers/HistoryManager';
+import type { BookmarkRepository } from './database/BookmarkRepository';
+import { showOpenDialog, type OpenDialogPicker } from './file/common';
+import type {
+  ImportedBookmark,
+  ProfileDatabase,
+  ProfileDatabaseOpener,
+  VisitPageReader,
+} from './import/common';
+import {
+  CHROMIUM_BOOKMARKS_FILE,
+  CHROMIUM_HISTORY_FILE,
+  parseChromiumBookmarks,
+  readChromiumVisits,
+} from './import/chromiumProfile';
+import {
+  FIREFOX_PLACES_FILE,
+  readFirefoxBookmarks,
+  readFirefoxVisits,
+} from './import/firefoxProfile';
+import { parseNetscapeBookmarks } from './import/netscapeBookmarks';
+import { openProfileDatabase } from './import/profileDatabase';
+
+/**
+ * 원본별 가져올 수 있는 항목
+ */
+const SUPPORTED_DATA_TYPES: Record<ImportSource, ImportDataType[]> = {
+  chrome: ['bookmarks', 'history'],
+  firefox: ['bookmarks', 'history'],
+  bookmarksHtml: ['bookmarks'],
+};
+
+/**
+ * 원본별 열기 대화상자 (프로필은 폴더, 북마크 HTML은 파일)
+ */
+const SOURCE_DIALOGS: Record<ImportSource, FileDialogOptions> = {
+  chrome: { title: 'Chrome 프로필 폴더 선택', properties: ['openDirectory'] },
+  firefox: { title: 'Firefox 프로필 폴더 선택', properties: ['openDirectory'] },
+  bookmarksHtml: {
+    title: '북마크 HTML 파일 선택',
+    filters: [{ name: 'HTML', extensions: ['html', 'htm'] }],
+    properties: ['openFile'],
+  },
+};
+
+/**
+ * 다른 브라우저 가져오기 서비스
+ */
+export class ImportService {
+  private logger: ILogger;
+  private eventBus: EventBus;
+  private running = false;
+  private readonly BOOKMARK_BATCH_SIZE = 200;
+  private readonly VISIT_BATCH_SIZE = 200;
+
+  constructor(
+    private historyManager: Pick<HistoryManager, 'importVisits'>,
+    private bookmarkRepository: Pick<BookmarkRepository, 'importMany'>,
+    private openDatabase: ProfileDatabaseOpener = openProfileDatabase,
+    private pickOpenPaths: OpenDialogPicker = showOpenDialog
+  ) {
+    this.logger = new LoggerImpl('ImportService', LogLevel.INFO);
+    this.eventBus = EventBus.getInstance();
+  }
+
+  /**
+   * 북마크/방문 기록 가져오기 (열기 대화상자로 고른 프로필 폴더 또는 HTML 파일에서)
+   *
+   * @param options 원본, 가져올 항목
+   * @param owner 열기 대화상자를 띄울 윈도우
+   * @param onProgress 배치 저장마다 호출
+   * @returns 가져오기 결과 (취소하면 canceled)
+   */
+  public async importData(
+    options: ImportOptions,
+    owner: BrowserWindow | null = null,
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<ImportResult> {
+    if (this.running) {
+      throw new Error('이미 가져오기가 진행 중입니다');
+    }
+
+    this.running = true;
+    let database: ProfileDatabase | null = null;
+    try {
+      const dataTypes = SUPPORTED_DATA_TYPES[options.source].filter((type) =>
+        options.dataTypes.includes(type)
+      );
+      if (dataTypes.length === 0) {
+        throw new Error(`${options.source}에서 가져올 수 있는 항목이 없습니다`);
+      }
+
+      const [sourcePath] = await this.pickOpenPaths(SOURCE_DIALOGS[options.source], owner);
+      if (!sourcePath) {
+        return { ...this.emptyResult(), canceled: true };
+      }
+      await this.assertExists(sourcePath);
+
+      this.logger.info('ImportService: Starting import', {
+        module: 'ImportService',
+        metadata: { source: options.source, dataTypes },
+      });
+
+      const result = this.emptyResult();
+
+      // Firefox는 북마크와 방문이 같은 파일이므로 한 번만 연다
+      const needsDatabase =
+        options.source === 'firefox' ||
+        (options.source === 'chrome' && dataTypes.includes('history'));
+      if (needsDatabase) {
+        database = await this.openDatabase(this.databasePath(options.source, sourcePath));
+      }
+
+      if (dataTypes.includes('bookmarks')) {
+        const bookmarks = await this.readBookmarks(options.source, sourcePath, database);
+        const imported = await this.saveBookmarks(bookmarks, onProgress);
+        result.importedBookmarks = imported;
+        result.skippedBookmarks = bookmarks.length - imported;
+        result.imported.push('bookmarks');
+      }
+
+      if (dataTypes.includes('history') && database) {
+        const reader = options.source === 'firefox' ? readFirefoxVisits : readChromiumVisits;
+        const { imported, skipped } = await this.importVisits(database, reader, onProgress);
+        result.importedVisits = imported;
+        result.skippedVisits = skipped;
+        result.imported.push('history');
+      }
+
+      this.eventBus.emit('import:completed', { source: options.source, result });
+
+      this.logger.info('ImportService: Import completed', {
+        module: 'ImportService',
+        metadata: { source: options.source, ...result },
+      });
+
+      return result;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('ImportService: Failed to import', err);
+      throw err;
+    } finally {
+      await database?.close().catch(() => undefined);
+      this.running = false;
+    }
+  }
+
+  /**
+   * 원본 북마크 읽기
+   *
+   * @private
+   */
+  private async readBookmarks(
+    source: ImportSource,
+    sourcePath: string,
+    database: ProfileDatabase | null
+  ): Promise<ImportedBookmark[]> {
+    switch (source) {
+      case 'chrome':
+        return parseChromiumBookmarks(safeReadFile(path.join(sourcePath, CHROMIUM_BOOKMARKS_FILE)));
+      case 'firefox':
+        return readFirefoxBookmarks(database!);
+      case 'bookmarksHtml':
+        return parseNetscapeBookmarks(safeReadFile(sourcePath));
+    }
+  }
+
+  /**
+   * 북마크 배치 저장
+   *
+   * @returns 새로 만든 북마크 수
+   * @private
+   */
+  private async saveBookmarks(
+    bookmarks: ImportedBookmark[],
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<number> {
+    let imported = 0;
+    for (let start = 0; start < bookmarks.length; start += this.BOOKMARK_BATCH_SIZE) {
+      const batch = bookmarks.slice(start, start + this.BOOKMARK_BATCH_SIZE);
+      imported += await this.bookmarkRepository.importMany(batch);
+      onProgress?.({
+        dataType: 'bookmarks',
+        processed: start + batch.length,
+        total: bookmarks.length,
+      });
+    }
+    return imported;
+  }
+
+  /**
+   * 방문 기록 가져오기 (원본 방문 ID 순서로 페이지 단위 저장)
+   * - referrer는 이전 페이지에서 저장한 방문 ID나 같은 페이지 안 위치로 연결
+   *
+   * @private
+   */
+  private async importVisits(
+    database: ProfileDatabase,
+    reader: VisitPageReader,
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<{ imported: number; skipped: number }> {
+    const visitIdBySource = new Map<string, string>();
+    let imported = 0;
+    let processed = 0;
+    let afterSourceId = 0;
+
+    for (;;) {
+      const page = await reader(database, afterSourceId, this.VISIT_BATCH_SIZE);
+      if (page.lastSourceId === null) {
+        break;
+      }
+      afterSourceId = page.lastSourceId;
+      if (page.visits.length === 0) {
+        continue;
+      }
+
+      const indexBySource = new Map(page.visits.map((visit, index) => [visit.sourceId, index]));
+      const refs = await this.historyManager.importVisits(
+        page.visits.map((visit) => {
+          const referrer = visit.referrerSourceId;
+          return {
+            url: visit.url,
+            title: visit.title,
+            visitedAt: visit.visitedAt,
+            transition: visit.transition,
+            referrerVisitId: referrer ? (visitIdBySource.get(referrer) ?? null) : null,
+            referrerIndex: referrer ? (indexBySource.get(referrer) ?? null) : null,
+            dwellTimeMs: visit.dwellTimeMs,
+          };
+        })
+      );
+
+      page.visits.forEach((visit, index) => visitIdBySource.set(visit.sourceId, refs[index]!.id));
+      imported += refs.filter((ref) => ref.created).length;
+      processed += refs.length;
+      onProgress?.({ dataType: 'history', processed, total: null });
+    }
+
+    return { imported, skipped: processed - imported };
+  }
+
+  /**
+   * 원본 SQLite 파일 경로
+   *
+   * @private
+   */
+  private databasePath(source: ImportSource, sourcePath: string): string {
+    return path.join(
+      sourcePath,
+      source === 'firefox' ? FIREFOX_PLACES_FILE : CHROMIUM_HISTORY_FILE
+    );
+  }
+
+  /**
+   * 빈 가져오기 결과
+   *
+   * @private
+   */
+  private emptyResult(): ImportResult {
+    return {
+      canceled: false,
+      imported: [],
+      importedBookmarks: 0,
+      skippedBookmarks: 0,
+      importedVisits: 0,
+      skippedVisits: 0,
+    };
+  }
+
+  /**
+   * 경로 존재 확인
+   *
+   * @private
+   */
+  private async assertExists(targetPath: string): Promise<void> {
+    try {
+      await stat(targetPath);
+    } catch {
+      throw new Error(`가져올 경로를 찾을 수 없습니다: ${targetPath}`);
+    }
+  }
+}
@@ -0,0 +1,424 @@
+/**
+ * NavigationService - 브라우저 네비게이션 비즈니스 로직
+ *
+ * 책임: 대상 탭의 webContents에 대한 네비게이션 제어
+ * - URL 이동 (현재 탭 / 새 탭)
+ * - 뒤로/앞으로, 새로고침, 중지
+ * - 줌 (사이트별로 기억), 페이지 내 검색, 인쇄, 개발자 도구
+ * - 탭별 뒤로/앞으로 가능 여부 조회
+ *
+ * SRP 원칙: 네비게이션 로직만 담당
+ * 뷰 생명주기는 TabViewManager에, 탭 생성/선택은 TabService에,
+ * 사이트별/기본 줌은 ZoomApplier에 위임
+ */
+
+import type { WebContents } from 'electron';
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { LIMITS } from '../../shared/constants';
+import type {
+  BrowserNavigationState,
+  BrowserFindInPageResponse,
+} from '../../shared/ipc/channel-types';
+import type { TabManager } from '../managers/TabManager';
+import type { TabViewManager } from '../managers/TabViewManager';
+import type { TabService } from './TabService';
+import type { ZoomApplier } from './settings/appliers';
+
+/**
+ * 페이지 내 검색 옵션
+ */
+export interface FindInPageOptions {
+  matchCase?: boolean | undefined;
+  findNext?: boolean | undefined;
+}
+
+/**
+ * 인쇄 옵션
+ */
+export interface PrintOptions {
+  silent?: boolean | undefined;
+  printBackground?: boolean | undefined;
+  landscape?: boolean | undefined;
+}
+
+/**
+ * 네비게이션 서비스
+ */
+export class NavigationService {
+  private logger: ILogger;
+  private readonly FIND_TIMEOUT_MS = 3000;
+
+  constructor(
+    private tabService: TabService,
+    private tabManager: TabManager,
+    private tabViewManager: TabViewManager,
+    private siteZoom: Pick<ZoomApplier, 'getZoomForUrl' | 'setSiteZoom' | 'clearSiteZoom'>
+  ) {
+    this.logger = new LoggerImpl('NavigationService', LogLevel.INFO);
+  }
+
+  /**
+   * URL로 이동
+   *
+   * @param url 검증된 URL
+   * @param target '_blank'면 새 탭에서 열기
+   * @param tabId 대상 탭 (기본: 활성 탭)
+   */
+  public async navigateTo(
+    url: string,
+    target: '_blank' | '_self' = '_self',
+    tabId?: string
+  ): Promise<BrowserNavigationState> {
+    try {
+      this.logger.info('NavigationService: Navigating', {
+        module: 'NavigationService',
+        metadata: { url, target, tabId },
+      });
+
+      if (target === '_blank') {
+        const tab = await this.tabService.createTab(url);
+        await this.tabService.selectTab(tab.id);
+        return await this.getNavigationState(tab.id);
+      }
+
+      const { id, webContents } = await this.resolveTarget(tabId);
+      webContents.loadURL(url).catch((error: unknown) => {
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.logger.warn('NavigationService: Load did not complete', {
+          module: 'NavigationService',
+          metadata: { tabId: id, url, reason: err.message },
+        });
+      });
+
+      return this.buildState(id, webContents, url);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('NavigationService: Failed to navigate', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 뒤로 가기 (상태는 이동할 항목 기준)
+   */
+  public async goBack(tabId?: string): Promise<BrowserNavigationState> {
+    try {
+      const { id, webContents } = await this.resolveTarget(tabId);
+      const history = webContents.navigationHistory;
+      if (!history.canGoBack()) {
+        return this.buildState(id, webContents);
+      }
+
+      const index = history.getActiveIndex() - 1;
+      history.goBack();
+      return this.buildHistoryState(id, webContents, index);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('NavigationService: Failed to go back', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 앞으로 가기 (상태는 이동할 항목 기준)
+   */
+  public async goForward(tabId?: string): Promise<BrowserNavigationState> {
+    try {
+      const { id, webContents } = await this.resolveTarget(tabId);
+      const history = webContents.navigationHistory;
+      if (!history.canGoForward()) {
+        return this.buildState(id, webContents);
+      }
+
+      const index = history.getActiveIndex() + 1;
+      history.goForward();
+      return this.buildHistoryState(id, webContents, index);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('NavigationService: Failed to go forward', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 새로고침
+   *
+   * @param ignoreCache true면 캐시 무시 새로고침
+   */
+  public async reload(tabId?: string, ignoreCache: boolean = false): Promise<boolean> {
+    try {
+      const { webContents } = await this.resolveTarget(tabId);
+      if (ignoreCache) {
+        webContents.reloadIgnoringCache();
+      } else {
+        webContents.reload();
+      }
+      return true;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('NavigationService: Failed to reload', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 페이지 로드 중지
+   */
+  public async stop(tabId?: string): Promise<boolean> {
+    try {
+      const { webContents } = await this.resolveTarget(tabId);
+      webContents.stop();
+      return true;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('NavigationService: Failed to stop loading', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 줌 조정 (현재 사이트의 줌으로 기억, reset은 사이트별 줌 삭제 후 기본 줌)
+   *
+   * @param direction 'in' | 'out' | 'reset'
+   * @param step 줌 단계 (기본: LIMITS.ZOOM_STEP)
+   * @returns 적용된 줌 배율
+   */
+  public async zoom(
+    direction: 'in' | 'out' | 'reset',
+    tabId?: string,
+    step: number = LIMITS.ZOOM_STEP
+  ): Promise<number> {
+    try {
+      const { id, webContents } = await this.resolveTarget(tabId);
+
+      const url = webContents.getURL();
+
+      let factor: number;
+      if (direction === 'reset') {
+        this.siteZoom.clearSiteZoom(url);
+        factor = this.siteZoom.getZoomForUrl(url);
+      } else {
+        const delta = direction === 'in' ? step : -step;
+        factor = webContents.getZoomFactor() + delta;
+
+        // 부동소수점 오차 제거 후 허용 범위로 제한
+        factor = Math.round(factor * 100) / 100;
+        factor = Math.min(LIMITS.MAX_ZOOM, Math.max(LIMITS.MIN_ZOOM, factor));
+        this.siteZoom.setSiteZoom(url, factor);
+      }
+      webContents.setZoomFactor(factor);
+
+      this.logger.info('NavigationService: Zoom changed', {
+        module: 'NavigationService',
+        metadata: { tabId: id, direction, factor },
+      });
+
+      return factor;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('NavigationService: Failed to change zoom', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 페이지 내 검색
+   *
+   * 빈 검색어는 검색 종료(하이라이트 제거)로 처리
+   */
+  public async findInPage(
+    query: string,
+    options: FindInPageOptions = {},
+    tabId?: string
+  ): Promise<BrowserFindInPageResponse> {
+    try {
+      const { webContents } = await this.resolveTarget(tabId);
+
+      if (query.length === 0) {
+        webContents.stopFindInPage('clearSelection');
+        return { requestId: 0, activeMatchOrdinal: 0, matches: 0 };
+      }
+
+      return await new Promise<BrowserFindInPageResponse>((resolve) => {
+        let requestId = 0;
+
+        const onFound = (_event: Electron.Event, result: Electron.Result) => {
+          if (result.requestId !== requestId || !result.finalUpdate) {
+            return;
+          }
+          cleanup();
+          resolve({
+            requestId: result.requestId,
+            activeMatchOrdinal: result.activeMatchOrdinal,
+            matches: result.matches,
+          });
+        };
+
+        // 결과 이벤트가 오지 않는 경우 대비
+        const timer = setTimeout(() => {
+          cleanup();
+          resolve({ requestId, activeMatchOrdinal: 0, matches: 0 });
+        }, this.FIND_TIMEOUT_MS);
+
+        const cleanup = () => {
+          clearTimeout(timer);
+          webContents.off('found-in-page', onFound);
+        };
+
+        webContents.on('found-in-page', onFound);
+        requestId = webContents.findInPage(query, {
+          matchCase: options.matchCase ?? false,
+          findNext: options.findNext ?? false,
+        });
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('NavigationService: Failed to find in page', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 인쇄
+   */
+  public async print(options: PrintOptions = {}, tabId?: string): Promise<boolean> {
+    try {
+      const { id, webContents } = await this.resolveTarget(tabId);
+
+      return await new Promise<boolean>((resolve) => {
+        webContents.print(
+          {
+            silent: options.silent ?? false,
+            printBackground: options.printBackground ?? true,
+            landscape: options.landscape ?? false,
+          },
+          (success, failureReason) => {
+            if (!success) {
+              this.logger.warn('NavigationService: Print not completed', {
+                module: 'NavigationService',
+                metadata: { tabId: id, failureReason },
+              });
+            }
+            resolve(success);
+          }
+        );
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('NavigationService: Failed to print', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 개발자 도구 토글
+   *
+   * @returns 토글 후 개발자 도구 열림 여부
+   */
+  public async toggleDevTools(tabId?: string): Promise<boolean> {
+    try {
+      const { webContents } = await this.resolveTarget(tabId);
+      if (webContents.isDevToolsOpened()) {
+        webContents.closeDevTools();
+        return false;
+      }
+      webContents.openDevTools({ mode: 'detach' });
+      return true;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('NavigationService: Failed to toggle DevTools', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 탭 네비게이션 상태 조회 (뒤로/앞으로 가능 여부 포함)
+   */
+  public async getNavigationState(tabId?: string): Promise<BrowserNavigationState> {
+    try {
+      const { id, webContents } = await this.resolveTarget(tabId);
+      return this.buildState(id, webContents);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('NavigationService: Failed to get navigation state', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 대상 탭과 webContents 결정
+   * - tabId 미지정 시 활성 탭 사용
+   * - 뷰가 없는 탭(예: DB에서 불러온 탭)은 뷰를 생성
+   * - 저장된 뒤로/앞으로 스택 복원이 끝날 때까지 대기
+   *
+   * @private
+   */
+  private async resolveTarget(
+    tabId?: string
+  ): Promise<{ id: string; webContents: WebContents }> {
+    const id = tabId ?? this.tabViewManager.getVisibleTabId() ?? (await this.tabManager.getActiveTabId());
+    if (!id) {
+      throw new Error('활성 탭이 없습니다');
+    }
+
+    let webContents = this.tabViewManager.getWebContents(id);
+    if (!webContents) {
+      const tab = await this.tabManager.getTab(id);
+      if (!tab) {
+        throw new Error(`탭을 찾을 수 없습니다: ${id}`);
+      }
+      webContents = this.tabViewManager.createView(tab)?.webContents ?? null;
+    }
+
+    if (!webContents) {
+      throw new Error(`탭 뷰를 생성할 수 없습니다: ${id}`);
+    }
+
+    await this.tabViewManager.whenReady(id);
+
+    return { id, webContents };
+  }
+
+  /**
+   * 네비게이션 상태 객체 생성
+   *
+   * @private
+   */
+  private buildState(
+    tabId: string,
+    webContents: WebContents,
+    pendingUrl?: string
+  ): BrowserNavigationState {
+    return {
+      tabId,
+      url: pendingUrl ?? webContents.getURL(),
+      title: webContents.getTitle(),
+      canGoBack: webContents.navigationHistory.canGoBack(),
+      canGoForward: webContents.navigationHistory.canGoForward(),
+      isLoading: webContents.isLoading(),
+    };
+  }
+
+  /**
+   * 뒤로/앞으로 이동할 항목 기준 네비게이션 상태 객체 생성
+   * (이동은 비동기라 호출 직후 canGoBack/canGoForward는 이전 항목 기준)
+   *
+   * @private
+   */
+  private buildHistoryState(
+    tabId: string,
+    webContents: WebContents,
+    index: number
+  ): BrowserNavigationState {
+    const history = webContents.navigationHistory;
+    const entry = history.getEntryAtIndex(index);
+    return {
+      tabId,
+      url: entry.url,
+      title: entry.title,
+      canGoBack: index > 0,
+      canGoForward: index < history.length() - 1,
+      isLoading: webContents.isLoading(),
+    };
+  }
+}
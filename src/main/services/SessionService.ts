@@ -0,0 +1,676 @@
+/**
+ * SessionService - 세션 저장/복원 비즈니스 로직
+ *
+ * 책임: 윈도우/탭 구성을 SessionData에 스냅샷으로 저장하고 실행 시 복원
+ * - 탭/윈도우 변경 이벤트(EventBus) 발생 시 디바운스 저장
+ * - 종료(before-quit) 시 정상 종료 마커와 함께 최종 저장
+ * - 실행 시 이전 세션 복원 (윈도우 bounds, 고정/음소거 상태, 탭 그룹, 활성 탭)
+ * - 비정상 종료 감지: 자동 복원 대신 "마지막 세션 복원" 제안
+ *
+ * 비정상 종료 감지 방식:
+ * - 실행 시작 시 cleanExit=false 기록, 정상 종료 시 true 기록
+ * - 다음 실행 시 false가 남아있으면 크래시로 판단
+ *
+ * SRP 원칙: 세션 스냅샷/복원 로직만 담당
+ * 탭 생성/선택은 TabService에, 탭 그룹은 TabGroupService에,
+ * 뷰 배치는 TabViewManager에, 저장은 SessionRepository에 위임
+ */
+
+import type { BrowserWindow, Rectangle } from 'electron';
+import type { SessionData } from '@prisma/client';
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { IPC_CHANNELS } from '../../shared/ipc/channels';
+import type { SessionRecoveryInfo } from '../../shared/ipc/channel-types';
+import type { BrowserTab, TabGroup, TabGroupColor } from '../../shared/types/domain';
+import { EventBus } from '../core/EventBus';
+import type { WindowManager } from '../core/window';
+import type { TabManager } from '../managers/TabManager';
+import type { TabViewManager } from '../managers/TabViewManager';
+import {
+  RECOVERY_SESSION_ID,
+  type SessionRepository,
+} from './database/SessionRepository';
+import type { TabService } from './TabService';
+import type { TabGroupService } from './TabGroupService';
+
+/**
+ * 세션에 저장되는 탭 상태 (SessionData.openTabs JSON 배열 항목)
+ */
+export interface SessionTabState {
+  id: string;
+  url: string;
+  title: string;
+  favicon: string | null;
+  isPinned: boolean;
+  isMuted: boolean;
+  windowId: string | null;
+  groupId: string | null;
+  navigationIndex: number;
+  entries: Array<{ url: string; title: string }>;
+}
+
+/**
+ * 세션에 저장되는 탭 그룹 상태 (SessionData.tabGroups JSON 배열 항목)
+ * - 멤버 탭은 SessionTabState.groupId로 연결
+ */
+export interface SessionTabGroupState {
+  id: string;
+  name: string;
+  color: TabGroupColor;
+  collapsed: boolean;
+}
+
+/**
+ * 세션에 저장되는 윈도우 상태 (SessionData.windowState JSON 배열 항목)
+ */
+export interface SessionWindowState {
+  id: string;
+  bounds: Rectangle;
+  isMaximized: boolean;
+  isFullScreen: boolean;
+  activeTabId: string | null;
+}
+
+/**
+ * SessionService가 쓰는 의존성 기능
+ */
+export type SessionTabs = Pick<
+  TabManager,
+  | 'addTab'
+  | 'updateTab'
+  | 'getAllTabs'
+  | 'getActiveTabId'
+  | 'clearAllTabs'
+  | 'reassignWindows'
+  | 'getNavigationEntries'
+  | 'saveNavigationStack'
+>;
+export type SessionViews = Pick<TabViewManager, 'createView' | 'showView' | 'getVisibleTabId'>;
+export type SessionWindows = Pick<
+  WindowManager,
+  'getMainWindow' | 'getMainWindowId' | 'createWindow' | 'getWindowId' | 'getAllWindows'
+>;
+export type SessionStore = Pick<
+  SessionRepository,
+  'find' | 'save' | 'delete' | 'copyToRecovery' | 'setCleanExit'
+>;
+
+/**
+ * 세션 초기화 옵션
+ */
+export interface SessionInitializeOptions {
+  /** 정상 종료된 이전 세션을 자동 복원할지 여부 */
+  restorePreviousSession: boolean;
+}
+
+/**
+ * 세션 서비스
+ */
+export class SessionService {
+  private logger: ILogger;
+  private eventBus: EventBus;
+  private unsubscribers: Array<() => void> = [];
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastWindowState: string | null = null;
+  private crashed = false;
+  private readonly SAVE_DEBOUNCE_MS = 1000;
+
+  constructor(
+    private tabService: Pick<TabService, 'selectTab'>,
+    private tabGroupService: Pick<TabGroupService, 'getAllGroups' | 'createGroup'>,
+    private tabManager: SessionTabs,
+    private tabViewManager: SessionViews,
+    private windowManager: SessionWindows,
+    private sessionRepository: SessionStore
+  ) {
+    this.logger = new LoggerImpl('SessionService', LogLevel.INFO);
+    this.eventBus = EventBus.getInstance();
+  }
+
+  /**
+   * 세션 초기화 (메인 윈도우 생성 이후 호출)
+   * - 이전 실행이 비정상 종료였으면 스냅샷을 복원 대기로 보관하고 제안
+   * - 정상 종료였으면 설정에 따라 자동 복원 또는 초기화
+   * - 현재 실행을 "종료되지 않음"으로 표시하고 변경 감시 시작
+   */
+  public async initialize(options: SessionInitializeOptions): Promise<void> {
+    try {
+      const previous = await this.sessionRepository.find();
+      this.lastWindowState = previous?.windowState ?? null;
+
+      if (previous && !previous.cleanExit && this.parseTabs(previous.openTabs).length > 0) {
+        // 비정상 종료: 자동 복원하지 않고 복원 제안
+        this.crashed = true;
+        await this.sessionRepository.copyToRecovery(previous);
+        await this.tabManager.clearAllTabs();
+
+        this.logger.warn('SessionService: Unclean shutdown detected', {
+          module: 'SessionService',
+          metadata: { tabCount: this.parseTabs(previous.openTabs).length },
+        });
+
+        this.notifyRecoveryAvailable();
+      } else if (previous && options.restorePreviousSession) {
+        await this.restoreInPlace(previous);
+      } else {
+        await this.tabManager.clearAllTabs();
+      }
+
+      await this.sessionRepository.setCleanExit(false);
+      this.subscribe();
+
+      this.logger.info('SessionService: Initialized', {
+        module: 'SessionService',
+        metadata: { crashed: this.crashed, restore: options.restorePreviousSession },
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SessionService: Failed to initialize', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 현재 세션 즉시 저장
+   *
+   * @param cleanExit true면 정상 종료 마커 기록 (종료 시)
+   */
+  public async saveNow(cleanExit?: boolean): Promise<void> {
+    try {
+      this.clearSaveTimer();
+
+      const tabs = await this.tabManager.getAllTabs();
+      const tabStates = await Promise.all(tabs.map((tab) => this.buildTabState(tab)));
+      const groups = await this.tabGroupService.getAllGroups();
+      const windowState = this.buildWindowState();
+
+      // 마지막 윈도우가 닫힌 뒤(종료 중)에는 직전 윈도우 구성을 유지
+      if (windowState !== null) {
+        this.lastWindowState = windowState;
+      }
+
+      await this.sessionRepository.save({
+        activeTabId: (await this.tabManager.getActiveTabId()) ?? null,
+        openTabs: JSON.stringify(tabStates),
+        tabGroups: JSON.stringify(groups.map((group) => this.buildGroupState(group))),
+        windowState: this.lastWindowState,
+        ...(cleanExit !== undefined ? { cleanExit } : {}),
+      });
+
+      this.logger.debug('SessionService: Session saved', {
+        module: 'SessionService',
+        metadata: { tabCount: tabStates.length, groupCount: groups.length, cleanExit },
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SessionService: Failed to save session', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 종료 처리 (AppLifecycle 종료 작업으로 등록)
+   * - 변경 감시 해제 후 정상 종료 마커와 함께 최종 저장
+   */
+  public async shutdown(): Promise<void> {
+    try {
+      this.unsubscribe();
+      await this.saveNow(true);
+
+      this.logger.info('SessionService: Session saved on shutdown');
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SessionService: Failed to save session on shutdown', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 복원 가능한 이전 세션 정보 조회
+   */
+  public async getRecoveryInfo(): Promise<SessionRecoveryInfo> {
+    try {
+      const recovery = await this.sessionRepository.find(RECOVERY_SESSION_ID);
+      if (!recovery) {
+        return { available: false, crashed: false, tabCount: 0, windowCount: 0, savedAt: null };
+      }
+
+      return {
+        available: true,
+        crashed: this.crashed,
+        tabCount: this.parseTabs(recovery.openTabs).length,
+        windowCount: Math.max(this.parseWindows(recovery.windowState).length, 1),
+        savedAt: recovery.lastActiveAt.getTime(),
+      };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SessionService: Failed to get recovery info', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 마지막 세션 복원 (비정상 종료 후 사용자가 선택한 경우)
+   * - 저장된 윈도우 구성을 다시 열고 (첫 윈도우는 메인 윈도우)
+   *   각 탭을 원래 윈도우의 현재 탭 뒤에 다시 생성
+   * - 윈도우별 활성 탭을 표시하고 전역 활성 탭 선택
+   * - 탭 그룹은 복원된 멤버 탭으로 다시 생성 (이름/색상/접힘 상태 유지)
+   *
+   * @returns 복원된 탭 수
+   */
+  public async restoreLastSession(): Promise<number> {
+    try {
+      const recovery = await this.sessionRepository.find(RECOVERY_SESSION_ID);
+      if (!recovery) {
+        throw new Error('복원할 세션이 없습니다');
+      }
+
+      const tabStates = this.parseTabs(recovery.openTabs);
+      const windows = this.parseWindows(recovery.windowState);
+      const windowIdMap = this.openWindows(windows);
+      const mainWindowId = this.windowManager.getMainWindowId();
+      const idMap = new Map<string, string>();
+
+      // 뷰는 선택 시 생성되므로 저장된 네비게이션 스택이 그대로 복원됨
+      for (const state of tabStates) {
+        const windowId = (state.windowId && windowIdMap.get(state.windowId)) || mainWindowId;
+        const tab = await this.tabManager.addTab(state.url, state.title, windowId);
+        idMap.set(state.id, tab.id);
+
+        await this.tabManager.updateTab(tab.id, {
+          favicon: state.favicon,
+          isPinned: state.isPinned,
+          isMuted: state.isMuted,
+        });
+
+        if (state.entries.length > 0) {
+          await this.tabManager.saveNavigationStack(
+            tab.id,
+            state.entries,
+            Math.min(state.navigationIndex, state.entries.length - 1)
+          );
+        }
+      }
+
+      await this.restoreGroups(this.parseGroups(recovery.tabGroups), tabStates, idMap);
+
+      const restoredTabs = await this.tabManager.getAllTabs();
+      this.showWindowActiveTabs(
+        windows.map((state) => ({
+          ...state,
+          activeTabId: state.activeTabId ? (idMap.get(state.activeTabId) ?? null) : null,
+        })),
+        restoredTabs
+      );
+
+      const activeTabId = recovery.activeTabId ? idMap.get(recovery.activeTabId) : undefined;
+      if (activeTabId) {
+        await this.tabService.selectTab(activeTabId);
+      }
+
+      await this.sessionRepository.delete(RECOVERY_SESSION_ID);
+      this.crashed = false;
+      this.scheduleSave();
+
+      this.logger.info('SessionService: Last session restored', {
+        module: 'SessionService',
+        metadata: { tabCount: idMap.size, windowCount: Math.max(windows.length, 1) },
+      });
+
+      return idMap.size;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SessionService: Failed to restore last session', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 마지막 세션 폐기
+   */
+  public async discardLastSession(): Promise<boolean> {
+    try {
+      await this.sessionRepository.delete(RECOVERY_SESSION_ID);
+      this.crashed = false;
+
+      this.logger.info('SessionService: Last session discarded');
+
+      return true;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SessionService: Failed to discard last session', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 정상 종료된 세션 자동 복원
+   * - 탭 행(순서 포함)은 DB에 남아있으므로 윈도우 구성과 뷰만 복원
+   *
+   * @private
+   */
+  private async restoreInPlace(session: SessionData): Promise<void> {
+    const tabs = await this.tabManager.getAllTabs();
+    if (tabs.length === 0) {
+      return;
+    }
+
+    const windows = this.parseWindows(session.windowState);
+    const windowIdMap = this.openWindows(windows);
+
+    // 탭 소속 윈도우를 새 윈도우 ID로 재매핑 (없어진 윈도우의 탭은 메인 윈도우로)
+    const mainWindowId = this.windowManager.getMainWindowId();
+    if (mainWindowId) {
+      await this.tabManager.reassignWindows(windowIdMap, mainWindowId);
+    }
+    const restoredTabs = await this.tabManager.getAllTabs();
+    this.showWindowActiveTabs(windows, restoredTabs);
+
+    const activeTabId = restoredTabs.some((t) => t.id === session.activeTabId)
+      ? session.activeTabId
+      : restoredTabs[0]?.id;
+    if (activeTabId) {
+      await this.tabService.selectTab(activeTabId);
+    }
+
+    this.logger.info('SessionService: Previous session restored', {
+      module: 'SessionService',
+      metadata: { tabCount: tabs.length, windowCount: Math.max(windows.length, 1) },
+    });
+  }
+
+  /**
+   * 저장된 윈도우 구성 열기 (첫 윈도우는 이미 생성된 메인 윈도우에 적용)
+   *
+   * @returns 저장된 윈도우 ID → 새 윈도우 ID
+   * @private
+   */
+  private openWindows(windows: SessionWindowState[]): Map<string, string> {
+    const windowIdMap = new Map<string, string>();
+    windows.forEach((state, index) => {
+      let window: BrowserWindow | null;
+      if (index === 0) {
+        window = this.windowManager.getMainWindow();
+      } else {
+        window = this.windowManager.createWindow({
+          x: state.bounds.x,
+          y: state.bounds.y,
+          width: state.bounds.width,
+          height: state.bounds.height,
+        });
+      }
+
+      if (!window) {
+        return;
+      }
+
+      this.applyWindowState(window, state);
+      const windowId = this.windowManager.getWindowId(window);
+      if (windowId) {
+        windowIdMap.set(state.id, windowId);
+      }
+    });
+    return windowIdMap;
+  }
+
+  /**
+   * 윈도우별 활성 탭 표시 (전역 활성 탭은 호출한 쪽에서 마지막에 선택)
+   *
+   * @private
+   */
+  private showWindowActiveTabs(windows: SessionWindowState[], tabs: BrowserTab[]): void {
+    for (const state of windows) {
+      const tab = tabs.find((t) => t.id === state.activeTabId);
+      if (tab) {
+        this.tabViewManager.createView(tab);
+        this.tabViewManager.showView(tab.id);
+      }
+    }
+  }
+
+  /**
+   * 탭 그룹 복원 (저장된 탭 ID → 새 탭 ID 매핑 사용)
+   * - 멤버 탭이 하나도 복원되지 않은 그룹은 건너뜀
+   *
+   * @private
+   */
+  private async restoreGroups(
+    groups: SessionTabGroupState[],
+    tabStates: SessionTabState[],
+    idMap: Map<string, string>
+  ): Promise<void> {
+    for (const group of groups) {
+      const tabIds = tabStates
+        .filter((state) => state.groupId === group.id && !state.isPinned)
+        .map((state) => idMap.get(state.id))
+        .filter((id): id is string => id !== undefined);
+      if (tabIds.length === 0) {
+        continue;
+      }
+
+      await this.tabGroupService.createGroup(tabIds, {
+        name: group.name,
+        color: group.color,
+        collapsed: group.collapsed,
+      });
+    }
+  }
+
+  /**
+   * 윈도우 bounds/상태 적용
+   *
+   * @private
+   */
+  private applyWindowState(window: BrowserWindow, state: SessionWindowState): void {
+    window.setBounds(state.bounds);
+    if (state.isMaximized) {
+      window.maximize();
+    }
+    if (state.isFullScreen) {
+      window.setFullScreen(true);
+    }
+  }
+
+  /**
+   * 탭 상태 스냅샷 생성
+   *
+   * @private
+   */
+  private async buildTabState(tab: BrowserTab): Promise<SessionTabState> {
+    const entries = await this.tabManager.getNavigationEntries(tab.id);
+    return {
+      id: tab.id,
+      url: tab.url,
+      title: tab.title,
+      favicon: tab.favicon ?? null,
+      isPinned: tab.isPinned,
+      isMuted: tab.isMuted,
+      windowId: tab.windowId,
+      groupId: tab.groupId,
+      navigationIndex: tab.navigationIndex,
+      entries: entries.map((entry) => ({ url: entry.url, title: entry.title })),
+    };
+  }
+
+  /**
+   * 탭 그룹 상태 스냅샷 생성
+   *
+   * @private
+   */
+  private buildGroupState(group: TabGroup): SessionTabGroupState {
+    return {
+      id: group.id,
+      name: group.name,
+      color: group.color,
+      collapsed: group.collapsed,
+    };
+  }
+
+  /**
+   * 윈도우 상태 스냅샷 생성 (JSON 문자열)
+   *
+   * @returns 열린 윈도우가 없으면 null
+   * @private
+   */
+  private buildWindowState(): string | null {
+    const states: SessionWindowState[] = [];
+    const mainWindowId = this.windowManager.getMainWindowId();
+
+    for (const window of this.windowManager.getAllWindows()) {
+      const id = this.windowManager.getWindowId(window);
+      if (!id) {
+        continue;
+      }
+
+      const state: SessionWindowState = {
+        id,
+        bounds: window.getNormalBounds(),
+        isMaximized: window.isMaximized(),
+        isFullScreen: window.isFullScreen(),
+        activeTabId: this.tabViewManager.getVisibleTabId(id),
+      };
+
+      // 메인 윈도우를 첫 번째로 저장 (복원 시 기존 메인 윈도우에 적용)
+      if (id === mainWindowId) {
+        states.unshift(state);
+      } else {
+        states.push(state);
+      }
+    }
+
+    return states.length > 0 ? JSON.stringify(states) : null;
+  }
+
+  /**
+   * 탭/윈도우 변경 이벤트 구독
+   *
+   * @private
+   */
+  private subscribe(): void {
+    const events = [
+      'tab:created',
+      'tab:closed',
+      'tab:selected',
+      'tab:updated',
+      'tab:moved',
+      'tabGroup:created',
+      'tabGroup:updated',
+      'tabGroup:removed',
+      'tabGroup:moved',
+      'window:boundsChanged',
+      'window:closed',
+    ];
+    for (const eventName of events) {
+      this.unsubscribers.push(this.eventBus.on(eventName, () => this.scheduleSave()));
+    }
+  }
+
+  /**
+   * 이벤트 구독 해제
+   *
+   * @private
+   */
+  private unsubscribe(): void {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+    this.clearSaveTimer();
+  }
+
+  /**
+   * 디바운스 저장 예약
+   *
+   * @private
+   */
+  private scheduleSave(): void {
+    this.clearSaveTimer();
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.saveNow().catch(() => undefined); // saveNow에서 로그 처리
+    }, this.SAVE_DEBOUNCE_MS);
+  }
+
+  /**
+   * 예약된 저장 취소
+   *
+   * @private
+   */
+  private clearSaveTimer(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+
+  /**
+   * 메인 윈도우 renderer에 복원 제안 알림
+   * - renderer 로드 완료 후 전송
+   *
+   * @private
+   */
+  private notifyRecoveryAvailable(): void {
+    const window = this.windowManager.getMainWindow();
+    if (!window || window.isDestroyed()) {
+      return;
+    }
+
+    const send = () => {
+      this.getRecoveryInfo()
+        .then((info) => {
+          if (!window.isDestroyed()) {
+            window.webContents.send(IPC_CHANNELS.sessionRecoveryAvailable, info);
+          }
+        })
+        .catch(() => undefined); // getRecoveryInfo에서 로그 처리
+    };
+
+    if (window.webContents.isLoading()) {
+      window.webContents.once('did-finish-load', send);
+    } else {
+      send();
+    }
+  }
+
+  /**
+   * openTabs JSON 파싱 (손상 시 빈 배열)
+   *
+   * @private
+   */
+  private parseTabs(json: string | null): SessionTabState[] {
+    try {
+      const parsed: unknown = JSON.parse(json ?? '[]');
+      return Array.isArray(parsed) ? (parsed as SessionTabState[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * tabGroups JSON 파싱 (손상 시 빈 배열)
+   *
+   * @private
+   */
+  private parseGroups(json: string | null): SessionTabGroupState[] {
+    try {
+      const parsed: unknown = JSON.parse(json ?? '[]');
+      return Array.isArray(parsed) ? (parsed as SessionTabGroupState[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * windowState JSON 파싱 (손상 시 빈 배열)
+   *
+   * @private
+   */
+  private parseWindows(json: string | null): SessionWindowState[] {
+    try {
+      const parsed: unknown = JSON.parse(json ?? '[]');
+      return Array.isArray(parsed) ? (parsed as SessionWindowState[]) : [];
+    } catch {
+      return [];
+    }
+  }
+}
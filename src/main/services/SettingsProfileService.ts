@@ -0,0 +1,352 @@
+/**
+ * SettingsProfileService - 설정 프로필 / 설정 내보내기, 가져오기
+ *
+ * 책임: 이름 있는 설정 프로필 관리와 설정 묶음 파일 입출력
+ * - 프로필 생성 (현재 설정 복사), 이름 변경, 삭제 (사용 중인 프로필 제외)
+ * - 프로필 전환: 사용 중인 프로필에 현재 설정을 저장한 뒤 대상 프로필 설정을 한 번에 적용
+ *   (프로필은 앱 설정과 단축키만 담음, 사이트별 설정은 프로필과 무관하게 공유)
+ * - 내보내기: 설정, 사이트별 줌/권한, 단축키를 체크섬 있는 JSON 묶음으로 (저장 대화상자)
+ * - 가져오기: 열기 대화상자로 고른 파일만 읽음, 묶음 전체 형식/체크섬 확인 후 항목별 검증
+ *   - 설정은 통과한 키만 한 번에 저장 (저장 실패 시 아무것도 바뀌지 않음)
+ *   - 사이트별 설정은 사이트마다 저장 (실패한 사이트만 건너뜀)
+ *
+ * SRP 원칙: 프로필 전환과 묶음 입출력 조율만 담당
+ * 설정 검증/저장은 SettingsService, 사이트별 설정은 SiteSettingsService,
+ * 묶음 형식은 settings/settingsBundle, 프로필 저장은 SettingsProfileRepository에 위임
+ */
+
+import type { BrowserWindow } from 'electron';
+import type { SettingsProfile as SettingsProfileRow } from '@prisma/client';
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { safeReadFile, safeWriteFile } from '../../shared/platform';
+import type {
+  AppSettings,
+  ExportResult,
+  SettingKey,
+  SettingsImportResult,
+  SettingsProfile,
+} from '../../shared/types/domain';
+import type { SettingsService } from './SettingsService';
+import type { SiteSettingsService } from './SiteSettingsService';
+import type { SettingsProfileRepository } from './database/SettingsProfileRepository';
+import { showSaveDialog, type SaveDialogPicker } from './export/common';
+import { showOpenDialog, type OpenDialogPicker } from './file/common';
+import { createSettingsBundle, parseSettingsBundle } from './settings/settingsBundle';
+import {
+  SETTINGS_VERSION,
+  isSameSettingValue,
+  migrateSettings,
+  readSettings,
+} from './settings/settingsSchema';
+
+/** SettingsProfileService가 쓰는 프로필 저장소 기능 */
+export type SettingsProfileStore = Pick<
+  SettingsProfileRepository,
+  | 'findAll'
+  | 'findById'
+  | 'findByName'
+  | 'findActive'
+  | 'create'
+  | 'saveData'
+  | 'rename'
+  | 'activate'
+  | 'delete'
+>;
+
+/**
+ * 설정 프로필 서비스
+ */
+export class SettingsProfileService {
+  private logger: ILogger;
+
+  constructor(
+    private repository: SettingsProfileStore,
+    private settingsService: Pick<SettingsService, 'getAll' | 'update'>,
+    private siteSettingsService: Pick<SiteSettingsService, 'list' | 'applySite'>,
+    private pickSavePath: SaveDialogPicker = showSaveDialog,
+    private pickOpenPaths: OpenDialogPicker = showOpenDialog
+  ) {
+    this.logger = new LoggerImpl('SettingsProfileService', LogLevel.INFO);
+  }
+
+  /**
+   * 모든 프로필 (생성순)
+   */
+  public async list(): Promise<SettingsProfile[]> {
+    try {
+      const rows = await this.repository.findAll();
+      return rows.map((row) => this.toProfile(row));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SettingsProfileService: Failed to list profiles', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 현재 설정으로 새 프로필 생성
+   *
+   * @param name 프로필 이름
+   */
+  public async create(name: string): Promise<SettingsProfile> {
+    try {
+      await this.requireUniqueName(name);
+
+      const row = await this.repository.create(
+        name,
+        SETTINGS_VERSION,
+        JSON.stringify(this.settingsService.getAll())
+      );
+
+      this.logger.info('SettingsProfileService: Profile created', {
+        module: 'SettingsProfileService',
+        metadata: { id: row.id, name },
+      });
+
+      return this.toProfile(row);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SettingsProfileService: Failed to create profile', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 프로필 이름 변경
+   */
+  public async rename(id: string, name: string): Promise<SettingsProfile> {
+    try {
+      const profile = await this.requireProfile(id);
+      if (profile.name !== name) {
+        await this.requireUniqueName(name);
+      }
+
+      return this.toProfile(await this.repository.rename(id, name));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SettingsProfileService: Failed to rename profile', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 프로필 삭제 (사용 중인 프로필은 삭제 불가)
+   */
+  public async delete(id: string): Promise<boolean> {
+    try {
+      const profile = await this.requireProfile(id);
+      if (profile.isActive) {
+        throw new Error(`사용 중인 프로필은 삭제할 수 없습니다: ${profile.name}`);
+      }
+
+      await this.repository.delete(id);
+
+      this.logger.info('SettingsProfileService: Profile deleted', {
+        module: 'SettingsProfileService',
+        metadata: { id, name: profile.name },
+      });
+
+      return true;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SettingsProfileService: Failed to delete profile', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 프로필 전환
+   * - 사용 중인 프로필에 현재 설정 저장 → 대상 프로필 설정 적용 → 사용 중으로 표시
+   *
+   * @param id 전환할 프로필 ID
+   * @returns 적용된 설정
+   */
+  public async switchTo(id: string): Promise<AppSettings> {
+    try {
+      const target = await this.requireProfile(id);
+
+      const active = await this.repository.findActive();
+      if (active && active.id !== target.id) {
+        await this.repository.saveData(
+          active.id,
+          SETTINGS_VERSION,
+          JSON.stringify(this.settingsService.getAll())
+        );
+      }
+
+      const settings = readSettings(
+        migrateSettings(this.parseDocument(target.data), target.version, [])
+      );
+      const applied = await this.settingsService.update({ ...settings });
+      await this.repository.activate(target.id);
+
+      this.logger.info('SettingsProfileService: Profile switched', {
+        module: 'SettingsProfileService',
+        metadata: { from: active?.name ?? null, to: target.name },
+      });
+
+      return applied;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SettingsProfileService: Failed to switch profile', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 설정 묶음 내보내기
+   *
+   * @param owner 저장 대화상자를 띄울 윈도우
+   * @returns 저장 위치와 내보낸 사이트별 설정 수 (취소하면 canceled)
+   */
+  public async exportBundle(owner: BrowserWindow | null = null): Promise<ExportResult> {
+    try {
+      const filePath = await this.pickSavePath(
+        {
+          title: '설정 내보내기',
+          defaultPath: 'aside-settings.json',
+          filters: [{ name: 'JSON', extensions: ['json'] }],
+        },
+        owner
+      );
+      if (!filePath) {
+        return { canceled: true, filePath: null, count: 0 };
+      }
+
+      const active = await this.repository.findActive();
+      const sites = this.siteSettingsService.list();
+      const bundle = createSettingsBundle(
+        this.settingsService.getAll(),
+        sites,
+        active?.name ?? null
+      );
+
+      safeWriteFile(filePath, `${JSON.stringify(bundle, null, 2)}\n`);
+
+      this.logger.info('SettingsProfileService: Settings exported', {
+        module: 'SettingsProfileService',
+        metadata: { profile: bundle.profile, sites: sites.length },
+      });
+
+      return { canceled: false, filePath, count: sites.length };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SettingsProfileService: Failed to export settings', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 설정 묶음 가져오기 (열기 대화상자로 고른 파일을 현재 설정과 사이트별 설정에 덮어쓰기)
+   *
+   * @param owner 대화상자를 띄울 윈도우
+   * @returns 취소 여부, 적용한 설정 키, 사이트 수, 건너뛴 항목
+   */
+  public async importBundle(owner: BrowserWindow | null = null): Promise<SettingsImportResult> {
+    try {
+      const [filePath] = await this.pickOpenPaths(
+        {
+          title: '설정 가져오기',
+          filters: [{ name: 'JSON', extensions: ['json'] }],
+          properties: ['openFile'],
+        },
+        owner
+      );
+      if (!filePath) {
+        return { canceled: true, settings: [], sites: 0, skipped: [] };
+      }
+
+      const parsed = parseSettingsBundle(safeReadFile(filePath));
+      const skipped = [...parsed.skipped];
+
+      // 설정: 검증을 통과한 키만 한 번에 (실패하면 설정은 그대로)
+      const before = this.settingsService.getAll();
+      const after = await this.settingsService.update({ ...parsed.settings });
+      const settings = (Object.keys(parsed.settings) as SettingKey[]).filter(
+        (key) => !isSameSettingValue(before[key], after[key])
+      );
+
+      // 사이트별 설정: 사이트마다 저장 (실패한 사이트만 건너뜀)
+      let sites = 0;
+      for (const site of parsed.sites) {
+        try {
+          await this.siteSettingsService.applySite(site);
+          sites++;
+        } catch (error) {
+          skipped.push({
+            section: 'siteSettings',
+            key: site.origin,
+            reason: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      this.logger.info('SettingsProfileService: Settings imported', {
+        module: 'SettingsProfileService',
+        metadata: { profile: parsed.profile, settings, sites, skipped: skipped.length },
+      });
+
+      return { canceled: false, settings, sites, skipped };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SettingsProfileService: Failed to import settings', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 프로필 조회 (없으면 에러)
+   *
+   * @private
+   */
+  private async requireProfile(id: string): Promise<SettingsProfileRow> {
+    const profile = await this.repository.findById(id);
+    if (!profile) {
+      throw new Error(`프로필을 찾을 수 없습니다: ${id}`);
+    }
+    return profile;
+  }
+
+  /**
+   * 같은 이름의 프로필이 있으면 에러
+   *
+   * @private
+   */
+  private async requireUniqueName(name: string): Promise<void> {
+    if (await this.repository.findByName(name)) {
+      throw new Error(`이미 있는 프로필 이름입니다: ${name}`);
+    }
+  }
+
+  /**
+   * 저장된 JSON 문서 파싱 (깨졌으면 빈 문서 → 기본값)
+   *
+   * @private
+   */
+  private parseDocument(data: string): Record<string, unknown> {
+    try {
+      const parsed: unknown = JSON.parse(data);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as Record<string, unknown>)
+        : {};
+    } catch {
+      this.logger.warn('SettingsProfileService: Stored profile is not valid JSON, using defaults');
+      return {};
+    }
+  }
+
+  /**
+   * DB 행 → 프로필
+   *
+   * @private
+   */
+  private toProfile(row: SettingsProfileRow): SettingsProfile {
+    return {
+      id: row.id,
+      name: row.name,
+      active: row.isActive,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
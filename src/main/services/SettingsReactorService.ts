@@ -0,0 +1,98 @@
+/**
+ * SettingsReactorService - 설정 변경을 실행 중인 앱에 반영
+ *
+ * 책임: 설정 적용기 실행 시점 관리
+ * - 시작 시 현재 설정을 모든 적용기에 1회 적용
+ * - settings:changed마다 바뀐 키를 담당하는 적용기만 실행
+ * - 적용기 하나가 실패해도 나머지는 계속 적용
+ *
+ * SRP 원칙: 적용 시점 관리만 담당
+ * 값 저장은 SettingsService에, 실제 반영은 각 적용기 (settings/appliers)에 위임
+ */
+
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import type { AppSettings, SettingsChange } from '../../shared/types/domain';
+import { EventBus } from '../core/EventBus';
+import type { SettingsService } from './SettingsService';
+import type { SettingsApplier } from './settings/appliers';
+
+/**
+ * 설정 반영 서비스
+ */
+export class SettingsReactorService {
+  private logger: ILogger;
+  private unsubscribeChanged: (() => void) | null = null;
+
+  constructor(
+    private settingsService: Pick<SettingsService, 'getAll'>,
+    private appliers: SettingsApplier[]
+  ) {
+    this.logger = new LoggerImpl('SettingsReactorService', LogLevel.INFO);
+  }
+
+  /**
+   * 현재 설정 적용 후 변경 구독 시작 (app ready 이후 호출)
+   */
+  public async start(): Promise<void> {
+    if (this.unsubscribeChanged) {
+      return;
+    }
+
+    for (const applier of this.appliers) {
+      applier.start?.();
+    }
+
+    this.unsubscribeChanged = EventBus.getInstance().on(
+      'settings:changed',
+      (change: SettingsChange) => {
+        void this.react(change);
+      }
+    );
+
+    const settings = this.settingsService.getAll();
+    await Promise.all(this.appliers.map((applier) => this.runApplier(applier, settings)));
+
+    this.logger.info('SettingsReactorService: Started', {
+      module: 'SettingsReactorService',
+      metadata: { appliers: this.appliers.map((applier) => applier.name) },
+    });
+  }
+
+  /**
+   * 변경 구독 중지
+   */
+  public stop(): void {
+    this.unsubscribeChanged?.();
+    this.unsubscribeChanged = null;
+
+    for (const applier of this.appliers) {
+      applier.stop?.();
+    }
+  }
+
+  /**
+   * 바뀐 키를 담당하는 적용기만 실행
+   *
+   * @param change settings:changed 이벤트
+   */
+  public async react(change: SettingsChange): Promise<void> {
+    const affected = this.appliers.filter((applier) =>
+      applier.keys.some((key) => change.keys.includes(key))
+    );
+    await Promise.all(affected.map((applier) => this.runApplier(applier, change.settings)));
+  }
+
+  /**
+   * 적용기 실행 (실패는 로그만)
+   *
+   * @private
+   */
+  private async runApplier(applier: SettingsApplier, settings: AppSettings): Promise<void> {
+    try {
+      await applier.apply(settings);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error(`SettingsReactorService: Failed to apply ${applier.name} setting`, err);
+    }
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * SettingsService - 앱 설정 단일 저장소
+ *
+ * 책임: 타입 있는 설정 문서 하나를 소유하고 검증된 쓰기만 저장
+ * - 시작 시 AppSettings 행 (버전 + JSON 문서) 로드, 이전 버전이면 마이그레이션 후 저장
+ *   (버전 1: 이전 ConfigManager / ConfigService 설정 파일 병합)
+ * - 조회는 메모리 사본에서 동기로
+ * - 쓰기/초기화는 settingsSchema로 검증 후 저장, 순서대로 하나씩 처리
+ * - 값이 실제로 바뀐 경우에만 변경 이벤트 발행
+ *
+ * SRP 원칙: 설정 값 관리만 담당
+ * 저장은 AppSettingsRepository, 창 전달은 SettingsHandler,
+ * 변경 적용은 이벤트 구독자에 위임
+ *
+ * 발행 이벤트:
+ * - settings:changed { keys, settings, previous }
+ */
+
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { ValidationError } from '../../shared/errors';
+import type { AppSettings, SettingKey, SettingsChange } from '../../shared/types/domain';
+import { EventBus } from '../core/EventBus';
+import type { AppSettingsRepository } from './database/AppSettingsRepository';
+import { readLegacySettings } from './settings/legacySettings';
+import {
+  DEFAULT_SETTINGS,
+  SETTINGS_VERSION,
+  SETTING_KEYS,
+  isSameSettingValue,
+  isSettingKey,
+  migrateSettings,
+  readSettings,
+  validateSettingsPatch,
+} from './settings/settingsSchema';
+
+/**
+ * 이전 설정 파일 읽기 (테스트에서 교체 가능)
+ */
+export type LegacySettingsReader = () => Promise<Record<string, unknown>[]>;
+
+/** SettingsService가 쓰는 설정 저장소 기능 */
+export type SettingsStore = Pick<AppSettingsRepository, 'get' | 'save'>;
+
+/**
+ * 설정 서비스
+ */
+export class SettingsService {
+  private logger: ILogger;
+  private eventBus: EventBus;
+  private settings: AppSettings = { ...DEFAULT_SETTINGS };
+  private queue: Promise<void> = Promise.resolve();
+
+  private constructor(
+    private repository: SettingsStore,
+    private readLegacy: LegacySettingsReader
+  ) {
+    this.logger = new LoggerImpl('SettingsService', LogLevel.INFO);
+    this.eventBus = EventBus.getInstance();
+  }
+
+  /**
+   * SettingsService 생성 (의존성 주입)
+   */
+  static create(
+    repository: SettingsStore,
+    readLegacy: LegacySettingsReader = readLegacySettings
+  ): SettingsService {
+    return new SettingsService(repository, readLegacy);
+  }
+
+  /**
+   * 저장된 설정 로드 (이전 버전이면 마이그레이션 후 저장)
+   * - 로드 실패 시 기본값으로 계속 (앱 시작을 막지 않음)
+   */
+  public async initialize(): Promise<AppSettings> {
+    try {
+      const row = await this.repository.get();
+      let document = this.parseDocument(row.data);
+
+      if (row.version < SETTINGS_VERSION) {
+        document = migrateSettings(document, row.version, await this.readLegacy());
+        this.settings = readSettings(document);
+        await this.repository.save(SETTINGS_VERSION, JSON.stringify(this.settings));
+
+        this.logger.info('SettingsService: Settings migrated', {
+          module: 'SettingsService',
+          metadata: { from: row.version, to: SETTINGS_VERSION },
+        });
+      } else {
+        this.settings = readSettings(document);
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SettingsService: Failed to load settings, using defaults', err);
+      this.settings = { ...DEFAULT_SETTINGS };
+    }
+
+    return this.getAll();
+  }
+
+  /**
+   * 전체 설정 조회 (복사본)
+   */
+  public getAll(): AppSettings {
+    return { ...this.settings, keyboardShortcuts: { ...this.settings.keyboardShortcuts } };
+  }
+
+  /**
+   * 설정값 조회
+   */
+  public get<K extends SettingKey>(key: K): AppSettings[K] {
+    return this.settings[key];
+  }
+
+  /**
+   * 설정값 저장
+   *
+   * @param key 설정 키
+   * @param value 새 값 (스키마로 검증)
+   * @returns 변경 후 전체 설정
+   */
+  public async set(key: string, value: unknown): Promise<AppSettings> {
+    return this.update({ [key]: value });
+  }
+
+  /**
+   * 여러 설정값을 한 번에 저장 (하나라도 잘못되면 아무것도 저장하지 않음)
+   *
+   * @param patch 키 → 새 값
+   * @returns 변경 후 전체 설정
+   */
+  public async update(patch: Record<string, unknown>): Promise<AppSettings> {
+    return this.enqueue(async () => {
+      try {
+        const validated = validateSettingsPatch(patch);
+        return await this.commit({ ...this.settings, ...validated });
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.logger.error('SettingsService: Failed to update settings', err);
+        throw err;
+      }
+    });
+  }
+
+  /**
+   * 설정 초기화 (기본값으로)
+   *
+   * @param keys 초기화할 키 (생략 시 전체)
+   * @returns 변경 후 전체 설정
+   */
+  public async reset(keys: string[] = SETTING_KEYS): Promise<AppSettings> {
+    return this.enqueue(async () => {
+      try {
+        const unknownKey = keys.find((key) => !isSettingKey(key));
+        if (unknownKey !== undefined) {
+          throw new ValidationError(`알 수 없는 설정입니다: ${unknownKey}`, { key: unknownKey });
+        }
+
+        const defaults = Object.fromEntries(
+          (keys as SettingKey[]).map((key) => [key, DEFAULT_SETTINGS[key]])
+        );
+        return await this.commit({ ...this.settings, ...defaults });
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.logger.error('SettingsService: Failed to reset settings', err);
+        throw err;
+      }
+    });
+  }
+
+  /**
+   * 새 설정 저장 후 메모리 반영, 바뀐 키가 있으면 이벤트 발행
+   *
+   * @private
+   */
+  private async commit(next: AppSettings): Promise<AppSettings> {
+    const keys = SETTING_KEYS.filter((key) => !isSameSettingValue(next[key], this.settings[key]));
+    if (keys.length === 0) {
+      return this.getAll();
+    }
+
+    await this.repository.save(SETTINGS_VERSION, JSON.stringify(next));
+
+    const previous = this.settings;
+    this.settings = next;
+
+    this.logger.info('SettingsService: Settings changed', {
+      module: 'SettingsService',
+      metadata: { keys },
+    });
+
+    const change: SettingsChange = { keys, settings: this.getAll(), previous: { ...previous } };
+    this.eventBus.emit('settings:changed', change);
+
+    return this.getAll();
+  }
+
+  /**
+   * 쓰기 작업을 순서대로 하나씩 실행 (앞 작업이 실패해도 다음 작업은 실행)
+   *
+   * @private
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.then(
+      () => undefined,
+      () => undefined
+    );
+    return run;
+  }
+
+  /**
+   * 저장된 JSON 문서 파싱 (깨졌으면 빈 문서)
+   *
+   * @private
+   */
+  private parseDocument(data: string): Record<string, unknown> {
+    try {
+      const parsed: unknown = JSON.parse(data);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as Record<string, unknown>)
+        : {};
+    } catch {
+      this.logger.warn('SettingsService: Stored settings are not valid JSON, using defaults');
+      return {};
+    }
+  }
+}
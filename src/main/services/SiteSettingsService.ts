@@ -0,0 +1,539 @@
+/**
+ * SiteSettingsService - 사이트별 설정 / 권한
+ *
+ * 책임: origin 단위 설정 덮어쓰기와 권한 결정
+ * - SiteSetting 행을 메모리에 캐시 (조회는 동기)
+ * - 세션 권한 요청/확인 핸들러 등록
+ *   - 요청 (setPermissionRequestHandler): 차단 → 거부, 허용 → 승인, 묻기/기본 → 대화상자
+ *     (기억하면 사이트 설정에 저장, 아니면 그 탭이 닫힐 때까지만 유지)
+ *   - 확인 (setPermissionCheckHandler): 차단된 경우만 거부 (묻기는 요청 시점에 물어봄)
+ *   - 알림은 전역 설정 enableNotifications가 꺼져 있으면 항상 거부
+ *   - 관리하지 않는 권한은 Electron 기본 동작 (승인) 유지
+ * - 사이트 줌 저장 (ZoomApplier가 사용)
+ * - 팝업 정책 (TabViewManager가 window.open마다 여는 페이지의 사이트 설정 확인)
+ * - 세션 webRequest 핸들러 등록 (요청마다 그 URL의 사이트 설정 적용, 차단한 경우만)
+ *   - 쿠키: 요청의 Cookie, 응답의 Set-Cookie 제거
+ *   - JavaScript, 자동 재생: 문서 응답에 CSP / Permissions-Policy 헤더 추가
+ *     (탐색마다 적용되므로 탭이 다른 사이트로 이동해도 그 사이트 설정을 따름)
+ * - 사이트 설정 목록 조회, 해제, 가져온 설정 저장
+ *
+ * SRP 원칙: 사이트별 값 관리와 권한 결정만 담당
+ * 저장은 SiteSettingRepository, 대화상자는 permissionPrompt, 헤더 처리는 siteHeaders,
+ * 줌 적용은 ZoomApplier에 위임
+ *
+ * 발행 이벤트:
+ * - site:settingsChanged { origin }
+ */
+
+import {
+  session,
+  type BeforeSendResponse,
+  type HeadersReceivedResponse,
+  type OnBeforeSendHeadersListenerDetails,
+  type OnHeadersReceivedListenerDetails,
+  type Session,
+  type WebContents,
+} from 'electron';
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { ValidationError } from '../../shared/errors';
+import type {
+  SitePermission,
+  SitePermissionState,
+  SiteSettingKey,
+  SiteSettings,
+} from '../../shared/types/domain';
+import { EventBus } from '../core/EventBus';
+import type { SettingsService } from './SettingsService';
+import type { SiteSettingRepository } from './database/SiteSettingRepository';
+import { showPermissionPrompt, type PermissionPrompt } from './site/permissionPrompt';
+import {
+  BLOCK_AUTOPLAY_POLICY,
+  BLOCK_SCRIPTS_POLICY,
+  withHeaderValue,
+  withoutHeader,
+} from './site/siteHeaders';
+import {
+  SITE_SETTING_KEYS,
+  toSitePermissions,
+  toSiteOrigin,
+  toSiteSettings,
+} from './site/sitePermissions';
+
+/**
+ * 사이트 설정을 적용할 요청 훅 (세션 webRequest)
+ */
+export interface SiteRequestHooks {
+  onBeforeSendHeaders(
+    listener: (
+      details: OnBeforeSendHeadersListenerDetails,
+      callback: (response: BeforeSendResponse) => void
+    ) => void
+  ): void;
+  onHeadersReceived(
+    listener: (
+      details: OnHeadersReceivedListenerDetails,
+      callback: (response: HeadersReceivedResponse) => void
+    ) => void
+  ): void;
+}
+
+/**
+ * 권한/요청 핸들러를 등록할 세션
+ */
+export type PermissionSession = Pick<
+  Session,
+  'setPermissionRequestHandler' | 'setPermissionCheckHandler'
+> & { webRequest: SiteRequestHooks };
+
+/** SiteSettingsService가 쓰는 사이트 설정 저장소 기능 */
+export type SiteSettingsStore = Pick<SiteSettingRepository, 'findAll' | 'upsert' | 'clear'>;
+
+/**
+ * 사이트별 설정 서비스
+ */
+export class SiteSettingsService {
+  private logger: ILogger;
+  private eventBus: EventBus;
+  private sites: Map<string, SiteSettings> = new Map(); // origin → 설정
+  private tabDecisions: Map<number, Map<string, boolean>> = new Map(); // webContents.id → "origin|권한" → 허용 여부
+  private pendingPrompts: Map<string, Promise<boolean>> = new Map();
+
+  private constructor(
+    private repository: SiteSettingsStore,
+    private settingsService: Pick<SettingsService, 'get'>,
+    private prompt: PermissionPrompt
+  ) {
+    this.logger = new LoggerImpl('SiteSettingsService', LogLevel.INFO);
+    this.eventBus = EventBus.getInstance();
+  }
+
+  /**
+   * SiteSettingsService 생성 (의존성 주입)
+   */
+  static create(
+    repository: SiteSettingsStore,
+    settingsService: Pick<SettingsService, 'get'>,
+    prompt: PermissionPrompt = showPermissionPrompt
+  ): SiteSettingsService {
+    return new SiteSettingsService(repository, settingsService, prompt);
+  }
+
+  /**
+   * 저장된 사이트 설정 로드 후 권한/요청 핸들러 등록 (app ready 이후 호출)
+   *
+   * @param target 핸들러를 등록할 세션 (기본: defaultSession)
+   */
+  public async initialize(target: PermissionSession = session.defaultSession): Promise<void> {
+    try {
+      const rows = await this.repository.findAll();
+      this.sites = new Map(rows.map((row) => [row.origin, toSiteSettings(row)]));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SiteSettingsService: Failed to load site settings', err);
+    }
+
+    target.setPermissionRequestHandler((webContents, permission, callback, details) => {
+      const mediaTypes = 'mediaTypes' in details ? (details.mediaTypes ?? []) : [];
+      this.requestPermission(webContents, permission, details.requestingUrl, mediaTypes).then(
+        callback,
+        (error: unknown) => {
+          const err = error instanceof Error ? error : new Error(String(error));
+          this.logger.error('SiteSettingsService: Failed to handle permission request', err);
+          callback(false);
+        }
+      );
+    });
+
+    target.setPermissionCheckHandler((webContents, permission, requestingOrigin, details) =>
+      this.checkPermission(
+        webContents,
+        permission,
+        requestingOrigin,
+        details.mediaType ? [details.mediaType] : []
+      )
+    );
+
+    target.webRequest.onBeforeSendHeaders((details, callback) =>
+      callback(this.filterRequestHeaders(details))
+    );
+    target.webRequest.onHeadersReceived((details, callback) =>
+      callback(this.filterResponseHeaders(details))
+    );
+
+    this.logger.info('SiteSettingsService: Initialized', {
+      module: 'SiteSettingsService',
+      metadata: { sites: this.sites.size },
+    });
+  }
+
+  /**
+   * 모든 사이트 설정 (origin순)
+   */
+  public list(): SiteSettings[] {
+    return [...this.sites.values()]
+      .sort((a, b) => a.origin.localeCompare(b.origin))
+      .map((site) => ({ ...site, permissions: { ...site.permissions } }));
+  }
+
+  /**
+   * 사이트의 권한 상태 (설정 없으면 null = 기본값)
+   */
+  public getPermission(origin: string, permission: SitePermission): SitePermissionState | null {
+    return this.sites.get(origin)?.permissions[permission] ?? null;
+  }
+
+  /**
+   * 사이트 권한 저장
+   *
+   * @param url 사이트 URL 또는 origin
+   * @param permission 권한
+   * @param state ask | allow | block
+   */
+  public async setPermission(
+    url: string,
+    permission: SitePermission,
+    state: SitePermissionState
+  ): Promise<SiteSettings> {
+    try {
+      const origin = this.requireOrigin(url);
+      const row = await this.repository.upsert(origin, { [permission]: state });
+      return this.cache(origin, toSiteSettings(row));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SiteSettingsService: Failed to set permission', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 팝업 허용 여부 (차단한 사이트만 거부)
+   *
+   * @param url 팝업을 여는 페이지 URL
+   */
+  public allowsPopups(url: string): boolean {
+    return !this.isBlocked(url, 'popups');
+  }
+
+  /**
+   * 사이트 줌 (설정 없으면 null = 기본 줌)
+   */
+  public getZoomLevel(origin: string): number | null {
+    return this.sites.get(origin)?.zoomLevel ?? null;
+  }
+
+  /**
+   * 사이트 줌 저장 (null이면 해제)
+   *
+   * @param origin 사이트 origin
+   * @param zoomLevel 줌 배율
+   */
+  public async setZoomLevel(origin: string, zoomLevel: number | null): Promise<void> {
+    try {
+      if (zoomLevel === null) {
+        await this.revoke(origin, ['zoomLevel']);
+        return;
+      }
+
+      const row = await this.repository.upsert(this.requireOrigin(origin), { zoomLevel });
+      this.cache(row.origin, toSiteSettings(row));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SiteSettingsService: Failed to save site zoom', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 가져온 사이트 설정 저장 (주어진 줌/권한만 덮어쓰기)
+   *
+   * @param site 사이트 origin, 줌 (null = 그대로), 권한
+   */
+  public async applySite(site: Omit<SiteSettings, 'updatedAt'>): Promise<SiteSettings> {
+    try {
+      const origin = this.requireOrigin(site.origin);
+      const row = await this.repository.upsert(origin, {
+        ...site.permissions,
+        ...(site.zoomLevel !== null && { zoomLevel: site.zoomLevel }),
+      });
+      return this.cache(origin, toSiteSettings(row));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SiteSettingsService: Failed to apply site settings', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 사이트 설정 해제 (기억한 권한/줌 삭제, 이 사이트에 대한 탭별 선택도 삭제)
+   *
+   * @param url 사이트 URL 또는 origin
+   * @param keys 해제할 항목 (생략 시 전체)
+   * @returns 해제된 값이 있었는지
+   */
+  public async revoke(
+    url: string,
+    keys: readonly SiteSettingKey[] = SITE_SETTING_KEYS
+  ): Promise<boolean> {
+    try {
+      const origin = this.requireOrigin(url);
+      const existing = this.sites.get(origin);
+      const hadValue =
+        existing !== undefined &&
+        keys.some((key) =>
+          key === 'zoomLevel'
+            ? existing.zoomLevel !== null
+            : existing.permissions[key] !== undefined
+        );
+      const hadTabDecision = this.clearTabDecisions(origin, keys);
+
+      if (existing) {
+        const row = await this.repository.clear(origin, [...keys]);
+        if (row) {
+          this.cache(origin, toSiteSettings(row));
+        } else {
+          this.sites.delete(origin);
+          this.eventBus.emit('site:settingsChanged', { origin });
+        }
+      }
+
+      this.logger.info('SiteSettingsService: Site settings revoked', {
+        module: 'SiteSettingsService',
+        metadata: { origin, keys: [...keys] },
+      });
+
+      return hadValue || hadTabDecision;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('SiteSettingsService: Failed to revoke site settings', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 권한 요청 처리 (필요하면 대화상자로 묻기)
+   *
+   * @private
+   */
+  private async requestPermission(
+    webContents: WebContents,
+    permission: string,
+    requestingUrl: string,
+    mediaTypes: string[]
+  ): Promise<boolean> {
+    const origin = toSiteOrigin(requestingUrl);
+    const permissions = toSitePermissions(permission, mediaTypes);
+    if (!origin || permissions.length === 0) {
+      return true;
+    }
+
+    const undecided: SitePermission[] = [];
+    for (const sitePermission of permissions) {
+      const decision = this.decide(webContents.id, origin, sitePermission);
+      if (decision === false) {
+        return false;
+      }
+      if (decision === null) {
+        undecided.push(sitePermission);
+      }
+    }
+    if (undecided.length === 0) {
+      return true;
+    }
+
+    // 같은 탭에서 같은 권한을 동시에 요청하면 대화상자 하나만 표시
+    const key = `${webContents.id}|${origin}|${undecided.join(',')}`;
+    let pending = this.pendingPrompts.get(key);
+    if (!pending) {
+      pending = this.askUser(webContents, origin, undecided).finally(() => {
+        this.pendingPrompts.delete(key);
+      });
+      this.pendingPrompts.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * 권한 확인 처리 (차단된 경우만 거부)
+   *
+   * @private
+   */
+  private checkPermission(
+    webContents: WebContents | null,
+    permission: string,
+    requestingOrigin: string,
+    mediaTypes: string[]
+  ): boolean {
+    const origin = toSiteOrigin(requestingOrigin);
+    if (!origin) {
+      return true;
+    }
+
+    return toSitePermissions(permission, mediaTypes).every(
+      (sitePermission) => this.decide(webContents?.id ?? null, origin, sitePermission) !== false
+    );
+  }
+
+  /**
+   * 저장된 설정/탭별 선택으로 결정 (true 허용, false 차단, null 물어봐야 함)
+   *
+   * @private
+   */
+  private decide(
+    webContentsId: number | null,
+    origin: string,
+    permission: SitePermission
+  ): boolean | null {
+    if (permission === 'notifications' && !this.settingsService.get('enableNotifications')) {
+      return false;
+    }
+
+    const state = this.getPermission(origin, permission);
+    if (state === 'allow' || state === 'block') {
+      return state === 'allow';
+    }
+
+    const tabDecision =
+      webContentsId === null
+        ? undefined
+        : this.tabDecisions.get(webContentsId)?.get(`${origin}|${permission}`);
+    return tabDecision ?? null;
+  }
+
+  /**
+   * 사용자에게 묻고 선택 저장 (기억 → 사이트 설정, 아니면 탭별 선택)
+   *
+   * @private
+   */
+  private async askUser(
+    webContents: WebContents,
+    origin: string,
+    permissions: SitePermission[]
+  ): Promise<boolean> {
+    const { allow, remember } = await this.prompt({ origin, permissions, webContents });
+
+    if (remember) {
+      const row = await this.repository.upsert(
+        origin,
+        Object.fromEntries(permissions.map((permission) => [permission, allow ? 'allow' : 'block']))
+      );
+      this.cache(origin, toSiteSettings(row));
+    } else {
+      let decisions = this.tabDecisions.get(webContents.id);
+      if (!decisions) {
+        decisions = new Map();
+        this.tabDecisions.set(webContents.id, decisions);
+        const webContentsId = webContents.id;
+        webContents.once('destroyed', () => this.tabDecisions.delete(webContentsId));
+      }
+      for (const permission of permissions) {
+        decisions.set(`${origin}|${permission}`, allow);
+      }
+    }
+
+    this.logger.info('SiteSettingsService: Permission decided', {
+      module: 'SiteSettingsService',
+      metadata: { origin, permissions, allow, remember },
+    });
+
+    return allow;
+  }
+
+  /**
+   * 요청 헤더 처리 (쿠키를 차단한 사이트로 가는 요청은 Cookie 제거)
+   *
+   * @private
+   */
+  private filterRequestHeaders(details: OnBeforeSendHeadersListenerDetails): BeforeSendResponse {
+    if (!this.isBlocked(details.url, 'cookies')) {
+      return {};
+    }
+    return { requestHeaders: withoutHeader(details.requestHeaders, 'Cookie') };
+  }
+
+  /**
+   * 응답 헤더 처리 (쿠키 차단은 Set-Cookie 제거, 문서 응답은 JavaScript/자동 재생 차단 정책 추가)
+   *
+   * @private
+   */
+  private filterResponseHeaders(
+    details: OnHeadersReceivedListenerDetails
+  ): HeadersReceivedResponse {
+    const headers = details.responseHeaders;
+    if (!headers) {
+      return {};
+    }
+
+    let responseHeaders = headers;
+    if (this.isBlocked(details.url, 'cookies')) {
+      responseHeaders = withoutHeader(responseHeaders, 'Set-Cookie');
+    }
+    if (details.resourceType === 'mainFrame' || details.resourceType === 'subFrame') {
+      if (this.isBlocked(details.url, 'javascript')) {
+        responseHeaders = withHeaderValue(
+          responseHeaders,
+          'Content-Security-Policy',
+          BLOCK_SCRIPTS_POLICY
+        );
+      }
+      if (this.isBlocked(details.url, 'autoplay')) {
+        responseHeaders = withHeaderValue(
+          responseHeaders,
+          'Permissions-Policy',
+          BLOCK_AUTOPLAY_POLICY
+        );
+      }
+    }
+
+    return responseHeaders === headers ? {} : { responseHeaders };
+  }
+
+  /**
+   * URL의 사이트가 이 권한을 차단했는지
+   *
+   * @private
+   */
+  private isBlocked(url: string, permission: SitePermission): boolean {
+    const origin = toSiteOrigin(url);
+    return origin !== null && this.getPermission(origin, permission) === 'block';
+  }
+
+  /**
+   * 탭별 선택 중 이 사이트 항목 삭제
+   *
+   * @private
+   * @returns 삭제한 항목이 있었는지
+   */
+  private clearTabDecisions(origin: string, keys: readonly SiteSettingKey[]): boolean {
+    let cleared = false;
+    for (const decisions of this.tabDecisions.values()) {
+      for (const key of keys) {
+        cleared = decisions.delete(`${origin}|${key}`) || cleared;
+      }
+    }
+    return cleared;
+  }
+
+  /**
+   * 캐시 갱신 후 변경 이벤트 발행
+   *
+   * @private
+   */
+  private cache(origin: string, site: SiteSettings): SiteSettings {
+    this.sites.set(origin, site);
+    this.eventBus.emit('site:settingsChanged', { origin });
+    return { ...site, permissions: { ...site.permissions } };
+  }
+
+  /**
+   * URL → 사이트 origin (사이트가 아니면 ValidationError)
+   *
+   * @private
+   */
+  private requireOrigin(url: string): string {
+    const origin = toSiteOrigin(url);
+    if (!origin) {
+      throw new ValidationError(`사이트 주소가 올바르지 않습니다: ${url}`, { url });
+    }
+    return origin;
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * TabGroupService - 탭 그룹 비즈니스 로직
+ *
+ * 책임: 탭 그룹 관리 로직
+ * - 선택한 탭으로 그룹 생성 (같은 윈도우의 고정되지 않은 탭만)
+ * - 이름/색상 변경, 접기/펼치기
+ * - 그룹 해제 (멤버 탭은 그대로 유지)
+ * - 그룹 단위 이동 (윈도우 내 재정렬 또는 다른 윈도우로 이동)
+ *
+ * SRP 원칙: 탭 그룹 관련 비즈니스 로직만 담당
+ * 그룹 저장은 TabGroupRepository에, 탭 선택은 TabService에,
+ * 뷰 배치는 TabViewManager에 위임
+ */
+
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { EventBus } from '../core/EventBus';
+import type { TabGroup, TabGroupColor } from '../../shared/types/domain';
+import type { TabManager } from '../managers/TabManager';
+import type { TabViewManager } from '../managers/TabViewManager';
+import type {
+  TabGroupRepository,
+  TabGroupInput,
+  TabGroupWithTabs,
+} from './database/TabGroupRepository';
+import type { TabService } from './TabService';
+
+/**
+ * 그룹 생성 옵션
+ */
+export interface TabGroupCreateOptions {
+  name?: string;
+  color?: TabGroupColor;
+  collapsed?: boolean;
+}
+
+/**
+ * 탭 그룹 서비스
+ */
+export class TabGroupService {
+  private logger: ILogger;
+  private eventBus: EventBus;
+
+  constructor(
+    private tabGroupRepository: TabGroupRepository,
+    private tabService: TabService,
+    private tabManager: TabManager,
+    private tabViewManager: TabViewManager
+  ) {
+    this.logger = new LoggerImpl('TabGroupService', LogLevel.INFO);
+    this.eventBus = EventBus.getInstance();
+  }
+
+  /**
+   * 모든 그룹 조회
+   */
+  public async getAllGroups(): Promise<TabGroup[]> {
+    try {
+      const groups = await this.tabGroupRepository.findAll();
+      return groups.map((group) => this.toDomainGroup(group));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabGroupService: Failed to get groups', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 그룹 생성
+   * - 이미 다른 그룹에 속한 탭은 새 그룹으로 옮겨짐
+   *
+   * @param tabIds 멤버 탭 ID (같은 윈도우, 고정되지 않은 탭)
+   * @param options 이름/색상/접힘 상태
+   */
+  public async createGroup(tabIds: string[], options: TabGroupCreateOptions = {}): Promise<TabGroup> {
+    try {
+      this.logger.info('TabGroupService: Creating group', {
+        module: 'TabGroupService',
+        metadata: { tabIds, name: options.name },
+      });
+
+      const uniqueTabIds = [...new Set(tabIds)];
+      if (uniqueTabIds.length === 0) {
+        throw new Error('그룹에 추가할 탭이 필요합니다');
+      }
+
+      const windowIds = new Set<string | null>();
+      for (const tabId of uniqueTabIds) {
+        const tab = await this.tabManager.getTab(tabId);
+        if (!tab) {
+          throw new Error(`탭을 찾을 수 없습니다: ${tabId}`);
+        }
+        if (tab.isPinned) {
+          throw new Error(`고정 탭은 그룹에 추가할 수 없습니다: ${tabId}`);
+        }
+        windowIds.add(tab.windowId);
+      }
+      if (windowIds.size > 1) {
+        throw new Error('같은 윈도우의 탭만 그룹으로 묶을 수 있습니다');
+      }
+
+      const group = this.toDomainGroup(
+        await this.tabGroupRepository.create(options, uniqueTabIds)
+      );
+
+      this.eventBus.emit('tabGroup:created', { groupId: group.id, tabIds: group.tabIds });
+
+      this.logger.info('TabGroupService: Group created successfully', {
+        module: 'TabGroupService',
+        metadata: { groupId: group.id, tabCount: group.tabIds.length },
+      });
+
+      return group;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabGroupService: Failed to create group', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 그룹 이름 변경
+   */
+  public async renameGroup(groupId: string, name: string): Promise<TabGroup> {
+    try {
+      return await this.updateGroup(groupId, { name });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabGroupService: Failed to rename group', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 그룹 색상 변경
+   */
+  public async setGroupColor(groupId: string, color: TabGroupColor): Promise<TabGroup> {
+    try {
+      return await this.updateGroup(groupId, { color });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabGroupService: Failed to set group color', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 그룹 접기/펼치기
+   * - 활성 탭이 있는 그룹을 접으면 그룹 밖의 탭을 대신 선택
+   */
+  public async setGroupCollapsed(groupId: string, collapsed: boolean): Promise<TabGroup> {
+    try {
+      const group = await this.updateGroup(groupId, { collapsed });
+
+      if (collapsed) {
+        const activeTabId = await this.tabManager.getActiveTabId();
+        if (activeTabId && group.tabIds.includes(activeTabId) && group.windowId) {
+          const windowTabs = await this.tabManager.getTabsByWindow(group.windowId);
+          const next = windowTabs.find((tab) => tab.groupId !== groupId);
+          if (next) {
+            await this.tabService.selectTab(next.id);
+          }
+        }
+      }
+
+      return group;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabGroupService: Failed to set group collapsed', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 그룹 해제 (멤버 탭은 위치 그대로 유지)
+   *
+   * @returns 그룹에서 빠진 탭 ID 목록
+   */
+  public async ungroup(groupId: string): Promise<string[]> {
+    try {
+      await this.getGroupOrThrow(groupId);
+
+      const tabIds = await this.tabGroupRepository.ungroup(groupId);
+      this.eventBus.emit('tabGroup:removed', { groupId, tabIds });
+
+      this.logger.info('TabGroupService: Group ungrouped', {
+        module: 'TabGroupService',
+        metadata: { groupId, tabCount: tabIds.length },
+      });
+
+      return tabIds;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabGroupService: Failed to ungroup', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 그룹 이동 (윈도우 내 재정렬 또는 다른 윈도우로 이동)
+   * - 다른 윈도우로 이동하면 멤버 탭 뷰도 함께 이동
+   *
+   * @param groupId 이동할 그룹 ID
+   * @param index 대상 윈도우 내 위치 (그룹을 제외한 탭 기준)
+   * @param windowId 대상 윈도우 ID (기본: 현재 윈도우)
+   */
+  public async moveGroup(groupId: string, index: number, windowId?: string): Promise<TabGroup> {
+    try {
+      this.logger.info('TabGroupService: Moving group', {
+        module: 'TabGroupService',
+        metadata: { groupId, index, windowId },
+      });
+
+      const group = await this.getGroupOrThrow(groupId);
+
+      if (windowId && this.tabViewManager.resolveWindowId(windowId) !== windowId) {
+        throw new Error(`윈도우를 찾을 수 없습니다: ${windowId}`);
+      }
+
+      const sourceWindowId = this.tabViewManager.resolveWindowId(group.windowId);
+      const targetWindowId = windowId ?? sourceWindowId;
+      if (!targetWindowId) {
+        throw new Error('그룹을 배치할 윈도우가 없습니다');
+      }
+
+      const wasVisible =
+        sourceWindowId !== null &&
+        group.tabIds.includes(this.tabViewManager.getVisibleTabId(sourceWindowId) ?? '');
+
+      const moved = this.toDomainGroup(
+        await this.tabGroupRepository.move(groupId, targetWindowId, index)
+      );
+
+      if (sourceWindowId && sourceWindowId !== targetWindowId) {
+        for (const tabId of moved.tabIds) {
+          this.tabViewManager.moveView(tabId, targetWindowId);
+        }
+
+        // 원래 윈도우에 표시 중이던 탭이 그룹과 함께 이동했으면 남은 탭을 표시
+        if (wasVisible) {
+          const remaining = await this.tabManager.getTabsByWindow(sourceWindowId);
+          const next = remaining[0];
+          if (next) {
+            this.tabViewManager.createView(next);
+            this.tabViewManager.showView(next.id);
+          }
+        }
+
+        if (moved.tabIds[0]) {
+          await this.tabService.selectTab(moved.tabIds[0]);
+        }
+      }
+
+      this.eventBus.emit('tabGroup:moved', { groupId, windowId: targetWindowId });
+
+      this.logger.info('TabGroupService: Group moved successfully', {
+        module: 'TabGroupService',
+        metadata: { groupId, windowId: targetWindowId },
+      });
+
+      return moved;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabGroupService: Failed to move group', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 그룹 속성 수정 후 이벤트 발행
+   *
+   * @private
+   */
+  private async updateGroup(groupId: string, data: TabGroupInput): Promise<TabGroup> {
+    await this.getGroupOrThrow(groupId);
+
+    const group = this.toDomainGroup(await this.tabGroupRepository.update(groupId, data));
+    this.eventBus.emit('tabGroup:updated', { groupId, changes: data });
+
+    return group;
+  }
+
+  /**
+   * 그룹 조회 (없으면 에러)
+   *
+   * @private
+   */
+  private async getGroupOrThrow(groupId: string): Promise<TabGroup> {
+    const group = await this.tabGroupRepository.findById(groupId);
+    if (!group) {
+      throw new Error(`탭 그룹을 찾을 수 없습니다: ${groupId}`);
+    }
+    return this.toDomainGroup(group);
+  }
+
+  /**
+   * DB 그룹 → 도메인 그룹 변환
+   *
+   * @private
+   */
+  private toDomainGroup(group: TabGroupWithTabs): TabGroup {
+    return {
+      id: group.id,
+      name: group.name,
+      color: group.color as TabGroupColor,
+      collapsed: group.collapsed,
+      windowId: group.tabs[0]?.windowId ?? null,
+      tabIds: group.tabs.map((tab) => tab.id),
+      createdAt: group.createdAt,
+      updatedAt: group.updatedAt,
+    };
+  }
+}
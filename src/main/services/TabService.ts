@@ -5,35 +5,140 @@
  * - 탭 생성, 삭제, 선택
  * - 탭 정보 업데이트
  * - 탭 복제
+ * - 탭 순서 변경 및 윈도우 간 이동
+ * - 최근 닫은 탭/윈도우 기록 및 다시 열기 (닫기 실행 취소)
  * - 메모리 모니터링
+ * - 탭 수명 주기 (TabEnforcer 등록, 배경 탭 동결/폐기, 선택 시 복구)
  *
  * SRP 원칙: 탭 관련 비즈니스 로직만 담당
- * 탭 상태 저장은 TabManager에 위임
+ * 탭 상태 저장은 TabManager에, 탭 뷰(WebContentsView)는 TabViewManager에,
+ * 최근 닫은 항목 저장은 RecentlyClosedRepository에,
+ * 동결/폐기 대상 선정은 TabEnforcer에 위임
  */
 
 import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
-import type { BrowserTab } from '../../shared/types/domain';
+import { LIMITS } from '../../shared/constants';
+import { EventBus } from '../core/EventBus';
+import type {
+  BrowserTab,
+  RecentlyClosedEntry,
+  RecentlyClosedTab,
+  TabState,
+} from '../../shared/types/domain';
+import type { TabEnforcer, TabInfo } from '../../shared/system/enforcers/tab';
 import type { TabManager } from '../managers/TabManager';
 import type { ResourceManager } from '../managers/ResourceManager';
+import type { TabViewManager } from '../managers/TabViewManager';
+import type { WindowManager } from '../core/window';
+import type { TaskManagerService } from './TaskManagerService';
+import type { NavigationEntryInput } from './database/TabRepository';
+import type {
+  RecentlyClosedRepository,
+  RecentlyClosedTabInput,
+  RecentlyClosedEntryWithTabs,
+} from './database/RecentlyClosedRepository';
+
+/**
+ * TabService가 쓰는 의존성 기능
+ */
+export type TabServiceStore = Pick<
+  TabManager,
+  | 'addTab'
+  | 'removeTab'
+  | 'getTab'
+  | 'getAllTabs'
+  | 'updateTab'
+  | 'getTabsByWindow'
+  | 'moveTab'
+  | 'setActiveTab'
+  | 'getActiveTab'
+  | 'getActiveTabId'
+  | 'getTabCount'
+  | 'getNavigationEntries'
+  | 'saveNavigationStack'
+>;
+export type TabServiceViews = Pick<
+  TabViewManager,
+  | 'createView'
+  | 'destroyView'
+  | 'discardView'
+  | 'showView'
+  | 'moveView'
+  | 'hasView'
+  | 'isFrozen'
+  | 'setFrozen'
+  | 'getVisibleTabId'
+  | 'getWebContents'
+  | 'resolveWindowId'
+>;
+export type TabServiceResources = Pick<ResourceManager, 'canAllocate'>;
+export type TabServiceClosedStore = Pick<
+  RecentlyClosedRepository,
+  'push' | 'findById' | 'findRecent' | 'delete'
+>;
+export type TabServiceEnforcer = Pick<
+  TabEnforcer,
+  'on' | 'registerTab' | 'updateTab' | 'unregisterTab' | 'resumeTab'
+>;
+export type TabServiceUsage = Pick<TaskManagerService, 'getTabResourceUsage'>;
+export type TabServiceWindows = Pick<WindowManager, 'createWindow' | 'getWindowId'>;
 
 /**
  * 탭 서비스
  */
 export class TabService {
   private logger: ILogger;
+  private eventBus: EventBus;
+  private quitting = false;
+  private trackedTabIds: Set<string> = new Set();
+  private lifecycleTimer: ReturnType<typeof setInterval> | null = null;
   private readonly TAB_MEMORY_LIMIT = 500; // MB
+  private readonly LIFECYCLE_SYNC_INTERVAL_MS = 30000;
 
   constructor(
-    private tabManager: TabManager,
-    private resourceManager: ResourceManager
+    private tabManager: TabServiceStore,
+    private resourceManager: TabServiceResources,
+    private tabViewManager: TabServiceViews,
+    private recentlyClosedRepository: TabServiceClosedStore,
+    private tabEnforcer: TabServiceEnforcer,
+    private taskManagerService: TabServiceUsage,
+    private windowManager: TabServiceWindows
   ) {
     this.logger = new LoggerImpl('TabService', LogLevel.INFO);
+    this.eventBus = EventBus.getInstance();
+
+    // 앱 종료 중 닫히는 윈도우는 세션으로 저장되므로 닫은 항목으로 기록하지 않음
+    this.eventBus.on('app:beforeQuit', () => {
+      this.quitting = true;
+      this.stopLifecycleMonitoring();
+    });
+
+    // 메모리 부하 시 TabEnforcer가 고른 배경 탭을 실제로 동결/폐기
+    this.tabEnforcer.on('onTabSuspend', (tab) => {
+      this.suspendTab((tab as TabInfo).id).catch(() => undefined); // suspendTab에서 로그 처리
+    });
+    this.tabEnforcer.on('onTabDiscard', (tab) => {
+      this.discardTab((tab as TabInfo).id).catch(() => undefined); // discardTab에서 로그 처리
+    });
+
+    // 윈도우 닫기: 소속 탭 전체를 하나의 항목으로 기록 후 닫기
+    this.eventBus.on<{ windowId: string; remainingWindows: number }>(
+      'window:closed',
+      ({ windowId, remainingWindows }) => {
+        if (this.quitting || remainingWindows === 0) {
+          return;
+        }
+        this.closeWindowTabs(windowId).catch(() => undefined); // closeWindowTabs에서 로그 처리
+      }
+    );
   }
 
   /**
    * 새 탭 생성
+   *
+   * @param windowId 소속 윈도우 ID (기본: 메인 윈도우, 마지막 위치에 추가)
    */
-  public async createTab(url: string, title: string = ''): Promise<BrowserTab> {
+  public async createTab(url: string, title: string = '', windowId?: string): Promise<BrowserTab> {
     try {
       // 메모리 체크
       if (!this.resourceManager.canAllocate(40)) {
@@ -46,11 +151,27 @@ export class TabService {
         metadata: { url, title },
       });
 
-      const createdTab = await this.tabManager.addTab(url, title || url);
+      const createdTab = await this.tabManager.addTab(
+        url,
+        title || url,
+        this.tabViewManager.resolveWindowId(windowId)
+      );
       if (!createdTab) {
         throw new Error('탭 생성 실패');
       }
 
+      this.tabViewManager.createView(createdTab);
+
+      // 활성 탭이 없으면 새 탭을 바로 표시
+      const activeTab = await this.tabManager.getActiveTab();
+      if (!activeTab) {
+        await this.tabManager.setActiveTab(createdTab.id);
+        this.tabViewManager.showView(createdTab.id);
+      }
+
+      await this.trackTab(createdTab, activeTab?.id ?? createdTab.id);
+      this.eventBus.emit('tab:created', { tabId: createdTab.id });
+
       this.logger.info('TabService: Tab created successfully', {
         module: 'TabService',
         metadata: { tabId: createdTab.id },
@@ -66,6 +187,8 @@ export class TabService {
 
   /**
    * 탭 닫기
+   * - 활성 탭이었으면 같은 윈도우의 이웃 탭(오른쪽, 없으면 왼쪽)을 선택
+   * - 다른 윈도우에 표시 중이던 탭이면 그 윈도우에 이웃 탭을 대신 표시
    */
   public async closeTab(tabId: string): Promise<void> {
     try {
@@ -74,11 +197,36 @@ export class TabService {
         metadata: { tabId },
       });
 
+      const tab = await this.tabManager.getTab(tabId);
+      if (tab) {
+        await this.recordClosed('tab', [tab]);
+      }
+
+      const windowId = tab ? this.tabViewManager.resolveWindowId(tab.windowId) : null;
+      const wasVisible =
+        windowId !== null && this.tabViewManager.getVisibleTabId(windowId) === tabId;
+
+      this.tabViewManager.destroyView(tabId);
+      this.untrackTab(tabId);
+
       const success = await this.tabManager.removeTab(tabId);
       if (!success) {
         throw new Error(`탭을 찾을 수 없습니다: ${tabId}`);
       }
 
+      if (tab && windowId && (tab.isActive || wasVisible)) {
+        const remaining = await this.tabManager.getTabsByWindow(windowId);
+        const next = remaining[Math.min(tab.index, remaining.length - 1)];
+        if (next && tab.isActive) {
+          await this.selectTab(next.id);
+        } else if (next) {
+          this.tabViewManager.createView(next);
+          this.tabViewManager.showView(next.id);
+        }
+      }
+
+      this.eventBus.emit('tab:closed', { tabId });
+
       this.logger.info('TabService: Tab closed successfully', {
         module: 'TabService',
         metadata: { tabId },
@@ -90,6 +238,204 @@ export class TabService {
     }
   }
 
+  /**
+   * 탭 이동 (드래그 재정렬 또는 다른 윈도우로 이동)
+   * - 고정 탭은 고정 구역, 일반 탭은 일반 구역 안으로 위치 제한
+   * - 다른 윈도우로 이동하면 뷰도 옮기고 대상 윈도우에서 선택
+   *
+   * @param tabId 이동할 탭 ID
+   * @param index 대상 위치 (0부터)
+   * @param windowId 대상 윈도우 ID (기본: 현재 윈도우)
+   * @returns 이동 후 탭
+   */
+  public async moveTab(tabId: string, index: number, windowId?: string): Promise<BrowserTab> {
+    try {
+      this.logger.info('TabService: Moving tab', {
+        module: 'TabService',
+        metadata: { tabId, index, windowId },
+      });
+
+      const tab = await this.tabManager.getTab(tabId);
+      if (!tab) {
+        throw new Error(`탭을 찾을 수 없습니다: ${tabId}`);
+      }
+
+      if (windowId && this.tabViewManager.resolveWindowId(windowId) !== windowId) {
+        throw new Error(`윈도우를 찾을 수 없습니다: ${windowId}`);
+      }
+
+      const sourceWindowId = this.tabViewManager.resolveWindowId(tab.windowId);
+      const targetWindowId = windowId ?? sourceWindowId;
+      if (!targetWindowId) {
+        throw new Error('탭을 배치할 윈도우가 없습니다');
+      }
+
+      const movedTab = await this.tabManager.moveTab(tabId, targetWindowId, index);
+
+      if (sourceWindowId !== targetWindowId) {
+        const wasVisible =
+          sourceWindowId !== null && this.tabViewManager.getVisibleTabId(sourceWindowId) === tabId;
+        this.tabViewManager.moveView(tabId, targetWindowId);
+
+        // 원래 윈도우에는 같은 위치의 탭을 대신 표시
+        if (wasVisible && sourceWindowId) {
+          const remaining = await this.tabManager.getTabsByWindow(sourceWindowId);
+          const next = remaining[Math.min(tab.index, remaining.length - 1)];
+          if (next) {
+            this.tabViewManager.createView(next);
+            this.tabViewManager.showView(next.id);
+          }
+        }
+
+        await this.selectTab(tabId);
+      }
+
+      this.eventBus.emit('tab:moved', { tabId, windowId: targetWindowId, index: movedTab.index });
+
+      this.logger.info('TabService: Tab moved successfully', {
+        module: 'TabService',
+        metadata: { tabId, windowId: targetWindowId, index: movedTab.index },
+      });
+
+      return movedTab;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabService: Failed to move tab', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 윈도우의 모든 탭 닫기 (윈도우가 닫힌 경우)
+   * - 탭 전체를 하나의 "window" 항목으로 기록
+   *
+   * @param windowId 닫힌 윈도우 ID
+   */
+  public async closeWindowTabs(windowId: string): Promise<void> {
+    try {
+      const tabs = await this.tabManager.getTabsByWindow(windowId);
+      if (tabs.length === 0) {
+        return;
+      }
+
+      await this.recordClosed('window', tabs);
+
+      for (const tab of tabs) {
+        this.tabViewManager.destroyView(tab.id);
+        this.untrackTab(tab.id);
+        await this.tabManager.removeTab(tab.id);
+        this.eventBus.emit('tab:closed', { tabId: tab.id });
+      }
+
+      this.logger.info('TabService: Window tabs closed', {
+        module: 'TabService',
+        metadata: { windowId, tabCount: tabs.length },
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabService: Failed to close window tabs', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 최근 닫은 탭/윈도우 다시 열기
+   * - 네비게이션 스택(뒤로/앞으로)과 고정/음소거 상태까지 복원
+   * - 윈도우 항목은 새 윈도우를 열어 포함된 모든 탭을 다시 열고 첫 탭을 선택
+   * - 탭 항목은 현재 윈도우에 다시 열고, 열린 윈도우가 없으면 새 윈도우를 열기
+   *
+   * @param entryId 다시 열 항목 ID (기본: 가장 최근 항목)
+   * @returns 다시 열린 탭 목록
+   */
+  public async reopenClosed(entryId?: string): Promise<BrowserTab[]> {
+    try {
+      const entry = entryId
+        ? await this.recentlyClosedRepository.findById(entryId)
+        : (await this.recentlyClosedRepository.findRecent(1))[0];
+
+      if (!entry) {
+        throw new Error(
+          entryId ? `닫은 항목을 찾을 수 없습니다: ${entryId}` : '다시 열 수 있는 탭이 없습니다'
+        );
+      }
+
+      if (!this.resourceManager.canAllocate(40 * entry.tabs.length)) {
+        this.logger.error('TabService: Insufficient memory to reopen tabs');
+        throw new Error('메모리 부족: 탭을 다시 열 수 없습니다');
+      }
+
+      const windowId =
+        (entry.type === 'window' ? null : this.tabViewManager.resolveWindowId()) ??
+        this.openWindow();
+      if (!windowId) {
+        throw new Error('탭을 다시 열 윈도우를 만들 수 없습니다');
+      }
+
+      const reopened: BrowserTab[] = [];
+      for (const closed of this.toDomainEntry(entry).tabs) {
+        const tab = await this.tabManager.addTab(closed.url, closed.title, windowId);
+        await this.tabManager.updateTab(tab.id, {
+          favicon: closed.favicon ?? null,
+          isPinned: closed.isPinned,
+          isMuted: closed.isMuted,
+        });
+
+        // 뷰 생성 시 스택이 복원되도록 뷰보다 먼저 저장
+        if (closed.navigationEntries.length > 0) {
+          await this.tabManager.saveNavigationStack(
+            tab.id,
+            closed.navigationEntries,
+            Math.min(closed.navigationIndex, closed.navigationEntries.length - 1)
+          );
+        }
+
+        // 닫기 전 위치로 되돌림 (고정 여부 반영 후)
+        await this.tabManager.moveTab(tab.id, windowId, closed.originalIndex);
+
+        // 뷰는 선택 시 생성되므로 선택 전까지는 폐기(discarded) 상태
+        await this.trackTab(tab, null);
+        this.eventBus.emit('tab:created', { tabId: tab.id });
+        reopened.push(tab);
+      }
+
+      await this.recentlyClosedRepository.delete(entry.id);
+
+      const first = reopened[0];
+      if (first) {
+        await this.selectTab(first.id);
+      }
+
+      this.logger.info('TabService: Closed entry reopened', {
+        module: 'TabService',
+        metadata: { entryId: entry.id, type: entry.type, tabCount: reopened.length },
+      });
+
+      return reopened;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabService: Failed to reopen closed tab', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 최근 닫은 탭/윈도우 목록 조회 (최신순)
+   *
+   * @param limit 최대 개수 (기본: LIMITS.MAX_RECENTLY_CLOSED)
+   */
+  public async getRecentlyClosed(
+    limit: number = LIMITS.MAX_RECENTLY_CLOSED
+  ): Promise<RecentlyClosedEntry[]> {
+    try {
+      const entries = await this.recentlyClosedRepository.findRecent(limit);
+      return entries.map((entry) => this.toDomainEntry(entry));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabService: Failed to get recently closed', err);
+      throw err;
+    }
+  }
+
   /**
    * 탭 선택
    */
@@ -105,8 +451,25 @@ export class TabService {
         throw new Error(`탭을 찾을 수 없습니다: ${tabId}`);
       }
 
+      const previous = await this.tabManager.getActiveTab();
       await this.tabManager.setActiveTab(tabId);
 
+      // 뷰가 없으면 (DB에서 불러온 탭, 폐기된 탭) 저장된 네비게이션 스택으로 다시 로드
+      if (!this.tabViewManager.hasView(tabId)) {
+        this.tabViewManager.createView(tab);
+      }
+      // 동결된 탭은 showView에서 해제
+      this.tabViewManager.showView(tabId);
+
+      await this.tabEnforcer.resumeTab(tabId);
+      await this.trackTab(tab, tabId);
+      this.tabEnforcer.updateTab(tabId, { lastAccessedMs: Date.now() });
+      if (previous && previous.id !== tabId) {
+        await this.trackTab(previous, tabId);
+      }
+
+      this.eventBus.emit('tab:selected', { tabId });
+
       this.logger.info('TabService: Tab selected successfully', {
         module: 'TabService',
         metadata: { tabId },
@@ -140,6 +503,8 @@ export class TabService {
         throw new Error('탭 업데이트 실패');
       }
 
+      this.eventBus.emit('tab:updated', { tabId });
+
       this.logger.info('TabService: Tab updated successfully', {
         module: 'TabService',
         metadata: { tabId },
@@ -190,11 +555,24 @@ export class TabService {
         throw new Error('메모리 부족: 탭을 복제할 수 없습니다');
       }
 
-      const duplicatedTab = await this.tabManager.addTab(originalTab.url, originalTab.title);
-      if (!duplicatedTab) {
+      const addedTab = await this.tabManager.addTab(
+        originalTab.url,
+        originalTab.title,
+        this.tabViewManager.resolveWindowId(originalTab.windowId)
+      );
+      if (!addedTab) {
         throw new Error('탭 복제 실패');
       }
 
+      // 원본 탭 바로 오른쪽에 배치
+      const duplicatedTab = addedTab.windowId
+        ? await this.tabManager.moveTab(addedTab.id, addedTab.windowId, originalTab.index + 1)
+        : addedTab;
+
+      this.tabViewManager.createView(duplicatedTab);
+      await this.trackTab(duplicatedTab, await this.tabManager.getActiveTabId());
+      this.eventBus.emit('tab:created', { tabId: duplicatedTab.id });
+
       this.logger.info('TabService: Tab duplicated successfully', {
         module: 'TabService',
         metadata: { originalTabId: tabId, newTabId: duplicatedTab.id },
@@ -236,13 +614,15 @@ export class TabService {
   }
 
   /**
-   * 메모리 사용량 체크
+   * 메모리 사용량 체크 (탭 렌더러 프로세스 실측 합계)
    */
   public async checkMemoryUsage(): Promise<boolean> {
     try {
-      const tabs = await this.tabManager.getAllTabs();
-      const MEMORY_PER_TAB_MB = 40;
-      const memoryUsage = tabs.length * MEMORY_PER_TAB_MB;
+      const usage = await this.taskManagerService.getTabResourceUsage();
+      const memoryUsage = Array.from(usage.values()).reduce(
+        (sum, tabUsage) => sum + tabUsage.memoryMB,
+        0
+      );
       const isCritical = memoryUsage > this.TAB_MEMORY_LIMIT;
 
       if (isCritical) {
@@ -278,6 +658,8 @@ export class TabService {
       }
 
       await this.tabManager.updateTab(tabId, { isMuted: true });
+      this.tabViewManager.getWebContents(tabId)?.setAudioMuted(true);
+      this.eventBus.emit('tab:updated', { tabId });
 
       this.logger.info('TabService: Tab muted successfully', {
         module: 'TabService',
@@ -307,6 +689,7 @@ export class TabService {
       }
 
       await this.tabManager.updateTab(tabId, { isPinned: true });
+      this.eventBus.emit('tab:updated', { tabId });
 
       this.logger.info('TabService: Tab pinned successfully', {
         module: 'TabService',
@@ -318,4 +701,295 @@ export class TabService {
       throw err;
     }
   }
+
+  /**
+   * 탭 수명 주기 감시 시작 (세션 초기화 이후 호출)
+   * - 즉시 한 번 동기화한 뒤 주기적으로 TabEnforcer 정보 갱신
+   */
+  public startLifecycleMonitoring(): void {
+    if (this.lifecycleTimer) {
+      return;
+    }
+
+    this.syncTabLifecycle().catch(() => undefined); // syncTabLifecycle에서 로그 처리
+    this.lifecycleTimer = setInterval(() => {
+      this.syncTabLifecycle().catch(() => undefined);
+    }, this.LIFECYCLE_SYNC_INTERVAL_MS);
+  }
+
+  /**
+   * 탭 수명 주기 감시 중지
+   */
+  public stopLifecycleMonitoring(): void {
+    if (this.lifecycleTimer) {
+      clearInterval(this.lifecycleTimer);
+      this.lifecycleTimer = null;
+    }
+  }
+
+  /**
+   * 모든 탭을 TabEnforcer에 동기화
+   * - 새 탭 등록, 사라진 탭 등록 해제
+   * - 상태(active/background/suspended/discarded)와 탭별 실측 메모리 갱신
+   *   (렌더러 프로세스를 공유하는 탭은 TaskManagerService가 나눠 배분)
+   */
+  public async syncTabLifecycle(): Promise<void> {
+    try {
+      const tabs = await this.tabManager.getAllTabs();
+      const activeTabId = tabs.find((tab) => tab.isActive)?.id ?? null;
+      const usage = await this.taskManagerService.getTabResourceUsage();
+
+      const currentIds = new Set(tabs.map((tab) => tab.id));
+      for (const tabId of Array.from(this.trackedTabIds)) {
+        if (!currentIds.has(tabId)) {
+          this.untrackTab(tabId);
+        }
+      }
+
+      for (const tab of tabs) {
+        await this.trackTab(tab, activeTabId);
+
+        this.tabEnforcer.updateTab(tab.id, {
+          title: tab.title,
+          url: tab.url,
+          memoryUsageMB: usage.get(tab.id)?.memoryMB ?? 0,
+        });
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabService: Failed to sync tab lifecycle', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 배경 탭 동결 (suspend)
+   * - 활성 탭이나 윈도우에 표시 중인 탭은 동결하지 않음
+   *
+   * @returns 동결 여부
+   */
+  public async suspendTab(tabId: string): Promise<boolean> {
+    try {
+      const tab = await this.tabManager.getTab(tabId);
+      if (!tab) {
+        throw new Error(`탭을 찾을 수 없습니다: ${tabId}`);
+      }
+
+      const activeTabId = await this.tabManager.getActiveTabId();
+      const suspended =
+        !this.isForeground(tab, activeTabId) && (await this.tabViewManager.setFrozen(tabId, true));
+
+      // 동결하지 못했으면 TabEnforcer 상태를 실제 상태로 되돌림
+      await this.trackTab(tab, activeTabId);
+
+      if (suspended) {
+        this.logger.info('TabService: Tab suspended', {
+          module: 'TabService',
+          metadata: { tabId },
+        });
+      }
+
+      return suspended;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabService: Failed to suspend tab', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 배경 탭 폐기 (discard)
+   * - webContents를 파괴해 메모리를 반환하고 탭 행과 네비게이션 스택은 유지
+   * - 다시 선택하면 저장된 스택으로 새로 로드
+   *
+   * @returns 폐기 여부
+   */
+  public async discardTab(tabId: string): Promise<boolean> {
+    try {
+      const tab = await this.tabManager.getTab(tabId);
+      if (!tab) {
+        throw new Error(`탭을 찾을 수 없습니다: ${tabId}`);
+      }
+
+      const activeTabId = await this.tabManager.getActiveTabId();
+      const discarded =
+        !this.isForeground(tab, activeTabId) &&
+        (!this.tabViewManager.hasView(tabId) || (await this.tabViewManager.discardView(tabId)));
+
+      await this.trackTab(tab, activeTabId);
+
+      if (discarded) {
+        this.logger.info('TabService: Tab discarded', {
+          module: 'TabService',
+          metadata: { tabId },
+        });
+      }
+
+      return discarded;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TabService: Failed to discard tab', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 탭을 TabEnforcer에 등록(처음 한 번)하고 현재 상태 반영
+   * - 상태가 바뀌면 DB에 저장하고 tab:updated 발행
+   *
+   * @private
+   */
+  private async trackTab(tab: BrowserTab, activeTabId: string | null): Promise<void> {
+    const state = this.resolveState(tab, activeTabId);
+
+    if (!this.trackedTabIds.has(tab.id)) {
+      this.tabEnforcer.registerTab({
+        id: tab.id,
+        title: tab.title,
+        url: tab.url,
+        state,
+        memoryUsageMB: 0,
+        lastAccessedMs: tab.updatedAt.getTime(),
+        createdMs: tab.createdAt.getTime(),
+      });
+      this.trackedTabIds.add(tab.id);
+    } else {
+      this.tabEnforcer.updateTab(tab.id, { state });
+    }
+
+    if (tab.state !== state) {
+      await this.tabManager.updateTab(tab.id, { state });
+      this.eventBus.emit('tab:updated', { tabId: tab.id });
+    }
+  }
+
+  /**
+   * TabEnforcer 등록 해제
+   *
+   * @private
+   */
+  private untrackTab(tabId: string): void {
+    this.tabEnforcer.unregisterTab(tabId);
+    this.trackedTabIds.delete(tabId);
+  }
+
+  /**
+   * 뷰 상태로부터 탭 수명 주기 상태 결정
+   *
+   * @private
+   */
+  private resolveState(tab: BrowserTab, activeTabId: string | null): TabState {
+    if (tab.id === activeTabId) {
+      return 'active';
+    }
+    if (!this.tabViewManager.hasView(tab.id)) {
+      return 'discarded';
+    }
+    return this.tabViewManager.isFrozen(tab.id) ? 'suspended' : 'background';
+  }
+
+  /**
+   * 새 윈도우 열기
+   *
+   * @returns 새 윈도우 ID (생성 실패 시 null)
+   * @private
+   */
+  private openWindow(): string | null {
+    const window = this.windowManager.createWindow();
+    return window ? this.windowManager.getWindowId(window) : null;
+  }
+
+  /**
+   * 활성 탭이거나 윈도우에 표시 중인 탭인지 여부
+   *
+   * @private
+   */
+  private isForeground(tab: BrowserTab, activeTabId: string | null): boolean {
+    if (tab.id === activeTabId) {
+      return true;
+    }
+    const windowId = this.tabViewManager.resolveWindowId(tab.windowId);
+    return windowId !== null && this.tabViewManager.getVisibleTabId(windowId) === tab.id;
+  }
+
+  /**
+   * 닫은 탭을 최근 닫은 항목으로 기록
+   * - 기록 실패가 탭 닫기를 막지 않도록 로그만 남김
+   *
+   * @private
+   */
+  private async recordClosed(type: 'tab' | 'window', tabs: BrowserTab[]): Promise<void> {
+    try {
+      const inputs: RecentlyClosedTabInput[] = [];
+      for (const tab of tabs) {
+        const entries = await this.tabManager.getNavigationEntries(tab.id);
+        const stack: NavigationEntryInput[] = entries.map((entry) => ({
+          url: entry.url,
+          title: entry.title,
+          pageState: entry.pageState ?? null,
+          scrollX: entry.scrollX,
+          scrollY: entry.scrollY,
+        }));
+
+        inputs.push({
+          originalIndex: tab.index,
+          url: tab.url,
+          title: tab.title,
+          favicon: tab.favicon ?? null,
+          isPinned: tab.isPinned,
+          isMuted: tab.isMuted,
+          navigationIndex: tab.navigationIndex,
+          navigationEntries: JSON.stringify(stack),
+        });
+      }
+
+      await this.recentlyClosedRepository.push(type, inputs, LIMITS.MAX_RECENTLY_CLOSED);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.warn('TabService: Failed to record closed tab', {
+        module: 'TabService',
+        metadata: { type, reason: err.message },
+      });
+    }
+  }
+
+  /**
+   * DB 항목 → 도메인 항목 변환 (네비게이션 스택 JSON 파싱)
+   *
+   * @private
+   */
+  private toDomainEntry(entry: RecentlyClosedEntryWithTabs): RecentlyClosedEntry {
+    return {
+      id: entry.id,
+      type: entry.type === 'window' ? 'window' : 'tab',
+      closedAt: entry.closedAt,
+      tabs: entry.tabs.map(
+        (tab): RecentlyClosedTab => ({
+          id: tab.id,
+          originalIndex: tab.originalIndex,
+          url: tab.url,
+          title: tab.title,
+          favicon: tab.favicon,
+          isPinned: tab.isPinned,
+          isMuted: tab.isMuted,
+          navigationIndex: tab.navigationIndex,
+          navigationEntries: this.parseNavigationEntries(tab.navigationEntries),
+        })
+      ),
+    };
+  }
+
+  /**
+   * 네비게이션 스택 JSON 파싱 (손상 시 빈 배열)
+   *
+   * @private
+   */
+  private parseNavigationEntries(json: string): RecentlyClosedTab['navigationEntries'] {
+    try {
+      const parsed: unknown = JSON.parse(json);
+      return Array.isArray(parsed) ? (parsed as RecentlyClosedTab['navigationEntries']) : [];
+    } catch {
+      return [];
+    }
+  }
 }
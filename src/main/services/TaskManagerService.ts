@@ -0,0 +1,249 @@
+/**
+ * TaskManagerService - 작업 관리자 (탭별 리소스 사용량)
+ *
+ * 책임: 탭 ↔ 렌더러 프로세스 매핑과 실측 리소스 집계
+ * - app.getAppMetrics()로 프로세스별 working set / CPU% 수집
+ * - 탭을 렌더러 PID에 매핑 (공유 프로세스는 탭 수로 나눠 배분)
+ * - 탭별 네트워크 수신 바이트 집계 (webRequest.onCompleted)
+ * - 응답 없는 탭의 렌더러 프로세스 강제 종료
+ *
+ * SRP 원칙: 리소스 측정과 프로세스 종료만 담당
+ * 탭 상태 저장은 TabManager에, 뷰 생명주기는 TabViewManager에 위임
+ */
+
+import { app, session } from 'electron';
+import { LoggerImpl, type ILogger, LogLevel } from '../../shared/logger';
+import { EventBus } from '../core/EventBus';
+import type {
+  TaskManagerProcess,
+  TaskManagerSnapshot,
+  TaskManagerTab,
+} from '../../shared/types/domain';
+import type { TabManager } from '../managers/TabManager';
+import type { TabViewManager } from '../managers/TabViewManager';
+
+/**
+ * 탭 하나의 리소스 사용량
+ */
+export interface TabResourceUsage {
+  pid: number | null;
+  memoryMB: number;
+  cpuPercent: number;
+  networkBytes: number;
+}
+
+/**
+ * 작업 관리자 서비스
+ */
+export class TaskManagerService {
+  private logger: ILogger;
+  private eventBus: EventBus;
+  private networkBytes: Map<number, number> = new Map(); // webContents.id → bytes
+
+  constructor(
+    private tabManager: TabManager,
+    private tabViewManager: TabViewManager
+  ) {
+    this.logger = new LoggerImpl('TaskManagerService', LogLevel.INFO);
+    this.eventBus = EventBus.getInstance();
+  }
+
+  /**
+   * 네트워크 사용량 집계 시작 (app ready 이후 호출)
+   */
+  public initialize(): void {
+    try {
+      session.defaultSession.webRequest.onCompleted((details) => {
+        if (details.webContentsId === undefined || details.fromCache) {
+          return;
+        }
+        const bytes = this.readContentLength(details.responseHeaders);
+        if (bytes > 0) {
+          this.networkBytes.set(
+            details.webContentsId,
+            (this.networkBytes.get(details.webContentsId) ?? 0) + bytes
+          );
+        }
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TaskManagerService: Failed to initialize', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 탭별 리소스 사용량 (tabId → 사용량)
+   * - 뷰가 없는 탭은 포함하지 않음
+   */
+  public async getTabResourceUsage(): Promise<Map<string, TabResourceUsage>> {
+    try {
+      const tabs = await this.tabManager.getAllTabs();
+      return this.measureTabs(tabs.map((tab) => tab.id)).usage;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TaskManagerService: Failed to get tab resource usage', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 작업 관리자 스냅샷 (전체 프로세스 + 탭별 사용량)
+   */
+  public async getSnapshot(): Promise<TaskManagerSnapshot> {
+    try {
+      const tabs = await this.tabManager.getAllTabs();
+      const { usage, processes } = this.measureTabs(tabs.map((tab) => tab.id));
+
+      const tabRows: TaskManagerTab[] = tabs.map((tab) => {
+        const tabUsage = usage.get(tab.id);
+        return {
+          tabId: tab.id,
+          title: tab.title,
+          url: tab.url,
+          state: tab.state,
+          pid: tabUsage?.pid ?? null,
+          memoryMB: tabUsage?.memoryMB ?? 0,
+          cpuPercent: tabUsage?.cpuPercent ?? 0,
+          networkBytes: tabUsage?.networkBytes ?? 0,
+        };
+      });
+
+      return {
+        processes,
+        tabs: tabRows,
+        totalMemoryMB: processes.reduce((sum, entry) => sum + entry.memoryMB, 0),
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TaskManagerService: Failed to get snapshot', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 탭 렌더러 프로세스 강제 종료 (응답 없는 탭용)
+   * - 같은 프로세스를 쓰는 탭도 함께 종료됨
+   * - 표시 중인 탭은 새 프로세스로 다시 로드
+   * - 숨겨진 탭은 뷰를 파괴해 폐기 상태로 두고, 다음 선택 시 저장된 스택으로 로드
+   *
+   * @param tabId 대상 탭 ID
+   * @returns 영향받은 탭 ID 목록
+   */
+  public async killTabProcess(tabId: string): Promise<string[]> {
+    try {
+      const tab = await this.tabManager.getTab(tabId);
+      if (!tab) {
+        throw new Error(`탭을 찾을 수 없습니다: ${tabId}`);
+      }
+
+      const webContents = this.tabViewManager.getWebContents(tabId);
+      if (!webContents || webContents.isDestroyed()) {
+        throw new Error(`실행 중인 탭 프로세스가 없습니다: ${tabId}`);
+      }
+
+      const pid = webContents.getOSProcessId();
+      const tabs = await this.tabManager.getAllTabs();
+      const affected = tabs.filter(
+        (candidate) => this.tabViewManager.getWebContents(candidate.id)?.getOSProcessId() === pid
+      );
+
+      this.logger.warn('TaskManagerService: Killing tab process', {
+        module: 'TaskManagerService',
+        metadata: { tabId, pid, affectedTabs: affected.length },
+      });
+
+      webContents.forcefullyCrashRenderer();
+
+      for (const affectedTab of affected) {
+        const windowId = this.tabViewManager.resolveWindowId(affectedTab.windowId);
+        const isVisible =
+          windowId !== null && this.tabViewManager.getVisibleTabId(windowId) === affectedTab.id;
+
+        if (isVisible) {
+          this.tabViewManager.getWebContents(affectedTab.id)?.reload();
+        } else {
+          this.tabViewManager.destroyView(affectedTab.id);
+        }
+        this.eventBus.emit('tab:updated', { tabId: affectedTab.id });
+      }
+
+      return affected.map((affectedTab) => affectedTab.id);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('TaskManagerService: Failed to kill tab process', err);
+      throw err;
+    }
+  }
+
+  /**
+   * 프로세스 메트릭 수집 및 탭 매핑
+   * - 사라진 webContents의 네트워크 집계는 정리
+   *
+   * @private
+   */
+  private measureTabs(tabIds: string[]): {
+    usage: Map<string, TabResourceUsage>;
+    processes: TaskManagerProcess[];
+  } {
+    const tabsByPid = new Map<number, string[]>();
+    const webContentsIdByTab = new Map<string, number>();
+
+    for (const tabId of tabIds) {
+      const webContents = this.tabViewManager.getWebContents(tabId);
+      if (!webContents || webContents.isDestroyed()) {
+        continue;
+      }
+      const pid = webContents.getOSProcessId();
+      tabsByPid.set(pid, [...(tabsByPid.get(pid) ?? []), tabId]);
+      webContentsIdByTab.set(tabId, webContents.id);
+    }
+
+    const liveWebContentsIds = new Set(webContentsIdByTab.values());
+    for (const webContentsId of Array.from(this.networkBytes.keys())) {
+      if (!liveWebContentsIds.has(webContentsId)) {
+        this.networkBytes.delete(webContentsId);
+      }
+    }
+
+    const processes: TaskManagerProcess[] = app.getAppMetrics().map((metric) => ({
+      pid: metric.pid,
+      type: metric.type,
+      memoryMB: Math.round(metric.memory.workingSetSize / 1024), // KB → MB
+      cpuPercent: metric.cpu.percentCPUUsage,
+      tabIds: tabsByPid.get(metric.pid) ?? [],
+    }));
+
+    const usage = new Map<string, TabResourceUsage>();
+    for (const [pid, pidTabIds] of tabsByPid) {
+      const owner = processes.find((candidate) => candidate.pid === pid);
+      const share = pidTabIds.length;
+
+      for (const tabId of pidTabIds) {
+        usage.set(tabId, {
+          pid,
+          memoryMB: owner ? Math.round(owner.memoryMB / share) : 0,
+          cpuPercent: owner ? owner.cpuPercent / share : 0,
+          networkBytes: this.networkBytes.get(webContentsIdByTab.get(tabId)!) ?? 0,
+        });
+      }
+    }
+
+    return { usage, processes };
+  }
+
+  /**
+   * 응답 헤더의 Content-Length (없으면 0)
+   *
+   * @private
+   */
+  private readContentLength(headers?: Record<string, string[]>): number {
+    if (!headers) {
+      return 0;
+    }
+    const key = Object.keys(headers).find((name) => name.toLowerCase() === 'content-length');
+    const value = key ? Number(headers[key]?.[0]) : 0;
+    return Number.isFinite(value) && value > 0 ? value : 0;
+  }
+}
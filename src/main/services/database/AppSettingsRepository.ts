@@ -0,0 +1,51 @@
+/**
+ * AppSettings Repository
+ *
+ * Prisma를 사용한 AppSettings 데이터 접근 계층
+ * - 전역 설정 행 (고정 ID "settings-1") 조회
+ * - 행이 없으면 스키마 기본값으로 생성
+ * - 설정 문서 (버전 + JSON) 저장
+ */
+
+import { PrismaClient, AppSettings } from '@prisma/client';
+
+const SETTINGS_ID = 'settings-1';
+
+/**
+ * AppSettingsRepository 클래스
+ * 데이터베이스 접근을 캡슐화
+ */
+export class AppSettingsRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * 설정 조회 (없으면 기본값으로 생성)
+   */
+  async get(): Promise<AppSettings> {
+    return this.prisma.appSettings.upsert({
+      where: { id: SETTINGS_ID },
+      create: { id: SETTINGS_ID },
+      update: {}
+    });
+  }
+
+  /**
+   * 설정 문서 저장
+   *
+   * @param version 설정 문서 버전
+   * @param data 설정 문서 (JSON 문자열)
+   */
+  async save(version: number, data: string): Promise<AppSettings> {
+    return this.prisma.appSettings.upsert({
+      where: { id: SETTINGS_ID },
+      create: { id: SETTINGS_ID, version, data },
+      update: { version, data }
+    });
+  }
+}
+
+export default AppSettingsRepository;
@@ -0,0 +1,119 @@
+/**
+ * BookmarkFolder Repository
+ *
+ * Prisma를 사용한 BookmarkFolder 데이터 접근 계층
+ * - 폴더 트리 조회 (부모, 위치순)
+ * - 폴더 생성 (부모 폴더 맨 뒤)
+ * - 이름 변경 (중첩 폴더 포함, ID 유지)
+ * - 다른 부모로 이동 / 같은 부모 안 순서 변경 (자기 하위로 이동 방지)
+ * - 재귀 삭제 (하위 폴더와 북마크 포함)
+ */
+
+import { PrismaClient, BookmarkFolder } from '@prisma/client';
+import type { BookmarkFolderDeleteResult } from '../../../shared/types/domain';
+import { collectFolderSubtree, nextFolderPosition, normalizeFolderOrder, placeFolder } from './bookmarkTree';
+
+/**
+ * BookmarkFolderRepository 클래스
+ * 데이터베이스 접근을 캡슐화
+ */
+export class BookmarkFolderRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * 모든 폴더 조회 (부모, 위치순)
+   */
+  async findAll(): Promise<BookmarkFolder[]> {
+    return this.prisma.bookmarkFolder.findMany({
+      orderBy: [{ parentId: 'asc' }, { position: 'asc' }]
+    });
+  }
+
+  /**
+   * ID로 폴더 조회
+   */
+  async findById(id: string): Promise<BookmarkFolder | null> {
+    return this.prisma.bookmarkFolder.findUnique({
+      where: { id }
+    });
+  }
+
+  /**
+   * 폴더 생성 (트랜잭션, 부모 폴더 맨 뒤)
+   *
+   * @param parentId 상위 폴더 ID (null = 최상위)
+   */
+  async create(name: string, parentId: string | null): Promise<BookmarkFolder> {
+    return this.prisma.$transaction(async (tx) => {
+      return tx.bookmarkFolder.create({
+        data: {
+          name,
+          parentId,
+          position: await nextFolderPosition(tx, parentId)
+        }
+      });
+    });
+  }
+
+  /**
+   * 폴더 이름 변경
+   */
+  async rename(id: string, name: string): Promise<BookmarkFolder> {
+    return this.prisma.bookmarkFolder.update({
+      where: { id },
+      data: { name }
+    });
+  }
+
+  /**
+   * 폴더 이동 (트랜잭션)
+   * - 같은 부모면 순서만 변경, 다른 부모면 이전 부모의 위치 재정렬
+   * - 자기 자신이나 하위 폴더 안으로는 이동하지 않음
+   *
+   * @param parentId 새 상위 폴더 ID (null = 최상위)
+   * @param index 새 부모 안의 위치 (생략 시 맨 뒤)
+   * @returns 이동한 폴더 (자기 하위로 이동하려 하면 null)
+   */
+  async move(id: string, parentId: string | null, index?: number): Promise<BookmarkFolder | null> {
+    return this.prisma.$transaction(async (tx) => {
+      if (parentId !== null) {
+        const subtree = await collectFolderSubtree(tx, id);
+        if (subtree.includes(parentId)) {
+          return null;
+        }
+      }
+
+      await placeFolder(tx, id, parentId, index);
+      return tx.bookmarkFolder.findUniqueOrThrow({ where: { id } });
+    });
+  }
+
+  /**
+   * 폴더 재귀 삭제 (트랜잭션)
+   * - 하위 폴더와 그 안의 북마크 모두 삭제
+   * - 부모 폴더의 위치 재정렬
+   */
+  async deleteRecursive(id: string): Promise<BookmarkFolderDeleteResult> {
+    return this.prisma.$transaction(async (tx) => {
+      const folder = await tx.bookmarkFolder.findUniqueOrThrow({ where: { id } });
+      const folderIds = await collectFolderSubtree(tx, id);
+
+      const bookmarks = await tx.bookmark.deleteMany({
+        where: { folderId: { in: folderIds } }
+      });
+      // 아래 폴더부터 삭제 (부모 참조가 남지 않도록)
+      for (const folderId of [...folderIds].reverse()) {
+        await tx.bookmarkFolder.delete({ where: { id: folderId } });
+      }
+      await normalizeFolderOrder(tx, folder.parentId);
+
+      return { folderCount: folderIds.length, bookmarkCount: bookmarks.count };
+    });
+  }
+}
+
+export default BookmarkFolderRepository;
@@ -2,12 +2,51 @@
  * Bookmark Repository
  * 
  * Prisma를 사용한 Bookmark 데이터 접근 계층
- * - 북마크 CRUD 작업
- * - 폴더별 관리
- * - 태그로 검색
+ * - 북마크 CRUD 작업 (조회 결과에 태그 포함, 생성/수정 시 태그 저장)
+ * - 폴더 안 위치 관리 (추가는 맨 뒤, 이동/순서 변경, 삭제 후 재정렬)
+ * - 텍스트 + tag: 필터 검색
+ * - 태그별 북마크 수, 태그 이름 변경/병합
+ * - 다른 브라우저에서 가져온 북마크 저장 (URL 중복 제거, 태그 병합)
  */
 
-import { PrismaClient, Bookmark } from '@prisma/client';
+import { PrismaClient, Prisma, Bookmark, BookmarkTag } from '@prisma/client';
+import type { BookmarkSearchQuery } from './bookmarkQuery';
+import {
+  ensureFolderPath,
+  nextBookmarkPosition,
+  normalizeBookmarkOrder,
+  placeBookmark
+} from './bookmarkTree';
+
+/**
+ * 태그를 포함한 북마크
+ */
+export type BookmarkWithTags = Bookmark & { tags: BookmarkTag[] };
+
+/**
+ * 조회 시 함께 읽는 태그 (이름순)
+ */
+const WITH_TAGS = { tags: { orderBy: { name: 'asc' } } } satisfies Prisma.BookmarkInclude;
+
+/**
+ * 태그별 북마크 수
+ */
+export interface BookmarkTagCountRow {
+  name: string;
+  count: number;
+}
+
+/**
+ * 가져온 북마크 저장 입력
+ */
+export interface BookmarkImportInput {
+  url: string;
+  title: string;
+  folder: string; // 폴더 경로 ('/'로 구분, 'root' = 최상위)
+  tags: string[];
+  description: string | null;
+  createdAt: Date | null;
+}
 
 /**
  * BookmarkRepository 클래스
@@ -23,88 +62,279 @@ export class BookmarkRepository {
   /**
    * 모든 북마크 조회
    */
-  async findAll(): Promise<Bookmark[]> {
+  async findAll(): Promise<BookmarkWithTags[]> {
     return this.prisma.bookmark.findMany({
-      orderBy: { createdAt: 'desc' }
+      orderBy: { createdAt: 'desc' },
+      include: WITH_TAGS
+    });
+  }
+
+  /**
+   * 모든 북마크를 태그와 함께 조회 (폴더, 위치순)
+   */
+  async findAllWithTags(): Promise<BookmarkWithTags[]> {
+    return this.prisma.bookmark.findMany({
+      orderBy: [{ folderId: 'asc' }, { position: 'asc' }],
+      include: WITH_TAGS
     });
   }
 
   /**
    * ID로 북마크 조회
    */
-  async findById(id: string): Promise<Bookmark | null> {
+  async findById(id: string): Promise<BookmarkWithTags | null> {
     return this.prisma.bookmark.findUnique({
-      where: { id }
+      where: { id },
+      include: WITH_TAGS
     });
   }
 
   /**
-   * 폴더별 북마크 조회
+   * 폴더 안의 북마크 조회 (위치순)
+   *
+   * @param folderId 폴더 ID (null = 최상위)
    */
-  async findByFolder(folder: string): Promise<Bookmark[]> {
+  async findByFolder(folderId: string | null): Promise<BookmarkWithTags[]> {
     return this.prisma.bookmark.findMany({
-      where: { folder },
-      orderBy: { createdAt: 'desc' }
+      where: { folderId },
+      orderBy: { position: 'asc' },
+      include: WITH_TAGS
     });
   }
 
   /**
-   * 키워드로 검색 (제목, URL, 설명)
+   * 검색 (최신순)
+   * - 검색어마다 제목, URL, 설명 중 하나에 포함 (모든 검색어 AND)
+   * - tag: 필터의 태그를 모두 가진 북마크만
    */
-  async search(query: string): Promise<Bookmark[]> {
+  async search(query: BookmarkSearchQuery): Promise<BookmarkWithTags[]> {
     return this.prisma.bookmark.findMany({
       where: {
-        OR: [
-          { title: { contains: query } },
-          { url: { contains: query } },
-          { description: { contains: query } }
+        AND: [
+          ...query.tags.map((name) => ({ tags: { some: { name } } })),
+          ...query.terms.map((term) => ({
+            OR: [
+              { title: { contains: term } },
+              { url: { contains: term } },
+              { description: { contains: term } }
+            ]
+          }))
         ]
       },
-      orderBy: { createdAt: 'desc' }
+      orderBy: { createdAt: 'desc' },
+      include: WITH_TAGS
+    });
+  }
+
+  /**
+   * 북마크 생성 (트랜잭션, 폴더 맨 뒤)
+   *
+   * @param tags 정규화된 태그 이름
+   */
+  async create(
+    data: Omit<Bookmark, 'id' | 'position' | 'createdAt' | 'updatedAt'>,
+    tags: string[] = []
+  ): Promise<BookmarkWithTags> {
+    return this.prisma.$transaction(async (tx) => {
+      return tx.bookmark.create({
+        data: {
+          ...data,
+          id: this.generateId(),
+          position: await nextBookmarkPosition(tx, data.folderId),
+          tags: { create: tags.map((name) => ({ name })) }
+        },
+        include: WITH_TAGS
+      });
+    });
+  }
+
+  /**
+   * 가져온 북마크 저장 (트랜잭션)
+   * - URL이 이미 있으면 새로 만들지 않고 빠진 태그만 추가
+   * - 폴더 경로의 폴더가 없으면 만들고, 북마크는 폴더 맨 뒤에 추가
+   *
+   * @returns 새로 만든 북마크 수
+   */
+  async importMany(entries: BookmarkImportInput[]): Promise<number> {
+    return this.prisma.$transaction(async (tx) => {
+      const existing = await tx.bookmark.findMany({
+        where: { url: { in: entries.map((entry) => entry.url) } },
+        include: { tags: true }
+      });
+      const byUrl = new Map(
+        existing.map((bookmark) => [
+          bookmark.url,
+          { id: bookmark.id, tags: new Set(bookmark.tags.map((tag) => tag.name)) }
+        ])
+      );
+      const folderIds = new Map<string, string | null>();
+      const nextPositions = new Map<string | null, number>();
+      let created = 0;
+
+      for (const entry of entries) {
+        const current = byUrl.get(entry.url);
+        if (current) {
+          const missing = entry.tags.filter((name) => !current.tags.has(name));
+          if (missing.length > 0) {
+            await tx.bookmarkTag.createMany({
+              data: missing.map((name) => ({ bookmarkId: current.id, name }))
+            });
+            missing.forEach((name) => current.tags.add(name));
+          }
+          continue;
+        }
+
+        const folderId = await ensureFolderPath(tx, entry.folder, folderIds);
+        const position = nextPositions.get(folderId) ?? (await nextBookmarkPosition(tx, folderId));
+        nextPositions.set(folderId, position + 1);
+
+        const bookmark = await tx.bookmark.create({
+          data: {
+            id: this.generateId(),
+            url: entry.url,
+            title: entry.title,
+            folderId,
+            position,
+            description: entry.description,
+            favicon: null,
+            ...(entry.createdAt && { createdAt: entry.createdAt }),
+            tags: { create: entry.tags.map((name) => ({ name })) }
+          }
+        });
+        byUrl.set(entry.url, { id: bookmark.id, tags: new Set(entry.tags) });
+        created += 1;
+      }
+
+      return created;
     });
   }
 
   /**
-   * 북마크 생성
+   * 북마크 수정 (트랜잭션)
+   *
+   * @param tags 새 태그 목록 (주면 기존 태그를 모두 교체, 생략 시 그대로)
    */
-  async create(data: Omit<Bookmark, 'id' | 'createdAt' | 'updatedAt'>): Promise<Bookmark> {
-    return this.prisma.bookmark.create({
-      data: {
-        ...data,
-        id: this.generateId(),
-        folder: data.folder || 'default'
+  async update(
+    id: string,
+    data: Partial<Omit<Bookmark, 'id' | 'folderId' | 'position' | 'createdAt'>>,
+    tags?: string[]
+  ): Promise<BookmarkWithTags> {
+    return this.prisma.$transaction(async (tx) => {
+      if (tags) {
+        await tx.bookmarkTag.deleteMany({
+          where: { bookmarkId: id, name: { notIn: tags } }
+        });
+        const existing = await tx.bookmarkTag.findMany({
+          where: { bookmarkId: id },
+          select: { name: true }
+        });
+        const current = new Set(existing.map((tag) => tag.name));
+        const added = tags.filter((name) => !current.has(name));
+        if (added.length > 0) {
+          await tx.bookmarkTag.createMany({
+            data: added.map((name) => ({ bookmarkId: id, name }))
+          });
+        }
       }
+
+      return tx.bookmark.update({
+        where: { id },
+        data: {
+          ...data,
+          updatedAt: new Date()
+        },
+        include: WITH_TAGS
+      });
     });
   }
 
   /**
-   * 북마크 수정
+   * 태그별 북마크 수 (많은 순, 같으면 이름순)
    */
-  async update(id: string, data: Partial<Omit<Bookmark, 'id' | 'createdAt'>>): Promise<Bookmark> {
-    return this.prisma.bookmark.update({
-      where: { id },
-      data: {
-        ...data,
-        updatedAt: new Date()
+  async countTags(): Promise<BookmarkTagCountRow[]> {
+    const groups = await this.prisma.bookmarkTag.groupBy({
+      by: ['name'],
+      _count: { _all: true }
+    });
+    return groups
+      .map((group) => ({ name: group.name, count: group._count._all }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * 태그 병합 (트랜잭션)
+   * - sources 태그를 모두 target으로 바꿈 (이름 변경은 sources가 하나인 경우)
+   * - 이미 target이 있는 북마크에서는 source 태그만 삭제 (중복 방지)
+   *
+   * @returns 태그가 바뀐 북마크 수
+   */
+  async mergeTags(sources: string[], target: string): Promise<number> {
+    const names = sources.filter((name) => name !== target);
+    if (names.length === 0) {
+      return 0;
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const tagged = await tx.bookmarkTag.findMany({
+        where: { name: { in: [...names, target] } },
+        select: { id: true, bookmarkId: true, name: true }
+      });
+      const owners = new Set(tagged.filter((tag) => tag.name === target).map((tag) => tag.bookmarkId));
+      const affected = new Set<string>();
+      const duplicates: string[] = [];
+      const renamed: string[] = [];
+
+      for (const tag of tagged) {
+        if (tag.name === target) {
+          continue;
+        }
+        affected.add(tag.bookmarkId);
+        if (owners.has(tag.bookmarkId)) {
+          duplicates.push(tag.id);
+        } else {
+          owners.add(tag.bookmarkId);
+          renamed.push(tag.id);
+        }
       }
+
+      await tx.bookmarkTag.deleteMany({ where: { id: { in: duplicates } } });
+      await tx.bookmarkTag.updateMany({
+        where: { id: { in: renamed } },
+        data: { name: target }
+      });
+      await tx.bookmark.updateMany({
+        where: { id: { in: [...affected] } },
+        data: { updatedAt: new Date() }
+      });
+
+      return affected.size;
     });
   }
 
   /**
-   * 북마크 삭제
+   * 북마크 이동 (트랜잭션)
+   * - 같은 폴더면 순서만 변경, 다른 폴더면 이전 폴더의 위치 재정렬
+   *
+   * @param folderId 새 폴더 ID (null = 최상위)
+   * @param index 새 폴더 안의 위치 (생략 시 맨 뒤)
    */
-  async delete(id: string): Promise<Bookmark> {
-    return this.prisma.bookmark.delete({
-      where: { id }
+  async move(id: string, folderId: string | null, index?: number): Promise<BookmarkWithTags> {
+    return this.prisma.$transaction(async (tx) => {
+      await placeBookmark(tx, id, folderId, index);
+      return tx.bookmark.findUniqueOrThrow({ where: { id }, include: WITH_TAGS });
     });
   }
 
   /**
-   * 폴더별 북마크 삭제
+   * 북마크 삭제 (트랜잭션, 폴더 안의 위치 재정렬)
    */
-  async deleteByFolder(folder: string): Promise<{ count: number }> {
-    return this.prisma.bookmark.deleteMany({
-      where: { folder }
+  async delete(id: string): Promise<Bookmark> {
+    return this.prisma.$transaction(async (tx) => {
+      const bookmark = await tx.bookmark.delete({
+        where: { id }
+      });
+      await normalizeBookmarkOrder(tx, bookmark.folderId);
+      return bookmark;
     });
   }
 
@@ -122,17 +352,6 @@ export class BookmarkRepository {
     return this.prisma.bookmark.count();
   }
 
-  /**
-   * 폴더 목록 조회 (distinct)
-   */
-  async getFolders(): Promise<string[]> {
-    const bookmarks = await this.prisma.bookmark.findMany({
-      distinct: ['folder'],
-      select: { folder: true }
-    });
-    return bookmarks.map((b) => b.folder);
-  }
-
   /**
    * UUID 생성 (간단한 ID 생성)
    */
@@ -18,6 +18,14 @@ import { PrismaClient } from '@prisma/client';
 import { TabRepository } from './TabRepository';
 import { HistoryRepository } from './HistoryRepository';
 import { BookmarkRepository } from './BookmarkRepository';
+import { SessionRepository } from './SessionRepository';
+import { RecentlyClosedRepository } from './RecentlyClosedRepository';
+import { TabGroupRepository } from './TabGroupRepository';
+import { AppSettingsRepository } from './AppSettingsRepository';
+import { JourneyRepository } from './JourneyRepository';
+import { BookmarkFolderRepository } from './BookmarkFolderRepository';
+import { SiteSettingRepository } from './SiteSettingRepository';
+import { SettingsProfileRepository } from './SettingsProfileRepository';
 
 declare global {
   // eslint-disable-next-line no-var
@@ -102,17 +110,41 @@ export class DatabaseService {
   private tabRepository: TabRepository;
   private historyRepository: HistoryRepository;
   private bookmarkRepository: BookmarkRepository;
+  private sessionRepository: SessionRepository;
+  private recentlyClosedRepository: RecentlyClosedRepository;
+  private tabGroupRepository: TabGroupRepository;
+  private appSettingsRepository: AppSettingsRepository;
+  private journeyRepository: JourneyRepository;
+  private bookmarkFolderRepository: BookmarkFolderRepository;
+  private siteSettingRepository: SiteSettingRepository;
+  private settingsProfileRepository: SettingsProfileRepository;
 
   private constructor(
     prisma: PrismaClient,
     tabRepository: TabRepository,
     historyRepository: HistoryRepository,
-    bookmarkRepository: BookmarkRepository
+    bookmarkRepository: BookmarkRepository,
+    sessionRepository: SessionRepository,
+    recentlyClosedRepository: RecentlyClosedRepository,
+    tabGroupRepository: TabGroupRepository,
+    appSettingsRepository: AppSettingsRepository,
+    journeyRepository: JourneyRepository,
+    bookmarkFolderRepository: BookmarkFolderRepository,
+    siteSettingRepository: SiteSettingRepository,
+    settingsProfileRepository: SettingsProfileRepository
   ) {
     this.prisma = prisma;
     this.tabRepository = tabRepository;
     this.historyRepository = historyRepository;
     this.bookmarkRepository = bookmarkRepository;
+    this.sessionRepository = sessionRepository;
+    this.recentlyClosedRepository = recentlyClosedRepository;
+    this.tabGroupRepository = tabGroupRepository;
+    this.appSettingsRepository = appSettingsRepository;
+    this.journeyRepository = journeyRepository;
+    this.bookmarkFolderRepository = bookmarkFolderRepository;
+    this.siteSettingRepository = siteSettingRepository;
+    this.settingsProfileRepository = settingsProfileRepository;
   }
 
   /**
@@ -124,12 +156,28 @@ export class DatabaseService {
       const tabRepository = new TabRepository(prisma);
       const historyRepository = new HistoryRepository(prisma);
       const bookmarkRepository = new BookmarkRepository(prisma);
+      const sessionRepository = new SessionRepository(prisma);
+      const recentlyClosedRepository = new RecentlyClosedRepository(prisma);
+      const tabGroupRepository = new TabGroupRepository(prisma);
+      const appSettingsRepository = new AppSettingsRepository(prisma);
+      const journeyRepository = new JourneyRepository(prisma);
+      const bookmarkFolderRepository = new BookmarkFolderRepository(prisma);
+      const siteSettingRepository = new SiteSettingRepository(prisma);
+      const settingsProfileRepository = new SettingsProfileRepository(prisma);
       
       DatabaseService.instance = new DatabaseService(
         prisma,
         tabRepository,
         historyRepository,
-        bookmarkRepository
+        bookmarkRepository,
+        sessionRepository,
+        recentlyClosedRepository,
+        tabGroupRepository,
+        appSettingsRepository,
+        journeyRepository,
+        bookmarkFolderRepository,
+        siteSettingRepository,
+        settingsProfileRepository
       );
     }
     return DatabaseService.instance;
@@ -163,6 +211,62 @@ export class DatabaseService {
     return this.bookmarkRepository;
   }
 
+  /**
+   * SessionRepository 획득
+   */
+  getSessionRepository(): SessionRepository {
+    return this.sessionRepository;
+  }
+
+  /**
+   * RecentlyClosedRepository 획득
+   */
+  getRecentlyClosedRepository(): RecentlyClosedRepository {
+    return this.recentlyClosedRepository;
+  }
+
+  /**
+   * TabGroupRepository 획득
+   */
+  getTabGroupRepository(): TabGroupRepository {
+    return this.tabGroupRepository;
+  }
+
+  /**
+   * AppSettingsRepository 획득
+   */
+  getAppSettingsRepository(): AppSettingsRepository {
+    return this.appSettingsRepository;
+  }
+
+  /**
+   * JourneyRepository 획득
+   */
+  getJourneyRepository(): JourneyRepository {
+    return this.journeyRepository;
+  }
+
+  /**
+   * BookmarkFolderRepository 획득
+   */
+  getBookmarkFolderRepository(): BookmarkFolderRepository {
+    return this.bookmarkFolderRepository;
+  }
+
+  /**
+   * SiteSettingRepository 획득
+   */
+  getSiteSettingRepository(): SiteSettingRepository {
+    return this.siteSettingRepository;
+  }
+
+  /**
+   * SettingsProfileRepository 획득
+   */
+  getSettingsProfileRepository(): SettingsProfileRepository {
+    return this.settingsProfileRepository;
+  }
+
   /**
    * DB 연결 종료
    */
@@ -1,14 +1,176 @@
 /**
  * History Repository
- * 
- * Prisma를 사용한 HistoryEntry 데이터 접근 계층
- * - 방문 기록 CRUD 작업
+ *
+ * Prisma를 사용한 Url / Visit 데이터 접근 계층
+ * - 방문 기록 (Visit) CRUD 작업, URL (Url) 통계 유지
+ * - frecency 계산 및 재계산
+ * - 전문 검색 (FTS5 + frecency 순위, URL 단위)
  * - 날짜 범위 검색
- * - 자주 방문한 사이트 조회
+ * - 자주 방문한 사이트 조회 (frecency순)
+ * - 보관 기간/최대 개수 정리 (북마크한 URL 제외)
+ * - 기간/사이트 단위 삭제 (인터넷 사용 기록 삭제)
+ * - 방문 삭제 시 소속 여정 (Journey)에 재계산 표시
+ * - 체류 시간 누적 및 URL별 체류 시간 집계
+ * - 다른 브라우저에서 가져온 방문 저장 (중복 제거)
+ * - 내보내기용 기간 내 방문 페이지 조회 (방문 시각순 커서)
  */
 
-import { PrismaClient, HistoryEntry } from '@prisma/client';
-import type { FrequentSite } from '../../../shared/types/domain';
+import { Prisma, PrismaClient, Url, Visit } from '@prisma/client';
+import type { FrequentSite, HistoryTransition } from '../../../shared/types/domain';
+import { buildFtsMatch, siteUrlPatterns, type HistorySearchQuery } from './historyQuery';
+import { calculateFrecency, FRECENCY_SAMPLE_SIZE, FRECENCY_STALE } from './frecency';
+
+/**
+ * 방문한 URL 정보를 포함한 방문 기록
+ */
+export type VisitWithUrl = Visit & { url: Url };
+
+/**
+ * 방문 기록 생성 입력
+ */
+export interface VisitInput {
+  url: string;
+  title?: string | undefined;
+  favicon?: string | null | undefined;
+  visitedAt: Date;
+  transition: HistoryTransition;
+  referrerVisitId?: string | null | undefined;
+  dwellTimeMs?: number | undefined;
+}
+
+/**
+ * 검색 결과 행 (URL 단위)
+ */
+export interface HistorySearchRow {
+  url: Url;
+  score: number;
+}
+
+/**
+ * 검색 옵션
+ */
+export interface HistorySearchOptions {
+  limit: number;
+  offset: number;
+}
+
+/**
+ * 기간/사이트 삭제 범위
+ */
+export interface VisitRange {
+  after: Date | null; // 이 시각 이후 방문 (null = 전체 기간)
+  site: string | null; // 사이트, 하위 도메인 포함 (null = 모든 사이트)
+}
+
+/**
+ * 방문 페이지 커서 (이 방문 다음부터 조회)
+ */
+export interface VisitCursor {
+  visitedAt: Date;
+  id: string;
+}
+
+/**
+ * URL별 체류 시간 합계
+ */
+export interface UrlDwellTime {
+  url: string;
+  dwellTimeMs: number;
+  visitCount: number; // 체류 시간이 측정된 방문 수
+}
+
+/**
+ * 가져온 방문 저장 입력
+ */
+export interface VisitImportInput extends VisitInput {
+  referrerIndex?: number | null | undefined; // 같은 배치 안 referrer 방문의 위치 (앞쪽 항목)
+}
+
+/**
+ * 가져온 방문의 저장 결과
+ */
+export interface ImportedVisitRef {
+  id: string;
+  created: boolean; // false = 이미 있던 방문 (중복)
+}
+
+/**
+ * 검색 결과 raw 행
+ */
+interface RankedUrlRow {
+  id: string;
+  score: number;
+}
+
+/**
+ * 정리 대상 방문 raw 행
+ */
+interface VisitRefRow {
+  id: string;
+  urlId: string;
+}
+
+const withUrl = { url: true } as const;
+const RECALCULATE_BATCH_SIZE = 200;
+
+/**
+ * 사이트(하위 도메인 포함) 일치 조건 (Url 별칭 u 기준)
+ */
+function siteCondition(site: string): Prisma.Sql {
+  const conditions = siteUrlPatterns(site).map(pattern => Prisma.sql`u."url" LIKE ${pattern}`);
+  return Prisma.sql`(${Prisma.join(conditions, ' OR ')})`;
+}
+
+/**
+ * 방문이 삭제될 여정에 재계산 표시 (방문 삭제 전에 호출)
+ */
+async function markJourneysStale(
+  tx: Prisma.TransactionClient,
+  visitWhere: Prisma.VisitWhereInput
+): Promise<void> {
+  await tx.journey.updateMany({
+    where: { visits: { some: visitWhere } },
+    data: { stale: true }
+  });
+}
+
+/**
+ * URL 통계 갱신 (방문 횟수, 입력 횟수, 마지막 방문, frecency)
+ * - 방문이 하나도 남지 않은 URL은 삭제
+ */
+async function refreshUrlStats(
+  tx: Prisma.TransactionClient,
+  urlIds: string[],
+  now: Date
+): Promise<void> {
+  for (const urlId of urlIds) {
+    const [visitCount, typedCount, samples] = await Promise.all([
+      tx.visit.count({ where: { urlId } }),
+      tx.visit.count({ where: { urlId, transition: 'typed' } }),
+      tx.visit.findMany({
+        where: { urlId },
+        orderBy: { visitedAt: 'desc' },
+        take: FRECENCY_SAMPLE_SIZE,
+        select: { visitedAt: true, transition: true, dwellTimeMs: true }
+      })
+    ]);
+
+    if (visitCount === 0) {
+      await tx.url.deleteMany({ where: { id: urlId } });
+      continue;
+    }
+
+    await tx.url.update({
+      where: { id: urlId },
+      data: {
+        visitCount,
+        typedCount,
+        lastVisitedAt: samples[0]!.visitedAt,
+        frecency: calculateFrecency(visitCount, samples, now)
+      }
+    });
+  }
+}
 
 /**
  * HistoryRepository 클래스
@@ -22,152 +184,547 @@ export class HistoryRepository {
   }
 
   /**
-   * 모든 기록 조회
+   * 모든 방문 기록 조회 (최신순)
    */
-  async findAll(limit?: number): Promise<HistoryEntry[]> {
-    return this.prisma.historyEntry.findMany({
+  async findAll(limit?: number): Promise<VisitWithUrl[]> {
+    return this.prisma.visit.findMany({
       take: limit || 100,
-      orderBy: { visitedAt: 'desc' }
+      orderBy: { visitedAt: 'desc' },
+      include: withUrl
     });
   }
 
   /**
-   * ID로 기록 조회
+   * ID로 방문 기록 조회
    */
-  async findById(id: string): Promise<HistoryEntry | null> {
-    return this.prisma.historyEntry.findUnique({
-      where: { id }
+  async findById(id: string): Promise<VisitWithUrl | null> {
+    return this.prisma.visit.findUnique({
+      where: { id },
+      include: withUrl
     });
   }
 
   /**
-   * URL로 기록 조회
+   * URL의 방문 기록 조회
    */
-  async findByUrl(url: string): Promise<HistoryEntry[]> {
-    return this.prisma.historyEntry.findMany({
-      where: { url },
-      orderBy: { visitedAt: 'desc' }
+  async findByUrl(url: string): Promise<VisitWithUrl[]> {
+    return this.prisma.visit.findMany({
+      where: { url: { url } },
+      orderBy: { visitedAt: 'desc' },
+      include: withUrl
     });
   }
 
   /**
-   * 키워드로 검색 (제목, URL)
+   * 전문 검색 (URL 단위, 점수순 정렬)
+   * - 텍스트 조건이 있으면 UrlFts에서 일치 (제목 가중치 > URL)
+   * - 점수 = 텍스트 일치도 × (frecency + 1)
+   * - 텍스트 조건이 없으면 (site:/before:/after:만) frecency순
+   * - before:/after:는 해당 기간에 방문이 하나라도 있는 URL
    */
-  async search(query: string, limit?: number): Promise<HistoryEntry[]> {
-    return this.prisma.historyEntry.findMany({
-      where: {
-        OR: [
-          { title: { contains: query } },
-          { url: { contains: query } }
-        ]
-      },
-      take: limit || 50,
-      orderBy: { visitedAt: 'desc' }
+  async search(query: HistorySearchQuery, options: HistorySearchOptions): Promise<HistorySearchRow[]> {
+    const match = buildFtsMatch(query);
+    const conditions = [
+      ...(match ? [Prisma.sql`"UrlFts" MATCH ${match}`] : []),
+      ...this.buildSearchFilters(query)
+    ];
+    const where = conditions.length > 0
+      ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+      : Prisma.empty;
+    const from = match
+      ? Prisma.sql`"UrlFts" JOIN "Url" u ON u."rowid" = "UrlFts"."rowid"`
+      : Prisma.sql`"Url" u`;
+    const textScore = match ? Prisma.sql`-"UrlFts"."rank"` : Prisma.sql`1.0`;
+
+    const rows = await this.prisma.$queryRaw<RankedUrlRow[]>(Prisma.sql`
+      SELECT u."id", ${textScore} * (MAX(u."frecency", 0) + 1) AS "score"
+      FROM ${from}
+      ${where}
+      ORDER BY "score" DESC, u."url" ASC
+      LIMIT ${options.limit} OFFSET ${options.offset}
+    `);
+
+    const urls = await this.prisma.url.findMany({
+      where: { id: { in: rows.map(row => row.id) } }
+    });
+    const urlById = new Map(urls.map(url => [url.id, url]));
+
+    return rows.flatMap(row => {
+      const url = urlById.get(row.id);
+      return url ? [{ url, score: Number(row.score) }] : [];
     });
   }
 
   /**
-   * 날짜 범위로 조회
+   * 날짜 범위로 방문 기록 조회
    */
-  async findByDateRange(startTime: Date, endTime: Date): Promise<HistoryEntry[]> {
-    return this.prisma.historyEntry.findMany({
+  async findByDateRange(startTime: Date, endTime: Date): Promise<VisitWithUrl[]> {
+    return this.prisma.visit.findMany({
       where: {
         visitedAt: {
           gte: startTime,
           lte: endTime
         }
       },
-      orderBy: { visitedAt: 'desc' }
+      orderBy: { visitedAt: 'desc' },
+      include: withUrl
     });
   }
 
   /**
-   * 자주 방문한 사이트 조회
+   * 기간 내 방문 한 페이지 조회 (방문 시각, ID 오름차순)
+   * - 같은 시각의 방문은 ID로 구분해 빠짐없이 이어서 조회
+   *
+   * @param startTime 이 시각 이후 방문 (null = 처음부터)
+   * @param endTime 이 시각 이전 방문 (null = 현재까지)
+   * @param after 이전 페이지의 마지막 방문 (null = 첫 페이지)
    */
-  async getFrequentSites(limit?: number): Promise<FrequentSite[]> {
-    const records = await this.prisma.historyEntry.groupBy({
-      by: ['url'],
-      _count: {
-        id: true
-      },
-      orderBy: {
-        _count: {
-          id: 'desc'
-        }
+  async findPageInRange(
+    startTime: Date | null,
+    endTime: Date | null,
+    after: VisitCursor | null,
+    limit: number
+  ): Promise<VisitWithUrl[]> {
+    return this.prisma.visit.findMany({
+      where: {
+        visitedAt: {
+          ...(startTime && { gte: startTime }),
+          ...(endTime && { lte: endTime })
+        },
+        ...(after && {
+          OR: [
+            { visitedAt: { gt: after.visitedAt } },
+            { visitedAt: after.visitedAt, id: { gt: after.id } }
+          ]
+        })
       },
+      orderBy: [{ visitedAt: 'asc' }, { id: 'asc' }],
+      take: limit,
+      include: withUrl
+    });
+  }
+
+  /**
+   * 자주 방문한 사이트 조회 (frecency순)
+   */
+  async getFrequentSites(limit?: number): Promise<FrequentSite[]> {
+    const urls = await this.prisma.url.findMany({
+      where: { frecency: { gt: 0 } },
+      orderBy: [{ frecency: 'desc' }, { lastVisitedAt: 'desc' }],
       take: limit || 10
     });
 
-    return records.map((r) => ({
-      url: r.url,
-      count: r._count.id
+    return urls.map((url) => ({
+      url: url.url,
+      title: url.title,
+      favicon: url.favicon,
+      count: url.visitCount,
+      frecency: url.frecency
     }));
   }
 
   /**
-   * 기록 생성
+   * 방문 기록 생성 (트랜잭션)
+   * - URL이 없으면 생성, 있으면 제목/파비콘 갱신
+   * - 존재하지 않는 referrer 방문은 연결하지 않음
+   * - URL 통계와 frecency를 함께 갱신
    */
-  async create(data: Omit<HistoryEntry, 'id' | 'createdAt'>): Promise<HistoryEntry> {
-    return this.prisma.historyEntry.create({
-      data: {
-        ...data,
-        id: this.generateId(),
-        visitedAt: data.visitedAt || new Date()
+  async create(data: VisitInput): Promise<VisitWithUrl> {
+    return this.prisma.$transaction(async (tx) => {
+      const url = await tx.url.upsert({
+        where: { url: data.url },
+        create: {
+          url: data.url,
+          title: data.title || '',
+          favicon: data.favicon ?? null,
+          lastVisitedAt: data.visitedAt
+        },
+        update: {
+          ...(data.title && { title: data.title }),
+          ...(data.favicon && { favicon: data.favicon })
+        }
+      });
+
+      const referrer = data.referrerVisitId
+        ? await tx.visit.findUnique({ where: { id: data.referrerVisitId }, select: { id: true } })
+        : null;
+
+      const visit = await tx.visit.create({
+        data: {
+          urlId: url.id,
+          visitedAt: data.visitedAt,
+          transition: data.transition,
+          referrerVisitId: referrer?.id ?? null,
+          dwellTimeMs: data.dwellTimeMs ?? 0
+        }
+      });
+
+      await refreshUrlStats(tx, [url.id], new Date());
+
+      return tx.visit.findUniqueOrThrow({
+        where: { id: visit.id },
+        include: withUrl
+      });
+    });
+  }
+
+  /**
+   * URL 방문에 체류 시간 누적 (트랜잭션)
+   * - since 이후 가장 최근 방문에 더함 (페이지를 연 뒤 기록된 방문)
+   * - 체류 시간이 frecency에 반영되도록 URL 통계 갱신
+   *
+   * @returns 갱신된 방문 (해당 방문이 없으면 null)
+   */
+  async addDwellTime(url: string, since: Date, dwellTimeMs: number): Promise<Visit | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const visit = await tx.visit.findFirst({
+        where: { url: { url }, visitedAt: { gte: since } },
+        orderBy: { visitedAt: 'desc' },
+        select: { id: true, urlId: true }
+      });
+      if (!visit) {
+        return null;
       }
+
+      const updated = await tx.visit.update({
+        where: { id: visit.id },
+        data: { dwellTimeMs: { increment: dwellTimeMs } }
+      });
+      await refreshUrlStats(tx, [visit.urlId], new Date());
+      return updated;
     });
   }
 
   /**
-   * 기록 수정
+   * URL별 체류 시간 합계 (체류 시간이 측정된 방문만)
+   *
+   * @param startTime 이 시각 이후 방문 (null = 처음부터)
+   * @param endTime 이 시각 이전 방문 (null = 현재까지)
    */
-  async update(id: string, data: Partial<Omit<HistoryEntry, 'id' | 'createdAt'>>): Promise<HistoryEntry> {
-    return this.prisma.historyEntry.update({
-      where: { id },
-      data
+  async getDwellTimeByUrl(startTime: Date | null, endTime: Date | null): Promise<UrlDwellTime[]> {
+    const groups = await this.prisma.visit.groupBy({
+      by: ['urlId'],
+      where: {
+        dwellTimeMs: { gt: 0 },
+        visitedAt: {
+          ...(startTime && { gte: startTime }),
+          ...(endTime && { lte: endTime })
+        }
+      },
+      _sum: { dwellTimeMs: true },
+      _count: { _all: true }
+    });
+
+    const urls = await this.prisma.url.findMany({
+      where: { id: { in: groups.map(group => group.urlId) } },
+      select: { id: true, url: true }
+    });
+    const urlById = new Map(urls.map(url => [url.id, url.url]));
+
+    return groups.flatMap(group => {
+      const url = urlById.get(group.urlId);
+      return url
+        ? [{ url, dwellTimeMs: group._sum.dwellTimeMs ?? 0, visitCount: group._count._all }]
+        : [];
     });
   }
 
   /**
-   * 기록 삭제
+   * 가져온 방문 저장 (트랜잭션)
+   * - 같은 URL, 같은 방문 시각의 방문이 이미 있으면 새로 만들지 않음 (중복 제거)
+   * - 기존 URL의 제목/파비콘은 유지
+   * - referrer는 referrerVisitId 또는 같은 배치의 referrerIndex로 연결
+   * - URL 통계와 frecency는 배치 끝에 한 번 갱신
+   *
+   * @returns 입력 순서대로 방문 ID와 새로 만들었는지 여부
    */
-  async delete(id: string): Promise<HistoryEntry> {
-    return this.prisma.historyEntry.delete({
-      where: { id }
+  async importVisits(entries: VisitImportInput[]): Promise<ImportedVisitRef[]> {
+    return this.prisma.$transaction(async (tx) => {
+      const refs: ImportedVisitRef[] = [];
+      const touchedUrlIds = new Set<string>();
+
+      for (const entry of entries) {
+        const url = await tx.url.upsert({
+          where: { url: entry.url },
+          create: {
+            url: entry.url,
+            title: entry.title || '',
+            favicon: entry.favicon ?? null,
+            lastVisitedAt: entry.visitedAt
+          },
+          update: {}
+        });
+
+        const existing = await tx.visit.findFirst({
+          where: { urlId: url.id, visitedAt: entry.visitedAt },
+          select: { id: true }
+        });
+        if (existing) {
+          refs.push({ id: existing.id, created: false });
+          continue;
+        }
+
+        const visit = await tx.visit.create({
+          data: {
+            urlId: url.id,
+            visitedAt: entry.visitedAt,
+            transition: entry.transition,
+            referrerVisitId:
+              entry.referrerVisitId ??
+              (entry.referrerIndex != null ? refs[entry.referrerIndex]?.id : null) ??
+              null,
+            dwellTimeMs: entry.dwellTimeMs ?? 0
+          }
+        });
+        touchedUrlIds.add(url.id);
+        refs.push({ id: visit.id, created: true });
+      }
+
+      await refreshUrlStats(tx, [...touchedUrlIds], new Date());
+      return refs;
+    });
+  }
+
+  /**
+   * 방문 기록 삭제 (트랜잭션)
+   * - URL 통계 갱신, 마지막 방문이었으면 URL도 삭제
+   */
+  async delete(id: string): Promise<Visit> {
+    return this.prisma.$transaction(async (tx) => {
+      await markJourneysStale(tx, { id });
+      const visit = await tx.visit.delete({
+        where: { id }
+      });
+      await refreshUrlStats(tx, [visit.urlId], new Date());
+      return visit;
     });
   }
 
   /**
-   * 모든 기록 삭제
+   * 모든 기록 삭제 (URL 삭제 시 방문도 Cascade 삭제, 여정도 함께 삭제)
+   *
+   * @returns 삭제된 방문 수
    */
   async deleteAll(): Promise<{ count: number }> {
-    return this.prisma.historyEntry.deleteMany();
+    return this.prisma.$transaction(async (tx) => {
+      const count = await tx.visit.count();
+      await tx.url.deleteMany();
+      await tx.journey.deleteMany();
+      return { count };
+    });
   }
 
   /**
-   * 특정 시간 이전 기록 삭제 (기간 정리)
+   * 특정 시간 이전 방문 삭제 (기간 정리, 트랜잭션)
+   *
+   * @returns 삭제된 방문 수
    */
   async deleteBeforeTime(beforeTime: Date): Promise<{ count: number }> {
-    return this.prisma.historyEntry.deleteMany({
-      where: {
-        visitedAt: {
-          lt: beforeTime
-        }
-      }
+    return this.prisma.$transaction(async (tx) => {
+      const where = { visitedAt: { lt: beforeTime } };
+      const affected = await tx.visit.findMany({
+        where,
+        distinct: ['urlId'],
+        select: { urlId: true }
+      });
+
+      await markJourneysStale(tx, where);
+      const result = await tx.visit.deleteMany({ where });
+      await refreshUrlStats(tx, affected.map(visit => visit.urlId), new Date());
+      return result;
+    });
+  }
+
+  /**
+   * 보관 기간이 지난 방문 삭제 (한 번에 최대 limit개, 오래된 순)
+   * - 북마크한 URL의 방문은 유지
+   *
+   * @returns 삭제된 방문 수
+   */
+  async deleteExpiredVisits(before: Date, limit: number): Promise<number> {
+    const rows = await this.prisma.$queryRaw<VisitRefRow[]>(Prisma.sql`
+      SELECT v."id", v."urlId"
+      FROM "Visit" v
+      JOIN "Url" u ON u."id" = v."urlId"
+      WHERE v."visitedAt" < ${before.getTime()}
+        AND NOT EXISTS (SELECT 1 FROM "Bookmark" b WHERE b."url" = u."url")
+      ORDER BY v."visitedAt" ASC
+      LIMIT ${limit}
+    `);
+    return this.deleteVisitRows(rows);
+  }
+
+  /**
+   * 최대 개수를 넘는 오래된 방문 삭제 (한 번에 최대 limit개, 오래된 순)
+   * - 최근 keep개 방문은 유지, 북마크한 URL의 방문도 유지
+   *
+   * @returns 삭제된 방문 수
+   */
+  async deleteOverflowVisits(keep: number, limit: number): Promise<number> {
+    const rows = await this.prisma.$queryRaw<VisitRefRow[]>(Prisma.sql`
+      SELECT v."id", v."urlId"
+      FROM (
+        SELECT "id", "urlId", "visitedAt" FROM "Visit"
+        ORDER BY "visitedAt" DESC
+        LIMIT -1 OFFSET ${keep}
+      ) v
+      JOIN "Url" u ON u."id" = v."urlId"
+      WHERE NOT EXISTS (SELECT 1 FROM "Bookmark" b WHERE b."url" = u."url")
+      ORDER BY v."visitedAt" ASC
+      LIMIT ${limit}
+    `);
+    return this.deleteVisitRows(rows);
+  }
+
+  /**
+   * 범위 안의 방문이 있는 URL 목록
+   */
+  async findUrlsInRange(range: VisitRange): Promise<string[]> {
+    const rows = await this.prisma.$queryRaw<Array<{ url: string }>>(Prisma.sql`
+      SELECT u."url" FROM "Url" u
+      ${this.buildRangeWhere(range)}
+    `);
+    return rows.map(row => row.url);
+  }
+
+  /**
+   * 범위 안의 방문 삭제 (한 번에 최대 limit개)
+   *
+   * @returns 삭제된 방문 수
+   */
+  async deleteVisitsInRange(range: VisitRange, limit: number): Promise<number> {
+    const conditions = [
+      ...(range.after ? [Prisma.sql`v."visitedAt" >= ${range.after.getTime()}`] : []),
+      ...(range.site ? [siteCondition(range.site)] : [])
+    ];
+    const where = conditions.length > 0
+      ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+      : Prisma.empty;
+
+    const rows = await this.prisma.$queryRaw<VisitRefRow[]>(Prisma.sql`
+      SELECT v."id", v."urlId"
+      FROM "Visit" v
+      JOIN "Url" u ON u."id" = v."urlId"
+      ${where}
+      LIMIT ${limit}
+    `);
+    return this.deleteVisitRows(rows);
+  }
+
+  /**
+   * 범위 안의 방문이 있는 URL의 파비콘 삭제
+   *
+   * @returns 파비콘을 지운 URL 수
+   */
+  async clearFavicons(range: VisitRange): Promise<number> {
+    const urls = await this.findUrlsInRange(range);
+    if (urls.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.url.updateMany({
+      where: { url: { in: urls }, favicon: { not: null } },
+      data: { favicon: null }
     });
+    return result.count;
   }
 
   /**
-   * 기록 개수 조회
+   * 방문 기록 개수 조회
    */
   async count(): Promise<number> {
-    return this.prisma.historyEntry.count();
+    return this.prisma.visit.count();
   }
 
   /**
-   * UUID 생성 (간단한 ID 생성)
+   * frecency 재계산
+   * - 재계산 표시(-1)된 URL과 since 이후 방문한 URL만 대상
+   *   (최근성 구간이 바뀔 수 있는 URL만 다시 계산)
+   *
+   * @param since 이 시각 이후 마지막 방문이 있는 URL 재계산
+   * @param now 최근성 기준 시각
+   * @returns 재계산한 URL 수
    */
-  private generateId(): string {
-    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  async recalculateFrecency(since: Date, now: Date): Promise<number> {
+    const targets = await this.prisma.url.findMany({
+      where: {
+        OR: [{ frecency: FRECENCY_STALE }, { lastVisitedAt: { gte: since } }]
+      },
+      select: { id: true }
+    });
+
+    for (let i = 0; i < targets.length; i += RECALCULATE_BATCH_SIZE) {
+      const batch = targets.slice(i, i + RECALCULATE_BATCH_SIZE).map(target => target.id);
+      await this.prisma.$transaction((tx) => refreshUrlStats(tx, batch, now));
+    }
+
+    return targets.length;
+  }
+
+  /**
+   * 방문 삭제 후 URL 통계 갱신 (트랜잭션)
+   */
+  private async deleteVisitRows(rows: VisitRefRow[]): Promise<number> {
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const where = { id: { in: rows.map(row => row.id) } };
+      await markJourneysStale(tx, where);
+      const result = await tx.visit.deleteMany({ where });
+      await refreshUrlStats(tx, [...new Set(rows.map(row => row.urlId))], new Date());
+      return result.count;
+    });
+  }
+
+  /**
+   * 삭제 범위 → WHERE 절 (Url 별칭 u 기준)
+   *
+   * @private
+   */
+  private buildRangeWhere(range: VisitRange): Prisma.Sql {
+    const conditions = [
+      ...(range.site ? [siteCondition(range.site)] : []),
+      ...(range.after
+        ? [Prisma.sql`EXISTS (
+            SELECT 1 FROM "Visit" v
+            WHERE v."urlId" = u."id" AND v."visitedAt" >= ${range.after.getTime()}
+          )`]
+        : [])
+    ];
+    return conditions.length > 0
+      ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+      : Prisma.empty;
+  }
+
+  /**
+   * site:/before:/after: 조건 → SQL 조건 (Url 별칭 u 기준)
+   * - site:example.com은 example.com과 모든 하위 도메인 일치
+   * - before:/after:는 기간 내 방문 존재 여부
+   */
+  private buildSearchFilters(query: HistorySearchQuery): Prisma.Sql[] {
+    const filters: Prisma.Sql[] = [];
+
+    if (query.site) {
+      filters.push(siteCondition(query.site));
+    }
+
+    const visitConditions: Prisma.Sql[] = [];
+    if (query.after) {
+      visitConditions.push(Prisma.sql`v."visitedAt" >= ${query.after.getTime()}`);
+    }
+    if (query.before) {
+      visitConditions.push(Prisma.sql`v."visitedAt" < ${query.before.getTime()}`);
+    }
+    if (visitConditions.length > 0) {
+      filters.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "Visit" v
+        WHERE v."urlId" = u."id" AND ${Prisma.join(visitConditions, ' AND ')}
+      )`);
+    }
+
+    return filters;
   }
 }
 
@@ -0,0 +1,171 @@
+/**
+ * Journey Repository
+ *
+ * Prisma를 사용한 Journey (여정) 데이터 접근 계층
+ * - 아직 묶이지 않은 방문 조회
+ * - 이어 붙일 수 있는 최근 여정 조회
+ * - 방문 배정 및 요약 저장
+ * - 재계산 필요 (stale) 여정 조회, 빈 여정 삭제
+ * - 여정 목록 조회 (최신순)
+ */
+
+import { PrismaClient, Journey, Url, Visit } from '@prisma/client';
+import type { JourneySummary } from './journeyClustering';
+
+/**
+ * 묶기 대상 방문 (URL과 referrer 방문의 여정 포함)
+ */
+export type UnassignedVisit = Visit & {
+  url: Url;
+  referrerVisit: { journeyId: string | null } | null;
+};
+
+/**
+ * 여정 방문 (요약 계산용)
+ */
+export type JourneyVisit = Visit & { url: Url };
+
+/**
+ * JourneyRepository 클래스
+ * 데이터베이스 접근을 캡슐화
+ */
+export class JourneyRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * 아직 여정에 묶이지 않은 방문 (오래된 순, 최대 limit개)
+   */
+  async findUnassignedVisits(limit: number): Promise<UnassignedVisit[]> {
+    return this.prisma.visit.findMany({
+      where: { journeyId: null },
+      orderBy: [{ visitedAt: 'asc' }, { id: 'asc' }],
+      take: limit,
+      include: {
+        url: true,
+        referrerVisit: { select: { journeyId: true } }
+      }
+    });
+  }
+
+  /**
+   * since 이후에 끝난 여정 (이어 붙이기 후보, 재계산 필요한 여정 제외)
+   */
+  async findOpenSince(since: Date): Promise<Journey[]> {
+    return this.prisma.journey.findMany({
+      where: { endedAt: { gte: since }, stale: false },
+      orderBy: { endedAt: 'asc' }
+    });
+  }
+
+  /**
+   * ID 목록의 여정 (referrer 여정 조회용)
+   */
+  async findByIds(ids: string[]): Promise<Journey[]> {
+    return this.prisma.journey.findMany({
+      where: { id: { in: ids }, stale: false }
+    });
+  }
+
+  /**
+   * 여정에 방문 배정 (id가 null이면 새 여정 생성)
+   *
+   * @returns 여정 ID
+   */
+  async assignVisits(
+    id: string | null,
+    visitIds: string[],
+    startedAt: Date,
+    endedAt: Date
+  ): Promise<string> {
+    return this.prisma.$transaction(async (tx) => {
+      const journeyId = id ?? (await tx.journey.create({ data: { startedAt, endedAt } })).id;
+
+      await tx.visit.updateMany({
+        where: { id: { in: visitIds } },
+        data: { journeyId }
+      });
+
+      return journeyId;
+    });
+  }
+
+  /**
+   * 여정의 모든 방문 (방문 시간 오름차순)
+   */
+  async findVisits(journeyId: string): Promise<JourneyVisit[]> {
+    return this.prisma.visit.findMany({
+      where: { journeyId },
+      orderBy: { visitedAt: 'asc' },
+      include: { url: true }
+    });
+  }
+
+  /**
+   * 여정 요약 저장 (재계산 표시 해제)
+   */
+  async updateSummary(id: string, summary: JourneySummary): Promise<Journey> {
+    return this.prisma.journey.update({
+      where: { id },
+      data: {
+        label: summary.label,
+        startedAt: summary.startedAt,
+        endedAt: summary.endedAt,
+        visitCount: summary.visitCount,
+        topPages: JSON.stringify(summary.topPages),
+        domains: JSON.stringify(summary.domains),
+        keywords: JSON.stringify(summary.keywords),
+        stale: false
+      }
+    });
+  }
+
+  /**
+   * 요약 재계산이 필요한 여정 ID (최대 limit개)
+   */
+  async findStaleIds(limit: number): Promise<string[]> {
+    const journeys = await this.prisma.journey.findMany({
+      where: { stale: true },
+      take: limit,
+      select: { id: true }
+    });
+    return journeys.map((journey) => journey.id);
+  }
+
+  /**
+   * 여정 삭제
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.journey.deleteMany({
+      where: { id }
+    });
+  }
+
+  /**
+   * 여정 목록 (최신순, 재계산 필요한 여정 제외)
+   */
+  async findRecent(limit: number, offset: number): Promise<Journey[]> {
+    return this.prisma.journey.findMany({
+      where: { stale: false, visitCount: { gt: 0 } },
+      orderBy: [{ endedAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+      skip: offset
+    });
+  }
+
+  /**
+   * URL별 파비콘 (대표 페이지 표시용)
+   */
+  async findFavicons(urls: string[]): Promise<Map<string, string | null>> {
+    const rows = await this.prisma.url.findMany({
+      where: { url: { in: urls } },
+      select: { url: true, favicon: true }
+    });
+    return new Map(rows.map((row) => [row.url, row.favicon]));
+  }
+}
+
+export default JourneyRepository;
@@ -0,0 +1,175 @@
+/**
+ * RecentlyClosed Repository
+ *
+ * Prisma를 사용한 최근 닫은 탭/윈도우 데이터 접근 계층
+ * - 닫은 항목 추가 (최대 개수 초과 시 오래된 항목 삭제)
+ * - 최근 항목 조회
+ * - 다시 연 항목 삭제
+ * - 기간/사이트 단위 삭제 (인터넷 사용 기록 삭제)
+ */
+
+import { PrismaClient, RecentlyClosedEntry, RecentlyClosedTab } from '@prisma/client';
+import { urlMatchesSite } from './historyQuery';
+
+/**
+ * 닫은 탭 저장 입력
+ */
+export interface RecentlyClosedTabInput {
+  originalIndex: number;
+  url: string;
+  title: string;
+  favicon?: string | null;
+  isPinned: boolean;
+  isMuted: boolean;
+  navigationIndex: number;
+  navigationEntries: string; // JSON 배열
+}
+
+/**
+ * 탭 목록을 포함한 닫은 항목
+ */
+export type RecentlyClosedEntryWithTabs = RecentlyClosedEntry & {
+  tabs: RecentlyClosedTab[];
+};
+
+/**
+ * RecentlyClosedRepository 클래스
+ * 데이터베이스 접근을 캡슐화
+ */
+export class RecentlyClosedRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * 닫은 항목 추가
+   * - maxEntries를 넘는 오래된 항목은 같은 트랜잭션에서 삭제
+   */
+  async push(
+    type: 'tab' | 'window',
+    tabs: RecentlyClosedTabInput[],
+    maxEntries: number
+  ): Promise<RecentlyClosedEntryWithTabs> {
+    return this.prisma.$transaction(async (tx) => {
+      const entry = await tx.recentlyClosedEntry.create({
+        data: {
+          type,
+          tabs: { create: tabs }
+        },
+        include: { tabs: { orderBy: { originalIndex: 'asc' } } }
+      });
+
+      const stale = await tx.recentlyClosedEntry.findMany({
+        orderBy: [{ closedAt: 'desc' }, { id: 'desc' }],
+        skip: maxEntries,
+        select: { id: true }
+      });
+      if (stale.length > 0) {
+        await tx.recentlyClosedEntry.deleteMany({
+          where: { id: { in: stale.map((item) => item.id) } }
+        });
+      }
+
+      return entry;
+    });
+  }
+
+  /**
+   * 최근 항목 조회 (최신순)
+   */
+  async findRecent(limit: number): Promise<RecentlyClosedEntryWithTabs[]> {
+    return this.prisma.recentlyClosedEntry.findMany({
+      orderBy: [{ closedAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+      include: { tabs: { orderBy: { originalIndex: 'asc' } } }
+    });
+  }
+
+  /**
+   * ID로 항목 조회
+   */
+  async findById(id: string): Promise<RecentlyClosedEntryWithTabs | null> {
+    return this.prisma.recentlyClosedEntry.findUnique({
+      where: { id },
+      include: { tabs: { orderBy: { originalIndex: 'asc' } } }
+    });
+  }
+
+  /**
+   * 항목 삭제 (탭은 Cascade 삭제)
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.recentlyClosedEntry.deleteMany({
+      where: { id }
+    });
+  }
+
+  /**
+   * 기간/사이트 범위의 닫은 탭 삭제
+   * - site가 있으면 현재 URL 또는 네비게이션 스택에 사이트가 포함된 탭만 삭제
+   * - 탭이 모두 지워진 항목은 함께 삭제
+   *
+   * @param after 이 시각 이후 닫은 항목 (null = 전체 기간)
+   * @param site 사이트, 하위 도메인 포함 (null = 모든 사이트)
+   * @returns 삭제된 탭 수
+   */
+  async deleteInRange(after: Date | null, site: string | null): Promise<number> {
+    return this.prisma.$transaction(async (tx) => {
+      const tabs = await tx.recentlyClosedTab.findMany({
+        where: after ? { entry: { closedAt: { gte: after } } } : {},
+        select: { id: true, url: true, navigationEntries: true }
+      });
+
+      const targets = site
+        ? tabs.filter((tab) => this.tabMatchesSite(tab.url, tab.navigationEntries, site))
+        : tabs;
+      if (targets.length === 0) {
+        return 0;
+      }
+
+      await tx.recentlyClosedTab.deleteMany({
+        where: { id: { in: targets.map((tab) => tab.id) } }
+      });
+      await tx.recentlyClosedEntry.deleteMany({
+        where: { tabs: { none: {} } }
+      });
+
+      return targets.length;
+    });
+  }
+
+  /**
+   * 모든 항목 삭제
+   */
+  async deleteAll(): Promise<{ count: number }> {
+    return this.prisma.recentlyClosedEntry.deleteMany({});
+  }
+
+  /**
+   * 탭의 현재 URL 또는 네비게이션 스택이 사이트에 속하는지 여부
+   *
+   * @private
+   */
+  private tabMatchesSite(url: string, navigationEntries: string, site: string): boolean {
+    if (urlMatchesSite(url, site)) {
+      return true;
+    }
+
+    try {
+      const entries: unknown = JSON.parse(navigationEntries);
+      return (
+        Array.isArray(entries) &&
+        entries.some(
+          (entry: { url?: unknown }) =>
+            typeof entry?.url === 'string' && urlMatchesSite(entry.url, site)
+        )
+      );
+    } catch {
+      return false;
+    }
+  }
+}
+
+export default RecentlyClosedRepository;
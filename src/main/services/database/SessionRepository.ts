@@ -0,0 +1,118 @@
+/**
+ * Session Repository
+ *
+ * Prisma를 사용한 SessionData 데이터 접근 계층
+ * - 현재 세션 스냅샷 저장/조회
+ * - 비정상 종료 마커 (cleanExit) 관리
+ * - 복원 대기 세션 (session-recovery) 보관
+ */
+
+import { PrismaClient, SessionData } from '@prisma/client';
+
+/**
+ * 현재 세션 행 ID
+ */
+export const CURRENT_SESSION_ID = 'session-1';
+
+/**
+ * 비정상 종료 후 복원 대기 세션 행 ID
+ */
+export const RECOVERY_SESSION_ID = 'session-recovery';
+
+/**
+ * 세션 저장 입력
+ */
+export interface SessionDataInput {
+  activeTabId: string | null;
+  openTabs: string;
+  tabGroups?: string;
+  windowState: string | null;
+  cleanExit?: boolean;
+}
+
+/**
+ * SessionRepository 클래스
+ * 데이터베이스 접근을 캡슐화
+ */
+export class SessionRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * 세션 조회
+   */
+  async find(id: string = CURRENT_SESSION_ID): Promise<SessionData | null> {
+    return this.prisma.sessionData.findUnique({
+      where: { id }
+    });
+  }
+
+  /**
+   * 세션 저장 (없으면 생성)
+   */
+  async save(data: SessionDataInput, id: string = CURRENT_SESSION_ID): Promise<SessionData> {
+    const now = new Date();
+    return this.prisma.sessionData.upsert({
+      where: { id },
+      create: {
+        id,
+        activeTabId: data.activeTabId,
+        openTabs: data.openTabs,
+        tabGroups: data.tabGroups ?? '[]',
+        windowState: data.windowState,
+        cleanExit: data.cleanExit ?? false,
+        lastActiveAt: now
+      },
+      update: {
+        activeTabId: data.activeTabId,
+        openTabs: data.openTabs,
+        ...(data.tabGroups !== undefined ? { tabGroups: data.tabGroups } : {}),
+        windowState: data.windowState,
+        ...(data.cleanExit !== undefined ? { cleanExit: data.cleanExit } : {}),
+        lastActiveAt: now
+      }
+    });
+  }
+
+  /**
+   * 정상 종료 마커 설정
+   * - 실행 시작 시 false, 정상 종료 시 true
+   */
+  async setCleanExit(cleanExit: boolean, id: string = CURRENT_SESSION_ID): Promise<void> {
+    await this.prisma.sessionData.upsert({
+      where: { id },
+      create: { id, cleanExit },
+      update: { cleanExit }
+    });
+  }
+
+  /**
+   * 현재 세션을 복원 대기 세션으로 복사
+   */
+  async copyToRecovery(session: SessionData): Promise<SessionData> {
+    return this.save(
+      {
+        activeTabId: session.activeTabId,
+        openTabs: session.openTabs,
+        tabGroups: session.tabGroups,
+        windowState: session.windowState,
+        cleanExit: true
+      },
+      RECOVERY_SESSION_ID
+    );
+  }
+
+  /**
+   * 세션 삭제
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.sessionData.deleteMany({
+      where: { id }
+    });
+  }
+}
+
+export default SessionRepository;
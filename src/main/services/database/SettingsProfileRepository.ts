@@ -0,0 +1,118 @@
+/**
+ * SettingsProfile Repository
+ *
+ * Prisma를 사용한 SettingsProfile 데이터 접근 계층
+ * - 설정 프로필 조회, 생성, 이름 변경, 삭제
+ * - 설정 문서 (버전 + JSON) 저장
+ * - 사용 중인 프로필 지정 (하나만)
+ */
+
+import { PrismaClient, SettingsProfile } from '@prisma/client';
+
+/**
+ * SettingsProfileRepository 클래스
+ * 데이터베이스 접근을 캡슐화
+ */
+export class SettingsProfileRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * 모든 프로필 조회 (생성순)
+   */
+  async findAll(): Promise<SettingsProfile[]> {
+    return this.prisma.settingsProfile.findMany({
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * 프로필 조회
+   */
+  async findById(id: string): Promise<SettingsProfile | null> {
+    return this.prisma.settingsProfile.findUnique({
+      where: { id }
+    });
+  }
+
+  /**
+   * 이름으로 프로필 조회
+   */
+  async findByName(name: string): Promise<SettingsProfile | null> {
+    return this.prisma.settingsProfile.findUnique({
+      where: { name }
+    });
+  }
+
+  /**
+   * 사용 중인 프로필 조회
+   */
+  async findActive(): Promise<SettingsProfile | null> {
+    return this.prisma.settingsProfile.findFirst({
+      where: { isActive: true }
+    });
+  }
+
+  /**
+   * 프로필 생성
+   *
+   * @param name 프로필 이름
+   * @param version 설정 문서 버전
+   * @param data 설정 문서 (JSON 문자열)
+   */
+  async create(name: string, version: number, data: string): Promise<SettingsProfile> {
+    return this.prisma.settingsProfile.create({
+      data: { name, version, data }
+    });
+  }
+
+  /**
+   * 설정 문서 저장
+   */
+  async saveData(id: string, version: number, data: string): Promise<SettingsProfile> {
+    return this.prisma.settingsProfile.update({
+      where: { id },
+      data: { version, data }
+    });
+  }
+
+  /**
+   * 프로필 이름 변경
+   */
+  async rename(id: string, name: string): Promise<SettingsProfile> {
+    return this.prisma.settingsProfile.update({
+      where: { id },
+      data: { name }
+    });
+  }
+
+  /**
+   * 사용 중인 프로필 지정 (나머지는 해제)
+   */
+  async activate(id: string): Promise<SettingsProfile> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.settingsProfile.updateMany({
+        where: { isActive: true, NOT: { id } },
+        data: { isActive: false }
+      });
+      return tx.settingsProfile.update({
+        where: { id },
+        data: { isActive: true }
+      });
+    });
+  }
+
+  /**
+   * 프로필 삭제
+   */
+  async delete(id: string): Promise<SettingsProfile> {
+    return this.prisma.settingsProfile.delete({
+      where: { id }
+    });
+  }
+}
+
+export default SettingsProfileRepository;
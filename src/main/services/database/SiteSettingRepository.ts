@@ -0,0 +1,108 @@
+/**
+ * SiteSetting Repository
+ *
+ * Prisma를 사용한 SiteSetting 데이터 접근 계층
+ * - 사이트(origin)별 줌/권한 조회, 저장
+ * - 항목 해제 (모든 값이 비면 행 삭제)
+ */
+
+import { PrismaClient, SiteSetting } from '@prisma/client';
+
+/**
+ * SiteSetting 값 필드
+ */
+export type SiteSettingField = Exclude<keyof SiteSetting, 'origin' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * SiteSetting 저장 데이터 (주어진 필드만 변경)
+ */
+export type SiteSettingData = Partial<Pick<SiteSetting, SiteSettingField>>;
+
+const SITE_SETTING_FIELDS: SiteSettingField[] = [
+  'zoomLevel',
+  'notifications',
+  'camera',
+  'microphone',
+  'geolocation',
+  'popups',
+  'autoplay',
+  'cookies',
+  'javascript'
+];
+
+/**
+ * SiteSettingRepository 클래스
+ * 데이터베이스 접근을 캡슐화
+ */
+export class SiteSettingRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * 모든 사이트 설정 조회 (origin순)
+   */
+  async findAll(): Promise<SiteSetting[]> {
+    return this.prisma.siteSetting.findMany({
+      orderBy: { origin: 'asc' }
+    });
+  }
+
+  /**
+   * 사이트 설정 조회
+   */
+  async findByOrigin(origin: string): Promise<SiteSetting | null> {
+    return this.prisma.siteSetting.findUnique({
+      where: { origin }
+    });
+  }
+
+  /**
+   * 사이트 설정 저장 (행이 없으면 생성)
+   *
+   * @param origin 사이트 origin
+   * @param data 바꿀 필드
+   */
+  async upsert(origin: string, data: SiteSettingData): Promise<SiteSetting> {
+    return this.prisma.siteSetting.upsert({
+      where: { origin },
+      create: { origin, ...data },
+      update: data
+    });
+  }
+
+  /**
+   * 사이트 설정 항목 해제 (모든 값이 비면 행 삭제)
+   *
+   * @param origin 사이트 origin
+   * @param fields 해제할 필드 (생략 시 전체)
+   * @returns 남은 설정 (행이 없거나 삭제되었으면 null)
+   */
+  async clear(
+    origin: string,
+    fields: SiteSettingField[] = SITE_SETTING_FIELDS
+  ): Promise<SiteSetting | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const existing = await tx.siteSetting.findUnique({ where: { origin } });
+      if (!existing) {
+        return null;
+      }
+
+      const cleared = Object.fromEntries(fields.map((field) => [field, null]));
+      const updated = await tx.siteSetting.update({
+        where: { origin },
+        data: cleared
+      });
+
+      if (SITE_SETTING_FIELDS.every((field) => updated[field] === null)) {
+        await tx.siteSetting.delete({ where: { origin } });
+        return null;
+      }
+      return updated;
+    });
+  }
+}
+
+export default SiteSettingRepository;
@@ -0,0 +1,200 @@
+/**
+ * TabGroup Repository
+ *
+ * Prisma를 사용한 TabGroup 데이터 접근 계층
+ * - 그룹 생성 (선택한 탭을 첫 탭 위치에 연속 배치)
+ * - 이름/색상/접힘 상태 수정
+ * - 그룹 해제
+ * - 그룹 단위 이동 (윈도우 내 재정렬 또는 다른 윈도우로 이동)
+ */
+
+import { PrismaClient, TabGroup } from '@prisma/client';
+import { deleteEmptyGroups, normalizeWindowOrder, sortTabOrder, writeTabOrder } from './tabOrder';
+
+/**
+ * 멤버 탭 ID를 포함한 그룹
+ */
+export type TabGroupWithTabs = TabGroup & {
+  tabs: Array<{ id: string; windowId: string | null; index: number }>;
+};
+
+/**
+ * 그룹 생성 입력
+ */
+export interface TabGroupInput {
+  name?: string;
+  color?: string;
+  collapsed?: boolean;
+}
+
+const memberTabs = {
+  select: { id: true, windowId: true, index: true },
+  orderBy: { index: 'asc' as const }
+};
+
+/**
+ * TabGroupRepository 클래스
+ * 데이터베이스 접근을 캡슐화
+ */
+export class TabGroupRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * 모든 그룹 조회 (생성순)
+   */
+  async findAll(): Promise<TabGroupWithTabs[]> {
+    return this.prisma.tabGroup.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: { tabs: memberTabs }
+    });
+  }
+
+  /**
+   * ID로 그룹 조회
+   */
+  async findById(id: string): Promise<TabGroupWithTabs | null> {
+    return this.prisma.tabGroup.findUnique({
+      where: { id },
+      include: { tabs: memberTabs }
+    });
+  }
+
+  /**
+   * 그룹 생성 (트랜잭션)
+   * - 선택한 탭은 기존 그룹에서 빠져 새 그룹으로 이동
+   * - 멤버 탭은 윈도우 내 첫 멤버 위치에 연속 배치
+   * - 멤버가 모두 빠진 기존 그룹은 삭제
+   *
+   * @param data 그룹 속성
+   * @param tabIds 멤버 탭 ID (같은 윈도우의 고정되지 않은 탭)
+   */
+  async create(data: TabGroupInput, tabIds: string[]): Promise<TabGroupWithTabs> {
+    return this.prisma.$transaction(async (tx) => {
+      const group = await tx.tabGroup.create({
+        data: {
+          name: data.name ?? '',
+          color: data.color ?? 'grey',
+          collapsed: data.collapsed ?? false
+        }
+      });
+
+      await tx.browserTab.updateMany({
+        where: { id: { in: tabIds } },
+        data: { groupId: group.id }
+      });
+
+      const members = await tx.browserTab.findMany({
+        where: { id: { in: tabIds } },
+        select: { windowId: true }
+      });
+      for (const windowId of new Set(members.map(member => member.windowId))) {
+        await normalizeWindowOrder(tx, windowId);
+      }
+      await deleteEmptyGroups(tx);
+
+      return tx.tabGroup.findUniqueOrThrow({
+        where: { id: group.id },
+        include: { tabs: memberTabs }
+      });
+    });
+  }
+
+  /**
+   * 그룹 속성 수정 (이름, 색상, 접힘 상태)
+   */
+  async update(id: string, data: TabGroupInput): Promise<TabGroupWithTabs> {
+    return this.prisma.tabGroup.update({
+      where: { id },
+      data: {
+        ...data,
+        updatedAt: new Date()
+      },
+      include: { tabs: memberTabs }
+    });
+  }
+
+  /**
+   * 그룹 해제 (멤버 탭은 위치 그대로 남고 그룹만 삭제, 트랜잭션)
+   *
+   * @returns 그룹에서 빠진 탭 ID 목록
+   */
+  async ungroup(id: string): Promise<string[]> {
+    return this.prisma.$transaction(async (tx) => {
+      const members = await tx.browserTab.findMany({
+        where: { groupId: id },
+        select: { id: true }
+      });
+
+      await tx.browserTab.updateMany({
+        where: { groupId: id },
+        data: { groupId: null }
+      });
+      await tx.tabGroup.deleteMany({ where: { id } });
+
+      return members.map(member => member.id);
+    });
+  }
+
+  /**
+   * 그룹 이동 (멤버 탭 전체를 연속으로 이동, 트랜잭션)
+   * - 고정 탭 구역 뒤로 위치 제한
+   * - 다른 그룹의 중간에 끼어들지 않도록 그룹 경계로 조정
+   *
+   * @param id 이동할 그룹 ID
+   * @param windowId 대상 윈도우 ID
+   * @param index 대상 윈도우 내 위치 (그룹을 제외한 탭 기준, 0부터)
+   * @returns 이동 후 그룹
+   */
+  async move(id: string, windowId: string, index: number): Promise<TabGroupWithTabs> {
+    return this.prisma.$transaction(async (tx) => {
+      const members = await tx.browserTab.findMany({
+        where: { groupId: id },
+        orderBy: [{ windowId: 'asc' }, { index: 'asc' }]
+      });
+      const sourceWindowIds = new Set(members.map(member => member.windowId));
+
+      const siblings = await tx.browserTab.findMany({
+        where: { windowId, OR: [{ groupId: null }, { groupId: { not: id } }] },
+        orderBy: [{ isPinned: 'desc' }, { index: 'asc' }]
+      });
+
+      const pinnedCount = siblings.filter(sibling => sibling.isPinned).length;
+      const splitsGroup = (position: number): boolean => {
+        const groupId = siblings[position]?.groupId;
+        return !!groupId && siblings[position - 1]?.groupId === groupId;
+      };
+
+      let target = Math.min(Math.max(index, pinnedCount), siblings.length);
+      while (target < siblings.length && splitsGroup(target)) {
+        target++;
+      }
+
+      const ordered = [...siblings.slice(0, target), ...members, ...siblings.slice(target)];
+      await writeTabOrder(tx, sortTabOrder(ordered), windowId);
+
+      for (const sourceWindowId of sourceWindowIds) {
+        if (sourceWindowId !== windowId) {
+          await normalizeWindowOrder(tx, sourceWindowId);
+        }
+      }
+
+      return tx.tabGroup.findUniqueOrThrow({
+        where: { id },
+        include: { tabs: memberTabs }
+      });
+    });
+  }
+
+  /**
+   * 모든 그룹 삭제 (멤버 탭의 groupId는 null로)
+   */
+  async deleteAll(): Promise<{ count: number }> {
+    return this.prisma.tabGroup.deleteMany({});
+  }
+}
+
+export default TabGroupRepository;
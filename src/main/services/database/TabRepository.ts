@@ -4,10 +4,30 @@
  * Prisma를 사용한 BrowserTab 데이터 접근 계층
  * - 탭 CRUD 작업
  * - 활성 탭 관리
+ * - 윈도우별 탭 순서 (index, 고정 탭 우선, 그룹 탭 연속) 및 윈도우 간 이동
  * - 배치 작업
+ * - 탭별 네비게이션 스택 (TabNavigationEntry)
  */
 
-import { PrismaClient, BrowserTab } from '@prisma/client';
+import { PrismaClient, BrowserTab, TabNavigationEntry } from '@prisma/client';
+import {
+  deleteEmptyGroups,
+  normalizeWindowOrder,
+  placeTab,
+  sortTabOrder,
+  writeTabOrder
+} from './tabOrder';
+
+/**
+ * 네비게이션 스택 저장 입력
+ */
+export interface NavigationEntryInput {
+  url: string;
+  title: string;
+  pageState?: string | null;
+  scrollX?: number;
+  scrollY?: number;
+}
 
 /**
  * TabRepository 클래스
@@ -25,7 +45,17 @@ export class TabRepository {
    */
   async findAll(): Promise<BrowserTab[]> {
     return this.prisma.browserTab.findMany({
-      orderBy: { updatedAt: 'desc' }
+      orderBy: [{ windowId: 'asc' }, { isPinned: 'desc' }, { index: 'asc' }]
+    });
+  }
+
+  /**
+   * 윈도우의 탭 조회 (탭 순서대로)
+   */
+  async findByWindow(windowId: string): Promise<BrowserTab[]> {
+    return this.prisma.browserTab.findMany({
+      where: { windowId },
+      orderBy: [{ isPinned: 'desc' }, { index: 'asc' }]
     });
   }
 
@@ -58,52 +88,153 @@ export class TabRepository {
   }
 
   /**
-   * 탭 생성
+   * 탭 생성 (윈도우의 마지막 위치에 추가, 트랜잭션)
    */
   async create(data: {
     url: string;
     title: string;
     isActive?: boolean;
     favicon?: string | null;
+    windowId?: string | null;
   }): Promise<BrowserTab> {
-    return this.prisma.browserTab.create({
-      data: {
-        url: data.url,
-        title: data.title,
-        isActive: data.isActive ?? false,
-        favicon: data.favicon ?? null,
-        id: this.generateId()
-      }
+    return this.prisma.$transaction(async (tx) => {
+      const windowId = data.windowId ?? null;
+      const index = await tx.browserTab.count({ where: { windowId } });
+
+      return tx.browserTab.create({
+        data: {
+          url: data.url,
+          title: data.title,
+          isActive: data.isActive ?? false,
+          favicon: data.favicon ?? null,
+          windowId,
+          index,
+          id: this.generateId()
+        }
+      });
     });
   }
 
   /**
    * 탭 수정
+   * - 고정 여부가 바뀌면 윈도우 내 순서 재정렬 (고정 탭 우선, 트랜잭션)
+   * - 고정되는 탭은 그룹에서 제외
    */
   async update(id: string, data: Partial<Omit<BrowserTab, 'id' | 'createdAt'>>): Promise<BrowserTab> {
-    return this.prisma.browserTab.update({
-      where: { id },
-      data: {
-        ...data,
-        updatedAt: new Date()
-      }
+    if (data.isPinned === undefined) {
+      return this.prisma.browserTab.update({
+        where: { id },
+        data: {
+          ...data,
+          updatedAt: new Date()
+        }
+      });
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.browserTab.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(data.isPinned ? { groupId: null } : {}),
+          updatedAt: new Date()
+        }
+      });
+
+      await normalizeWindowOrder(tx, updated.windowId);
+      await deleteEmptyGroups(tx);
+      return tx.browserTab.findUniqueOrThrow({ where: { id } });
     });
   }
 
   /**
-   * 탭 삭제
+   * 탭 삭제 (남은 탭 위치 재정렬, 빈 그룹 삭제, 트랜잭션)
    */
   async delete(id: string): Promise<BrowserTab> {
-    return this.prisma.browserTab.delete({
-      where: { id }
+    return this.prisma.$transaction(async (tx) => {
+      const deleted = await tx.browserTab.delete({
+        where: { id }
+      });
+
+      await normalizeWindowOrder(tx, deleted.windowId);
+      await deleteEmptyGroups(tx);
+      return deleted;
+    });
+  }
+
+  /**
+   * 탭 이동 (같은 윈도우 내 재정렬 또는 다른 윈도우로 이동, 트랜잭션)
+   * - 고정 탭은 고정 구역, 일반 탭은 일반 구역 안으로 위치 제한
+   * - 그룹 탭이 그룹 밖으로 이동하면 그룹에서 제외
+   *
+   * @param id 이동할 탭 ID
+   * @param windowId 대상 윈도우 ID
+   * @param index 대상 윈도우 내 위치 (0부터)
+   * @returns 이동 후 탭
+   */
+  async move(id: string, windowId: string, index: number): Promise<BrowserTab> {
+    return this.prisma.$transaction(async (tx) => {
+      const tab = await tx.browserTab.findUniqueOrThrow({ where: { id } });
+      const sourceWindowId = tab.windowId;
+
+      const siblings = await tx.browserTab.findMany({
+        where: { windowId },
+        orderBy: [{ isPinned: 'desc' }, { index: 'asc' }]
+      });
+
+      // 이동 후 이웃 탭 중 같은 그룹이 없으면 그룹에서 제외
+      const { ordered, moved } = placeTab(siblings, tab, index);
+      if (moved.groupId !== tab.groupId) {
+        await tx.browserTab.update({ where: { id }, data: { groupId: null } });
+      }
+
+      await writeTabOrder(tx, ordered, windowId);
+
+      if (sourceWindowId !== windowId) {
+        await normalizeWindowOrder(tx, sourceWindowId);
+      }
+      await deleteEmptyGroups(tx);
+
+      return tx.browserTab.findUniqueOrThrow({ where: { id } });
     });
   }
 
   /**
-   * 모든 탭 삭제
+   * 윈도우 ID 일괄 변경 (세션 복원 시 새 윈도우 ID로 재매핑, 트랜잭션)
+   *
+   * @param mapping 이전 윈도우 ID → 새 윈도우 ID
+   * @param fallbackWindowId 매핑에 없는 탭이 속할 윈도우 ID
+   */
+  async reassignWindows(mapping: Map<string, string>, fallbackWindowId: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const tabs = await tx.browserTab.findMany({
+        orderBy: [{ windowId: 'asc' }, { isPinned: 'desc' }, { index: 'asc' }]
+      });
+
+      // 이전 윈도우 순서를 유지한 채 새 윈도우별로 묶어서 재정렬
+      const groups = new Map<string, BrowserTab[]>();
+      for (const tab of tabs) {
+        const target = (tab.windowId && mapping.get(tab.windowId)) || fallbackWindowId;
+        const group = groups.get(target) ?? [];
+        group.push(tab);
+        groups.set(target, group);
+      }
+
+      for (const [windowId, group] of groups) {
+        await writeTabOrder(tx, sortTabOrder(group), windowId);
+      }
+    });
+  }
+
+  /**
+   * 모든 탭 삭제 (탭 그룹 포함, 트랜잭션)
    */
   async deleteAll(): Promise<{ count: number }> {
-    return this.prisma.browserTab.deleteMany();
+    return this.prisma.$transaction(async (tx) => {
+      const result = await tx.browserTab.deleteMany();
+      await tx.tabGroup.deleteMany();
+      return result;
+    });
   }
 
   /**
@@ -143,6 +274,82 @@ export class TabRepository {
     return this.prisma.browserTab.count();
   }
 
+  /**
+   * 탭 네비게이션 스택 조회 (index 오름차순)
+   */
+  async findNavigationEntries(tabId: string): Promise<TabNavigationEntry[]> {
+    return this.prisma.tabNavigationEntry.findMany({
+      where: { tabId },
+      orderBy: { index: 'asc' }
+    });
+  }
+
+  /**
+   * 네비게이션 스택의 특정 위치 항목 조회
+   */
+  async findNavigationEntry(tabId: string, index: number): Promise<TabNavigationEntry | null> {
+    return this.prisma.tabNavigationEntry.findUnique({
+      where: { tabId_index: { tabId, index } }
+    });
+  }
+
+  /**
+   * 네비게이션 스택 교체 (트랜잭션)
+   * - 같은 위치/URL의 기존 스크롤 위치는 새 값이 없으면 유지
+   * - 탭의 현재 위치(navigationIndex) 함께 갱신
+   */
+  async replaceNavigationEntries(
+    tabId: string,
+    entries: NavigationEntryInput[],
+    currentIndex: number
+  ): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.tabNavigationEntry.findMany({ where: { tabId } });
+      const byIndex = new Map(existing.map(entry => [entry.index, entry]));
+
+      await tx.tabNavigationEntry.deleteMany({ where: { tabId } });
+
+      if (entries.length > 0) {
+        await tx.tabNavigationEntry.createMany({
+          data: entries.map((entry, index) => {
+            const previous = byIndex.get(index);
+            const sameUrl = previous?.url === entry.url;
+            return {
+              tabId,
+              index,
+              url: entry.url,
+              title: entry.title,
+              pageState: entry.pageState ?? null,
+              scrollX: entry.scrollX ?? (sameUrl ? previous.scrollX : 0),
+              scrollY: entry.scrollY ?? (sameUrl ? previous.scrollY : 0),
+              timestamp: sameUrl ? previous.timestamp : new Date()
+            };
+          })
+        });
+      }
+
+      await tx.browserTab.update({
+        where: { id: tabId },
+        data: { navigationIndex: Math.max(0, currentIndex) }
+      });
+    });
+  }
+
+  /**
+   * 네비게이션 항목 스크롤 위치 갱신
+   */
+  async updateNavigationScroll(
+    tabId: string,
+    index: number,
+    scrollX: number,
+    scrollY: number
+  ): Promise<{ count: number }> {
+    return this.prisma.tabNavigationEntry.updateMany({
+      where: { tabId, index },
+      data: { scrollX, scrollY }
+    });
+  }
+
   /**
    * 임시 ID 생성
    * @returns ID 문자열
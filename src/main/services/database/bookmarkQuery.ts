@@ -0,0 +1,77 @@
+/**
+ * 북마크 검색어 파서와 태그 정규화
+ *
+ * BookmarkRepository.search가 사용하는 검색어 해석
+ * - 일반 검색어 / "따옴표" 구문: 제목, URL, 설명 부분 일치 (모두 AND)
+ * - tag:name, tag:"여러 단어": 해당 태그가 있는 북마크만 (여러 개면 모두 있어야 함)
+ * - 값이 없는 tag:는 일반 검색어로 취급
+ */
+
+/**
+ * 해석된 검색어
+ */
+export interface BookmarkSearchQuery {
+  terms: string[];
+  tags: string[];
+}
+
+const TOKEN_PATTERN = /tag:(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/gi;
+
+/**
+ * 검색어 해석
+ *
+ * @param input 사용자가 입력한 검색어
+ */
+export function parseBookmarkQuery(input: string): BookmarkSearchQuery {
+  const terms: string[] = [];
+  const tags: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, quotedTag, tag, phrase, word] = match;
+    const tagName = normalizeTagName(quotedTag ?? tag ?? '');
+
+    if (quotedTag !== undefined || tag !== undefined) {
+      if (tagName) {
+        tags.push(tagName);
+      } else if (quotedTag === undefined) {
+        terms.push(token);
+      }
+      continue;
+    }
+
+    const term = (phrase ?? word ?? '').trim();
+    if (term) {
+      terms.push(term);
+    }
+  }
+
+  return { terms, tags: [...new Set(tags)] };
+}
+
+/**
+ * 검색 조건이 하나라도 있는지 여부
+ */
+export function hasBookmarkCriteria(query: BookmarkSearchQuery): boolean {
+  return query.terms.length > 0 || query.tags.length > 0;
+}
+
+/**
+ * 태그 이름 정규화 (앞뒤 공백 제거, 연속 공백은 하나로)
+ * - 쉼표는 태그 구분자(Netscape TAGS 속성)이므로 공백으로 바꿈
+ */
+export function normalizeTagName(name: string): string {
+  return name.replace(/[,\s]+/g, ' ').trim();
+}
+
+/**
+ * 태그 목록 정규화
+ * - 쉼표로 이어진 입력은 나눔 ("a, b" → a, b)
+ * - 빈 태그 제거, 중복 제거 (처음 나온 순서 유지)
+ */
+export function normalizeTags(names: string[]): string[] {
+  const tags = names
+    .flatMap((name) => name.split(','))
+    .map(normalizeTagName)
+    .filter((name) => name.length > 0);
+  return [...new Set(tags)];
+}
@@ -0,0 +1,201 @@
+/**
+ * 북마크 트리 헬퍼
+ *
+ * BookmarkRepository / BookmarkFolderRepository가 공유하는 트랜잭션 내 트리 처리
+ * - 같은 부모 안의 폴더 위치, 같은 폴더 안의 북마크 위치를 0부터 연속으로 유지
+ * - 하위 폴더 수집 (재귀 삭제, 자기 하위로 이동 방지)
+ * - 폴더 경로 → 폴더 ID (가져오기)
+ */
+
+import { Prisma } from '@prisma/client';
+
+/**
+ * 폴더 경로의 최상위 이름 (가져오기/이전 폴더 문자열 기본값)
+ */
+const TOP_LEVEL_FOLDER_NAMES = new Set(['', 'root', 'default']);
+
+/**
+ * 목록 안의 삽입 위치 (범위를 벗어나거나 없으면 맨 뒤)
+ */
+function clampIndex(index: number | undefined, length: number): number {
+  return index === undefined || index < 0 || index > length ? length : index;
+}
+
+/**
+ * 부모 폴더 안의 다음 폴더 위치
+ */
+export async function nextFolderPosition(
+  tx: Prisma.TransactionClient,
+  parentId: string | null
+): Promise<number> {
+  return tx.bookmarkFolder.count({ where: { parentId } });
+}
+
+/**
+ * 폴더 안의 다음 북마크 위치
+ */
+export async function nextBookmarkPosition(
+  tx: Prisma.TransactionClient,
+  folderId: string | null
+): Promise<number> {
+  return tx.bookmark.count({ where: { folderId } });
+}
+
+/**
+ * 폴더를 부모 폴더의 index 위치로 이동 (같은 부모면 순서만 변경)
+ * - 새 부모와 이전 부모의 위치를 0부터 다시 기록
+ */
+export async function placeFolder(
+  tx: Prisma.TransactionClient,
+  id: string,
+  parentId: string | null,
+  index?: number
+): Promise<void> {
+  const folder = await tx.bookmarkFolder.findUniqueOrThrow({ where: { id } });
+  const siblings = await tx.bookmarkFolder.findMany({
+    where: { parentId, NOT: { id } },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+  });
+  siblings.splice(clampIndex(index, siblings.length), 0, folder);
+
+  for (const [position, sibling] of siblings.entries()) {
+    if (sibling.id === id) {
+      await tx.bookmarkFolder.update({ where: { id }, data: { parentId, position } });
+    } else if (sibling.position !== position) {
+      await tx.bookmarkFolder.update({ where: { id: sibling.id }, data: { position } });
+    }
+  }
+
+  if (folder.parentId !== parentId) {
+    await normalizeFolderOrder(tx, folder.parentId);
+  }
+}
+
+/**
+ * 북마크를 폴더의 index 위치로 이동 (같은 폴더면 순서만 변경)
+ * - 새 폴더와 이전 폴더의 위치를 0부터 다시 기록
+ */
+export async function placeBookmark(
+  tx: Prisma.TransactionClient,
+  id: string,
+  folderId: string | null,
+  index?: number
+): Promise<void> {
+  const bookmark = await tx.bookmark.findUniqueOrThrow({ where: { id } });
+  const siblings = await tx.bookmark.findMany({
+    where: { folderId, NOT: { id } },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+  });
+  siblings.splice(clampIndex(index, siblings.length), 0, bookmark);
+
+  for (const [position, sibling] of siblings.entries()) {
+    if (sibling.id === id) {
+      await tx.bookmark.update({ where: { id }, data: { folderId, position } });
+    } else if (sibling.position !== position) {
+      await tx.bookmark.update({ where: { id: sibling.id }, data: { position } });
+    }
+  }
+
+  if (bookmark.folderId !== folderId) {
+    await normalizeBookmarkOrder(tx, bookmark.folderId);
+  }
+}
+
+/**
+ * 부모 폴더 안의 폴더 위치를 0부터 연속으로 재정렬
+ */
+export async function normalizeFolderOrder(
+  tx: Prisma.TransactionClient,
+  parentId: string | null
+): Promise<void> {
+  const folders = await tx.bookmarkFolder.findMany({
+    where: { parentId },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+  });
+  for (const [position, folder] of folders.entries()) {
+    if (folder.position !== position) {
+      await tx.bookmarkFolder.update({ where: { id: folder.id }, data: { position } });
+    }
+  }
+}
+
+/**
+ * 폴더 안의 북마크 위치를 0부터 연속으로 재정렬
+ */
+export async function normalizeBookmarkOrder(
+  tx: Prisma.TransactionClient,
+  folderId: string | null
+): Promise<void> {
+  const bookmarks = await tx.bookmark.findMany({
+    where: { folderId },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+  });
+  for (const [position, bookmark] of bookmarks.entries()) {
+    if (bookmark.position !== position) {
+      await tx.bookmark.update({ where: { id: bookmark.id }, data: { position } });
+    }
+  }
+}
+
+/**
+ * 폴더와 모든 하위 폴더 ID (자기 자신 포함, 위에서 아래 순서)
+ */
+export async function collectFolderSubtree(
+  tx: Prisma.TransactionClient,
+  folderId: string
+): Promise<string[]> {
+  const ids = [folderId];
+  let level = [folderId];
+
+  while (level.length > 0) {
+    const children = await tx.bookmarkFolder.findMany({
+      where: { parentId: { in: level } },
+      select: { id: true }
+    });
+    level = children.map((child) => child.id).filter((id) => !ids.includes(id));
+    ids.push(...level);
+  }
+  return ids;
+}
+
+/**
+ * 폴더 경로 ('/'로 구분) → 폴더 ID (없는 폴더는 부모 맨 뒤에 생성)
+ * - 'root', 'default', 빈 경로는 최상위 (null)
+ *
+ * @param cache 경로 → 폴더 ID (같은 트랜잭션 안에서 재사용)
+ */
+export async function ensureFolderPath(
+  tx: Prisma.TransactionClient,
+  path: string,
+  cache: Map<string, string | null>
+): Promise<string | null> {
+  if (TOP_LEVEL_FOLDER_NAMES.has(path)) {
+    return null;
+  }
+
+  let parentId: string | null = null;
+  let current = '';
+  for (const name of path.split('/').filter((part) => part.length > 0)) {
+    current = current ? `${current}/${name}` : name;
+    const cached = cache.get(current);
+    if (cached !== undefined) {
+      parentId = cached;
+      continue;
+    }
+
+    const existing: { id: string } | null = await tx.bookmarkFolder.findFirst({
+      where: { parentId, name },
+      orderBy: { position: 'asc' },
+      select: { id: true }
+    });
+    const folder =
+      existing ??
+      (await tx.bookmarkFolder.create({
+        data: { parentId, name, position: await nextFolderPosition(tx, parentId) },
+        select: { id: true }
+      }));
+    cache.set(current, folder.id);
+    parentId = folder.id;
+  }
+  return parentId;
+}
@@ -0,0 +1,135 @@
+/**
+ * frecency 점수 계산
+ *
+ * 주소창/자주 방문한 사이트 순위에 쓰는 URL 점수 (빈도 + 최근성)
+ * - 최근 방문 샘플마다 전환 유형 보너스 × 최근성 가중치 × 체류 시간 가중치로 점수를 매김
+ * - frecency = 방문 횟수 × 샘플 평균 점수
+ * - 직접 입력(typed) 방문이 링크 클릭보다, 최근 방문이 오래된 방문보다 높음
+ * - 리다이렉트/새로고침 방문은 점수에 기여하지 않음
+ * - 오래 머문 방문은 가산, 바로 떠난 방문은 감산 (측정되지 않은 방문은 중립)
+ */
+
+import type { HistoryTransition } from '../../../shared/types/domain';
+
+/**
+ * 점수 계산에 쓰는 방문 샘플
+ */
+export interface FrecencyVisitSample {
+  visitedAt: Date;
+  transition: string;
+  dwellTimeMs?: number; // 포그라운드 체류 시간 (0 = 측정되지 않음)
+}
+
+/**
+ * 점수 계산에 사용할 최근 방문 수
+ */
+export const FRECENCY_SAMPLE_SIZE = 10;
+
+/**
+ * 재계산이 필요한 URL 표시 값
+ */
+export const FRECENCY_STALE = -1;
+
+/**
+ * 최근성 구간 (이 일수 이내 방문 → 가중치)
+ * - 마지막 구간을 지나면 OLD_VISIT_WEIGHT
+ */
+export const FRECENCY_RECENCY_BUCKETS: ReadonlyArray<{ days: number; weight: number }> = [
+  { days: 4, weight: 100 },
+  { days: 14, weight: 70 },
+  { days: 31, weight: 50 },
+  { days: 90, weight: 30 },
+];
+
+/**
+ * 체류 시간 가중치
+ * - BOUNCE_MS 미만: 바로 떠난 방문
+ * - ENGAGED_MS 이상: 오래 머문 방문
+ */
+export const FRECENCY_DWELL_BOUNCE_MS = 10 * 1000;
+export const FRECENCY_DWELL_ENGAGED_MS = 2 * 60 * 1000;
+const BOUNCE_WEIGHT = 0.5;
+const ENGAGED_WEIGHT = 1.5;
+
+const OLD_VISIT_WEIGHT = 10;
+const DECAY_MARGIN_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 전환 유형별 보너스 (%)
+ */
+const TRANSITION_BONUS: Record<HistoryTransition, number> = {
+  typed: 2000,
+  link: 100,
+  bookmark: 75,
+  reload: 0,
+  redirect: 0,
+};
+
+/**
+ * URL 하나의 frecency 계산
+ *
+ * @param visitCount 전체 방문 횟수
+ * @param samples 최근 방문 샘플 (최대 FRECENCY_SAMPLE_SIZE개)
+ * @param now 최근성 기준 시각
+ */
+export function calculateFrecency(
+  visitCount: number,
+  samples: FrecencyVisitSample[],
+  now: Date
+): number {
+  if (visitCount <= 0 || samples.length === 0) {
+    return 0;
+  }
+
+  const sampled = samples.slice(0, FRECENCY_SAMPLE_SIZE);
+  const points = sampled.reduce(
+    (sum, sample) =>
+      sum +
+      (transitionBonus(sample.transition) / 100) *
+        recencyWeight(sample.visitedAt, now) *
+        dwellWeight(sample.dwellTimeMs ?? 0),
+    0
+  );
+
+  return Math.ceil((visitCount * Math.ceil(points)) / sampled.length);
+}
+
+/**
+ * 방문 시각의 최근성 가중치
+ */
+export function recencyWeight(visitedAt: Date, now: Date): number {
+  const ageDays = (now.getTime() - visitedAt.getTime()) / DAY_MS;
+  const bucket = FRECENCY_RECENCY_BUCKETS.find((candidate) => ageDays <= candidate.days);
+  return bucket?.weight ?? OLD_VISIT_WEIGHT;
+}
+
+/**
+ * 체류 시간 가중치 (측정되지 않은 방문은 1)
+ */
+export function dwellWeight(dwellTimeMs: number): number {
+  if (dwellTimeMs <= 0) {
+    return 1;
+  }
+  if (dwellTimeMs < FRECENCY_DWELL_BOUNCE_MS) {
+    return BOUNCE_WEIGHT;
+  }
+  return dwellTimeMs >= FRECENCY_DWELL_ENGAGED_MS ? ENGAGED_WEIGHT : 1;
+}
+
+/**
+ * 재계산이 필요한 URL의 마지막 방문 하한
+ * - 마지막 구간을 지난 방문은 가중치가 고정되므로 그 이전 URL은 재계산 불필요
+ * - 앱을 한동안 실행하지 않은 경우를 고려해 여유를 둠
+ */
+export function frecencyDecaySince(now: Date): Date {
+  const lastBucket = FRECENCY_RECENCY_BUCKETS[FRECENCY_RECENCY_BUCKETS.length - 1]!;
+  return new Date(now.getTime() - (lastBucket.days + DECAY_MARGIN_DAYS) * DAY_MS);
+}
+
+/**
+ * 전환 유형 보너스 (알 수 없는 유형은 link로 취급)
+ */
+function transitionBonus(transition: string): number {
+  return TRANSITION_BONUS[transition as HistoryTransition] ?? TRANSITION_BONUS.link;
+}
@@ -0,0 +1,177 @@
+/**
+ * 히스토리 검색어 파서
+ *
+ * HistoryRepository.search가 사용하는 검색어 해석
+ * - 일반 검색어: 접두사 일치 (prisma → prismatic)
+ * - "따옴표": 구문 일치
+ * - site:example.com: 도메인(하위 도메인 포함) 필터
+ * - before:YYYY-MM-DD / after:YYYY-MM-DD: 방문 날짜 필터 (로컬 날짜 0시 기준)
+ * - 형식이 맞지 않는 연산자는 일반 검색어로 취급
+ */
+
+/**
+ * 해석된 검색어
+ */
+export interface HistorySearchQuery {
+  terms: string[];
+  phrases: string[];
+  site: string | null;
+  before: Date | null;
+  after: Date | null;
+}
+
+const TOKEN_PATTERN = /(site|before|after):(\S+)|"([^"]*)"|(\S+)/gi;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const HOST_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+const WORD_PATTERN = /[\p{L}\p{N}]/u;
+
+/**
+ * 검색어 해석
+ *
+ * @param input 사용자가 입력한 검색어
+ */
+export function parseHistoryQuery(input: string): HistorySearchQuery {
+  const query: HistorySearchQuery = {
+    terms: [],
+    phrases: [],
+    site: null,
+    before: null,
+    after: null,
+  };
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, operator, value, phrase, word] = match;
+
+    if (operator && value) {
+      const key = operator.toLowerCase();
+      const site = key === 'site' ? parseHost(value) : null;
+      const date = key !== 'site' ? parseDate(value) : null;
+
+      if (site) {
+        query.site = site;
+        continue;
+      }
+      if (date) {
+        query[key as 'before' | 'after'] = date;
+        continue;
+      }
+      addTerm(query, token);
+      continue;
+    }
+
+    if (phrase !== undefined) {
+      if (WORD_PATTERN.test(phrase)) {
+        query.phrases.push(phrase.trim());
+      }
+      continue;
+    }
+
+    addTerm(query, word ?? token);
+  }
+
+  return query;
+}
+
+/**
+ * 텍스트 검색 조건이 있는지 여부
+ */
+export function hasTextCriteria(query: HistorySearchQuery): boolean {
+  return query.terms.length > 0 || query.phrases.length > 0;
+}
+
+/**
+ * 검색 조건이 하나라도 있는지 여부
+ */
+export function hasSearchCriteria(query: HistorySearchQuery): boolean {
+  return hasTextCriteria(query) || !!query.site || !!query.before || !!query.after;
+}
+
+/**
+ * FTS5 MATCH 식 생성 (텍스트 조건이 없으면 null)
+ * - 모든 조건은 AND
+ * - 사용자 입력은 항상 문자열로 감싸 FTS5 연산자로 해석되지 않도록 함
+ */
+export function buildFtsMatch(query: HistorySearchQuery): string | null {
+  if (!hasTextCriteria(query)) {
+    return null;
+  }
+
+  const phrases = query.phrases.map((phrase) => quote(phrase));
+  const terms = query.terms.map((term) => `${quote(term)}*`);
+  return [...phrases, ...terms].join(' ');
+}
+
+/**
+ * 사이트 입력값 → 호스트 (형식이 맞지 않으면 null)
+ * - 프로토콜, *., www., 경로 제거
+ */
+export function normalizeSite(value: string): string | null {
+  return parseHost(value);
+}
+
+/**
+ * 사이트(하위 도메인 포함)와 일치하는 URL의 LIKE 패턴
+ */
+export function siteUrlPatterns(site: string): string[] {
+  const hosts = [site, `%.${site}`];
+  return hosts.flatMap((host) => [`%://${host}`, `%://${host}/%`, `%://${host}:%`]);
+}
+
+/**
+ * URL이 사이트(하위 도메인 포함)에 속하는지 여부
+ */
+export function urlMatchesSite(url: string, site: string): boolean {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return hostname === site || hostname.endsWith(`.${site}`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 일반 검색어 추가 (따옴표 제거, 문자/숫자가 없는 토큰은 무시)
+ */
+function addTerm(query: HistorySearchQuery, token: string): void {
+  const term = token.replace(/"/g, '');
+  if (WORD_PATTERN.test(term)) {
+    query.terms.push(term);
+  }
+}
+
+/**
+ * site: 값 → 호스트 (프로토콜, www., 경로 제거)
+ */
+function parseHost(value: string): string | null {
+  const host = value
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^\*\./, '')
+    .replace(/^www\./, '')
+    .split('/')[0]!;
+  return HOST_PATTERN.test(host) ? host : null;
+}
+
+/**
+ * YYYY-MM-DD → 로컬 날짜 0시
+ */
+function parseDate(value: string): Date | null {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * FTS5 문자열 리터럴
+ */
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,333 @@
+/**
+ * 여정 (Journeys) 묶기 규칙
+ *
+ * 방문을 시간과 주제로 묶어 탐색 세션을 만든다.
+ * - referrer 방문이 속한 여정이 있으면 그 여정에 합류
+ * - 아니면 유휴 간격 안에 있는 여정 중 도메인이나 제목 키워드가 겹치는 가장 최근 여정에 합류
+ * - 둘 다 없으면 새 여정 시작
+ *
+ * 라벨: 검색어 → 여러 페이지에 공통인 키워드 → 가장 많이 방문한 도메인 순으로 도출
+ */
+
+/**
+ * 같은 여정으로 이어 붙일 수 있는 최대 유휴 간격 (30분)
+ */
+export const JOURNEY_IDLE_GAP_MS = 30 * 60 * 1000;
+
+/**
+ * 여정당 대표 페이지 수
+ */
+export const JOURNEY_TOP_PAGES = 3;
+
+/**
+ * 여정당 보관할 키워드 수 (증분 묶기용)
+ */
+const MAX_KEYWORDS = 30;
+
+const MIN_KEYWORD_LENGTH = 2;
+
+const STOPWORDS = new Set(
+  `the and for with from that this your you are how what
+   www com http https html home page index new tab log
+   in on of to a an is it by at or be as`.split(/\s+/)
+);
+
+const SEARCH_QUERY_PARAMS = ['q', 'query', 'search_query', 'p', 'wd', 'text'];
+
+/**
+ * 묶을 방문 (방문 시간 오름차순으로 전달)
+ */
+export interface ClusterVisit {
+  id: string;
+  url: string;
+  title: string;
+  visitedAt: Date;
+  referrerVisitId: string | null;
+  referrerJourneyId: string | null; // 이미 저장된 여정에 속한 referrer의 여정 ID
+}
+
+/**
+ * 묶기 결과 (저장된 여정을 이어 붙인 경우 id 유지)
+ */
+export interface JourneyCluster {
+  id: string | null; // 저장된 여정 ID (새 여정은 null)
+  startedAt: Date;
+  endedAt: Date;
+  domains: string[];
+  keywords: string[];
+  visitIds: string[]; // 이번에 새로 묶인 방문
+}
+
+/**
+ * 여정 요약 계산용 방문
+ */
+export interface JourneySummaryVisit {
+  url: string;
+  title: string;
+  visitedAt: Date;
+  dwellTimeMs: number;
+}
+
+/**
+ * 여정 요약
+ */
+export interface JourneySummary {
+  label: string;
+  startedAt: Date;
+  endedAt: Date;
+  visitCount: number;
+  topPages: Array<{ url: string; title: string; visitCount: number }>;
+  domains: string[];
+  keywords: string[];
+}
+
+/**
+ * 방문들을 여정으로 묶기
+ *
+ * @param visits 새 방문 (방문 시간 오름차순)
+ * @param open 이어 붙일 수 있는 저장된 여정 (visitIds는 빈 배열)
+ * @param idleGapMs 유휴 간격
+ * @returns 방문이 추가된 여정 (저장된 여정 + 새 여정)
+ */
+export function clusterVisits(
+  visits: ClusterVisit[],
+  open: JourneyCluster[],
+  idleGapMs: number = JOURNEY_IDLE_GAP_MS
+): JourneyCluster[] {
+  const clusters = open.map((cluster) => ({ ...cluster, visitIds: [...cluster.visitIds] }));
+  const clusterByVisit = new Map<string, JourneyCluster>();
+
+  for (const visit of visits) {
+    const domain = siteDomain(visit.url);
+    const keywords = extractKeywords(visit);
+
+    const cluster =
+      findReferrerCluster(visit, clusters, clusterByVisit) ??
+      findTopicCluster(visit, domain, keywords, clusters, idleGapMs);
+
+    if (cluster) {
+      appendVisit(cluster, visit, domain, keywords);
+      clusterByVisit.set(visit.id, cluster);
+      continue;
+    }
+
+    const created: JourneyCluster = {
+      id: null,
+      startedAt: visit.visitedAt,
+      endedAt: visit.visitedAt,
+      domains: domain ? [domain] : [],
+      keywords: keywords.slice(0, MAX_KEYWORDS),
+      visitIds: [visit.id],
+    };
+    clusters.push(created);
+    clusterByVisit.set(visit.id, created);
+  }
+
+  return clusters.filter((cluster) => cluster.visitIds.length > 0);
+}
+
+/**
+ * 여정 요약 (라벨, 기간, 대표 페이지, 도메인/키워드)
+ *
+ * @param visits 여정의 모든 방문 (1개 이상)
+ */
+export function summarizeJourney(visits: JourneySummaryVisit[]): JourneySummary {
+  const sorted = [...visits].sort((a, b) => a.visitedAt.getTime() - b.visitedAt.getTime());
+  const pages = new Map<
+    string,
+    { url: string; title: string; visitCount: number; dwellTimeMs: number; lastVisitedAt: number }
+  >();
+  const domainCounts = new Map<string, number>();
+  const keywordPages = new Map<string, Set<string>>();
+  let searchQuery: string | null = null;
+
+  for (const visit of sorted) {
+    const page = pages.get(visit.url) ?? {
+      url: visit.url,
+      title: '',
+      visitCount: 0,
+      dwellTimeMs: 0,
+      lastVisitedAt: 0,
+    };
+    page.visitCount += 1;
+    page.dwellTimeMs += visit.dwellTimeMs;
+    page.lastVisitedAt = visit.visitedAt.getTime();
+    page.title = visit.title || page.title;
+    pages.set(visit.url, page);
+
+    const domain = siteDomain(visit.url);
+    if (domain) {
+      domainCounts.set(domain, (domainCounts.get(domain) ?? 0) + 1);
+    }
+
+    for (const keyword of extractKeywords(visit)) {
+      const urls = keywordPages.get(keyword) ?? new Set<string>();
+      urls.add(visit.url);
+      keywordPages.set(keyword, urls);
+    }
+
+    searchQuery = extractSearchQuery(visit.url) ?? searchQuery;
+  }
+
+  const topPages = [...pages.values()]
+    .sort(
+      (a, b) =>
+        b.visitCount - a.visitCount ||
+        b.dwellTimeMs - a.dwellTimeMs ||
+        b.lastVisitedAt - a.lastVisitedAt
+    )
+    .slice(0, JOURNEY_TOP_PAGES)
+    .map(({ url, title, visitCount }) => ({ url, title, visitCount }));
+
+  const domains = rankByCount(domainCounts);
+  const keywords = [...keywordPages.entries()]
+    .sort((a, b) => b[1].size - a[1].size)
+    .map(([keyword]) => keyword);
+  const sharedKeyword = keywords.find((keyword) => keywordPages.get(keyword)!.size >= 2);
+
+  return {
+    label: searchQuery ?? sharedKeyword ?? domains[0] ?? topPages[0]?.title ?? '',
+    startedAt: sorted[0]!.visitedAt,
+    endedAt: sorted[sorted.length - 1]!.visitedAt,
+    visitCount: sorted.length,
+    topPages,
+    domains,
+    keywords: keywords.slice(0, MAX_KEYWORDS),
+  };
+}
+
+/**
+ * URL → 사이트 도메인 (www. 제거, 등록 도메인 근사)
+ * - a.b.example.com → example.com, news.example.co.kr → example.co.kr
+ */
+export function siteDomain(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return null;
+    }
+
+    const hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const labels = hostname.split('.');
+    if (labels.length <= 2 || /^\d+$/.test(labels[labels.length - 1]!)) {
+      return hostname;
+    }
+
+    const secondLevel = labels[labels.length - 2]!;
+    const topLevel = labels[labels.length - 1]!;
+    const keep = secondLevel.length <= 3 && topLevel.length === 2 ? 3 : 2;
+    return labels.slice(-keep).join('.');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 검색 결과 페이지 URL → 검색어 (검색 페이지가 아니면 null)
+ */
+export function extractSearchQuery(url: string): string | null {
+  try {
+    const params = new URL(url).searchParams;
+    for (const name of SEARCH_QUERY_PARAMS) {
+      const value = params.get(name)?.trim();
+      if (value) {
+        return value;
+      }
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 제목과 검색어의 키워드 (소문자, 불용어/숫자 제외, 중복 제거)
+ */
+function extractKeywords(visit: { url: string; title: string }): string[] {
+  const text = `${visit.title} ${extractSearchQuery(visit.url) ?? ''}`.toLowerCase();
+  const tokens = text
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(
+      (token) => token.length >= MIN_KEYWORD_LENGTH && !STOPWORDS.has(token) && !/^\d+$/.test(token)
+    );
+  return [...new Set(tokens)];
+}
+
+/**
+ * referrer 방문이 속한 여정
+ */
+function findReferrerCluster(
+  visit: ClusterVisit,
+  clusters: JourneyCluster[],
+  clusterByVisit: Map<string, JourneyCluster>
+): JourneyCluster | null {
+  if (visit.referrerVisitId) {
+    const cluster = clusterByVisit.get(visit.referrerVisitId);
+    if (cluster) {
+      return cluster;
+    }
+  }
+  if (visit.referrerJourneyId) {
+    return clusters.find((cluster) => cluster.id === visit.referrerJourneyId) ?? null;
+  }
+  return null;
+}
+
+/**
+ * 유휴 간격 안에서 도메인이나 키워드가 겹치는 가장 최근 여정
+ */
+function findTopicCluster(
+  visit: ClusterVisit,
+  domain: string | null,
+  keywords: string[],
+  clusters: JourneyCluster[],
+  idleGapMs: number
+): JourneyCluster | null {
+  let best: JourneyCluster | null = null;
+
+  for (const cluster of clusters) {
+    if (visit.visitedAt.getTime() - cluster.endedAt.getTime() > idleGapMs) {
+      continue;
+    }
+    const sharesDomain = domain !== null && cluster.domains.includes(domain);
+    const sharesKeyword = keywords.some((keyword) => cluster.keywords.includes(keyword));
+    if (!sharesDomain && !sharesKeyword) {
+      continue;
+    }
+    if (!best || cluster.endedAt.getTime() > best.endedAt.getTime()) {
+      best = cluster;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * 여정에 방문 추가 (기간, 도메인, 키워드 갱신)
+ */
+function appendVisit(
+  cluster: JourneyCluster,
+  visit: ClusterVisit,
+  domain: string | null,
+  keywords: string[]
+): void {
+  cluster.visitIds.push(visit.id);
+  if (visit.visitedAt.getTime() > cluster.endedAt.getTime()) {
+    cluster.endedAt = visit.visitedAt;
+  }
+  if (visit.visitedAt.getTime() < cluster.startedAt.getTime()) {
+    cluster.startedAt = visit.visitedAt;
+  }
+  if (domain && !cluster.domains.includes(domain)) {
+    cluster.domains.push(domain);
+  }
+  // 최근 키워드가 앞에 오도록 유지
+  cluster.keywords = [...new Set([...keywords, ...cluster.keywords])].slice(0, MAX_KEYWORDS);
+}
+
+/**
+ * 개수 내림차순 키 목록
+ */
+function rankByCount(counts: Map<string, number>): string[] {
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([key]) => key);
+}
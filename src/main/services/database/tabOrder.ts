@@ -0,0 +1,112 @@
+/**
+ * 탭 순서 헬퍼
+ *
+ * TabRepository / TabGroupRepository가 공유하는 트랜잭션 내 탭 순서 처리
+ * - 고정 탭 우선
+ * - 같은 그룹의 탭은 연속 배치 (그룹 첫 탭 위치 기준)
+ * - 멤버가 없는 그룹 정리
+ */
+
+import { Prisma, BrowserTab } from '@prisma/client';
+
+/**
+ * 탭 순서 정렬 (각 구역 내 기존 순서 유지)
+ * - 고정 탭을 앞으로
+ * - 그룹 멤버는 그룹의 첫 탭 뒤로 모음
+ */
+export function sortTabOrder(tabs: BrowserTab[]): BrowserTab[] {
+  const pinned = tabs.filter(tab => tab.isPinned);
+  const unpinned: BrowserTab[] = [];
+  const placedGroups = new Set<string>();
+
+  for (const tab of tabs) {
+    if (tab.isPinned) continue;
+    if (!tab.groupId) {
+      unpinned.push(tab);
+      continue;
+    }
+    if (placedGroups.has(tab.groupId)) continue;
+
+    placedGroups.add(tab.groupId);
+    unpinned.push(...tabs.filter(member => !member.isPinned && member.groupId === tab.groupId));
+  }
+
+  return [...pinned, ...unpinned];
+}
+
+/**
+ * 대상 윈도우의 탭 사이에 탭 배치 (tab:move)
+ * - 고정 탭은 고정 구역, 일반 탭은 일반 구역 안으로 위치 제한
+ * - 이동 후 이웃 탭 중 같은 그룹이 없으면 그룹에서 제외
+ *
+ * @param siblings 대상 윈도우의 다른 탭 (고정 탭 우선, index 순)
+ * @param tab 이동할 탭
+ * @param index 희망 위치
+ * @returns 정렬된 새 순서와 이동 후 탭 (groupId 반영)
+ */
+export function placeTab(
+  siblings: BrowserTab[],
+  tab: BrowserTab,
+  index: number
+): { ordered: BrowserTab[]; moved: BrowserTab } {
+  const others = siblings.filter(sibling => sibling.id !== tab.id);
+  const pinnedCount = others.filter(sibling => sibling.isPinned).length;
+  const min = tab.isPinned ? 0 : pinnedCount;
+  const max = tab.isPinned ? pinnedCount : others.length;
+  const target = Math.min(Math.max(index, min), max);
+
+  const moved = { ...tab };
+  if (tab.groupId) {
+    const neighbours = [others[target - 1], others[target]];
+    if (!neighbours.some(neighbour => neighbour?.groupId === tab.groupId)) {
+      moved.groupId = null;
+    }
+  }
+
+  const ordered = [...others.slice(0, target), moved, ...others.slice(target)];
+  return { ordered: sortTabOrder(ordered), moved };
+}
+
+/**
+ * 주어진 순서대로 index/windowId 기록 (변경된 행만)
+ */
+export async function writeTabOrder(
+  tx: Prisma.TransactionClient,
+  tabs: BrowserTab[],
+  windowId: string | null
+): Promise<void> {
+  for (const [index, tab] of tabs.entries()) {
+    if (tab.index !== index || tab.windowId !== windowId) {
+      await tx.browserTab.update({
+        where: { id: tab.id },
+        data: { index, windowId }
+      });
+    }
+  }
+}
+
+/**
+ * 윈도우 내 탭 위치를 0부터 연속으로 재정렬
+ */
+export async function normalizeWindowOrder(
+  tx: Prisma.TransactionClient,
+  windowId: string | null
+): Promise<void> {
+  const tabs = await tx.browserTab.findMany({
+    where: { windowId },
+    orderBy: [{ index: 'asc' }, { createdAt: 'asc' }]
+  });
+  await writeTabOrder(tx, sortTabOrder(tabs), windowId);
+}
+
+/**
+ * 멤버 탭이 없는 그룹 삭제
+ *
+ * @returns 삭제된 그룹 수
+ */
+export async function deleteEmptyGroups(tx: Prisma.TransactionClient): Promise<number> {
+  const result = await tx.tabGroup.deleteMany({
+    where: { tabs: { none: {} } }
+  });
+  return result.count;
+}
@@ -0,0 +1,88 @@
+/**
+ * 내보내기 공통 타입과 도우미
+ *
+ * ExportService가 형식별 직렬화 모듈에 넘기는 중간 형식과
+ * 저장 위치 선택, 스트리밍 JSON 문서 작성
+ */
+
+import { dialog, type BrowserWindow } from 'electron';
+import type { FileDialogOptions } from '../../../shared/types/domain';
+
+/**
+ * 내보내기 JSON 형식 버전 (필드가 바뀌면 올림)
+ */
+export const EXPORT_FORMAT_VERSION = 3;
+
+/**
+ * 내보낼 북마크 폴더 (부모가 자식보다 먼저, 같은 부모 안에서는 위치순)
+ */
+export interface ExportedFolder {
+  id: string;
+  parentId: string | null; // null = 최상위
+  name: string;
+  createdAt: Date;
+}
+
+/**
+ * 내보낼 북마크
+ */
+export interface ExportedBookmark {
+  url: string;
+  title: string;
+  folderId: string | null; // 소속 폴더 ID (최상위 북마크는 null)
+  folder: string[]; // 최상위부터의 폴더 이름 (최상위 북마크는 빈 배열)
+  tags: string[];
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 저장 위치 선택 (취소하면 null, 테스트에서 교체 가능)
+ */
+export type SaveDialogPicker = (
+  options: FileDialogOptions,
+  owner: BrowserWindow | null
+) => Promise<string | null>;
+
+/**
+ * Electron 저장 대화상자로 저장 위치 선택
+ */
+export const showSaveDialog: SaveDialogPicker = async (options, owner) => {
+  const dialogOptions = {
+    ...(options.title && { title: options.title }),
+    ...(options.defaultPath && { defaultPath: options.defaultPath }),
+    ...(options.filters && { filters: options.filters }),
+  };
+  const result = owner
+    ? await dialog.showSaveDialog(owner, dialogOptions)
+    : await dialog.showSaveDialog(dialogOptions);
+  return result.canceled || !result.filePath ? null : result.filePath;
+};
+
+/**
+ * 메타데이터 + 항목 배열 하나로 된 JSON 문서를 조각 단위로 작성
+ * (항목은 한 줄에 하나씩)
+ *
+ * @param metadata 문서 최상위 필드 (format, version 등)
+ * @param key 항목 배열 필드 이름
+ * @param items 항목
+ */
+export async function* streamJsonDocument(
+  metadata: Record<string, unknown>,
+  key: string,
+  items: AsyncIterable<unknown> | Iterable<unknown>
+): AsyncGenerator<string> {
+  const head = Object.entries(metadata)
+    .map(([name, value]) => `  ${JSON.stringify(name)}: ${JSON.stringify(value)},\n`)
+    .join('');
+  yield `{\n${head}  ${JSON.stringify(key)}: [`;
+
+  let first = true;
+  for await (const item of items) {
+    yield `${first ? '\n' : ',\n'}    ${JSON.stringify(item)}`;
+    first = false;
+  }
+
+  yield first ? ']\n}\n' : '\n  ]\n}\n';
+}
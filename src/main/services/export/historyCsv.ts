@@ -0,0 +1,46 @@
+/**
+ * 방문 기록 CSV 쓰기 (RFC 4180)
+ *
+ * - 줄바꿈은 CRLF, 첫 줄은 헤더
+ * - 스프레드시트에서 한글이 깨지지 않도록 UTF-8 BOM으로 시작
+ * - =, +, -, @로 시작하는 텍스트는 수식으로 실행되지 않도록 ' 를 붙임
+ */
+
+import type { HistoryEntry } from '../../../shared/types/domain';
+
+const BOM = '\uFEFF';
+const LINE_BREAK = '\r\n';
+
+const HEADER = ['visited_at', 'url', 'title', 'transition', 'dwell_time_ms'];
+
+/**
+ * 방문 페이지 → CSV 조각 (페이지 단위)
+ */
+export async function* serializeHistoryCsv(
+  pages: AsyncIterable<HistoryEntry[]>
+): AsyncGenerator<string> {
+  yield BOM + HEADER.join(',') + LINE_BREAK;
+
+  for await (const entries of pages) {
+    yield entries
+      .map((entry) =>
+        [
+          new Date(entry.visitedAt).toISOString(),
+          csvField(entry.url),
+          csvField(entry.title ?? ''),
+          entry.transition ?? 'link',
+          String(entry.duration),
+        ].join(',')
+      )
+      .map((line) => line + LINE_BREAK)
+      .join('');
+  }
+}
+
+/**
+ * 텍스트 필드 (수식 방지 후 필요하면 따옴표로 감쌈)
+ */
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,115 @@
+/**
+ * Netscape 북마크 HTML 쓰기
+ *
+ * 모든 브라우저가 가져올 수 있는 표준 북마크 파일 형식
+ * - 폴더 트리 (폴더 ID로 연결)를 <DT><H3> + <DL> 중첩으로 변환
+ *   (빈 폴더, 같은 부모 안의 같은 이름 폴더도 그대로 유지)
+ * - ADD_DATE, LAST_MODIFIED는 Unix 초, TAGS는 쉼표로 구분 (Firefox)
+ * - 설명은 북마크 다음 <DD>
+ */
+
+import type { ExportedBookmark, ExportedFolder } from './common';
+
+const INDENT = '    ';
+
+interface FolderNode {
+  name: string;
+  addDate: number; // 폴더 생성 시간 (Unix 초)
+  folders: FolderNode[];
+  bookmarks: ExportedBookmark[];
+}
+
+/**
+ * 폴더/북마크 목록 → Netscape 북마크 HTML 조각 (폴더 단위)
+ * - 폴더 안에서는 하위 폴더, 북마크 순서 (각각 입력 순서 유지)
+ */
+export function* serializeNetscapeBookmarks(
+  folders: ExportedFolder[],
+  bookmarks: ExportedBookmark[]
+): Generator<string> {
+  yield [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '',
+  ].join('\n');
+
+  yield* serializeFolder(buildFolderTree(folders, bookmarks), 0);
+}
+
+/**
+ * 폴더 ID로 폴더 트리 구성 (부모나 폴더를 찾을 수 없으면 최상위에)
+ */
+function buildFolderTree(folders: ExportedFolder[], bookmarks: ExportedBookmark[]): FolderNode {
+  const root: FolderNode = { name: '', addDate: 0, folders: [], bookmarks: [] };
+  const nodes = new Map<string, FolderNode>(
+    folders.map((folder) => [
+      folder.id,
+      { name: folder.name, addDate: toUnixSeconds(folder.createdAt), folders: [], bookmarks: [] },
+    ])
+  );
+
+  for (const folder of folders) {
+    const parent = (folder.parentId !== null && nodes.get(folder.parentId)) || root;
+    parent.folders.push(nodes.get(folder.id)!);
+  }
+  for (const bookmark of bookmarks) {
+    const folder = (bookmark.folderId !== null && nodes.get(bookmark.folderId)) || root;
+    folder.bookmarks.push(bookmark);
+  }
+  return root;
+}
+
+/**
+ * 폴더 내용 (<DL> 블록) 쓰기
+ */
+function* serializeFolder(folder: FolderNode, depth: number): Generator<string> {
+  const indent = INDENT.repeat(depth);
+  yield `${indent}<DL><p>\n`;
+
+  for (const child of folder.folders) {
+    yield `${indent}${INDENT}<DT><H3 ADD_DATE="${child.addDate}">${escapeHtml(child.name)}</H3>\n`;
+    yield* serializeFolder(child, depth + 1);
+  }
+
+  for (const bookmark of folder.bookmarks) {
+    yield `${indent}${INDENT}${serializeBookmark(bookmark)}\n`;
+  }
+
+  yield `${indent}</DL><p>\n`;
+}
+
+/**
+ * 북마크 한 개 (<DT><A>, 설명이 있으면 <DD>)
+ */
+function serializeBookmark(bookmark: ExportedBookmark): string {
+  const attributes = [
+    `HREF="${escapeHtml(bookmark.url)}"`,
+    `ADD_DATE="${toUnixSeconds(bookmark.createdAt)}"`,
+    `LAST_MODIFIED="${toUnixSeconds(bookmark.updatedAt)}"`,
+    ...(bookmark.tags.length > 0 ? [`TAGS="${escapeHtml(bookmark.tags.join(','))}"`] : []),
+  ];
+  const link = `<DT><A ${attributes.join(' ')}>${escapeHtml(bookmark.title)}</A>`;
+  const description = bookmark.description?.trim();
+  return description ? `${link}\n<DD>${escapeHtml(description)}` : link;
+}
+
+function toUnixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * HTML 엔티티 인코딩 (텍스트와 속성 값 공통)
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,42 @@
+/**
+ * 파일 작업 공통 타입과 도우미
+ *
+ * FileService, ImportService 등이 쓰는 열기 대화상자 선택과 기본 허용 디렉토리
+ * (저장 대화상자는 export/common의 showSaveDialog를 함께 사용)
+ */
+
+import { app, dialog, type BrowserWindow } from 'electron';
+import type { FileDialogOptions } from '../../../shared/types/domain';
+
+/**
+ * 열 파일/폴더 선택 (취소하면 빈 배열, 테스트에서 교체 가능)
+ */
+export type OpenDialogPicker = (
+  options: FileDialogOptions,
+  owner: BrowserWindow | null
+) => Promise<string[]>;
+
+/**
+ * Electron 열기 대화상자로 파일/폴더 선택
+ */
+export const showOpenDialog: OpenDialogPicker = async (options, owner) => {
+  const dialogOptions = {
+    ...(options.title && { title: options.title }),
+    ...(options.defaultPath && { defaultPath: options.defaultPath }),
+    ...(options.filters && { filters: options.filters }),
+    properties: (options.properties ?? ['openFile']) as Array<
+      'openFile' | 'openDirectory' | 'multiSelections'
+    >,
+  };
+  const result = owner
+    ? await dialog.showOpenDialog(owner, dialogOptions)
+    : await dialog.showOpenDialog(dialogOptions);
+  return result.canceled ? [] : result.filePaths;
+};
+
+/**
+ * 대화상자 없이 읽고 쓸 수 있는 기본 디렉토리 (다운로드, 문서)
+ */
+export function getDefaultFileRoots(): string[] {
+  return [app.getPath('downloads'), app.getPath('documents')];
+}
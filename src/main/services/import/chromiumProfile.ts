@@ -0,0 +1,161 @@
+/**
+ * Chromium 프로필 읽기 (Chrome, Edge, Brave 등)
+ *
+ * - Bookmarks: JSON (roots.bookmark_bar / other / synced 트리, 태그 없음)
+ * - History: SQLite (urls, visits 테이블)
+ * - 시각은 1601-01-01 기준 마이크로초 (WebKit epoch)
+ */
+
+import type { HistoryTransition } from '../../../shared/types/domain';
+import {
+  isImportableUrl,
+  joinFolderPath,
+  type ImportedBookmark,
+  type ImportedVisit,
+  type VisitPageReader,
+} from './common';
+
+export const CHROMIUM_BOOKMARKS_FILE = 'Bookmarks';
+export const CHROMIUM_HISTORY_FILE = 'History';
+
+/**
+ * WebKit epoch (1601-01-01)과 Unix epoch의 차이 (ms)
+ */
+const WEBKIT_EPOCH_OFFSET_MS = 11644473600000;
+
+const ROOT_KEYS = ['bookmark_bar', 'other', 'synced'];
+
+/**
+ * 전환 유형 하위 8비트 (core type)
+ */
+const CORE_TRANSITIONS: Record<number, HistoryTransition> = {
+  0: 'link',
+  1: 'typed',
+  2: 'bookmark',
+  5: 'typed', // GENERATED (주소창 추천)
+  6: 'link', // AUTO_TOPLEVEL
+  7: 'link', // FORM_SUBMIT
+  8: 'reload',
+  9: 'typed', // KEYWORD
+  10: 'typed', // KEYWORD_GENERATED
+};
+
+/**
+ * 하위 프레임 방문 (AUTO_SUBFRAME, MANUAL_SUBFRAME)은 가져오지 않음
+ */
+const VISITS_SQL = `
+  SELECT v.id AS id,
+         v.from_visit AS fromVisit,
+         u.url AS url,
+         COALESCE(u.title, '') AS title,
+         (v.visit_time / 1000 - ${WEBKIT_EPOCH_OFFSET_MS}) AS visitedAt,
+         (v.transition & 255) AS coreTransition,
+         ((v.transition & 3221225472) != 0) AS redirect,
+         (v.visit_duration / 1000) AS durationMs
+    FROM visits v
+    JOIN urls u ON u.id = v.url
+   WHERE v.id > ? AND (v.transition & 255) NOT IN (3, 4)
+   ORDER BY v.id
+   LIMIT ?`;
+
+interface ChromiumBookmarkNode {
+  type?: string;
+  name?: string;
+  url?: string;
+  date_added?: string;
+  children?: ChromiumBookmarkNode[];
+}
+
+interface ChromiumVisitRow {
+  id: number | bigint;
+  fromVisit: number | bigint | null;
+  url: string;
+  title: string;
+  visitedAt: number | bigint;
+  coreTransition: number | bigint;
+  redirect: number | bigint | boolean;
+  durationMs: number | bigint | null;
+}
+
+/**
+ * Bookmarks JSON → 북마크 목록 (최상위 폴더 이름을 폴더 경로 첫 단계로 사용)
+ */
+export function parseChromiumBookmarks(json: string): ImportedBookmark[] {
+  const parsed = JSON.parse(json) as { roots?: Record<string, ChromiumBookmarkNode> };
+  if (!parsed.roots || typeof parsed.roots !== 'object') {
+    throw new Error('Chromium 북마크 파일 형식이 아닙니다');
+  }
+
+  const bookmarks: ImportedBookmark[] = [];
+  for (const key of ROOT_KEYS) {
+    const root = parsed.roots[key];
+    if (root) {
+      collectBookmarks(root, [root.name ?? key], bookmarks);
+    }
+  }
+  return bookmarks;
+}
+
+/**
+ * History 방문 페이지 읽기
+ */
+export const readChromiumVisits: VisitPageReader = async (database, afterSourceId, limit) => {
+  const rows = await database.query<ChromiumVisitRow>(VISITS_SQL, afterSourceId, limit);
+  const visits = rows
+    .filter((row) => isImportableUrl(row.url))
+    .map((row) => {
+      const fromVisit = Number(row.fromVisit ?? 0);
+      return {
+        sourceId: String(row.id),
+        referrerSourceId: fromVisit > 0 ? String(fromVisit) : null,
+        url: row.url,
+        title: row.title,
+        visitedAt: new Date(Number(row.visitedAt)),
+        transition: Number(row.redirect)
+          ? 'redirect'
+          : (CORE_TRANSITIONS[Number(row.coreTransition)] ?? 'link'),
+        dwellTimeMs: Math.max(0, Math.round(Number(row.durationMs ?? 0))),
+      } satisfies ImportedVisit;
+    });
+
+  return { visits, lastSourceId: rows.length > 0 ? Number(rows[rows.length - 1]!.id) : null };
+};
+
+/**
+ * 폴더 트리를 따라 북마크 수집
+ */
+function collectBookmarks(
+  node: ChromiumBookmarkNode,
+  folderNames: string[],
+  bookmarks: ImportedBookmark[]
+): void {
+  for (const child of node.children ?? []) {
+    if (child.type === 'folder') {
+      collectBookmarks(child, [...folderNames, child.name ?? ''], bookmarks);
+      continue;
+    }
+    if (child.type !== 'url' || !child.url || !isImportableUrl(child.url)) {
+      continue;
+    }
+
+    bookmarks.push({
+      url: child.url,
+      title: child.name || child.url,
+      folder: joinFolderPath(folderNames),
+      tags: [],
+      description: null,
+      createdAt: webkitTimeToDate(child.date_added),
+    });
+  }
+}
+
+/**
+ * WebKit 마이크로초 문자열 → Date (없거나 0이면 null)
+ */
+function webkitTimeToDate(value: string | undefined): Date | null {
+  const micros = Number(value);
+  if (!Number.isFinite(micros) || micros <= 0) {
+    return null;
+  }
+  return new Date(Math.floor(micros / 1000) - WEBKIT_EPOCH_OFFSET_MS);
+}
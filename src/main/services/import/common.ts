@@ -0,0 +1,89 @@
+/**
+ * 가져오기 공통 타입과 도우미
+ *
+ * 브라우저별 파서가 만든 결과를 ImportService가 저장할 때 사용하는 중간 형식
+ */
+
+import type { HistoryTransition } from '../../../shared/types/domain';
+
+/**
+ * 폴더가 없는 북마크의 폴더 (Bookmark.folder 기본값)
+ */
+export const IMPORT_ROOT_FOLDER = 'root';
+
+/**
+ * 폴더 경로 구분자
+ */
+export const FOLDER_PATH_SEPARATOR = '/';
+
+/**
+ * 가져온 북마크
+ */
+export interface ImportedBookmark {
+  url: string;
+  title: string;
+  folder: string; // 폴더 경로 ('/'로 구분, 예: "Bookmarks bar/Dev")
+  tags: string[];
+  description: string | null;
+  createdAt: Date | null; // 원본에 추가 시각이 없으면 null
+}
+
+/**
+ * 가져온 방문 (원본 방문 ID 순서 = 시간 순서)
+ */
+export interface ImportedVisit {
+  sourceId: string; // 원본 프로필의 방문 ID
+  referrerSourceId: string | null; // 원본 프로필의 이전 방문 ID
+  url: string;
+  title: string;
+  visitedAt: Date;
+  transition: HistoryTransition;
+  dwellTimeMs: number;
+}
+
+/**
+ * 읽기 전용 프로필 데이터베이스 (History, places.sqlite)
+ */
+export interface ProfileDatabase {
+  query<T>(sql: string, ...values: unknown[]): Promise<T[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * 프로필 데이터베이스 열기 (테스트에서 교체 가능)
+ */
+export type ProfileDatabaseOpener = (filePath: string) => Promise<ProfileDatabase>;
+
+/**
+ * 방문 한 페이지 (lastSourceId가 null이면 더 읽을 방문 없음)
+ */
+export interface VisitPage {
+  visits: ImportedVisit[]; // 가져올 수 없는 URL은 제외된 상태
+  lastSourceId: number | null; // 이번 페이지에서 읽은 마지막 원본 방문 ID
+}
+
+/**
+ * 방문 페이지 읽기 (afterSourceId 이후 최대 limit개, 원본 방문 ID 오름차순)
+ */
+export type VisitPageReader = (
+  database: ProfileDatabase,
+  afterSourceId: number,
+  limit: number
+) => Promise<VisitPage>;
+
+/**
+ * 폴더 이름 목록 → 폴더 경로 (이름 안의 구분자는 '-'로 대체)
+ */
+export function joinFolderPath(names: string[]): string {
+  const parts = names
+    .map((name) => name.trim().split(FOLDER_PATH_SEPARATOR).join('-'))
+    .filter((name) => name.length > 0);
+  return parts.length > 0 ? parts.join(FOLDER_PATH_SEPARATOR) : IMPORT_ROOT_FOLDER;
+}
+
+/**
+ * 가져올 수 있는 URL (http/https만, 길이 제한)
+ */
+export function isImportableUrl(url: string): boolean {
+  return url.length <= 2048 && /^https?:\/\/[^\s]+$/i.test(url);
+}
@@ -0,0 +1,174 @@
+/**
+ * Firefox 프로필 읽기 (places.sqlite)
+ *
+ * - 북마크: moz_bookmarks 트리 (type 1 = 북마크, 2 = 폴더)
+ * - 태그: tags 루트 아래 폴더 = 태그, 그 안의 항목 = 태그된 URL
+ * - 방문: moz_historyvisits + moz_places
+ * - 시각은 Unix 마이크로초
+ */
+
+import type { HistoryTransition } from '../../../shared/types/domain';
+import {
+  isImportableUrl,
+  joinFolderPath,
+  type ImportedBookmark,
+  type ImportedVisit,
+  type ProfileDatabase,
+  type VisitPageReader,
+} from './common';
+
+export const FIREFOX_PLACES_FILE = 'places.sqlite';
+
+const ROOT_GUID = 'root________';
+const TAGS_GUID = 'tags________';
+
+/**
+ * 최상위 폴더 표시 이름 (places.sqlite에는 내부 이름만 저장됨)
+ */
+const ROOT_FOLDER_NAMES: Record<string, string> = {
+  menu________: 'Bookmarks Menu',
+  toolbar_____: 'Bookmarks Toolbar',
+  unfiled_____: 'Other Bookmarks',
+  mobile______: 'Mobile Bookmarks',
+};
+
+/**
+ * visit_type → 전환 유형 (4 EMBED, 7 DOWNLOAD, 8 FRAMED_LINK는 가져오지 않음)
+ */
+const VISIT_TYPES: Record<number, HistoryTransition> = {
+  1: 'link',
+  2: 'typed',
+  3: 'bookmark',
+  5: 'redirect',
+  6: 'redirect',
+  9: 'reload',
+};
+
+const BOOKMARKS_SQL = `
+  SELECT b.id AS id,
+         b.type AS type,
+         b.parent AS parent,
+         COALESCE(b.title, '') AS title,
+         b.guid AS guid,
+         (b.dateAdded / 1000) AS dateAdded,
+         p.url AS url
+    FROM moz_bookmarks b
+    LEFT JOIN moz_places p ON p.id = b.fk
+   ORDER BY b.parent, b.position`;
+
+const VISITS_SQL = `
+  SELECT v.id AS id,
+         v.from_visit AS fromVisit,
+         p.url AS url,
+         COALESCE(p.title, '') AS title,
+         (v.visit_date / 1000) AS visitedAt,
+         v.visit_type AS visitType
+    FROM moz_historyvisits v
+    JOIN moz_places p ON p.id = v.place_id
+   WHERE v.id > ? AND v.visit_type IN (1, 2, 3, 5, 6, 9)
+   ORDER BY v.id
+   LIMIT ?`;
+
+interface FirefoxBookmarkRow {
+  id: number | bigint;
+  type: number | bigint;
+  parent: number | bigint;
+  title: string;
+  guid: string;
+  dateAdded: number | bigint | null;
+  url: string | null;
+}
+
+interface FirefoxVisitRow {
+  id: number | bigint;
+  fromVisit: number | bigint | null;
+  url: string;
+  title: string;
+  visitedAt: number | bigint;
+  visitType: number | bigint;
+}
+
+/**
+ * places.sqlite → 북마크 목록 (태그는 URL별로 합쳐 붙임)
+ */
+export async function readFirefoxBookmarks(database: ProfileDatabase): Promise<ImportedBookmark[]> {
+  const rows = await database.query<FirefoxBookmarkRow>(BOOKMARKS_SQL);
+  const folders = new Map<number, FirefoxBookmarkRow>();
+  for (const row of rows) {
+    if (Number(row.type) === 2) {
+      folders.set(Number(row.id), row);
+    }
+  }
+
+  const tagsRoot = [...folders.values()].find((folder) => folder.guid === TAGS_GUID);
+  const tagsByUrl = new Map<string, Set<string>>();
+  const bookmarks: ImportedBookmark[] = [];
+
+  for (const row of rows) {
+    if (Number(row.type) !== 1 || !row.url || !isImportableUrl(row.url)) {
+      continue;
+    }
+
+    const parent = folders.get(Number(row.parent));
+    if (tagsRoot && parent && Number(parent.parent) === Number(tagsRoot.id)) {
+      const tags = tagsByUrl.get(row.url) ?? new Set<string>();
+      tags.add(parent.title);
+      tagsByUrl.set(row.url, tags);
+      continue;
+    }
+
+    const dateAdded = Number(row.dateAdded ?? 0);
+    bookmarks.push({
+      url: row.url,
+      title: row.title || row.url,
+      folder: joinFolderPath(folderNames(Number(row.parent), folders)),
+      tags: [],
+      description: null,
+      createdAt: dateAdded > 0 ? new Date(dateAdded) : null,
+    });
+  }
+
+  for (const bookmark of bookmarks) {
+    bookmark.tags = [...(tagsByUrl.get(bookmark.url) ?? [])];
+  }
+  return bookmarks;
+}
+
+/**
+ * places.sqlite 방문 페이지 읽기
+ */
+export const readFirefoxVisits: VisitPageReader = async (database, afterSourceId, limit) => {
+  const rows = await database.query<FirefoxVisitRow>(VISITS_SQL, afterSourceId, limit);
+  const visits = rows
+    .filter((row) => isImportableUrl(row.url))
+    .map((row) => {
+      const fromVisit = Number(row.fromVisit ?? 0);
+      return {
+        sourceId: String(row.id),
+        referrerSourceId: fromVisit > 0 ? String(fromVisit) : null,
+        url: row.url,
+        title: row.title,
+        visitedAt: new Date(Number(row.visitedAt)),
+        transition: VISIT_TYPES[Number(row.visitType)] ?? 'link',
+        dwellTimeMs: 0,
+      } satisfies ImportedVisit;
+    });
+
+  return { visits, lastSourceId: rows.length > 0 ? Number(rows[rows.length - 1]!.id) : null };
+};
+
+/**
+ * 폴더 ID → 루트부터의 폴더 이름 목록
+ */
+function folderNames(folderId: number, folders: Map<number, FirefoxBookmarkRow>): string[] {
+  const names: string[] = [];
+  const visited = new Set<number>();
+  let current = folders.get(folderId);
+
+  while (current && current.guid !== ROOT_GUID && !visited.has(Number(current.id))) {
+    visited.add(Number(current.id));
+    names.unshift(ROOT_FOLDER_NAMES[current.guid] ?? current.title);
+    current = folders.get(Number(current.parent));
+  }
+  return names;
+}
@@ -0,0 +1,119 @@
+/**
+ * Netscape 북마크 HTML 읽기
+ *
+ * 모든 브라우저가 내보내는 표준 북마크 파일 형식
+ * - <DT><H3>폴더</H3> 다음의 <DL> 블록이 폴더 내용
+ * - <DT><A HREF ADD_DATE TAGS>제목</A> 이 북마크, 뒤따르는 <DD>가 설명
+ * - ADD_DATE는 Unix 초, TAGS는 쉼표로 구분 (Firefox)
+ */
+
+import { isImportableUrl, joinFolderPath, type ImportedBookmark } from './common';
+
+const TOKEN_PATTERN =
+  /<DL\b[^>]*>|<\/DL\s*>|<H3\b([^>]*)>([\s\S]*?)<\/H3\s*>|<A\b([^>]*)>([\s\S]*?)<\/A\s*>|<DD>([^<]*)/gi;
+
+const ATTRIBUTE_PATTERN = /([A-Z_-]+)\s*=\s*"([^"]*)"/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * 북마크 HTML → 북마크 목록 (문서 순서)
+ */
+export function parseNetscapeBookmarks(html: string): ImportedBookmark[] {
+  const bookmarks: ImportedBookmark[] = [];
+  const folders: Array<string | null> = []; // <DL> 깊이별 폴더 (최상위 <DL>은 null)
+  let pendingFolder: string | null = null;
+  let lastBookmark: ImportedBookmark | null = null;
+
+  for (const match of html.matchAll(TOKEN_PATTERN)) {
+    const token = match[0];
+
+    if (/^<DL/i.test(token)) {
+      folders.push(pendingFolder);
+      pendingFolder = null;
+      lastBookmark = null;
+    } else if (/^<\/DL/i.test(token)) {
+      folders.pop();
+      lastBookmark = null;
+    } else if (match[2] !== undefined) {
+      pendingFolder = decodeEntities(stripTags(match[2]));
+      lastBookmark = null;
+    } else if (match[3] !== undefined) {
+      const attributes = parseAttributes(match[3]);
+      const url = attributes.get('HREF') ?? '';
+      lastBookmark = null;
+      if (!isImportableUrl(url)) {
+        continue;
+      }
+
+      const addDate = Number(attributes.get('ADD_DATE'));
+      lastBookmark = {
+        url,
+        title: decodeEntities(stripTags(match[4] ?? '')) || url,
+        folder: joinFolderPath(folders.filter((name): name is string => name !== null)),
+        tags: parseTags(attributes.get('TAGS')),
+        description: null,
+        createdAt: Number.isFinite(addDate) && addDate > 0 ? new Date(addDate * 1000) : null,
+      };
+      bookmarks.push(lastBookmark);
+    } else if (match[5] !== undefined && lastBookmark) {
+      const description = decodeEntities(match[5]).trim();
+      lastBookmark.description = description || null;
+      lastBookmark = null;
+    }
+  }
+
+  return bookmarks;
+}
+
+/**
+ * 태그 속성 → 태그 목록 (공백 제거, 중복 제거)
+ */
+function parseTags(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  const tags = decodeEntities(value)
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+  return [...new Set(tags)];
+}
+
+/**
+ * 태그 속성 문자열 → 이름(대문자) → 값
+ */
+function parseAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const [, name, value] of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes.set(name!.toUpperCase(), decodeEntities(value!));
+  }
+  return attributes;
+}
+
+function stripTags(text: string): string {
+  return text.replace(/<[^>]*>/g, '').trim();
+}
+
+/**
+ * HTML 엔티티 디코딩 (이름 엔티티 일부 + 숫자 엔티티)
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value =
+        code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * 프로필 데이터베이스 읽기
+ *
+ * 다른 브라우저의 SQLite 파일 (Chromium History, Firefox places.sqlite)을
+ * 임시 폴더에 복사해 읽기 전용으로 연다.
+ * - 실행 중인 브라우저가 파일을 잠그고 있어도 읽을 수 있도록 복사본 사용
+ * - WAL/저널 파일도 함께 복사해 커밋된 최신 내용 반영
+ * - Prisma raw query 사용 (모델 정의 없이 원본 테이블 조회)
+ */
+
+import { copyFile } from 'fs/promises';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { createTempDirSafe, removeDirSafe } from '../../../shared/platform';
+import type { ProfileDatabase } from './common';
+
+const SIDECAR_SUFFIXES = ['-wal', '-journal'];
+
+/**
+ * 프로필 SQLite 파일 열기 (복사본)
+ *
+ * @param filePath 원본 SQLite 파일 경로
+ */
+export async function openProfileDatabase(filePath: string): Promise<ProfileDatabase> {
+  const tempDir = createTempDirSafe('aside-import-');
+
+  try {
+    const copyPath = path.join(tempDir, path.basename(filePath));
+    await copyFile(filePath, copyPath);
+    for (const suffix of SIDECAR_SUFFIXES) {
+      await copyFile(`${filePath}${suffix}`, `${copyPath}${suffix}`).catch(() => undefined);
+    }
+
+    const prisma = new PrismaClient({
+      datasources: {
+        db: {
+          url: `file:${copyPath}`,
+        },
+      },
+    });
+
+    return {
+      query: <T>(sql: string, ...values: unknown[]) => prisma.$queryRawUnsafe<T[]>(sql, ...values),
+      close: async () => {
+        await prisma.$disconnect();
+        removeDirSafe(tempDir);
+      },
+    };
+  } catch (error) {
+    removeDirSafe(tempDir);
+    throw error;
+  }
+}
@@ -9,16 +9,49 @@ import { TabService } from './TabService';
 import { HistoryService } from './HistoryService';
 import { BookmarkService } from './BookmarkService';
 import { WindowService } from './WindowService';
+import { NavigationService } from './NavigationService';
+import { SessionService } from './SessionService';
+import { TabGroupService } from './TabGroupService';
+import { TaskManagerService } from './TaskManagerService';
+import { HistoryRetentionService } from './HistoryRetentionService';
+import { BrowsingDataService } from './BrowsingDataService';
+import { HistoryClusteringService } from './HistoryClusteringService';
+import { DwellTimeService } from './DwellTimeService';
+import { ImportService } from './ImportService';
+import { ExportService } from './ExportService';
+import { SettingsReactorService } from './SettingsReactorService';
+import { SiteSettingsService } from './SiteSettingsService';
+import { SettingsProfileService } from './SettingsProfileService';
+import { FileService } from './FileService';
+import type { SettingsService } from './SettingsService';
+import { CacheSizeApplier, LanguageApplier, ThemeApplier, ZoomApplier } from './settings/appliers';
 import { TabManager } from '../managers/TabManager';
 import { HistoryManager } from '../managers/HistoryManager';
 import { ResourceManager } from '../managers/ResourceManager';
+import { TabViewManager } from '../managers/TabViewManager';
 import { WindowManager } from '../core/window';
 import { DatabaseService } from './database/DatabaseService';
+import { getTabEnforcer } from '../../shared/system/enforcers/tab';
 
 export { TabService } from './TabService';
 export { HistoryService } from './HistoryService';
 export { BookmarkService } from './BookmarkService';
 export { WindowService } from './WindowService';
+export { NavigationService } from './NavigationService';
+export { SessionService } from './SessionService';
+export { TabGroupService } from './TabGroupService';
+export { TaskManagerService } from './TaskManagerService';
+export { HistoryRetentionService } from './HistoryRetentionService';
+export { BrowsingDataService } from './BrowsingDataService';
+export { HistoryClusteringService } from './HistoryClusteringService';
+export { DwellTimeService } from './DwellTimeService';
+export { ImportService } from './ImportService';
+export { ExportService } from './ExportService';
+export { SettingsService } from './SettingsService';
+export { SettingsReactorService } from './SettingsReactorService';
+export { SiteSettingsService } from './SiteSettingsService';
+export { SettingsProfileService } from './SettingsProfileService';
+export { FileService } from './FileService';
 
 /**
  * 모든 서비스 인스턴스 생성 함수
@@ -28,19 +61,103 @@ export function initializeAllServices(
   tabManager: TabManager,
   historyManager: HistoryManager,
   resourceManager: ResourceManager,
+  tabViewManager: TabViewManager,
   windowManager: WindowManager,
-  databaseService: DatabaseService
+  databaseService: DatabaseService,
+  settingsService: SettingsService
 ) {
-  const tabService = new TabService(tabManager, resourceManager);
-  const historyService = new HistoryService(historyManager);
-  const bookmarkService = BookmarkService.create(databaseService.getBookmarkRepository());
+  const taskManagerService = new TaskManagerService(tabManager, tabViewManager);
+  const tabService = new TabService(
+    tabManager,
+    resourceManager,
+    tabViewManager,
+    databaseService.getRecentlyClosedRepository(),
+    getTabEnforcer(),
+    taskManagerService,
+    windowManager
+  );
+  const historyClusteringService = new HistoryClusteringService(
+    databaseService.getJourneyRepository()
+  );
+  const historyService = new HistoryService(historyManager, historyClusteringService);
+  const historyRetentionService = new HistoryRetentionService(historyManager, {
+    get: async () => settingsService.getAll(),
+  });
+  const browsingDataService = new BrowsingDataService(
+    historyManager,
+    databaseService.getRecentlyClosedRepository(),
+    databaseService.getSessionRepository()
+  );
+  const dwellTimeService = new DwellTimeService(historyManager, tabViewManager, windowManager);
+  const importService = new ImportService(historyManager, databaseService.getBookmarkRepository());
+  const exportService = new ExportService(
+    historyManager,
+    databaseService.getBookmarkRepository(),
+    databaseService.getBookmarkFolderRepository()
+  );
+  const bookmarkService = BookmarkService.create(
+    databaseService.getBookmarkRepository(),
+    databaseService.getBookmarkFolderRepository()
+  );
   const windowService = new WindowService(windowManager);
+  const siteSettingsService = SiteSettingsService.create(
+    databaseService.getSiteSettingRepository(),
+    settingsService
+  );
+  tabViewManager.setSitePolicy(siteSettingsService);
+  const settingsProfileService = new SettingsProfileService(
+    databaseService.getSettingsProfileRepository(),
+    settingsService,
+    siteSettingsService
+  );
+  const fileService = FileService.create();
+  const zoomApplier = new ZoomApplier(tabViewManager, siteSettingsService);
+  const navigationService = new NavigationService(
+    tabService,
+    tabManager,
+    tabViewManager,
+    zoomApplier
+  );
+  const settingsReactorService = new SettingsReactorService(settingsService, [
+    new ThemeApplier(),
+    zoomApplier,
+    new LanguageApplier(),
+    new CacheSizeApplier(),
+  ]);
+  const tabGroupService = new TabGroupService(
+    databaseService.getTabGroupRepository(),
+    tabService,
+    tabManager,
+    tabViewManager
+  );
+  const sessionService = new SessionService(
+    tabService,
+    tabGroupService,
+    tabManager,
+    tabViewManager,
+    windowManager,
+    databaseService.getSessionRepository()
+  );
 
   return {
     tabService,
     historyService,
     bookmarkService,
     windowService,
+    navigationService,
+    sessionService,
+    tabGroupService,
+    taskManagerService,
+    historyRetentionService,
+    browsingDataService,
+    historyClusteringService,
+    dwellTimeService,
+    importService,
+    exportService,
+    settingsService,
+    settingsReactorService,
+    siteSettingsService,
+    settingsProfileService,
+    fileService,
   };
 }
-
@@ -0,0 +1,277 @@
+/**
+ * 설정 적용기 (settings:changed → 실행 중인 앱에 반영)
+ *
+ * 설정 키마다 값이 실제로 쓰이는 곳에 적용
+ * - theme → nativeTheme.themeSource
+ * - zoomLevel → 새 탭 기본 줌 (사이트별 줌이 있으면 그 값 우선)
+ * - language → 에러 메시지 로케일
+ * - cacheSize → 디스크 캐시 한도 (다음 시작의 disk-cache-size 스위치 + 주기적 확인)
+ *
+ * 각 적용기는 필요한 Electron 기능만 좁은 인터페이스로 받음 (테스트에서 가짜 객체로 교체)
+ */
+
+import { nativeTheme, session } from 'electron';
+import { LoggerImpl, type ILogger, LogLevel } from '../../../shared/logger';
+import { LIMITS } from '../../../shared/constants';
+import { setErrorLocale } from '../../../shared/errors';
+import type { AppLanguage, AppSettings, SettingKey } from '../../../shared/types/domain';
+import { EventBus } from '../../core/EventBus';
+import { toSiteOrigin } from '../site/sitePermissions';
+import { writeStartupSwitches, type StartupSwitches } from './startupSwitches';
+
+/**
+ * 설정 적용기
+ */
+export interface SettingsApplier {
+  readonly name: string;
+  readonly keys: readonly SettingKey[]; // 이 키가 바뀌면 apply 호출
+  apply(settings: AppSettings): void | Promise<void>;
+  start?(): void;
+  stop?(): void;
+}
+
+/**
+ * 테마 적용기
+ */
+export class ThemeApplier implements SettingsApplier {
+  public readonly name = 'theme';
+  public readonly keys = ['theme'] as const;
+
+  constructor(private theme: { themeSource: 'system' | 'light' | 'dark' } = nativeTheme) {}
+
+  public apply(settings: AppSettings): void {
+    this.theme.themeSource = settings.theme === 'auto' ? 'system' : settings.theme;
+  }
+}
+
+/**
+ * 언어 적용기 (에러 메시지 로케일)
+ */
+export class LanguageApplier implements SettingsApplier {
+  public readonly name = 'language';
+  public readonly keys = ['language'] as const;
+
+  constructor(private setLocale: (locale: AppLanguage) => void = setErrorLocale) {}
+
+  public apply(settings: AppSettings): void {
+    this.setLocale(settings.language);
+  }
+}
+
+/**
+ * 캐시 한도 확인 주기 (10분)
+ */
+const CACHE_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * 캐시 한도 적용기
+ * - Chromium 디스크 캐시 최대 크기는 app ready 전의 disk-cache-size 스위치로만 정할 수 있어
+ *   적용된 값을 시작 스위치 파일에 기록 (다음 시작부터 반영, settings/startupSwitches)
+ * - 실행 중에 바꾼 한도는 스위치에 반영되지 않으므로 주기적으로 캐시 크기를 확인해 넘으면 비움
+ *   (한도를 적용할 때도 바로 확인하므로 낮춘 한도는 다음 주기를 기다리지 않음)
+ */
+export class CacheSizeApplier implements SettingsApplier {
+  public readonly name = 'cacheSize';
+  public readonly keys = ['cacheSize'] as const;
+  private logger: ILogger;
+  private quota: number | null = null; // bytes
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking = false;
+
+  constructor(
+    private getSession: () => {
+      getCacheSize(): Promise<number>;
+      clearCache(): Promise<void>;
+    } = () => session.defaultSession,
+    private saveSwitches: (switches: StartupSwitches) => Promise<void> = writeStartupSwitches,
+    private intervalMs: number = CACHE_CHECK_INTERVAL_MS
+  ) {
+    this.logger = new LoggerImpl('CacheSizeApplier', LogLevel.INFO);
+  }
+
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.enforceQuota();
+    }, this.intervalMs);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public async apply(settings: AppSettings): Promise<void> {
+    this.quota = settings.cacheSize * 1024 * 1024;
+    await this.saveSwitches({ cacheSize: settings.cacheSize });
+    void this.enforceQuota();
+  }
+
+  /**
+   * 캐시가 한도를 넘으면 비우기 (주기 실행, 실패는 로그만)
+   */
+  public async enforceQuota(): Promise<void> {
+    if (this.quota === null || this.checking) {
+      return;
+    }
+
+    this.checking = true;
+    try {
+      const quota = this.quota;
+      const target = this.getSession();
+      const size = await target.getCacheSize();
+      if (size <= quota) {
+        return;
+      }
+
+      await target.clearCache();
+      this.logger.info('CacheSizeApplier: Cache cleared (over quota)', {
+        module: 'CacheSizeApplier',
+        metadata: { size, quota },
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error('CacheSizeApplier: Failed to check cache size', err);
+    } finally {
+      this.checking = false;
+    }
+  }
+}
+
+/**
+ * 줌 대상 탭 (TabViewManager)
+ */
+export interface ZoomTabSource {
+  getTabIds(): string[];
+  getWebContents(tabId: string): {
+    getURL(): string;
+    setZoomFactor(factor: number): void;
+  } | null;
+}
+
+/**
+ * 사이트별 줌 저장소 (SiteSettingsService)
+ */
+export interface SiteZoomStore {
+  getZoomLevel(origin: string): number | null;
+  setZoomLevel(origin: string, zoomLevel: number | null): Promise<void>;
+}
+
+/**
+ * 줌 적용기
+ * - 설정 zoomLevel = 기본 줌 (새 탭, 사이트별 줌이 없는 열린 탭)
+ * - 사이트별 줌: 사용자가 줌을 바꾼 origin에 저장, 그 origin으로 이동할 때마다 적용
+ * - 사이트 설정이 바뀌면 (site:settingsChanged) 그 사이트 탭에 다시 적용
+ */
+export class ZoomApplier implements SettingsApplier {
+  public readonly name = 'zoom';
+  public readonly keys = ['zoomLevel'] as const;
+  private defaultZoom: number = LIMITS.DEFAULT_ZOOM;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(
+    private tabs: ZoomTabSource,
+    private siteZoom: SiteZoomStore
+  ) {}
+
+  /**
+   * 탭 네비게이션, 사이트 설정 변경마다 해당 사이트 줌 적용
+   */
+  public start(): void {
+    if (this.unsubscribers.length > 0) {
+      return;
+    }
+    const eventBus = EventBus.getInstance();
+    this.unsubscribers.push(
+      eventBus.on('tab:navigated', (data: { tabId: string; url: string }) =>
+        this.applyToTab(data.tabId, data.url)
+      ),
+      eventBus.on('site:settingsChanged', (data: { origin: string }) =>
+        this.applyToAllTabs(data.origin)
+      )
+    );
+  }
+
+  public stop(): void {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+  }
+
+  public apply(settings: AppSettings): void {
+    this.defaultZoom = settings.zoomLevel;
+    this.applyToAllTabs();
+  }
+
+  /**
+   * URL에 적용할 줌 배율 (사이트별 줌 → 기본 줌)
+   */
+  public getZoomForUrl(url: string): number {
+    const origin = toSiteOrigin(url);
+    return (origin ? this.siteZoom.getZoomLevel(origin) : null) ?? this.defaultZoom;
+  }
+
+  /**
+   * 사이트별 줌 저장 (기본 줌과 같으면 삭제) 후 같은 사이트 탭에 적용
+   */
+  public setSiteZoom(url: string, factor: number): void {
+    const origin = toSiteOrigin(url);
+    if (!origin) {
+      return;
+    }
+
+    this.saveSiteZoom(origin, factor === this.defaultZoom ? null : factor);
+    this.applyToAllTabs(origin, factor);
+  }
+
+  /**
+   * 사이트별 줌 삭제 (기본 줌으로)
+   */
+  public clearSiteZoom(url: string): void {
+    const origin = toSiteOrigin(url);
+    if (!origin) {
+      return;
+    }
+
+    this.saveSiteZoom(origin, null);
+    this.applyToAllTabs(origin, this.defaultZoom);
+  }
+
+  /**
+   * 사이트별 줌 저장 (저장 완료 전에도 탭에는 바로 적용, 실패는 저장소가 로그)
+   *
+   * @private
+   */
+  private saveSiteZoom(origin: string, zoomLevel: number | null): void {
+    this.siteZoom.setZoomLevel(origin, zoomLevel).catch(() => undefined);
+  }
+
+  /**
+   * 열린 탭에 줌 적용 (origin을 주면 그 사이트 탭만)
+   *
+   * @private
+   * @param factor 적용할 배율 (생략 시 탭 URL 기준으로 계산)
+   */
+  private applyToAllTabs(origin?: string, factor?: number): void {
+    for (const tabId of this.tabs.getTabIds()) {
+      const url = this.tabs.getWebContents(tabId)?.getURL() ?? '';
+      if (origin === undefined || toSiteOrigin(url) === origin) {
+        this.applyToTab(tabId, url, factor);
+      }
+    }
+  }
+
+  /**
+   * 탭 하나에 줌 적용
+   *
+   * @private
+   */
+  private applyToTab(tabId: string, url: string, factor: number = this.getZoomForUrl(url)): void {
+    this.tabs.getWebContents(tabId)?.setZoomFactor(factor);
+  }
+}
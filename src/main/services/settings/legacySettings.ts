@@ -0,0 +1,53 @@
+/**
+ * 이전 설정 파일 읽기 (마이그레이션 전용)
+ *
+ * SettingsService 이전에 설정을 저장하던 JSON 파일
+ * - ConfigManager: ~/.config/aside/config.json (Linux), appData/Aside/config.json (macOS, Windows)
+ * - ConfigService (electron-store): userData/config.json
+ *
+ * 두 경로가 같을 수 있음 (Linux에서 userData = ~/.config/aside)
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { app } from 'electron';
+
+/**
+ * 이전 설정 파일 경로 (우선순위 낮은 것부터, 중복 제거)
+ */
+export function legacySettingsPaths(): string[] {
+  const configManagerDir =
+    process.platform === 'darwin' || process.platform === 'win32'
+      ? path.join(app.getPath('appData'), 'Aside')
+      : path.join(os.homedir(), '.config', 'aside');
+
+  return [
+    ...new Set([
+      path.join(app.getPath('userData'), 'config.json'),
+      path.join(configManagerDir, 'config.json'),
+    ]),
+  ];
+}
+
+/**
+ * 이전 설정 파일 내용 (없거나 JSON 객체가 아니면 건너뜀)
+ *
+ * @param paths 읽을 파일 (우선순위 낮은 것부터)
+ */
+export async function readLegacySettings(
+  paths: string[] = legacySettingsPaths()
+): Promise<Record<string, unknown>[]> {
+  const documents: Record<string, unknown>[] = [];
+  for (const filePath of paths) {
+    try {
+      const parsed: unknown = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        documents.push(parsed as Record<string, unknown>);
+      }
+    } catch {
+      // 파일이 없거나 깨졌으면 기본값/DB 값 사용
+    }
+  }
+  return documents;
+}
@@ -0,0 +1,207 @@
+/**
+ * 설정 묶음 (내보내기/가져오기 파일) 형식
+ *
+ * 설정 (단축키 keyboardShortcuts 포함)과 사이트별 줌/권한을 JSON 파일 하나로
+ * - data를 키 정렬한 JSON의 SHA-256 체크섬으로 손상/수정 확인
+ * - 읽기: 형식, 버전, 체크섬이 맞지 않으면 파일 전체 거부
+ *   그 안의 설정 키와 사이트는 하나씩 검증해 잘못된 항목만 건너뜀
+ * - 이전 설정 문서 버전으로 만든 묶음은 migrateSettings로 올린 뒤 검증
+ */
+
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { LIMITS } from '../../../shared/constants';
+import { ValidationError } from '../../../shared/errors';
+import type {
+  AppSettings,
+  SitePermission,
+  SitePermissionState,
+  SiteSettings,
+  SettingsImportIssue,
+} from '../../../shared/types/domain';
+import { SITE_PERMISSIONS, toSiteOrigin } from '../site/sitePermissions';
+import { SETTINGS_VERSION, migrateSettings, validateSettingsPatch } from './settingsSchema';
+
+/**
+ * 설정 묶음 형식 이름과 버전 (필드가 바뀌면 버전을 올림)
+ */
+export const SETTINGS_BUNDLE_FORMAT = 'aside-settings';
+export const SETTINGS_BUNDLE_VERSION = 1;
+
+/**
+ * 묶음에 담는 사이트별 설정 (origin, 줌, 권한)
+ */
+export type BundledSiteSettings = Omit<SiteSettings, 'updatedAt'>;
+
+/**
+ * 설정 묶음 파일
+ */
+export interface SettingsBundle {
+  format: typeof SETTINGS_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  profile: string | null; // 내보낼 때 사용 중이던 프로필 이름
+  checksum: string; // data의 SHA-256 (hex)
+  data: {
+    settingsVersion: number;
+    settings: AppSettings;
+    siteSettings: BundledSiteSettings[];
+  };
+}
+
+/**
+ * 읽은 설정 묶음 (검증을 통과한 항목만)
+ */
+export interface ParsedSettingsBundle {
+  profile: string | null;
+  settings: Partial<AppSettings>;
+  sites: BundledSiteSettings[];
+  skipped: SettingsImportIssue[];
+}
+
+const BundleSchema = z.object({
+  format: z.literal(SETTINGS_BUNDLE_FORMAT),
+  version: z.number().int().min(1).max(SETTINGS_BUNDLE_VERSION),
+  exportedAt: z.string(),
+  profile: z.string().nullable(),
+  checksum: z.string().regex(/^[0-9a-f]{64}$/),
+  data: z.object({
+    settingsVersion: z.number().int().min(0).max(SETTINGS_VERSION),
+    settings: z.record(z.string(), z.unknown()),
+    siteSettings: z.array(z.unknown()),
+  }),
+});
+
+const SiteEntrySchema = z.object({
+  origin: z
+    .string()
+    .refine((origin) => toSiteOrigin(origin) === origin, '사이트 origin이 아닙니다'),
+  zoomLevel: z.number().min(LIMITS.MIN_ZOOM).max(LIMITS.MAX_ZOOM).nullable(),
+  permissions: z
+    .record(z.string(), z.enum(['ask', 'allow', 'block']))
+    .refine(
+      (permissions) =>
+        Object.keys(permissions).every((key) => SITE_PERMISSIONS.includes(key as SitePermission)),
+      '알 수 없는 권한이 있습니다'
+    ),
+});
+
+/**
+ * 설정 묶음 만들기
+ *
+ * @param settings 현재 설정
+ * @param sites 사이트별 설정
+ * @param profile 사용 중인 프로필 이름
+ */
+export function createSettingsBundle(
+  settings: AppSettings,
+  sites: SiteSettings[],
+  profile: string | null
+): SettingsBundle {
+  const data: SettingsBundle['data'] = {
+    settingsVersion: SETTINGS_VERSION,
+    settings,
+    siteSettings: sites.map(({ origin, zoomLevel, permissions }) => ({
+      origin,
+      zoomLevel,
+      permissions,
+    })),
+  };
+
+  return {
+    format: SETTINGS_BUNDLE_FORMAT,
+    version: SETTINGS_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile,
+    checksum: checksumOf(data),
+    data,
+  };
+}
+
+/**
+ * 설정 묶음 읽기
+ *
+ * @param text 파일 내용
+ * @returns 검증을 통과한 설정/사이트와 건너뛴 항목
+ * @throws ValidationError - JSON, 형식, 버전, 체크섬 오류
+ */
+export function parseSettingsBundle(text: string): ParsedSettingsBundle {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ValidationError('설정 파일이 JSON 형식이 아닙니다');
+  }
+
+  const result = BundleSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ValidationError('설정 파일 형식이 올바르지 않습니다', {
+      reason: result.error.issues[0]?.message ?? '',
+    });
+  }
+
+  const bundle = result.data;
+  // 체크섬은 스키마가 걸러내기 전의 원본 data로 계산
+  if (checksumOf((raw as { data: unknown }).data) !== bundle.checksum) {
+    throw new ValidationError('설정 파일이 손상되었거나 수정되었습니다 (체크섬 불일치)');
+  }
+
+  const skipped: SettingsImportIssue[] = [];
+
+  const settings: Record<string, unknown> = {};
+  const document = migrateSettings(bundle.data.settings, bundle.data.settingsVersion, []);
+  for (const [key, value] of Object.entries(document)) {
+    try {
+      Object.assign(settings, validateSettingsPatch({ [key]: value }));
+    } catch (error) {
+      skipped.push({
+        section: 'settings',
+        key,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const sites: BundledSiteSettings[] = [];
+  bundle.data.siteSettings.forEach((entry, index) => {
+    const site = SiteEntrySchema.safeParse(entry);
+    if (site.success) {
+      sites.push({
+        origin: site.data.origin,
+        zoomLevel: site.data.zoomLevel,
+        permissions: site.data.permissions as Partial<Record<SitePermission, SitePermissionState>>,
+      });
+    } else {
+      const origin = (entry as { origin?: unknown } | null)?.origin;
+      skipped.push({
+        section: 'siteSettings',
+        key: typeof origin === 'string' ? origin : `#${index}`,
+        reason: site.error.issues[0]?.message ?? '',
+      });
+    }
+  });
+
+  return { profile: bundle.profile, settings: settings as Partial<AppSettings>, sites, skipped };
+}
+
+/**
+ * 키를 정렬한 JSON의 SHA-256 (파일을 다시 들여쓰기해도 같은 값)
+ */
+function checksumOf(value: unknown): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,204 @@
+/**
+ * 설정 스키마, 기본값, 버전 마이그레이션
+ *
+ * SettingsService가 저장하는 설정 문서 (AppSettings.data JSON)의 형식
+ * - 저장된 문서 읽기: 키마다 검증하고 잘못된 값은 기본값으로 (문서 하나가 깨져도 나머지는 유지)
+ * - 쓰기 검증: 알 수 없는 키나 잘못된 값이 하나라도 있으면 전체 거부
+ * - 버전 마이그레이션: 저장된 version부터 SETTINGS_VERSION까지 순서대로 적용
+ */
+
+import { z } from 'zod';
+import { ValidationError } from '../../../shared/errors';
+import type { AppSettings, SettingKey } from '../../../shared/types/domain';
+
+/**
+ * 현재 설정 문서 버전 (형식이 바뀌면 올리고 SETTINGS_MIGRATIONS에 단계 추가)
+ */
+export const SETTINGS_VERSION = 1;
+
+/**
+ * 시작 페이지: about:blank 또는 http(s) URL
+ */
+const startPageSchema = z
+  .string()
+  .max(2048)
+  .refine((value) => {
+    if (value === 'about:blank') {
+      return true;
+    }
+    try {
+      return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+      return false;
+    }
+  });
+
+/**
+ * 단축키 덮어쓰기: 명령 ID (예: "tab.new") → Electron accelerator (빈 문자열 = 끔)
+ */
+const keyboardShortcutsSchema = z
+  .record(
+    z
+      .string()
+      .max(64)
+      .regex(/^[a-z][A-Za-z0-9]*(\.[a-z][A-Za-z0-9]*)*$/),
+    z
+      .string()
+      .max(64)
+      .regex(/^$|^([A-Za-z]+\+)*[^+\s]+$/)
+  )
+  .refine((shortcuts) => Object.keys(shortcuts).length <= 200);
+
+/**
+ * 설정 스키마 (키별)
+ */
+export const SettingsSchema = z.object({
+  theme: z.enum(['light', 'dark', 'auto']),
+  zoomLevel: z.number().min(0.5).max(3),
+  language: z.enum(['en', 'ko', 'ja', 'zh']),
+  startPage: startPageSchema,
+  restorePreviousSession: z.boolean(),
+  enableNotifications: z.boolean(),
+  enableCookies: z.boolean(),
+  cacheSize: z.number().int().min(100).max(5000),
+  historyAutoDeleteDays: z.number().int().min(0).max(3650),
+  keyboardShortcuts: keyboardShortcutsSchema,
+});
+
+/**
+ * 기본 설정값
+ */
+export const DEFAULT_SETTINGS: Readonly<AppSettings> = Object.freeze({
+  theme: 'auto',
+  zoomLevel: 1.0,
+  language: 'en',
+  startPage: 'about:blank',
+  restorePreviousSession: true,
+  enableNotifications: true,
+  enableCookies: true,
+  cacheSize: 500,
+  historyAutoDeleteDays: 0,
+  keyboardShortcuts: Object.freeze({}),
+});
+
+/**
+ * 모든 설정 키
+ */
+export const SETTING_KEYS = Object.keys(SettingsSchema.shape) as SettingKey[];
+
+/**
+ * 설정 키 여부
+ */
+export function isSettingKey(key: string): key is SettingKey {
+  return Object.prototype.hasOwnProperty.call(SettingsSchema.shape, key);
+}
+
+/**
+ * 설정값 비교 (단축키 같은 객체 값은 키 순서와 상관없이 내용으로)
+ */
+export function isSameSettingValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  return (
+    keys.length === Object.keys(right).length &&
+    keys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(right, key) &&
+        isSameSettingValue(left[key], right[key])
+    )
+  );
+}
+
+/**
+ * 저장된 설정 문서 → 설정 (빠졌거나 잘못된 키는 기본값)
+ */
+export function readSettings(document: Record<string, unknown>): AppSettings {
+  const settings: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+  for (const key of SETTING_KEYS) {
+    const result = SettingsSchema.shape[key].safeParse(document[key]);
+    if (result.success) {
+      settings[key] = result.data;
+    }
+  }
+  return settings as unknown as AppSettings;
+}
+
+/**
+ * 설정 변경 검증 (하나라도 잘못되면 ValidationError)
+ *
+ * @param patch 키 → 새 값
+ * @returns 검증된 변경 내용
+ */
+export function validateSettingsPatch(patch: Record<string, unknown>): Partial<AppSettings> {
+  const validated: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (!isSettingKey(key)) {
+      throw new ValidationError(`알 수 없는 설정입니다: ${key}`, { key });
+    }
+    const result = SettingsSchema.shape[key].safeParse(value);
+    if (!result.success) {
+      throw new ValidationError(`설정값이 올바르지 않습니다: ${key}`, {
+        key,
+        reason: result.error.issues[0]?.message ?? '',
+      });
+    }
+    validated[key] = result.data;
+  }
+  return validated as Partial<AppSettings>;
+}
+
+/**
+ * 버전 마이그레이션 단계 (키 = 올라갈 버전)
+ *
+ * @param document 이전 버전 문서
+ * @param legacy 이전 설정 파일 내용 (뒤에 있을수록 우선)
+ */
+type SettingsMigration = (
+  document: Record<string, unknown>,
+  legacy: Record<string, unknown>[]
+) => Record<string, unknown>;
+
+const SETTINGS_MIGRATIONS: Record<number, SettingsMigration> = {
+  // 1: ConfigManager / ConfigService 설정 파일을 DB 문서에 병합 (파일 값이 실제로 쓰이던 값)
+  1: (document, legacy) => {
+    const merged = { ...document };
+    for (const source of legacy) {
+      for (const key of SETTING_KEYS) {
+        if (source[key] !== undefined && source[key] !== null) {
+          merged[key] = source[key];
+        }
+      }
+    }
+    return merged;
+  },
+};
+
+/**
+ * 저장된 버전부터 현재 버전까지 마이그레이션
+ *
+ * @param document 저장된 문서
+ * @param fromVersion 저장된 문서 버전
+ * @param legacy 이전 설정 파일 내용
+ */
+export function migrateSettings(
+  document: Record<string, unknown>,
+  fromVersion: number,
+  legacy: Record<string, unknown>[]
+): Record<string, unknown> {
+  let migrated = document;
+  for (let version = fromVersion + 1; version <= SETTINGS_VERSION; version++) {
+    const migration = SETTINGS_MIGRATIONS[version];
+    if (migration) {
+      migrated = migration(migrated, legacy);
+    }
+  }
+  return migrated;
+}
@@ -0,0 +1,74 @@
+/**
+ * 시작 스위치 (app ready 이전에만 정할 수 있는 설정)
+ *
+ * Chromium 디스크 캐시 최대 크기 (disk-cache-size)는 app ready 전에 붙인 명령줄 스위치로만 정해짐
+ * - 설정 DB는 비동기로 열려 ready 전에 읽는다는 보장이 없으므로
+ *   적용된 값을 userData/startup-switches.json에 따로 기록 (CacheSizeApplier)
+ * - 메인 프로세스 진입 직후 이 파일을 동기로 읽어 스위치 추가 (없거나 깨졌으면 기본값)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { app, type CommandLine } from 'electron';
+import { readSettings } from './settingsSchema';
+
+const STARTUP_SWITCHES_FILE = 'startup-switches.json';
+
+/**
+ * 시작 스위치로 반영하는 설정
+ */
+export interface StartupSwitches {
+  cacheSize: number; // MB
+}
+
+/**
+ * 시작 스위치 파일 경로
+ */
+export function startupSwitchesPath(): string {
+  return path.join(app.getPath('userData'), STARTUP_SWITCHES_FILE);
+}
+
+/**
+ * 시작 스위치 읽기 (동기, 잘못된 값은 기본값)
+ *
+ * @param filePath 시작 스위치 파일
+ */
+export function readStartupSwitches(filePath: string = startupSwitchesPath()): StartupSwitches {
+  let document: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      document = parsed as Record<string, unknown>;
+    }
+  } catch {
+    // 첫 실행이거나 파일이 깨졌으면 기본값 사용
+  }
+  return { cacheSize: readSettings(document).cacheSize };
+}
+
+/**
+ * 시작 스위치 기록 (다음 시작부터 적용)
+ *
+ * @param switches 기록할 값
+ * @param filePath 시작 스위치 파일
+ */
+export async function writeStartupSwitches(
+  switches: StartupSwitches,
+  filePath: string = startupSwitchesPath()
+): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, JSON.stringify(switches), 'utf-8');
+}
+
+/**
+ * 시작 스위치 추가 (app ready 이전에 호출)
+ *
+ * @param switches 적용할 값 (기본: 기록된 값)
+ * @param commandLine 스위치를 붙일 명령줄
+ */
+export function applyStartupSwitches(
+  switches: StartupSwitches = readStartupSwitches(),
+  commandLine: Pick<CommandLine, 'appendSwitch'> = app.commandLine
+): void {
+  commandLine.appendSwitch('disk-cache-size', String(switches.cacheSize * 1024 * 1024));
+}
@@ -0,0 +1,74 @@
+/**
+ * 사이트 권한 요청 대화상자
+ *
+ * 권한 상태가 "묻기"일 때 사용자에게 허용/차단을 묻고
+ * "이 사이트에 대한 선택 기억" 체크 여부를 함께 돌려줌
+ */
+
+import { BrowserWindow, dialog, type WebContents } from 'electron';
+import type { SitePermission } from '../../../shared/types/domain';
+
+/**
+ * 권한 요청 내용
+ */
+export interface PermissionPromptRequest {
+  origin: string;
+  permissions: SitePermission[];
+  webContents: WebContents;
+}
+
+/**
+ * 사용자 선택
+ */
+export interface PermissionPromptResult {
+  allow: boolean;
+  remember: boolean; // true면 사이트 설정에 저장, false면 이 탭에서만 유지
+}
+
+/**
+ * 권한 요청 대화상자 (테스트에서 교체 가능)
+ */
+export type PermissionPrompt = (
+  request: PermissionPromptRequest
+) => Promise<PermissionPromptResult>;
+
+/**
+ * 대화상자에 표시할 권한 이름
+ */
+const PERMISSION_LABELS: Record<SitePermission, string> = {
+  notifications: '알림 표시',
+  camera: '카메라 사용',
+  microphone: '마이크 사용',
+  geolocation: '위치 정보 사용',
+  popups: '팝업 열기',
+  autoplay: '자동 재생',
+  cookies: '쿠키 저장',
+  javascript: 'JavaScript 실행',
+};
+
+/**
+ * Electron 메시지 상자로 권한 묻기 (요청한 탭의 윈도우 위에 표시)
+ */
+export const showPermissionPrompt: PermissionPrompt = async ({
+  origin,
+  permissions,
+  webContents,
+}) => {
+  const options = {
+    type: 'question' as const,
+    buttons: ['허용', '차단'],
+    defaultId: 1,
+    cancelId: 1,
+    message: `${origin}에서 다음 권한을 요청합니다`,
+    detail: permissions.map((permission) => `• ${PERMISSION_LABELS[permission]}`).join('\n'),
+    checkboxLabel: '이 사이트에 대한 선택 기억',
+    checkboxChecked: true,
+  };
+
+  const owner = BrowserWindow.fromWebContents(webContents) ?? BrowserWindow.getFocusedWindow();
+  const result = owner
+    ? await dialog.showMessageBox(owner, options)
+    : await dialog.showMessageBox(options);
+
+  return { allow: result.response === 0, remember: result.checkboxChecked };
+};
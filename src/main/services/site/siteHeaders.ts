@@ -0,0 +1,46 @@
+/**
+ * 사이트 설정 헤더 처리
+ *
+ * 세션 webRequest에서 요청/응답 헤더로 사이트 설정 적용 (SiteSettingsService가 사용)
+ * - 쿠키 차단: 요청의 Cookie, 응답의 Set-Cookie 제거
+ * - JavaScript 차단: 문서 응답에 CSP script-src 'none' 추가
+ * - 자동 재생 차단: 문서 응답에 Permissions-Policy autoplay=() 추가
+ * - 헤더 이름은 대소문자 구분 없음
+ */
+
+/** JavaScript 차단 CSP (기존 정책과 함께 적용됨) */
+export const BLOCK_SCRIPTS_POLICY = "script-src 'none'";
+
+/** 자동 재생 차단 Permissions-Policy */
+export const BLOCK_AUTOPLAY_POLICY = 'autoplay=()';
+
+/**
+ * 헤더 제거 (없으면 그대로 반환)
+ *
+ * @param headers 요청/응답 헤더
+ * @param name 제거할 헤더 이름
+ */
+export function withoutHeader<T>(headers: Record<string, T>, name: string): Record<string, T> {
+  const lower = name.toLowerCase();
+  if (!Object.keys(headers).some((key) => key.toLowerCase() === lower)) {
+    return headers;
+  }
+  return Object.fromEntries(Object.entries(headers).filter(([key]) => key.toLowerCase() !== lower));
+}
+
+/**
+ * 응답 헤더 값 추가 (같은 이름의 기존 값은 유지)
+ *
+ * @param headers 응답 헤더
+ * @param name 헤더 이름
+ * @param value 추가할 값
+ */
+export function withHeaderValue(
+  headers: Record<string, string[]>,
+  name: string,
+  value: string
+): Record<string, string[]> {
+  const lower = name.toLowerCase();
+  const key = Object.keys(headers).find((existing) => existing.toLowerCase() === lower) ?? name;
+  return { ...headers, [key]: [...(headers[key] ?? []), value] };
+}
@@ -0,0 +1,98 @@
+/**
+ * 사이트 권한 매핑
+ *
+ * - URL → 사이트 origin (사이트별 설정 키)
+ * - Electron 권한 이름 → 사이트 권한 (media는 카메라/마이크로 나눔)
+ * - SiteSetting 행 ↔ SiteSettings 변환
+ */
+
+import type { SiteSetting } from '@prisma/client';
+import type {
+  SitePermission,
+  SitePermissionState,
+  SiteSettingKey,
+  SiteSettings,
+} from '../../../shared/types/domain';
+
+/**
+ * 모든 사이트 권한
+ */
+export const SITE_PERMISSIONS: readonly SitePermission[] = [
+  'notifications',
+  'camera',
+  'microphone',
+  'geolocation',
+  'popups',
+  'autoplay',
+  'cookies',
+  'javascript',
+];
+
+/**
+ * 모든 사이트별 설정 키
+ */
+export const SITE_SETTING_KEYS: readonly SiteSettingKey[] = ['zoomLevel', ...SITE_PERMISSIONS];
+
+const PERMISSION_STATES: readonly string[] = ['ask', 'allow', 'block'];
+
+/**
+ * URL → 사이트 origin (http/https, 로컬 파일은 "file://", 그 외는 null)
+ */
+export function toSiteOrigin(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol === 'file:') {
+      return 'file://';
+    }
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Electron 권한 → 사이트 권한 (관리하지 않는 권한은 빈 배열)
+ *
+ * @param permission Electron 권한 이름
+ * @param mediaTypes media 요청의 장치 종류 ('video' | 'audio' | 'unknown')
+ */
+export function toSitePermissions(permission: string, mediaTypes: string[] = []): SitePermission[] {
+  switch (permission) {
+    case 'notifications':
+      return ['notifications'];
+    case 'geolocation':
+      return ['geolocation'];
+    case 'media': {
+      const permissions: SitePermission[] = [];
+      if (mediaTypes.includes('video')) {
+        permissions.push('camera');
+      }
+      if (mediaTypes.includes('audio')) {
+        permissions.push('microphone');
+      }
+      return permissions.length > 0 ? permissions : ['camera', 'microphone'];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * SiteSetting 행 → SiteSettings (알 수 없는 값은 기본값으로)
+ */
+export function toSiteSettings(row: SiteSetting): SiteSettings {
+  const permissions: Partial<Record<SitePermission, SitePermissionState>> = {};
+  for (const permission of SITE_PERMISSIONS) {
+    const state = row[permission];
+    if (state !== null && PERMISSION_STATES.includes(state)) {
+      permissions[permission] = state as SitePermissionState;
+    }
+  }
+
+  return {
+    origin: row.origin,
+    zoomLevel: row.zoomLevel,
+    permissions,
+    updatedAt: row.updatedAt,
+  };
+}
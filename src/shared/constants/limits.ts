@@ -29,6 +29,25 @@ export const LIMITS = {
    */
   MIN_TABS: 1,
 
+  /**
+   * 최근 닫은 탭/윈도우 보관 개수: 25개
+   * 
+   * 근거:
+   * - 실수로 닫은 탭 복구 용도: 대부분 직전 몇 개만 다시 엶
+   * - 윈도우 항목은 여러 탭을 포함하므로 항목 수로 제한
+   * - 스토리지: 항목당 네비게이션 스택 포함 수 KB 수준
+   */
+  MAX_RECENTLY_CLOSED: 25,
+
+  /**
+   * 탭 그룹 이름 최대 길이: 100자
+   *
+   * 근거:
+   * - UI 렌더링: 탭 바의 그룹 라벨은 짧게 표시 (긴 이름은 말줄임)
+   * - 실무 사용: 대부분 한두 단어 (예: "리서치", "여행 계획")
+   */
+  MAX_TAB_GROUP_NAME_LENGTH: 100,
+
   // ===== 히스토리 =====
   /**
    * 최대 히스토리 항목: 10,000개
@@ -0,0 +1,43 @@
+/**
+ * 에러 메시지 로케일 테스트
+ */
+
+import { ValidationError, NotFoundError } from '../AppError';
+import { BaseError } from '../BaseError';
+import {
+  SOURCE_ERROR_LOCALE,
+  getErrorLocale,
+  localizeErrorMessage,
+  setErrorLocale,
+} from '../messages';
+
+describe('localizeErrorMessage', () => {
+  afterEach(() => {
+    setErrorLocale(SOURCE_ERROR_LOCALE);
+  });
+
+  it('원문 로케일이면 원문 메시지를 그대로 반환해야 함', () => {
+    const error = new ValidationError('설정값이 올바르지 않습니다: zoomLevel');
+
+    expect(getErrorLocale()).toBe('ko');
+    expect(localizeErrorMessage(error)).toBe('설정값이 올바르지 않습니다: zoomLevel');
+  });
+
+  it('다른 로케일이면 에러 코드 도메인별 문구를 반환해야 함', () => {
+    setErrorLocale('en');
+
+    expect(localizeErrorMessage(new ValidationError('잘못된 입력'))).toBe(
+      'The input is not valid.'
+    );
+    expect(localizeErrorMessage(new NotFoundError('없음'), 'ja')).toBe(
+      'データが見つからないか、保存できませんでした。'
+    );
+  });
+
+  it('알 수 없는 코드는 UNKNOWN 문구를 사용해야 함', () => {
+    expect(localizeErrorMessage(new BaseError('알 수 없음'), 'zh')).toBe('发生意外错误。');
+    expect(localizeErrorMessage({ code: 'SOMETHING', message: '기타' }, 'en')).toBe(
+      'An unexpected error occurred.'
+    );
+  });
+});
@@ -13,3 +13,9 @@ export {
   NotFoundError,
   WindowError,
 } from './AppError';
+export {
+  SOURCE_ERROR_LOCALE,
+  setErrorLocale,
+  getErrorLocale,
+  localizeErrorMessage,
+} from './messages';
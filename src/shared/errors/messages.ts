@@ -0,0 +1,121 @@
+/**
+ * 에러 메시지 로케일
+ *
+ * 앱 에러 메시지의 원문은 한국어.
+ * 다른 로케일이 설정되면 Renderer에 전달하는 메시지를 에러 코드 도메인별 문구로 바꿈
+ * (원문의 세부 내용은 로그에만 남음).
+ *
+ * 로케일은 설정 language를 따름 (Main: LanguageApplier가 설정).
+ */
+
+import type { AppLanguage } from '../types/domain';
+
+/**
+ * 에러 메시지 원문 로케일
+ */
+export const SOURCE_ERROR_LOCALE = 'ko' satisfies AppLanguage;
+
+/**
+ * 에러 코드 도메인 (E_ASIDE_{DOMAIN}_...)
+ */
+type ErrorDomain =
+  | 'BROWSER'
+  | 'IPC'
+  | 'FILE'
+  | 'SECURITY'
+  | 'VALIDATION'
+  | 'DB'
+  | 'NETWORK'
+  | 'SYSTEM'
+  | 'AUTH'
+  | 'WINDOW'
+  | 'UNKNOWN';
+
+/**
+ * 도메인별 에러 문구 (원문 로케일 제외)
+ */
+const ERROR_MESSAGES: Record<
+  Exclude<AppLanguage, typeof SOURCE_ERROR_LOCALE>,
+  Record<ErrorDomain, string>
+> = {
+  en: {
+    BROWSER: 'The page could not be loaded.',
+    IPC: 'The request could not be processed.',
+    FILE: 'The file operation failed.',
+    SECURITY: 'The request was blocked for security reasons.',
+    VALIDATION: 'The input is not valid.',
+    DB: 'The requested data could not be found or saved.',
+    NETWORK: 'A network error occurred.',
+    SYSTEM: 'A system error occurred.',
+    AUTH: 'You do not have permission to do this.',
+    WINDOW: 'The window could not be found.',
+    UNKNOWN: 'An unexpected error occurred.',
+  },
+  ja: {
+    BROWSER: 'ページを読み込めませんでした。',
+    IPC: 'リクエストを処理できませんでした。',
+    FILE: 'ファイル操作に失敗しました。',
+    SECURITY: 'セキュリティ上の理由でブロックされました。',
+    VALIDATION: '入力内容が正しくありません。',
+    DB: 'データが見つからないか、保存できませんでした。',
+    NETWORK: 'ネットワークエラーが発生しました。',
+    SYSTEM: 'システムエラーが発生しました。',
+    AUTH: 'この操作を行う権限がありません。',
+    WINDOW: 'ウィンドウが見つかりません。',
+    UNKNOWN: '予期しないエラーが発生しました。',
+  },
+  zh: {
+    BROWSER: '无法加载页面。',
+    IPC: '无法处理该请求。',
+    FILE: '文件操作失败。',
+    SECURITY: '出于安全原因，该请求已被阻止。',
+    VALIDATION: '输入内容无效。',
+    DB: '找不到或无法保存数据。',
+    NETWORK: '发生网络错误。',
+    SYSTEM: '发生系统错误。',
+    AUTH: '你没有执行此操作的权限。',
+    WINDOW: '找不到窗口。',
+    UNKNOWN: '发生意外错误。',
+  },
+};
+
+let currentLocale: AppLanguage = SOURCE_ERROR_LOCALE;
+
+/**
+ * 에러 메시지 로케일 설정
+ */
+export function setErrorLocale(locale: AppLanguage): void {
+  currentLocale = locale;
+}
+
+/**
+ * 현재 에러 메시지 로케일
+ */
+export function getErrorLocale(): AppLanguage {
+  return currentLocale;
+}
+
+/**
+ * 에러 코드 → 도메인 (알 수 없는 코드는 UNKNOWN)
+ */
+function errorDomain(code: string): ErrorDomain {
+  const domain = /^E_ASIDE_([A-Z]+)_/.exec(code)?.[1];
+  return domain !== undefined && domain in ERROR_MESSAGES.en ? (domain as ErrorDomain) : 'UNKNOWN';
+}
+
+/**
+ * 현재 로케일로 에러 메시지 변환
+ *
+ * @param error 에러 코드와 원문 메시지
+ * @param locale 로케일 (기본: 현재 로케일)
+ * @returns 원문 로케일이면 원문, 아니면 도메인별 문구
+ */
+export function localizeErrorMessage(
+  error: { code: string; message: string },
+  locale: AppLanguage = currentLocale
+): string {
+  if (locale === SOURCE_ERROR_LOCALE) {
+    return error.message;
+  }
+  return ERROR_MESSAGES[locale][errorDomain(error.code)];
+}
@@ -14,28 +14,74 @@
  */
 
 import type { SerializableRecord } from '../types/constraints';
+import type {
+  AppSettings,
+  BookmarkExportFormat,
+  BookmarkFolder,
+  BookmarkFolderDeleteResult,
+  BookmarkTagCount,
+  BrowsingDataClearOptions,
+  BrowsingDataClearResult,
+  BrowsingDataProgress,
+  ExportResult,
+  FrequentSite,
+  HistoryExportOptions,
+  HistoryJourney,
+  HistorySearchResult,
+  HistoryTransition,
+  ImportOptions,
+  ImportProgress,
+  ImportResult,
+  SettingKey,
+  SettingsChange,
+  SettingsImportResult,
+  SettingsProfile,
+  SiteSettingKey,
+  SiteSettings,
+  SiteTimeSpent,
+  TaskManagerSnapshot,
+  ThemeSource,
+} from '../types/domain';
 
 // ============================================================================
 // 브라우저 네비게이션
 // ============================================================================
 
+/** 브라우저: 탭 네비게이션 상태 (뒤로/앞으로 가능 여부) */
+export interface BrowserNavigationState {
+  tabId: string;
+  url: string;
+  title: string;
+  canGoBack: boolean;
+  canGoForward: boolean;
+  isLoading: boolean;
+}
+
 /** 브라우저: URL로 이동 */
 export interface BrowserNavigateToArgs {
   url: string;
   target?: '_blank' | '_self';
-}
-export type BrowserNavigateToResponse = {
-  success: boolean;
   tabId?: string;
-};
+}
+export type BrowserNavigateToResponse = BrowserNavigationState;
 
 /** 브라우저: 뒤로 가기 */
-export type BrowserGoBackArgs = never; // args 없음
-export type BrowserGoBackResponse = boolean;
+export interface BrowserGoBackArgs {
+  tabId?: string;
+}
+export type BrowserGoBackResponse = BrowserNavigationState;
 
 /** 브라우저: 앞으로 가기 */
-export type BrowserGoForwardArgs = never;
-export type BrowserGoForwardResponse = boolean;
+export interface BrowserGoForwardArgs {
+  tabId?: string;
+}
+export type BrowserGoForwardResponse = BrowserNavigationState;
+
+/** 브라우저: 네비게이션 상태 조회 */
+export interface BrowserGetNavigationStateArgs {
+  tabId?: string;
+}
+export type BrowserGetNavigationStateResponse = BrowserNavigationState;
 
 /** 브라우저: 새로고침 */
 export interface BrowserReloadArgs {
@@ -77,6 +123,7 @@ export type BrowserZoomResetResponse = number;
 
 /** 브라우저: 페이지 내 검색 */
 export interface BrowserFindInPageArgs {
+  tabId?: string;
   query: string;
   options?: {
     matchCase?: boolean;
@@ -148,6 +195,7 @@ export type TabGetAllResponse = Array<{
   url: string;
   title: string;
   active: boolean;
+  state: 'active' | 'background' | 'suspended' | 'discarded'; // suspended/discarded: 잠든 탭
 }>;
 
 /** 탭: 탭 복제 */
@@ -172,6 +220,151 @@ export interface TabPinArgs {
 }
 export type TabPinResponse = boolean;
 
+/** 탭: 탭 이동 (순서 변경 / 다른 윈도우로 이동) */
+export interface TabMoveArgs {
+  tabId: string;
+  index: number;
+  windowId?: string; // 기본: 현재 윈도우
+}
+export type TabMoveResponse = {
+  id: string;
+  index: number;
+  windowId: string | null;
+};
+
+/** 탭: 최근 닫은 탭/윈도우 다시 열기 */
+export interface TabReopenClosedArgs {
+  entryId?: string; // 기본: 가장 최근 항목
+}
+export type TabReopenClosedResponse = Array<{
+  id: string;
+  url: string;
+  title: string;
+}>;
+
+/** 탭: 최근 닫은 탭/윈도우 목록 조회 */
+export interface TabGetRecentlyClosedArgs {
+  limit?: number;
+}
+export type TabGetRecentlyClosedResponse = Array<{
+  id: string;
+  type: 'tab' | 'window';
+  closedAt: Date;
+  tabs: Array<{
+    url: string;
+    title: string;
+    favicon?: string | null;
+    originalIndex: number;
+  }>;
+}>;
+
+// ============================================================================
+// 탭 그룹 관리
+// ============================================================================
+
+/** 탭 그룹 색상 */
+export type TabGroupColorName =
+  | 'grey'
+  | 'blue'
+  | 'red'
+  | 'yellow'
+  | 'green'
+  | 'pink'
+  | 'purple'
+  | 'cyan'
+  | 'orange';
+
+/** 탭 그룹 정보 */
+export type TabGroupInfo = {
+  id: string;
+  name: string;
+  color: TabGroupColorName;
+  collapsed: boolean;
+  windowId: string | null;
+  tabIds: string[];
+};
+
+/** 탭 그룹: 그룹 생성 */
+export interface TabGroupCreateArgs {
+  tabIds: string[];
+  name?: string;
+  color?: TabGroupColorName; // 기본: 'grey'
+  collapsed?: boolean;
+}
+export type TabGroupCreateResponse = TabGroupInfo;
+
+/** 탭 그룹: 이름 변경 */
+export interface TabGroupRenameArgs {
+  groupId: string;
+  name: string;
+}
+export type TabGroupRenameResponse = TabGroupInfo;
+
+/** 탭 그룹: 색상 변경 */
+export interface TabGroupSetColorArgs {
+  groupId: string;
+  color: TabGroupColorName;
+}
+export type TabGroupSetColorResponse = TabGroupInfo;
+
+/** 탭 그룹: 접기/펼치기 */
+export interface TabGroupSetCollapsedArgs {
+  groupId: string;
+  collapsed: boolean;
+}
+export type TabGroupSetCollapsedResponse = TabGroupInfo;
+
+/** 탭 그룹: 그룹 해제 */
+export interface TabGroupUngroupArgs {
+  groupId: string;
+}
+export type TabGroupUngroupResponse = {
+  tabIds: string[];
+};
+
+/** 탭 그룹: 이동 (순서 변경 / 다른 윈도우로 이동) */
+export interface TabGroupMoveArgs {
+  groupId: string;
+  index: number;
+  windowId?: string; // 기본: 현재 윈도우
+}
+export type TabGroupMoveResponse = TabGroupInfo;
+
+/** 탭 그룹: 모든 그룹 조회 */
+export type TabGroupGetAllArgs = never;
+export type TabGroupGetAllResponse = TabGroupInfo[];
+
+// ============================================================================
+// 세션 관리
+// ============================================================================
+
+/** 세션: 복원 가능한 이전 세션 정보 */
+export interface SessionRecoveryInfo {
+  available: boolean;
+  crashed: boolean;
+  tabCount: number;
+  windowCount: number;
+  savedAt: number | null;
+}
+
+/** 세션: 복원 정보 조회 */
+export type SessionGetRecoveryInfoArgs = never;
+export type SessionGetRecoveryInfoResponse = SessionRecoveryInfo;
+
+/** 세션: 마지막 세션 복원 */
+export type SessionRestoreArgs = never;
+export type SessionRestoreResponse = {
+  restoredTabs: number;
+};
+
+/** 세션: 마지막 세션 폐기 */
+export type SessionDiscardArgs = never;
+export type SessionDiscardResponse = boolean;
+
+/** 세션: 복원 제안 알림 (Main → Renderer) */
+export type SessionRecoveryAvailableArgs = SessionRecoveryInfo;
+export type SessionRecoveryAvailableResponse = never; // 단방향
+
 // ============================================================================
 // 히스토리 관리
 // ============================================================================
@@ -181,6 +374,8 @@ export interface HistoryAddArgs {
   url: string;
   title?: string;
   timestamp?: number;
+  transition?: HistoryTransition; // 기본값 link
+  referrerVisitId?: string;
 }
 export type HistoryAddResponse = {
   historyId: string;
@@ -199,18 +394,13 @@ export type HistoryGetAllResponse = Array<{
   visitCount: number;
 }>;
 
-/** 히스토리: 검색 */
+/** 히스토리: 검색 (FTS5, site:/before:/after: 연산자 지원) */
 export interface HistorySearchArgs {
   query: string;
   limit?: number;
+  cursor?: string; // 이전 응답의 nextCursor
 }
-export type HistorySearchResponse = Array<{
-  historyId: string;
-  url: string;
-  title: string;
-  timestamp: number;
-  matchType: 'url' | 'title';
-}>;
+export type HistorySearchResponse = HistorySearchResult;
 
 /** 히스토리: 특정 항목 삭제 */
 export interface HistoryDeleteArgs {
@@ -222,6 +412,65 @@ export type HistoryDeleteResponse = boolean;
 export type HistoryClearArgs = never;
 export type HistoryClearResponse = boolean;
 
+/** 히스토리: 자주 방문한 사이트 (frecency순) */
+export interface HistoryGetFrequentSitesArgs {
+  limit?: number;
+}
+export type HistoryGetFrequentSitesResponse = FrequentSite[];
+
+/** 히스토리: 여정 목록 (최신순) */
+export interface HistoryGetJourneysArgs {
+  limit?: number;
+  offset?: number;
+}
+export type HistoryGetJourneysResponse = HistoryJourney[];
+
+/** 히스토리: 사이트별 체류 시간 (체류 시간 내림차순) */
+export interface HistoryGetTimePerSiteArgs {
+  startTime?: number;
+  endTime?: number;
+  limit?: number;
+}
+export type HistoryGetTimePerSiteResponse = SiteTimeSpent[];
+
+// ============================================================================
+// 인터넷 사용 기록 삭제
+// ============================================================================
+
+/** 인터넷 사용 기록: 기간/사이트 단위 삭제 */
+export type BrowsingDataClearArgs = BrowsingDataClearOptions;
+export type BrowsingDataClearResponse = BrowsingDataClearResult;
+
+/** 인터넷 사용 기록: 삭제 진행 상황 (Main → Renderer) */
+export type BrowsingDataProgressArgs = BrowsingDataProgress;
+export type BrowsingDataProgressResponse = never; // 단방향
+
+// ============================================================================
+// 가져오기
+// ============================================================================
+
+/** 가져오기: 다른 브라우저의 북마크/방문 기록 가져오기 (열기 대화상자로 원본 선택) */
+export type ImportStartArgs = ImportOptions;
+export type ImportStartResponse = ImportResult;
+
+/** 가져오기: 진행 상황 (Main → Renderer) */
+export type ImportProgressArgs = ImportProgress;
+export type ImportProgressResponse = never; // 단방향
+
+// ============================================================================
+// 내보내기 (저장 위치는 Main에서 저장 대화상자로 선택)
+// ============================================================================
+
+/** 북마크: Netscape HTML 또는 JSON으로 내보내기 */
+export interface BookmarkExportArgs {
+  format: BookmarkExportFormat;
+}
+export type BookmarkExportResponse = ExportResult;
+
+/** 히스토리: 기간 내 방문 기록을 CSV 또는 JSON으로 내보내기 */
+export type HistoryExportArgs = HistoryExportOptions;
+export type HistoryExportResponse = ExportResult;
+
 // ============================================================================
 // 북마크 관리
 // ============================================================================
@@ -231,6 +480,7 @@ export interface BookmarkAddArgs {
   url: string;
   title: string;
   folderId?: string;
+  tags?: string[];
 }
 export type BookmarkAddResponse = {
   bookmarkId: string;
@@ -242,6 +492,22 @@ export interface BookmarkRemoveArgs {
 }
 export type BookmarkRemoveResponse = boolean;
 
+/** 북마크: 북마크 수정 (tags를 주면 태그 전체 교체) */
+export interface BookmarkUpdateArgs {
+  id: string;
+  updates: {
+    url?: string;
+    title?: string;
+    description?: string;
+    folderId?: string | null;
+    tags?: string[];
+  };
+}
+export type BookmarkUpdateResponse = {
+  bookmarkId: string;
+  tags: string[];
+};
+
 /** 북마크: 모든 북마크 조회 */
 export type BookmarkGetAllArgs = never;
 export type BookmarkGetAllResponse = Array<{
@@ -251,7 +517,25 @@ export type BookmarkGetAllResponse = Array<{
   folderId?: string;
 }>;
 
-/** 북마크: 북마크 검색 */
+/** 북마크: 태그 목록 (많은 순) */
+export type BookmarkGetTagsArgs = never;
+export type BookmarkGetTagsResponse = BookmarkTagCount[];
+
+/** 북마크: 태그 이름 변경 (새 이름이 이미 있으면 병합) */
+export interface BookmarkRenameTagArgs {
+  from: string;
+  to: string;
+}
+export type BookmarkRenameTagResponse = number; // 태그가 바뀐 북마크 수
+
+/** 북마크: 여러 태그를 하나로 병합 */
+export interface BookmarkMergeTagsArgs {
+  tags: string[];
+  into: string;
+}
+export type BookmarkMergeTagsResponse = number; // 태그가 바뀐 북마크 수
+
+/** 북마크: 북마크 검색 (일반 검색어 + tag:name 필터) */
 export interface BookmarkSearchArgs {
   query: string;
   limit?: number;
@@ -262,21 +546,49 @@ export type BookmarkSearchResponse = Array<{
   title: string;
 }>;
 
+/** 북마크: 다른 폴더로 이동 또는 폴더 안 순서 변경 (folderId null = 최상위) */
+export interface BookmarkMoveArgs {
+  bookmarkId: string;
+  folderId: string | null;
+  index?: number;
+}
+export type BookmarkMoveResponse = {
+  bookmarkId: string;
+  folderId: string | null;
+  position: number;
+};
+
+/** 북마크: 폴더 트리 조회 (부모, 위치순 평면 목록) */
+export type BookmarkGetFoldersArgs = never;
+export type BookmarkGetFoldersResponse = BookmarkFolder[];
+
 /** 북마크: 폴더 생성 */
 export interface BookmarkCreateFolderArgs {
   name: string;
   parentId?: string;
 }
-export type BookmarkCreateFolderResponse = {
-  folderId: string;
-};
+export type BookmarkCreateFolderResponse = BookmarkFolder;
 
-/** 북마크: 폴더 업데이트 */
+/** 북마크: 폴더 이름 변경 */
 export interface BookmarkUpdateFolderArgs {
   folderId: string;
   name: string;
 }
-export type BookmarkUpdateFolderResponse = boolean;
+export type BookmarkUpdateFolderResponse = BookmarkFolder;
+
+/** 북마크: 폴더를 다른 폴더로 이동 또는 순서 변경 (parentId null = 최상위) */
+export interface BookmarkMoveFolderArgs {
+  folderId: string;
+  parentId: string | null;
+  index?: number;
+}
+export type BookmarkMoveFolderResponse = BookmarkFolder;
+
+/** 북마크: 폴더 삭제 (하위 폴더와 북마크 포함) */
+export interface BookmarkDeleteFolderArgs {
+  folderId: string;
+}
+export type BookmarkDeleteFolderResponse = BookmarkFolderDeleteResult;
 
 // ============================================================================
 // 설정 관리
@@ -284,39 +596,99 @@ export type BookmarkUpdateFolderResponse = boolean;
 
 /** 설정: 특정 설정값 조회 */
 export interface SettingsGetArgs {
-  key: string;
+  key: SettingKey;
 }
 export type SettingsGetResponse = {
-  key: string;
-  value: string | number | boolean | null;
+  key: SettingKey;
+  value: AppSettings[SettingKey];
 };
 
 /** 설정: 모든 설정값 조회 */
 export type SettingsGetAllArgs = never;
-export type SettingsGetAllResponse = SerializableRecord;
+export type SettingsGetAllResponse = AppSettings;
 
-/** 설정: 설정값 저장 */
+/** 설정: 설정값 저장 (스키마로 검증, 변경 후 전체 설정 반환) */
 export interface SettingsSetArgs {
-  key: string;
-  value: string | number | boolean | null;
+  key: SettingKey;
+  value: AppSettings[SettingKey];
 }
-export type SettingsSetResponse = boolean;
+export type SettingsSetResponse = AppSettings;
 
-/** 설정: 설정 초기화 */
-export type SettingsResetArgs = never;
-export type SettingsResetResponse = boolean;
+/** 설정: 설정 초기화 (keys 생략 시 전체) */
+export interface SettingsResetArgs {
+  keys?: SettingKey[];
+}
+export type SettingsResetResponse = AppSettings;
 
 /** 설정: 테마 조회 */
 export type SettingsGetThemeArgs = never;
 export type SettingsGetThemeResponse = {
-  theme: 'light' | 'dark' | 'auto';
+  theme: ThemeSource;
 };
 
 /** 설정: 테마 설정 */
 export interface SettingsSetThemeArgs {
-  theme: 'light' | 'dark' | 'auto';
+  theme: ThemeSource;
+}
+export type SettingsSetThemeResponse = {
+  theme: ThemeSource;
+};
+
+/** 설정: 변경 알림 (Main → 모든 윈도우) */
+export type SettingsChangedArgs = SettingsChange;
+export type SettingsChangedResponse = never; // 단방향
+
+/** 설정: 프로필 목록 (생성순) */
+export type SettingsProfileListArgs = never;
+export type SettingsProfileListResponse = SettingsProfile[];
+
+/** 설정: 현재 설정으로 프로필 생성 */
+export interface SettingsProfileCreateArgs {
+  name: string;
+}
+export type SettingsProfileCreateResponse = SettingsProfile;
+
+/** 설정: 프로필 이름 변경 */
+export interface SettingsProfileRenameArgs {
+  id: string;
+  name: string;
 }
-export type SettingsSetThemeResponse = boolean;
+export type SettingsProfileRenameResponse = SettingsProfile;
+
+/** 설정: 프로필 삭제 (사용 중인 프로필은 불가) */
+export interface SettingsProfileDeleteArgs {
+  id: string;
+}
+export type SettingsProfileDeleteResponse = boolean;
+
+/** 설정: 프로필 전환 (적용된 전체 설정 반환) */
+export interface SettingsProfileSwitchArgs {
+  id: string;
+}
+export type SettingsProfileSwitchResponse = AppSettings;
+
+/** 설정: 설정 묶음 내보내기 (저장 대화상자, count = 사이트별 설정 수) */
+export type SettingsExportArgs = never;
+export type SettingsExportResponse = ExportResult;
+
+/** 설정: 설정 묶음 가져오기 (열기 대화상자, 잘못된 항목은 건너뜀) */
+export type SettingsImportArgs = never;
+export type SettingsImportResponse = SettingsImportResult;
+
+// ============================================================================
+// 사이트별 설정
+// ============================================================================
+
+/** 사이트: 기억한 권한/줌 목록 (origin순) */
+export type SiteListArgs = never;
+export type SiteListResponse = SiteSettings[];
+
+/** 사이트: 권한/줌 해제 (keys 생략 시 그 사이트 전체) */
+export interface SiteRevokeArgs {
+  origin: string;
+  keys?: SiteSettingKey[];
+}
+export type SiteRevokeResponse = boolean; // 해제된 값이 있었는지
 
 // ============================================================================
 // 파일 작업
@@ -438,6 +810,18 @@ export type AppGetSystemInfoResponse = {
   freeMemory: number;
 };
 
+/** 앱: 작업 관리자 조회 */
+export type AppGetTaskManagerArgs = never;
+export type AppGetTaskManagerResponse = TaskManagerSnapshot;
+
+/** 앱: 탭 렌더러 프로세스 강제 종료 (같은 프로세스를 쓰는 탭도 함께 종료) */
+export interface AppKillTabProcessArgs {
+  tabId: string;
+}
+export type AppKillTabProcessResponse = {
+  tabIds: string[]; // 영향받은 탭
+};
+
 // ============================================================================
 // 알림/통지
 // ============================================================================
@@ -516,6 +900,10 @@ export interface IpcChannelMap {
     args: BrowserGoForwardArgs;
     response: BrowserGoForwardResponse;
   };
+  'browser:getNavigationState': {
+    args: BrowserGetNavigationStateArgs;
+    response: BrowserGetNavigationStateResponse;
+  };
   'browser:reload': { args: BrowserReloadArgs; response: BrowserReloadResponse };
   'browser:reloadIgnoreCache': {
     args: BrowserReloadIgnoreCacheArgs;
@@ -550,6 +938,36 @@ export interface IpcChannelMap {
   'tab:duplicate': { args: TabDuplicateArgs; response: TabDuplicateResponse };
   'tab:mute': { args: TabMuteArgs; response: TabMuteResponse };
   'tab:pin': { args: TabPinArgs; response: TabPinResponse };
+  'tab:move': { args: TabMoveArgs; response: TabMoveResponse };
+  'tab:reopenClosed': { args: TabReopenClosedArgs; response: TabReopenClosedResponse };
+  'tab:getRecentlyClosed': {
+    args: TabGetRecentlyClosedArgs;
+    response: TabGetRecentlyClosedResponse;
+  };
+
+  // 탭 그룹 관리
+  'tabGroup:create': { args: TabGroupCreateArgs; response: TabGroupCreateResponse };
+  'tabGroup:rename': { args: TabGroupRenameArgs; response: TabGroupRenameResponse };
+  'tabGroup:setColor': { args: TabGroupSetColorArgs; response: TabGroupSetColorResponse };
+  'tabGroup:setCollapsed': {
+    args: TabGroupSetCollapsedArgs;
+    response: TabGroupSetCollapsedResponse;
+  };
+  'tabGroup:ungroup': { args: TabGroupUngroupArgs; response: TabGroupUngroupResponse };
+  'tabGroup:move': { args: TabGroupMoveArgs; response: TabGroupMoveResponse };
+  'tabGroup:getAll': { args: TabGroupGetAllArgs; response: TabGroupGetAllResponse };
+
+  // 세션 관리
+  'session:getRecoveryInfo': {
+    args: SessionGetRecoveryInfoArgs;
+    response: SessionGetRecoveryInfoResponse;
+  };
+  'session:restore': { args: SessionRestoreArgs; response: SessionRestoreResponse };
+  'session:discard': { args: SessionDiscardArgs; response: SessionDiscardResponse };
+  'session:recoveryAvailable': {
+    args: SessionRecoveryAvailableArgs;
+    response: SessionRecoveryAvailableResponse;
+  };
 
   // 히스토리 관리
   'history:add': { args: HistoryAddArgs; response: HistoryAddResponse };
@@ -557,6 +975,27 @@ export interface IpcChannelMap {
   'history:search': { args: HistorySearchArgs; response: HistorySearchResponse };
   'history:delete': { args: HistoryDeleteArgs; response: HistoryDeleteResponse };
   'history:clear': { args: HistoryClearArgs; response: HistoryClearResponse };
+  'history:getFrequentSites': {
+    args: HistoryGetFrequentSitesArgs;
+    response: HistoryGetFrequentSitesResponse;
+  };
+  'history:getJourneys': { args: HistoryGetJourneysArgs; response: HistoryGetJourneysResponse };
+  'history:getTimePerSite': {
+    args: HistoryGetTimePerSiteArgs;
+    response: HistoryGetTimePerSiteResponse;
+  };
+  'history:export': { args: HistoryExportArgs; response: HistoryExportResponse };
+
+  // 인터넷 사용 기록 삭제
+  'browsingData:clear': { args: BrowsingDataClearArgs; response: BrowsingDataClearResponse };
+  'browsingData:progress': {
+    args: BrowsingDataProgressArgs;
+    response: BrowsingDataProgressResponse;
+  };
+
+  // 가져오기
+  'import:start': { args: ImportStartArgs; response: ImportStartResponse };
+  'import:progress': { args: ImportProgressArgs; response: ImportProgressResponse };
 
   // 북마크 관리
   'bookmark:add': { args: BookmarkAddArgs; response: BookmarkAddResponse };
@@ -572,6 +1011,21 @@ export interface IpcChannelMap {
     args: BookmarkSearchArgs;
     response: BookmarkSearchResponse;
   };
+  'bookmark:update': { args: BookmarkUpdateArgs; response: BookmarkUpdateResponse };
+  'bookmark:getTags': { args: BookmarkGetTagsArgs; response: BookmarkGetTagsResponse };
+  'bookmark:renameTag': {
+    args: BookmarkRenameTagArgs;
+    response: BookmarkRenameTagResponse;
+  };
+  'bookmark:mergeTags': {
+    args: BookmarkMergeTagsArgs;
+    response: BookmarkMergeTagsResponse;
+  };
+  'bookmark:move': { args: BookmarkMoveArgs; response: BookmarkMoveResponse };
+  'bookmark:getFolders': {
+    args: BookmarkGetFoldersArgs;
+    response: BookmarkGetFoldersResponse;
+  };
   'bookmark:createFolder': {
     args: BookmarkCreateFolderArgs;
     response: BookmarkCreateFolderResponse;
@@ -580,6 +1034,15 @@ export interface IpcChannelMap {
     args: BookmarkUpdateFolderArgs;
     response: BookmarkUpdateFolderResponse;
   };
+  'bookmark:moveFolder': {
+    args: BookmarkMoveFolderArgs;
+    response: BookmarkMoveFolderResponse;
+  };
+  'bookmark:deleteFolder': {
+    args: BookmarkDeleteFolderArgs;
+    response: BookmarkDeleteFolderResponse;
+  };
+  'bookmark:export': { args: BookmarkExportArgs; response: BookmarkExportResponse };
 
   // 설정 관리
   'settings:get': { args: SettingsGetArgs; response: SettingsGetResponse };
@@ -600,6 +1063,36 @@ export interface IpcChannelMap {
     args: SettingsSetThemeArgs;
     response: SettingsSetThemeResponse;
   };
+  'settings:changed': {
+    args: SettingsChangedArgs;
+    response: SettingsChangedResponse;
+  };
+  'settings:profileList': {
+    args: SettingsProfileListArgs;
+    response: SettingsProfileListResponse;
+  };
+  'settings:profileCreate': {
+    args: SettingsProfileCreateArgs;
+    response: SettingsProfileCreateResponse;
+  };
+  'settings:profileRename': {
+    args: SettingsProfileRenameArgs;
+    response: SettingsProfileRenameResponse;
+  };
+  'settings:profileDelete': {
+    args: SettingsProfileDeleteArgs;
+    response: SettingsProfileDeleteResponse;
+  };
+  'settings:profileSwitch': {
+    args: SettingsProfileSwitchArgs;
+    response: SettingsProfileSwitchResponse;
+  };
+  'settings:export': { args: SettingsExportArgs; response: SettingsExportResponse };
+  'settings:import': { args: SettingsImportArgs; response: SettingsImportResponse };
+
+  // 사이트별 설정
+  'site:list': { args: SiteListArgs; response: SiteListResponse };
+  'site:revoke': { args: SiteRevokeArgs; response: SiteRevokeResponse };
 
   // 파일 작업
   'file:open': { args: FileOpenArgs; response: FileOpenResponse };
@@ -652,6 +1145,14 @@ export interface IpcChannelMap {
     args: AppGetSystemInfoArgs;
     response: AppGetSystemInfoResponse;
   };
+  'app:getTaskManager': {
+    args: AppGetTaskManagerArgs;
+    response: AppGetTaskManagerResponse;
+  };
+  'app:killTabProcess': {
+    args: AppKillTabProcessArgs;
+    response: AppKillTabProcessResponse;
+  };
 
   // 알림/통지
   'notification:show': {
@@ -16,6 +16,7 @@ export const IPC_CHANNELS = {
   browserNavigateTo: 'browser:navigateTo', // URL로 이동
   browserGoBack: 'browser:goBack', // 뒤로 가기
   browserGoForward: 'browser:goForward', // 앞으로 가기
+  browserGetNavigationState: 'browser:getNavigationState', // 뒤로/앞으로 가능 여부 조회
   browserReload: 'browser:reload', // 새로고침 (일반)
   browserReloadIgnoreCache: 'browser:reloadIgnoreCache', // 새로고침 (캐시무시)
   browserStop: 'browser:stop', // 페이지 로드 중지
@@ -36,6 +37,26 @@ export const IPC_CHANNELS = {
   tabDuplicate: 'tab:duplicate', // 탭 복제
   tabMute: 'tab:mute', // 탭 음소거
   tabPin: 'tab:pin', // 탭 고정
+  tabMove: 'tab:move', // 탭 순서 변경 / 다른 윈도우로 이동
+  tabReopenClosed: 'tab:reopenClosed', // 최근 닫은 탭/윈도우 다시 열기
+  tabGetRecentlyClosed: 'tab:getRecentlyClosed', // 최근 닫은 탭/윈도우 목록 조회
+
+  // ===== 탭 그룹 관리 (Tab Group Management) =====
+  // "탭 그룹"에 대한 작업들: 생성, 이름/색상 변경, 접기, 해제, 이동
+  tabGroupCreate: 'tabGroup:create', // 선택한 탭으로 그룹 생성
+  tabGroupRename: 'tabGroup:rename', // 그룹 이름 변경
+  tabGroupSetColor: 'tabGroup:setColor', // 그룹 색상 변경
+  tabGroupSetCollapsed: 'tabGroup:setCollapsed', // 그룹 접기/펼치기
+  tabGroupUngroup: 'tabGroup:ungroup', // 그룹 해제 (탭은 유지)
+  tabGroupMove: 'tabGroup:move', // 그룹 순서 변경 / 다른 윈도우로 이동
+  tabGroupGetAll: 'tabGroup:getAll', // 모든 그룹 조회
+
+  // ===== 세션 관리 (Session Management) =====
+  // "이전 세션"에 대한 작업들: 비정상 종료 후 복원 제안, 복원, 폐기
+  sessionGetRecoveryInfo: 'session:getRecoveryInfo', // 복원 가능한 세션 정보 조회
+  sessionRestore: 'session:restore', // 마지막 세션 복원
+  sessionDiscard: 'session:discard', // 마지막 세션 폐기
+  sessionRecoveryAvailable: 'session:recoveryAvailable', // 복원 제안 알림 (Main → Renderer)
 
   // ===== 히스토리 관리 (History Management) =====
   // "방문 기록"에 대한 작업들: 추가, 조회, 삭제, 초기화
@@ -44,24 +65,60 @@ export const IPC_CHANNELS = {
   historySearch: 'history:search', // 히스토리 검색
   historyDelete: 'history:delete', // 특정 히스토리 삭제
   historyClear: 'history:clear', // 모든 히스토리 삭제
+  historyGetFrequentSites: 'history:getFrequentSites', // 자주 방문한 사이트 (frecency순)
+  historyGetJourneys: 'history:getJourneys', // 여정 (시간/주제로 묶은 방문) 목록
+  historyGetTimePerSite: 'history:getTimePerSite', // 사이트별 체류 시간 리포트
+  historyExport: 'history:export', // 기간 내 방문 기록 내보내기 (CSV, JSON)
+
+  // ===== 인터넷 사용 기록 삭제 (Browsing Data) =====
+  // 기간/사이트 단위로 방문 기록, 캐시, 쿠키, 파비콘, 세션을 한 번에 삭제
+  browsingDataClear: 'browsingData:clear', // 인터넷 사용 기록 삭제
+  browsingDataProgress: 'browsingData:progress', // 삭제 진행 상황 (Main → Renderer)
+
+  // ===== 가져오기 (Import) =====
+  // 다른 브라우저의 북마크와 방문 기록 가져오기
+  importStart: 'import:start', // 가져오기 실행
+  importProgress: 'import:progress', // 가져오기 진행 상황 (Main → Renderer)
 
   // ===== 북마크 관리 (Bookmark Management) =====
-  // "북마크"에 대한 작업들: 추가, 삭제, 조회, 폴더
+  // "북마크"에 대한 작업들: 추가, 삭제, 조회, 이동, 폴더 트리, 태그
   bookmarkAdd: 'bookmark:add', // 북마크 추가
   bookmarkRemove: 'bookmark:remove', // 북마크 삭제
+  bookmarkUpdate: 'bookmark:update', // 북마크 수정 (제목, URL, 설명, 폴더, 태그)
   bookmarkGetAll: 'bookmark:getAll', // 모든 북마크 조회
-  bookmarkSearch: 'bookmark:search', // 북마크 검색
+  bookmarkSearch: 'bookmark:search', // 북마크 검색 (tag: 필터 포함)
+  bookmarkGetTags: 'bookmark:getTags', // 태그 목록 (태그별 북마크 수)
+  bookmarkRenameTag: 'bookmark:renameTag', // 태그 이름 변경
+  bookmarkMergeTags: 'bookmark:mergeTags', // 여러 태그를 하나로 병합
+  bookmarkMove: 'bookmark:move', // 북마크 폴더 이동 / 순서 변경
+  bookmarkGetFolders: 'bookmark:getFolders', // 북마크 폴더 트리 조회
   bookmarkCreateFolder: 'bookmark:createFolder', // 북마크 폴더 생성
   bookmarkUpdateFolder: 'bookmark:updateFolder', // 북마크 폴더 이름 변경
+  bookmarkMoveFolder: 'bookmark:moveFolder', // 북마크 폴더 이동 / 순서 변경
+  bookmarkDeleteFolder: 'bookmark:deleteFolder', // 북마크 폴더 삭제 (하위 포함)
+  bookmarkExport: 'bookmark:export', // 북마크 내보내기 (Netscape HTML, JSON)
 
   // ===== 설정 관리 (Settings Management) =====
-  // "설정값"에 대한 작업들: 조회, 저장, 초기화
+  // "설정값"에 대한 작업들: 조회, 저장, 초기화, 변경 알림, 프로필, 내보내기/가져오기
   settingsGet: 'settings:get', // 특정 설정값 조회
   settingsGetAll: 'settings:getAll', // 모든 설정값 조회
   settingsSet: 'settings:set', // 설정값 저장
   settingsReset: 'settings:reset', // 설정 초기화
   settingsGetTheme: 'settings:getTheme', // 테마 조회
   settingsSetTheme: 'settings:setTheme', // 테마 설정
+  settingsChanged: 'settings:changed', // 설정 변경 알림 (Main → 모든 윈도우)
+  settingsProfileList: 'settings:profileList', // 설정 프로필 목록
+  settingsProfileCreate: 'settings:profileCreate', // 현재 설정으로 프로필 생성
+  settingsProfileRename: 'settings:profileRename', // 프로필 이름 변경
+  settingsProfileDelete: 'settings:profileDelete', // 프로필 삭제
+  settingsProfileSwitch: 'settings:profileSwitch', // 프로필 전환
+  settingsExport: 'settings:export', // 설정 묶음 내보내기 (설정, 사이트별 설정, 단축키)
+  settingsImport: 'settings:import', // 설정 묶음 가져오기
+
+  // ===== 사이트별 설정 (Site Settings) =====
+  // "사이트(origin)별 권한/줌"에 대한 작업들: 목록, 해제
+  siteList: 'site:list', // 기억한 사이트별 권한/줌 목록
+  siteRevoke: 'site:revoke', // 사이트별 권한/줌 해제
 
   // ===== 파일 작업 (File Operations) =====
   // "파일"에 대한 작업들: 열기, 저장, 다운로드
@@ -87,6 +144,8 @@ export const IPC_CHANNELS = {
   appCheckUpdate: 'app:checkUpdate', // 업데이트 확인
   appRestart: 'app:restart', // 앱 재시작
   appGetSystemInfo: 'app:getSystemInfo', // 시스템 정보 조회
+  appGetTaskManager: 'app:getTaskManager', // 작업 관리자 (프로세스/탭별 리소스)
+  appKillTabProcess: 'app:killTabProcess', // 탭 렌더러 프로세스 강제 종료
 
   // ===== 알림/통지 (Notifications) =====
   // "알림"에 대한 작업들: 표시, 제거
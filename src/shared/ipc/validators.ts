@@ -5,6 +5,7 @@
  * 잘못된 채널 접근 방지 + 보안
  *
  * Zod 검증 스키마 추가:
+ * - Browser 네비게이션 요청 검증
  * - Tab 요청 검증
  * - History 요청 검증
  * - Bookmark 요청 검증
@@ -12,6 +13,7 @@
 
 import { z } from 'zod';
 import { IPC_CHANNELS, IpcChannel } from './channels';
+import { LIMITS } from '../constants';
 
 /**
  * 모든 유효한 IPC 채널을 Set으로 변환 (성능 최적화)
@@ -92,6 +94,44 @@ export function isIpcInDomain(channel: IpcChannel, domain: string): boolean {
  * ==========================================
  */
 
+// Browser 네비게이션 요청 검증 스키마
+export const BrowserNavigateRequestSchema = z.object({
+  url: z.string().min(1, 'URL은 필수입니다'),
+  target: z.enum(['_blank', '_self']).optional(),
+  tabId: z.string().min(1).optional(),
+});
+
+export const BrowserTabRequestSchema = z.object({
+  tabId: z.string().min(1).optional(),
+});
+
+export const BrowserZoomRequestSchema = z.object({
+  tabId: z.string().min(1).optional(),
+  level: z.number().positive().max(1).optional(),
+});
+
+export const BrowserFindInPageRequestSchema = z.object({
+  tabId: z.string().min(1).optional(),
+  query: z.string().max(500, '검색어는 500자 이하여야 합니다'),
+  options: z
+    .object({
+      matchCase: z.boolean().optional(),
+      findNext: z.boolean().optional(),
+    })
+    .optional(),
+});
+
+export const BrowserPrintRequestSchema = z.object({
+  tabId: z.string().min(1).optional(),
+  options: z
+    .object({
+      silent: z.boolean().optional(),
+      printBackground: z.boolean().optional(),
+      landscape: z.boolean().optional(),
+    })
+    .optional(),
+});
+
 // Tab 요청 검증 스키마
 export const TabCreateRequestSchema = z.object({
   url: z.string().url('유효한 URL이 아닙니다'),
@@ -112,6 +152,61 @@ export const TabIdRequestSchema = z.object({
   tabId: z.string().min(1, 'Tab ID는 필수입니다'),
 });
 
+export const TabMoveRequestSchema = z.object({
+  tabId: z.string().min(1, 'Tab ID는 필수입니다'),
+  index: z.number().int().min(0, '탭 위치는 0 이상이어야 합니다'),
+  windowId: z.string().min(1).optional(),
+});
+
+export const TabReopenClosedRequestSchema = z.object({
+  entryId: z.string().min(1).optional(),
+});
+
+export const TabRecentlyClosedRequestSchema = z.object({
+  limit: z.number().int().positive().max(LIMITS.MAX_RECENTLY_CLOSED).optional(),
+});
+
+// TabGroup 요청 검증 스키마
+export const TabGroupColorSchema = z.enum([
+  'grey',
+  'blue',
+  'red',
+  'yellow',
+  'green',
+  'pink',
+  'purple',
+  'cyan',
+  'orange',
+]);
+
+export const TabGroupCreateRequestSchema = z.object({
+  tabIds: z.array(z.string().min(1)).min(1, '그룹에 추가할 탭이 필요합니다'),
+  name: z.string().max(LIMITS.MAX_TAB_GROUP_NAME_LENGTH).optional(),
+  color: TabGroupColorSchema.optional(),
+  collapsed: z.boolean().optional(),
+});
+
+export const TabGroupIdRequestSchema = z.object({
+  groupId: z.string().min(1, 'Group ID는 필수입니다'),
+});
+
+export const TabGroupRenameRequestSchema = TabGroupIdRequestSchema.extend({
+  name: z.string().max(LIMITS.MAX_TAB_GROUP_NAME_LENGTH),
+});
+
+export const TabGroupSetColorRequestSchema = TabGroupIdRequestSchema.extend({
+  color: TabGroupColorSchema,
+});
+
+export const TabGroupSetCollapsedRequestSchema = TabGroupIdRequestSchema.extend({
+  collapsed: z.boolean(),
+});
+
+export const TabGroupMoveRequestSchema = TabGroupIdRequestSchema.extend({
+  index: z.number().int().min(0, '그룹 위치는 0 이상이어야 합니다'),
+  windowId: z.string().min(1).optional(),
+});
+
 // History 요청 검증 스키마
 export const HistoryEntrySchema = z.object({
   url: z.string().url('유효한 URL이 아닙니다'),
@@ -119,17 +214,60 @@ export const HistoryEntrySchema = z.object({
   visitedAt: z.number().or(z.instanceof(Date)).optional(),
   duration: z.number().optional(),
   favicon: z.string().optional(),
+  transition: z.enum(['link', 'typed', 'bookmark', 'reload', 'redirect']).optional(),
+  referrerVisitId: z.string().min(1).optional(),
 });
 
 export const HistorySearchRequestSchema = z.object({
   query: z.string().min(1, '검색 쿼리는 필수입니다'),
   limit: z.number().positive().optional(),
+  cursor: z.string().min(1).optional(),
 });
 
 export const HistoryIdRequestSchema = z.object({
   id: z.string().min(1, 'History ID는 필수입니다'),
 });
 
+export const HistoryFrequentSitesRequestSchema = z.object({
+  limit: z.number().int().positive().max(100).optional(),
+});
+
+export const HistoryJourneysRequestSchema = z.object({
+  limit: z.number().int().positive().max(100).optional(),
+  offset: z.number().int().nonnegative().optional(),
+});
+
+export const HistoryTimePerSiteRequestSchema = z.object({
+  startTime: z.number().int().nonnegative().optional(),
+  endTime: z.number().int().nonnegative().optional(),
+  limit: z.number().int().positive().max(100).optional(),
+});
+
+export const BrowsingDataClearRequestSchema = z.object({
+  timeRange: z.enum(['lastHour', 'last24Hours', 'last7Days', 'last4Weeks', 'allTime']),
+  site: z.string().min(1).max(253).optional(),
+  dataTypes: z
+    .array(z.enum(['history', 'cache', 'cookies', 'favicons', 'sessions']))
+    .min(1, '삭제할 항목을 하나 이상 선택해야 합니다'),
+});
+
+export const ImportRequestSchema = z.object({
+  source: z.enum(['chrome', 'firefox', 'bookmarksHtml']),
+  dataTypes: z
+    .array(z.enum(['bookmarks', 'history']))
+    .min(1, '가져올 항목을 하나 이상 선택해야 합니다'),
+});
+
+export const BookmarkExportRequestSchema = z.object({
+  format: z.enum(['html', 'json']),
+});
+
+export const HistoryExportRequestSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  startTime: z.number().int().nonnegative().optional(),
+  endTime: z.number().int().nonnegative().optional(),
+});
+
 export const HistoryDateRangeSchema = z.object({
   startTime: z.number().positive(),
   endTime: z.number().positive(),
@@ -139,8 +277,8 @@ export const HistoryDateRangeSchema = z.object({
 export const BookmarkCreateRequestSchema = z.object({
   url: z.string().url('유효한 URL이 아닙니다'),
   title: z.string().min(1, '제목은 필수입니다'),
-  folder: z.string().optional(),
-  tags: z.array(z.string()).optional(),
+  folderId: z.string().min(1).optional(),
+  tags: z.array(z.string().max(100)).max(50).optional(),
 });
 
 export const BookmarkUpdateRequestSchema = z.object({
@@ -148,8 +286,9 @@ export const BookmarkUpdateRequestSchema = z.object({
   updates: z.object({
     url: z.string().url().optional(),
     title: z.string().optional(),
-    folder: z.string().optional(),
-    tags: z.array(z.string()).optional(),
+    description: z.string().max(2000).optional(),
+    folderId: z.string().min(1).nullable().optional(),
+    tags: z.array(z.string().max(100)).max(50).optional(),
   }),
 });
 
@@ -157,17 +296,151 @@ export const BookmarkIdRequestSchema = z.object({
   id: z.string().min(1, 'Bookmark ID는 필수입니다'),
 });
 
-export const BookmarkFolderRequestSchema = z.object({
-  folderName: z.string().min(1, '폴더명은 필수입니다'),
+export const BookmarkMoveRequestSchema = z.object({
+  bookmarkId: z.string().min(1, 'Bookmark ID는 필수입니다'),
+  folderId: z.string().min(1).nullable(),
+  index: z.number().int().nonnegative().optional(),
+});
+
+export const BookmarkFolderCreateRequestSchema = z.object({
+  name: z.string().trim().min(1, '폴더명은 필수입니다').max(100),
+  parentId: z.string().min(1).optional(),
+});
+
+export const BookmarkFolderUpdateRequestSchema = z.object({
+  folderId: z.string().min(1, 'Folder ID는 필수입니다'),
+  name: z.string().trim().min(1, '폴더명은 필수입니다').max(100),
+});
+
+export const BookmarkFolderMoveRequestSchema = z.object({
+  folderId: z.string().min(1, 'Folder ID는 필수입니다'),
+  parentId: z.string().min(1).nullable(),
+  index: z.number().int().nonnegative().optional(),
+});
+
+export const BookmarkFolderIdRequestSchema = z.object({
+  folderId: z.string().min(1, 'Folder ID는 필수입니다'),
+});
+
+export const BookmarkTagRenameRequestSchema = z.object({
+  from: z.string().min(1, '태그 이름은 필수입니다'),
+  to: z.string().trim().min(1, '새 태그 이름은 필수입니다').max(100),
+});
+
+export const BookmarkTagMergeRequestSchema = z.object({
+  tags: z.array(z.string().min(1)).min(1, '병합할 태그를 선택해주세요'),
+  into: z.string().trim().min(1, '남길 태그 이름은 필수입니다').max(100),
 });
 
 export const BookmarkSearchRequestSchema = z.object({
   query: z.string().min(1, '검색 쿼리는 필수입니다'),
 });
 
+// Settings 요청 검증 스키마 (값 검증은 SettingsService 스키마에서)
+export const SettingsKeyRequestSchema = z.object({
+  key: z.string().min(1, '설정 키는 필수입니다'),
+});
+
+export const SettingsSetRequestSchema = z.object({
+  key: z.string().min(1, '설정 키는 필수입니다'),
+  value: z.unknown(),
+});
+
+export const SettingsResetRequestSchema = z
+  .object({
+    keys: z.array(z.string().min(1)).optional(),
+  })
+  .optional();
+
+export const SettingsThemeRequestSchema = z.object({
+  theme: z.enum(['light', 'dark', 'auto']),
+});
+
+export const SettingsProfileNameSchema = z
+  .string()
+  .trim()
+  .min(1, '프로필 이름은 필수입니다')
+  .max(50, '프로필 이름은 50자 이하여야 합니다');
+
+export const SettingsProfileCreateRequestSchema = z.object({
+  name: SettingsProfileNameSchema,
+});
+
+export const SettingsProfileRenameRequestSchema = z.object({
+  id: z.string().min(1, '프로필 ID는 필수입니다'),
+  name: SettingsProfileNameSchema,
+});
+
+export const SettingsProfileIdRequestSchema = z.object({
+  id: z.string().min(1, '프로필 ID는 필수입니다'),
+});
+
+// 사이트별 설정 요청 검증 스키마
+export const SiteRevokeRequestSchema = z.object({
+  origin: z.string().min(1, '사이트 주소는 필수입니다'),
+  keys: z
+    .array(
+      z.enum([
+        'zoomLevel',
+        'notifications',
+        'camera',
+        'microphone',
+        'geolocation',
+        'popups',
+        'autoplay',
+        'cookies',
+        'javascript',
+      ])
+    )
+    .optional(),
+});
+
+// 파일 요청 검증 스키마
+export const FilePathSchema = z
+  .string()
+  .min(1, '파일 경로는 필수입니다')
+  .max(4096, '파일 경로가 너무 깁니다');
+
+export const FileEncodingSchema = z.enum(['utf8', 'utf16le', 'base64']).optional();
+
+export const FileDialogFiltersSchema = z
+  .array(
+    z.object({
+      name: z.string().max(100),
+      extensions: z.array(z.string().regex(/^(\*|[A-Za-z0-9]+)$/, '확장자 형식이 아닙니다')),
+    })
+  )
+  .max(20)
+  .optional();
+
+export const FileOpenRequestSchema = z.object({
+  path: FilePathSchema,
+  encoding: FileEncodingSchema,
+});
+
+export const FileSaveRequestSchema = z.object({
+  path: FilePathSchema,
+  content: z.string(),
+  encoding: FileEncodingSchema,
+});
+
+export const FileOpenDialogRequestSchema = z.object({
+  defaultPath: FilePathSchema.optional(),
+  filters: FileDialogFiltersSchema,
+  multiSelect: z.boolean().optional(),
+});
+
+export const FileSaveDialogRequestSchema = z.object({
+  defaultPath: FilePathSchema.optional(),
+  filters: FileDialogFiltersSchema,
+});
+
 /**
  * 타입 추출 (Zod 스키마에서 TypeScript 타입 생성)
  */
+export type BrowserNavigateRequest = z.infer<typeof BrowserNavigateRequestSchema>;
+export type BrowserFindInPageRequest = z.infer<typeof BrowserFindInPageRequestSchema>;
+export type BrowserPrintRequest = z.infer<typeof BrowserPrintRequestSchema>;
 export type TabCreateRequest = z.infer<typeof TabCreateRequestSchema>;
 export type TabUpdateRequest = z.infer<typeof TabUpdateRequestSchema>;
 export type HistoryEntry = z.infer<typeof HistoryEntrySchema>;
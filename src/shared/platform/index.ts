@@ -70,5 +70,6 @@ export {
   validateConfigFilePermissions,
   safeEnsureDirectory,
   safeWriteFile,
+  safeWriteFileStream,
   SafePath,
 } from './path-safety';
@@ -17,6 +17,8 @@
 
 import fs from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 
 // ============================================================================
 // 경로 검증 (Path Validation)
@@ -193,12 +195,14 @@ export function isSymlink(filePath: string): boolean {
  * 
  * @param filePath - 읽을 파일
  * @param expectedBase - 예상 기본 경로 (선택사항)
+ * @param encoding - 파일 인코딩 (기본 utf-8)
  * @returns 파일 내용
  * @throws Error - 심링크 또는 범위 초과
  */
 export function safeReadFile(
   filePath: string,
-  expectedBase?: string
+  expectedBase?: string,
+  encoding: BufferEncoding = 'utf-8'
 ): string {
   // 1. 실제 경로 얻기 (심링크 추적 X)
   const realPath = getRealPath(filePath);
@@ -213,7 +217,7 @@ export function safeReadFile(
   }
 
   // 3. 파일 읽기
-  return fs.readFileSync(realPath, 'utf-8');
+  return fs.readFileSync(realPath, encoding);
 }
 
 // ============================================================================
@@ -365,11 +369,13 @@ export function safeEnsureDirectory(
  * @param filePath - 쓸 파일
  * @param content - 파일 내용
  * @param expectedBase - 예상 기본 경로 (선택사항)
+ * @param encoding - 파일 인코딩 (기본 utf-8)
  */
 export function safeWriteFile(
   filePath: string,
   content: string,
-  expectedBase?: string
+  expectedBase?: string,
+  encoding: BufferEncoding = 'utf-8'
 ): void {
   // 범위 확인
   if (expectedBase) {
@@ -384,7 +390,7 @@ export function safeWriteFile(
   // 임시 파일에 쓰기 (원자적 쓰기)
   const tempPath = filePath + '.tmp';
   try {
-    fs.writeFileSync(tempPath, content, { mode: 0o600 });
+    fs.writeFileSync(tempPath, content, { mode: 0o600, encoding });
     fs.renameSync(tempPath, filePath);
   } catch (error) {
     // 실패 시 임시 파일 정리
@@ -397,6 +403,48 @@ export function safeWriteFile(
   }
 }
 
+/**
+ * 안전한 파일 스트림 쓰기 (원자적)
+ *
+ * 내용을 조각 단위로 임시 파일에 쓴 뒤 rename
+ * (큰 내보내기 파일을 메모리에 모두 올리지 않기 위함)
+ *
+ * @param filePath - 쓸 파일
+ * @param chunks - 파일 내용 조각
+ * @param expectedBase - 예상 기본 경로 (선택사항)
+ */
+export async function safeWriteFileStream(
+  filePath: string,
+  chunks: AsyncIterable<string> | Iterable<string>,
+  expectedBase?: string
+): Promise<void> {
+  // 범위 확인
+  if (expectedBase) {
+    const resolved = path.resolve(filePath);
+    if (!isPathInBounds(expectedBase, resolved)) {
+      throw new Error(
+        `File outside allowed bounds: ${resolved}`
+      );
+    }
+  }
+
+  // 임시 파일에 쓰기 (원자적 쓰기)
+  const tempPath = filePath + '.tmp';
+  try {
+    await pipeline(
+      Readable.from(chunks),
+      fs.createWriteStream(tempPath, { mode: 0o600, encoding: 'utf-8' })
+    );
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    // 실패 시 임시 파일 정리
+    await fs.promises.unlink(tempPath).catch(() => {
+      // 무시
+    });
+    throw error;
+  }
+}
+
 // ============================================================================
 // 고급: 경로 제한 (Directory Jail)
 // ============================================================================
@@ -428,17 +476,17 @@ export class SafePath {
   /**
    * 파일 읽기 (범위 체크)
    */
-  read(relativePath: string): string {
+  read(relativePath: string, encoding: BufferEncoding = 'utf-8'): string {
     const fullPath = this.resolve(relativePath);
-    return safeReadFile(fullPath, this.baseDir);
+    return safeReadFile(fullPath, this.baseDir, encoding);
   }
 
   /**
    * 파일 쓰기 (범위 체크)
    */
-  write(relativePath: string, content: string): void {
+  write(relativePath: string, content: string, encoding: BufferEncoding = 'utf-8'): void {
     const fullPath = this.resolve(relativePath);
-    safeWriteFile(fullPath, content, this.baseDir);
+    safeWriteFile(fullPath, content, this.baseDir, encoding);
   }
 
   /**
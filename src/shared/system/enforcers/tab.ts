@@ -8,20 +8,19 @@
  * - 최악의 경우에만 가장 오래된 배경 탭 제거
  */
 
-/**
- * 탭 상태
- */
-export type TabState = 'active' | 'background' | 'suspended' | 'discarded';
+import type { TabState } from '../../types/domain';
+
+export type { TabState };
 
 /**
  * 탭 정보
  */
 export interface TabInfo {
-  id: number;
+  id: string; // BrowserTab.id
   title: string;
   url: string;
   state: TabState;
-  memoryUsageMB: number;
+  memoryUsageMB: number; // 탭 렌더러 프로세스 메모리
   lastAccessedMs: number; // 마지막 접근 시간
   createdMs: number; // 탭 생성 시간
 }
@@ -61,7 +60,7 @@ export interface TabEnforcerListener {
  */
 export class TabEnforcer {
   private listeners: TabEnforcerListener = {};
-  private tabs: Map<number, TabInfo> = new Map();
+  private tabs: Map<string, TabInfo> = new Map();
 
   /**
    * 리스너 등록
@@ -81,7 +80,7 @@ export class TabEnforcer {
   /**
    * 탭 업데이트
    */
-  public updateTab(tabId: number, updates: Partial<TabInfo>): void {
+  public updateTab(tabId: string, updates: Partial<TabInfo>): void {
     const tab = this.tabs.get(tabId);
     if (tab) {
       Object.assign(tab, updates);
@@ -91,10 +90,17 @@ export class TabEnforcer {
   /**
    * 탭 제거
    */
-  public unregisterTab(tabId: number): void {
+  public unregisterTab(tabId: string): void {
     this.tabs.delete(tabId);
   }
 
+  /**
+   * 탭 정보 조회
+   */
+  public getTab(tabId: string): TabInfo | undefined {
+    return this.tabs.get(tabId);
+  }
+
   /**
    * 메모리 부하에 따른 탭 자동 조정
    *
@@ -217,22 +223,11 @@ export class TabEnforcer {
    * 단일 탭 Suspend
    *
    * 실행 순서:
-   * 1. Renderer process에서 탭 콘텐츠 정리
-   * 2. 메모리 반환
-   * 3. 탭 상태를 'suspended'로 변경
-   * 4. 사용자가 다시 클릭하면 자동 복구
+   * 1. 탭 상태를 'suspended'로 변경
+   * 2. onTabSuspend 리스너가 실제 페이지 동결 수행 (main: TabService)
+   * 3. 사용자가 다시 클릭하면 자동 복구
    */
   private async suspendTab(tab: TabInfo): Promise<void> {
-    // 실제로는 Renderer process에 IPC로 요청
-    // await ipcRenderer.invoke('tab:suspend', { tabId: tab.id });
-
-    // Renderer에서 실행할 로직:
-    // 1. iframe 내용 정리
-    // 2. EventListener 제거
-    // 3. WebSocket/EventSource 종료
-    // 4. ServiceWorker 정리
-    // 5. IndexedDB 임시 데이터 정리
-
     tab.state = 'suspended';
     console.log(`[TabEnforcer] 탭 Suspend: ${tab.title} (${tab.url})`);
     this.listeners.onTabSuspend?.(tab);
@@ -242,15 +237,12 @@ export class TabEnforcer {
    * 탭 자동 복구 (사용자가 탭 클릭할 때)
    *
    * 정책:
-   * - Suspended 탭을 클릭하면 자동으로 복구
+   * - Suspended/Discarded 탭을 클릭하면 자동으로 복구 (Discarded는 다시 로드)
    * - 복구 시간: 100-500ms (사용자가 거의 느끼지 못함)
    */
-  public async resumeTab(tabId: number): Promise<void> {
+  public async resumeTab(tabId: string): Promise<void> {
     const tab = this.tabs.get(tabId);
-    if (!tab || tab.state !== 'suspended') return;
-
-    // 실제로는 Renderer process에 IPC로 요청
-    // await ipcRenderer.invoke('tab:resume', { tabId });
+    if (!tab || (tab.state !== 'suspended' && tab.state !== 'discarded')) return;
 
     tab.state = 'active';
     tab.lastAccessedMs = Date.now();
@@ -264,7 +256,7 @@ export class TabEnforcer {
    * 정책:
    * - Suspend 상태의 탭만 Discard
    * - 가장 오래 Suspend된 탭부터
-   * - 탭을 완전히 제거 (다시 복구 불가)
+   * - 탭 콘텐츠를 완전히 해제 (탭 자체는 유지, 다시 선택하면 새로 로드)
    * - 사용자에게 알림
    *
    * @param maxCount - 최대 Discard할 탭 수
@@ -290,15 +282,13 @@ export class TabEnforcer {
   /**
    * 단일 탭 Discard
    *
-   * 주의: 탭을 완전히 제거 (히스토리는 유지)
+   * 주의: 탭 콘텐츠(webContents)만 해제하고 탭 등록은 유지 (히스토리는 유지)
    */
   private async discardTab(tab: TabInfo): Promise<void> {
-    // 실제로는 Renderer process에 IPC로 요청
-    // await ipcRenderer.invoke('tab:discard', { tabId: tab.id });
-
-    this.tabs.delete(tab.id);
     console.log(`[TabEnforcer] 탭 Discard: ${tab.title} (메모리 ~${tab.memoryUsageMB}MB 반환)`);
+    tab.state = 'discarded';
     this.listeners.onTabDiscard?.(tab);
+    tab.memoryUsageMB = 0;
   }
 
   /**
@@ -5,6 +5,16 @@
  * IPC 통신과 무관하게 데이터 모델을 나타냄.
  */
 
+/**
+ * 탭 수명 주기 상태
+ *
+ * - active: 선택된 탭
+ * - background: 뷰가 살아있는 배경 탭
+ * - suspended: 페이지 동결 (메모리는 유지, 실행 중지)
+ * - discarded: webContents 파괴 (다시 선택하면 새로 로드)
+ */
+export type TabState = 'active' | 'background' | 'suspended' | 'discarded';
+
 /**
  * 브라우저 탭 정보
  * 
@@ -18,24 +28,180 @@ export interface BrowserTab {
   isActive: boolean;
   isMuted: boolean;
   isPinned: boolean;
+  index: number; // 윈도우 내 위치 (고정 탭이 항상 앞)
+  windowId: string | null;
+  groupId: string | null; // 소속 탭 그룹 (고정 탭은 항상 null)
+  state: TabState;
+  navigationIndex: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 탭 그룹 색상
+ */
+export type TabGroupColor =
+  | 'grey'
+  | 'blue'
+  | 'red'
+  | 'yellow'
+  | 'green'
+  | 'pink'
+  | 'purple'
+  | 'cyan'
+  | 'orange';
+
+/**
+ * 탭 그룹
+ *
+ * Prisma TabGroup 모델과 일치 (멤버 탭은 ID 목록, 탭 순서대로)
+ */
+export interface TabGroup {
+  id: string;
+  name: string;
+  color: TabGroupColor;
+  collapsed: boolean;
+  windowId: string | null;
+  tabIds: string[];
   createdAt: Date;
   updatedAt: Date;
 }
 
 /**
- * 히스토리 항목
+ * 탭 네비게이션 항목 (뒤로/앞으로 스택)
+ *
+ * Prisma TabNavigationEntry 모델과 일치
+ */
+export interface TabNavigationEntry {
+  id: string;
+  tabId: string;
+  index: number;
+  url: string;
+  title: string;
+  scrollX: number;
+  scrollY: number;
+  pageState?: string | null;
+  timestamp: Date;
+}
+
+/**
+ * 최근 닫은 탭
+ *
+ * Prisma RecentlyClosedTab 모델과 일치 (네비게이션 스택은 파싱된 형태)
+ */
+export interface RecentlyClosedTab {
+  id: string;
+  originalIndex: number;
+  url: string;
+  title: string;
+  favicon?: string | null;
+  isPinned: boolean;
+  isMuted: boolean;
+  navigationIndex: number;
+  navigationEntries: Array<{
+    url: string;
+    title: string;
+    pageState?: string | null;
+    scrollX?: number;
+    scrollY?: number;
+  }>;
+}
+
+/**
+ * 최근 닫은 항목 (탭 하나 또는 윈도우 전체)
+ *
+ * Prisma RecentlyClosedEntry 모델과 일치
+ */
+export interface RecentlyClosedEntry {
+  id: string;
+  type: 'tab' | 'window';
+  closedAt: Date;
+  tabs: RecentlyClosedTab[];
+}
+
+/**
+ * 작업 관리자: 프로세스별 리소스 사용량
+ *
+ * app.getAppMetrics() 기준 (메모리는 working set)
+ */
+export interface TaskManagerProcess {
+  pid: number;
+  type: string; // Browser, Tab, GPU, Utility 등
+  memoryMB: number;
+  cpuPercent: number;
+  tabIds: string[]; // 이 프로세스를 렌더러로 쓰는 탭
+}
+
+/**
+ * 작업 관리자: 탭별 리소스 사용량
+ * - 여러 탭이 렌더러 프로세스를 공유하면 메모리/CPU는 탭 수로 나눠 배분
+ * - 뷰가 없는 탭(폐기됨)은 pid가 null이고 사용량 0
+ */
+export interface TaskManagerTab {
+  tabId: string;
+  title: string;
+  url: string;
+  state: TabState;
+  pid: number | null;
+  memoryMB: number;
+  cpuPercent: number;
+  networkBytes: number; // 뷰 생성 이후 받은 응답 바이트 (Content-Length 기준)
+}
+
+/**
+ * 작업 관리자 스냅샷
+ */
+export interface TaskManagerSnapshot {
+  processes: TaskManagerProcess[];
+  tabs: TaskManagerTab[];
+  totalMemoryMB: number;
+  timestamp: number;
+}
+
+/**
+ * 방문 전환 유형 (frecency 보너스 결정)
+ * - link: 링크 클릭 / typed: 주소창 직접 입력 / bookmark: 북마크에서 열기
+ * - reload: 새로고침 / redirect: 리다이렉트로 도착
+ */
+export type HistoryTransition = 'link' | 'typed' | 'bookmark' | 'reload' | 'redirect';
+
+/**
+ * 히스토리 항목 (방문 1회)
  * 
- * Prisma History 모델과 일치
+ * Prisma Visit 모델 + 방문한 Url 정보
  * id와 title은 선택사항 (저장 시 서버에서 생성 가능)
  */
 export interface HistoryEntry {
-  id?: string;
+  id?: string; // 방문(Visit) ID
   url: string;
   title?: string;
   favicon?: string | null;
   visitedAt: Date;
-  duration: number; // 방문 지속 시간 (ms)
-  visits?: number;
+  duration: number; // 체류 시간 (ms)
+  visits?: number; // 같은 URL 누적 방문 횟수
+  transition?: HistoryTransition;
+  referrerVisitId?: string | null; // 이 방문으로 이어진 이전 방문 ID
+}
+
+/**
+ * 히스토리 검색 결과 항목 (URL 단위)
+ */
+export interface HistorySearchItem {
+  id: string; // Url ID
+  url: string;
+  title: string;
+  favicon: string | null;
+  lastVisitedAt: Date;
+  visitCount: number;
+  score: number; // 텍스트 일치도 × frecency
+}
+
+/**
+ * 히스토리 검색 결과 페이지
+ */
+export interface HistorySearchResult {
+  items: HistorySearchItem[];
+  nextCursor: string | null; // 다음 페이지 커서 (마지막 페이지면 null)
 }
 
 /**
@@ -47,32 +213,314 @@ export interface Bookmark {
   id: string;
   url: string;
   title: string;
-  folder?: string;
+  folderId: string | null; // null = 최상위
+  position: number; // 폴더 안의 위치 (0부터)
   description?: string | null;
   favicon?: string | null;
+  tags: string[]; // 태그 이름 (이름순)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 태그별 북마크 수
+ */
+export interface BookmarkTagCount {
+  name: string;
+  count: number;
+}
+
+/**
+ * 북마크 폴더 (parentId로 중첩)
+ */
+export interface BookmarkFolder {
+  id: string;
+  parentId: string | null; // null = 최상위
+  name: string;
+  position: number; // 같은 부모 안의 위치 (0부터)
   createdAt: Date;
   updatedAt: Date;
 }
 
 /**
- * 자주 방문한 사이트
+ * 북마크 폴더 재귀 삭제 결과
+ */
+export interface BookmarkFolderDeleteResult {
+  folderCount: number; // 삭제한 폴더 수 (자기 자신 포함)
+  bookmarkCount: number; // 함께 삭제한 북마크 수
+}
+
+/**
+ * 자주 방문한 사이트 (frecency순)
  */
 export interface FrequentSite {
   url: string;
-  count: number;
+  title: string;
+  favicon: string | null;
+  count: number; // 방문 횟수
+  frecency: number;
+}
+
+/**
+ * 사이트별 체류 시간 (포그라운드 기준)
+ */
+export interface SiteTimeSpent {
+  site: string; // 호스트 (www. 제거)
+  totalTimeMs: number;
+  visitCount: number; // 체류 시간이 측정된 방문 수
+}
+
+/**
+ * 여정 대표 페이지
+ */
+export interface JourneyPage {
+  url: string;
+  title: string;
+  favicon: string | null;
+  visitCount: number; // 여정 안에서의 방문 횟수
+}
+
+/**
+ * 여정 (시간과 주제로 묶은 탐색 세션)
+ */
+export interface HistoryJourney {
+  id: string;
+  label: string;
+  startedAt: Date;
+  endedAt: Date;
+  visitCount: number;
+  topPages: JourneyPage[];
+}
+
+/**
+ * 인터넷 사용 기록 삭제 기간 (이 시각 이후 데이터 삭제)
+ */
+export type BrowsingDataTimeRange =
+  | 'lastHour'
+  | 'last24Hours'
+  | 'last7Days'
+  | 'last4Weeks'
+  | 'allTime';
+
+/**
+ * 인터넷 사용 기록 삭제 대상
+ * - history: 방문 기록
+ * - cache: HTTP 캐시
+ * - cookies: 쿠키
+ * - favicons: 방문 기록의 파비콘
+ * - sessions: 최근 닫은 탭, 복원 대기 세션
+ */
+export type BrowsingDataType = 'history' | 'cache' | 'cookies' | 'favicons' | 'sessions';
+
+/**
+ * 인터넷 사용 기록 삭제 옵션
+ */
+export interface BrowsingDataClearOptions {
+  timeRange: BrowsingDataTimeRange;
+  site?: string; // "이 사이트 삭제" (하위 도메인 포함)
+  dataTypes: BrowsingDataType[];
 }
 
 /**
- * 앱 설정
+ * 인터넷 사용 기록 삭제 진행 상황 (단계 완료마다 전송)
+ */
+export interface BrowsingDataProgress {
+  step: BrowsingDataType;
+  completedSteps: number;
+  totalSteps: number;
+}
+
+/**
+ * 인터넷 사용 기록 삭제 결과
+ */
+export interface BrowsingDataClearResult {
+  cleared: BrowsingDataType[];
+  removedVisits: number;
+  removedFavicons: number;
+  removedSessions: number;
+  removedCookies: number;
+}
+
+/**
+ * 가져오기 원본
+ * - chrome: Chromium 계열 프로필 폴더 (Bookmarks, History)
+ * - firefox: Firefox 프로필 폴더 (places.sqlite)
+ * - bookmarksHtml: Netscape 북마크 HTML 파일
+ */
+export type ImportSource = 'chrome' | 'firefox' | 'bookmarksHtml';
+
+/**
+ * 가져오기 대상
+ */
+export type ImportDataType = 'bookmarks' | 'history';
+
+/**
+ * 가져오기 옵션
+ */
+export interface ImportOptions {
+  source: ImportSource; // 프로필 폴더/HTML 파일은 main에서 열기 대화상자로 선택
+  dataTypes: ImportDataType[];
+}
+
+/**
+ * 가져오기 진행 상황 (배치 저장마다 전송)
+ */
+export interface ImportProgress {
+  dataType: ImportDataType;
+  processed: number;
+  total: number | null; // 방문 기록은 미리 알 수 없음
+}
+
+/**
+ * 가져오기 결과 (skipped = 이미 있던 항목)
+ */
+export interface ImportResult {
+  canceled: boolean; // 대화상자 취소 (나머지는 빈 값)
+  imported: ImportDataType[];
+  importedBookmarks: number;
+  skippedBookmarks: number;
+  importedVisits: number;
+  skippedVisits: number;
+}
+
+/**
+ * 북마크 내보내기 형식
+ * - html: Netscape 북마크 HTML (다른 브라우저에서 가져오기 가능)
+ * - json: Aside 북마크 JSON (format, version 포함)
+ */
+export type BookmarkExportFormat = 'html' | 'json';
+
+/**
+ * 방문 기록 내보내기 형식
+ */
+export type HistoryExportFormat = 'csv' | 'json';
+
+/**
+ * 방문 기록 내보내기 옵션 (기간 생략 시 전체)
+ */
+export interface HistoryExportOptions {
+  format: HistoryExportFormat;
+  startTime?: number | undefined; // ms
+  endTime?: number | undefined; // ms
+}
+
+/**
+ * 내보내기 결과 (저장 대화상자를 취소하면 canceled)
+ */
+export interface ExportResult {
+  canceled: boolean;
+  filePath: string | null;
+  count: number; // 내보낸 북마크/방문 수 (설정 묶음은 사이트별 설정 수)
+}
+
+/**
+ * 테마 (auto = 시스템 설정 따름)
+ */
+export type ThemeSource = 'light' | 'dark' | 'auto';
+
+/**
+ * 지원 언어
+ */
+export type AppLanguage = 'en' | 'ko' | 'ja' | 'zh';
+
+/**
+ * 앱 설정 (SettingsService 스키마, 모든 키 필수)
  */
 export interface AppSettings {
-  theme: 'light' | 'dark' | 'auto';
-  zoomLevel: number;
-  language: string;
-  startPage?: string;
+  theme: ThemeSource;
+  zoomLevel: number; // 0.5 ~ 3.0
+  language: AppLanguage;
+  startPage: string; // about:blank 또는 http(s) URL
+  restorePreviousSession: boolean;
   enableNotifications: boolean;
   enableCookies: boolean;
-  cacheSize?: number;
+  cacheSize: number; // MB (100 ~ 5000)
+  historyAutoDeleteDays: number; // 0 = 자동 삭제 안 함
+  keyboardShortcuts: KeyboardShortcuts; // 기본 단축키 덮어쓰기
+}
+
+/**
+ * 단축키 덮어쓰기 (명령 ID → Electron accelerator, 빈 문자열 = 단축키 끔)
+ */
+export type KeyboardShortcuts = Record<string, string>;
+
+/**
+ * 설정 키
+ */
+export type SettingKey = keyof AppSettings;
+
+/**
+ * 설정 변경 알림 (settings:changed)
+ */
+export interface SettingsChange {
+  keys: SettingKey[]; // 값이 바뀐 키
+  settings: AppSettings; // 변경 후 전체 설정
+  previous: AppSettings; // 변경 전 전체 설정
+}
+
+/**
+ * 설정 프로필 (이름 있는 설정 묶음, 하나만 사용 중)
+ */
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 설정 묶음 가져오기에서 건너뛴 항목
+ */
+export interface SettingsImportIssue {
+  section: 'settings' | 'siteSettings';
+  key: string; // 설정 키 또는 사이트 origin
+  reason: string;
+}
+
+/**
+ * 설정 묶음 가져오기 결과
+ */
+export interface SettingsImportResult {
+  canceled: boolean; // 대화상자 취소 (나머지는 빈 값)
+  settings: SettingKey[]; // 적용한 설정 키
+  sites: number; // 적용한 사이트별 설정 수
+  skipped: SettingsImportIssue[];
+}
+
+/**
+ * 사이트별 권한
+ */
+export type SitePermission =
+  | 'notifications'
+  | 'camera'
+  | 'microphone'
+  | 'geolocation'
+  | 'popups'
+  | 'autoplay'
+  | 'cookies'
+  | 'javascript';
+
+/**
+ * 사이트 권한 상태 (ask = 사용할 때마다 묻기)
+ */
+export type SitePermissionState = 'ask' | 'allow' | 'block';
+
+/**
+ * 사이트별 설정 키 (해제 대상)
+ */
+export type SiteSettingKey = SitePermission | 'zoomLevel';
+
+/**
+ * 사이트별 설정 (origin 단위 덮어쓰기)
+ *
+ * Prisma SiteSetting 모델 (값이 있는 항목만)
+ */
+export interface SiteSettings {
+  origin: string;
+  zoomLevel: number | null; // null = 기본 줌
+  permissions: Partial<Record<SitePermission, SitePermissionState>>; // 없는 권한 = 기본값
+  updatedAt: Date;
 }
 
 /**
@@ -16,9 +16,53 @@ export type { ElectronAPI } from './electron';
 // ===== 도메인 타입 =====
 export type {
   BrowserTab,
+  TabState,
+  TabNavigationEntry,
+  RecentlyClosedEntry,
+  RecentlyClosedTab,
+  TabGroup,
+  TabGroupColor,
+  TaskManagerProcess,
+  TaskManagerTab,
+  TaskManagerSnapshot,
+  HistoryTransition,
   HistoryEntry,
+  HistorySearchItem,
+  HistorySearchResult,
+  SiteTimeSpent,
+  JourneyPage,
+  HistoryJourney,
+  BrowsingDataTimeRange,
+  BrowsingDataType,
+  BrowsingDataClearOptions,
+  BrowsingDataProgress,
+  BrowsingDataClearResult,
+  ImportSource,
+  ImportDataType,
+  ImportOptions,
+  ImportProgress,
+  ImportResult,
+  BookmarkExportFormat,
+  HistoryExportFormat,
+  HistoryExportOptions,
+  ExportResult,
   Bookmark,
+  BookmarkFolder,
+  BookmarkFolderDeleteResult,
+  BookmarkTagCount,
   AppSettings,
+  AppLanguage,
+  SettingKey,
+  SettingsChange,
+  KeyboardShortcuts,
+  SettingsProfile,
+  SettingsImportIssue,
+  SettingsImportResult,
+  ThemeSource,
+  SitePermission,
+  SitePermissionState,
+  SiteSettingKey,
+  SiteSettings,
   FileDialogOptions,
   AppInfo,
 } from './domain';